@@ -513,6 +513,7 @@ public struct AgentParams: Codable, Sendable {
     public let timeout: Int?
     public let lane: String?
     public let extrasystemprompt: String?
+    public let workspacedir: String?
     public let inputprovenance: [String: AnyCodable]?
     public let idempotencykey: String
     public let label: String?
@@ -539,6 +540,7 @@ public struct AgentParams: Codable, Sendable {
         timeout: Int?,
         lane: String?,
         extrasystemprompt: String?,
+        workspacedir: String?,
         inputprovenance: [String: AnyCodable]?,
         idempotencykey: String,
         label: String?,
@@ -564,6 +566,7 @@ public struct AgentParams: Codable, Sendable {
         self.timeout = timeout
         self.lane = lane
         self.extrasystemprompt = extrasystemprompt
+        self.workspacedir = workspacedir
         self.inputprovenance = inputprovenance
         self.idempotencykey = idempotencykey
         self.label = label
@@ -590,6 +593,7 @@ public struct AgentParams: Codable, Sendable {
         case timeout
         case lane
         case extrasystemprompt = "extraSystemPrompt"
+        case workspacedir = "workspaceDir"
         case inputprovenance = "inputProvenance"
         case idempotencykey = "idempotencyKey"
         case label
@@ -1094,6 +1098,47 @@ public struct SessionsResolveParams: Codable, Sendable {
     }
 }
 
+public struct SessionMcpServer: Codable, Sendable {
+    public let name: String
+    public let command: String?
+    public let args: [String]?
+    public let env: [String: AnyCodable]?
+    public let cwd: String?
+    public let url: String?
+    public let headers: [String: AnyCodable]?
+    public let timeoutms: Int?
+
+    public init(
+        name: String,
+        command: String?,
+        args: [String]?,
+        env: [String: AnyCodable]?,
+        cwd: String?,
+        url: String?,
+        headers: [String: AnyCodable]?,
+        timeoutms: Int?
+    ) {
+        self.name = name
+        self.command = command
+        self.args = args
+        self.env = env
+        self.cwd = cwd
+        self.url = url
+        self.headers = headers
+        self.timeoutms = timeoutms
+    }
+    private enum CodingKeys: String, CodingKey {
+        case name
+        case command
+        case args
+        case env
+        case cwd
+        case url
+        case headers
+        case timeoutms = "timeoutMs"
+    }
+}
+
 public struct SessionsPatchParams: Codable, Sendable {
     public let key: String
     public let label: AnyCodable?
@@ -1111,6 +1156,7 @@ public struct SessionsPatchParams: Codable, Sendable {
     public let spawndepth: AnyCodable?
     public let sendpolicy: AnyCodable?
     public let groupactivation: AnyCodable?
+    public let mcpservers: AnyCodable?
 
     public init(
         key: String,
@@ -1128,7 +1174,8 @@ public struct SessionsPatchParams: Codable, Sendable {
         spawnedby: AnyCodable?,
         spawndepth: AnyCodable?,
         sendpolicy: AnyCodable?,
-        groupactivation: AnyCodable?
+        groupactivation: AnyCodable?,
+        mcpservers: AnyCodable?
     ) {
         self.key = key
         self.label = label
@@ -1146,6 +1193,7 @@ public struct SessionsPatchParams: Codable, Sendable {
         self.spawndepth = spawndepth
         self.sendpolicy = sendpolicy
         self.groupactivation = groupactivation
+        self.mcpservers = mcpservers
     }
     private enum CodingKeys: String, CodingKey {
         case key
@@ -1164,6 +1212,7 @@ public struct SessionsPatchParams: Codable, Sendable {
         case spawndepth = "spawnDepth"
         case sendpolicy = "sendPolicy"
         case groupactivation = "groupActivation"
+        case mcpservers = "mcpServers"
     }
 }
 
@@ -2899,6 +2948,549 @@ public struct ShutdownEvent: Codable, Sendable {
     }
 }
 
+public struct WorkflowStep: Codable, Sendable {
+    public let id: String?
+    public let role: String
+    public let task: String
+    public let dependson: [String]?
+    public let model: String?
+    public let thinking: String?
+    public let when: [String: AnyCodable]?
+    public let loop: [String: AnyCodable]?
+    public let approval: AnyCodable?
+
+    public init(
+        id: String?,
+        role: String,
+        task: String,
+        dependson: [String]?,
+        model: String?,
+        thinking: String?,
+        when: [String: AnyCodable]?,
+        loop: [String: AnyCodable]?,
+        approval: AnyCodable?
+    ) {
+        self.id = id
+        self.role = role
+        self.task = task
+        self.dependson = dependson
+        self.model = model
+        self.thinking = thinking
+        self.when = when
+        self.loop = loop
+        self.approval = approval
+    }
+    private enum CodingKeys: String, CodingKey {
+        case id
+        case role
+        case task
+        case dependson = "dependsOn"
+        case model
+        case thinking
+        case when
+        case loop
+        case approval
+    }
+}
+
+public struct WorkflowUsage: Codable, Sendable {
+    public let inputtokens: Int
+    public let outputtokens: Int
+    public let totaltokens: Int
+    public let costusd: Double
+    public let model: String?
+
+    public init(
+        inputtokens: Int,
+        outputtokens: Int,
+        totaltokens: Int,
+        costusd: Double,
+        model: String?
+    ) {
+        self.inputtokens = inputtokens
+        self.outputtokens = outputtokens
+        self.totaltokens = totaltokens
+        self.costusd = costusd
+        self.model = model
+    }
+    private enum CodingKeys: String, CodingKey {
+        case inputtokens = "inputTokens"
+        case outputtokens = "outputTokens"
+        case totaltokens = "totalTokens"
+        case costusd = "costUsd"
+        case model
+    }
+}
+
+public struct WorkflowTask: Codable, Sendable {
+    public let id: String
+    public let stepid: String?
+    public let role: String
+    public let description: String
+    public let status: AnyCodable
+    public let dependencies: [String]
+    public let iteration: Int?
+    public let output: String?
+    public let error: String?
+    public let model: String?
+    public let branch: String?
+    public let childsessionkey: String?
+    public let usage: [String: AnyCodable]?
+    public let createdat: String
+    public let startedat: String?
+    public let completedat: String?
+
+    public init(
+        id: String,
+        stepid: String?,
+        role: String,
+        description: String,
+        status: AnyCodable,
+        dependencies: [String],
+        iteration: Int?,
+        output: String?,
+        error: String?,
+        model: String?,
+        branch: String?,
+        childsessionkey: String?,
+        usage: [String: AnyCodable]?,
+        createdat: String,
+        startedat: String?,
+        completedat: String?
+    ) {
+        self.id = id
+        self.stepid = stepid
+        self.role = role
+        self.description = description
+        self.status = status
+        self.dependencies = dependencies
+        self.iteration = iteration
+        self.output = output
+        self.error = error
+        self.model = model
+        self.branch = branch
+        self.childsessionkey = childsessionkey
+        self.usage = usage
+        self.createdat = createdat
+        self.startedat = startedat
+        self.completedat = completedat
+    }
+    private enum CodingKeys: String, CodingKey {
+        case id
+        case stepid = "stepId"
+        case role
+        case description
+        case status
+        case dependencies
+        case iteration
+        case output
+        case error
+        case model
+        case branch
+        case childsessionkey = "childSessionKey"
+        case usage
+        case createdat = "createdAt"
+        case startedat = "startedAt"
+        case completedat = "completedAt"
+    }
+}
+
+public struct WorkflowSummary: Codable, Sendable {
+    public let id: String
+    public let type: String?
+    public let status: AnyCodable
+    public let createdat: String
+    public let branch: String?
+    public let taskcount: Int
+    public let taskstatus: [String: AnyCodable]
+    public let usage: [String: AnyCodable]?
+    public let pausedreason: String?
+
+    public init(
+        id: String,
+        type: String?,
+        status: AnyCodable,
+        createdat: String,
+        branch: String?,
+        taskcount: Int,
+        taskstatus: [String: AnyCodable],
+        usage: [String: AnyCodable]?,
+        pausedreason: String?
+    ) {
+        self.id = id
+        self.type = type
+        self.status = status
+        self.createdat = createdat
+        self.branch = branch
+        self.taskcount = taskcount
+        self.taskstatus = taskstatus
+        self.usage = usage
+        self.pausedreason = pausedreason
+    }
+    private enum CodingKeys: String, CodingKey {
+        case id
+        case type
+        case status
+        case createdat = "createdAt"
+        case branch
+        case taskcount = "taskCount"
+        case taskstatus = "taskStatus"
+        case usage
+        case pausedreason = "pausedReason"
+    }
+}
+
+public struct WorkflowListParams: Codable, Sendable {
+    public let activeonly: Bool?
+
+    public init(
+        activeonly: Bool?
+    ) {
+        self.activeonly = activeonly
+    }
+    private enum CodingKeys: String, CodingKey {
+        case activeonly = "activeOnly"
+    }
+}
+
+public struct WorkflowGetParams: Codable, Sendable {
+    public let id: String
+    public let includeoutput: Bool?
+
+    public init(
+        id: String,
+        includeoutput: Bool?
+    ) {
+        self.id = id
+        self.includeoutput = includeoutput
+    }
+    private enum CodingKeys: String, CodingKey {
+        case id
+        case includeoutput = "includeOutput"
+    }
+}
+
+public struct WorkflowCreateParams: Codable, Sendable {
+    public let workflow: String
+    public let description: String
+    public let steps: [WorkflowStep]?
+    public let inputs: [String: AnyCodable]?
+    public let start: Bool?
+    public let sessionkey: String?
+
+    public init(
+        workflow: String,
+        description: String,
+        steps: [WorkflowStep]?,
+        inputs: [String: AnyCodable]?,
+        start: Bool?,
+        sessionkey: String?
+    ) {
+        self.workflow = workflow
+        self.description = description
+        self.steps = steps
+        self.inputs = inputs
+        self.start = start
+        self.sessionkey = sessionkey
+    }
+    private enum CodingKeys: String, CodingKey {
+        case workflow
+        case description
+        case steps
+        case inputs
+        case start
+        case sessionkey = "sessionKey"
+    }
+}
+
+public struct WorkflowCancelParams: Codable, Sendable {
+    public let id: String
+
+    public init(
+        id: String
+    ) {
+        self.id = id
+    }
+    private enum CodingKeys: String, CodingKey {
+        case id
+    }
+}
+
+public struct WorkflowResumeParams: Codable, Sendable {
+    public let id: String
+    public let retryfailed: Bool?
+    public let sessionkey: String?
+
+    public init(
+        id: String,
+        retryfailed: Bool?,
+        sessionkey: String?
+    ) {
+        self.id = id
+        self.retryfailed = retryfailed
+        self.sessionkey = sessionkey
+    }
+    private enum CodingKeys: String, CodingKey {
+        case id
+        case retryfailed = "retryFailed"
+        case sessionkey = "sessionKey"
+    }
+}
+
+public struct WorkflowEvent: Codable, Sendable {
+    public let workflowid: String
+    public let status: AnyCodable
+    public let type: String?
+    public let ts: Int
+    public let task: [String: AnyCodable]?
+
+    public init(
+        workflowid: String,
+        status: AnyCodable,
+        type: String?,
+        ts: Int,
+        task: [String: AnyCodable]?
+    ) {
+        self.workflowid = workflowid
+        self.status = status
+        self.type = type
+        self.ts = ts
+        self.task = task
+    }
+    private enum CodingKeys: String, CodingKey {
+        case workflowid = "workflowId"
+        case status
+        case type
+        case ts
+        case task
+    }
+}
+
+public struct StagedHunk: Codable, Sendable {
+    public let index: Int
+    public let originalstart: Int
+    public let originallines: [String]
+    public let proposedstart: Int
+    public let proposedlines: [String]
+
+    public init(
+        index: Int,
+        originalstart: Int,
+        originallines: [String],
+        proposedstart: Int,
+        proposedlines: [String]
+    ) {
+        self.index = index
+        self.originalstart = originalstart
+        self.originallines = originallines
+        self.proposedstart = proposedstart
+        self.proposedlines = proposedlines
+    }
+    private enum CodingKeys: String, CodingKey {
+        case index
+        case originalstart = "originalStart"
+        case originallines = "originalLines"
+        case proposedstart = "proposedStart"
+        case proposedlines = "proposedLines"
+    }
+}
+
+public struct StagedEditSummary: Codable, Sendable {
+    public let path: String
+    public let label: String
+    public let isnew: Bool
+    public let stagedat: String
+    public let hunks: [StagedHunk]
+
+    public init(
+        path: String,
+        label: String,
+        isnew: Bool,
+        stagedat: String,
+        hunks: [StagedHunk]
+    ) {
+        self.path = path
+        self.label = label
+        self.isnew = isnew
+        self.stagedat = stagedat
+        self.hunks = hunks
+    }
+    private enum CodingKeys: String, CodingKey {
+        case path
+        case label
+        case isnew = "isNew"
+        case stagedat = "stagedAt"
+        case hunks
+    }
+}
+
+public struct StagedConflict: Codable, Sendable {
+    public let line: Int
+    public let base: [String]
+    public let ours: [String]
+    public let theirs: [String]
+
+    public init(
+        line: Int,
+        base: [String],
+        ours: [String],
+        theirs: [String]
+    ) {
+        self.line = line
+        self.base = base
+        self.ours = ours
+        self.theirs = theirs
+    }
+    private enum CodingKeys: String, CodingKey {
+        case line
+        case base
+        case ours
+        case theirs
+    }
+}
+
+public struct StagedListParams: Codable, Sendable {
+    public let agentid: String?
+
+    public init(
+        agentid: String?
+    ) {
+        self.agentid = agentid
+    }
+    private enum CodingKeys: String, CodingKey {
+        case agentid = "agentId"
+    }
+}
+
+public struct StagedApplyParams: Codable, Sendable {
+    public let agentid: String?
+    public let path: String?
+    public let hunks: [Int]?
+
+    public init(
+        agentid: String?,
+        path: String?,
+        hunks: [Int]?
+    ) {
+        self.agentid = agentid
+        self.path = path
+        self.hunks = hunks
+    }
+    private enum CodingKeys: String, CodingKey {
+        case agentid = "agentId"
+        case path
+        case hunks
+    }
+}
+
+public struct StagedApplyResult: Codable, Sendable {
+    public let path: String
+    public let ok: Bool
+    public let remaininghunks: Int?
+    public let error: String?
+    public let conflicts: [StagedConflict]?
+
+    public init(
+        path: String,
+        ok: Bool,
+        remaininghunks: Int?,
+        error: String?,
+        conflicts: [StagedConflict]?
+    ) {
+        self.path = path
+        self.ok = ok
+        self.remaininghunks = remaininghunks
+        self.error = error
+        self.conflicts = conflicts
+    }
+    private enum CodingKeys: String, CodingKey {
+        case path
+        case ok
+        case remaininghunks = "remainingHunks"
+        case error
+        case conflicts
+    }
+}
+
+public struct ApprovalRecord: Codable, Sendable {
+    public let id: String
+    public let actiontype: String
+    public let description: String
+    public let metadata: AnyCodable?
+    public let sessionkey: String?
+    public let createdatms: Int
+    public let expiresatms: Int
+    public let status: AnyCodable
+    public let resolvedby: String?
+    public let resolvedatms: Int?
+
+    public init(
+        id: String,
+        actiontype: String,
+        description: String,
+        metadata: AnyCodable?,
+        sessionkey: String?,
+        createdatms: Int,
+        expiresatms: Int,
+        status: AnyCodable,
+        resolvedby: String?,
+        resolvedatms: Int?
+    ) {
+        self.id = id
+        self.actiontype = actiontype
+        self.description = description
+        self.metadata = metadata
+        self.sessionkey = sessionkey
+        self.createdatms = createdatms
+        self.expiresatms = expiresatms
+        self.status = status
+        self.resolvedby = resolvedby
+        self.resolvedatms = resolvedatms
+    }
+    private enum CodingKeys: String, CodingKey {
+        case id
+        case actiontype = "actionType"
+        case description
+        case metadata
+        case sessionkey = "sessionKey"
+        case createdatms = "createdAtMs"
+        case expiresatms = "expiresAtMs"
+        case status
+        case resolvedby = "resolvedBy"
+        case resolvedatms = "resolvedAtMs"
+    }
+}
+
+public struct ApprovalListParams: Codable, Sendable {
+    public let includeresolved: Bool?
+
+    public init(
+        includeresolved: Bool?
+    ) {
+        self.includeresolved = includeresolved
+    }
+    private enum CodingKeys: String, CodingKey {
+        case includeresolved = "includeResolved"
+    }
+}
+
+public struct ApprovalResolveParams: Codable, Sendable {
+    public let id: String
+    public let decision: AnyCodable
+
+    public init(
+        id: String,
+        decision: AnyCodable
+    ) {
+        self.id = id
+        self.decision = decision
+    }
+    private enum CodingKeys: String, CodingKey {
+        case id
+        case decision
+    }
+}
+
 public enum GatewayFrame: Codable, Sendable {
     case req(RequestFrame)
     case res(ResponseFrame)
@@ -120,6 +120,10 @@ function createMockRuntime(): PluginRuntime {
         vi.fn() as unknown as PluginRuntime["tools"]["createMemorySearchTool"],
       registerMemoryCli: vi.fn() as unknown as PluginRuntime["tools"]["registerMemoryCli"],
     },
+    stagedEdits: {
+      loadStagedEdits: vi.fn() as unknown as PluginRuntime["stagedEdits"]["loadStagedEdits"],
+      getStagedHunks: vi.fn() as unknown as PluginRuntime["stagedEdits"]["getStagedHunks"],
+    },
     channel: {
       text: {
         chunkMarkdownText:
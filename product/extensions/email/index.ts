@@ -0,0 +1,17 @@
+import type { CoderClawPluginApi } from "@seanhogg/coderclaw/plugin-sdk";
+import { emptyPluginConfigSchema } from "@seanhogg/coderclaw/plugin-sdk";
+import { emailPlugin } from "./src/channel.js";
+import { setEmailRuntime } from "./src/runtime.js";
+
+const plugin = {
+  id: "email",
+  name: "Email",
+  description: "Email channel plugin (IMAP/SMTP)",
+  configSchema: emptyPluginConfigSchema(),
+  register(api: CoderClawPluginApi) {
+    setEmailRuntime(api.runtime);
+    api.registerChannel({ plugin: emailPlugin });
+  },
+};
+
+export default plugin;
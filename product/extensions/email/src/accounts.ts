@@ -0,0 +1,182 @@
+import { readFileSync } from "node:fs";
+import { DEFAULT_ACCOUNT_ID, normalizeAccountId } from "@seanhogg/coderclaw/plugin-sdk/account-id";
+import { normalizeEmailAddress } from "./normalize.js";
+import type { CoreConfig, EmailAccountConfig } from "./types.js";
+
+export type EmailPasswordSource = "env" | "passwordFile" | "config" | "none";
+
+export type ResolvedEmailAccount = {
+  accountId: string;
+  enabled: boolean;
+  configured: boolean;
+  name?: string;
+  address: string;
+  imap: {
+    host: string;
+    port: number;
+    tls: boolean;
+    user: string;
+    password: string;
+    mailbox: string;
+  };
+  smtp: {
+    host: string;
+    port: number;
+    secure: boolean;
+    user: string;
+    password: string;
+  };
+  passwordSource: EmailPasswordSource;
+  config: EmailAccountConfig;
+};
+
+function listConfiguredAccountIds(cfg: CoreConfig): string[] {
+  const accounts = cfg.channels?.email?.accounts;
+  if (!accounts || typeof accounts !== "object") {
+    return [];
+  }
+  const ids = new Set<string>();
+  for (const key of Object.keys(accounts)) {
+    if (key) {
+      ids.add(normalizeAccountId(key));
+    }
+  }
+  return [...ids];
+}
+
+export function listEmailAccountIds(cfg: CoreConfig): string[] {
+  const ids = listConfiguredAccountIds(cfg);
+  if (ids.length === 0) {
+    return [DEFAULT_ACCOUNT_ID];
+  }
+  return ids.toSorted((a, b) => a.localeCompare(b));
+}
+
+export function resolveDefaultEmailAccountId(cfg: CoreConfig): string {
+  const ids = listEmailAccountIds(cfg);
+  if (ids.includes(DEFAULT_ACCOUNT_ID)) {
+    return DEFAULT_ACCOUNT_ID;
+  }
+  return ids[0] ?? DEFAULT_ACCOUNT_ID;
+}
+
+function resolveAccountConfig(cfg: CoreConfig, accountId: string): EmailAccountConfig | undefined {
+  const accounts = cfg.channels?.email?.accounts;
+  if (!accounts || typeof accounts !== "object") {
+    return undefined;
+  }
+  const direct = accounts[accountId];
+  if (direct) {
+    return direct;
+  }
+  const normalized = normalizeAccountId(accountId);
+  const matchKey = Object.keys(accounts).find((key) => normalizeAccountId(key) === normalized);
+  return matchKey ? accounts[matchKey] : undefined;
+}
+
+function mergeEmailAccountConfig(cfg: CoreConfig, accountId: string): EmailAccountConfig {
+  const { accounts: _ignored, ...base } = (cfg.channels?.email ?? {}) as EmailAccountConfig & {
+    accounts?: unknown;
+  };
+  const account = resolveAccountConfig(cfg, accountId) ?? {};
+  return {
+    ...base,
+    ...account,
+    imap: { ...base.imap, ...account.imap },
+    smtp: { ...base.smtp, ...account.smtp },
+  };
+}
+
+function readPasswordFile(path: string | undefined): string {
+  if (!path) {
+    return "";
+  }
+  try {
+    return readFileSync(path, "utf-8").trim();
+  } catch {
+    // File not found or unreadable, fall through.
+    return "";
+  }
+}
+
+/**
+ * Per-protocol password first (imap/smtp password or passwordFile), then the
+ * shared account password, then EMAIL_PASSWORD for the default account.
+ */
+function resolvePassword(params: {
+  specific?: { password?: string; passwordFile?: string };
+  merged: EmailAccountConfig;
+  accountId: string;
+}): { password: string; source: EmailPasswordSource } {
+  const { specific, merged, accountId } = params;
+  const specificFile = readPasswordFile(specific?.passwordFile);
+  if (specificFile) {
+    return { password: specificFile, source: "passwordFile" };
+  }
+  if (specific?.password?.trim()) {
+    return { password: specific.password.trim(), source: "config" };
+  }
+  const sharedFile = readPasswordFile(merged.passwordFile);
+  if (sharedFile) {
+    return { password: sharedFile, source: "passwordFile" };
+  }
+  if (merged.password?.trim()) {
+    return { password: merged.password.trim(), source: "config" };
+  }
+  const envPassword = process.env.EMAIL_PASSWORD?.trim();
+  if (envPassword && accountId === DEFAULT_ACCOUNT_ID) {
+    return { password: envPassword, source: "env" };
+  }
+  return { password: "", source: "none" };
+}
+
+export function resolveEmailAccount(params: {
+  cfg: CoreConfig;
+  accountId?: string | null;
+}): ResolvedEmailAccount {
+  const accountId = normalizeAccountId(params.accountId);
+  const baseEnabled = params.cfg.channels?.email?.enabled !== false;
+  const merged = mergeEmailAccountConfig(params.cfg, accountId);
+  const address = normalizeEmailAddress(merged.address ?? "") ?? "";
+
+  const imapTls = merged.imap?.tls ?? true;
+  const imapPassword = resolvePassword({ specific: merged.imap, merged, accountId });
+  const smtpPort = merged.smtp?.port ?? 465;
+  const smtpPassword = resolvePassword({ specific: merged.smtp, merged, accountId });
+
+  const imap = {
+    host: merged.imap?.host?.trim() ?? "",
+    port: merged.imap?.port ?? (imapTls ? 993 : 143),
+    tls: imapTls,
+    user: merged.imap?.user?.trim() || address,
+    password: imapPassword.password,
+    mailbox: merged.imap?.mailbox?.trim() || "INBOX",
+  };
+  const smtp = {
+    host: merged.smtp?.host?.trim() ?? "",
+    port: smtpPort,
+    secure: merged.smtp?.secure ?? smtpPort === 465,
+    user: merged.smtp?.user?.trim() || address,
+    password: smtpPassword.password,
+  };
+
+  return {
+    accountId,
+    enabled: baseEnabled && merged.enabled !== false,
+    configured: Boolean(
+      address && imap.host && smtp.host && imap.password && smtp.password && imap.user,
+    ),
+    name: merged.name?.trim() || undefined,
+    address,
+    imap,
+    smtp,
+    passwordSource: imapPassword.source,
+    config: merged,
+  };
+}
+
+export function listEnabledEmailAccounts(cfg: CoreConfig): ResolvedEmailAccount[] {
+  return listEmailAccountIds(cfg)
+    .map((accountId) => resolveEmailAccount({ cfg, accountId }))
+    .filter((account) => account.enabled);
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { parseAuthenticationResults, resolveEmailSenderAuth } from "./auth-results.js";
+
+describe("email sender authentication", () => {
+  it("parses authserv-id, methods and properties", () => {
+    expect(
+      parseAuthenticationResults(
+        'mx.google.com (Google);\r\n dkim=pass header.i=@example.com header.s=s1 header.b="ab/cd";\r\n spf=softfail (domain of x) smtp.mailfrom=x.test; dmarc=pass (p=REJECT sp=REJECT) header.from=Example.com',
+      ),
+    ).toEqual({
+      authservId: "mx.google.com",
+      results: [
+        {
+          method: "dkim",
+          result: "pass",
+          props: { "header.i": "@example.com", "header.s": "s1", "header.b": "ab/cd" },
+        },
+        { method: "spf", result: "softfail", props: { "smtp.mailfrom": "x.test" } },
+        { method: "dmarc", result: "pass", props: { "header.from": "Example.com" } },
+      ],
+    });
+    expect(parseAuthenticationResults("mx.example.com 1; none")).toEqual({
+      authservId: "mx.example.com",
+      results: [],
+    });
+    expect(parseAuthenticationResults("  ")).toBeNull();
+  });
+
+  it("verifies DMARC or aligned DKIM passes from the trusted MTA", () => {
+    const verify = (authenticationResults: string[], fromAddress = "alice@example.com") =>
+      resolveEmailSenderAuth({ authenticationResults, fromAddress, authservId: "MX.Example.com" });
+
+    expect(verify(["mx.example.com; dmarc=pass header.from=example.com"])).toEqual({
+      verified: true,
+      method: "dmarc",
+    });
+    expect(verify(["mx.example.com; dkim=pass header.d=example.com"])).toEqual({
+      verified: true,
+      method: "dkim",
+    });
+    expect(
+      verify(["mx.example.com; dkim=pass header.d=example.com"], "ci@alerts.example.com"),
+    ).toMatchObject({ verified: true });
+    expect(verify(["mx.example.com; dkim=pass header.i=@mail.example.com"])).toMatchObject({
+      verified: true,
+    });
+  });
+
+  it("rejects other MTAs, failures and unaligned signers", () => {
+    const verify = (authenticationResults: string[]) =>
+      resolveEmailSenderAuth({
+        authenticationResults,
+        fromAddress: "alice@example.com",
+        authservId: "mx.example.com",
+      });
+
+    expect(verify(["mx.attacker.test; dmarc=pass header.from=example.com"])).toEqual({
+      verified: false,
+      reason: "no Authentication-Results from mx.example.com",
+    });
+    expect(
+      verify([
+        "mx.example.com; dmarc=fail header.from=example.com; dkim=pass header.d=attacker.test",
+      ]),
+    ).toEqual({ verified: false, reason: "no aligned DMARC or DKIM pass from mx.example.com" });
+    expect(verify(["mx.example.com; dkim=pass header.d=badexample.com"]).verified).toBe(false);
+    expect(verify(["mx.example.com; dkim=pass header.d=com"]).verified).toBe(false);
+    expect(verify(["mx.example.com; spf=pass smtp.mailfrom=example.com"]).verified).toBe(false);
+    expect(
+      resolveEmailSenderAuth({
+        authenticationResults: ["mx.example.com; dmarc=pass header.from=example.com"],
+        fromAddress: "alice@example.com",
+      }),
+    ).toEqual({ verified: false, reason: "authservId is not configured" });
+  });
+});
@@ -0,0 +1,115 @@
+import { emailDomain } from "./normalize.js";
+
+/**
+ * Sender verification from Authentication-Results headers (RFC 8601). The
+ * From: header is whatever the sender wrote; only results stamped by the
+ * account's own receiving MTA (its authserv-id) say anything about it, since
+ * any other Authentication-Results header may come from the sender too.
+ */
+
+export type EmailAuthResult = {
+  method: string;
+  result: string;
+  /** Lowercased `ptype.property` → value, e.g. "header.d" → "example.com". */
+  props: Record<string, string>;
+};
+
+export type EmailSenderAuth =
+  | { verified: true; method: "dmarc" | "dkim" }
+  | { verified: false; reason: string };
+
+function stripComments(value: string): string {
+  let current = value;
+  for (;;) {
+    const next = current.replace(/\([^()]*\)/g, " ");
+    if (next === current) {
+      return current;
+    }
+    current = next;
+  }
+}
+
+/** Split one Authentication-Results value into its authserv-id and method results. */
+export function parseAuthenticationResults(
+  value: string,
+): { authservId: string; results: EmailAuthResult[] } | null {
+  const [head, ...segments] = stripComments(value).replace(/\s+/g, " ").split(";");
+  const authservId = head?.trim().split(" ")[0]?.toLowerCase();
+  if (!authservId) {
+    return null;
+  }
+  const results: EmailAuthResult[] = [];
+  for (const segment of segments) {
+    const [first, ...rest] = segment.trim().split(" ");
+    const match = first?.match(/^([^=/]+)(?:\/\d+)?=(\S+)$/);
+    if (!match) {
+      continue;
+    }
+    const props: Record<string, string> = {};
+    for (const token of rest) {
+      const eq = token.indexOf("=");
+      if (eq > 0) {
+        props[token.slice(0, eq).toLowerCase()] = token.slice(eq + 1).replace(/^"|"$/g, "");
+      }
+    }
+    results.push({ method: match[1].toLowerCase(), result: match[2].toLowerCase(), props });
+  }
+  return { authservId, results };
+}
+
+/**
+ * Relaxed alignment without a public-suffix list: the signing domain equals
+ * the From: domain or one is a subdomain of the other. Single-label domains
+ * ("com") never align.
+ */
+function isAlignedDomain(domain: string, fromDomain: string): boolean {
+  if (!domain.includes(".")) {
+    return false;
+  }
+  return (
+    domain === fromDomain || fromDomain.endsWith(`.${domain}`) || domain.endsWith(`.${fromDomain}`)
+  );
+}
+
+/**
+ * Verified when the trusted MTA reports `dmarc=pass` for the From: domain or
+ * `dkim=pass` with a signing domain aligned to it.
+ */
+export function resolveEmailSenderAuth(params: {
+  authenticationResults: string[];
+  fromAddress: string;
+  authservId?: string;
+}): EmailSenderAuth {
+  const authservId = params.authservId?.trim().toLowerCase();
+  if (!authservId) {
+    return { verified: false, reason: "authservId is not configured" };
+  }
+  const fromDomain = emailDomain(params.fromAddress);
+  let trustedHeaders = 0;
+  for (const header of params.authenticationResults) {
+    const parsed = parseAuthenticationResults(header);
+    if (parsed?.authservId !== authservId) {
+      continue;
+    }
+    trustedHeaders += 1;
+    for (const { method, result, props } of parsed.results) {
+      if (result !== "pass") {
+        continue;
+      }
+      if (method === "dmarc" && props["header.from"]?.toLowerCase() === fromDomain) {
+        return { verified: true, method: "dmarc" };
+      }
+      const signer = props["header.d"] ?? props["header.i"];
+      if (method === "dkim" && signer && isAlignedDomain(emailDomain(signer), fromDomain)) {
+        return { verified: true, method: "dkim" };
+      }
+    }
+  }
+  return {
+    verified: false,
+    reason:
+      trustedHeaders > 0
+        ? `no aligned DMARC or DKIM pass from ${authservId}`
+        : `no Authentication-Results from ${authservId}`,
+  };
+}
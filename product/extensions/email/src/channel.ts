@@ -0,0 +1,234 @@
+import {
+  buildChannelConfigSchema,
+  DEFAULT_ACCOUNT_ID,
+  deleteAccountFromConfigSection,
+  formatPairingApproveHint,
+  PAIRING_APPROVED_MESSAGE,
+  setAccountEnabledInConfigSection,
+  type ChannelPlugin,
+} from "@seanhogg/coderclaw/plugin-sdk";
+import {
+  listEmailAccountIds,
+  resolveDefaultEmailAccountId,
+  resolveEmailAccount,
+  type ResolvedEmailAccount,
+} from "./accounts.js";
+import { EmailConfigSchema } from "./config-schema.js";
+import { monitorEmailProvider } from "./monitor.js";
+import {
+  looksLikeEmailTargetId,
+  normalizeEmailAddress,
+  normalizeEmailAllowEntry,
+  normalizeEmailMessagingTarget,
+} from "./normalize.js";
+import { getEmailRuntime } from "./runtime.js";
+import { sendMessageEmail } from "./send.js";
+import type { CoreConfig } from "./types.js";
+
+const meta = {
+  id: "email",
+  label: "Email",
+  selectionLabel: "Email (IMAP/SMTP)",
+  docsPath: "/channels/email",
+  docsLabel: "email",
+  blurb: "any mailbox over IMAP IDLE + SMTP; replies stay in the thread.",
+  aliases: ["mail", "imap"],
+  order: 75,
+  quickstartAllowFrom: true,
+};
+
+export const emailPlugin: ChannelPlugin<ResolvedEmailAccount> = {
+  id: "email",
+  meta,
+  pairing: {
+    idLabel: "emailAddress",
+    normalizeAllowEntry: (entry) => normalizeEmailAllowEntry(entry),
+    notifyApproval: async ({ id }) => {
+      const address = normalizeEmailAddress(id);
+      if (!address) {
+        throw new Error(`invalid email pairing id: ${id}`);
+      }
+      await sendMessageEmail(address, PAIRING_APPROVED_MESSAGE);
+    },
+  },
+  capabilities: {
+    chatTypes: ["direct"],
+    threads: true,
+    media: true,
+    blockStreaming: true,
+  },
+  reload: { configPrefixes: ["channels.email"] },
+  configSchema: buildChannelConfigSchema(EmailConfigSchema),
+  config: {
+    listAccountIds: (cfg) => listEmailAccountIds(cfg as CoreConfig),
+    resolveAccount: (cfg, accountId) => resolveEmailAccount({ cfg: cfg as CoreConfig, accountId }),
+    defaultAccountId: (cfg) => resolveDefaultEmailAccountId(cfg as CoreConfig),
+    setAccountEnabled: ({ cfg, accountId, enabled }) =>
+      setAccountEnabledInConfigSection({
+        cfg,
+        sectionKey: "email",
+        accountId,
+        enabled,
+        allowTopLevel: true,
+      }),
+    deleteAccount: ({ cfg, accountId }) =>
+      deleteAccountFromConfigSection({
+        cfg,
+        sectionKey: "email",
+        accountId,
+        clearBaseFields: [
+          "name",
+          "address",
+          "fromName",
+          "password",
+          "passwordFile",
+          "imap",
+          "smtp",
+        ],
+      }),
+    isConfigured: (account) => account.configured,
+    describeAccount: (account) => ({
+      accountId: account.accountId,
+      name: account.name,
+      enabled: account.enabled,
+      configured: account.configured,
+      address: account.address,
+      passwordSource: account.passwordSource,
+    }),
+    resolveAllowFrom: ({ cfg, accountId }) =>
+      (resolveEmailAccount({ cfg: cfg as CoreConfig, accountId }).config.allowFrom ?? []).map(
+        (entry) => String(entry),
+      ),
+    formatAllowFrom: ({ allowFrom }) =>
+      allowFrom.map((entry) => normalizeEmailAllowEntry(String(entry))).filter(Boolean),
+  },
+  security: {
+    resolveDmPolicy: ({ cfg, accountId, account }) => {
+      const resolvedAccountId = accountId ?? account.accountId ?? DEFAULT_ACCOUNT_ID;
+      const useAccountPath = Boolean(cfg.channels?.email?.accounts?.[resolvedAccountId]);
+      const basePath = useAccountPath
+        ? `channels.email.accounts.${resolvedAccountId}.`
+        : "channels.email.";
+      return {
+        policy: account.config.dmPolicy ?? "allowlist",
+        allowFrom: account.config.allowFrom ?? [],
+        policyPath: `${basePath}dmPolicy`,
+        allowFromPath: `${basePath}allowFrom`,
+        approveHint: formatPairingApproveHint("email"),
+        normalizeEntry: (raw) => normalizeEmailAllowEntry(raw),
+      };
+    },
+    collectWarnings: ({ account }) => {
+      const warnings: string[] = [];
+      if (account.config.dmPolicy === "open") {
+        warnings.push(
+          '- Email: dmPolicy="open" lets any sender reach the agent. Prefer channels.email.allowFrom with addresses or "@your-domain.com".',
+        );
+      } else if (account.config.requireSenderAuth === false) {
+        warnings.push(
+          "- Email: requireSenderAuth=false trusts the From: header, which any sender can forge. Prefer channels.email.authservId.",
+        );
+      } else if (!account.config.authservId?.trim()) {
+        warnings.push(
+          '- Email: channels.email.authservId is not set, so no sender can be verified and all mail is dropped. Set it to your MTA\'s Authentication-Results id (e.g. "mx.google.com").',
+        );
+      }
+      if (account.config.imap?.tls === false) {
+        warnings.push(
+          "- Email IMAP TLS is disabled (channels.email.imap.tls=false); mail and credentials are plaintext.",
+        );
+      }
+      return warnings;
+    },
+  },
+  threading: {
+    // Every reply carries In-Reply-To / References for the message it answers.
+    resolveReplyToMode: () => "all",
+    buildToolContext: ({ context, hasRepliedRef }) => ({
+      currentChannelId: context.To?.trim() || undefined,
+      currentThreadTs:
+        context.MessageThreadId != null ? String(context.MessageThreadId) : context.ReplyToId,
+      hasRepliedRef,
+    }),
+  },
+  messaging: {
+    normalizeTarget: normalizeEmailMessagingTarget,
+    targetResolver: {
+      looksLikeId: looksLikeEmailTargetId,
+      hint: "<address>",
+    },
+  },
+  outbound: {
+    deliveryMode: "direct",
+    chunker: (text, limit) => getEmailRuntime().channel.text.chunkMarkdownText(text, limit),
+    chunkerMode: "markdown",
+    textChunkLimit: 20000,
+    sendText: async ({ to, text, accountId, replyToId }) => {
+      const result = await sendMessageEmail(to, text, {
+        accountId: accountId ?? undefined,
+        replyTo: replyToId ?? undefined,
+      });
+      return { channel: "email", ...result };
+    },
+    sendMedia: async ({ to, text, mediaUrl, accountId, replyToId }) => {
+      const result = await sendMessageEmail(to, text, {
+        accountId: accountId ?? undefined,
+        replyTo: replyToId ?? undefined,
+        mediaUrl,
+      });
+      return { channel: "email", ...result };
+    },
+  },
+  status: {
+    defaultRuntime: {
+      accountId: DEFAULT_ACCOUNT_ID,
+      running: false,
+      lastStartAt: null,
+      lastStopAt: null,
+      lastError: null,
+    },
+    buildChannelSummary: ({ account, snapshot }) => ({
+      configured: snapshot.configured ?? false,
+      address: account.address,
+      running: snapshot.running ?? false,
+      lastStartAt: snapshot.lastStartAt ?? null,
+      lastStopAt: snapshot.lastStopAt ?? null,
+      lastError: snapshot.lastError ?? null,
+    }),
+    buildAccountSnapshot: ({ account, runtime }) => ({
+      accountId: account.accountId,
+      name: account.name,
+      enabled: account.enabled,
+      configured: account.configured,
+      address: account.address,
+      passwordSource: account.passwordSource,
+      running: runtime?.running ?? false,
+      lastStartAt: runtime?.lastStartAt ?? null,
+      lastStopAt: runtime?.lastStopAt ?? null,
+      lastError: runtime?.lastError ?? null,
+      lastInboundAt: runtime?.lastInboundAt ?? null,
+      lastOutboundAt: runtime?.lastOutboundAt ?? null,
+    }),
+  },
+  gateway: {
+    startAccount: async (ctx) => {
+      const account = ctx.account;
+      if (!account.configured) {
+        throw new Error(
+          `Email is not configured for account "${account.accountId}" (need address, imap.host, smtp.host and a password in channels.email).`,
+        );
+      }
+      ctx.log?.info(
+        `[${account.accountId}] starting email provider (${account.imap.host}:${account.imap.port}${account.imap.tls ? " tls" : ""})`,
+      );
+      const { stop } = await monitorEmailProvider({
+        accountId: account.accountId,
+        config: ctx.cfg as CoreConfig,
+        runtime: ctx.runtime,
+        abortSignal: ctx.abortSignal,
+        statusSink: (patch) => ctx.setStatus({ accountId: ctx.accountId, ...patch }),
+      });
+      return { stop };
+    },
+  },
+};
@@ -0,0 +1,79 @@
+import {
+  BlockStreamingCoalesceSchema,
+  DmConfigSchema,
+  DmPolicySchema,
+  MarkdownConfigSchema,
+  requireOpenAllowFrom,
+} from "@seanhogg/coderclaw/plugin-sdk";
+import { z } from "zod";
+
+export const EmailImapSchema = z
+  .object({
+    host: z.string().optional(),
+    port: z.number().int().min(1).max(65535).optional(),
+    tls: z.boolean().optional(),
+    user: z.string().optional(),
+    password: z.string().optional(),
+    passwordFile: z.string().optional(),
+    mailbox: z.string().optional(),
+  })
+  .strict();
+
+export const EmailSmtpSchema = z
+  .object({
+    host: z.string().optional(),
+    port: z.number().int().min(1).max(65535).optional(),
+    secure: z.boolean().optional(),
+    user: z.string().optional(),
+    password: z.string().optional(),
+    passwordFile: z.string().optional(),
+  })
+  .strict();
+
+export const EmailAccountSchemaBase = z
+  .object({
+    name: z.string().optional(),
+    enabled: z.boolean().optional(),
+    address: z.string().optional(),
+    fromName: z.string().optional(),
+    password: z.string().optional(),
+    passwordFile: z.string().optional(),
+    imap: EmailImapSchema.optional(),
+    smtp: EmailSmtpSchema.optional(),
+    markdown: MarkdownConfigSchema,
+    dmPolicy: DmPolicySchema.optional().default("allowlist"),
+    allowFrom: z.array(z.string()).optional(),
+    authservId: z.string().optional(),
+    requireSenderAuth: z.boolean().optional(),
+    dmHistoryLimit: z.number().int().min(0).optional(),
+    dms: z.record(z.string(), DmConfigSchema.optional()).optional(),
+    textChunkLimit: z.number().int().positive().optional(),
+    chunkMode: z.enum(["length", "newline"]).optional(),
+    blockStreaming: z.boolean().optional(),
+    blockStreamingCoalesce: BlockStreamingCoalesceSchema.optional(),
+    responsePrefix: z.string().optional(),
+    mediaMaxMb: z.number().positive().optional(),
+  })
+  .strict();
+
+export const EmailAccountSchema = EmailAccountSchemaBase.superRefine((value, ctx) => {
+  requireOpenAllowFrom({
+    policy: value.dmPolicy,
+    allowFrom: value.allowFrom,
+    ctx,
+    path: ["allowFrom"],
+    message: 'channels.email.dmPolicy="open" requires channels.email.allowFrom to include "*"',
+  });
+});
+
+export const EmailConfigSchema = EmailAccountSchemaBase.extend({
+  accounts: z.record(z.string(), EmailAccountSchema.optional()).optional(),
+}).superRefine((value, ctx) => {
+  requireOpenAllowFrom({
+    policy: value.dmPolicy,
+    allowFrom: value.allowFrom,
+    ctx,
+    path: ["allowFrom"],
+    message: 'channels.email.dmPolicy="open" requires channels.email.allowFrom to include "*"',
+  });
+});
@@ -0,0 +1,128 @@
+import { randomUUID } from "node:crypto";
+import { ImapFlow } from "imapflow";
+import { simpleParser } from "mailparser";
+import type { ResolvedEmailAccount } from "./accounts.js";
+import { toEmailInboundMessage } from "./parse.js";
+import type { EmailInboundMessage } from "./types.js";
+
+const RECONNECT_INITIAL_MS = 2_000;
+const RECONNECT_MAX_MS = 5 * 60_000;
+
+export type EmailWatcherOptions = {
+  account: ResolvedEmailAccount;
+  abortSignal?: AbortSignal;
+  onMessage: (message: EmailInboundMessage) => Promise<void>;
+  onError?: (error: Error) => void;
+  onConnected?: () => void;
+};
+
+function toError(err: unknown): Error {
+  return err instanceof Error ? err : new Error(String(err));
+}
+
+/**
+ * Watch a mailbox with IMAP IDLE. Unseen mail is fetched on connect and on
+ * every EXISTS notification, marked \Seen, parsed and handed to onMessage one
+ * message at a time. The connection is re-established with backoff until
+ * stop() or the abort signal.
+ */
+export async function watchEmailInbox(opts: EmailWatcherOptions): Promise<{ stop: () => void }> {
+  const { account } = opts;
+  let stopped = false;
+  let client: ImapFlow | null = null;
+  let reconnectTimer: NodeJS.Timeout | null = null;
+  let attempt = 0;
+  let queue: Promise<void> = Promise.resolve();
+
+  const fetchUnseen = async (current: ImapFlow) => {
+    // No other IMAP command may run while a FETCH is being iterated, so
+    // collect first and then flag + dispatch.
+    const pending: Array<{ uid: number; source: Buffer }> = [];
+    for await (const message of current.fetch({ seen: false }, { uid: true, source: true })) {
+      if (message.source) {
+        pending.push({ uid: message.uid, source: message.source });
+      }
+    }
+    for (const { uid, source } of pending) {
+      if (stopped) {
+        return;
+      }
+      await current.messageFlagsAdd(String(uid), ["\\Seen"], { uid: true });
+      const parsed = await simpleParser(source);
+      const inbound = toEmailInboundMessage(parsed, `${uid}.${randomUUID()}@coderclaw.local`);
+      if (!inbound) {
+        continue;
+      }
+      try {
+        await opts.onMessage(inbound);
+      } catch (err) {
+        opts.onError?.(toError(err));
+      }
+    }
+  };
+
+  const schedule = (current: ImapFlow) => {
+    queue = queue.then(() => fetchUnseen(current)).catch((err) => opts.onError?.(toError(err)));
+  };
+
+  const scheduleReconnect = () => {
+    if (stopped || reconnectTimer) {
+      return;
+    }
+    attempt += 1;
+    const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_INITIAL_MS * 2 ** (attempt - 1));
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      void connect();
+    }, delay);
+  };
+
+  const connect = async () => {
+    const current = new ImapFlow({
+      host: account.imap.host,
+      port: account.imap.port,
+      secure: account.imap.tls,
+      auth: { user: account.imap.user, pass: account.imap.password },
+      logger: false,
+    });
+    client = current;
+    current.on("error", (err: unknown) => opts.onError?.(toError(err)));
+    current.on("close", () => {
+      if (client === current) {
+        client = null;
+      }
+      scheduleReconnect();
+    });
+    try {
+      await current.connect();
+      // Keep the mailbox selected; ImapFlow IDLEs whenever no command runs.
+      await current.mailboxOpen(account.imap.mailbox);
+      current.on("exists", () => schedule(current));
+      attempt = 0;
+      opts.onConnected?.();
+      schedule(current);
+    } catch (err) {
+      opts.onError?.(toError(err));
+      current.close();
+      scheduleReconnect();
+    }
+  };
+
+  const stop = () => {
+    if (stopped) {
+      return;
+    }
+    stopped = true;
+    if (reconnectTimer) {
+      clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+    }
+    const current = client;
+    client = null;
+    void current?.logout().catch(() => current.close());
+  };
+
+  opts.abortSignal?.addEventListener("abort", stop, { once: true });
+  await connect();
+  return { stop };
+}
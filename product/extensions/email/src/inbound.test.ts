@@ -0,0 +1,265 @@
+import type { PluginRuntime } from "@seanhogg/coderclaw/plugin-sdk";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { emailPlugin } from "./channel.js";
+import { monitorEmailProvider } from "./monitor.js";
+import { setEmailRuntime } from "./runtime.js";
+import { __resetEmailThreadsForTest } from "./threading.js";
+import type { CoreConfig } from "./types.js";
+
+const { mailbox, mockMessageFlagsAdd, mockSendMail } = vi.hoisted(() => ({
+  // Raw RFC 822 sources the fake IMAP server reports as unseen.
+  mailbox: [] as string[],
+  mockMessageFlagsAdd: vi.fn(async () => true),
+  mockSendMail: vi.fn(async () => ({ messageId: "<sent-1@example.com>" })),
+}));
+
+vi.mock("imapflow", () => ({
+  ImapFlow: class {
+    on() {
+      return this;
+    }
+    async connect() {}
+    async mailboxOpen() {}
+    async *fetch() {
+      for (const [index, source] of mailbox.splice(0).entries()) {
+        yield { uid: index + 1, source: Buffer.from(source) };
+      }
+    }
+    messageFlagsAdd = mockMessageFlagsAdd;
+    async logout() {}
+    close() {}
+  },
+}));
+
+vi.mock("nodemailer", () => ({
+  default: {
+    createTransport: () => ({ sendMail: mockSendMail, close: () => {} }),
+  },
+}));
+
+function rawEmail(params: {
+  from: string;
+  subject: string;
+  messageId: string;
+  body: string;
+  authResults?: string[];
+}) {
+  const domain = params.from.replace(/^.*@|>$/g, "").toLowerCase();
+  const authResults = params.authResults ?? [
+    `mx.example.com; dkim=pass header.d=${domain}; dmarc=pass (p=reject) header.from=${domain}`,
+  ];
+  return [
+    ...authResults.map((value) => `Authentication-Results: ${value}`),
+    `From: ${params.from}`,
+    "To: bot@example.com",
+    `Subject: ${params.subject}`,
+    `Message-ID: <${params.messageId}>`,
+    "Date: Mon, 19 Oct 2026 09:00:00 +0000",
+    "Content-Type: text/plain; charset=utf-8",
+    "",
+    params.body,
+    "",
+  ].join("\r\n");
+}
+
+function emailConfig(overrides: Record<string, unknown> = {}): CoreConfig {
+  return {
+    channels: {
+      email: {
+        address: "bot@example.com",
+        password: "app-password",
+        imap: { host: "imap.example.com" },
+        smtp: { host: "smtp.example.com" },
+        allowFrom: ["@example.com"],
+        authservId: "mx.example.com",
+        ...overrides,
+      },
+    },
+  };
+}
+
+describe("email inbound", () => {
+  const mockFinalizeInboundContext = vi.fn((ctx: Record<string, unknown>) => ctx);
+  const mockDispatchReply = vi.fn(
+    async (params: {
+      dispatcherOptions: { deliver: (payload: { text: string }) => Promise<void> };
+    }) => {
+      await params.dispatcherOptions.deliver({ text: "Looking into it." });
+    },
+  );
+  const mockUpsertPairingRequest = vi.fn(async () => ({ code: "PAIR1234", created: true }));
+  let cfg: CoreConfig;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    cfg = emailConfig();
+    const logger = { info: vi.fn(), error: vi.fn() };
+    setEmailRuntime({
+      config: { loadConfig: () => cfg },
+      logging: { getChildLogger: () => logger },
+      channel: {
+        activity: { record: vi.fn() },
+        pairing: {
+          readAllowFromStore: vi.fn(async () => []),
+          upsertPairingRequest: mockUpsertPairingRequest,
+          buildPairingReply: vi.fn(({ code }: { code: string }) => `Pairing code: ${code}`),
+        },
+        commands: { shouldHandleTextCommands: vi.fn(() => true) },
+        text: { hasControlCommand: vi.fn((body: string) => body.startsWith("/")) },
+        media: { saveMediaBuffer: vi.fn() },
+        routing: {
+          resolveAgentRoute: vi.fn(() => ({
+            agentId: "main",
+            accountId: "default",
+            sessionKey: "agent:main:email:direct:alice@example.com",
+          })),
+        },
+        session: {
+          resolveStorePath: vi.fn(() => "/tmp/sessions.json"),
+          readSessionUpdatedAt: vi.fn(() => undefined),
+          recordInboundSession: vi.fn(async () => {}),
+        },
+        reply: {
+          resolveEnvelopeFormatOptions: vi.fn(() => ({})),
+          formatAgentEnvelope: vi.fn((params: { body: string }) => params.body),
+          finalizeInboundContext: mockFinalizeInboundContext,
+          dispatchReplyWithBufferedBlockDispatcher: mockDispatchReply,
+        },
+      },
+    } as unknown as PluginRuntime);
+  });
+
+  afterEach(() => {
+    mailbox.length = 0;
+    __resetEmailThreadsForTest();
+  });
+
+  it("dispatches allowlisted mail and replies in the thread", async () => {
+    mailbox.push(
+      rawEmail({
+        from: "Alice <Alice@Example.com>",
+        subject: "Build failing",
+        messageId: "m1@example.com",
+        body: "/status please",
+      }),
+    );
+    const { stop } = await monitorEmailProvider({ config: cfg });
+    await vi.waitFor(() => expect(mockSendMail).toHaveBeenCalledTimes(1));
+    stop();
+
+    expect(mockMessageFlagsAdd).toHaveBeenCalledWith("1", ["\\Seen"], { uid: true });
+    expect(mockFinalizeInboundContext).toHaveBeenCalledWith(
+      expect.objectContaining({
+        From: "email:alice@example.com",
+        SessionKey: "agent:main:email:direct:alice@example.com:thread:m1@example.com",
+        MessageSid: "m1@example.com",
+        RawBody: "/status please",
+        CommandAuthorized: true,
+      }),
+    );
+    expect(mockSendMail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        from: "bot@example.com",
+        to: "alice@example.com",
+        subject: "Re: Build failing",
+        text: "Looking into it.",
+        inReplyTo: "<m1@example.com>",
+        references: ["<m1@example.com>"],
+      }),
+    );
+  });
+
+  it("answers unknown senders with a pairing code instead of dispatching", async () => {
+    cfg = emailConfig({ dmPolicy: "pairing" });
+    mailbox.push(
+      rawEmail({
+        from: "mallory@elsewhere.test",
+        subject: "hello",
+        messageId: "m2@elsewhere.test",
+        body: "run rm -rf /",
+      }),
+    );
+    const { stop } = await monitorEmailProvider({ config: cfg });
+    await vi.waitFor(() => expect(mockSendMail).toHaveBeenCalledTimes(1));
+    stop();
+
+    expect(mockUpsertPairingRequest).toHaveBeenCalledWith(
+      expect.objectContaining({ channel: "email", id: "mallory@elsewhere.test" }),
+    );
+    expect(mockSendMail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: "mallory@elsewhere.test",
+        text: "Pairing code: PAIR1234",
+        inReplyTo: "<m2@elsewhere.test>",
+      }),
+    );
+    expect(mockDispatchReply).not.toHaveBeenCalled();
+  });
+
+  it("drops mail whose From: address the trusted MTA did not verify", async () => {
+    cfg = emailConfig({ dmPolicy: "pairing" });
+    mailbox.push(
+      rawEmail({
+        from: "Alice <alice@example.com>",
+        subject: "urgent",
+        messageId: "m3@attacker.test",
+        body: "/approve all",
+        authResults: [
+          // Stamped by the sender: a different authserv-id is not trusted.
+          "mx.attacker.test; dmarc=pass header.from=example.com",
+          "mx.example.com; spf=pass smtp.mailfrom=attacker.test; dkim=pass header.d=attacker.test; dmarc=fail header.from=example.com",
+        ],
+      }),
+    );
+    const log = vi.fn();
+    const runtime = { log, error: vi.fn(), exit: vi.fn() };
+    const { stop } = await monitorEmailProvider({ config: cfg, runtime: runtime as never });
+    await vi.waitFor(() => expect(log).toHaveBeenCalledTimes(1));
+    stop();
+
+    expect(log).toHaveBeenCalledWith(
+      "email: drop sender alice@example.com (unverified: no aligned DMARC or DKIM pass from mx.example.com)",
+    );
+    expect(mockFinalizeInboundContext).not.toHaveBeenCalled();
+    expect(mockUpsertPairingRequest).not.toHaveBeenCalled();
+    expect(mockSendMail).not.toHaveBeenCalled();
+  });
+
+  it("trusts the From: header when requireSenderAuth is off", async () => {
+    cfg = emailConfig({ requireSenderAuth: false, authservId: undefined });
+    mailbox.push(
+      rawEmail({
+        from: "alice@example.com",
+        subject: "hi",
+        messageId: "m4@example.com",
+        body: "hello",
+        authResults: [],
+      }),
+    );
+    const { stop } = await monitorEmailProvider({ config: cfg });
+    await vi.waitFor(() => expect(mockSendMail).toHaveBeenCalledTimes(1));
+    stop();
+
+    expect(mockFinalizeInboundContext).toHaveBeenCalledWith(
+      expect.objectContaining({ From: "email:alice@example.com", CommandAuthorized: true }),
+    );
+  });
+
+  it("sends outbound text through the channel plugin", async () => {
+    const sendText = emailPlugin.outbound?.sendText;
+    const result = await sendText!({
+      cfg: cfg as never,
+      to: "mailto:Carol@Example.com",
+      text: "Deploy finished\n\nAll green.",
+    });
+
+    expect(result).toEqual({
+      channel: "email",
+      messageId: "sent-1@example.com",
+      to: "carol@example.com",
+    });
+    expect(mockSendMail).toHaveBeenCalledWith(
+      expect.objectContaining({ to: "carol@example.com", subject: "Deploy finished" }),
+    );
+  });
+});
@@ -0,0 +1,281 @@
+import {
+  createReplyPrefixOptions,
+  resolveControlCommandGate,
+  wrapExternalContent,
+  type CoderClawConfig,
+  type RuntimeEnv,
+} from "@seanhogg/coderclaw/plugin-sdk";
+import type { ResolvedEmailAccount } from "./accounts.js";
+import { resolveEmailSenderAuth } from "./auth-results.js";
+import { normalizeEmailAllowlist, resolveEmailAllowlistMatch } from "./policy.js";
+import { getEmailRuntime } from "./runtime.js";
+import { sendMessageEmail } from "./send.js";
+import { emailThreadKey, rememberEmailMessage } from "./threading.js";
+import type { CoreConfig, EmailInboundMessage } from "./types.js";
+
+const CHANNEL_ID = "email" as const;
+const DEFAULT_MEDIA_MAX_MB = 20;
+
+async function deliverEmailReply(params: {
+  payload: { text?: string; mediaUrls?: string[]; mediaUrl?: string; replyToId?: string };
+  to: string;
+  replyTo: string;
+  accountId: string;
+  statusSink?: (patch: { lastOutboundAt?: number }) => void;
+}): Promise<void> {
+  const { payload, to, accountId, statusSink } = params;
+  const text = payload.text?.trim() ?? "";
+  const mediaList = payload.mediaUrls?.length
+    ? payload.mediaUrls
+    : payload.mediaUrl
+      ? [payload.mediaUrl]
+      : [];
+  if (!text && mediaList.length === 0) {
+    return;
+  }
+  const replyTo = payload.replyToId ?? params.replyTo;
+  if (mediaList.length === 0) {
+    await sendMessageEmail(to, text, { accountId, replyTo });
+  } else {
+    // One message per attachment; the text rides on the first.
+    for (const [index, mediaUrl] of mediaList.entries()) {
+      await sendMessageEmail(to, index === 0 ? text : "", { accountId, replyTo, mediaUrl });
+    }
+  }
+  statusSink?.({ lastOutboundAt: Date.now() });
+}
+
+export async function handleEmailInbound(params: {
+  message: EmailInboundMessage;
+  account: ResolvedEmailAccount;
+  config: CoreConfig;
+  runtime: RuntimeEnv;
+  statusSink?: (patch: { lastInboundAt?: number; lastOutboundAt?: number }) => void;
+}): Promise<void> {
+  const { message, account, config, runtime, statusSink } = params;
+  const core = getEmailRuntime();
+
+  const rawBody = message.text.trim();
+  if (!rawBody && message.attachments.length === 0) {
+    return;
+  }
+  const sender = message.fromAddress;
+  if (sender === account.address) {
+    return;
+  }
+
+  statusSink?.({ lastInboundAt: message.timestamp });
+  rememberEmailMessage(account.accountId, message);
+
+  const dmPolicy = account.config.dmPolicy ?? "allowlist";
+  const configAllowFrom = normalizeEmailAllowlist(account.config.allowFrom);
+  const storeAllowFrom = await core.channel.pairing.readAllowFromStore(CHANNEL_ID).catch(() => []);
+  const effectiveAllowFrom = [...configAllowFrom, ...normalizeEmailAllowlist(storeAllowFrom)];
+  const senderAllowed = resolveEmailAllowlistMatch({
+    allowFrom: effectiveAllowFrom,
+    sender,
+  }).allowed;
+
+  if (dmPolicy === "disabled") {
+    runtime.log?.(`email: drop sender=${sender} (dmPolicy=disabled)`);
+    return;
+  }
+  // Allowlists, pairing and command authorization all key on the From:
+  // address, so it has to be vouched for by the mailbox's own MTA first.
+  if (dmPolicy !== "open" && account.config.requireSenderAuth !== false) {
+    const auth = resolveEmailSenderAuth({
+      authenticationResults: message.authenticationResults,
+      fromAddress: sender,
+      authservId: account.config.authservId,
+    });
+    if (!auth.verified) {
+      runtime.log?.(`email: drop sender ${sender} (unverified: ${auth.reason})`);
+      return;
+    }
+  }
+  if (dmPolicy !== "open" && !senderAllowed) {
+    if (dmPolicy === "pairing") {
+      const { code, created } = await core.channel.pairing.upsertPairingRequest({
+        channel: CHANNEL_ID,
+        id: sender,
+        meta: { name: message.fromName },
+      });
+      if (created) {
+        try {
+          await sendMessageEmail(
+            sender,
+            core.channel.pairing.buildPairingReply({
+              channel: CHANNEL_ID,
+              idLine: `Your email address: ${sender}`,
+              code,
+            }),
+            { accountId: account.accountId, replyTo: message.messageId },
+          );
+          statusSink?.({ lastOutboundAt: Date.now() });
+        } catch (err) {
+          runtime.error?.(`email: pairing reply failed for ${sender}: ${String(err)}`);
+        }
+      }
+    }
+    runtime.log?.(`email: drop sender ${sender} (dmPolicy=${dmPolicy})`);
+    return;
+  }
+
+  const allowTextCommands = core.channel.commands.shouldHandleTextCommands({
+    cfg: config as CoderClawConfig,
+    surface: CHANNEL_ID,
+  });
+  const useAccessGroups =
+    (config.commands as Record<string, unknown> | undefined)?.useAccessGroups !== false;
+  const commandGate = resolveControlCommandGate({
+    useAccessGroups,
+    authorizers: [{ configured: effectiveAllowFrom.length > 0, allowed: senderAllowed }],
+    allowTextCommands,
+    hasControlCommand: core.channel.text.hasControlCommand(rawBody, config as CoderClawConfig),
+  });
+
+  // Attachments are saved as inbound media; the reply pipeline runs media
+  // understanding (transcription, image/PDF description) over MediaPaths.
+  const maxBytes = (account.config.mediaMaxMb ?? DEFAULT_MEDIA_MAX_MB) * 1024 * 1024;
+  const mediaPaths: string[] = [];
+  const mediaTypes: string[] = [];
+  for (const attachment of message.attachments) {
+    if (attachment.content.length > maxBytes) {
+      runtime.log?.(
+        `email: skip attachment ${attachment.filename ?? "(unnamed)"} (${attachment.content.length} bytes)`,
+      );
+      continue;
+    }
+    try {
+      const saved = await core.channel.media.saveMediaBuffer(
+        attachment.content,
+        attachment.contentType,
+        "inbound",
+        maxBytes,
+        attachment.filename,
+      );
+      mediaPaths.push(saved.path);
+      mediaTypes.push(saved.contentType ?? attachment.contentType);
+    } catch (err) {
+      runtime.error?.(`email: saving attachment failed: ${String(err)}`);
+    }
+  }
+
+  const baseRoute = core.channel.routing.resolveAgentRoute({
+    cfg: config as CoderClawConfig,
+    channel: CHANNEL_ID,
+    accountId: account.accountId,
+    peer: { kind: "direct", id: sender },
+  });
+  // Each email thread is its own session under the sender's route.
+  const route = {
+    ...baseRoute,
+    sessionKey: `${baseRoute.sessionKey}:thread:${emailThreadKey(message.threadId)}`,
+  };
+
+  const senderLabel = message.fromName ? `${message.fromName} <${sender}>` : sender;
+  const subject = message.subject || "(no subject)";
+  // Mail bodies are untrusted: the agent sees them inside external-content markers.
+  const wrappedBody = wrapExternalContent(rawBody, {
+    source: "email",
+    sender: senderLabel,
+    subject,
+  });
+
+  const storePath = core.channel.session.resolveStorePath(
+    (config.session as Record<string, unknown> | undefined)?.store as string | undefined,
+    { agentId: route.agentId },
+  );
+  const envelopeOptions = core.channel.reply.resolveEnvelopeFormatOptions(
+    config as CoderClawConfig,
+  );
+  const previousTimestamp = core.channel.session.readSessionUpdatedAt({
+    storePath,
+    sessionKey: route.sessionKey,
+  });
+  const body = core.channel.reply.formatAgentEnvelope({
+    channel: "Email",
+    from: senderLabel,
+    timestamp: message.timestamp,
+    previousTimestamp,
+    envelope: envelopeOptions,
+    body: wrappedBody,
+  });
+
+  const ctxPayload = core.channel.reply.finalizeInboundContext({
+    Body: body,
+    BodyForAgent: wrappedBody,
+    RawBody: rawBody,
+    CommandBody: rawBody,
+    MediaPath: mediaPaths[0],
+    MediaPaths: mediaPaths.length > 0 ? mediaPaths : undefined,
+    MediaType: mediaTypes[0],
+    MediaTypes: mediaTypes.length > 0 ? mediaTypes : undefined,
+    From: `email:${sender}`,
+    To: `email:${sender}`,
+    SessionKey: route.sessionKey,
+    AccountId: route.accountId,
+    ChatType: "direct",
+    ConversationLabel: `${senderLabel}: ${subject}`,
+    SenderName: message.fromName,
+    SenderId: sender,
+    Provider: CHANNEL_ID,
+    Surface: CHANNEL_ID,
+    MessageSid: message.messageId,
+    ReplyToId: message.inReplyTo,
+    MessageThreadId: message.threadId,
+    ThreadLabel: subject,
+    Timestamp: message.timestamp,
+    OriginatingChannel: CHANNEL_ID,
+    OriginatingTo: `email:${sender}`,
+    CommandAuthorized: commandGate.commandAuthorized,
+  });
+
+  await core.channel.session.recordInboundSession({
+    storePath,
+    sessionKey: ctxPayload.SessionKey ?? route.sessionKey,
+    ctx: ctxPayload,
+    onRecordError: (err) => {
+      runtime.error?.(`email: failed updating session meta: ${String(err)}`);
+    },
+  });
+
+  const { onModelSelected, ...prefixOptions } = createReplyPrefixOptions({
+    cfg: config as CoderClawConfig,
+    agentId: route.agentId,
+    channel: CHANNEL_ID,
+    accountId: account.accountId,
+  });
+
+  await core.channel.reply.dispatchReplyWithBufferedBlockDispatcher({
+    ctx: ctxPayload,
+    cfg: config as CoderClawConfig,
+    dispatcherOptions: {
+      ...prefixOptions,
+      deliver: async (payload) => {
+        await deliverEmailReply({
+          payload: payload as {
+            text?: string;
+            mediaUrls?: string[];
+            mediaUrl?: string;
+            replyToId?: string;
+          },
+          to: sender,
+          replyTo: message.messageId,
+          accountId: account.accountId,
+          statusSink,
+        });
+      },
+      onError: (err, info) => {
+        runtime.error?.(`email ${info.kind} reply failed: ${String(err)}`);
+      },
+    },
+    replyOptions: {
+      onModelSelected,
+      disableBlockStreaming:
+        typeof account.config.blockStreaming === "boolean"
+          ? !account.config.blockStreaming
+          : undefined,
+    },
+  });
+}
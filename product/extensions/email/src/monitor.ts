@@ -0,0 +1,79 @@
+import type { RuntimeEnv } from "@seanhogg/coderclaw/plugin-sdk";
+import { resolveEmailAccount } from "./accounts.js";
+import { watchEmailInbox } from "./imap.js";
+import { handleEmailInbound } from "./inbound.js";
+import { getEmailRuntime } from "./runtime.js";
+import type { CoreConfig, EmailInboundMessage } from "./types.js";
+
+export type EmailMonitorOptions = {
+  accountId?: string;
+  config?: CoreConfig;
+  runtime?: RuntimeEnv;
+  abortSignal?: AbortSignal;
+  onMessage?: (message: EmailInboundMessage) => void | Promise<void>;
+  statusSink?: (patch: {
+    lastInboundAt?: number;
+    lastOutboundAt?: number;
+    lastError?: string | null;
+  }) => void;
+};
+
+export async function monitorEmailProvider(
+  opts: EmailMonitorOptions,
+): Promise<{ stop: () => void }> {
+  const core = getEmailRuntime();
+  const cfg = opts.config ?? (core.config.loadConfig() as CoreConfig);
+  const account = resolveEmailAccount({ cfg, accountId: opts.accountId });
+  const runtime: RuntimeEnv = opts.runtime ?? {
+    log: (...args: unknown[]) => core.logging.getChildLogger().info(args.map(String).join(" ")),
+    error: (...args: unknown[]) => core.logging.getChildLogger().error(args.map(String).join(" ")),
+    exit: () => {
+      throw new Error("Runtime exit not available");
+    },
+  };
+
+  if (!account.configured) {
+    throw new Error(
+      `Email is not configured for account "${account.accountId}" (need address, imap.host, smtp.host and a password in channels.email).`,
+    );
+  }
+
+  const logger = core.logging.getChildLogger({
+    channel: "email",
+    accountId: account.accountId,
+  });
+
+  return await watchEmailInbox({
+    account,
+    abortSignal: opts.abortSignal,
+    onConnected: () => {
+      logger.info(
+        `[${account.accountId}] watching ${account.imap.mailbox} on ${account.imap.host}:${account.imap.port} as ${account.imap.user}`,
+      );
+      opts.statusSink?.({ lastError: null });
+    },
+    onError: (error) => {
+      logger.error(`[${account.accountId}] email error: ${error.message}`);
+      opts.statusSink?.({ lastError: error.message });
+    },
+    onMessage: async (message) => {
+      core.channel.activity.record({
+        channel: "email",
+        accountId: account.accountId,
+        direction: "inbound",
+        at: message.timestamp,
+      });
+      if (opts.onMessage) {
+        await opts.onMessage(message);
+        return;
+      }
+      await handleEmailInbound({
+        message,
+        account,
+        config: cfg,
+        runtime,
+        statusSink: opts.statusSink,
+      });
+    },
+  });
+}
@@ -0,0 +1,46 @@
+const EMAIL_ADDRESS_PATTERN = /^[^\s@<>"]+@[^\s@<>"]+$/u;
+
+function stripEmailPrefix(raw: string): string {
+  return raw.replace(/^(email|mail|mailto):/i, "").trim();
+}
+
+/** Bare lowercase address from "a@b", "Name <a@b>", "email:a@b" or "mailto:a@b". */
+export function normalizeEmailAddress(raw: string): string | undefined {
+  let value = stripEmailPrefix(raw.trim());
+  const angle = value.match(/<([^<>]+)>\s*$/);
+  if (angle) {
+    value = angle[1].trim();
+  }
+  value = value.toLowerCase();
+  return EMAIL_ADDRESS_PATTERN.test(value) ? value : undefined;
+}
+
+export function normalizeEmailMessagingTarget(raw: string): string | undefined {
+  return normalizeEmailAddress(raw);
+}
+
+export function looksLikeEmailTargetId(raw: string): boolean {
+  return normalizeEmailAddress(raw) !== undefined;
+}
+
+/**
+ * Allowlist entries are "*", an address, or a domain written "@example.com"
+ * (or bare "example.com"). Everything is lowercased.
+ */
+export function normalizeEmailAllowEntry(raw: string): string {
+  const value = stripEmailPrefix(raw.trim()).toLowerCase();
+  if (!value || value === "*") {
+    return value;
+  }
+  if (value.startsWith("@")) {
+    return value.length > 1 ? value : "";
+  }
+  if (!value.includes("@")) {
+    return `@${value}`;
+  }
+  return normalizeEmailAddress(value) ?? "";
+}
+
+export function emailDomain(address: string): string {
+  return address.slice(address.lastIndexOf("@") + 1).toLowerCase();
+}
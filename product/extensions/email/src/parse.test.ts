@@ -0,0 +1,77 @@
+import type { ParsedMail } from "mailparser";
+import { describe, expect, it } from "vitest";
+import { stripQuotedReply, toEmailInboundMessage } from "./parse.js";
+
+function parsedMail(overrides: Record<string, unknown>): ParsedMail {
+  return {
+    attachments: [],
+    headers: new Map(),
+    headerLines: [],
+    html: false,
+    ...overrides,
+  } as unknown as ParsedMail;
+}
+
+describe("email parse", () => {
+  it("strips quoted history below a reply", () => {
+    expect(
+      stripQuotedReply(
+        "Looks good, ship it.\r\n\r\nOn Mon, 5 Jan 2026 at 10:00, Bot <bot@x> wrote:\r\n> earlier text",
+      ),
+    ).toBe("Looks good, ship it.");
+    expect(stripQuotedReply("> quoted\nnew line")).toBe("new line");
+  });
+
+  it("maps headers, threading and attachments", () => {
+    const message = toEmailInboundMessage(
+      parsedMail({
+        messageId: "<m3@mail.example.com>",
+        inReplyTo: "<m2@mail.example.com>",
+        references: "<m1@mail.example.com> <m2@mail.example.com>",
+        from: { value: [{ address: "Alice@Example.com", name: "Alice" }], text: "", html: "" },
+        subject: " Re: Build failing ",
+        headerLines: [
+          { key: "received", line: "Received: from mail.example.com" },
+          {
+            key: "authentication-results",
+            line: "Authentication-Results: mx.example.com;\r\n dmarc=pass header.from=example.com",
+          },
+        ],
+        text: "Please retry.\n",
+        date: new Date("2026-01-05T10:00:00Z"),
+        attachments: [
+          { filename: "log.txt", contentType: "text/plain", content: Buffer.from("x") },
+          { contentType: "image/png", content: Buffer.from("y"), related: true },
+        ],
+      }),
+      "fallback@coderclaw.local",
+    );
+    expect(message).toMatchObject({
+      messageId: "m3@mail.example.com",
+      threadId: "m1@mail.example.com",
+      inReplyTo: "m2@mail.example.com",
+      references: ["m1@mail.example.com", "m2@mail.example.com"],
+      fromAddress: "alice@example.com",
+      fromName: "Alice",
+      subject: "Re: Build failing",
+      text: "Please retry.",
+      timestamp: Date.parse("2026-01-05T10:00:00Z"),
+      authenticationResults: ["mx.example.com;\r\n dmarc=pass header.from=example.com"],
+    });
+    expect(message?.attachments.map((attachment) => attachment.filename)).toEqual(["log.txt"]);
+  });
+
+  it("falls back to HTML text and a synthetic id, and drops mail without a sender", () => {
+    const message = toEmailInboundMessage(
+      parsedMail({
+        from: { value: [{ address: "bob@example.com", name: "" }], text: "", html: "" },
+        html: "<p>Hello&nbsp;there</p><script>x()</script>",
+      }),
+      "fallback@coderclaw.local",
+    );
+    expect(message?.messageId).toBe("fallback@coderclaw.local");
+    expect(message?.threadId).toBe("fallback@coderclaw.local");
+    expect(message?.text).toBe("Hello there");
+    expect(toEmailInboundMessage(parsedMail({}), "fallback@coderclaw.local")).toBeNull();
+  });
+});
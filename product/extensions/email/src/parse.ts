@@ -0,0 +1,85 @@
+import type { ParsedMail } from "mailparser";
+import { normalizeMessageId, parseMessageIdList, resolveEmailThreadId } from "./threading.js";
+import type { EmailInboundMessage } from "./types.js";
+
+const QUOTE_HEADER_PATTERNS = [
+  /^On .{1,200} wrote:$/,
+  /^-{2,}\s*Original Message\s*-{2,}$/i,
+  /^_{10,}$/,
+];
+
+/** Drop the quoted history below a reply so each turn carries only new text. */
+export function stripQuotedReply(text: string): string {
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  const kept: string[] = [];
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (QUOTE_HEADER_PATTERNS.some((pattern) => pattern.test(trimmed)) && kept.length > 0) {
+      break;
+    }
+    if (trimmed.startsWith(">")) {
+      continue;
+    }
+    kept.push(line);
+  }
+  return kept.join("\n").trim();
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|li|tr|h[1-6])>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Convert a mailparser result into an inbound message. Returns null for mail
+ * without a sender address. Messages without a Message-ID get a synthetic one
+ * so they can still start a thread.
+ */
+export function toEmailInboundMessage(
+  parsed: ParsedMail,
+  fallbackId: string,
+): EmailInboundMessage | null {
+  const from = parsed.from?.value[0];
+  const fromAddress = from?.address?.trim().toLowerCase();
+  if (!fromAddress) {
+    return null;
+  }
+  const messageId = normalizeMessageId(parsed.messageId) ?? fallbackId;
+  const references = parseMessageIdList(parsed.references);
+  const inReplyTo = parseMessageIdList(parsed.inReplyTo)[0];
+  const rawText =
+    parsed.text?.trim() || (typeof parsed.html === "string" ? htmlToText(parsed.html) : "");
+  const authenticationResults = parsed.headerLines
+    .filter((header) => header.key === "authentication-results")
+    .map((header) => header.line.slice(header.line.indexOf(":") + 1).trim());
+  return {
+    messageId,
+    threadId: resolveEmailThreadId({ messageId, inReplyTo, references }),
+    ...(inReplyTo ? { inReplyTo } : {}),
+    references,
+    fromAddress,
+    ...(from?.name?.trim() ? { fromName: from.name.trim() } : {}),
+    subject: parsed.subject?.trim() ?? "",
+    text: stripQuotedReply(rawText),
+    timestamp: parsed.date?.getTime() ?? Date.now(),
+    attachments: parsed.attachments
+      .filter((attachment) => !attachment.related)
+      .map((attachment) => ({
+        ...(attachment.filename ? { filename: attachment.filename } : {}),
+        contentType: attachment.contentType || "application/octet-stream",
+        content: attachment.content,
+      })),
+    authenticationResults,
+  };
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { normalizeEmailAllowEntry } from "./normalize.js";
+import { resolveEmailAllowlistMatch } from "./policy.js";
+
+describe("email policy", () => {
+  describe("normalizeEmailAllowEntry", () => {
+    it("normalizes addresses, domains and prefixes", () => {
+      expect(normalizeEmailAllowEntry("Alice <Alice@Example.com>")).toBe("alice@example.com");
+      expect(normalizeEmailAllowEntry("mailto:bob@example.com")).toBe("bob@example.com");
+      expect(normalizeEmailAllowEntry("Example.com")).toBe("@example.com");
+      expect(normalizeEmailAllowEntry("@example.com")).toBe("@example.com");
+      expect(normalizeEmailAllowEntry("*")).toBe("*");
+      expect(normalizeEmailAllowEntry("@")).toBe("");
+    });
+  });
+
+  describe("resolveEmailAllowlistMatch", () => {
+    it("allows wildcard", () => {
+      expect(
+        resolveEmailAllowlistMatch({ allowFrom: ["*"], sender: "anyone@example.org" }).allowed,
+      ).toBe(true);
+    });
+
+    it("allows exact address match case-insensitively", () => {
+      expect(
+        resolveEmailAllowlistMatch({
+          allowFrom: ["Alice@Example.com"],
+          sender: "alice@example.com",
+        }),
+      ).toEqual({ allowed: true, matchKey: "alice@example.com", matchSource: "id" });
+    });
+
+    it("allows domain entries and their subdomains", () => {
+      expect(
+        resolveEmailAllowlistMatch({ allowFrom: ["@example.com"], sender: "carol@example.com" }),
+      ).toEqual({ allowed: true, matchKey: "@example.com", matchSource: "domain" });
+      expect(
+        resolveEmailAllowlistMatch({
+          allowFrom: ["example.com"],
+          sender: "ci@alerts.example.com",
+        }).allowed,
+      ).toBe(true);
+    });
+
+    it("blocks lookalike domains and unlisted senders", () => {
+      expect(
+        resolveEmailAllowlistMatch({ allowFrom: ["@example.com"], sender: "eve@badexample.com" })
+          .allowed,
+      ).toBe(false);
+      expect(
+        resolveEmailAllowlistMatch({ allowFrom: ["alice@example.com"], sender: "bob@example.com" })
+          .allowed,
+      ).toBe(false);
+      expect(resolveEmailAllowlistMatch({ allowFrom: [], sender: "bob@example.com" }).allowed).toBe(
+        false,
+      );
+    });
+  });
+});
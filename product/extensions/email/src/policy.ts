@@ -0,0 +1,42 @@
+import type { AllowlistMatch } from "@seanhogg/coderclaw/plugin-sdk";
+import { emailDomain, normalizeEmailAddress, normalizeEmailAllowEntry } from "./normalize.js";
+
+export function normalizeEmailAllowlist(values: Array<string | number> | undefined): string[] {
+  return (values ?? []).map((value) => normalizeEmailAllowEntry(String(value))).filter(Boolean);
+}
+
+/**
+ * Match a sender against address and domain entries. "@example.com" allows
+ * example.com and its subdomains (alerts.example.com), not lookalikes
+ * (badexample.com).
+ */
+export function resolveEmailAllowlistMatch(params: {
+  allowFrom: Array<string | number> | undefined;
+  sender: string;
+}): AllowlistMatch<"wildcard" | "id" | "domain"> {
+  const allowFrom = normalizeEmailAllowlist(params.allowFrom);
+  if (allowFrom.length === 0) {
+    return { allowed: false };
+  }
+  if (allowFrom.includes("*")) {
+    return { allowed: true, matchKey: "*", matchSource: "wildcard" };
+  }
+  const sender = normalizeEmailAddress(params.sender);
+  if (!sender) {
+    return { allowed: false };
+  }
+  if (allowFrom.includes(sender)) {
+    return { allowed: true, matchKey: sender, matchSource: "id" };
+  }
+  const domain = emailDomain(sender);
+  for (const entry of allowFrom) {
+    if (!entry.startsWith("@")) {
+      continue;
+    }
+    const allowed = entry.slice(1);
+    if (domain === allowed || domain.endsWith(`.${allowed}`)) {
+      return { allowed: true, matchKey: entry, matchSource: "domain" };
+    }
+  }
+  return { allowed: false };
+}
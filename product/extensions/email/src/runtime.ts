@@ -0,0 +1,14 @@
+import type { PluginRuntime } from "@seanhogg/coderclaw/plugin-sdk";
+
+let runtime: PluginRuntime | null = null;
+
+export function setEmailRuntime(next: PluginRuntime) {
+  runtime = next;
+}
+
+export function getEmailRuntime(): PluginRuntime {
+  if (!runtime) {
+    throw new Error("Email runtime not initialized");
+  }
+  return runtime;
+}
@@ -0,0 +1,97 @@
+import nodemailer from "nodemailer";
+import { resolveEmailAccount } from "./accounts.js";
+import { normalizeEmailAddress } from "./normalize.js";
+import { getEmailRuntime } from "./runtime.js";
+import { rememberEmailMessage, resolveEmailReplyHeaders } from "./threading.js";
+import type { CoreConfig, EmailSendResult } from "./types.js";
+
+const DEFAULT_MEDIA_MAX_MB = 20;
+
+type EmailSendOpts = {
+  accountId?: string;
+  /** Message-ID being replied to; keeps the reply in its thread. */
+  replyTo?: string;
+  mediaUrl?: string;
+};
+
+function wrapMessageId(id: string): string {
+  return `<${id}>`;
+}
+
+export async function sendMessageEmail(
+  to: string,
+  text: string,
+  opts: EmailSendOpts = {},
+): Promise<EmailSendResult> {
+  const core = getEmailRuntime();
+  const cfg = core.config.loadConfig() as CoreConfig;
+  const account = resolveEmailAccount({ cfg, accountId: opts.accountId });
+  if (!account.address || !account.smtp.host || !account.smtp.password) {
+    throw new Error(
+      `Email SMTP is not configured for account "${account.accountId}" (need channels.email.address, smtp.host and a password).`,
+    );
+  }
+  const recipient = normalizeEmailAddress(to);
+  if (!recipient) {
+    throw new Error(`Invalid email recipient: ${to}`);
+  }
+  if (!text?.trim() && !opts.mediaUrl) {
+    throw new Error("Message must be non-empty for email sends");
+  }
+
+  const headers = resolveEmailReplyHeaders({
+    accountId: account.accountId,
+    replyToId: opts.replyTo,
+    text,
+  });
+
+  const attachments: Array<{ filename: string; content: Buffer; contentType?: string }> = [];
+  if (opts.mediaUrl) {
+    const maxBytes = (account.config.mediaMaxMb ?? DEFAULT_MEDIA_MAX_MB) * 1024 * 1024;
+    const media = await core.media.loadWebMedia(opts.mediaUrl, {
+      maxBytes,
+      optimizeImages: false,
+    });
+    attachments.push({
+      filename: media.fileName ?? "attachment",
+      content: media.buffer,
+      ...(media.contentType ? { contentType: media.contentType } : {}),
+    });
+  }
+
+  const transport = nodemailer.createTransport({
+    host: account.smtp.host,
+    port: account.smtp.port,
+    secure: account.smtp.secure,
+    auth: { user: account.smtp.user, pass: account.smtp.password },
+  });
+  try {
+    const fromName = account.config.fromName?.trim();
+    const info = await transport.sendMail({
+      from: fromName ? { name: fromName, address: account.address } : account.address,
+      to: recipient,
+      subject: headers.subject,
+      text,
+      ...(headers.inReplyTo ? { inReplyTo: wrapMessageId(headers.inReplyTo) } : {}),
+      ...(headers.references ? { references: headers.references.map(wrapMessageId) } : {}),
+      ...(attachments.length > 0 ? { attachments } : {}),
+    });
+    const messageId = info.messageId.replace(/^<|>$/g, "");
+    // Remember our own message so a reply to it continues the same thread.
+    const references = headers.references ?? [];
+    rememberEmailMessage(account.accountId, {
+      messageId,
+      threadId: references[0] ?? messageId,
+      subject: headers.subject,
+      references,
+    });
+    core.channel.activity.record({
+      channel: "email",
+      accountId: account.accountId,
+      direction: "outbound",
+    });
+    return { messageId, to: recipient };
+  } finally {
+    transport.close();
+  }
+}
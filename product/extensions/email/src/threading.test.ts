@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  __resetEmailThreadsForTest,
+  emailThreadKey,
+  parseMessageIdList,
+  rememberEmailMessage,
+  resolveEmailReplyHeaders,
+  resolveEmailThreadId,
+} from "./threading.js";
+
+afterEach(() => {
+  __resetEmailThreadsForTest();
+});
+
+describe("email threading", () => {
+  it("parses bracketed and bare Message-ID lists", () => {
+    expect(parseMessageIdList("<a@x> <b@x>\r\n <a@x>")).toEqual(["a@x", "b@x"]);
+    expect(parseMessageIdList(["<c@x>", "d@x"])).toEqual(["c@x", "d@x"]);
+    expect(parseMessageIdList(undefined)).toEqual([]);
+  });
+
+  it("resolves the thread root from References, then In-Reply-To", () => {
+    expect(
+      resolveEmailThreadId({ messageId: "m3@x", inReplyTo: "m2@x", references: ["m1@x", "m2@x"] }),
+    ).toBe("m1@x");
+    expect(resolveEmailThreadId({ messageId: "m2@x", inReplyTo: "m1@x", references: [] })).toBe(
+      "m1@x",
+    );
+    expect(resolveEmailThreadId({ messageId: "m1@x", references: [] })).toBe("m1@x");
+  });
+
+  it("builds session-safe thread keys", () => {
+    expect(emailThreadKey("CAF+abc/123@mail.Example.com")).toBe("caf-abc-123@mail.example.com");
+  });
+
+  it("replies to a remembered message with its subject and References chain", () => {
+    rememberEmailMessage("default", {
+      messageId: "m2@x",
+      threadId: "m1@x",
+      subject: "Build failing",
+      references: ["m1@x"],
+    });
+    expect(
+      resolveEmailReplyHeaders({ accountId: "default", replyToId: "<m2@x>", text: "Fixed." }),
+    ).toEqual({
+      subject: "Re: Build failing",
+      inReplyTo: "m2@x",
+      references: ["m1@x", "m2@x"],
+    });
+  });
+
+  it("keeps In-Reply-To for unknown ids and derives a subject for new mail", () => {
+    expect(
+      resolveEmailReplyHeaders({ accountId: "default", replyToId: "zz@x", text: "hi" }),
+    ).toEqual({ subject: "Re: (no subject)", inReplyTo: "zz@x", references: ["zz@x"] });
+    expect(
+      resolveEmailReplyHeaders({ accountId: "default", text: "Deploy done\n\nDetails below" }),
+    ).toEqual({ subject: "Deploy done" });
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Email threads are identified by the root Message-ID of the conversation:
+ * the first References entry, else In-Reply-To, else the message itself.
+ * Replies carry In-Reply-To / References so mail clients keep them threaded.
+ */
+
+const MAX_REMEMBERED_MESSAGES = 2000;
+
+export type EmailThreadEntry = {
+  threadId: string;
+  subject: string;
+  /** References chain ending with this message, without angle brackets. */
+  references: string[];
+};
+
+export type EmailReplyHeaders = {
+  subject: string;
+  inReplyTo?: string;
+  references?: string[];
+};
+
+/** Strip angle brackets and whitespace from a Message-ID. */
+export function normalizeMessageId(raw: string | undefined | null): string | undefined {
+  const value = raw?.trim().replace(/^<|>$/g, "").trim();
+  return value ? value : undefined;
+}
+
+/** All Message-IDs in a References / In-Reply-To header value. */
+export function parseMessageIdList(raw: string | string[] | undefined | null): string[] {
+  const values = Array.isArray(raw) ? raw : raw ? [raw] : [];
+  const ids: string[] = [];
+  for (const value of values) {
+    const bracketed = value.match(/<[^<>\s]+>/g);
+    const tokens = bracketed ?? value.split(/\s+/);
+    for (const token of tokens) {
+      const id = normalizeMessageId(token);
+      if (id && !ids.includes(id)) {
+        ids.push(id);
+      }
+    }
+  }
+  return ids;
+}
+
+export function resolveEmailThreadId(params: {
+  messageId: string;
+  inReplyTo?: string;
+  references: string[];
+}): string {
+  return params.references[0] ?? params.inReplyTo ?? params.messageId;
+}
+
+/** Subject for a reply: "Re: " once, not stacked. */
+export function replySubject(subject: string): string {
+  const trimmed = subject.trim() || "(no subject)";
+  return /^re:/i.test(trimmed) ? trimmed : `Re: ${trimmed}`;
+}
+
+/** Stable session-key suffix for a thread root Message-ID. */
+export function emailThreadKey(threadId: string): string {
+  return threadId.toLowerCase().replace(/[^a-z0-9@._-]+/g, "-");
+}
+
+/**
+ * Recently seen messages per account, so outbound replies addressed by
+ * Message-ID can rebuild the subject and References chain. Bounded; oldest
+ * entries are evicted first.
+ */
+const remembered = new Map<string, Map<string, EmailThreadEntry>>();
+
+export function rememberEmailMessage(
+  accountId: string,
+  message: { messageId: string; threadId: string; subject: string; references: string[] },
+): void {
+  let entries = remembered.get(accountId);
+  if (!entries) {
+    entries = new Map();
+    remembered.set(accountId, entries);
+  }
+  entries.delete(message.messageId);
+  entries.set(message.messageId, {
+    threadId: message.threadId,
+    subject: message.subject,
+    references: [...message.references, message.messageId],
+  });
+  while (entries.size > MAX_REMEMBERED_MESSAGES) {
+    const oldest = entries.keys().next().value;
+    if (oldest === undefined) {
+      break;
+    }
+    entries.delete(oldest);
+  }
+}
+
+export function lookupEmailMessage(
+  accountId: string,
+  messageId: string,
+): EmailThreadEntry | undefined {
+  const id = normalizeMessageId(messageId);
+  return id ? remembered.get(accountId)?.get(id) : undefined;
+}
+
+/**
+ * Headers for an outbound message. Replies to a remembered message reuse its
+ * subject and References chain; unknown ids still set In-Reply-To so the
+ * recipient's client can thread them.
+ */
+export function resolveEmailReplyHeaders(params: {
+  accountId: string;
+  replyToId?: string | null;
+  text: string;
+}): EmailReplyHeaders {
+  const replyToId = normalizeMessageId(params.replyToId);
+  if (!replyToId) {
+    const firstLine = params.text.trim().split("\n", 1)[0]?.trim() ?? "";
+    return { subject: firstLine.slice(0, 78) || "Message from CoderClaw" };
+  }
+  const entry = lookupEmailMessage(params.accountId, replyToId);
+  return {
+    subject: replySubject(entry?.subject ?? ""),
+    inReplyTo: replyToId,
+    references: entry?.references ?? [replyToId],
+  };
+}
+
+export function __resetEmailThreadsForTest(): void {
+  remembered.clear();
+}
@@ -0,0 +1,137 @@
+import type {
+  BlockStreamingCoalesceConfig,
+  DmConfig,
+  DmPolicy,
+  MarkdownConfig,
+} from "@seanhogg/coderclaw/plugin-sdk";
+
+export type { DmPolicy };
+
+export type EmailImapConfig = {
+  /** IMAP server host (e.g. "imap.example.com"). */
+  host?: string;
+  /** IMAP port. Default: 993 with TLS, 143 without. */
+  port?: number;
+  /** Use implicit TLS. Default: true. */
+  tls?: boolean;
+  /** Login user. Default: the account address. */
+  user?: string;
+  /** Login password (falls back to the account password). */
+  password?: string;
+  /** Path to a file containing the IMAP password. */
+  passwordFile?: string;
+  /** Mailbox to watch. Default: "INBOX". */
+  mailbox?: string;
+};
+
+export type EmailSmtpConfig = {
+  /** SMTP server host (e.g. "smtp.example.com"). */
+  host?: string;
+  /** SMTP port. Default: 465 with implicit TLS, 587 with STARTTLS. */
+  port?: number;
+  /** Use implicit TLS. Default: true when port is 465. */
+  secure?: boolean;
+  /** Login user. Default: the account address. */
+  user?: string;
+  /** Login password (falls back to the account password). */
+  password?: string;
+  /** Path to a file containing the SMTP password. */
+  passwordFile?: string;
+};
+
+export type EmailAccountConfig = {
+  /** Optional display name for this account (used in CLI/UI lists). */
+  name?: string;
+  /** If false, do not start this email account. Default: true. */
+  enabled?: boolean;
+  /** Mailbox address the bot reads and sends as. */
+  address?: string;
+  /** Display name on outgoing mail. */
+  fromName?: string;
+  /** Shared IMAP/SMTP password (app password). */
+  password?: string;
+  /** Path to a file containing the shared password. */
+  passwordFile?: string;
+  imap?: EmailImapConfig;
+  smtp?: EmailSmtpConfig;
+  /** Direct message policy (default: allowlist). */
+  dmPolicy?: DmPolicy;
+  /**
+   * Allowed senders: addresses ("oncall@example.com"), domains ("@example.com")
+   * or "*". Domain entries also match subdomains.
+   */
+  allowFrom?: string[];
+  /**
+   * authserv-id of the mailbox's receiving MTA as it appears in
+   * Authentication-Results (e.g. "mx.google.com"). Only its DMARC/DKIM results
+   * verify the From: address.
+   */
+  authservId?: string;
+  /**
+   * Drop mail whose From: address is not verified by an aligned DMARC or DKIM
+   * pass from `authservId` (unless dmPolicy is "open"). Set false to trust the
+   * From: header as-is, e.g. behind an MTA that does not stamp results.
+   * Default: true.
+   */
+  requireSenderAuth?: boolean;
+  /** Max thread turns to keep as history context. */
+  dmHistoryLimit?: number;
+  /** Per-sender config overrides keyed by address. */
+  dms?: Record<string, DmConfig>;
+  markdown?: MarkdownConfig;
+  /** Outbound text chunk size (chars). Default: 20000. */
+  textChunkLimit?: number;
+  /** Chunking mode: "length" (default) splits by size; "newline" splits on every newline. */
+  chunkMode?: "length" | "newline";
+  /** Disable block streaming for this account. */
+  blockStreaming?: boolean;
+  /** Merge streamed block replies before sending. */
+  blockStreamingCoalesce?: BlockStreamingCoalesceConfig;
+  /** Outbound response prefix override for this channel/account. */
+  responsePrefix?: string;
+  /** Inbound attachment max size in MB. */
+  mediaMaxMb?: number;
+};
+
+export type EmailConfig = {
+  /** Optional per-account email configuration (multi-account). */
+  accounts?: Record<string, EmailAccountConfig>;
+} & EmailAccountConfig;
+
+export type CoreConfig = {
+  channels?: {
+    email?: EmailConfig;
+  };
+  [key: string]: unknown;
+};
+
+export type EmailAttachment = {
+  filename?: string;
+  contentType: string;
+  content: Buffer;
+};
+
+/** Parsed incoming email. */
+export type EmailInboundMessage = {
+  /** Message-ID header, without angle brackets. */
+  messageId: string;
+  /** Root Message-ID of the conversation, from References / In-Reply-To. */
+  threadId: string;
+  inReplyTo?: string;
+  /** References header, oldest first, without angle brackets. */
+  references: string[];
+  fromAddress: string;
+  fromName?: string;
+  subject: string;
+  text: string;
+  timestamp: number;
+  attachments: EmailAttachment[];
+  /** Raw Authentication-Results header values, topmost first. */
+  authenticationResults: string[];
+};
+
+/** Result from sending an email. */
+export type EmailSendResult = {
+  messageId: string;
+  to: string;
+};
@@ -0,0 +1,19 @@
+import type { CoderClawPluginApi } from "@seanhogg/coderclaw/plugin-sdk";
+import { emptyPluginConfigSchema } from "@seanhogg/coderclaw/plugin-sdk";
+import { prReviewPlugin } from "./src/channel.js";
+import { handlePrReviewWebhookRequest } from "./src/monitor.js";
+import { setPrReviewRuntime } from "./src/runtime.js";
+
+const plugin = {
+  id: "pr-review",
+  name: "PR Review",
+  description: "Pull-request review thread channel plugin (GitHub, GitLab)",
+  configSchema: emptyPluginConfigSchema(),
+  register(api: CoderClawPluginApi) {
+    setPrReviewRuntime(api.runtime);
+    api.registerChannel({ plugin: prReviewPlugin });
+    api.registerHttpHandler(handlePrReviewWebhookRequest);
+  },
+};
+
+export default plugin;
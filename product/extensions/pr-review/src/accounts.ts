@@ -0,0 +1,148 @@
+import { readFileSync } from "node:fs";
+import { DEFAULT_ACCOUNT_ID, normalizeAccountId } from "@seanhogg/coderclaw/plugin-sdk/account-id";
+import type { CoreConfig, PrReviewAccountConfig, PrReviewForge } from "./types.js";
+
+const DEFAULT_API_BASE_URL: Record<PrReviewForge, string> = {
+  github: "https://api.github.com",
+  gitlab: "https://gitlab.com/api/v4",
+};
+
+const TOKEN_ENV_NAMES: Record<PrReviewForge, string[]> = {
+  github: ["GITHUB_TOKEN", "GH_TOKEN"],
+  gitlab: ["GITLAB_TOKEN"],
+};
+
+const DEFAULT_POLL_INTERVAL_SECONDS = 60;
+
+export type PrReviewTokenSource = "env" | "tokenFile" | "config" | "none";
+
+export type ResolvedPrReviewAccount = {
+  accountId: string;
+  enabled: boolean;
+  configured: boolean;
+  name?: string;
+  forge: PrReviewForge;
+  apiBaseUrl: string;
+  token: string;
+  tokenSource: PrReviewTokenSource;
+  botUsername?: string;
+  pollIntervalMs: number;
+  config: PrReviewAccountConfig;
+};
+
+function listConfiguredAccountIds(cfg: CoreConfig): string[] {
+  const accounts = cfg.channels?.["pr-review"]?.accounts;
+  if (!accounts || typeof accounts !== "object") {
+    return [];
+  }
+  const ids = new Set<string>();
+  for (const key of Object.keys(accounts)) {
+    if (key) {
+      ids.add(normalizeAccountId(key));
+    }
+  }
+  return [...ids];
+}
+
+export function listPrReviewAccountIds(cfg: CoreConfig): string[] {
+  const ids = listConfiguredAccountIds(cfg);
+  if (ids.length === 0) {
+    return [DEFAULT_ACCOUNT_ID];
+  }
+  return ids.toSorted((a, b) => a.localeCompare(b));
+}
+
+export function resolveDefaultPrReviewAccountId(cfg: CoreConfig): string {
+  const ids = listPrReviewAccountIds(cfg);
+  if (ids.includes(DEFAULT_ACCOUNT_ID)) {
+    return DEFAULT_ACCOUNT_ID;
+  }
+  return ids[0] ?? DEFAULT_ACCOUNT_ID;
+}
+
+function resolveAccountConfig(
+  cfg: CoreConfig,
+  accountId: string,
+): PrReviewAccountConfig | undefined {
+  const accounts = cfg.channels?.["pr-review"]?.accounts;
+  if (!accounts || typeof accounts !== "object") {
+    return undefined;
+  }
+  const direct = accounts[accountId];
+  if (direct) {
+    return direct;
+  }
+  const normalized = normalizeAccountId(accountId);
+  const matchKey = Object.keys(accounts).find((key) => normalizeAccountId(key) === normalized);
+  return matchKey ? accounts[matchKey] : undefined;
+}
+
+function mergePrReviewAccountConfig(cfg: CoreConfig, accountId: string): PrReviewAccountConfig {
+  const { accounts: _ignored, ...base } = (cfg.channels?.["pr-review"] ??
+    {}) as PrReviewAccountConfig & { accounts?: unknown };
+  const account = resolveAccountConfig(cfg, accountId) ?? {};
+  return { ...base, ...account };
+}
+
+function resolveToken(
+  merged: PrReviewAccountConfig,
+  forge: PrReviewForge,
+  accountId: string,
+): { token: string; source: PrReviewTokenSource } {
+  if (merged.tokenFile) {
+    try {
+      const token = readFileSync(merged.tokenFile, "utf-8").trim();
+      if (token) {
+        return { token, source: "tokenFile" };
+      }
+    } catch {
+      // File not found or unreadable, fall through.
+    }
+  }
+  if (merged.token?.trim()) {
+    return { token: merged.token.trim(), source: "config" };
+  }
+  if (accountId === DEFAULT_ACCOUNT_ID) {
+    for (const name of TOKEN_ENV_NAMES[forge]) {
+      const token = process.env[name]?.trim();
+      if (token) {
+        return { token, source: "env" };
+      }
+    }
+  }
+  return { token: "", source: "none" };
+}
+
+export function resolvePrReviewAccount(params: {
+  cfg: CoreConfig;
+  accountId?: string | null;
+}): ResolvedPrReviewAccount {
+  const accountId = normalizeAccountId(params.accountId);
+  const baseEnabled = params.cfg.channels?.["pr-review"]?.enabled !== false;
+  const merged = mergePrReviewAccountConfig(params.cfg, accountId);
+  const forge = merged.forge ?? "github";
+  const tokenResolution = resolveToken(merged, forge, accountId);
+  const pollIntervalSeconds =
+    merged.pollIntervalSeconds ??
+    (merged.webhookSecret?.trim() ? 0 : DEFAULT_POLL_INTERVAL_SECONDS);
+
+  return {
+    accountId,
+    enabled: baseEnabled && merged.enabled !== false,
+    configured: Boolean(tokenResolution.token && Object.keys(merged.repos ?? {}).length > 0),
+    name: merged.name?.trim() || undefined,
+    forge,
+    apiBaseUrl: (merged.apiBaseUrl?.trim() || DEFAULT_API_BASE_URL[forge]).replace(/\/+$/, ""),
+    token: tokenResolution.token,
+    tokenSource: tokenResolution.source,
+    botUsername: merged.botUsername?.trim().replace(/^@/, "") || undefined,
+    pollIntervalMs: pollIntervalSeconds * 1000,
+    config: merged,
+  };
+}
+
+export function listEnabledPrReviewAccounts(cfg: CoreConfig): ResolvedPrReviewAccount[] {
+  return listPrReviewAccountIds(cfg)
+    .map((accountId) => resolvePrReviewAccount({ cfg, accountId }))
+    .filter((account) => account.enabled);
+}
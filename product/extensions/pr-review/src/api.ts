@@ -0,0 +1,183 @@
+import type { ResolvedPrReviewAccount } from "./accounts.js";
+import {
+  fromGithubReviewComment,
+  fromGitlabNote,
+  type GithubReviewComment,
+  type GitlabNote,
+} from "./comments.js";
+import type { PrReviewComment } from "./types.js";
+
+const REQUEST_TIMEOUT_MS = 30_000;
+const PAGE_SIZE = 100;
+
+export class PrReviewApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = "PrReviewApiError";
+  }
+}
+
+export type PrReviewPostedComment = {
+  id: string;
+  url?: string;
+};
+
+export type PrReviewClient = {
+  /** Login of the token's user; the bot's own comments are skipped by it. */
+  getUsername(): Promise<string>;
+  /** Review comments created at or after `since`, oldest first. */
+  listCommentsSince(repo: string, since: Date): Promise<PrReviewComment[]>;
+  replyToThread(params: {
+    repo: string;
+    number: number;
+    threadId: string;
+    body: string;
+  }): Promise<PrReviewPostedComment>;
+  commentOnPullRequest(params: {
+    repo: string;
+    number: number;
+    body: string;
+  }): Promise<PrReviewPostedComment>;
+};
+
+type RequestFn = <T>(method: string, path: string, body?: unknown) => Promise<T>;
+
+function createRequest(
+  account: ResolvedPrReviewAccount,
+  headers: Record<string, string>,
+): RequestFn {
+  return async <T>(method: string, path: string, body?: unknown): Promise<T> => {
+    const res = await fetch(`${account.apiBaseUrl}${path}`, {
+      method,
+      headers: {
+        ...headers,
+        ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+      },
+      ...(body !== undefined ? { body: JSON.stringify(body) } : {}),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (!res.ok) {
+      const detail = (await res.text().catch(() => "")).slice(0, 300);
+      throw new PrReviewApiError(
+        `${account.forge} API ${method} ${path} failed (${res.status})${detail ? `: ${detail}` : ""}`,
+        res.status,
+      );
+    }
+    return (await res.json()) as T;
+  };
+}
+
+function createGithubClient(account: ResolvedPrReviewAccount): PrReviewClient {
+  const request = createRequest(account, {
+    Accept: "application/vnd.github+json",
+    Authorization: `Bearer ${account.token}`,
+    "User-Agent": "coderclaw-pr-review",
+    "X-GitHub-Api-Version": "2022-11-28",
+  });
+  const repoPath = (repo: string) => `/repos/${repo.split("/").map(encodeURIComponent).join("/")}`;
+  return {
+    getUsername: async () => (await request<{ login: string }>("GET", "/user")).login,
+    listCommentsSince: async (repo, since) => {
+      const query = new URLSearchParams({
+        sort: "created",
+        direction: "asc",
+        since: since.toISOString(),
+        per_page: String(PAGE_SIZE),
+      });
+      const comments = await request<GithubReviewComment[]>(
+        "GET",
+        `${repoPath(repo)}/pulls/comments?${query.toString()}`,
+      );
+      // `since` filters on updated_at; edited old comments are not new turns.
+      return comments
+        .filter(
+          (comment) => comment.created_at && Date.parse(comment.created_at) >= since.getTime(),
+        )
+        .map((comment) => fromGithubReviewComment({ comment, repo }))
+        .filter((comment): comment is PrReviewComment => comment !== null);
+    },
+    replyToThread: async ({ repo, number, threadId, body }) => {
+      const created = await request<GithubReviewComment>(
+        "POST",
+        `${repoPath(repo)}/pulls/${number}/comments/${encodeURIComponent(threadId)}/replies`,
+        { body },
+      );
+      return { id: String(created.id), ...(created.html_url ? { url: created.html_url } : {}) };
+    },
+    commentOnPullRequest: async ({ repo, number, body }) => {
+      const created = await request<{ id: number; html_url?: string }>(
+        "POST",
+        `${repoPath(repo)}/issues/${number}/comments`,
+        { body },
+      );
+      return { id: String(created.id), ...(created.html_url ? { url: created.html_url } : {}) };
+    },
+  };
+}
+
+type GitlabMergeRequest = { iid: number; title?: string };
+type GitlabDiscussion = { id: string; notes?: GitlabNote[] };
+
+function createGitlabClient(account: ResolvedPrReviewAccount): PrReviewClient {
+  const request = createRequest(account, { "PRIVATE-TOKEN": account.token });
+  const projectPath = (repo: string) => `/projects/${encodeURIComponent(repo)}`;
+  return {
+    getUsername: async () => (await request<{ username: string }>("GET", "/user")).username,
+    listCommentsSince: async (repo, since) => {
+      const mrQuery = new URLSearchParams({
+        state: "opened",
+        updated_after: since.toISOString(),
+        per_page: String(PAGE_SIZE),
+      });
+      const mergeRequests = await request<GitlabMergeRequest[]>(
+        "GET",
+        `${projectPath(repo)}/merge_requests?${mrQuery.toString()}`,
+      );
+      const comments: PrReviewComment[] = [];
+      for (const mr of mergeRequests) {
+        const discussions = await request<GitlabDiscussion[]>(
+          "GET",
+          `${projectPath(repo)}/merge_requests/${mr.iid}/discussions?per_page=${PAGE_SIZE}`,
+        );
+        for (const discussion of discussions) {
+          for (const note of discussion.notes ?? []) {
+            const comment = fromGitlabNote({
+              note,
+              discussionId: discussion.id,
+              repo,
+              number: mr.iid,
+              pullTitle: mr.title,
+            });
+            if (comment && comment.timestamp >= since.getTime()) {
+              comments.push(comment);
+            }
+          }
+        }
+      }
+      return comments.toSorted((a, b) => a.timestamp - b.timestamp);
+    },
+    replyToThread: async ({ repo, number, threadId, body }) => {
+      const created = await request<GitlabNote>(
+        "POST",
+        `${projectPath(repo)}/merge_requests/${number}/discussions/${encodeURIComponent(threadId)}/notes`,
+        { body },
+      );
+      return { id: String(created.id) };
+    },
+    commentOnPullRequest: async ({ repo, number, body }) => {
+      const created = await request<GitlabNote>(
+        "POST",
+        `${projectPath(repo)}/merge_requests/${number}/notes`,
+        { body },
+      );
+      return { id: String(created.id) };
+    },
+  };
+}
+
+export function createPrReviewClient(account: ResolvedPrReviewAccount): PrReviewClient {
+  return account.forge === "gitlab" ? createGitlabClient(account) : createGithubClient(account);
+}
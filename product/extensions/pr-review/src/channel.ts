@@ -0,0 +1,193 @@
+import {
+  buildChannelConfigSchema,
+  DEFAULT_ACCOUNT_ID,
+  deleteAccountFromConfigSection,
+  setAccountEnabledInConfigSection,
+  type ChannelPlugin,
+} from "@seanhogg/coderclaw/plugin-sdk";
+import {
+  listPrReviewAccountIds,
+  resolveDefaultPrReviewAccountId,
+  resolvePrReviewAccount,
+  type ResolvedPrReviewAccount,
+} from "./accounts.js";
+import { PrReviewConfigSchema } from "./config-schema.js";
+import { monitorPrReviewProvider } from "./monitor.js";
+import { normalizePrReviewAllowEntry } from "./policy.js";
+import { getPrReviewRuntime } from "./runtime.js";
+import { sendMessagePrReview } from "./send.js";
+import { looksLikePrReviewTargetId, normalizePrReviewMessagingTarget } from "./targets.js";
+import type { CoreConfig } from "./types.js";
+
+const meta = {
+  id: "pr-review",
+  label: "PR Review",
+  selectionLabel: "PR review threads (GitHub/GitLab)",
+  docsPath: "/channels/pr-review",
+  docsLabel: "pr-review",
+  blurb: "talk to CoderClaw in pull-request review comments; replies land in the thread.",
+  aliases: ["pr", "review"],
+  order: 80,
+};
+
+export const prReviewPlugin: ChannelPlugin<ResolvedPrReviewAccount> = {
+  id: "pr-review",
+  meta,
+  capabilities: {
+    chatTypes: ["group"],
+    threads: true,
+    blockStreaming: true,
+  },
+  reload: { configPrefixes: ["channels.pr-review"] },
+  configSchema: buildChannelConfigSchema(PrReviewConfigSchema),
+  config: {
+    listAccountIds: (cfg) => listPrReviewAccountIds(cfg as CoreConfig),
+    resolveAccount: (cfg, accountId) =>
+      resolvePrReviewAccount({ cfg: cfg as CoreConfig, accountId }),
+    defaultAccountId: (cfg) => resolveDefaultPrReviewAccountId(cfg as CoreConfig),
+    setAccountEnabled: ({ cfg, accountId, enabled }) =>
+      setAccountEnabledInConfigSection({
+        cfg,
+        sectionKey: "pr-review",
+        accountId,
+        enabled,
+        allowTopLevel: true,
+      }),
+    deleteAccount: ({ cfg, accountId }) =>
+      deleteAccountFromConfigSection({
+        cfg,
+        sectionKey: "pr-review",
+        accountId,
+        clearBaseFields: [
+          "name",
+          "forge",
+          "apiBaseUrl",
+          "token",
+          "tokenFile",
+          "botUsername",
+          "webhookSecret",
+          "webhookPath",
+          "repos",
+        ],
+      }),
+    isConfigured: (account) => account.configured,
+    describeAccount: (account) => ({
+      accountId: account.accountId,
+      name: account.name,
+      enabled: account.enabled,
+      configured: account.configured,
+      forge: account.forge,
+      baseUrl: account.apiBaseUrl,
+      tokenSource: account.tokenSource,
+    }),
+    resolveAllowFrom: ({ cfg, accountId }) =>
+      (resolvePrReviewAccount({ cfg: cfg as CoreConfig, accountId }).config.allowFrom ?? []).map(
+        (entry) => String(entry),
+      ),
+    formatAllowFrom: ({ allowFrom }) =>
+      allowFrom.map((entry) => normalizePrReviewAllowEntry(String(entry))).filter(Boolean),
+  },
+  security: {
+    collectWarnings: ({ account, cfg }) => {
+      const warnings: string[] = [];
+      const groupPolicy =
+        account.config.groupPolicy ??
+        (cfg as CoreConfig).channels?.defaults?.groupPolicy ??
+        "allowlist";
+      if (groupPolicy === "open") {
+        warnings.push(
+          '- PR Review: groupPolicy="open" lets anyone who can comment on a configured repository drive the agent. Prefer channels.pr-review.allowFrom with forge usernames.',
+        );
+      }
+      if (account.config.repos?.["*"]) {
+        warnings.push(
+          '- PR Review: repos["*"] accepts webhook comments from any repository that knows the secret; list repositories explicitly.',
+        );
+      }
+      return warnings;
+    },
+  },
+  threading: {
+    // Replies always go into the review thread they answer.
+    resolveReplyToMode: () => "all",
+    buildToolContext: ({ context, hasRepliedRef }) => ({
+      currentChannelId: context.To?.trim() || undefined,
+      currentThreadTs:
+        context.MessageThreadId != null ? String(context.MessageThreadId) : undefined,
+      hasRepliedRef,
+    }),
+  },
+  messaging: {
+    normalizeTarget: normalizePrReviewMessagingTarget,
+    targetResolver: {
+      looksLikeId: looksLikePrReviewTargetId,
+      hint: "<owner/repo#number>",
+    },
+  },
+  outbound: {
+    deliveryMode: "direct",
+    chunker: (text, limit) => getPrReviewRuntime().channel.text.chunkMarkdownText(text, limit),
+    chunkerMode: "markdown",
+    textChunkLimit: 60000,
+    sendText: async ({ to, text, accountId, threadId }) => {
+      const result = await sendMessagePrReview(to, text, {
+        accountId: accountId ?? undefined,
+        threadId: threadId != null ? String(threadId) : undefined,
+      });
+      return { channel: "pr-review", ...result };
+    },
+  },
+  status: {
+    defaultRuntime: {
+      accountId: DEFAULT_ACCOUNT_ID,
+      running: false,
+      lastStartAt: null,
+      lastStopAt: null,
+      lastError: null,
+    },
+    buildChannelSummary: ({ account, snapshot }) => ({
+      configured: snapshot.configured ?? false,
+      forge: account.forge,
+      tokenSource: account.tokenSource,
+      running: snapshot.running ?? false,
+      lastStartAt: snapshot.lastStartAt ?? null,
+      lastStopAt: snapshot.lastStopAt ?? null,
+      lastError: snapshot.lastError ?? null,
+    }),
+    buildAccountSnapshot: ({ account, runtime }) => ({
+      accountId: account.accountId,
+      name: account.name,
+      enabled: account.enabled,
+      configured: account.configured,
+      baseUrl: account.apiBaseUrl,
+      tokenSource: account.tokenSource,
+      running: runtime?.running ?? false,
+      lastStartAt: runtime?.lastStartAt ?? null,
+      lastStopAt: runtime?.lastStopAt ?? null,
+      lastError: runtime?.lastError ?? null,
+      lastInboundAt: runtime?.lastInboundAt ?? null,
+      lastOutboundAt: runtime?.lastOutboundAt ?? null,
+    }),
+  },
+  gateway: {
+    startAccount: async (ctx) => {
+      const account = ctx.account;
+      if (!account.configured) {
+        throw new Error(
+          `PR review is not configured for account "${account.accountId}" (need a token and channels.pr-review.repos).`,
+        );
+      }
+      ctx.log?.info(
+        `[${account.accountId}] starting ${account.forge} review-thread provider (${Object.keys(account.config.repos ?? {}).join(", ")})`,
+      );
+      const { stop } = await monitorPrReviewProvider({
+        account,
+        config: ctx.cfg as CoreConfig,
+        runtime: ctx.runtime,
+        abortSignal: ctx.abortSignal,
+        statusSink: (patch) => ctx.setStatus({ accountId: ctx.accountId, ...patch }),
+      });
+      return { stop };
+    },
+  },
+};
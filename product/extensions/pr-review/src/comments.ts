@@ -0,0 +1,124 @@
+import type { PrReviewComment } from "./types.js";
+
+/** Review comment as returned by GitHub's REST API and `pull_request_review_comment` webhooks. */
+export type GithubReviewComment = {
+  id: number;
+  in_reply_to_id?: number | null;
+  body?: string | null;
+  user?: { login?: string | null; type?: string | null } | null;
+  path?: string | null;
+  line?: number | null;
+  start_line?: number | null;
+  commit_id?: string | null;
+  diff_hunk?: string | null;
+  html_url?: string | null;
+  created_at?: string | null;
+  pull_request_url?: string | null;
+};
+
+/** Note as returned by GitLab's discussions API and "Note Hook" webhooks. */
+export type GitlabNote = {
+  id: number;
+  body?: string | null;
+  note?: string | null;
+  system?: boolean | null;
+  author?: { username?: string | null; name?: string | null } | null;
+  created_at?: string | null;
+  url?: string | null;
+  position?: {
+    new_path?: string | null;
+    new_line?: number | null;
+    head_sha?: string | null;
+    line_range?: {
+      start?: { new_line?: number | null } | null;
+      end?: { new_line?: number | null } | null;
+    } | null;
+  } | null;
+};
+
+function parseTimestamp(raw: string | null | undefined): number {
+  const parsed = raw ? Date.parse(raw) : Number.NaN;
+  return Number.isFinite(parsed) ? parsed : Date.now();
+}
+
+function positiveLine(value: number | null | undefined): number | undefined {
+  return typeof value === "number" && value > 0 ? value : undefined;
+}
+
+/** Pull request number from a comment's `pull_request_url`. */
+export function githubPullNumberFromUrl(url: string | null | undefined): number | undefined {
+  const match = url?.match(/\/pulls\/(\d+)$/);
+  return match ? Number.parseInt(match[1], 10) : undefined;
+}
+
+/**
+ * A GitHub review thread is keyed by its first comment: replies carry
+ * `in_reply_to_id` pointing at it, and new replies are posted against it.
+ */
+export function fromGithubReviewComment(params: {
+  comment: GithubReviewComment;
+  repo: string;
+  number?: number;
+  pullTitle?: string;
+}): PrReviewComment | null {
+  const { comment } = params;
+  const number = params.number ?? githubPullNumberFromUrl(comment.pull_request_url);
+  const author = comment.user?.login?.trim();
+  if (!number || !author) {
+    return null;
+  }
+  const line = positiveLine(comment.line);
+  const startLine = positiveLine(comment.start_line);
+  return {
+    forge: "github",
+    repo: params.repo,
+    number,
+    ...(params.pullTitle ? { pullTitle: params.pullTitle } : {}),
+    threadId: String(comment.in_reply_to_id ?? comment.id),
+    commentId: String(comment.id),
+    author,
+    body: comment.body?.trim() ?? "",
+    ...(comment.html_url ? { url: comment.html_url } : {}),
+    ...(comment.path ? { path: comment.path } : {}),
+    ...(line ? { line } : {}),
+    ...(startLine && line && startLine < line ? { startLine } : {}),
+    ...(comment.commit_id ? { commitId: comment.commit_id } : {}),
+    ...(comment.diff_hunk ? { diffHunk: comment.diff_hunk } : {}),
+    timestamp: parseTimestamp(comment.created_at),
+  };
+}
+
+/** GitLab threads are discussions; every note in one shares its discussion id. */
+export function fromGitlabNote(params: {
+  note: GitlabNote;
+  discussionId: string;
+  repo: string;
+  number: number;
+  pullTitle?: string;
+}): PrReviewComment | null {
+  const { note } = params;
+  const author = note.author?.username?.trim();
+  if (note.system || !author) {
+    return null;
+  }
+  const position = note.position;
+  const line = positiveLine(position?.new_line);
+  const rangeStart = positiveLine(position?.line_range?.start?.new_line);
+  return {
+    forge: "gitlab",
+    repo: params.repo,
+    number: params.number,
+    ...(params.pullTitle ? { pullTitle: params.pullTitle } : {}),
+    threadId: params.discussionId,
+    commentId: String(note.id),
+    author,
+    ...(note.author?.name?.trim() ? { authorName: note.author.name.trim() } : {}),
+    body: (note.body ?? note.note ?? "").trim(),
+    ...(note.url ? { url: note.url } : {}),
+    ...(position?.new_path ? { path: position.new_path } : {}),
+    ...(line ? { line } : {}),
+    ...(rangeStart && line && rangeStart < line ? { startLine: rangeStart } : {}),
+    ...(position?.head_sha ? { commitId: position.head_sha } : {}),
+    timestamp: parseTimestamp(note.created_at),
+  };
+}
@@ -0,0 +1,66 @@
+import {
+  BlockStreamingCoalesceSchema,
+  GroupPolicySchema,
+  MarkdownConfigSchema,
+  requireOpenAllowFrom,
+} from "@seanhogg/coderclaw/plugin-sdk";
+import { z } from "zod";
+
+export const PrReviewRepoSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    path: z.string().optional(),
+    requireMention: z.boolean().optional(),
+    allowFrom: z.array(z.union([z.string(), z.number()])).optional(),
+  })
+  .strict();
+
+export const PrReviewAccountSchemaBase = z
+  .object({
+    name: z.string().optional(),
+    enabled: z.boolean().optional(),
+    forge: z.enum(["github", "gitlab"]).optional(),
+    apiBaseUrl: z.string().url().optional(),
+    token: z.string().optional(),
+    tokenFile: z.string().optional(),
+    botUsername: z.string().optional(),
+    webhookSecret: z.string().optional(),
+    webhookPath: z.string().optional(),
+    pollIntervalSeconds: z.number().int().min(0).optional(),
+    repos: z.record(z.string(), PrReviewRepoSchema.optional()).optional(),
+    groupPolicy: GroupPolicySchema.optional().default("allowlist"),
+    allowFrom: z.array(z.union([z.string(), z.number()])).optional(),
+    requireMention: z.boolean().optional(),
+    suggestions: z.boolean().optional(),
+    markdown: MarkdownConfigSchema,
+    textChunkLimit: z.number().int().positive().optional(),
+    chunkMode: z.enum(["length", "newline"]).optional(),
+    blockStreaming: z.boolean().optional(),
+    blockStreamingCoalesce: BlockStreamingCoalesceSchema.optional(),
+    responsePrefix: z.string().optional(),
+  })
+  .strict();
+
+export const PrReviewAccountSchema = PrReviewAccountSchemaBase.superRefine((value, ctx) => {
+  requireOpenAllowFrom({
+    policy: value.groupPolicy,
+    allowFrom: value.allowFrom,
+    ctx,
+    path: ["allowFrom"],
+    message:
+      'channels.pr-review.groupPolicy="open" requires channels.pr-review.allowFrom to include "*"',
+  });
+});
+
+export const PrReviewConfigSchema = PrReviewAccountSchemaBase.extend({
+  accounts: z.record(z.string(), PrReviewAccountSchema.optional()).optional(),
+}).superRefine((value, ctx) => {
+  requireOpenAllowFrom({
+    policy: value.groupPolicy,
+    allowFrom: value.allowFrom,
+    ctx,
+    path: ["allowFrom"],
+    message:
+      'channels.pr-review.groupPolicy="open" requires channels.pr-review.allowFrom to include "*"',
+  });
+});
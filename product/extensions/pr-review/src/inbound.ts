@@ -0,0 +1,228 @@
+import {
+  createReplyPrefixOptions,
+  resolveControlCommandGate,
+  resolveMentionGatingWithBypass,
+  resolveThreadSessionKeys,
+  type CoderClawConfig,
+  type RuntimeEnv,
+} from "@seanhogg/coderclaw/plugin-sdk";
+import type { ResolvedPrReviewAccount } from "./accounts.js";
+import {
+  mentionsPrReviewBot,
+  normalizePrReviewAllowlist,
+  resolvePrReviewAllowlistMatch,
+  resolvePrReviewRepoConfig,
+  stripPrReviewBotMention,
+} from "./policy.js";
+import { getPrReviewRuntime } from "./runtime.js";
+import { sendMessagePrReview } from "./send.js";
+import { formatPrReviewTarget, prReviewPeerId } from "./targets.js";
+import { getPrReviewThread, rememberPrReviewComment } from "./threads.js";
+import type { CoreConfig, PrReviewComment } from "./types.js";
+
+const CHANNEL_ID = "pr-review" as const;
+
+/** What the agent sees: where the comment sits, the diff around it, then the comment. */
+function buildAgentBody(comment: PrReviewComment, text: string): string {
+  const location = comment.path
+    ? `${comment.path}${comment.line ? `:${comment.startLine ? `${comment.startLine}-` : ""}${comment.line}` : ""}`
+    : undefined;
+  const lines = [
+    `Review comment by @${comment.author} on ${comment.repo}#${comment.number}${location ? ` at ${location}` : ""}`,
+  ];
+  if (comment.diffHunk) {
+    lines.push("", "```diff", comment.diffHunk, "```");
+  }
+  lines.push("", text);
+  return lines.join("\n");
+}
+
+export async function handlePrReviewComment(params: {
+  comment: PrReviewComment;
+  account: ResolvedPrReviewAccount;
+  botUsername?: string;
+  config: CoreConfig;
+  runtime: RuntimeEnv;
+  statusSink?: (patch: { lastInboundAt?: number; lastOutboundAt?: number }) => void;
+}): Promise<void> {
+  const { comment, account, botUsername, config, runtime, statusSink } = params;
+  const core = getPrReviewRuntime();
+
+  if (botUsername && comment.author.toLowerCase() === botUsername.toLowerCase()) {
+    return;
+  }
+  const rawBody = comment.body.trim();
+  if (!rawBody) {
+    return;
+  }
+
+  const repoConfig = resolvePrReviewRepoConfig(account.config, comment.repo);
+  if (!repoConfig || repoConfig.enabled === false) {
+    runtime.log?.(`pr-review: drop comment in ${comment.repo} (repository not configured)`);
+    return;
+  }
+  statusSink?.({ lastInboundAt: comment.timestamp });
+  rememberPrReviewComment(account.accountId, comment);
+
+  const groupPolicy =
+    account.config.groupPolicy ?? config.channels?.defaults?.groupPolicy ?? "allowlist";
+  if (groupPolicy === "disabled") {
+    runtime.log?.(`pr-review: drop comment by ${comment.author} (groupPolicy=disabled)`);
+    return;
+  }
+  const allowFrom = normalizePrReviewAllowlist(repoConfig.allowFrom ?? account.config.allowFrom);
+  const senderAllowed = resolvePrReviewAllowlistMatch({
+    allowFrom,
+    author: comment.author,
+  }).allowed;
+  if (groupPolicy === "allowlist" && !senderAllowed) {
+    runtime.log?.(`pr-review: drop comment by ${comment.author} (not in allowFrom)`);
+    return;
+  }
+
+  const allowTextCommands = core.channel.commands.shouldHandleTextCommands({
+    cfg: config as CoderClawConfig,
+    surface: CHANNEL_ID,
+  });
+  const hasControlCommand = core.channel.text.hasControlCommand(rawBody, config as CoderClawConfig);
+  const useAccessGroups = config.commands?.useAccessGroups !== false;
+  const commandGate = resolveControlCommandGate({
+    useAccessGroups,
+    authorizers: [{ configured: allowFrom.length > 0, allowed: senderAllowed }],
+    allowTextCommands,
+    hasControlCommand,
+  });
+
+  // A thread starts with a mention; once the bot has replied, the thread is
+  // the conversation and follow-ups need no mention.
+  const thread = getPrReviewThread(account.accountId, comment);
+  const requireMention = repoConfig.requireMention ?? account.config.requireMention ?? true;
+  const mentionGate = resolveMentionGatingWithBypass({
+    isGroup: true,
+    requireMention,
+    canDetectMention: Boolean(botUsername),
+    wasMentioned: mentionsPrReviewBot(rawBody, botUsername),
+    implicitMention: thread?.engaged === true,
+    allowTextCommands,
+    hasControlCommand,
+    commandAuthorized: commandGate.commandAuthorized,
+  });
+  if (mentionGate.shouldSkip) {
+    runtime.log?.(`pr-review: drop comment ${comment.commentId} (mention required)`);
+    return;
+  }
+  if (commandGate.shouldBlock) {
+    runtime.log?.(`pr-review: drop control command from ${comment.author}`);
+    return;
+  }
+
+  const route = core.channel.routing.resolveAgentRoute({
+    cfg: config as CoderClawConfig,
+    channel: CHANNEL_ID,
+    accountId: account.accountId,
+    peer: { kind: "group", id: prReviewPeerId(comment) },
+  });
+  // One session per review thread, under the pull request's group session.
+  const threadKeys = resolveThreadSessionKeys({
+    baseSessionKey: route.sessionKey,
+    threadId: comment.threadId,
+    parentSessionKey: route.sessionKey,
+  });
+
+  const commandBody = stripPrReviewBotMention(rawBody, botUsername);
+  const bodyForAgent = buildAgentBody(comment, commandBody);
+  const pullLabel = `${comment.repo}#${comment.number}`;
+  const target = formatPrReviewTarget(comment);
+
+  const storePath = core.channel.session.resolveStorePath(config.session?.store, {
+    agentId: route.agentId,
+  });
+  const envelopeOptions = core.channel.reply.resolveEnvelopeFormatOptions(
+    config as CoderClawConfig,
+  );
+  const previousTimestamp = core.channel.session.readSessionUpdatedAt({
+    storePath,
+    sessionKey: threadKeys.sessionKey,
+  });
+  const body = core.channel.reply.formatAgentEnvelope({
+    channel: "PR Review",
+    from: `${comment.author} in ${pullLabel}`,
+    timestamp: comment.timestamp,
+    previousTimestamp,
+    envelope: envelopeOptions,
+    body: bodyForAgent,
+  });
+
+  const ctxPayload = core.channel.reply.finalizeInboundContext({
+    Body: body,
+    BodyForAgent: bodyForAgent,
+    RawBody: rawBody,
+    CommandBody: commandBody,
+    From: `pr-review:${comment.author}`,
+    To: `pr-review:${target}`,
+    SessionKey: threadKeys.sessionKey,
+    ParentSessionKey: threadKeys.parentSessionKey,
+    AccountId: route.accountId,
+    ChatType: "group",
+    ConversationLabel: pullLabel,
+    GroupSubject: comment.pullTitle ? `${pullLabel}: ${comment.pullTitle}` : pullLabel,
+    SenderName: comment.authorName ?? comment.author,
+    SenderId: comment.author,
+    SenderUsername: comment.author,
+    Provider: CHANNEL_ID,
+    Surface: CHANNEL_ID,
+    WasMentioned: mentionGate.effectiveWasMentioned,
+    MessageSid: comment.commentId,
+    MessageThreadId: comment.threadId,
+    ThreadLabel: comment.path ?? pullLabel,
+    Timestamp: comment.timestamp,
+    OriginatingChannel: CHANNEL_ID,
+    OriginatingTo: `pr-review:${target}`,
+    CommandAuthorized: commandGate.commandAuthorized,
+  });
+
+  await core.channel.session.recordInboundSession({
+    storePath,
+    sessionKey: ctxPayload.SessionKey ?? threadKeys.sessionKey,
+    ctx: ctxPayload,
+    onRecordError: (err) => {
+      runtime.error?.(`pr-review: failed updating session meta: ${String(err)}`);
+    },
+  });
+
+  const { onModelSelected, ...prefixOptions } = createReplyPrefixOptions({
+    cfg: config as CoderClawConfig,
+    agentId: route.agentId,
+    channel: CHANNEL_ID,
+    accountId: account.accountId,
+  });
+
+  await core.channel.reply.dispatchReplyWithBufferedBlockDispatcher({
+    ctx: ctxPayload,
+    cfg: config as CoderClawConfig,
+    dispatcherOptions: {
+      ...prefixOptions,
+      deliver: async (payload) => {
+        const text = (payload as { text?: string }).text?.trim();
+        if (!text) {
+          return;
+        }
+        await sendMessagePrReview(target, text, {
+          accountId: account.accountId,
+          threadId: comment.threadId,
+        });
+        statusSink?.({ lastOutboundAt: Date.now() });
+      },
+      onError: (err, info) => {
+        runtime.error?.(`pr-review ${info.kind} reply failed: ${String(err)}`);
+      },
+    },
+    replyOptions: {
+      onModelSelected,
+      disableBlockStreaming:
+        typeof account.config.blockStreaming === "boolean"
+          ? !account.config.blockStreaming
+          : undefined,
+    },
+  });
+}
@@ -0,0 +1,239 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import {
+  isRequestBodyLimitError,
+  readRequestBodyWithLimit,
+  registerWebhookTarget,
+  rejectNonPostWebhookRequest,
+  requestBodyErrorToText,
+  resolveHookSignature,
+  resolveWebhookPath,
+  resolveWebhookTargets,
+  verifyHookSignature,
+  type HookSignatureResolved,
+  type RuntimeEnv,
+} from "@seanhogg/coderclaw/plugin-sdk";
+import type { ResolvedPrReviewAccount } from "./accounts.js";
+import { createPrReviewClient } from "./api.js";
+import { handlePrReviewComment } from "./inbound.js";
+import { listPolledPrReviewRepos } from "./policy.js";
+import { getPrReviewRuntime } from "./runtime.js";
+import { markPrReviewCommentSeen } from "./threads.js";
+import type { CoreConfig, PrReviewComment } from "./types.js";
+import { parsePrReviewWebhookEvent } from "./webhook.js";
+
+const DEFAULT_WEBHOOK_PATH = "/pr-review";
+const WEBHOOK_MAX_BODY_BYTES = 5 * 1024 * 1024;
+const WEBHOOK_BODY_TIMEOUT_MS = 30_000;
+/** Each poll looks back this far past the previous one; seen ids drop the overlap. */
+const POLL_OVERLAP_MS = 60_000;
+
+type StatusSink = (patch: {
+  lastInboundAt?: number;
+  lastOutboundAt?: number;
+  lastError?: string | null;
+}) => void;
+
+export type PrReviewMonitorOptions = {
+  account: ResolvedPrReviewAccount;
+  config: CoreConfig;
+  runtime: RuntimeEnv;
+  abortSignal?: AbortSignal;
+  statusSink?: StatusSink;
+};
+
+type WebhookTarget = {
+  path: string;
+  account: ResolvedPrReviewAccount;
+  signature: HookSignatureResolved;
+  dispatch: (comment: PrReviewComment) => Promise<void>;
+  runtime: RuntimeEnv;
+};
+
+const webhookTargets = new Map<string, WebhookTarget[]>();
+
+function lowerCaseHeaders(req: IncomingMessage): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (typeof value === "string") {
+      headers[name.toLowerCase()] = value;
+    } else if (Array.isArray(value) && value[0]) {
+      headers[name.toLowerCase()] = value[0];
+    }
+  }
+  return headers;
+}
+
+export async function handlePrReviewWebhookRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+): Promise<boolean> {
+  const resolved = resolveWebhookTargets(req, webhookTargets);
+  if (!resolved) {
+    return false;
+  }
+  if (rejectNonPostWebhookRequest(req, res)) {
+    return true;
+  }
+
+  let rawBody: string;
+  try {
+    rawBody = await readRequestBodyWithLimit(req, {
+      maxBytes: WEBHOOK_MAX_BODY_BYTES,
+      timeoutMs: WEBHOOK_BODY_TIMEOUT_MS,
+    });
+  } catch (err) {
+    if (isRequestBodyLimitError(err)) {
+      res.statusCode = err.statusCode;
+      res.end(requestBodyErrorToText(err.code));
+      return true;
+    }
+    res.statusCode = 400;
+    res.end("invalid body");
+    return true;
+  }
+
+  const headers = lowerCaseHeaders(req);
+  const target = resolved.targets.find((entry) =>
+    verifyHookSignature(entry.signature, headers, rawBody),
+  );
+  if (!target) {
+    res.statusCode = 401;
+    res.end("unauthorized");
+    return true;
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(rawBody);
+  } catch {
+    res.statusCode = 400;
+    res.end("invalid payload");
+    return true;
+  }
+
+  const comment = parsePrReviewWebhookEvent({
+    forge: target.account.forge,
+    headers,
+    payload,
+  });
+  res.statusCode = 200;
+  res.setHeader("Content-Type", "application/json");
+  res.end("{}");
+  if (comment) {
+    target.dispatch(comment).catch((err) => {
+      target.runtime.error?.(
+        `[${target.account.accountId}] pr-review webhook failed: ${String(err)}`,
+      );
+    });
+  }
+  return true;
+}
+
+/**
+ * Start receiving review comments for one account: a signed webhook target
+ * when `webhookSecret` is set, and/or polling every `pollIntervalSeconds`.
+ * Both feed the same dispatcher, which drops comments it has already seen.
+ */
+export async function monitorPrReviewProvider(
+  opts: PrReviewMonitorOptions,
+): Promise<{ stop: () => void }> {
+  const { account, config, runtime, statusSink } = opts;
+  const core = getPrReviewRuntime();
+  const client = createPrReviewClient(account);
+  const botUsername = account.botUsername ?? (await client.getUsername());
+
+  const dispatch = async (comment: PrReviewComment) => {
+    if (!markPrReviewCommentSeen(account.accountId, comment.commentId)) {
+      return;
+    }
+    core.channel.activity.record({
+      channel: "pr-review",
+      accountId: account.accountId,
+      direction: "inbound",
+      at: comment.timestamp,
+    });
+    await handlePrReviewComment({
+      comment,
+      account,
+      botUsername,
+      config,
+      runtime,
+      statusSink,
+    });
+  };
+
+  const cleanups: Array<() => void> = [];
+
+  const webhookSecret = account.config.webhookSecret?.trim();
+  if (webhookSecret) {
+    const path =
+      resolveWebhookPath({
+        webhookPath: account.config.webhookPath,
+        defaultPath: DEFAULT_WEBHOOK_PATH,
+      }) ?? DEFAULT_WEBHOOK_PATH;
+    const { unregister } = registerWebhookTarget(webhookTargets, {
+      path,
+      account,
+      signature: resolveHookSignature({ preset: account.forge, secret: webhookSecret }),
+      dispatch,
+      runtime,
+    });
+    cleanups.push(unregister);
+  }
+
+  const repos = listPolledPrReviewRepos(account.config);
+  if (account.pollIntervalMs > 0 && repos.length > 0) {
+    let since = new Date();
+    let timer: NodeJS.Timeout | null = null;
+    let stopped = false;
+    const poll = async () => {
+      const startedAt = Date.now();
+      let failed = false;
+      for (const repo of repos) {
+        try {
+          const comments = await client.listCommentsSince(repo, since);
+          for (const comment of comments) {
+            await dispatch(comment);
+          }
+        } catch (err) {
+          failed = true;
+          runtime.error?.(`[${account.accountId}] pr-review poll ${repo} failed: ${String(err)}`);
+          statusSink?.({ lastError: String(err) });
+        }
+      }
+      if (!failed) {
+        since = new Date(startedAt - POLL_OVERLAP_MS);
+        statusSink?.({ lastError: null });
+      }
+    };
+    const schedule = () => {
+      if (stopped) {
+        return;
+      }
+      timer = setTimeout(() => {
+        void poll().finally(schedule);
+      }, account.pollIntervalMs);
+    };
+    schedule();
+    cleanups.push(() => {
+      stopped = true;
+      if (timer) {
+        clearTimeout(timer);
+      }
+    });
+  }
+
+  if (cleanups.length === 0) {
+    runtime.error?.(
+      `[${account.accountId}] pr-review has no inbound source (set webhookSecret or pollIntervalSeconds with repos)`,
+    );
+  }
+
+  const stop = () => {
+    for (const cleanup of cleanups.splice(0)) {
+      cleanup();
+    }
+  };
+  opts.abortSignal?.addEventListener("abort", stop, { once: true });
+  return { stop };
+}
@@ -0,0 +1,68 @@
+import { escapeRegExp, type AllowlistMatch } from "@seanhogg/coderclaw/plugin-sdk";
+import type { PrReviewAccountConfig, PrReviewRepoConfig } from "./types.js";
+
+export function normalizePrReviewAllowEntry(raw: string): string {
+  return raw
+    .trim()
+    .replace(/^(pr-review|github|gitlab):/i, "")
+    .replace(/^@/, "")
+    .toLowerCase();
+}
+
+export function normalizePrReviewAllowlist(values: Array<string | number> | undefined): string[] {
+  return (values ?? []).map((value) => normalizePrReviewAllowEntry(String(value))).filter(Boolean);
+}
+
+/** Forge usernames are case-insensitive on both GitHub and GitLab. */
+export function resolvePrReviewAllowlistMatch(params: {
+  allowFrom: Array<string | number> | undefined;
+  author: string;
+}): AllowlistMatch<"wildcard" | "id"> {
+  const allowFrom = normalizePrReviewAllowlist(params.allowFrom);
+  if (allowFrom.length === 0) {
+    return { allowed: false };
+  }
+  if (allowFrom.includes("*")) {
+    return { allowed: true, matchKey: "*", matchSource: "wildcard" };
+  }
+  const author = normalizePrReviewAllowEntry(params.author);
+  if (author && allowFrom.includes(author)) {
+    return { allowed: true, matchKey: author, matchSource: "id" };
+  }
+  return { allowed: false };
+}
+
+/** Repository entry by exact (case-insensitive) name, falling back to "*". */
+export function resolvePrReviewRepoConfig(
+  config: PrReviewAccountConfig,
+  repo: string,
+): PrReviewRepoConfig | undefined {
+  const repos = config.repos ?? {};
+  const key = repo.toLowerCase();
+  const matchKey = Object.keys(repos).find((entry) => entry.toLowerCase() === key);
+  return matchKey ? repos[matchKey] : repos["*"];
+}
+
+/** Repositories polled for comments: explicit entries only, never the "*" wildcard. */
+export function listPolledPrReviewRepos(config: PrReviewAccountConfig): string[] {
+  return Object.entries(config.repos ?? {})
+    .filter(([repo, entry]) => repo !== "*" && entry?.enabled !== false)
+    .map(([repo]) => repo);
+}
+
+/** True when the comment mentions the bot as "@name" (not as part of a longer handle). */
+export function mentionsPrReviewBot(body: string, botUsername: string | undefined): boolean {
+  if (!botUsername) {
+    return false;
+  }
+  const escaped = escapeRegExp(botUsername);
+  return new RegExp(`(^|[^\\w@/])@${escaped}(?![\\w-])`, "i").test(body);
+}
+
+export function stripPrReviewBotMention(body: string, botUsername: string | undefined): string {
+  if (!botUsername) {
+    return body.trim();
+  }
+  const escaped = escapeRegExp(botUsername);
+  return body.replace(new RegExp(`(^|[^\\w@/])@${escaped}(?![\\w-])`, "gi"), "$1").trim();
+}
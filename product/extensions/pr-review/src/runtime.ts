@@ -0,0 +1,14 @@
+import type { PluginRuntime } from "@seanhogg/coderclaw/plugin-sdk";
+
+let runtime: PluginRuntime | null = null;
+
+export function setPrReviewRuntime(next: PluginRuntime) {
+  runtime = next;
+}
+
+export function getPrReviewRuntime(): PluginRuntime {
+  if (!runtime) {
+    throw new Error("PR review runtime not initialized");
+  }
+  return runtime;
+}
@@ -0,0 +1,96 @@
+import { resolvePrReviewAccount, type ResolvedPrReviewAccount } from "./accounts.js";
+import { createPrReviewClient, type PrReviewPostedComment } from "./api.js";
+import { resolvePrReviewRepoConfig } from "./policy.js";
+import { getPrReviewRuntime } from "./runtime.js";
+import { buildStagedSuggestion } from "./suggestions.js";
+import { formatPrReviewTarget, parsePrReviewTarget } from "./targets.js";
+import { getPrReviewThread, markPrReviewThreadReplied } from "./threads.js";
+import type { CoreConfig, PrReviewSendResult, PrReviewTarget } from "./types.js";
+
+type PrReviewSendOpts = {
+  accountId?: string;
+  /** Thread to reply in; overrides a ":thread:" suffix on the target. */
+  threadId?: string;
+};
+
+/**
+ * Suggested change for the thread's anchored lines, built from the edit
+ * staged for the file in the repository's configured checkout. Skipped when
+ * it matches the last suggestion posted in the thread.
+ */
+async function resolveThreadSuggestion(
+  account: ResolvedPrReviewAccount,
+  target: PrReviewTarget & { threadId: string },
+): Promise<string | undefined> {
+  if (account.config.suggestions === false) {
+    return undefined;
+  }
+  const thread = getPrReviewThread(account.accountId, target);
+  const repoRoot = resolvePrReviewRepoConfig(account.config, target.repo)?.path?.trim();
+  if (!thread?.path || !thread.line || !repoRoot) {
+    return undefined;
+  }
+  const core = getPrReviewRuntime();
+  const suggestion = await buildStagedSuggestion({
+    runCommand: core.system.runCommandWithTimeout,
+    stagedEdits: core.stagedEdits,
+    repoRoot,
+    forge: account.forge,
+    path: thread.path,
+    startLine: thread.startLine ?? thread.line,
+    endLine: thread.line,
+    commitId: thread.commitId,
+  }).catch(() => null);
+  if (!suggestion || suggestion === thread.lastSuggestion) {
+    return undefined;
+  }
+  return suggestion;
+}
+
+export async function sendMessagePrReview(
+  to: string,
+  text: string,
+  opts: PrReviewSendOpts = {},
+): Promise<PrReviewSendResult> {
+  const core = getPrReviewRuntime();
+  const cfg = core.config.loadConfig() as CoreConfig;
+  const account = resolvePrReviewAccount({ cfg, accountId: opts.accountId });
+  if (!account.token) {
+    throw new Error(
+      `PR review token missing for account "${account.accountId}" (set channels.pr-review.token or tokenFile).`,
+    );
+  }
+  const parsed = parsePrReviewTarget(to);
+  if (!parsed) {
+    throw new Error(`Invalid PR review target: ${to} (expected owner/repo#123)`);
+  }
+  const threadId = opts.threadId?.trim() || parsed.threadId;
+  const message = text?.trim() ?? "";
+  if (!message) {
+    throw new Error("Message must be non-empty for PR review sends");
+  }
+
+  const client = createPrReviewClient(account);
+  let posted: PrReviewPostedComment;
+  if (threadId) {
+    const target = { repo: parsed.repo, number: parsed.number, threadId };
+    const suggestion = await resolveThreadSuggestion(account, target);
+    posted = await client.replyToThread({
+      ...target,
+      body: suggestion ? `${message}\n\n${suggestion}` : message,
+    });
+    markPrReviewThreadReplied(account.accountId, target, { commentId: posted.id, suggestion });
+  } else {
+    posted = await client.commentOnPullRequest({ ...parsed, body: message });
+  }
+
+  core.channel.activity.record({
+    channel: "pr-review",
+    accountId: account.accountId,
+    direction: "outbound",
+  });
+  return {
+    messageId: posted.id,
+    to: formatPrReviewTarget({ repo: parsed.repo, number: parsed.number, threadId }),
+  };
+}
@@ -0,0 +1,123 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  clearAllStagedEdits,
+  getStagedHunks,
+  loadStagedEdits,
+  stageEdit,
+} from "../../../src/coderclaw/staged-edits.js";
+import {
+  buildStagedSuggestion,
+  formatSuggestionBlock,
+  resolveSuggestedLines,
+  stagedHunkToDiffHunk,
+} from "./suggestions.js";
+
+// Two lines inserted after line 2, line 10 rewritten, lines 20-21 joined into one.
+const HUNKS = [
+  { oldStart: 2, oldCount: 0, newStart: 3, newCount: 2 },
+  { oldStart: 10, oldCount: 1, newStart: 12, newCount: 1 },
+  { oldStart: 20, oldCount: 2, newStart: 22, newCount: 1 },
+];
+
+const tmpDirs: string[] = [];
+
+afterEach(async () => {
+  clearAllStagedEdits();
+  await Promise.all(tmpDirs.splice(0).map((dir) => fs.rm(dir, { recursive: true, force: true })));
+});
+
+describe("pr-review suggestions", () => {
+  it("converts staged hunks to diff hunks", () => {
+    const lines = Array.from({ length: 25 }, (_, index) => `line ${index + 1}`);
+    const proposed = [...lines];
+    proposed.splice(19, 2, "  ab();");
+    proposed[9] = "  const x = 1;";
+    proposed.splice(2, 0, "import { b } from './b';", "import { c } from './c';");
+    const hunks = getStagedHunks({
+      filePath: "/repo/src/app.ts",
+      originalContent: lines.join("\n"),
+      proposedContent: proposed.join("\n"),
+      isNew: false,
+      toolCallId: "t1",
+      label: "app.ts",
+      stagedAt: "2026-01-01T00:00:00.000Z",
+    });
+    expect(hunks.map(stagedHunkToDiffHunk)).toEqual(HUNKS);
+  });
+
+  it("maps the commented range through earlier hunks into the staged file", () => {
+    const hunks = HUNKS;
+    const newLines = Array.from({ length: 30 }, (_, index) => `line ${index + 1}`);
+    newLines[11] = "  const x = 1;";
+    newLines[21] = "  ab();";
+    expect(resolveSuggestedLines({ hunks, newLines, startLine: 10, endLine: 10 })).toEqual([
+      "  const x = 1;",
+    ]);
+    expect(resolveSuggestedLines({ hunks, newLines, startLine: 19, endLine: 21 })).toEqual([
+      "line 21",
+      "  ab();",
+    ]);
+  });
+
+  it("returns null for untouched ranges and hunks that reach outside the range", () => {
+    const hunks = HUNKS;
+    const newLines = Array.from({ length: 30 }, () => "x");
+    expect(resolveSuggestedLines({ hunks, newLines, startLine: 5, endLine: 8 })).toBeNull();
+    expect(resolveSuggestedLines({ hunks, newLines, startLine: 21, endLine: 21 })).toBeNull();
+  });
+
+  it("formats GitHub and GitLab suggestion blocks", () => {
+    expect(
+      formatSuggestionBlock({ forge: "github", lines: ["a;", "b;"], startLine: 4, endLine: 5 }),
+    ).toBe("```suggestion\na;\nb;\n```");
+    expect(
+      formatSuggestionBlock({ forge: "gitlab", lines: ["a;"], startLine: 4, endLine: 6 }),
+    ).toBe("```suggestion:-2+0\na;\n```");
+    expect(
+      formatSuggestionBlock({ forge: "github", lines: ["```ts"], startLine: 1, endLine: 1 }),
+    ).toBe("````suggestion\n```ts\n````");
+  });
+
+  it("builds a suggestion from the staged edit when HEAD matches the comment commit", async () => {
+    const repoRoot = await fs.mkdtemp(path.join(os.tmpdir(), "coderclaw-pr-review-"));
+    tmpDirs.push(repoRoot);
+    const file = path.join(repoRoot, "src", "a.ts");
+    await fs.mkdir(path.dirname(file));
+    await fs.writeFile(file, "one\ntwo\nlet a = 1\nfour\n");
+    await stageEdit({
+      filePath: file,
+      proposedContent: "one\ntwo\nconst a = 1;\nfour\n",
+      toolCallId: "t1",
+      projectRoot: repoRoot,
+    });
+    // Read back from .coderClaw/staged/, as after a gateway restart.
+    clearAllStagedEdits();
+
+    const runCommand = vi.fn(async (argv: string[]) =>
+      argv.join(" ") === "git rev-parse HEAD"
+        ? { stdout: "abc123\n", code: 0 }
+        : { stdout: "", code: 1 },
+    );
+    const params = {
+      runCommand,
+      stagedEdits: { loadStagedEdits, getStagedHunks },
+      repoRoot,
+      forge: "github" as const,
+      path: "src/a.ts",
+      startLine: 3,
+      endLine: 3,
+    };
+    await expect(buildStagedSuggestion({ ...params, commitId: "abc123" })).resolves.toBe(
+      "```suggestion\nconst a = 1;\n```",
+    );
+    expect(runCommand).toHaveBeenCalledTimes(1);
+    await expect(buildStagedSuggestion({ ...params, commitId: "def456" })).resolves.toBeNull();
+    await expect(
+      buildStagedSuggestion({ ...params, startLine: 1, endLine: 2 }),
+    ).resolves.toBeNull();
+    await expect(buildStagedSuggestion({ ...params, path: "src/b.ts" })).resolves.toBeNull();
+  });
+});
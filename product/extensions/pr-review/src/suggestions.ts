@@ -0,0 +1,151 @@
+import path from "node:path";
+import type { PluginRuntime } from "@seanhogg/coderclaw/plugin-sdk";
+import type { PrReviewForge } from "./types.js";
+
+const GIT_TIMEOUT_MS = 15_000;
+
+/** A changed line range in `git diff -U0` terms. */
+export type DiffHunk = {
+  oldStart: number;
+  oldCount: number;
+  newStart: number;
+  newCount: number;
+};
+
+type RunCommand = (
+  argv: string[],
+  options: { timeoutMs: number; cwd?: string },
+) => Promise<{ stdout: string; code: number | null }>;
+
+type StagedHunk = ReturnType<PluginRuntime["stagedEdits"]["getStagedHunks"]>[number];
+
+/**
+ * A staged hunk as a diff hunk. Staged hunks number a pure insertion by the
+ * line it goes before; a diff hunk by the line it follows.
+ */
+export function stagedHunkToDiffHunk(hunk: StagedHunk): DiffHunk {
+  const oldCount = hunk.originalLines.length;
+  const newCount = hunk.proposedLines.length;
+  return {
+    oldStart: oldCount === 0 ? hunk.originalStart - 1 : hunk.originalStart,
+    oldCount,
+    newStart: newCount === 0 ? hunk.proposedStart - 1 : hunk.proposedStart,
+    newCount,
+  };
+}
+
+/**
+ * Replacement for lines startLine..endLine of the old file, taken from the new
+ * file. Returns null when no hunk touches the range or a hunk reaches outside
+ * it (a suggestion can only rewrite the commented lines). A pure insertion
+ * (oldCount 0) sits after oldStart, so it counts when oldStart is in range.
+ */
+export function resolveSuggestedLines(params: {
+  hunks: DiffHunk[];
+  newLines: string[];
+  startLine: number;
+  endLine: number;
+}): string[] | null {
+  const { hunks, newLines, startLine, endLine } = params;
+  let deltaBefore = 0;
+  let deltaInside = 0;
+  let touched = false;
+  for (const hunk of hunks) {
+    const delta = hunk.newCount - hunk.oldCount;
+    if (hunk.oldCount === 0) {
+      if (hunk.oldStart < startLine) {
+        deltaBefore += delta;
+      } else if (hunk.oldStart <= endLine) {
+        deltaInside += delta;
+        touched = true;
+      }
+      continue;
+    }
+    const oldEnd = hunk.oldStart + hunk.oldCount - 1;
+    if (oldEnd < startLine) {
+      deltaBefore += delta;
+    } else if (hunk.oldStart > endLine) {
+      continue;
+    } else if (hunk.oldStart < startLine || oldEnd > endLine) {
+      return null;
+    } else {
+      deltaInside += delta;
+      touched = true;
+    }
+  }
+  if (!touched) {
+    return null;
+  }
+  const newStart = startLine + deltaBefore;
+  const newEnd = endLine + deltaBefore + deltaInside;
+  return newLines.slice(newStart - 1, newEnd);
+}
+
+/**
+ * Suggested-change block for the commented lines. GitHub replaces the
+ * commented range; GitLab anchors on the last line and counts lines above it.
+ */
+export function formatSuggestionBlock(params: {
+  forge: PrReviewForge;
+  lines: string[];
+  startLine: number;
+  endLine: number;
+}): string {
+  const longestFence = Math.max(
+    0,
+    ...params.lines.map((line) => line.match(/^\s*(`{3,})/)?.[1].length ?? 0),
+  );
+  const fence = "`".repeat(Math.max(3, longestFence + 1));
+  const info =
+    params.forge === "gitlab" ? `suggestion:-${params.endLine - params.startLine}+0` : "suggestion";
+  const body = params.lines.length > 0 ? `${params.lines.join("\n")}\n` : "";
+  return `${fence}${info}\n${body}${fence}`;
+}
+
+/**
+ * Build a suggestion from the edit staged for the file in a local checkout
+ * (the StagedEdit store under `.coderClaw/staged/`). The checkout must be at
+ * the commit the comment was made on (when known), so line numbers match the
+ * pull request head.
+ */
+export async function buildStagedSuggestion(params: {
+  runCommand: RunCommand;
+  stagedEdits: PluginRuntime["stagedEdits"];
+  repoRoot: string;
+  forge: PrReviewForge;
+  path: string;
+  startLine: number;
+  endLine: number;
+  commitId?: string;
+}): Promise<string | null> {
+  if (params.commitId) {
+    const head = await params.runCommand(["git", "rev-parse", "HEAD"], {
+      timeoutMs: GIT_TIMEOUT_MS,
+      cwd: params.repoRoot,
+    });
+    if (head.code !== 0 || head.stdout.trim() !== params.commitId) {
+      return null;
+    }
+  }
+  const filePath = path.resolve(params.repoRoot, params.path);
+  const edits = await params.stagedEdits.loadStagedEdits(params.repoRoot);
+  const edit = edits.find((entry) => entry.filePath === filePath);
+  if (!edit || edit.isNew) {
+    return null;
+  }
+  const lines = resolveSuggestedLines({
+    hunks: params.stagedEdits.getStagedHunks(edit).map(stagedHunkToDiffHunk),
+    newLines: edit.proposedContent.replace(/\r?\n$/, "").split(/\r?\n/),
+    startLine: params.startLine,
+    endLine: params.endLine,
+  });
+  if (!lines) {
+    return null;
+  }
+  return formatSuggestionBlock({
+    forge: params.forge,
+    lines,
+    startLine: params.startLine,
+    endLine: params.endLine,
+  });
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import {
+  mentionsPrReviewBot,
+  resolvePrReviewAllowlistMatch,
+  resolvePrReviewRepoConfig,
+  stripPrReviewBotMention,
+} from "./policy.js";
+import { formatPrReviewTarget, parsePrReviewTarget, prReviewPeerId } from "./targets.js";
+
+describe("pr-review targets", () => {
+  it("parses pull request targets with optional thread", () => {
+    expect(parsePrReviewTarget("acme/api#42")).toEqual({ repo: "acme/api", number: 42 });
+    expect(parsePrReviewTarget("pr-review:group/sub/proj!7:thread:abc123")).toEqual({
+      repo: "group/sub/proj",
+      number: 7,
+      threadId: "abc123",
+    });
+    expect(parsePrReviewTarget("acme#42")).toBeNull();
+    expect(parsePrReviewTarget("acme/api#0")).toBeNull();
+  });
+
+  it("round-trips targets and builds lowercase peer ids", () => {
+    const target = { repo: "Acme/API", number: 42, threadId: "1001" };
+    expect(parsePrReviewTarget(formatPrReviewTarget(target))).toEqual(target);
+    expect(prReviewPeerId(target)).toBe("acme/api#42");
+  });
+});
+
+describe("pr-review policy", () => {
+  it("matches forge usernames case-insensitively", () => {
+    expect(resolvePrReviewAllowlistMatch({ allowFrom: ["@Alice"], author: "alice" })).toEqual({
+      allowed: true,
+      matchKey: "alice",
+      matchSource: "id",
+    });
+    expect(resolvePrReviewAllowlistMatch({ allowFrom: ["*"], author: "bob" }).allowed).toBe(true);
+    expect(resolvePrReviewAllowlistMatch({ allowFrom: ["alice"], author: "bob" }).allowed).toBe(
+      false,
+    );
+  });
+
+  it("resolves repo entries by name, then wildcard", () => {
+    const config = { repos: { "Acme/API": { path: "/src/api" }, "*": { requireMention: true } } };
+    expect(resolvePrReviewRepoConfig(config, "acme/api")).toEqual({ path: "/src/api" });
+    expect(resolvePrReviewRepoConfig(config, "acme/web")).toEqual({ requireMention: true });
+    expect(resolvePrReviewRepoConfig({ repos: {} }, "acme/web")).toBeUndefined();
+  });
+
+  it("detects and strips bot mentions without matching longer handles", () => {
+    expect(mentionsPrReviewBot("@coderclaw fix this nit", "coderclaw")).toBe(true);
+    expect(mentionsPrReviewBot("cc @CoderClaw.", "coderclaw")).toBe(true);
+    expect(mentionsPrReviewBot("@coderclaw-dev please", "coderclaw")).toBe(false);
+    expect(mentionsPrReviewBot("mail me@coderclaw", "coderclaw")).toBe(false);
+    expect(stripPrReviewBotMention("@coderclaw fix this nit", "coderclaw")).toBe("fix this nit");
+  });
+});
@@ -0,0 +1,43 @@
+import type { PrReviewTarget } from "./types.js";
+
+const TARGET_PATTERN = /^([A-Za-z0-9_.-]+(?:\/[A-Za-z0-9_.-]+)+)[#!](\d+)(?::thread:(.+))?$/;
+
+function stripTargetPrefix(raw: string): string {
+  return raw.replace(/^(pr-review|pr|review):/i, "").trim();
+}
+
+/**
+ * Parse "owner/repo#12", "group/sub/project!7" (GitLab MR style) or either
+ * with a ":thread:<id>" suffix. A "pr-review:" prefix is accepted.
+ */
+export function parsePrReviewTarget(raw: string): PrReviewTarget | null {
+  const match = stripTargetPrefix(raw.trim()).match(TARGET_PATTERN);
+  if (!match) {
+    return null;
+  }
+  const number = Number.parseInt(match[2], 10);
+  if (!Number.isSafeInteger(number) || number <= 0) {
+    return null;
+  }
+  const threadId = match[3]?.trim();
+  return { repo: match[1], number, ...(threadId ? { threadId } : {}) };
+}
+
+export function formatPrReviewTarget(target: PrReviewTarget): string {
+  const base = `${target.repo}#${target.number}`;
+  return target.threadId ? `${base}:thread:${target.threadId}` : base;
+}
+
+export function normalizePrReviewMessagingTarget(raw: string): string | undefined {
+  const target = parsePrReviewTarget(raw);
+  return target ? formatPrReviewTarget(target) : undefined;
+}
+
+export function looksLikePrReviewTargetId(raw: string): boolean {
+  return parsePrReviewTarget(raw) !== null;
+}
+
+/** Peer id for routing: one group per pull request. */
+export function prReviewPeerId(target: { repo: string; number: number }): string {
+  return `${target.repo.toLowerCase()}#${target.number}`;
+}
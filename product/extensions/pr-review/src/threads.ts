@@ -0,0 +1,111 @@
+import type { PrReviewComment, PrReviewTarget } from "./types.js";
+
+const MAX_THREADS = 2000;
+const MAX_SEEN_COMMENTS = 5000;
+
+export type PrReviewThreadState = {
+  /** File and line range the thread is anchored to. */
+  path?: string;
+  line?: number;
+  startLine?: number;
+  commitId?: string;
+  /** The bot has replied here, so follow-ups need no mention. */
+  engaged: boolean;
+  /** Last suggestion block posted, to avoid repeating it on every reply. */
+  lastSuggestion?: string;
+};
+
+type AccountState = {
+  threads: Map<string, PrReviewThreadState>;
+  seen: Set<string>;
+};
+
+const accounts = new Map<string, AccountState>();
+
+function stateFor(accountId: string): AccountState {
+  let state = accounts.get(accountId);
+  if (!state) {
+    state = { threads: new Map(), seen: new Set() };
+    accounts.set(accountId, state);
+  }
+  return state;
+}
+
+function threadKey(target: PrReviewTarget & { threadId: string }): string {
+  return `${target.repo.toLowerCase()}#${target.number}:${target.threadId}`;
+}
+
+function trimOldest<T>(entries: Map<string, T> | Set<string>, max: number): void {
+  while (entries.size > max) {
+    const oldest = entries.keys().next().value;
+    if (oldest === undefined) {
+      break;
+    }
+    entries.delete(oldest);
+  }
+}
+
+/**
+ * Record a comment id. Returns false when it was already seen, so webhook
+ * redeliveries and overlapping polls dispatch each comment once.
+ */
+export function markPrReviewCommentSeen(accountId: string, commentId: string): boolean {
+  const { seen } = stateFor(accountId);
+  if (seen.has(commentId)) {
+    return false;
+  }
+  seen.add(commentId);
+  trimOldest(seen, MAX_SEEN_COMMENTS);
+  return true;
+}
+
+export function getPrReviewThread(
+  accountId: string,
+  target: PrReviewTarget & { threadId: string },
+): PrReviewThreadState | undefined {
+  return stateFor(accountId).threads.get(threadKey(target));
+}
+
+function updateThread(
+  accountId: string,
+  target: PrReviewTarget & { threadId: string },
+  patch: Partial<PrReviewThreadState>,
+): void {
+  const { threads } = stateFor(accountId);
+  const key = threadKey(target);
+  const existing = threads.get(key);
+  threads.delete(key);
+  threads.set(key, { engaged: false, ...existing, ...patch });
+  trimOldest(threads, MAX_THREADS);
+}
+
+/** Keep the first known anchor; replies on GitHub repeat it, GitLab replies may omit it. */
+export function rememberPrReviewComment(accountId: string, comment: PrReviewComment): void {
+  const existing = getPrReviewThread(accountId, comment);
+  if (existing?.path || !comment.path) {
+    updateThread(accountId, comment, {});
+    return;
+  }
+  updateThread(accountId, comment, {
+    path: comment.path,
+    line: comment.line,
+    startLine: comment.startLine,
+    commitId: comment.commitId,
+  });
+}
+
+export function markPrReviewThreadReplied(
+  accountId: string,
+  target: PrReviewTarget & { threadId: string },
+  patch: { commentId: string; suggestion?: string },
+): void {
+  markPrReviewCommentSeen(accountId, patch.commentId);
+  updateThread(accountId, target, {
+    engaged: true,
+    ...(patch.suggestion ? { lastSuggestion: patch.suggestion } : {}),
+  });
+}
+
+export function __resetPrReviewThreadsForTest(): void {
+  accounts.clear();
+}
@@ -0,0 +1,119 @@
+import type {
+  BlockStreamingCoalesceConfig,
+  GroupPolicy,
+  MarkdownConfig,
+} from "@seanhogg/coderclaw/plugin-sdk";
+
+export type PrReviewForge = "github" | "gitlab";
+
+export type PrReviewRepoConfig = {
+  /** If false, ignore review comments in this repository. */
+  enabled?: boolean;
+  /** Local checkout whose staged edits become suggested-change blocks. */
+  path?: string;
+  /** Require mentioning the bot to start a thread (default: account requireMention). */
+  requireMention?: boolean;
+  /** Forge usernames allowed in this repository (overrides account allowFrom). */
+  allowFrom?: Array<string | number>;
+};
+
+export type PrReviewAccountConfig = {
+  /** Optional display name for this account (used in CLI/UI lists). */
+  name?: string;
+  /** If false, do not start this account. Default: true. */
+  enabled?: boolean;
+  /** Forge hosting the pull requests. Default: github. */
+  forge?: PrReviewForge;
+  /** REST API base URL (GitHub Enterprise, self-hosted GitLab). */
+  apiBaseUrl?: string;
+  /** API token with read/write access to pull requests. */
+  token?: string;
+  /** Path to a file containing the API token. */
+  tokenFile?: string;
+  /** Username the bot posts as; used for mentions and to skip its own comments. */
+  botUsername?: string;
+  /** Shared secret for webhook signatures (GitHub HMAC, GitLab token). */
+  webhookSecret?: string;
+  /** Webhook path on the gateway HTTP server. Default: /pr-review. */
+  webhookPath?: string;
+  /** Poll interval in seconds. Default: 60 without a webhook secret; 0 disables polling. */
+  pollIntervalSeconds?: number;
+  /** Repositories keyed by "owner/repo" (GitHub) or "group/project" (GitLab); "*" matches any. */
+  repos?: Record<string, PrReviewRepoConfig>;
+  /** Who may talk to the bot: allowlist (default), open, or disabled. */
+  groupPolicy?: GroupPolicy;
+  /** Forge usernames allowed to talk to the bot. */
+  allowFrom?: Array<string | number>;
+  /** Require mentioning the bot to start a thread. Default: true. */
+  requireMention?: boolean;
+  /** Attach suggested-change blocks built from staged edits. Default: true. */
+  suggestions?: boolean;
+  /** Markdown formatting overrides. */
+  markdown?: MarkdownConfig;
+  /** Outbound text chunk size (chars). Default: 60000. */
+  textChunkLimit?: number;
+  /** Chunking mode: "length" (default) splits by size; "newline" splits on every newline. */
+  chunkMode?: "length" | "newline";
+  /** Disable block streaming for this account. */
+  blockStreaming?: boolean;
+  /** Merge streamed block replies before sending. */
+  blockStreamingCoalesce?: BlockStreamingCoalesceConfig;
+  /** Outbound response prefix override for this channel/account. */
+  responsePrefix?: string;
+};
+
+export type PrReviewConfig = {
+  /** Optional per-account configuration (multi-account). */
+  accounts?: Record<string, PrReviewAccountConfig>;
+} & PrReviewAccountConfig;
+
+export type CoreConfig = {
+  channels?: {
+    "pr-review"?: PrReviewConfig;
+    defaults?: { groupPolicy?: GroupPolicy };
+  };
+  session?: {
+    store?: string;
+  };
+  commands?: {
+    useAccessGroups?: boolean;
+  };
+  [key: string]: unknown;
+};
+
+/** A review comment normalized across forges. */
+export type PrReviewComment = {
+  forge: PrReviewForge;
+  /** "owner/repo" or "group/sub/project". */
+  repo: string;
+  /** Pull request number or merge request iid. */
+  number: number;
+  pullTitle?: string;
+  /** Root comment id (GitHub) or discussion id (GitLab). */
+  threadId: string;
+  commentId: string;
+  author: string;
+  authorName?: string;
+  body: string;
+  url?: string;
+  /** File and new-side line range the thread is anchored to. */
+  path?: string;
+  line?: number;
+  startLine?: number;
+  /** Head commit the comment was made against. */
+  commitId?: string;
+  diffHunk?: string;
+  timestamp: number;
+};
+
+/** Where a reply goes: a thread on a pull request, or the pull request itself. */
+export type PrReviewTarget = {
+  repo: string;
+  number: number;
+  threadId?: string;
+};
+
+export type PrReviewSendResult = {
+  messageId: string;
+  to: string;
+};
@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import { parsePrReviewWebhookEvent } from "./webhook.js";
+
+describe("pr-review webhook events", () => {
+  it("maps a GitHub review comment reply to its root thread", () => {
+    const comment = parsePrReviewWebhookEvent({
+      forge: "github",
+      headers: { "x-github-event": "pull_request_review_comment" },
+      payload: {
+        action: "created",
+        repository: { full_name: "acme/api" },
+        pull_request: { number: 42, title: "Add rate limits" },
+        comment: {
+          id: 1002,
+          in_reply_to_id: 1001,
+          body: "@coderclaw fix this nit",
+          user: { login: "alice" },
+          path: "src/limits.ts",
+          line: 18,
+          start_line: 16,
+          commit_id: "abc123",
+          diff_hunk: "@@ -10,6 +10,9 @@",
+          html_url: "https://github.com/acme/api/pull/42#discussion_r1002",
+          created_at: "2026-02-01T12:00:00Z",
+        },
+      },
+    });
+    expect(comment).toEqual({
+      forge: "github",
+      repo: "acme/api",
+      number: 42,
+      pullTitle: "Add rate limits",
+      threadId: "1001",
+      commentId: "1002",
+      author: "alice",
+      body: "@coderclaw fix this nit",
+      url: "https://github.com/acme/api/pull/42#discussion_r1002",
+      path: "src/limits.ts",
+      line: 18,
+      startLine: 16,
+      commitId: "abc123",
+      diffHunk: "@@ -10,6 +10,9 @@",
+      timestamp: Date.parse("2026-02-01T12:00:00Z"),
+    });
+  });
+
+  it("ignores other GitHub events and edits", () => {
+    const payload = {
+      action: "edited",
+      repository: { full_name: "acme/api" },
+      pull_request: { number: 42 },
+      comment: { id: 1, user: { login: "alice" } },
+    };
+    expect(
+      parsePrReviewWebhookEvent({
+        forge: "github",
+        headers: { "x-github-event": "pull_request_review_comment" },
+        payload,
+      }),
+    ).toBeNull();
+    expect(
+      parsePrReviewWebhookEvent({
+        forge: "github",
+        headers: { "x-github-event": "push" },
+        payload: { ...payload, action: "created" },
+      }),
+    ).toBeNull();
+  });
+
+  it("maps a GitLab merge request note to its discussion", () => {
+    const comment = parsePrReviewWebhookEvent({
+      forge: "gitlab",
+      headers: { "x-gitlab-event": "Note Hook" },
+      payload: {
+        object_kind: "note",
+        user: { username: "bob", name: "Bob Builder" },
+        project: { path_with_namespace: "platform/services/api" },
+        merge_request: { iid: 7, title: "Refactor auth" },
+        object_attributes: {
+          id: 501,
+          note: "@coderclaw can you simplify this?",
+          noteable_type: "MergeRequest",
+          discussion_id: "6a9c1750b37d513a43987b574953fceb50b03ce7",
+          created_at: "2026-02-01T12:00:00Z",
+          url: "https://gitlab.com/platform/services/api/-/merge_requests/7#note_501",
+          position: {
+            new_path: "lib/auth.rb",
+            new_line: 30,
+            head_sha: "def456",
+            line_range: { start: { new_line: 28 }, end: { new_line: 30 } },
+          },
+        },
+      },
+    });
+    expect(comment).toMatchObject({
+      forge: "gitlab",
+      repo: "platform/services/api",
+      number: 7,
+      threadId: "6a9c1750b37d513a43987b574953fceb50b03ce7",
+      commentId: "501",
+      author: "bob",
+      authorName: "Bob Builder",
+      body: "@coderclaw can you simplify this?",
+      path: "lib/auth.rb",
+      line: 30,
+      startLine: 28,
+      commitId: "def456",
+    });
+  });
+
+  it("ignores GitLab notes on issues and system notes", () => {
+    const base = {
+      user: { username: "bob" },
+      project: { path_with_namespace: "platform/api" },
+      merge_request: { iid: 7 },
+    };
+    const headers = { "x-gitlab-event": "Note Hook" };
+    expect(
+      parsePrReviewWebhookEvent({
+        forge: "gitlab",
+        headers,
+        payload: {
+          ...base,
+          object_attributes: { id: 1, note: "hi", noteable_type: "Issue", discussion_id: "d1" },
+        },
+      }),
+    ).toBeNull();
+    expect(
+      parsePrReviewWebhookEvent({
+        forge: "gitlab",
+        headers,
+        payload: {
+          ...base,
+          object_attributes: {
+            id: 2,
+            note: "added 1 commit",
+            system: true,
+            noteable_type: "MergeRequest",
+            discussion_id: "d2",
+          },
+        },
+      }),
+    ).toBeNull();
+  });
+});
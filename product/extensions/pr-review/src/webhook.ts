@@ -0,0 +1,81 @@
+import {
+  fromGithubReviewComment,
+  fromGitlabNote,
+  type GithubReviewComment,
+  type GitlabNote,
+} from "./comments.js";
+import type { PrReviewComment, PrReviewForge } from "./types.js";
+
+type GithubReviewCommentEvent = {
+  action?: string;
+  comment?: GithubReviewComment;
+  pull_request?: { number?: number; title?: string };
+  repository?: { full_name?: string };
+};
+
+type GitlabNoteEvent = {
+  object_kind?: string;
+  user?: { username?: string; name?: string };
+  project?: { path_with_namespace?: string };
+  merge_request?: { iid?: number; title?: string };
+  object_attributes?: GitlabNote & {
+    discussion_id?: string;
+    noteable_type?: string;
+    action?: string;
+  };
+};
+
+/**
+ * Extract a new review comment from a forge webhook delivery. Other events
+ * (pushes, edits, issue comments) return null. `headers` must have lower-case
+ * names.
+ */
+export function parsePrReviewWebhookEvent(params: {
+  forge: PrReviewForge;
+  headers: Record<string, string>;
+  payload: unknown;
+}): PrReviewComment | null {
+  if (!params.payload || typeof params.payload !== "object") {
+    return null;
+  }
+  if (params.forge === "github") {
+    if (params.headers["x-github-event"] !== "pull_request_review_comment") {
+      return null;
+    }
+    const event = params.payload as GithubReviewCommentEvent;
+    const repo = event.repository?.full_name;
+    if (event.action !== "created" || !event.comment || !repo) {
+      return null;
+    }
+    return fromGithubReviewComment({
+      comment: event.comment,
+      repo,
+      number: event.pull_request?.number,
+      pullTitle: event.pull_request?.title,
+    });
+  }
+  if (params.headers["x-gitlab-event"] !== "Note Hook") {
+    return null;
+  }
+  const event = params.payload as GitlabNoteEvent;
+  const note = event.object_attributes;
+  const repo = event.project?.path_with_namespace;
+  const number = event.merge_request?.iid;
+  if (
+    !note ||
+    note.noteable_type !== "MergeRequest" ||
+    (note.action && note.action !== "create") ||
+    !note.discussion_id ||
+    !repo ||
+    !number
+  ) {
+    return null;
+  }
+  return fromGitlabNote({
+    note: { ...note, author: note.author ?? event.user },
+    discussionId: note.discussion_id,
+    repo,
+    number,
+    pullTitle: event.merge_request?.title,
+  });
+}
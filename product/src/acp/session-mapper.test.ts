@@ -1,6 +1,6 @@
 import { afterEach, describe, expect, it, vi } from "vitest";
 import type { GatewayClient } from "../gateway/client.js";
-import { parseSessionMeta, resolveSessionKey } from "./session-mapper.js";
+import { attachSessionMcpServers, parseSessionMeta, resolveSessionKey } from "./session-mapper.js";
 import { createInMemorySessionStore } from "./session.js";
 
 function createGateway(resolveLabelKey = "agent:main:label"): {
@@ -54,6 +54,32 @@ describe("acp session mapper", () => {
     expect(key).toBe("agent:main:override");
     expect(request).not.toHaveBeenCalled();
   });
+
+  it("patches editor MCP servers onto the session, skipping SSE", async () => {
+    const { gateway, request } = createGateway();
+    const log = vi.fn();
+
+    await attachSessionMcpServers({
+      servers: [
+        { name: "fs", command: "npx", args: ["server-fs"], env: [{ name: "DEBUG", value: "1" }] },
+        { type: "http", name: "docs", url: "https://mcp.example/mcp", headers: [] },
+        { type: "sse", name: "legacy", url: "https://old.example/sse", headers: [] },
+      ],
+      sessionKey: "agent:main:main",
+      cwd: "/work/repo",
+      gateway,
+      log,
+    });
+
+    expect(request).toHaveBeenCalledWith("sessions.patch", {
+      key: "agent:main:main",
+      mcpServers: [
+        { name: "fs", command: "npx", args: ["server-fs"], env: { DEBUG: "1" }, cwd: "/work/repo" },
+        { name: "docs", url: "https://mcp.example/mcp" },
+      ],
+    });
+    expect(log).toHaveBeenCalledWith(expect.stringContaining("legacy"));
+  });
 });
 
 describe("acp session manager", () => {
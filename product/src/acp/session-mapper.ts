@@ -1,4 +1,6 @@
+import type { McpServer } from "@agentclientprotocol/sdk";
 import type { GatewayClient } from "../gateway/client.js";
+import type { SessionMcpServer } from "../gateway/protocol/index.js";
 import { readBool, readString } from "./meta.js";
 import type { AcpServerOptions } from "./types.js";
 
@@ -96,3 +98,64 @@ export async function resetSessionIfNeeded(params: {
   }
   await params.gateway.request("sessions.reset", { key: params.sessionKey });
 }
+
+function toRecord(entries: Array<{ name: string; value: string }>): Record<string, string> {
+  return Object.fromEntries(entries.map((entry) => [entry.name, entry.value]));
+}
+
+/**
+ * Map editor-supplied ACP MCP servers onto session MCP servers. Legacy SSE
+ * servers are not supported and are returned in `skipped`.
+ */
+export function toSessionMcpServers(servers: McpServer[]): {
+  servers: SessionMcpServer[];
+  skipped: string[];
+} {
+  const mapped: SessionMcpServer[] = [];
+  const skipped: string[] = [];
+  for (const server of servers) {
+    if ("type" in server && server.type === "sse") {
+      skipped.push(server.name);
+    } else if ("type" in server && server.type === "http") {
+      mapped.push({
+        name: server.name,
+        url: server.url,
+        ...(server.headers.length > 0 ? { headers: toRecord(server.headers) } : {}),
+      });
+    } else if ("command" in server) {
+      mapped.push({
+        name: server.name,
+        command: server.command,
+        args: server.args,
+        ...(server.env.length > 0 ? { env: toRecord(server.env) } : {}),
+      });
+    }
+  }
+  return { servers: mapped, skipped };
+}
+
+/** Attach editor-supplied MCP servers to the gateway session (replacing earlier ones). */
+export async function attachSessionMcpServers(params: {
+  servers: McpServer[];
+  sessionKey: string;
+  cwd: string;
+  gateway: GatewayClient;
+  log: (msg: string) => void;
+}): Promise<void> {
+  if (params.servers.length === 0) {
+    return;
+  }
+  const { servers, skipped } = toSessionMcpServers(params.servers);
+  if (skipped.length > 0) {
+    params.log(`ignoring SSE MCP servers (unsupported transport): ${skipped.join(", ")}`);
+  }
+  if (servers.length === 0) {
+    return;
+  }
+  await params.gateway.request("sessions.patch", {
+    key: params.sessionKey,
+    // Stdio servers launch in the editor's working directory.
+    mcpServers: servers.map((server) => (server.command ? { ...server, cwd: params.cwd } : server)),
+  });
+  params.log(`attached ${servers.length} MCP server(s) to ${params.sessionKey}`);
+}
@@ -31,7 +31,12 @@ import {
   inferToolKind,
 } from "./event-mapper.js";
 import { readBool, readNumber, readString } from "./meta.js";
-import { parseSessionMeta, resetSessionIfNeeded, resolveSessionKey } from "./session-mapper.js";
+import {
+  attachSessionMcpServers,
+  parseSessionMeta,
+  resetSessionIfNeeded,
+  resolveSessionKey,
+} from "./session-mapper.js";
 import { defaultAcpSessionStore, type AcpSessionStore } from "./session.js";
 import { ACP_AGENT_INFO, type AcpServerOptions } from "./types.js";
 
@@ -108,7 +113,7 @@ export class AcpGatewayAgent implements Agent {
           embeddedContext: true,
         },
         mcpCapabilities: {
-          http: false,
+          http: true,
           sse: false,
         },
         sessionCapabilities: {
@@ -121,10 +126,6 @@ export class AcpGatewayAgent implements Agent {
   }
 
   async newSession(params: NewSessionRequest): Promise<NewSessionResponse> {
-    if (params.mcpServers.length > 0) {
-      this.log(`ignoring ${params.mcpServers.length} MCP servers`);
-    }
-
     const sessionId = randomUUID();
     const meta = parseSessionMeta(params._meta);
     const sessionKey = await resolveSessionKey({
@@ -145,16 +146,19 @@ export class AcpGatewayAgent implements Agent {
       sessionKey,
       cwd: params.cwd,
     });
+    await attachSessionMcpServers({
+      servers: params.mcpServers,
+      sessionKey,
+      cwd: params.cwd,
+      gateway: this.gateway,
+      log: this.log,
+    });
     this.log(`newSession: ${session.sessionId} -> ${session.sessionKey}`);
     await this.sendAvailableCommands(session.sessionId);
     return { sessionId: session.sessionId };
   }
 
   async loadSession(params: LoadSessionRequest): Promise<LoadSessionResponse> {
-    if (params.mcpServers.length > 0) {
-      this.log(`ignoring ${params.mcpServers.length} MCP servers`);
-    }
-
     const meta = parseSessionMeta(params._meta);
     const sessionKey = await resolveSessionKey({
       meta,
@@ -174,6 +178,13 @@ export class AcpGatewayAgent implements Agent {
       sessionKey,
       cwd: params.cwd,
     });
+    await attachSessionMcpServers({
+      servers: params.mcpServers,
+      sessionKey,
+      cwd: params.cwd,
+      gateway: this.gateway,
+      log: this.log,
+    });
     this.log(`loadSession: ${session.sessionId} -> ${session.sessionKey}`);
     await this.sendAvailableCommands(session.sessionId);
     return {};
@@ -8,7 +8,7 @@ import {
 import "./test-helpers/fast-core-tools.js";
 import { DEFAULT_MODEL, DEFAULT_PROVIDER } from "./defaults.js";
 import { resetSubagentRegistryForTests } from "./subagent-registry.js";
-import { SUBAGENT_SPAWN_ACCEPTED_NOTE } from "./subagent-spawn.js";
+import { SUBAGENT_SPAWN_ACCEPTED_NOTE, spawnSubagentDirect } from "./subagent-spawn.js";
 
 const callGatewayMock = getCallGatewayMock();
 type GatewayCall = { method?: string; params?: unknown };
@@ -136,6 +136,22 @@ describe("coderclaw-tools: subagents (sessions_spawn model + thinking)", () => {
     });
   });
 
+  it("fails a spawn routed to a provider without a configured model", async () => {
+    resetSubagentRegistryForTests();
+    callGatewayMock.mockReset();
+
+    const result = await spawnSubagentDirect(
+      { task: "do thing", provider: "ollama" },
+      { agentSessionKey: "agent:main:main" },
+    );
+
+    expect(result).toMatchObject({
+      status: "error",
+      error: expect.stringContaining('provider "ollama" has no configured model'),
+    });
+    expect(callGatewayMock).not.toHaveBeenCalled();
+  });
+
   it("sessions_spawn forwards thinking overrides to the agent run", async () => {
     resetSubagentRegistryForTests();
     callGatewayMock.mockReset();
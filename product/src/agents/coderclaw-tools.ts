@@ -1,16 +1,18 @@
 import {
   codeAnalysisTool,
+  impactAnalysisTool,
   codebaseSearchTool,
-  semanticSearchTool,
+  createSemanticSearchTool,
   clawFleetTool,
   projectKnowledgeTool,
   saveSessionHandoffTool,
   createOrchestrateTool,
-  createGithubIssueWorkflowTool,
+  createIssueWorkflowTool,
   workflowStatusTool,
   gitHistoryTool,
 } from "../coderclaw/tools/index.js";
 import type { CoderClawConfig } from "../config/config.js";
+import type { ExecAsk, ExecSecurity } from "../infra/exec-approvals.js";
 import { resolvePluginTools } from "../plugins/tools.js";
 import type { GatewayMessageChannel } from "../utils/message-channel.js";
 import { resolveSessionAgentId } from "./agent-scope.js";
@@ -22,8 +24,10 @@ import type { AnyAgentTool } from "./tools/common.js";
 import { createCronTool } from "./tools/cron-tool.js";
 import { createGatewayTool } from "./tools/gateway-tool.js";
 import { createImageTool } from "./tools/image-tool.js";
+import { createLspTools } from "./tools/lsp-tools.js";
 import { createMessageTool } from "./tools/message-tool.js";
 import { createNodesTool } from "./tools/nodes-tool.js";
+import { createRunTestsTool, isRunTestsAllowed } from "./tools/run-tests-tool.js";
 import { createSessionStatusTool } from "./tools/session-status-tool.js";
 import { createSessionsHistoryTool } from "./tools/sessions-history-tool.js";
 import { createSessionsListTool } from "./tools/sessions-list-tool.js";
@@ -41,6 +45,8 @@ export type CoderClawToolsSandboxOptions = {
   sandboxRoot?: string;
   sandboxFsBridge?: SandboxFsBridge;
   sandboxed?: boolean;
+  /** Effective `tools.exec` policy; `run_tests` is only offered when it is unrestricted. */
+  hostExec?: { security?: ExecSecurity; ask?: ExecAsk };
 };
 
 /** Agent identity and channel routing. */
@@ -193,8 +199,18 @@ export function createCoderClawTools(options?: CoderClawToolsOptions): AnyAgentT
     ...(webFetchTool ? [webFetchTool] : []),
     ...(imageTool ? [imageTool] : []),
     codeAnalysisTool,
-    semanticSearchTool,
+    impactAnalysisTool,
+    createSemanticSearchTool({
+      config: options?.config,
+      agentSessionKey: options?.agentSessionKey,
+    }),
     codebaseSearchTool,
+    // Language servers and test runs execute on the host, so sandboxed sessions
+    // use exec inside the sandbox instead.
+    ...(options?.sandboxed ? [] : createLspTools({ config: options?.config, workspaceDir })),
+    ...(options?.sandboxed || !isRunTestsAllowed(options?.hostExec)
+      ? []
+      : [createRunTestsTool({ workspaceDir })]),
     clawFleetTool,
     projectKnowledgeTool,
     saveSessionHandoffTool,
@@ -209,7 +225,7 @@ export function createCoderClawTools(options?: CoderClawToolsOptions): AnyAgentT
       agentGroupSpace: options?.agentGroupSpace,
       requesterAgentIdOverride: options?.requesterAgentIdOverride,
     }),
-    createGithubIssueWorkflowTool({
+    createIssueWorkflowTool({
       agentSessionKey: options?.agentSessionKey,
       agentChannel: options?.agentChannel,
       agentAccountId: options?.agentAccountId,
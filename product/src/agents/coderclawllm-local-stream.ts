@@ -800,7 +800,11 @@ async function loadRoutingContext(request: CoderClawLlmLocalRunRequest): Promise
 
   const ragContext =
     request.workspaceDir && queryText
-      ? await retrieveRelevantContext({ query: queryText, workspaceDir: request.workspaceDir })
+      ? await retrieveRelevantContext({
+          query: queryText,
+          workspaceDir: request.workspaceDir,
+          config: request.config,
+        })
       : "";
   if (ragContext) {
     log.info(`RAG context retrieved (${ragContext.length} chars)`);
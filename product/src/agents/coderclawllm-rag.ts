@@ -1,25 +1,27 @@
 /**
  * CoderClawLLM in-memory RAG.
  *
- * Walks the workspace directory, scores source files by keyword overlap
- * with the user query, and returns the top-N most relevant excerpts.
- * No external dependencies — pure Node.js fs + simple TF-IDF-style scoring.
+ * When the agent's memory search indexes the workspace as the "code" source,
+ * excerpts come from that embedded, symbol-chunked index (see
+ * `memory/code-search.ts`). Otherwise this walks the workspace directory,
+ * scores source files by keyword overlap with the user query, and returns the
+ * top-N most relevant excerpts.
  *
- * ## v1 Implementation Note (keyword overlap only)
+ * ## Keyword fallback
  *
- * The current scorer uses **term frequency without IDF** — it counts how many
+ * The fallback scorer uses **term frequency without IDF** — it counts how many
  * query tokens appear anywhere in a file.  This is essentially a weighted
  * keyword grep, not full semantic retrieval.  It works well for exact symbol
  * lookups (function names, type names) but produces poor results for semantic
- * or conceptual queries (e.g. "how does authentication work").
- *
- * @todo Replace the tokenise/score pair with a proper TF-IDF implementation,
- *       or embed a lightweight sentence-transformer for semantic similarity, once
- *       the retrieval quality becomes a measurable bottleneck.
+ * or conceptual queries (e.g. "how does authentication work"); enable
+ * `memorySearch.sources: ["memory", "code"]` for those.
  */
 
 import fs from "node:fs/promises";
 import path from "node:path";
+import type { CoderClawConfig } from "../config/config.js";
+import { searchCodeIndex } from "../memory/index.js";
+import { resolveDefaultAgentId } from "./agent-scope.js";
 
 const SOURCE_EXTENSIONS = new Set([".ts", ".tsx", ".js", ".jsx", ".mjs", ".md", ".json"]);
 const SKIP_DIRS = new Set(["node_modules", ".git", "dist", "build", ".cache", "coverage"]);
@@ -91,9 +93,28 @@ export async function retrieveRelevantContext(opts: {
   workspaceDir: string;
   topK?: number;
   maxExcerptChars?: number;
+  /** Enables the embedded code index when it covers `workspaceDir`. */
+  config?: CoderClawConfig;
+  agentId?: string;
 }): Promise<string> {
   const topK = opts.topK ?? DEFAULT_TOP_K;
   const maxChars = opts.maxExcerptChars ?? MAX_EXCERPT_CHARS;
+  if (opts.config && opts.query.trim()) {
+    const hits = await searchCodeIndex({
+      cfg: opts.config,
+      agentId: opts.agentId ?? resolveDefaultAgentId(opts.config),
+      workspaceDir: opts.workspaceDir,
+      query: opts.query,
+      maxResults: topK,
+    });
+    if (hits && hits.length > 0) {
+      const sections = hits.map(
+        (hit) =>
+          `### ${hit.path}:${hit.startLine}-${hit.endLine}\n${hit.snippet.slice(0, maxChars)}${hit.snippet.length > maxChars ? "\n…" : ""}`,
+      );
+      return `## Relevant codebase context\n\n${sections.join("\n\n")}`;
+    }
+  }
   const queryTokens = tokenise(opts.query);
   if (queryTokens.size === 0) {
     return "";
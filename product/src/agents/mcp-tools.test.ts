@@ -0,0 +1,172 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { resolveCoderClawDir } from "../coderclaw/project-dir.js";
+import type { CoderClawConfig } from "../config/config.js";
+import {
+  closeMcpClients,
+  createMcpAgentTools,
+  getMcpToolMeta,
+  mcpAgentToolName,
+  resolveMcpServers,
+} from "./mcp-tools.js";
+import { applyToolPolicyPipeline } from "./tool-policy-pipeline.js";
+
+// Minimal stdio MCP server: one `shout` tool, and `fail` which reports isError.
+const SERVER_SCRIPT = `
+const readline = require("node:readline");
+const rl = readline.createInterface({ input: process.stdin });
+const send = (msg) => process.stdout.write(JSON.stringify({ jsonrpc: "2.0", ...msg }) + "\\n");
+rl.on("line", (line) => {
+  const msg = JSON.parse(line);
+  if (msg.id === undefined) return;
+  if (msg.method === "initialize") {
+    send({ id: msg.id, result: { protocolVersion: "2025-06-18", capabilities: { tools: {} }, serverInfo: { name: "fake" } } });
+  } else if (msg.method === "tools/list") {
+    send({ id: msg.id, result: { tools: [
+      { name: "shout", description: "Uppercase text", inputSchema: { type: "object", properties: { text: { type: "string" } } } },
+      { name: "fail", inputSchema: { type: "object", properties: {} } },
+    ] } });
+  } else if (msg.params.name === "shout") {
+    send({ id: msg.id, result: { content: [{ type: "text", text: String(msg.params.arguments.text).toUpperCase() }] } });
+  } else {
+    send({ id: msg.id, result: { isError: true, content: [{ type: "text", text: "boom" }] } });
+  }
+});
+`;
+
+const tmpDirs: string[] = [];
+
+async function makeWorkspace(mcpYaml?: string): Promise<string> {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), "coderclaw-mcp-tools-"));
+  tmpDirs.push(root);
+  await fs.writeFile(path.join(root, "server.cjs"), SERVER_SCRIPT);
+  if (mcpYaml) {
+    const dir = resolveCoderClawDir(root);
+    await fs.mkdir(dir.root, { recursive: true });
+    await fs.writeFile(dir.mcpPath, mcpYaml);
+  }
+  return root;
+}
+
+afterEach(async () => {
+  await closeMcpClients();
+  await Promise.all(tmpDirs.splice(0).map((dir) => fs.rm(dir, { recursive: true, force: true })));
+});
+
+describe("resolveMcpServers", () => {
+  it("layers global, project, agent and session servers", async () => {
+    const workspaceDir = await makeWorkspace(
+      [
+        "servers:",
+        "  shared:",
+        "    url: https://project.example/mcp",
+        "  project-only:",
+        "    command: project-server",
+        "  broken:",
+        "    command: a",
+        "    url: b",
+      ].join("\n"),
+    );
+    const config = {
+      tools: {
+        mcp: {
+          servers: {
+            shared: { url: "https://global.example/mcp" },
+            disabled: { command: "off", enabled: false },
+          },
+          trustedProjects: [workspaceDir],
+        },
+      },
+      agents: {
+        list: [{ id: "main", tools: { mcp: { servers: { agent: { command: "agent-server" } } } } }],
+      },
+    } as CoderClawConfig;
+
+    const servers = await resolveMcpServers({
+      config,
+      agentId: "main",
+      workspaceDir,
+      sessionServers: [{ name: "agent", url: "http://localhost:9000/mcp" }],
+    });
+    expect(servers).toEqual({
+      shared: expect.objectContaining({ url: "https://project.example/mcp" }),
+      "project-only": expect.objectContaining({ command: "project-server" }),
+      agent: { url: "http://localhost:9000/mcp" },
+    });
+  });
+
+  it("ignores project servers unless the project is trusted and the session is not sandboxed", async () => {
+    const workspaceDir = await makeWorkspace(
+      ["servers:", "  project-only:", "    command: project-server"].join("\n"),
+    );
+    const global = { url: "https://global.example/mcp" };
+    const untrusted = await resolveMcpServers({
+      config: { tools: { mcp: { servers: { global } } } } as CoderClawConfig,
+      workspaceDir,
+    });
+    expect(untrusted).toEqual({ global });
+
+    const trusted = { tools: { mcp: { servers: { global }, trustedProjects: ["*"] } } };
+    expect(
+      Object.keys(await resolveMcpServers({ config: trusted as CoderClawConfig, workspaceDir })),
+    ).toEqual(["global", "project-only"]);
+    expect(
+      await resolveMcpServers({
+        config: trusted as CoderClawConfig,
+        workspaceDir,
+        sandboxed: true,
+      }),
+    ).toEqual({ global });
+  });
+
+  it("keeps only remote session servers in sandboxed sessions", async () => {
+    const sessionServers = [
+      { name: "local", command: "local-server" },
+      { name: "remote", url: "http://localhost:9000/mcp" },
+    ];
+    expect(Object.keys(await resolveMcpServers({ sessionServers }))).toEqual(["local", "remote"]);
+    expect(await resolveMcpServers({ sessionServers, sandboxed: true })).toEqual({
+      remote: { url: "http://localhost:9000/mcp" },
+    });
+  });
+});
+
+describe("createMcpAgentTools", () => {
+  it("wraps stdio server tools and tags them for tool policy", async () => {
+    const workspaceDir = await makeWorkspace();
+    const config = {
+      tools: {
+        mcp: {
+          servers: {
+            fake: { command: process.execPath, args: ["server.cjs"] },
+            missing: { command: path.join(workspaceDir, "does-not-exist") },
+          },
+        },
+      },
+    } as CoderClawConfig;
+
+    const tools = await createMcpAgentTools({ config, workspaceDir });
+    expect(tools.map((tool) => tool.name)).toEqual(["mcp__fake__shout", "mcp__fake__fail"]);
+    const [shout, fail] = tools;
+    expect(getMcpToolMeta(shout)).toEqual({ pluginId: "mcp:fake", server: "fake", tool: "shout" });
+
+    const result = await shout.execute("call-1", { text: "hi" });
+    expect(result.content).toEqual([{ type: "text", text: "HI" }]);
+    await expect(fail.execute("call-2", {})).rejects.toThrow("boom");
+
+    const denied = applyToolPolicyPipeline({
+      tools,
+      toolMeta: getMcpToolMeta,
+      warn: () => {},
+      steps: [{ policy: { deny: ["mcp:fake"] }, label: "tools.deny" }],
+    });
+    expect(denied).toEqual([]);
+  });
+
+  it("sanitizes and caps tool names", () => {
+    expect(mcpAgentToolName("my server", "read.file")).toBe("mcp__my_server__read_file");
+    expect(mcpAgentToolName("s", "x".repeat(100))).toHaveLength(64);
+  });
+});
@@ -0,0 +1,253 @@
+/**
+ * External MCP server tools exposed to agents.
+ *
+ * Servers come from (later wins by name): `tools.mcp.servers`, the project's
+ * `.coderClaw/mcp.yaml` (only for `tools.mcp.trustedProjects` and never in
+ * sandboxed sessions), `agents.list[].tools.mcp.servers`, and servers
+ * attached to the session (e.g. by an ACP editor). Each remote tool becomes an
+ * AnyAgentTool named `mcp__<server>__<tool>` and is tagged with
+ * `mcp:<server>` so tool policies can allow/deny a whole server.
+ *
+ * Connections are pooled per server definition and reused across runs.
+ */
+
+import path from "node:path";
+import { loadProjectMcpServers } from "../coderclaw/project-mcp.js";
+import type { CoderClawConfig } from "../config/config.js";
+import { loadSessionStore, resolveStorePath } from "../config/sessions.js";
+import type { SessionMcpServer } from "../config/sessions/types.js";
+import type { McpServerConfig } from "../config/types.tools.js";
+import { logWarn } from "../logger.js";
+import { createTransportForServer, McpClient, type McpToolCallResult } from "../mcp/client.js";
+import { resolveUserPath } from "../utils.js";
+import { resolveAgentConfig } from "./agent-scope.js";
+import type { AnyAgentTool } from "./tools/common.js";
+
+export const MCP_TOOL_PREFIX = "mcp__";
+const MAX_TOOL_NAME_LENGTH = 64;
+
+type McpToolMeta = {
+  /** Policy group id, `mcp:<server>`; treated like a plugin id by the tool policy pipeline. */
+  pluginId: string;
+  server: string;
+  tool: string;
+};
+
+const mcpToolMeta = new WeakMap<AnyAgentTool, McpToolMeta>();
+const clients = new Map<string, Promise<McpClient>>();
+
+export function getMcpToolMeta(tool: AnyAgentTool): McpToolMeta | undefined {
+  return mcpToolMeta.get(tool);
+}
+
+function sanitizeNamePart(value: string): string {
+  return value.replace(/[^A-Za-z0-9_-]/g, "_");
+}
+
+export function mcpAgentToolName(server: string, tool: string): string {
+  return `${MCP_TOOL_PREFIX}${sanitizeNamePart(server)}__${sanitizeNamePart(tool)}`.slice(
+    0,
+    MAX_TOOL_NAME_LENGTH,
+  );
+}
+
+const untrustedProjectsWarned = new Set<string>();
+
+function isTrustedMcpProject(trusted: string[], workspaceDir: string): boolean {
+  const root = path.resolve(workspaceDir);
+  return trusted.some((entry) => entry.trim() === "*" || resolveUserPath(entry) === root);
+}
+
+/** `.coderClaw/mcp.yaml` servers, when the project is trusted to start them. */
+async function loadTrustedProjectMcpServers(params: {
+  trusted: string[];
+  workspaceDir?: string;
+  sandboxed?: boolean;
+}): Promise<Record<string, McpServerConfig>> {
+  if (!params.workspaceDir || params.sandboxed) {
+    return {};
+  }
+  const servers = await loadProjectMcpServers(params.workspaceDir);
+  if (
+    Object.keys(servers).length === 0 ||
+    isTrustedMcpProject(params.trusted, params.workspaceDir)
+  ) {
+    return servers;
+  }
+  const root = path.resolve(params.workspaceDir);
+  if (!untrustedProjectsWarned.has(root)) {
+    untrustedProjectsWarned.add(root);
+    logWarn(
+      `[mcp] ignoring .coderClaw/mcp.yaml servers in ${root}; add the project to tools.mcp.trustedProjects to start them`,
+    );
+  }
+  return {};
+}
+
+export async function resolveMcpServers(params: {
+  config?: CoderClawConfig;
+  agentId?: string;
+  workspaceDir?: string;
+  sessionServers?: SessionMcpServer[];
+  sandboxed?: boolean;
+}): Promise<Record<string, McpServerConfig>> {
+  const agentMcp =
+    params.config && params.agentId
+      ? resolveAgentConfig(params.config, params.agentId)?.tools?.mcp
+      : undefined;
+  const projectServers = await loadTrustedProjectMcpServers({
+    trusted: [
+      ...(params.config?.tools?.mcp?.trustedProjects ?? []),
+      ...(agentMcp?.trustedProjects ?? []),
+    ],
+    workspaceDir: params.workspaceDir,
+    sandboxed: params.sandboxed,
+  });
+  const merged: Record<string, McpServerConfig> = {
+    ...params.config?.tools?.mcp?.servers,
+    ...projectServers,
+    ...agentMcp?.servers,
+  };
+  for (const { name, ...server } of params.sessionServers ?? []) {
+    // A stdio server would start on the host, outside the session's sandbox.
+    if (params.sandboxed && server.command) {
+      continue;
+    }
+    merged[name] = server;
+  }
+  return Object.fromEntries(
+    Object.entries(merged).filter(([, server]) => server.enabled !== false),
+  );
+}
+
+/** Servers attached to a session via `sessions.patch` (ACP `newSession` mcpServers). */
+export function loadSessionMcpServers(params: {
+  config?: CoderClawConfig;
+  agentId: string;
+  sessionKey?: string;
+}): SessionMcpServer[] {
+  if (!params.sessionKey) {
+    return [];
+  }
+  try {
+    const storePath = resolveStorePath(params.config?.session?.store, { agentId: params.agentId });
+    return loadSessionStore(storePath)[params.sessionKey]?.mcpServers ?? [];
+  } catch {
+    return [];
+  }
+}
+
+function getClient(name: string, server: McpServerConfig, cwd?: string): Promise<McpClient> {
+  const key = JSON.stringify([name, server, cwd ?? null]);
+  const existing = clients.get(key);
+  if (existing) {
+    return existing.then((client) => {
+      if (!client.isClosed) {
+        return client;
+      }
+      clients.delete(key);
+      return getClient(name, server, cwd);
+    });
+  }
+  const connecting = (async () => {
+    const client = new McpClient(name, createTransportForServer(name, server, { cwd }), {
+      timeoutMs: server.timeoutMs,
+    });
+    try {
+      await client.connect();
+    } catch (err) {
+      await client.close().catch(() => undefined);
+      throw err;
+    }
+    return client;
+  })();
+  clients.set(key, connecting);
+  // Forget failed connections so the next run retries.
+  connecting.catch(() => clients.delete(key));
+  return connecting;
+}
+
+function formatMcpToolResult(result: McpToolCallResult) {
+  const content = (result.content ?? []).map((block) => {
+    if (block.type === "text" && typeof block.text === "string") {
+      return { type: "text" as const, text: block.text };
+    }
+    if (
+      block.type === "image" &&
+      typeof block.data === "string" &&
+      typeof block.mimeType === "string"
+    ) {
+      return { type: "image" as const, data: block.data, mimeType: block.mimeType };
+    }
+    return { type: "text" as const, text: JSON.stringify(block) };
+  });
+  return content.length > 0 ? content : [{ type: "text" as const, text: "(no output)" }];
+}
+
+/**
+ * Connect to the configured MCP servers and wrap their tools. Servers that
+ * fail to connect are skipped with a warning so one broken server never
+ * blocks a run.
+ */
+export async function createMcpAgentTools(params: {
+  config?: CoderClawConfig;
+  agentId?: string;
+  workspaceDir?: string;
+  sessionServers?: SessionMcpServer[];
+  sandboxed?: boolean;
+}): Promise<AnyAgentTool[]> {
+  const servers = await resolveMcpServers(params);
+  const entries = Object.entries(servers);
+  if (entries.length === 0) {
+    return [];
+  }
+  const perServer = await Promise.all(
+    entries.map(async ([name, server]) => {
+      try {
+        const client = await getClient(name, server, params.workspaceDir);
+        const remoteTools = await client.listTools();
+        return remoteTools.map((remote) => {
+          const tool: AnyAgentTool = {
+            name: mcpAgentToolName(name, remote.name),
+            label: `${name}: ${remote.name}`,
+            description: `[MCP ${name}] ${remote.description ?? remote.name}`,
+            parameters: remote.inputSchema ?? { type: "object", properties: {} },
+            execute: async (_toolCallId, args, signal) => {
+              const live = await getClient(name, server, params.workspaceDir);
+              const result = await live.callTool(
+                remote.name,
+                (args ?? {}) as Record<string, unknown>,
+                signal,
+              );
+              const content = formatMcpToolResult(result);
+              if (result.isError) {
+                throw new Error(
+                  content.map((block) => ("text" in block ? block.text : "")).join("\n"),
+                );
+              }
+              return {
+                content,
+                details: { server: name, tool: remote.name, structured: result.structuredContent },
+              };
+            },
+          };
+          mcpToolMeta.set(tool, { pluginId: `mcp:${name}`, server: name, tool: remote.name });
+          return tool;
+        });
+      } catch (err) {
+        logWarn(`[mcp] server "${name}" unavailable: ${String(err)}`);
+        return [];
+      }
+    }),
+  );
+  return perServer.flat();
+}
+
+/** Disconnect every pooled MCP client (shutdown and tests). */
+export async function closeMcpClients(): Promise<void> {
+  const pending = [...clients.values()];
+  clients.clear();
+  await Promise.all(
+    pending.map((connecting) => connecting.then((client) => client.close()).catch(() => undefined)),
+  );
+}
@@ -2,12 +2,13 @@ import os from "node:os";
 import path from "node:path";
 import type { CoderClawConfig, MemorySearchConfig } from "../config/config.js";
 import { resolveStateDir } from "../config/paths.js";
+import type { MemorySource } from "../memory/types.js";
 import { clampInt, clampNumber, resolveUserPath } from "../utils.js";
 import { resolveAgentConfig } from "./agent-scope.js";
 
 export type ResolvedMemorySearchConfig = {
   enabled: boolean;
-  sources: Array<"memory" | "sessions">;
+  sources: MemorySource[];
   extraPaths: string[];
   provider: "openai" | "local" | "gemini" | "voyage" | "auto";
   remote?: {
@@ -97,13 +98,13 @@ const DEFAULT_MMR_LAMBDA = 0.7;
 const DEFAULT_TEMPORAL_DECAY_ENABLED = false;
 const DEFAULT_TEMPORAL_DECAY_HALF_LIFE_DAYS = 30;
 const DEFAULT_CACHE_ENABLED = true;
-const DEFAULT_SOURCES: Array<"memory" | "sessions"> = ["memory"];
+const DEFAULT_SOURCES: MemorySource[] = ["memory"];
 
 function normalizeSources(
-  sources: Array<"memory" | "sessions"> | undefined,
+  sources: MemorySource[] | undefined,
   sessionMemoryEnabled: boolean,
-): Array<"memory" | "sessions"> {
-  const normalized = new Set<"memory" | "sessions">();
+): MemorySource[] {
+  const normalized = new Set<MemorySource>();
   const input = sources?.length ? sources : DEFAULT_SOURCES;
   for (const source of input) {
     if (source === "memory") {
@@ -112,6 +113,9 @@ function normalizeSources(
     if (source === "sessions" && sessionMemoryEnabled) {
       normalized.add("sessions");
     }
+    if (source === "code") {
+      normalized.add("code");
+    }
   }
   if (normalized.size === 0) {
     normalized.add("memory");
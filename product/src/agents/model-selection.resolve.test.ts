@@ -1,6 +1,6 @@
 import { describe, expect, it } from "vitest";
 import type { CoderClawConfig } from "../config/config.js";
-import { resolveAllowedModelRef } from "./model-selection.js";
+import { resolveAllowedModelRef, resolveProviderModelSelection } from "./model-selection.js";
 
 describe("resolveAllowedModelRef", () => {
   it("accepts explicitly allowlisted free-tier models", () => {
@@ -174,3 +174,37 @@ describe("resolveAllowedModelRef", () => {
     expect(result.ref.model).toBe("opencode/glm-5-free");
   });
 });
+
+describe("resolveProviderModelSelection", () => {
+  const cfg = {
+    agents: { defaults: { models: { "anthropic/claude-sonnet-4-5": {}, "ollama/llama3.3": {} } } },
+    models: {
+      providers: {
+        lmstudio: {
+          baseUrl: "http://127.0.0.1:1234/v1",
+          models: [{ id: "qwen2.5-coder" }],
+        },
+      },
+    },
+  } as unknown as CoderClawConfig;
+
+  it("keeps the current model when it already uses the provider", () => {
+    expect(
+      resolveProviderModelSelection({ cfg, provider: "ollama", current: "ollama/qwen3" }),
+    ).toBe("ollama/qwen3");
+  });
+
+  it("prefers the allowlist, then configured provider models", () => {
+    expect(
+      resolveProviderModelSelection({
+        cfg,
+        provider: "ollama",
+        current: "anthropic/claude-sonnet-4-5",
+      }),
+    ).toBe("ollama/llama3.3");
+    expect(resolveProviderModelSelection({ cfg, provider: "lmstudio" })).toBe(
+      "lmstudio/qwen2.5-coder",
+    );
+    expect(resolveProviderModelSelection({ cfg, provider: "openai" })).toBeUndefined();
+  });
+});
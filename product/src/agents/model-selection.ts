@@ -349,6 +349,34 @@ export function resolveSubagentSpawnModelSelection(params: {
   );
 }
 
+/**
+ * Pick a model for `provider` when a caller (e.g. orchestrator routing rules)
+ * asks for a provider without naming a model. Keeps `current` when it already
+ * belongs to that provider; otherwise prefers the allowlist
+ * (`agents.defaults.models`) and then the provider's configured models.
+ * Returns undefined when nothing is configured for the provider.
+ */
+export function resolveProviderModelSelection(params: {
+  cfg: CoderClawConfig;
+  provider: string;
+  current?: string;
+}): string | undefined {
+  const providerKey = normalizeProviderId(params.provider);
+  const current = params.current ? parseModelRef(params.current, DEFAULT_PROVIDER) : null;
+  if (current && current.provider === providerKey) {
+    return modelKey(current.provider, current.model);
+  }
+  for (const raw of Object.keys(params.cfg.agents?.defaults?.models ?? {})) {
+    const ref = parseModelRef(raw, DEFAULT_PROVIDER);
+    if (ref && ref.provider === providerKey) {
+      return modelKey(ref.provider, ref.model);
+    }
+  }
+  const configured = findNormalizedProviderValue(params.cfg.models?.providers, providerKey);
+  const first = configured?.models?.[0]?.id?.trim();
+  return first ? modelKey(providerKey, first) : undefined;
+}
+
 export function buildAllowedModelSet(params: {
   cfg: CoderClawConfig;
   catalog: ModelCatalogEntry[];
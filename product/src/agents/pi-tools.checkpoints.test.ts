@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from "vitest";
+import type { ToolCheckpointStore } from "../infra/tool-checkpoints.js";
+import {
+  describeCheckpointedCall,
+  isReadOnlyCommand,
+  wrapToolWithCheckpoints,
+} from "./pi-tools.checkpoints.js";
+import type { AnyAgentTool } from "./pi-tools.types.js";
+
+describe("describeCheckpointedCall", () => {
+  it("labels file-changing calls and skips read-only commands", () => {
+    expect(describeCheckpointedCall("edit", { file_path: "src/a.ts" })).toBe("edit src/a.ts");
+    expect(
+      describeCheckpointedCall("apply_patch", {
+        input: "*** Begin Patch\n*** Update File: a.ts\n*** Add File: b.ts\n*** End Patch",
+      }),
+    ).toBe("apply_patch a.ts, b.ts");
+    expect(describeCheckpointedCall("exec", { command: "npm run lint -- --fix" })).toBe(
+      "exec npm run lint -- --fix",
+    );
+    expect(describeCheckpointedCall("exec", { command: "git status && rg TODO src" })).toBeNull();
+    expect(describeCheckpointedCall("read", { path: "a.ts" })).toBeNull();
+  });
+
+  it("treats redirects and unknown commands as mutating", () => {
+    expect(isReadOnlyCommand("git diff --stat")).toBe(true);
+    expect(isReadOnlyCommand("ls -la | wc -l")).toBe(true);
+    expect(isReadOnlyCommand("echo hi > notes.txt")).toBe(false);
+    expect(isReadOnlyCommand("git checkout -- src")).toBe(false);
+    expect(isReadOnlyCommand("sed -i s/a/b/ file")).toBe(false);
+  });
+});
+
+describe("wrapToolWithCheckpoints", () => {
+  it("records around the call and still runs it when the snapshot fails", async () => {
+    const order: string[] = [];
+    const record = vi
+      .fn()
+      .mockImplementationOnce(async () => {
+        order.push("record");
+        return { commit: "c1" };
+      })
+      .mockRejectedValueOnce(new Error("git missing"));
+    const complete = vi.fn(async () => {
+      order.push("complete");
+    });
+    const store = { record, complete } as unknown as ToolCheckpointStore;
+    const execute = vi.fn(async () => {
+      order.push("execute");
+      return { content: [], details: {} };
+    });
+    const tool = { name: "write", execute } as unknown as AnyAgentTool;
+    const wrapped = wrapToolWithCheckpoints(tool, { store, sessionKey: "agent:main:main" });
+
+    await wrapped.execute("call-1", { path: "a.txt", content: "x" });
+    await wrapped.execute("call-2", { path: "a.txt", content: "y" });
+    expect(order).toEqual(["record", "execute", "complete", "execute"]);
+    expect(complete).toHaveBeenCalledWith("agent:main:main", "c1");
+    expect(record).toHaveBeenCalledWith("agent:main:main", {
+      toolName: "write",
+      toolCallId: "call-1",
+      summary: "write a.txt",
+    });
+    expect(
+      wrapToolWithCheckpoints({ name: "read" } as AnyAgentTool, { store, sessionKey: "s" }),
+    ).toEqual({ name: "read" });
+  });
+});
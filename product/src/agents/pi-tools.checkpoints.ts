@@ -0,0 +1,158 @@
+import type { CoderClawConfig } from "../config/config.js";
+import { splitCommandChain } from "../infra/exec-approvals-analysis.js";
+import {
+  getToolCheckpointStore,
+  type ToolCheckpoint,
+  type ToolCheckpointStore,
+} from "../infra/tool-checkpoints.js";
+import { createSubsystemLogger } from "../logging/subsystem.js";
+import { splitShellArgs } from "../utils/shell-argv.js";
+import type { AnyAgentTool } from "./pi-tools.types.js";
+
+const log = createSubsystemLogger("agents/checkpoints");
+
+/** Tools whose calls are snapshotted first. */
+const CHECKPOINTED_TOOLS = new Set(["write", "edit", "apply_patch", "exec"]);
+
+/** Commands that never change files, so exec calls made only of them skip the snapshot. */
+const READ_ONLY_COMMANDS = new Set([
+  "cat",
+  "cd",
+  "df",
+  "du",
+  "echo",
+  "file",
+  "grep",
+  "head",
+  "ls",
+  "pwd",
+  "rg",
+  "stat",
+  "tail",
+  "tree",
+  "wc",
+  "which",
+]);
+const READ_ONLY_GIT_SUBCOMMANDS = new Set([
+  "blame",
+  "diff",
+  "log",
+  "ls-files",
+  "rev-parse",
+  "show",
+  "status",
+]);
+
+export type ToolCheckpointContext = {
+  store: ToolCheckpointStore;
+  sessionKey: string;
+};
+
+/** Checkpointing for a run, or null when it is off (config, sandbox or no session). */
+export function resolveToolCheckpointContext(params: {
+  cfg?: CoderClawConfig;
+  sessionKey?: string;
+  workspaceDir: string;
+  sandboxed: boolean;
+}): ToolCheckpointContext | null {
+  const config = params.cfg?.tools?.checkpoints;
+  if (config?.enabled === false || params.sandboxed || !params.sessionKey) {
+    return null;
+  }
+  return {
+    store: getToolCheckpointStore(params.workspaceDir, { maxPerSession: config?.maxPerSession }),
+    sessionKey: params.sessionKey,
+  };
+}
+
+/** True when every command in a shell line is known not to write files. */
+export function isReadOnlyCommand(command: string): boolean {
+  if (/[>]|\btee\b/.test(command)) {
+    return false;
+  }
+  // A quoted `|` only yields an unknown segment here, which errs towards snapshotting.
+  const parts = (splitCommandChain(command) ?? [command]).flatMap((part) => part.split("|"));
+  return parts.every((part) => {
+    const argv = splitShellArgs(part.trim());
+    const bin = argv?.[0];
+    if (!bin) {
+      return false;
+    }
+    if (bin === "git") {
+      return READ_ONLY_GIT_SUBCOMMANDS.has(argv[1] ?? "");
+    }
+    return READ_ONLY_COMMANDS.has(bin);
+  });
+}
+
+function truncate(text: string, max: number): string {
+  const line = text.trim().split("\n")[0] ?? "";
+  return line.length > max ? `${line.slice(0, max - 1)}…` : line;
+}
+
+/** Short label for a checkpoint, or null when the call cannot change files. */
+export function describeCheckpointedCall(toolName: string, params: unknown): string | null {
+  const record = params && typeof params === "object" ? (params as Record<string, unknown>) : {};
+  if (toolName === "write" || toolName === "edit") {
+    const file = record.path ?? record.file_path;
+    return typeof file === "string" ? `${toolName} ${file}` : toolName;
+  }
+  if (toolName === "apply_patch") {
+    const input = typeof record.input === "string" ? record.input : "";
+    const files = [...input.matchAll(/^\*\*\* (?:Add|Update|Delete) File: (.+)$/gm)].map((m) =>
+      m[1].trim(),
+    );
+    return files.length > 0 ? `apply_patch ${truncate(files.join(", "), 80)}` : "apply_patch";
+  }
+  if (toolName === "exec") {
+    const command = typeof record.command === "string" ? record.command : "";
+    if (!command.trim() || isReadOnlyCommand(command)) {
+      return null;
+    }
+    return `exec ${truncate(command, 80)}`;
+  }
+  return null;
+}
+
+/**
+ * Snapshot the workspace before and after each mutating call so `/undo` and
+ * `/rewind` can put back the files it changed. A failed snapshot is logged
+ * and the call still runs.
+ */
+export function wrapToolWithCheckpoints(
+  tool: AnyAgentTool,
+  ctx: ToolCheckpointContext,
+): AnyAgentTool {
+  if (!CHECKPOINTED_TOOLS.has(tool.name)) {
+    return tool;
+  }
+  const execute = tool.execute;
+  return {
+    ...tool,
+    execute: async (toolCallId, params, signal, onUpdate) => {
+      const summary = describeCheckpointedCall(tool.name, params);
+      let checkpoint: ToolCheckpoint | undefined;
+      if (summary) {
+        try {
+          checkpoint = await ctx.store.record(ctx.sessionKey, {
+            toolName: tool.name,
+            toolCallId,
+            summary,
+          });
+        } catch (err) {
+          log.warn(`checkpoint before ${tool.name} failed: ${String(err)}`);
+        }
+      }
+      try {
+        return await execute(toolCallId, params, signal, onUpdate);
+      } finally {
+        if (checkpoint) {
+          // Lets a restore tell the call's own changes from anyone else's.
+          await ctx.store.complete(ctx.sessionKey, checkpoint.commit).catch((err: unknown) => {
+            log.warn(`checkpoint after ${tool.name} failed: ${String(err)}`);
+          });
+        }
+      }
+    },
+  };
+}
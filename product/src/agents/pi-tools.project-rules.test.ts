@@ -0,0 +1,74 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { saveProjectRules } from "../coderclaw/project-context-store.js";
+import type { ProjectRules } from "../coderclaw/types.js";
+import { extractGitRuleTargets, wrapExecToolWithProjectRules } from "./pi-tools.project-rules.js";
+import type { AnyAgentTool } from "./pi-tools.types.js";
+
+describe("extractGitRuleTargets", () => {
+  it("finds commit messages and created branches in chained commands", () => {
+    expect(
+      extractGitRuleTargets(
+        `git add -A && git -C repo commit -am "fix: typo" -m body; git checkout -b feature/x && git status`,
+      ),
+    ).toEqual({ commitMessages: ["fix: typo\n\nbody"], branches: ["feature/x"] });
+    expect(extractGitRuleTargets("git switch -c wip && git branch topic main")).toEqual({
+      commitMessages: [],
+      branches: ["wip", "topic"],
+    });
+    expect(extractGitRuleTargets("git branch -D old && git commit --amend --no-edit")).toEqual({
+      commitMessages: [],
+      branches: [],
+    });
+  });
+});
+
+describe("wrapExecToolWithProjectRules", () => {
+  let root = "";
+  const execute = vi.fn(async () => ({
+    content: [{ type: "text" as const, text: "ok" }],
+    details: {},
+  }));
+  const tool = { name: "exec", execute } as unknown as AnyAgentTool;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), "coderclaw-exec-rules-"));
+    const rules: ProjectRules = {
+      version: 1,
+      codeStyle: { indentation: "spaces" },
+      testing: { required: false, frameworks: [] },
+      documentation: { required: false },
+      git: { branchNaming: "feature/*", commitFormat: "conventional" },
+      constraints: [],
+      customRules: [],
+      enforcement: { "git.commitFormat": "error" },
+    };
+    await saveProjectRules(root, rules);
+    execute.mockClear();
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it("blocks error findings and appends warnings to the result", async () => {
+    const wrapped = wrapExecToolWithProjectRules(tool, root);
+
+    await expect(wrapped.execute("1", { command: 'git commit -m "stuff"' })).rejects.toThrow(
+      /\[git\.commitFormat\]/,
+    );
+    expect(execute).not.toHaveBeenCalled();
+
+    const result = await wrapped.execute("2", { command: "git checkout -b topic" });
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(result.content).toEqual([
+      { type: "text", text: "ok" },
+      { type: "text", text: expect.stringContaining("[git.branchNaming]") },
+    ]);
+
+    await wrapped.execute("3", { command: 'git commit -m "feat: stuff"' });
+    expect(execute).toHaveBeenCalledTimes(2);
+  });
+});
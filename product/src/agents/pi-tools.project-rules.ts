@@ -0,0 +1,136 @@
+import { loadProjectRules } from "../coderclaw/project-context-store.js";
+import {
+  checkBranchName,
+  checkCommitMessage,
+  formatRuleFindings,
+  hasBlockingFindings,
+} from "../coderclaw/rules-engine.js";
+import type { RuleFinding } from "../coderclaw/types.js";
+import { splitCommandChain } from "../infra/exec-approvals-analysis.js";
+import { splitShellArgs } from "../utils/shell-argv.js";
+import type { AnyAgentTool } from "./pi-tools.types.js";
+
+export type GitRuleTargets = {
+  commitMessages: string[];
+  branches: string[];
+};
+
+// git options that take a separate value before the subcommand.
+const GIT_GLOBAL_VALUE_OPTIONS = new Set(["-C", "-c", "--git-dir", "--work-tree", "--namespace"]);
+
+function commitMessage(args: string[]): string | null {
+  const paragraphs: string[] = [];
+  for (let i = 0; i < args.length; i += 1) {
+    const arg = args[i];
+    if (arg === "--message" || arg === "-m") {
+      paragraphs.push(args[++i] ?? "");
+    } else if (arg.startsWith("--message=")) {
+      paragraphs.push(arg.slice("--message=".length));
+    } else if (/^-[a-zA-Z]+$/.test(arg) && arg.includes("m")) {
+      // Bundled short flags (`-am msg`, `-mmsg`).
+      const rest = arg.slice(arg.indexOf("m") + 1);
+      paragraphs.push(rest || (args[++i] ?? ""));
+    }
+  }
+  return paragraphs.length > 0 ? paragraphs.join("\n\n") : null;
+}
+
+function createdBranch(subcommand: string, args: string[]): string | null {
+  const flags =
+    subcommand === "checkout"
+      ? ["-b", "-B"]
+      : subcommand === "switch"
+        ? ["-c", "-C", "--create", "--force-create"]
+        : subcommand === "worktree"
+          ? ["-b", "-B"]
+          : [];
+  for (let i = 0; i < args.length; i += 1) {
+    if (flags.includes(args[i])) {
+      return args[i + 1] ?? null;
+    }
+  }
+  if (subcommand === "branch") {
+    // `git branch <name> [<start>]` creates; any option means list/delete/rename/etc.
+    return args.length > 0 && !args[0].startsWith("-") ? args[0] : null;
+  }
+  return null;
+}
+
+/** Commit messages and new branch names in a shell command's `git` invocations. */
+export function extractGitRuleTargets(command: string): GitRuleTargets {
+  const targets: GitRuleTargets = { commitMessages: [], branches: [] };
+  for (const part of splitCommandChain(command) ?? [command]) {
+    const argv = splitShellArgs(part.trim());
+    const start = argv?.indexOf("git") ?? -1;
+    if (!argv || start === -1) {
+      continue;
+    }
+    let i = start + 1;
+    while (i < argv.length && argv[i].startsWith("-")) {
+      i += GIT_GLOBAL_VALUE_OPTIONS.has(argv[i]) ? 2 : 1;
+    }
+    const subcommand = argv[i];
+    const args = argv.slice(i + 1);
+    if (subcommand === "commit") {
+      const message = commitMessage(args);
+      if (message !== null) {
+        targets.commitMessages.push(message);
+      }
+      continue;
+    }
+    const branch = subcommand ? createdBranch(subcommand, args) : null;
+    if (branch) {
+      targets.branches.push(branch);
+    }
+  }
+  return targets;
+}
+
+/**
+ * Check `git commit` messages and new branch names run through exec against
+ * `.coderClaw/rules.yaml`. Error findings block the command; warnings are
+ * appended to the tool result so the agent can correct course.
+ */
+export function wrapExecToolWithProjectRules(
+  tool: AnyAgentTool,
+  projectRoot: string,
+): AnyAgentTool {
+  const execute = tool.execute;
+  return {
+    ...tool,
+    execute: async (toolCallId, params, signal, onUpdate) => {
+      const command =
+        params && typeof params === "object" ? (params as { command?: unknown }).command : null;
+      const targets =
+        typeof command === "string" && command.includes("git")
+          ? extractGitRuleTargets(command)
+          : null;
+      if (!targets || (targets.commitMessages.length === 0 && targets.branches.length === 0)) {
+        return await execute(toolCallId, params, signal, onUpdate);
+      }
+      const rules = await loadProjectRules(projectRoot);
+      const findings: RuleFinding[] = rules
+        ? [
+            ...targets.commitMessages.flatMap((message) => checkCommitMessage(rules, message)),
+            ...targets.branches.flatMap((branch) => checkBranchName(rules, branch)),
+          ]
+        : [];
+      if (hasBlockingFindings(findings)) {
+        throw new Error(
+          `Command blocked by project rules (.coderClaw/rules.yaml):\n${formatRuleFindings(findings)}`,
+        );
+      }
+      const result = await execute(toolCallId, params, signal, onUpdate);
+      if (findings.length === 0) {
+        return result;
+      }
+      return {
+        ...result,
+        content: [
+          ...result.content,
+          { type: "text", text: `Project rules:\n${formatRuleFindings(findings)}` },
+        ],
+      };
+    },
+  };
+}
@@ -22,15 +22,18 @@ import {
 import { listChannelAgentTools } from "./channel-tools.js";
 import { createCoderClawTools } from "./coderclaw-tools.js";
 import { resolveImageSanitizationLimits } from "./image-sanitization.js";
+import { getMcpToolMeta } from "./mcp-tools.js";
 import type { ModelAuthMode } from "./model-auth.js";
 import { wrapToolWithAbortSignal } from "./pi-tools.abort.js";
 import { wrapToolWithBeforeToolCallHook } from "./pi-tools.before-tool-call.js";
+import { resolveToolCheckpointContext, wrapToolWithCheckpoints } from "./pi-tools.checkpoints.js";
 import {
   isToolAllowedByPolicies,
   resolveEffectiveToolPolicy,
   resolveGroupToolPolicy,
   resolveSubagentToolPolicy,
 } from "./pi-tools.policy.js";
+import { wrapExecToolWithProjectRules } from "./pi-tools.project-rules.js";
 import {
   assertRequiredParams,
   CLAUDE_PARAM_GROUPS,
@@ -217,6 +220,8 @@ export function createCoderClawCodingTools(options?: {
   disableMessageTool?: boolean;
   /** Whether the sender is an owner (required for owner-only tools). */
   senderIsOwner?: boolean;
+  /** Tools from external MCP servers (see createMcpAgentTools); filtered like every other tool. */
+  mcpTools?: AnyAgentTool[];
 }): AnyAgentTool[] {
   const execToolName = "exec";
   const sandbox = options?.sandbox?.enabled ? options.sandbox : undefined;
@@ -420,7 +425,7 @@ export function createCoderClawCodingTools(options?: {
         : []
       : []),
     ...(applyPatchTool ? [applyPatchTool as unknown as AnyAgentTool] : []),
-    execTool as unknown as AnyAgentTool,
+    wrapExecToolWithProjectRules(execTool as unknown as AnyAgentTool, workspaceRoot),
     processTool as unknown as AnyAgentTool,
     // Channel docking: include channel-defined agent tools (login, etc.).
     ...listChannelAgentTools({ cfg: options?.config }),
@@ -440,6 +445,10 @@ export function createCoderClawCodingTools(options?: {
       sandboxFsBridge,
       workspaceDir: workspaceRoot,
       sandboxed: !!sandbox,
+      hostExec: {
+        security: options?.exec?.security ?? execConfig.security,
+        ask: options?.exec?.ask ?? execConfig.ask,
+      },
       config: options?.config,
       pluginToolAllowlist: collectExplicitAllowlist([
         profilePolicy,
@@ -461,13 +470,14 @@ export function createCoderClawCodingTools(options?: {
       disableMessageTool: options?.disableMessageTool,
       requesterAgentIdOverride: agentId,
     }),
+    ...(options?.mcpTools ?? []),
   ];
   // Security: treat unknown/undefined as unauthorized (opt-in, not opt-out)
   const senderIsOwner = options?.senderIsOwner === true;
   const toolsByAuthorization = applyOwnerOnlyToolPolicy(tools, senderIsOwner);
   const subagentFiltered = applyToolPolicyPipeline({
     tools: toolsByAuthorization,
-    toolMeta: (tool) => getPluginToolMeta(tool),
+    toolMeta: (tool) => getPluginToolMeta(tool) ?? getMcpToolMeta(tool),
     warn: logWarn,
     steps: [
       ...buildDefaultToolPolicyPipelineSteps({
@@ -492,7 +502,17 @@ export function createCoderClawCodingTools(options?: {
   const normalized = subagentFiltered.map((tool) =>
     normalizeToolParameters(tool, { modelProvider: options?.modelProvider }),
   );
-  const withHooks = normalized.map((tool) =>
+  // Snapshot inside the hook wrapper so calls blocked by a hook leave no checkpoint.
+  const checkpoints = resolveToolCheckpointContext({
+    cfg: options?.config,
+    sessionKey: options?.sessionKey,
+    workspaceDir: workspaceRoot,
+    sandboxed: !!sandbox,
+  });
+  const checkpointed = checkpoints
+    ? normalized.map((tool) => wrapToolWithCheckpoints(tool, checkpoints))
+    : normalized;
+  const withHooks = checkpointed.map((tool) =>
     wrapToolWithBeforeToolCallHook(tool, {
       agentId,
       sessionKey: options?.sessionKey,
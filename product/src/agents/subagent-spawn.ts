@@ -1,6 +1,6 @@
 import crypto from "node:crypto";
 import { formatThinkingLevels, normalizeThinkLevel } from "../auto-reply/thinking.js";
-import { buildPersonaSystemBlock } from "../coderclaw/personas.js";
+import { buildRoleSystemPrompt } from "../coderclaw/personas.js";
 import type { AgentRole } from "../coderclaw/types.js";
 import { loadConfig } from "../config/config.js";
 import { callGateway } from "../gateway/call.js";
@@ -8,7 +8,10 @@ import { normalizeAgentId, parseAgentSessionKey } from "../routing/session-key.j
 import { normalizeDeliveryContext } from "../utils/delivery-context.js";
 import { resolveAgentConfig } from "./agent-scope.js";
 import { AGENT_LANE_SUBAGENT } from "./lanes.js";
-import { resolveSubagentSpawnModelSelection } from "./model-selection.js";
+import {
+  resolveProviderModelSelection,
+  resolveSubagentSpawnModelSelection,
+} from "./model-selection.js";
 import { buildSubagentSystemPrompt } from "./subagent-announce.js";
 import { getSubagentDepthFromSessionStore } from "./subagent-depth.js";
 import { countActiveRunsForSession, registerSubagentRun } from "./subagent-registry.js";
@@ -25,6 +28,10 @@ export type SpawnSubagentParams = {
   agentId?: string;
   model?: string;
   thinking?: string;
+  /** Preferred provider when `model` is not given (e.g. from orchestrator routing rules). */
+  provider?: string;
+  /** Run the child in this directory instead of the agent's configured workspace. */
+  workspaceDir?: string;
   runTimeoutSeconds?: number;
   cleanup?: "delete" | "keep";
   expectsCompletionMessage?: boolean;
@@ -186,11 +193,28 @@ export async function spawnSubagentDirect(
   const childDepth = callerDepth + 1;
   const spawnedByKey = requesterInternalKey;
   const targetAgentConfig = resolveAgentConfig(cfg, targetAgentId);
-  const resolvedModel = resolveSubagentSpawnModelSelection({
+  let resolvedModel = resolveSubagentSpawnModelSelection({
     cfg,
     agentId: targetAgentId,
     modelOverride,
   });
+  if (params.provider && !params.model) {
+    const providerModel = resolveProviderModelSelection({
+      cfg,
+      provider: params.provider,
+      current: resolvedModel,
+    });
+    // Running on the default model instead would silently ignore the routing rule.
+    if (!providerModel) {
+      return {
+        status: "error",
+        error:
+          `Routing target provider "${params.provider}" has no configured model; ` +
+          `add one to agents.defaults.models or models.providers.${params.provider}.models.`,
+      };
+    }
+    resolvedModel = providerModel;
+  }
 
   const resolvedThinkingDefaultRaw =
     readStringParam(targetAgentConfig?.subagents ?? {}, "thinking") ??
@@ -277,14 +301,9 @@ export async function spawnSubagentDirect(
   // Inject role-specific system prompt and persona identity block if provided.
   // Both are encoded into childSystemPrompt so they are visible to all
   // reasoning paths in the brain, including the coderClawLLM direct path.
-  if (params.roleConfig) {
-    if (params.roleConfig.systemPrompt) {
-      childSystemPrompt += "\n\n--- Role Guidance ---\n" + params.roleConfig.systemPrompt;
-    }
-    const personaBlock = buildPersonaSystemBlock(params.roleConfig);
-    if (personaBlock) {
-      childSystemPrompt += "\n\n" + personaBlock;
-    }
+  const rolePrompt = params.roleConfig ? buildRoleSystemPrompt(params.roleConfig) : "";
+  if (rolePrompt) {
+    childSystemPrompt += "\n\n" + rolePrompt;
   }
 
   const childTaskMessage = [
@@ -309,6 +328,7 @@ export async function spawnSubagentDirect(
         lane: AGENT_LANE_SUBAGENT,
         extraSystemPrompt: childSystemPrompt,
         thinking: thinkingOverride,
+        workspaceDir: params.workspaceDir,
         timeout: runTimeoutSeconds,
         label: label || undefined,
         spawnedBy: spawnedByKey,
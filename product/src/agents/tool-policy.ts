@@ -19,8 +19,10 @@ export const TOOL_GROUPS: Record<string, string[]> = {
   "group:web": ["web_search", "web_fetch"],
   // Basic workspace/file tools
   "group:fs": ["read", "write", "edit", "apply_patch"],
+  // Language-server code navigation
+  "group:lsp": ["lsp_diagnostics", "lsp_definition", "lsp_references", "lsp_hover", "lsp_rename"],
   // Host/runtime execution tools
-  "group:runtime": ["exec", "process"],
+  "group:runtime": ["exec", "process", "run_tests"],
   // Session management tools
   "group:sessions": [
     "sessions_list",
@@ -68,7 +70,7 @@ const TOOL_PROFILES: Record<ToolProfileId, ToolProfilePolicy> = {
     allow: ["session_status"],
   },
   coding: {
-    allow: ["group:fs", "group:runtime", "group:sessions", "group:memory", "image"],
+    allow: ["group:fs", "group:runtime", "group:sessions", "group:memory", "group:lsp", "image"],
   },
   messaging: {
     allow: [
@@ -238,6 +238,8 @@ PAYLOAD TYPES (payload.kind):
   { "kind": "systemEvent", "text": "<message>" }
 - "agentTurn": Runs agent with message (isolated sessions only)
   { "kind": "agentTurn", "message": "<prompt>", "model": "<optional>", "thinking": "<optional>", "timeoutSeconds": <optional, 0 means no timeout> }
+- "workflow": Runs an orchestrator workflow (isolated sessions only)
+  { "kind": "workflow", "workflow": "<workflow type>", "description": "<what to do>", "inputs": <optional object>, "timeoutSeconds": <optional> }
 
 DELIVERY (top-level):
   { "mode": "none|announce|webhook", "channel": "<optional>", "to": "<optional>", "bestEffort": <optional-bool> }
@@ -246,9 +248,14 @@ DELIVERY (top-level):
   - webhook: send finished-run event as HTTP POST to delivery.to (URL required)
   - If the task needs to send to a specific chat/recipient, set announce delivery.channel/to; do not call messaging tools inside the run.
 
+CHAINING AND ALERTS (top-level, optional):
+  { "onSuccess": ["<jobId>"], "onFailure": ["<jobId>"], "alert": { "afterConsecutiveErrors": 3, "delivery": <delivery> } }
+  - Linked jobs run right after this job finishes ok/with an error, even when they are disabled
+  - alert is sent once when consecutive errors reach afterConsecutiveErrors (default 3)
+
 CRITICAL CONSTRAINTS:
 - sessionTarget="main" REQUIRES payload.kind="systemEvent"
-- sessionTarget="isolated" REQUIRES payload.kind="agentTurn"
+- sessionTarget="isolated" REQUIRES payload.kind="agentTurn" or "workflow"
 - For webhook callbacks, use delivery.mode="webhook" with delivery.to set to a URL.
 Default: prefer isolated agentTurn jobs unless the user explicitly wants a main-session system event.
 
@@ -298,6 +305,9 @@ Use jobId as the canonical identifier; id is accepted for compatibility. Use con
               "enabled",
               "description",
               "deleteAfterRun",
+              "onSuccess",
+              "onFailure",
+              "alert",
               "agentId",
               "sessionKey",
               "message",
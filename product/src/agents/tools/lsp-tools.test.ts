@@ -0,0 +1,267 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  activateStaging,
+  clearAllStagedEdits,
+  deactivateStaging,
+  getStagedEdit,
+} from "../../coderclaw/staged-edits.js";
+import type { CoderClawConfig } from "../../config/config.js";
+import { closeLspClients, getLspClient, resolveLspServerForFile } from "../../lsp/servers.js";
+import type { AnyAgentTool } from "./common.js";
+import { createLspTools } from "./lsp-tools.js";
+
+// Minimal stdio language server: identifiers are matched by name within open
+// documents; every line containing "bad" gets an error diagnostic.
+const SERVER_SCRIPT = `
+const docs = new Map();
+let buffer = Buffer.alloc(0);
+const send = (msg) => {
+  const body = Buffer.from(JSON.stringify({ jsonrpc: "2.0", ...msg }));
+  process.stdout.write(Buffer.concat([Buffer.from("Content-Length: " + body.length + "\\r\\n\\r\\n"), body]));
+};
+const wordAt = (text, pos) => {
+  const line = text.split("\\n")[pos.line] ?? "";
+  let start = pos.character;
+  let end = pos.character;
+  while (start > 0 && /\\w/.test(line[start - 1])) start--;
+  while (end < line.length && /\\w/.test(line[end])) end++;
+  return line.slice(start, end);
+};
+const occurrences = (word) => {
+  const found = [];
+  for (const [uri, text] of docs) {
+    text.split("\\n").forEach((line, i) => {
+      for (const m of line.matchAll(new RegExp("\\\\b" + word + "\\\\b", "g"))) {
+        found.push({ uri, range: { start: { line: i, character: m.index }, end: { line: i, character: m.index + word.length } } });
+      }
+    });
+  }
+  return found;
+};
+const publish = (uri) => {
+  const diagnostics = [];
+  docs.get(uri).split("\\n").forEach((line, i) => {
+    const at = line.indexOf("bad");
+    if (at >= 0) diagnostics.push({ range: { start: { line: i, character: at }, end: { line: i, character: at + 3 } }, severity: 1, source: "fake", message: "bad code" });
+  });
+  send({ method: "textDocument/publishDiagnostics", params: { uri, diagnostics } });
+};
+const handle = (msg) => {
+  const p = msg.params;
+  switch (msg.method) {
+    case "initialize":
+      return send({ id: msg.id, result: { capabilities: {}, serverInfo: { name: "fake-lsp" } } });
+    case "textDocument/didOpen":
+      docs.set(p.textDocument.uri, p.textDocument.text);
+      return publish(p.textDocument.uri);
+    case "textDocument/didChange":
+      docs.set(p.textDocument.uri, p.contentChanges[0].text);
+      return publish(p.textDocument.uri);
+    case "textDocument/definition":
+      return send({ id: msg.id, result: occurrences(wordAt(docs.get(p.textDocument.uri), p.position))[0] ?? null });
+    case "textDocument/references":
+      return send({ id: msg.id, result: occurrences(wordAt(docs.get(p.textDocument.uri), p.position)) });
+    case "textDocument/hover":
+      return send({ id: msg.id, result: { contents: { kind: "markdown", value: "**" + wordAt(docs.get(p.textDocument.uri), p.position) + "**" } } });
+    case "textDocument/rename": {
+      const changes = {};
+      for (const loc of occurrences(wordAt(docs.get(p.textDocument.uri), p.position))) {
+        (changes[loc.uri] ??= []).push({ range: loc.range, newText: p.newName });
+      }
+      return send({ id: msg.id, result: { changes } });
+    }
+    case "shutdown":
+      return send({ id: msg.id, result: null });
+    case "exit":
+      return process.exit(0);
+    default:
+      if (msg.id !== undefined) send({ id: msg.id, result: null });
+  }
+};
+process.stdin.on("data", (chunk) => {
+  buffer = Buffer.concat([buffer, chunk]);
+  while (true) {
+    const end = buffer.indexOf("\\r\\n\\r\\n");
+    if (end < 0) return;
+    const length = Number(/Content-Length: (\\d+)/i.exec(buffer.subarray(0, end).toString())[1]);
+    if (buffer.length < end + 4 + length) return;
+    const body = buffer.subarray(end + 4, end + 4 + length).toString();
+    buffer = buffer.subarray(end + 4 + length);
+    handle(JSON.parse(body));
+  }
+});
+`;
+
+const SOURCE = [
+  "export function greet(name: string) {",
+  "  return `hi ${name}`;",
+  "}",
+  "",
+  "greet('a');",
+  "greet('b');",
+].join("\n");
+
+const tmpDirs: string[] = [];
+
+async function setup() {
+  const workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "coderclaw-lsp-tools-"));
+  tmpDirs.push(workspaceDir);
+  await fs.writeFile(path.join(workspaceDir, "server.cjs"), SERVER_SCRIPT);
+  await fs.mkdir(path.join(workspaceDir, "src"));
+  await fs.writeFile(path.join(workspaceDir, "src", "greet.ts"), SOURCE);
+  const config: CoderClawConfig = {
+    tools: {
+      lsp: {
+        diagnosticsWaitMs: 2_000,
+        servers: {
+          typescript: { command: process.execPath, args: [path.join(workspaceDir, "server.cjs")] },
+        },
+      },
+    },
+  };
+  const tools = new Map(
+    createLspTools({ config, workspaceDir }).map((tool) => [tool.name, tool] as const),
+  );
+  const run = async (name: string, args: Record<string, unknown>) => {
+    const tool = tools.get(name) as AnyAgentTool;
+    const result = await tool.execute(`call-${name}`, args);
+    return result.details as Record<string, unknown>;
+  };
+  return { workspaceDir, config, tools, run };
+}
+
+afterEach(async () => {
+  deactivateStaging();
+  clearAllStagedEdits();
+  await closeLspClients();
+  await Promise.all(tmpDirs.splice(0).map((dir) => fs.rm(dir, { recursive: true, force: true })));
+});
+
+describe("lsp tools", () => {
+  it("creates the tool family unless disabled", async () => {
+    const { tools } = await setup();
+    expect([...tools.keys()]).toEqual([
+      "lsp_diagnostics",
+      "lsp_definition",
+      "lsp_references",
+      "lsp_hover",
+      "lsp_rename",
+    ]);
+    expect(
+      createLspTools({ config: { tools: { lsp: { enabled: false } } }, workspaceDir: "/" }),
+    ).toEqual([]);
+  });
+
+  it("navigates by line and symbol name", async () => {
+    const { run } = await setup();
+    const references = await run("lsp_references", {
+      path: "src/greet.ts",
+      line: 5,
+      symbol: "greet",
+    });
+    expect(references.count).toBe(3);
+    expect(references.references).toEqual([
+      { path: "src/greet.ts", line: 1, column: 17, text: "export function greet(name: string) {" },
+      { path: "src/greet.ts", line: 5, column: 1, text: "greet('a');" },
+      { path: "src/greet.ts", line: 6, column: 1, text: "greet('b');" },
+    ]);
+
+    const definition = await run("lsp_definition", { path: "src/greet.ts", line: 6, column: 2 });
+    expect(definition.definitions).toEqual([expect.objectContaining({ line: 1, column: 17 })]);
+
+    const hover = await run("lsp_hover", { path: "src/greet.ts", line: 1, symbol: "name" });
+    expect(hover).toEqual({ found: true, hover: "**name**" });
+
+    await expect(
+      run("lsp_hover", { path: "src/greet.ts", line: 2, symbol: "missing" }),
+    ).rejects.toThrow(/not found on line 2/);
+    await expect(run("lsp_hover", { path: "notes.txt", line: 1, column: 1 })).rejects.toThrow(
+      /No language server configured/,
+    );
+  });
+
+  it("reports diagnostics for the file as saved on disk", async () => {
+    const { workspaceDir, run } = await setup();
+    expect(await run("lsp_diagnostics", { path: "src/greet.ts" })).toMatchObject({ count: 0 });
+
+    await fs.appendFile(path.join(workspaceDir, "src", "greet.ts"), "\nconst x = bad;");
+    const result = await run("lsp_diagnostics", { path: "src/greet.ts" });
+    expect(result).toMatchObject({
+      path: "src/greet.ts",
+      count: 1,
+      diagnostics: [
+        { line: 7, column: 11, severity: "error", message: "bad code", source: "fake" },
+      ],
+    });
+  });
+
+  it("returns, applies or stages rename edits", async () => {
+    const { workspaceDir, run } = await setup();
+    const file = path.join(workspaceDir, "src", "greet.ts");
+
+    const preview = await run("lsp_rename", {
+      path: "src/greet.ts",
+      line: 1,
+      symbol: "greet",
+      newName: "welcome",
+    });
+    expect(preview).toMatchObject({
+      renamed: true,
+      applied: false,
+      files: [{ path: "src/greet.ts", edits: 3 }],
+    });
+    expect(preview.workspaceEdit).toHaveProperty("changes");
+    expect(await fs.readFile(file, "utf-8")).toBe(SOURCE);
+
+    activateStaging();
+    const staged = await run("lsp_rename", {
+      path: "src/greet.ts",
+      line: 1,
+      symbol: "greet",
+      newName: "welcome",
+      apply: true,
+    });
+    expect(staged).toMatchObject({ renamed: true, staged: true });
+    expect(await fs.readFile(file, "utf-8")).toBe(SOURCE);
+    expect(getStagedEdit(file)?.proposedContent).toBe(SOURCE.replaceAll("greet", "welcome"));
+    deactivateStaging();
+    clearAllStagedEdits();
+
+    const applied = await run("lsp_rename", {
+      path: "src/greet.ts",
+      line: 1,
+      symbol: "greet",
+      newName: "welcome",
+      apply: true,
+    });
+    expect(applied).toMatchObject({ renamed: true, applied: true });
+    expect(await fs.readFile(file, "utf-8")).toBe(SOURCE.replaceAll("greet", "welcome"));
+  });
+
+  it("rejects paths and rename edits outside the workspace", async () => {
+    const { workspaceDir, config, run } = await setup();
+    await expect(run("lsp_hover", { path: "../greet.ts", line: 1, column: 1 })).rejects.toThrow(
+      /escapes sandbox root/,
+    );
+
+    // A document the server already has open outside the workspace ends up in the rename edit.
+    const outsideDir = await fs.mkdtemp(path.join(os.tmpdir(), "coderclaw-lsp-outside-"));
+    tmpDirs.push(outsideDir);
+    const outside = path.join(outsideDir, "other.ts");
+    await fs.writeFile(outside, "greet('c');");
+    const resolved = resolveLspServerForFile(outside, config);
+    const client = await getLspClient(resolved!.language, resolved!.server, workspaceDir);
+    await client.getDiagnostics(outside, resolved!.languageId, 2_000);
+
+    const args = { path: "src/greet.ts", line: 1, symbol: "greet", newName: "welcome" };
+    expect(await run("lsp_rename", args)).toMatchObject({ renamed: true, applied: false });
+    await expect(run("lsp_rename", { ...args, apply: true })).rejects.toThrow(
+      /escapes sandbox root/,
+    );
+    expect(await fs.readFile(path.join(workspaceDir, "src", "greet.ts"), "utf-8")).toBe(SOURCE);
+    expect(await fs.readFile(outside, "utf-8")).toBe("greet('c');");
+  });
+});
@@ -0,0 +1,344 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { Type } from "@sinclair/typebox";
+import { isStagingActive, stageEdit } from "../../coderclaw/staged-edits.js";
+import type { CoderClawConfig } from "../../config/config.js";
+import { uriToFilePath } from "../../lsp/client.js";
+import {
+  LSP_DIAGNOSTIC_SEVERITY,
+  type LspHover,
+  type LspLocation,
+  type LspPosition,
+} from "../../lsp/protocol.js";
+import { getLspClient, resolveLspServerForFile } from "../../lsp/servers.js";
+import { collectWorkspaceEdits, resolveWorkspaceEdit } from "../../lsp/workspace-edit.js";
+import { wrapToolWorkspaceRootGuard } from "../pi-tools.read.js";
+import { assertSandboxPath } from "../sandbox-paths.js";
+import type { AnyAgentTool } from "./common.js";
+import { jsonResult, readNumberParam, readStringParam, ToolInputError } from "./common.js";
+
+const DEFAULT_DIAGNOSTICS_WAIT_MS = 5_000;
+const MAX_LOCATIONS = 200;
+
+const PositionFields = {
+  path: Type.String({ description: "File path, relative to the workspace or absolute." }),
+  line: Type.Number({ description: "1-based line number." }),
+  column: Type.Optional(Type.Number({ description: "1-based column of the symbol." })),
+  symbol: Type.Optional(
+    Type.String({
+      description: "Symbol name on that line; used instead of column to locate the position.",
+    }),
+  ),
+};
+
+const LspDiagnosticsSchema = Type.Object({
+  path: Type.String({ description: "File path, relative to the workspace or absolute." }),
+});
+
+const LspPositionSchema = Type.Object(PositionFields);
+
+const LspReferencesSchema = Type.Object({
+  ...PositionFields,
+  includeDeclaration: Type.Optional(
+    Type.Boolean({ description: "Include the declaration itself (default: true)." }),
+  ),
+});
+
+const LspRenameSchema = Type.Object({
+  ...PositionFields,
+  newName: Type.String({ description: "New name for the symbol." }),
+  apply: Type.Optional(
+    Type.Boolean({
+      description:
+        "Write the edit to disk (default: false, only return it). When staged edits are active the edit is always staged instead.",
+    }),
+  ),
+});
+
+type LspToolContext = {
+  config?: CoderClawConfig;
+  workspaceDir: string;
+};
+
+function resolveFilePath(ctx: LspToolContext, rawPath: string): string {
+  return path.resolve(ctx.workspaceDir, rawPath);
+}
+
+function displayPath(ctx: LspToolContext, filePath: string): string {
+  const rel = path.relative(ctx.workspaceDir, filePath);
+  return rel && !rel.startsWith("..") && !path.isAbsolute(rel) ? rel.replace(/\\/g, "/") : filePath;
+}
+
+async function connect(ctx: LspToolContext, filePath: string) {
+  const resolved = resolveLspServerForFile(filePath, ctx.config);
+  if (!resolved) {
+    throw new ToolInputError(
+      `No language server configured for ${path.extname(filePath) || path.basename(filePath)} files (tools.lsp.servers).`,
+    );
+  }
+  const client = await getLspClient(resolved.language, resolved.server, ctx.workspaceDir);
+  return { client, languageId: resolved.languageId };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Convert the tool's 1-based line plus column or symbol name into an LSP position. */
+async function readPosition(
+  filePath: string,
+  params: Record<string, unknown>,
+): Promise<LspPosition> {
+  const line = readNumberParam(params, "line", { required: true, integer: true }) ?? 0;
+  const column = readNumberParam(params, "column", { integer: true });
+  const symbol = readStringParam(params, "symbol");
+  const lines = (await fs.readFile(filePath, "utf-8")).split("\n");
+  const text = line >= 1 ? lines[line - 1] : undefined;
+  if (text === undefined) {
+    throw new ToolInputError(`line ${line} is outside the file (${lines.length} lines)`);
+  }
+  if (symbol) {
+    const word = new RegExp(`(?<![\\w$])${escapeRegExp(symbol)}(?![\\w$])`).exec(text);
+    const character = word ? word.index : text.indexOf(symbol);
+    if (character < 0) {
+      throw new ToolInputError(`"${symbol}" not found on line ${line}: ${text.trim()}`);
+    }
+    return { line: line - 1, character };
+  }
+  if (column !== undefined && column >= 1) {
+    return { line: line - 1, character: column - 1 };
+  }
+  throw new ToolInputError("column or symbol required");
+}
+
+async function formatLocations(ctx: LspToolContext, locations: LspLocation[]) {
+  const fileLines = new Map<string, string[] | null>();
+  const linesOf = async (filePath: string) => {
+    if (!fileLines.has(filePath)) {
+      fileLines.set(
+        filePath,
+        await fs
+          .readFile(filePath, "utf-8")
+          .then((content) => content.split("\n"))
+          .catch(() => null),
+      );
+    }
+    return fileLines.get(filePath);
+  };
+  return Promise.all(
+    locations.slice(0, MAX_LOCATIONS).map(async (location) => {
+      const filePath = uriToFilePath(location.uri);
+      const { start } = location.range;
+      return {
+        path: displayPath(ctx, filePath),
+        line: start.line + 1,
+        column: start.character + 1,
+        text: (await linesOf(filePath))?.[start.line]?.trim(),
+      };
+    }),
+  );
+}
+
+function hoverText(hover: LspHover | null): string {
+  if (!hover) {
+    return "";
+  }
+  const parts = Array.isArray(hover.contents) ? hover.contents : [hover.contents];
+  return parts
+    .map((part) =>
+      typeof part === "string"
+        ? part
+        : "language" in part
+          ? `\`\`\`${part.language}\n${part.value}\n\`\`\``
+          : part.value,
+    )
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+function createLspDiagnosticsTool(ctx: LspToolContext): AnyAgentTool {
+  const waitMs = ctx.config?.tools?.lsp?.diagnosticsWaitMs ?? DEFAULT_DIAGNOSTICS_WAIT_MS;
+  return {
+    label: "LSP Diagnostics",
+    name: "lsp_diagnostics",
+    description:
+      "Type errors, warnings and lint findings the language server reports for a file (as currently saved on disk). Run after editing to check the change compiles.",
+    parameters: LspDiagnosticsSchema,
+    execute: async (_toolCallId, params) => {
+      const filePath = resolveFilePath(ctx, readStringParam(params, "path", { required: true }));
+      const { client, languageId } = await connect(ctx, filePath);
+      const diagnostics = await client.getDiagnostics(filePath, languageId, waitMs);
+      return jsonResult({
+        path: displayPath(ctx, filePath),
+        count: diagnostics.length,
+        diagnostics: diagnostics.map((entry) => ({
+          line: entry.range.start.line + 1,
+          column: entry.range.start.character + 1,
+          endLine: entry.range.end.line + 1,
+          endColumn: entry.range.end.character + 1,
+          severity: LSP_DIAGNOSTIC_SEVERITY[entry.severity ?? 1] ?? "error",
+          message: entry.message,
+          source: entry.source,
+          code: entry.code,
+        })),
+      });
+    },
+  };
+}
+
+function createLspDefinitionTool(ctx: LspToolContext): AnyAgentTool {
+  return {
+    label: "LSP Definition",
+    name: "lsp_definition",
+    description:
+      "Go to definition: where the symbol at a position (line plus column or symbol name) is declared, resolved by the language server across files and dependencies.",
+    parameters: LspPositionSchema,
+    execute: async (_toolCallId, params) => {
+      const filePath = resolveFilePath(ctx, readStringParam(params, "path", { required: true }));
+      const { client, languageId } = await connect(ctx, filePath);
+      const position = await readPosition(filePath, params);
+      const locations = await client.definition(filePath, languageId, position);
+      return jsonResult({ definitions: await formatLocations(ctx, locations) });
+    },
+  };
+}
+
+function createLspReferencesTool(ctx: LspToolContext): AnyAgentTool {
+  return {
+    label: "LSP References",
+    name: "lsp_references",
+    description:
+      "Find every reference to the symbol at a position (line plus column or symbol name). Unlike grep, this follows imports, aliases and re-exports and skips unrelated identifiers with the same name.",
+    parameters: LspReferencesSchema,
+    execute: async (_toolCallId, params) => {
+      const filePath = resolveFilePath(ctx, readStringParam(params, "path", { required: true }));
+      const { client, languageId } = await connect(ctx, filePath);
+      const position = await readPosition(filePath, params);
+      const locations = await client.references(
+        filePath,
+        languageId,
+        position,
+        params.includeDeclaration !== false,
+      );
+      return jsonResult({
+        count: locations.length,
+        truncated: locations.length > MAX_LOCATIONS,
+        references: await formatLocations(ctx, locations),
+      });
+    },
+  };
+}
+
+function createLspHoverTool(ctx: LspToolContext): AnyAgentTool {
+  return {
+    label: "LSP Hover",
+    name: "lsp_hover",
+    description:
+      "Type signature and documentation of the symbol at a position (line plus column or symbol name).",
+    parameters: LspPositionSchema,
+    execute: async (_toolCallId, params) => {
+      const filePath = resolveFilePath(ctx, readStringParam(params, "path", { required: true }));
+      const { client, languageId } = await connect(ctx, filePath);
+      const position = await readPosition(filePath, params);
+      const text = hoverText(await client.hover(filePath, languageId, position));
+      return jsonResult({ found: Boolean(text), hover: text });
+    },
+  };
+}
+
+function createLspRenameTool(ctx: LspToolContext): AnyAgentTool {
+  return {
+    label: "LSP Rename",
+    name: "lsp_rename",
+    description:
+      "Rename the symbol at a position (line plus column or symbol name) everywhere it is used. Returns the language server's workspace edit; with apply=true the files are written. When staged edits are active each changed file is staged for /diff review instead.",
+    parameters: LspRenameSchema,
+    execute: async (toolCallId, params) => {
+      const filePath = resolveFilePath(ctx, readStringParam(params, "path", { required: true }));
+      const newName = readStringParam(params, "newName", { required: true });
+      const { client, languageId } = await connect(ctx, filePath);
+      const position = await readPosition(filePath, params);
+      const edit = await client.rename(filePath, languageId, position, newName);
+      if (!edit) {
+        return jsonResult({ renamed: false, error: "Nothing to rename at this position." });
+      }
+      const { files, unsupported } = collectWorkspaceEdits(edit);
+      const resolved = await resolveWorkspaceEdit(files);
+      const summary = resolved.map((file) => ({
+        path: displayPath(ctx, file.filePath),
+        edits: file.edits.length,
+      }));
+
+      if (isStagingActive() || params.apply === true) {
+        // The server decides which files an edit touches; never write outside the workspace.
+        for (const file of resolved) {
+          await assertSandboxPath({
+            filePath: file.filePath,
+            cwd: ctx.workspaceDir,
+            root: ctx.workspaceDir,
+          });
+        }
+      }
+
+      if (isStagingActive()) {
+        const staged = [];
+        for (const file of resolved) {
+          staged.push(
+            await stageEdit({
+              filePath: file.filePath,
+              proposedContent: file.updated,
+              toolCallId,
+              label: `rename → ${newName}`,
+              projectRoot: ctx.workspaceDir,
+            }),
+          );
+        }
+        return jsonResult({
+          renamed: true,
+          staged: true,
+          files: summary,
+          unsupported,
+          message: staged.map((entry) => entry.message).join("\n\n"),
+        });
+      }
+
+      if (params.apply === true) {
+        for (const file of resolved) {
+          await fs.writeFile(file.filePath, file.updated, "utf-8");
+        }
+        return jsonResult({ renamed: true, applied: true, files: summary, unsupported });
+      }
+
+      return jsonResult({
+        renamed: true,
+        applied: false,
+        files: summary,
+        unsupported,
+        workspaceEdit: edit,
+      });
+    },
+  };
+}
+
+/**
+ * Language-server tools (diagnostics, definition, references, hover, rename)
+ * for files in the workspace. Servers are configured per language under
+ * `tools.lsp.servers` and started on first use. Paths outside the workspace
+ * are rejected.
+ */
+export function createLspTools(options: {
+  config?: CoderClawConfig;
+  workspaceDir: string;
+}): AnyAgentTool[] {
+  if (options.config?.tools?.lsp?.enabled === false) {
+    return [];
+  }
+  const ctx: LspToolContext = { config: options.config, workspaceDir: options.workspaceDir };
+  return [
+    createLspDiagnosticsTool(ctx),
+    createLspDefinitionTool(ctx),
+    createLspReferencesTool(ctx),
+    createLspHoverTool(ctx),
+    createLspRenameTool(ctx),
+  ].map((tool) => wrapToolWorkspaceRootGuard(tool, options.workspaceDir));
+}
@@ -73,6 +73,8 @@ export function createMemorySearchTool(options: {
           maxResults,
           minScore,
           sessionKey: options.agentSessionKey,
+          // Indexed source code is served by codebase_semantic_search.
+          sources: ["memory", "sessions"],
         });
         const status = manager.status();
         const decorated = decorateCitations(rawResults, includeCitations);
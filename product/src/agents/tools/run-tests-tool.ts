@@ -0,0 +1,80 @@
+import { Type } from "@sinclair/typebox";
+import type { ExecAsk, ExecSecurity } from "../../infra/exec-approvals.js";
+import {
+  InvalidTestScopeError,
+  normalizeTestFramework,
+  SUPPORTED_TEST_FRAMEWORKS,
+} from "../../test-runner/frameworks.js";
+import { runTests, TestFrameworkNotDetectedError } from "../../test-runner/run.js";
+import { stringEnum } from "../schema/typebox.js";
+import type { AnyAgentTool } from "./common.js";
+import {
+  jsonResult,
+  readNumberParam,
+  readStringArrayParam,
+  readStringParam,
+  ToolInputError,
+} from "./common.js";
+
+const RunTestsSchema = Type.Object({
+  files: Type.Optional(
+    Type.Array(Type.String(), {
+      description:
+        "Scope: test files or directories (vitest, jest, pytest), packages like ./pkg/... (go) or integration test targets (cargo). Default: the whole suite.",
+    }),
+  ),
+  testNamePattern: Type.Optional(
+    Type.String({ description: "Only run tests whose name matches (-t / -k / -run / filter)." }),
+  ),
+  framework: Type.Optional(
+    stringEnum(SUPPORTED_TEST_FRAMEWORKS, {
+      description: "Override the detected framework.",
+    }),
+  ),
+  timeoutSeconds: Type.Optional(Type.Number({ description: "Kill the run after this long." })),
+});
+
+/**
+ * Test runs execute project code on the host without exec approvals, so the
+ * tool is only offered when exec itself is unrestricted (`security: "full"`,
+ * `ask: "off"`).
+ */
+export function isRunTestsAllowed(exec?: { security?: ExecSecurity; ask?: ExecAsk }): boolean {
+  return exec?.security === "full" && exec.ask === "off";
+}
+
+export function createRunTestsTool(options: { workspaceDir: string }): AnyAgentTool {
+  return {
+    label: "Run Tests",
+    name: "run_tests",
+    description:
+      "Run the project's tests (vitest, jest, pytest, go test or cargo test, detected from the project context or manifests) and get structured results: pass/fail counts, failing test names, assertion messages and file:line locations. Prefer this over exec for running tests.",
+    parameters: RunTestsSchema,
+    execute: async (_toolCallId, params) => {
+      const rawFramework = readStringParam(params, "framework");
+      const framework = normalizeTestFramework(rawFramework) ?? undefined;
+      if (rawFramework && !framework) {
+        throw new ToolInputError(
+          `Unsupported framework "${rawFramework}" (expected ${SUPPORTED_TEST_FRAMEWORKS.join(", ")})`,
+        );
+      }
+      const timeoutSeconds = readNumberParam(params, "timeoutSeconds");
+      try {
+        return jsonResult(
+          await runTests({
+            workspaceDir: options.workspaceDir,
+            framework,
+            files: readStringArrayParam(params, "files"),
+            testNamePattern: readStringParam(params, "testNamePattern"),
+            timeoutMs: timeoutSeconds && timeoutSeconds > 0 ? timeoutSeconds * 1000 : undefined,
+          }),
+        );
+      } catch (err) {
+        if (err instanceof TestFrameworkNotDetectedError || err instanceof InvalidTestScopeError) {
+          throw new ToolInputError(err.message);
+        }
+        throw err;
+      }
+    },
+  };
+}
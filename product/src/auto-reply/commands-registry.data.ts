@@ -183,11 +183,19 @@ function buildChatCommands(): ChatCommandDefinition[] {
     defineChatCommand({
       key: "approve",
       nativeName: "approve",
-      description: "Approve or deny exec requests.",
+      description: "Approve a pending approval, or approve/deny exec requests.",
       textAlias: "/approve",
       acceptsArgs: true,
       category: "management",
     }),
+    defineChatCommand({
+      key: "deny",
+      nativeName: "deny",
+      description: "Deny a pending approval.",
+      textAlias: "/deny",
+      acceptsArgs: true,
+      category: "management",
+    }),
     defineChatCommand({
       key: "context",
       nativeName: "context",
@@ -473,6 +481,35 @@ function buildChatCommands(): ChatCommandDefinition[] {
         },
       ],
     }),
+    defineChatCommand({
+      key: "checkpoints",
+      nativeName: "checkpoints",
+      description: "List file restore points recorded before tool calls.",
+      textAlias: "/checkpoints",
+      category: "session",
+    }),
+    defineChatCommand({
+      key: "undo",
+      nativeName: "undo",
+      description: "Revert the files changed by the last tool call.",
+      textAlias: "/undo",
+      category: "session",
+    }),
+    defineChatCommand({
+      key: "rewind",
+      nativeName: "rewind",
+      description: "Restore files and the conversation to before a turn.",
+      textAlias: "/rewind",
+      category: "session",
+      args: [
+        {
+          name: "turn",
+          description: "Turn number (see /checkpoints)",
+          type: "number",
+          required: true,
+        },
+      ],
+    }),
     defineChatCommand({
       key: "think",
       nativeName: "think",
@@ -8,6 +8,8 @@ import {
 import type { CommandHandler } from "./commands-types.js";
 
 const COMMAND = "/approve";
+const DENY_COMMAND = "/deny";
+const USAGE = "Usage: /approve <id> or /approve <id> allow-once|allow-always|deny";
 
 const DECISION_ALIASES: Record<string, "allow-once" | "allow-always" | "deny"> = {
   allow: "allow-once",
@@ -23,21 +25,35 @@ const DECISION_ALIASES: Record<string, "allow-once" | "allow-always" | "deny"> =
 };
 
 type ParsedApproveCommand =
-  | { ok: true; id: string; decision: "allow-once" | "allow-always" | "deny" }
+  | { ok: true; kind: "exec"; id: string; decision: "allow-once" | "allow-always" | "deny" }
+  | { ok: true; kind: "gate"; id: string; decision: "approved" | "rejected" }
   | { ok: false; error: string };
 
 function parseApproveCommand(raw: string): ParsedApproveCommand | null {
   const trimmed = raw.trim();
-  if (!trimmed.toLowerCase().startsWith(COMMAND)) {
+  const lower = trimmed.toLowerCase();
+  // `/deny <id>` and a bare `/approve <id>` decide approval-gate requests;
+  // `/approve <id> <decision>` resolves exec approvals.
+  if (lower === DENY_COMMAND || lower.startsWith(`${DENY_COMMAND} `)) {
+    const tokens = trimmed.slice(DENY_COMMAND.length).trim().split(/\s+/).filter(Boolean);
+    if (tokens.length !== 1) {
+      return { ok: false, error: "Usage: /deny <id>" };
+    }
+    return { ok: true, kind: "gate", id: tokens[0], decision: "rejected" };
+  }
+  if (!lower.startsWith(COMMAND)) {
     return null;
   }
   const rest = trimmed.slice(COMMAND.length).trim();
   if (!rest) {
-    return { ok: false, error: "Usage: /approve <id> allow-once|allow-always|deny" };
+    return { ok: false, error: USAGE };
   }
   const tokens = rest.split(/\s+/).filter(Boolean);
+  if (tokens.length === 1 && !DECISION_ALIASES[tokens[0].toLowerCase()]) {
+    return { ok: true, kind: "gate", id: tokens[0], decision: "approved" };
+  }
   if (tokens.length < 2) {
-    return { ok: false, error: "Usage: /approve <id> allow-once|allow-always|deny" };
+    return { ok: false, error: USAGE };
   }
 
   const first = tokens[0].toLowerCase();
@@ -46,6 +62,7 @@ function parseApproveCommand(raw: string): ParsedApproveCommand | null {
   if (DECISION_ALIASES[first]) {
     return {
       ok: true,
+      kind: "exec",
       decision: DECISION_ALIASES[first],
       id: tokens.slice(1).join(" ").trim(),
     };
@@ -53,11 +70,12 @@ function parseApproveCommand(raw: string): ParsedApproveCommand | null {
   if (DECISION_ALIASES[second]) {
     return {
       ok: true,
+      kind: "exec",
       decision: DECISION_ALIASES[second],
       id: tokens[0],
     };
   }
-  return { ok: false, error: "Usage: /approve <id> allow-once|allow-always|deny" };
+  return { ok: false, error: USAGE };
 }
 
 function buildResolvedByLabel(params: Parameters<CommandHandler>[0]): string {
@@ -75,9 +93,10 @@ export const handleApproveCommand: CommandHandler = async (params, allowTextComm
   if (!parsed) {
     return null;
   }
+  const command = normalized.trim().toLowerCase().startsWith(DENY_COMMAND) ? DENY_COMMAND : COMMAND;
   if (!params.command.isAuthorizedSender) {
     logVerbose(
-      `Ignoring /approve from unauthorized sender: ${params.command.senderId || "<unknown>"}`,
+      `Ignoring ${command} from unauthorized sender: ${params.command.senderId || "<unknown>"}`,
     );
     return { shouldContinue: false };
   }
@@ -90,17 +109,41 @@ export const handleApproveCommand: CommandHandler = async (params, allowTextComm
     const scopes = params.ctx.GatewayClientScopes ?? [];
     const hasApprovals = scopes.includes("operator.approvals") || scopes.includes("operator.admin");
     if (!hasApprovals) {
-      logVerbose("Ignoring /approve from gateway client missing operator.approvals.");
+      logVerbose(`Ignoring ${command} from gateway client missing operator.approvals.`);
       return {
         shouldContinue: false,
         reply: {
-          text: "❌ /approve requires operator.approvals for gateway clients.",
+          text: `❌ ${command} requires operator.approvals for gateway clients.`,
         },
       };
     }
   }
 
   const resolvedBy = buildResolvedByLabel(params);
+  if (parsed.kind === "gate") {
+    try {
+      await callGateway({
+        method: "approval.resolve",
+        params: { id: parsed.id, decision: parsed.decision },
+        clientName: GATEWAY_CLIENT_NAMES.GATEWAY_CLIENT,
+        clientDisplayName: `Chat approval (${resolvedBy})`,
+        mode: GATEWAY_CLIENT_MODES.BACKEND,
+      });
+    } catch (err) {
+      return {
+        shouldContinue: false,
+        reply: { text: `❌ Failed to submit decision: ${String(err)}` },
+      };
+    }
+    return {
+      shouldContinue: false,
+      reply: {
+        text:
+          parsed.decision === "approved" ? `✅ Approved ${parsed.id}.` : `❌ Denied ${parsed.id}.`,
+      },
+    };
+  }
+
   try {
     await callGateway({
       method: "exec.approval.resolve",
@@ -0,0 +1,187 @@
+import {
+  abortEmbeddedPiRun,
+  isEmbeddedPiRunActive,
+  waitForEmbeddedPiRunEnd,
+} from "../../agents/pi-embedded.js";
+import { resolveSessionFilePath, resolveSessionFilePathOptions } from "../../config/sessions.js";
+import { logVerbose } from "../../globals.js";
+import { formatTimeAgo } from "../../infra/format-time/format-relative.js";
+import { enqueueSystemEvent } from "../../infra/system-events.js";
+import {
+  findCheckpointTurn,
+  getToolCheckpointStore,
+  listTranscriptTurns,
+  truncateTranscriptBeforeTurn,
+  type CheckpointRestoreResult,
+} from "../../infra/tool-checkpoints.js";
+import type { CommandHandler, HandleCommandsParams } from "./commands-types.js";
+
+const MAX_LISTED_CHECKPOINTS = 20;
+const MAX_LISTED_FILES = 10;
+
+type ParsedCheckpointCommand =
+  | { kind: "list" }
+  | { kind: "undo" }
+  | { kind: "rewind"; turn: number }
+  | { kind: "error"; error: string };
+
+function parseCheckpointCommand(raw: string): ParsedCheckpointCommand | null {
+  const match = raw.trim().match(/^\/(checkpoints|undo|rewind)(?:\s+(.*))?$/i);
+  if (!match) {
+    return null;
+  }
+  const name = match[1].toLowerCase();
+  const rest = match[2]?.trim() ?? "";
+  if (name === "checkpoints") {
+    return { kind: "list" };
+  }
+  if (name === "undo") {
+    return rest ? { kind: "error", error: "Usage: /undo" } : { kind: "undo" };
+  }
+  const turn = Number(rest);
+  if (!/^\d+$/.test(rest) || turn < 1) {
+    return { kind: "error", error: "Usage: /rewind <turn> (see /checkpoints for turn numbers)" };
+  }
+  return { kind: "rewind", turn };
+}
+
+function resolveTranscriptPath(params: HandleCommandsParams): string | null {
+  const sessionId = params.sessionEntry?.sessionId;
+  if (!sessionId) {
+    return null;
+  }
+  return resolveSessionFilePath(
+    sessionId,
+    params.sessionEntry,
+    resolveSessionFilePathOptions({ agentId: params.agentId, storePath: params.storePath }),
+  );
+}
+
+function formatFiles(files: string[]): string {
+  if (files.length === 0) {
+    return "no file changes";
+  }
+  const shown = files.slice(0, MAX_LISTED_FILES).join(", ");
+  const more = files.length > MAX_LISTED_FILES ? ` (+${files.length - MAX_LISTED_FILES} more)` : "";
+  return `${files.length} file(s): ${shown}${more}`;
+}
+
+/** Warning line for restored files that carried someone else's later edits. */
+function formatOverwritten(result: CheckpointRestoreResult | null): string {
+  if (!result || result.overwritten.length === 0) {
+    return "";
+  }
+  return `\n⚠️ Also reverted edits the agent did not make in ${formatFiles(result.overwritten)}.`;
+}
+
+/** Tell the agent on its next turn that files moved under it. */
+function noteUndo(params: HandleCommandsParams, result: CheckpointRestoreResult) {
+  if (result.files.length === 0) {
+    return;
+  }
+  enqueueSystemEvent(
+    `The user ran /undo on your "${result.checkpoint.summary}" call; restored ${formatFiles(result.files)}.`,
+    { sessionKey: params.sessionKey },
+  );
+}
+
+async function stopActiveRun(params: HandleCommandsParams): Promise<void> {
+  const sessionId = params.sessionEntry?.sessionId;
+  if (sessionId && isEmbeddedPiRunActive(sessionId)) {
+    abortEmbeddedPiRun(sessionId);
+    await waitForEmbeddedPiRunEnd(sessionId, 15_000);
+  }
+}
+
+export const handleCheckpointsCommand: CommandHandler = async (params, allowTextCommands) => {
+  if (!allowTextCommands) {
+    return null;
+  }
+  const parsed = parseCheckpointCommand(params.command.commandBodyNormalized);
+  if (!parsed) {
+    return null;
+  }
+  if (!params.command.isAuthorizedSender) {
+    logVerbose(
+      `Ignoring ${params.command.commandBodyNormalized.split(/\s/)[0]} from unauthorized sender: ${params.command.senderId || "<unknown>"}`,
+    );
+    return { shouldContinue: false };
+  }
+  if (parsed.kind === "error") {
+    return { shouldContinue: false, reply: { text: parsed.error } };
+  }
+
+  const store = getToolCheckpointStore(params.workspaceDir, {
+    maxPerSession: params.cfg.tools?.checkpoints?.maxPerSession,
+  });
+  const transcriptPath = resolveTranscriptPath(params);
+
+  if (parsed.kind === "list") {
+    const checkpoints = await store.list(params.sessionKey);
+    if (checkpoints.length === 0) {
+      return { shouldContinue: false, reply: { text: "No checkpoints in this session yet." } };
+    }
+    const turns = transcriptPath ? listTranscriptTurns(transcriptPath) : [];
+    const now = Date.now();
+    const lines = checkpoints
+      .map((checkpoint, index) => {
+        const turn = findCheckpointTurn(turns, checkpoint);
+        const turnLabel = turn ? `turn ${turn}` : "turn ?";
+        return `${index + 1}. ${turnLabel} · ${checkpoint.summary} · ${formatTimeAgo(now - checkpoint.createdAt)}`;
+      })
+      .slice(-MAX_LISTED_CHECKPOINTS);
+    const hidden = checkpoints.length - lines.length;
+    return {
+      shouldContinue: false,
+      reply: {
+        text: [
+          `🧷 Checkpoints (${checkpoints.length}):`,
+          ...(hidden > 0 ? [`… ${hidden} older`] : []),
+          ...lines,
+          "",
+          "/undo reverts the last tool call · /rewind <turn> goes back to before that turn",
+        ].join("\n"),
+      },
+    };
+  }
+
+  await stopActiveRun(params);
+
+  if (parsed.kind === "undo") {
+    const result = await store.undo(params.sessionKey);
+    if (!result) {
+      return { shouldContinue: false, reply: { text: "Nothing to undo." } };
+    }
+    noteUndo(params, result);
+    return {
+      shouldContinue: false,
+      reply: {
+        text: `↩️ Undid ${result.checkpoint.summary}: ${formatFiles(result.files)} restored.${formatOverwritten(result)}`,
+      },
+    };
+  }
+
+  const turns = transcriptPath ? listTranscriptTurns(transcriptPath) : [];
+  if (!transcriptPath || parsed.turn > turns.length) {
+    return {
+      shouldContinue: false,
+      reply: { text: `Turn ${parsed.turn} not found (this session has ${turns.length} turn(s)).` },
+    };
+  }
+  const checkpoints = await store.list(params.sessionKey);
+  const position = checkpoints.findIndex(
+    (checkpoint) => (findCheckpointTurn(turns, checkpoint) ?? 0) >= parsed.turn,
+  );
+  const result = position === -1 ? null : await store.restore(params.sessionKey, position);
+  // Files and transcript now both stand before the turn, so the agent needs no notice.
+  truncateTranscriptBeforeTurn(transcriptPath, parsed.turn);
+  const removed = turns.length - parsed.turn + 1;
+  return {
+    shouldContinue: false,
+    reply: {
+      text: `⏪ Rewound to before turn ${parsed.turn}: removed ${removed} turn(s), ${
+        result ? `${formatFiles(result.files)} restored` : "no file checkpoints to restore"
+      }.${formatOverwritten(result)}`,
+    },
+  };
+};
@@ -233,6 +233,33 @@ describe("/approve command", () => {
     );
   });
 
+  it("resolves approval-gate checkpoints with /approve <id> and /deny <id>", async () => {
+    const cfg = {
+      commands: { text: true },
+      channels: { whatsapp: { allowFrom: ["*"] } },
+    } as CoderClawConfig;
+
+    callGatewayMock.mockResolvedValueOnce({ ok: true });
+    const approved = await handleCommands(buildParams("/approve abc", cfg, { SenderId: "123" }));
+    expect(approved.reply?.text).toContain("Approved abc");
+    expect(callGatewayMock).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        method: "approval.resolve",
+        params: { id: "abc", decision: "approved" },
+      }),
+    );
+
+    callGatewayMock.mockResolvedValueOnce({ ok: true });
+    const denied = await handleCommands(buildParams("/deny abc", cfg, { SenderId: "123" }));
+    expect(denied.reply?.text).toContain("Denied abc");
+    expect(callGatewayMock).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        method: "approval.resolve",
+        params: { id: "abc", decision: "rejected" },
+      }),
+    );
+  });
+
   it("rejects gateway clients without approvals scope", async () => {
     const cfg = {
       commands: { text: true },
@@ -0,0 +1,28 @@
+import path from "node:path";
+import type { Command } from "commander";
+import { serveMcpStdio } from "../mcp/stdio.js";
+import { defaultRuntime } from "../runtime.js";
+import { formatDocsLink } from "../terminal/links.js";
+import { theme } from "../terminal/theme.js";
+
+export function registerMcpCli(program: Command) {
+  program
+    .command("mcp")
+    .description("Serve coderClaw tools, resources and prompts as an MCP server over stdio")
+    .option("--cwd <dir>", "Project root whose .coderClaw/ context is served (default: cwd)")
+    .addHelpText(
+      "after",
+      () =>
+        `\n${theme.muted("Docs:")} ${formatDocsLink("/cli/mcp", "docs.coderclaw.ai/cli/mcp")}\n`,
+    )
+    .action(async (opts) => {
+      try {
+        await serveMcpStdio({
+          projectRoot: opts.cwd ? path.resolve(opts.cwd as string) : undefined,
+        });
+      } catch (err) {
+        defaultRuntime.error(String(err));
+        defaultRuntime.exit(1);
+      }
+    });
+}
@@ -8,6 +8,7 @@ import { loadConfig } from "../config/config.js";
 import { resolveStateDir } from "../config/paths.js";
 import { resolveSessionTranscriptsDirForAgent } from "../config/sessions/paths.js";
 import { setVerbose } from "../globals.js";
+import { listCodeFiles } from "../memory/code-files.js";
 import { getMemorySearchManager, type MemorySearchManagerResult } from "../memory/index.js";
 import {
   listMemoryFiles,
@@ -34,7 +35,7 @@ type MemoryCommandOptions = {
 
 type MemoryManager = NonNullable<MemorySearchManagerResult["manager"]>;
 
-type MemorySourceName = "memory" | "sessions";
+type MemorySourceName = "memory" | "sessions" | "code";
 
 type SourceScan = {
   source: MemorySourceName;
@@ -64,6 +65,9 @@ function formatSourceLabel(source: string, workspaceDir: string, agentId: string
       `sessions (${path.join(stateDir, "agents", agentId, "sessions")}${path.sep}*.jsonl)`,
     );
   }
+  if (source === "code") {
+    return shortenHomeInString(`code (${workspaceDir}${path.sep}**, by symbol)`);
+  }
   return source;
 }
 
@@ -283,6 +287,13 @@ async function scanMemorySources(params: {
     if (source === "sessions") {
       scans.push(await scanSessionFiles(params.agentId));
     }
+    if (source === "code") {
+      scans.push({
+        source: "code",
+        totalFiles: (await listCodeFiles(params.workspaceDir)).length,
+        issues: [],
+      });
+    }
   }
   const issues = scans.flatMap((scan) => scan.issues);
   const totals = scans.map((scan) => scan.totalFiles);
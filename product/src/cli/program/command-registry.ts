@@ -223,12 +223,18 @@ const coreEntries: CoreCliEntry[] = [
         description: "Manage Builderforce Workforce agents (custom trained LLMs)",
         hasSubcommands: true,
       },
+      {
+        name: "eval",
+        description: "Replay recorded workflow fixtures offline",
+        hasSubcommands: true,
+      },
     ],
     register: async ({ program }) => {
       const mod = await import("../../commands/coderclaw.js");
       program.addCommand(mod.createInitCommand());
       program.addCommand(mod.createCoderClawCommand());
       program.addCommand(mod.createAgentCommand());
+      program.addCommand(mod.createEvalCommand());
     },
   },
 ];
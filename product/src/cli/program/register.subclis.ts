@@ -45,6 +45,15 @@ const entries: SubCliEntry[] = [
       mod.registerAcpCli(program);
     },
   },
+  {
+    name: "mcp",
+    description: "Serve coderClaw as an MCP server over stdio",
+    hasSubcommands: false,
+    register: async (program) => {
+      const mod = await import("../mcp-cli.js");
+      mod.registerMcpCli(program);
+    },
+  },
   {
     name: "gateway",
     description: "Run, inspect, and query the WebSocket Gateway",
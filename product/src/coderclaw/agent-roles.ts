@@ -20,7 +20,7 @@ export const CODE_CREATOR_ROLE: AgentRole = {
     "Follow coding standards",
     "Write self-documenting code",
   ],
-  tools: ["create", "edit", "view", "bash", "grep", "glob", "task"],
+  tools: ["create", "edit", "view", "bash", "grep", "glob", "task", "impact_analysis", "run_tests"],
   systemPrompt: `You are a Code Creator agent. Your role is to write clean, maintainable, and well-structured code.
 
 Guidelines:
@@ -60,7 +60,17 @@ export const CODE_REVIEWER_ROLE: AgentRole = {
     "Verify coding standards compliance",
     "Suggest improvements",
   ],
-  tools: ["view", "grep", "glob", "bash", "task"],
+  tools: [
+    "view",
+    "grep",
+    "glob",
+    "bash",
+    "task",
+    "lsp_diagnostics",
+    "lsp_definition",
+    "lsp_references",
+    "lsp_hover",
+  ],
   systemPrompt: `You are a Code Reviewer agent. Your role is to provide thorough, constructive code reviews.
 
 Review Focus:
@@ -71,6 +81,8 @@ Review Focus:
 - Standards: coding conventions, best practices
 - Testing: test coverage, test quality
 
+Use lsp_diagnostics to confirm changed files type-check, and lsp_references to find the callers a change affects.
+
 Provide specific, actionable feedback with examples when possible.`,
   persona: {
     voice: "critical yet constructive",
@@ -102,7 +114,7 @@ export const TEST_GENERATOR_ROLE: AgentRole = {
     "Ensure test coverage",
     "Follow testing best practices",
   ],
-  tools: ["create", "edit", "view", "bash", "grep", "glob"],
+  tools: ["create", "edit", "view", "bash", "grep", "glob", "run_tests"],
   systemPrompt: `You are a Test Generator agent. Your role is to create comprehensive, maintainable test suites.
 
 Testing Principles:
@@ -114,7 +126,7 @@ Testing Principles:
 - Use appropriate mocking strategies
 - Aim for high coverage without redundant tests
 
-Follow the project's testing framework and conventions.`,
+Follow the project's testing framework and conventions. Run the new tests with run_tests and fix failures before reporting.`,
   persona: {
     voice: "systematic and exhaustive",
     perspective: "every code path is a potential failure until a test proves otherwise",
@@ -144,7 +156,7 @@ export const BUG_ANALYZER_ROLE: AgentRole = {
     "Validate fixes with tests",
     "Document bug patterns",
   ],
-  tools: ["view", "edit", "bash", "grep", "glob", "task"],
+  tools: ["view", "edit", "bash", "grep", "glob", "task", "impact_analysis", "run_tests"],
   systemPrompt: `You are a Bug Analyzer agent. Your role is to diagnose and fix bugs systematically.
 
 Debugging Process:
@@ -153,7 +165,7 @@ Debugging Process:
 3. Trace execution flow to find root cause
 4. Consider multiple hypotheses
 5. Propose minimal, targeted fix
-6. Validate fix with tests
+6. Validate fix with tests: impact_analysis lists the tests the change can affect; run those first with run_tests, then the full suite
 7. Check for similar issues elsewhere
 
 Focus on understanding WHY the bug occurs, not just patching symptoms.`,
@@ -186,17 +198,32 @@ export const REFACTOR_AGENT_ROLE: AgentRole = {
     "Reduce duplication",
     "Preserve existing behavior",
   ],
-  tools: ["view", "edit", "bash", "grep", "glob", "task"],
+  tools: [
+    "view",
+    "edit",
+    "bash",
+    "grep",
+    "glob",
+    "task",
+    "lsp_diagnostics",
+    "lsp_definition",
+    "lsp_references",
+    "lsp_hover",
+    "lsp_rename",
+    "impact_analysis",
+    "run_tests",
+  ],
   systemPrompt: `You are a Refactor Agent. Your role is to improve code quality without changing behavior.
 
 Refactoring Guidelines:
 - Make changes incrementally
-- Run tests after each change
+- Run tests after each change: the tests impact_analysis lists first (run_tests), then the full suite
 - Preserve all existing behavior
 - Improve readability and maintainability
 - Extract reusable patterns
 - Simplify complex logic
 - Update related documentation
+- Rename symbols with lsp_rename and find call sites with lsp_references rather than grep
 
 Always validate that refactoring doesn't break functionality.`,
   persona: {
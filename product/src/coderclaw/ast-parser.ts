@@ -19,6 +19,22 @@ import type {
  */
 export async function parseTypeScriptFile(filePath: string): Promise<FileInfo> {
   const content = await fs.readFile(filePath, "utf-8");
+  const stats = await fs.stat(filePath);
+  return {
+    path: filePath,
+    size: stats.size,
+    lastModified: stats.mtime,
+    ...parseTypeScriptSource(filePath, content),
+  };
+}
+
+/**
+ * Extract functions, classes, interfaces and type aliases from TypeScript source
+ */
+export function parseTypeScriptSource(
+  filePath: string,
+  content: string,
+): Pick<FileInfo, "language" | "functions" | "classes" | "interfaces" | "types"> {
   const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true);
 
   const functions: FunctionInfo[] = [];
@@ -80,12 +96,8 @@ export async function parseTypeScriptFile(filePath: string): Promise<FileInfo> {
 
   visit(sourceFile);
 
-  const stats = await fs.stat(filePath);
   return {
-    path: filePath,
-    language: "typescript",
-    size: stats.size,
-    lastModified: stats.mtime,
+    language: /\.[cm]?jsx?$/i.test(filePath) ? "javascript" : "typescript",
     functions,
     classes,
     interfaces,
@@ -185,14 +197,29 @@ function getVisibility(node: ts.MethodDeclaration): "public" | "private" | "prot
  * Extract imports and exports from a TypeScript file
  */
 export async function extractImportsAndExports(filePath: string): Promise<{
-  imports: Array<{ source: string; imports: string[] }>;
-  exports: Array<{ name: string; kind: string }>;
+  imports: Array<{ source: string; imports: string[]; line: number }>;
+  exports: Array<{ name: string; kind: string; line: number }>;
 }> {
   const content = await fs.readFile(filePath, "utf-8");
+  return extractImportsAndExportsFromSource(filePath, content);
+}
+
+/**
+ * Extract imports and exports from TypeScript source
+ */
+export function extractImportsAndExportsFromSource(
+  filePath: string,
+  content: string,
+): {
+  imports: Array<{ source: string; imports: string[]; line: number }>;
+  exports: Array<{ name: string; kind: string; line: number }>;
+} {
   const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true);
 
-  const imports: Array<{ source: string; imports: string[] }> = [];
-  const exports: Array<{ name: string; kind: string }> = [];
+  const imports: Array<{ source: string; imports: string[]; line: number }> = [];
+  const exports: Array<{ name: string; kind: string; line: number }> = [];
+  const lineOf = (node: ts.Node) =>
+    sourceFile.getLineAndCharacterOfPosition(node.getStart()).line + 1;
 
   function visit(node: ts.Node) {
     if (ts.isImportDeclaration(node)) {
@@ -214,21 +241,21 @@ export async function extractImportsAndExports(filePath: string): Promise<{
         }
       }
 
-      imports.push({ source, imports: importNames });
+      imports.push({ source, imports: importNames, line: lineOf(node) });
     } else if (hasExportModifier(node)) {
       if (ts.isFunctionDeclaration(node) && node.name) {
-        exports.push({ name: node.name.text, kind: "function" });
+        exports.push({ name: node.name.text, kind: "function", line: lineOf(node) });
       } else if (ts.isClassDeclaration(node) && node.name) {
-        exports.push({ name: node.name.text, kind: "class" });
+        exports.push({ name: node.name.text, kind: "class", line: lineOf(node) });
       } else if (ts.isInterfaceDeclaration(node)) {
-        exports.push({ name: node.name.text, kind: "interface" });
+        exports.push({ name: node.name.text, kind: "interface", line: lineOf(node) });
       } else if (ts.isTypeAliasDeclaration(node)) {
-        exports.push({ name: node.name.text, kind: "type" });
+        exports.push({ name: node.name.text, kind: "type", line: lineOf(node) });
       } else if (ts.isVariableStatement(node)) {
         for (const declaration of node.declarationList.declarations) {
           if (ts.isIdentifier(declaration.name)) {
             const kind = node.declarationList.flags & ts.NodeFlags.Const ? "const" : "let";
-            exports.push({ name: declaration.name.text, kind });
+            exports.push({ name: declaration.name.text, kind, line: lineOf(declaration) });
           }
         }
       }
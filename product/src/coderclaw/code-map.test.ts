@@ -0,0 +1,299 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { buildCodeMap, buildDependencyGraph, calculateImpactRadius } from "./code-map.js";
+import { filePatternsForLanguages } from "./parsers/index.js";
+import { expandUseTree } from "./parsers/rust.js";
+
+const FIXTURE: Record<string, string> = {
+  "web/src/util.ts": "export function slug(s: string): string {\n  return s;\n}\n",
+  "web/src/app.ts": 'import { slug } from "./util.js";\nexport const title = slug("x");\n',
+
+  "py/pkg/__init__.py": "",
+  "py/pkg/models.py": [
+    "from typing import Protocol",
+    "",
+    "__all__ = ['User', 'load']",
+    "",
+    "class Named(Protocol):",
+    "    def name(self) -> str: ...",
+    "",
+    "class User(Base, Named):",
+    '    """class User(Fake): docstrings are ignored"""',
+    "    @staticmethod",
+    "    def create(email: str, *, admin: bool = False) -> 'User':",
+    "        def helper(): pass",
+    "        return User()",
+    "",
+    "    async def _refresh(self, force=False):",
+    "        pass",
+    "",
+    "def load(",
+    "    path: str,",
+    ") -> User:",
+    "    return User()",
+    "",
+    "def _private():",
+    "    pass",
+  ].join("\n"),
+  "py/pkg/service.py": "from .models import User, load\nimport pkg.models as m\n",
+  "py/main.py": "from pkg import service\nimport os\n",
+
+  "go/go.mod": "module example.com/shop\n\ngo 1.22\n",
+  "go/store/store.go": [
+    "package store",
+    "",
+    "type Store struct {",
+    "\titems map[string]int",
+    "}",
+    "",
+    "type Reader interface {",
+    "\tio.Closer",
+    "\tGet(key string) (int, bool)",
+    "}",
+    "",
+    "type ID = string",
+    "",
+    "const (",
+    "\tMaxItems = 10",
+    "\tminItems = 1",
+    ")",
+    "",
+    "func New() *Store { return &Store{} }",
+    "",
+    "func (s *Store) Get(key string) (int, bool) {",
+    "\tv, ok := s.items[key]",
+    "\treturn v, ok",
+    "}",
+  ].join("\n"),
+  "go/store/store_test.go": "package store\n",
+  "go/cmd/main.go": [
+    "package main",
+    "",
+    "import (",
+    '\t"fmt"',
+    '\tst "example.com/shop/store"',
+    ")",
+    "",
+    "// func Fake() {}",
+    "func main() { fmt.Println(st.New()) }",
+  ].join("\n"),
+
+  "rs/Cargo.toml": '[package]\nname = "engine"\n',
+  "rs/src/lib.rs": "pub mod engine;\nmod util;\n\npub use crate::engine::Engine;\n",
+  "rs/src/util.rs": "pub(crate) fn clamp(v: i32) -> i32 { v }\n",
+  "rs/src/engine/mod.rs": [
+    "use super::util::clamp;",
+    "use std::collections::{HashMap, HashSet};",
+    "",
+    "pub trait Runner: Send + Sync {",
+    "    fn run(&self, input: &str) -> Result<(), String>;",
+    "}",
+    "",
+    "pub struct Engine<'a> {",
+    "    name: &'a str,",
+    "}",
+    "",
+    "impl<'a> Engine<'a> {",
+    "    pub fn new(name: &'a str) -> Self { Engine { name } }",
+    "    fn tick(&mut self, n: i32) { clamp(n); }",
+    "}",
+    "",
+    "impl Runner for Engine<'_> {",
+    "    fn run(&self, _input: &str) -> Result<(), String> { Ok(()) }",
+    "}",
+    "",
+    "pub enum Mode { Fast, Slow }",
+    "pub type Map = HashMap<String, i32>;",
+  ].join("\n"),
+
+  "java/src/main/java/com/acme/Repo.java": [
+    "package com.acme;",
+    "",
+    "public interface Repo<T> extends AutoCloseable {",
+    "    T find(String id);",
+    "}",
+  ].join("\n"),
+  "java/src/main/java/com/acme/web/Controller.java": [
+    "package com.acme.web;",
+    "",
+    "import com.acme.Repo;",
+    "import java.util.List;",
+    "",
+    "/** class Fake {} */",
+    "@RestController",
+    "public class Controller extends Base implements Runnable, Cloneable {",
+    "    private final Repo<String> repo;",
+    "",
+    "    public Controller(Repo<String> repo) { this.repo = repo; }",
+    "",
+    "    @Override",
+    '    public void run() { if (repo != null) { repo.find("x"); } }',
+    "",
+    "    protected static List<String> names(int limit, @Nullable String prefix) throws Exception {",
+    "        return List.of();",
+    "    }",
+    "}",
+  ].join("\n"),
+};
+
+let root = "";
+
+beforeAll(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), "coderclaw-code-map-"));
+  for (const [rel, content] of Object.entries(FIXTURE)) {
+    const file = path.join(root, rel);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, content);
+  }
+});
+
+afterAll(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+const at = (rel: string) => path.join(root, rel);
+
+describe("buildCodeMap", () => {
+  it("extracts symbols and cross-file dependencies for every language", async () => {
+    const codeMap = await buildCodeMap(root, filePatternsForLanguages([]));
+    const deps = (rel: string) =>
+      (codeMap.dependencies.get(at(rel)) ?? []).map((file) => path.relative(root, file)).toSorted();
+
+    // TypeScript: ESM `.js` specifiers resolve to `.ts` sources.
+    expect(deps("web/src/app.ts")).toEqual(["web/src/util.ts"]);
+
+    // Python
+    const models = codeMap.files.get(at("py/pkg/models.py"));
+    expect(models?.language).toBe("python");
+    expect(models?.functions.map((f) => [f.name, f.params, f.returnType, f.exported])).toEqual([
+      ["load", ["path"], "User", true],
+      ["_private", [], undefined, false],
+    ]);
+    expect(models?.interfaces).toMatchObject([{ name: "Named", methods: [{ name: "name" }] }]);
+    expect(models?.classes).toMatchObject([
+      {
+        name: "User",
+        extends: "Base",
+        implements: ["Named"],
+        exported: true,
+        methods: [
+          { name: "create", params: ["email", "admin"], static: true, visibility: "public" },
+          { name: "_refresh", params: ["force"], async: true, visibility: "protected" },
+        ],
+      },
+    ]);
+    expect(deps("py/pkg/service.py")).toEqual(["py/pkg/models.py"]);
+    expect(deps("py/main.py")).toEqual(["py/pkg/__init__.py", "py/pkg/service.py"]);
+
+    // Go
+    const store = codeMap.files.get(at("go/store/store.go"));
+    expect(store?.classes).toMatchObject([
+      { name: "Store", exported: true, methods: [{ name: "Get", params: ["key"] }] },
+    ]);
+    expect(store?.interfaces).toMatchObject([
+      { name: "Reader", extends: ["io.Closer"], methods: [{ name: "Get" }] },
+    ]);
+    expect(store?.types).toMatchObject([{ name: "ID", definition: "string" }]);
+    expect(store?.functions.map((f) => f.name)).toEqual(["New"]);
+    expect(codeMap.exports.has(`${at("go/store/store.go")}:MaxItems`)).toBe(true);
+    expect(codeMap.exports.has(`${at("go/store/store.go")}:minItems`)).toBe(false);
+    expect(codeMap.files.get(at("go/cmd/main.go"))?.functions.map((f) => f.name)).toEqual(["main"]);
+    expect(codeMap.imports.get(at("go/cmd/main.go"))).toMatchObject([
+      { source: "fmt", imports: ["fmt"], line: 4 },
+      { source: "example.com/shop/store", imports: ["st"], line: 5 },
+    ]);
+    expect(deps("go/cmd/main.go")).toEqual(["go/store/store.go"]);
+
+    // Rust
+    const engine = codeMap.files.get(at("rs/src/engine/mod.rs"));
+    expect(engine?.interfaces).toMatchObject([
+      { name: "Runner", extends: ["Send", "Sync"], methods: [{ name: "run", params: ["input"] }] },
+    ]);
+    expect(engine?.classes).toMatchObject([
+      {
+        name: "Engine",
+        implements: ["Runner"],
+        methods: [
+          { name: "new", static: true, visibility: "public" },
+          { name: "tick", params: ["n"], static: false, visibility: "private" },
+          { name: "run", visibility: "public" },
+        ],
+      },
+    ]);
+    expect(engine?.types.map((t) => [t.name, t.definition])).toEqual([
+      ["Mode", "enum"],
+      ["Map", "HashMap<String, i32>"],
+    ]);
+    expect(deps("rs/src/lib.rs")).toEqual(["rs/src/engine/mod.rs", "rs/src/util.rs"]);
+    expect(deps("rs/src/engine/mod.rs")).toEqual(["rs/src/util.rs"]);
+
+    // Java
+    const controller = codeMap.files.get(at("java/src/main/java/com/acme/web/Controller.java"));
+    expect(controller?.classes).toMatchObject([
+      {
+        name: "Controller",
+        extends: "Base",
+        implements: ["Runnable", "Cloneable"],
+        exported: true,
+        methods: [
+          { name: "run", params: [], returnType: "void" },
+          {
+            name: "names",
+            params: ["limit", "prefix"],
+            returnType: "List<String>",
+            static: true,
+            visibility: "protected",
+          },
+        ],
+      },
+    ]);
+    expect(
+      codeMap.files.get(at("java/src/main/java/com/acme/Repo.java"))?.interfaces,
+    ).toMatchObject([{ name: "Repo", extends: ["AutoCloseable"], methods: [{ name: "find" }] }]);
+    expect(deps("java/src/main/java/com/acme/web/Controller.java")).toEqual([
+      "java/src/main/java/com/acme/Repo.java",
+    ]);
+  });
+
+  it("follows dependents across the graph for impact radius", async () => {
+    const codeMap = await buildCodeMap(root, ["**/*.py", "**/*.rs"]);
+    const graph = buildDependencyGraph(codeMap);
+    const impacted = (rel: string) =>
+      [...calculateImpactRadius(at(rel), graph)]
+        .map((file) => path.relative(root, file))
+        .toSorted();
+
+    expect(impacted("py/pkg/models.py")).toEqual([
+      "py/main.py",
+      "py/pkg/models.py",
+      "py/pkg/service.py",
+    ]);
+    expect(impacted("rs/src/util.rs")).toEqual([
+      "rs/src/engine/mod.rs",
+      "rs/src/lib.rs",
+      "rs/src/util.rs",
+    ]);
+  });
+});
+
+describe("filePatternsForLanguages", () => {
+  it("maps project languages to parser extensions", () => {
+    expect(filePatternsForLanguages(["python", "kotlin"])).toEqual(["**/*.py", "**/*.pyi"]);
+    expect(filePatternsForLanguages(["javascript"])).toContain("**/*.ts");
+    expect(filePatternsForLanguages(["cobol"])).toEqual(
+      expect.arrayContaining(["**/*.go", "**/*.rs", "**/*.java"]),
+    );
+  });
+});
+
+describe("expandUseTree", () => {
+  it("flattens nested groups, self and aliases", () => {
+    expect(expandUseTree("crate::a::{self, b::{C, d as e}}")).toEqual([
+      { path: "crate::a", name: "a" },
+      { path: "crate::a::b::C", name: "C" },
+      { path: "crate::a::b::d", name: "e" },
+    ]);
+  });
+});
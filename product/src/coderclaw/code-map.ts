@@ -4,9 +4,20 @@
 
 import fs from "node:fs/promises";
 import path from "node:path";
-import { parseTypeScriptFile, extractImportsAndExports } from "./ast-parser.js";
+import { getLanguageParser } from "./parsers/index.js";
 import type { CodeMap, DependencyNode, ExportInfo, ImportInfo, FileInfo } from "./types.js";
 
+const SKIPPED_DIRS = new Set([
+  "node_modules",
+  "dist",
+  "build",
+  "coverage",
+  "target",
+  "vendor",
+  "venv",
+  "__pycache__",
+]);
+
 /**
  * Build a semantic code map for a project
  */
@@ -16,49 +27,74 @@ export async function buildCodeMap(projectRoot: string, filePatterns: string[]):
   const exports = new Map<string, ExportInfo>();
   const imports = new Map<string, ImportInfo[]>();
 
-  // Parse all matching files
+  // Collect matching files once, even when patterns overlap
+  const matched = new Set<string>();
   for (const pattern of filePatterns) {
-    const matchedFiles = await findFiles(projectRoot, pattern);
-
-    for (const file of matchedFiles) {
-      try {
-        const fileInfo = await parseTypeScriptFile(file);
-        files.set(file, fileInfo);
-
-        // Extract imports and exports
-        const { imports: fileImports, exports: fileExports } = await extractImportsAndExports(file);
+    for (const file of await findFiles(projectRoot, pattern)) {
+      matched.add(file);
+    }
+  }
 
-        // Store imports
-        const importInfos: ImportInfo[] = fileImports.map((imp) => ({
+  for (const file of matched) {
+    const parser = getLanguageParser(file);
+    if (!parser) {
+      continue;
+    }
+    try {
+      const content = await fs.readFile(file, "utf-8");
+      const stats = await fs.stat(file);
+      const parsed = await parser.parse(file, content);
+      files.set(file, {
+        path: file,
+        language: parsed.language,
+        size: stats.size,
+        lastModified: stats.mtime,
+        functions: parsed.functions,
+        classes: parsed.classes,
+        interfaces: parsed.interfaces,
+        types: parsed.types,
+      });
+
+      // Store imports
+      imports.set(
+        file,
+        parsed.imports.map((imp) => ({
           source: imp.source,
           imports: imp.imports,
           file,
-          line: 0, // Could be extracted from AST if needed
-        }));
-        imports.set(file, importInfos);
-
-        // Store exports
-        for (const exp of fileExports) {
-          const exportInfo: ExportInfo = {
-            name: exp.name,
-            kind: exp.kind as ExportInfo["kind"],
-            file,
-            line: 0, // Could be extracted from AST if needed
-          };
-          exports.set(`${file}:${exp.name}`, exportInfo);
-        }
-
-        // Build dependency list
-        const depPromises = fileImports.map((imp) =>
-          resolveImportPath(file, imp.source, projectRoot),
-        );
-        const resolvedDeps = await Promise.all(depPromises);
-        const deps = resolvedDeps.filter((p): p is string => p !== null);
-        dependencies.set(file, deps);
-      } catch (error) {
-        // Skip files that can't be parsed
-        console.warn(`Failed to parse ${file}:`, error);
+          line: imp.line,
+        })),
+      );
+
+      // Store exports
+      for (const exp of parsed.exports) {
+        exports.set(`${file}:${exp.name}`, {
+          name: exp.name,
+          kind: exp.kind,
+          file,
+          line: exp.line,
+        });
       }
+
+      // Build dependency list
+      const resolvedDeps = await Promise.all(
+        parsed.imports.map((imp) =>
+          parser.resolveImport({
+            fromFile: file,
+            fromModule: parsed.module,
+            source: imp.source,
+            imports: imp.imports,
+            projectRoot,
+          }),
+        ),
+      );
+      dependencies.set(
+        file,
+        [...new Set(resolvedDeps.flat())].filter((dep) => dep !== file),
+      );
+    } catch (error) {
+      // Skip files that can't be parsed
+      console.warn(`Failed to parse ${file}:`, error);
     }
   }
 
@@ -113,14 +149,8 @@ async function findFiles(rootDir: string, pattern: string): Promise<string[]> {
         const fullPath = path.join(dir, entry.name);
 
         if (entry.isDirectory()) {
-          // Skip node_modules, .git, dist, etc.
-          if (
-            !entry.name.startsWith(".") &&
-            entry.name !== "node_modules" &&
-            entry.name !== "dist" &&
-            entry.name !== "build" &&
-            entry.name !== "coverage"
-          ) {
+          // Skip node_modules, .git, dist, build output and virtualenvs
+          if (!entry.name.startsWith(".") && !SKIPPED_DIRS.has(entry.name)) {
             await walk(fullPath);
           }
         } else if (entry.isFile()) {
@@ -139,9 +169,10 @@ async function findFiles(rootDir: string, pattern: string): Promise<string[]> {
 }
 
 /**
- * Simple glob pattern matching
+ * Simple glob pattern matching against the file name (only the last pattern segment counts)
  */
 function matchesPattern(filename: string, pattern: string): boolean {
+  pattern = pattern.slice(pattern.lastIndexOf("/") + 1);
   if (pattern.includes("*")) {
     const regex = new RegExp("^" + pattern.replace(/\./g, "\\.").replace(/\*/g, ".*") + "$");
     return regex.test(filename);
@@ -149,48 +180,6 @@ function matchesPattern(filename: string, pattern: string): boolean {
   return filename === pattern;
 }
 
-/**
- * Resolve an import path to an absolute file path
- */
-async function resolveImportPath(
-  fromFile: string,
-  importPath: string,
-  _projectRoot: string,
-): Promise<string | null> {
-  // Skip node_modules imports
-  if (!importPath.startsWith(".") && !importPath.startsWith("/")) {
-    return null;
-  }
-
-  const fromDir = path.dirname(fromFile);
-  let resolved = path.resolve(fromDir, importPath);
-
-  // Try common extensions
-  const extensions = [".ts", ".tsx", ".js", ".jsx", ""];
-  for (const ext of extensions) {
-    const candidate = resolved + ext;
-    try {
-      await fs.stat(candidate);
-      return candidate;
-    } catch {
-      // Try next extension
-    }
-  }
-
-  // Try index files
-  for (const ext of [".ts", ".tsx", ".js", ".jsx"]) {
-    const candidate = path.join(resolved, `index${ext}`);
-    try {
-      await fs.stat(candidate);
-      return candidate;
-    } catch {
-      // Try next extension
-    }
-  }
-
-  return null;
-}
-
 /**
  * Find all files that depend on a given file
  */
@@ -0,0 +1,120 @@
+import { execFileSync } from "node:child_process";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { analyzeImpact, parseUnifiedDiffLines } from "./impact-analysis.js";
+
+const dirs: string[] = [];
+
+async function gitProject(files: Record<string, string>): Promise<string> {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), "impact-"));
+  dirs.push(root);
+  for (const [name, content] of Object.entries(files)) {
+    await fs.mkdir(path.dirname(path.join(root, name)), { recursive: true });
+    await fs.writeFile(path.join(root, name), content);
+  }
+  const git = (...args: string[]) => execFileSync("git", args, { cwd: root, stdio: "ignore" });
+  git("init", "-q");
+  git("add", "-A");
+  git("-c", "user.name=t", "-c", "user.email=t@example.com", "commit", "-q", "-m", "init");
+  return root;
+}
+
+afterEach(async () => {
+  await Promise.all(dirs.splice(0).map((dir) => fs.rm(dir, { recursive: true, force: true })));
+});
+
+describe("parseUnifiedDiffLines", () => {
+  it("collects new-side lines and treats new or deleted files as whole-file changes", () => {
+    const diff = [
+      "diff --git a/src/a.ts b/src/a.ts",
+      "--- a/src/a.ts",
+      "+++ b/src/a.ts",
+      "@@ -3 +3,2 @@",
+      "--- removed line that looks like a header",
+      "+x",
+      "+++ added line that looks like a header",
+      "@@ -10,2 +11,0 @@",
+      "-gone",
+      "-gone",
+      "diff --git a/src/new.ts b/src/new.ts",
+      "--- /dev/null",
+      "+++ b/src/new.ts",
+      "@@ -0,0 +1 @@",
+      "+export const x = 1;",
+      "diff --git a/src/old.ts b/src/old.ts",
+      "--- a/src/old.ts",
+      "+++ /dev/null",
+      "@@ -1 +0,0 @@",
+      "-export const y = 1;",
+    ].join("\n");
+    expect(Object.fromEntries(parseUnifiedDiffLines(diff))).toEqual({
+      "src/a.ts": [3, 4, 12],
+      "src/new.ts": null,
+      "src/old.ts": null,
+    });
+  });
+});
+
+describe("analyzeImpact", () => {
+  it("ranks dependents and tests of the changed symbols by distance", async () => {
+    const root = await gitProject({
+      "src/math.ts": [
+        "export function add(a: number, b: number) {",
+        "  return a + b;",
+        "}",
+        "",
+        "export function sub(a: number, b: number) {",
+        "  return a - b;",
+        "}",
+        "",
+      ].join("\n"),
+      "src/calc.ts": 'import { sub } from "./math.js";\nexport const calc = () => sub(2, 1);\n',
+      "src/report.ts": 'import { add } from "./math.js";\nexport const total = () => add(1, 2);\n',
+      "src/app.ts": 'import { calc } from "./calc.js";\nexport const run = () => calc();\n',
+      "src/math.test.ts": 'import { add } from "./math.js";\nadd(1, 1);\n',
+      "src/app.test.ts": 'import { run } from "./app.js";\nrun();\n',
+      "src/unrelated.ts": "export const z = 1;\n",
+    });
+    const file = path.join(root, "src/math.ts");
+    await fs.writeFile(
+      file,
+      (await fs.readFile(file, "utf-8")).replace("return a + b;", "return b + a;"),
+    );
+
+    const result = await analyzeImpact({ projectRoot: root });
+
+    expect(result.changed).toEqual([{ file: "src/math.ts", symbols: ["add"] }]);
+    expect(result.tests).toEqual([
+      { file: "src/math.test.ts", distance: 1, via: "src/math.ts", symbols: ["add"] },
+      { file: "src/app.test.ts", distance: 3, via: "src/app.ts" },
+    ]);
+    expect(result.modules.map((m) => [m.file, m.distance])).toEqual([
+      ["src/report.ts", 1],
+      ["src/calc.ts", 1],
+      ["src/app.ts", 2],
+    ]);
+    expect(result.dependentCount).toBe(5);
+    expect(result.risk).toEqual({
+      level: "high",
+      reason: "5 files depend on the change (71% of 7 analyzed)",
+    });
+
+    const shallow = await analyzeImpact({ projectRoot: root, maxDistance: 1 });
+    expect(shallow.tests.map((t) => t.file)).toEqual(["src/math.test.ts"]);
+  });
+
+  it("rejects a base that is not a commit or looks like an option", async () => {
+    const root = await gitProject({ "src/a.ts": "export const a = 1;\n" });
+    const output = path.join(root, "out.txt");
+
+    await expect(analyzeImpact({ projectRoot: root, base: `--output=${output}` })).rejects.toThrow(
+      "invalid base revision",
+    );
+    await expect(analyzeImpact({ projectRoot: root, base: "no-such-ref" })).rejects.toThrow(
+      "git rev-parse failed",
+    );
+    await expect(fs.access(output)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,339 @@
+/**
+ * Change-impact analysis: which modules and tests a change can affect.
+ *
+ * Changed lines come from the working-tree diff (`git diff <base>` plus
+ * untracked files) or from staged edits. Each changed line is attributed to
+ * the nearest declaration above it, giving the changed symbols; the
+ * dependency graph from code-map.ts then yields every file that imports a
+ * changed file, directly or transitively, ranked by distance. Direct
+ * importers of a changed symbol rank ahead of other importers at the same
+ * distance, so verification can start with the tests most likely to break.
+ */
+
+import path from "node:path";
+import { runCommandWithTimeout } from "../process/exec.js";
+import { buildCodeMap, buildDependencyGraph } from "./code-map.js";
+import { filePatternsForLanguages } from "./parsers/index.js";
+import { fileExists } from "./parsers/scan.js";
+import { loadProjectContext } from "./project-context-store.js";
+import { isTestFile, testFileCandidates } from "./rules-engine.js";
+import { getStagedEdits, getStagedHunks, loadStagedEdits } from "./staged-edits.js";
+import type { FileInfo } from "./types.js";
+
+export type ImpactSource = "worktree" | "staged-edits";
+
+/** A changed file and its changed lines (1-based, in the file on disk); null = the whole file. */
+export type FileChange = {
+  file: string;
+  lines: number[] | null;
+};
+
+export type ChangedFileImpact = {
+  file: string;
+  /** Declarations containing the changed lines (all exports for new or deleted files). */
+  symbols: string[];
+};
+
+export type ImpactedFile = {
+  file: string;
+  /** Import hops from the nearest changed file. */
+  distance: number;
+  /** The file one hop closer to the change that this file imports. */
+  via: string;
+  /** Changed symbols this file imports by name (direct importers only). */
+  symbols?: string[];
+};
+
+export type ImpactRiskLevel = "low" | "medium" | "high";
+
+export type ImpactAnalysis = {
+  source: ImpactSource;
+  changed: ChangedFileImpact[];
+  /** Non-test files affected by the change, nearest first. */
+  modules: ImpactedFile[];
+  /** Test files to run, nearest first. Changed test files come first at distance 0. */
+  tests: ImpactedFile[];
+  /** Files that depend on the changed files, directly or transitively. */
+  dependentCount: number;
+  risk: { level: ImpactRiskLevel; reason: string };
+};
+
+export type AnalyzeImpactParams = {
+  projectRoot: string;
+  source?: ImpactSource;
+  /** Git revision the working tree is compared against (default: HEAD). */
+  base?: string;
+  /** Stop following dependents after this many hops. */
+  maxDistance?: number;
+};
+
+const GIT_TIMEOUT_MS = 30_000;
+
+/**
+ * Changed lines per file from `git diff --unified=0` output, on the new side.
+ * Pure deletions count as a change to the line after them.
+ */
+export function parseUnifiedDiffLines(diff: string): Map<string, number[] | null> {
+  const changes = new Map<string, number[] | null>();
+  let current: string | null = null;
+  let oldPath: string | null = null;
+  // Inside hunks, removed "-- x" and added "++ x" lines look like file headers.
+  let inHeader = false;
+  for (const line of diff.split("\n")) {
+    if (line.startsWith("diff ")) {
+      inHeader = true;
+      continue;
+    }
+    if (inHeader && line.startsWith("--- ")) {
+      oldPath = line === "--- /dev/null" ? null : line.slice(4).replace(/^a\//, "");
+      continue;
+    }
+    if (inHeader && line.startsWith("+++ ")) {
+      if (line === "+++ /dev/null") {
+        // Deleted file: its importers are affected as a whole.
+        current = null;
+        if (oldPath) {
+          changes.set(oldPath, null);
+        }
+      } else {
+        current = line.slice(4).replace(/^b\//, "");
+        if (!changes.has(current)) {
+          changes.set(current, oldPath ? [] : null);
+        }
+      }
+      continue;
+    }
+    const hunk = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/.exec(line);
+    if (hunk) {
+      inHeader = false;
+    }
+    const lines = current ? changes.get(current) : null;
+    if (hunk && lines) {
+      const start = Number(hunk[1]);
+      const count = hunk[2] === undefined ? 1 : Number(hunk[2]);
+      if (count === 0) {
+        lines.push(start + 1);
+      }
+      for (let n = start; n < start + count; n++) {
+        lines.push(n);
+      }
+    }
+  }
+  return changes;
+}
+
+async function git(projectRoot: string, args: string[]): Promise<string> {
+  const result = await runCommandWithTimeout(["git", ...args], {
+    cwd: projectRoot,
+    timeoutMs: GIT_TIMEOUT_MS,
+  });
+  if (result.code !== 0) {
+    throw new Error(`git ${args[0]} failed: ${result.stderr.trim() || `exit ${result.code}`}`);
+  }
+  return result.stdout;
+}
+
+/**
+ * Working-tree changes against `base`, plus untracked files. `base` comes
+ * from the agent, so it must name a commit and is never read as an option.
+ */
+export async function collectWorktreeChanges(
+  projectRoot: string,
+  base = "HEAD",
+): Promise<FileChange[]> {
+  if (base.startsWith("-")) {
+    throw new Error(`invalid base revision: ${base}`);
+  }
+  const commit = (
+    await git(projectRoot, ["rev-parse", "--verify", "--end-of-options", `${base}^{commit}`])
+  ).trim();
+  const diff = await git(projectRoot, [
+    "diff",
+    "--unified=0",
+    "--no-color",
+    "--no-ext-diff",
+    "--relative",
+    "--end-of-options",
+    commit,
+    "--",
+  ]);
+  const untracked = await git(projectRoot, ["ls-files", "--others", "--exclude-standard", "-z"]);
+  const changes = parseUnifiedDiffLines(diff);
+  for (const file of untracked.split("\0").filter(Boolean)) {
+    changes.set(file, null);
+  }
+  return [...changes].map(([file, lines]) => ({ file: path.resolve(projectRoot, file), lines }));
+}
+
+/** Files with pending staged edits, with the lines each edit replaces. */
+export async function collectStagedEditChanges(projectRoot: string): Promise<FileChange[]> {
+  await loadStagedEdits(projectRoot);
+  const root = path.resolve(projectRoot);
+  return getStagedEdits()
+    .filter((edit) => edit.filePath.startsWith(root + path.sep))
+    .map((edit) => ({
+      file: edit.filePath,
+      lines: edit.isNew
+        ? null
+        : getStagedHunks(edit).flatMap((hunk) =>
+            hunk.originalLines.length > 0
+              ? hunk.originalLines.map((_, offset) => hunk.originalStart + offset)
+              : [hunk.originalStart],
+          ),
+    }));
+}
+
+/** Names of the declarations enclosing `lines`: the nearest declaration at or above each line. */
+export function symbolsAtLines(info: FileInfo, lines: number[]): string[] {
+  const declarations = [
+    ...info.functions,
+    ...info.classes,
+    ...info.interfaces,
+    ...info.types,
+  ].toSorted((a, b) => a.line - b.line);
+  const symbols = new Set<string>();
+  for (const line of lines) {
+    const enclosing = declarations.findLast((decl) => decl.line <= line);
+    if (enclosing) {
+      symbols.add(enclosing.name);
+    }
+  }
+  return [...symbols];
+}
+
+function riskOf(dependentCount: number, fileCount: number): ImpactAnalysis["risk"] {
+  const share = fileCount > 0 ? dependentCount / fileCount : 0;
+  // The share only counts once enough files depend on the change, so tiny projects stay low.
+  const level: ImpactRiskLevel =
+    dependentCount >= 25 || (dependentCount >= 5 && share >= 0.2)
+      ? "high"
+      : dependentCount >= 5 || (dependentCount >= 2 && share >= 0.05)
+        ? "medium"
+        : "low";
+  const percent = Math.round(share * 100);
+  return {
+    level,
+    reason: `${dependentCount === 1 ? "1 file depends" : `${dependentCount} files depend`} on the change (${percent}% of ${fileCount} analyzed)`,
+  };
+}
+
+export async function analyzeImpact(params: AnalyzeImpactParams): Promise<ImpactAnalysis> {
+  const projectRoot = path.resolve(params.projectRoot);
+  const source = params.source ?? "worktree";
+  const changes =
+    source === "staged-edits"
+      ? await collectStagedEditChanges(projectRoot)
+      : await collectWorktreeChanges(projectRoot, params.base);
+
+  const context = await loadProjectContext(projectRoot).catch(() => null);
+  const codeMap = await buildCodeMap(projectRoot, filePatternsForLanguages(context?.languages));
+  const graph = buildDependencyGraph(codeMap);
+  const rel = (file: string) => path.relative(projectRoot, file).replace(/\\/g, "/");
+
+  const changed: ChangedFileImpact[] = [];
+  const changedSymbols = new Map<string, Set<string>>();
+  for (const change of changes) {
+    const info = codeMap.files.get(change.file);
+    const exported = [...codeMap.exports.values()]
+      .filter((exp) => exp.file === change.file)
+      .map((exp) => exp.name);
+    const symbols = !info || change.lines === null ? exported : symbolsAtLines(info, change.lines);
+    changed.push({ file: rel(change.file), symbols });
+    changedSymbols.set(change.file, new Set(symbols));
+  }
+
+  // Breadth-first over reverse dependencies, from all changed files at once.
+  const reached = new Map<string, ImpactedFile>();
+  const changedFiles = new Set(changes.map((change) => change.file));
+  let frontier = [...changedFiles];
+  for (let distance = 1; frontier.length > 0; distance++) {
+    if (params.maxDistance !== undefined && distance > params.maxDistance) {
+      break;
+    }
+    const next: string[] = [];
+    for (const file of frontier) {
+      for (const dependent of graph.get(file)?.dependents ?? []) {
+        if (changedFiles.has(dependent) || reached.has(dependent)) {
+          continue;
+        }
+        const entry: ImpactedFile = { file: dependent, distance, via: rel(file) };
+        if (distance === 1) {
+          const wanted = changedSymbols.get(file) ?? new Set();
+          const used = (codeMap.imports.get(dependent) ?? [])
+            .flatMap((imp) => imp.imports)
+            .filter((name) => wanted.has(name));
+          if (used.length > 0) {
+            entry.symbols = [...new Set(used)];
+          }
+        }
+        reached.set(dependent, entry);
+        next.push(dependent);
+      }
+    }
+    frontier = next;
+  }
+
+  // Tests that live next to a changed file but reach it without an import
+  // (Go and Rust tests share the package) still cover it.
+  for (const file of changedFiles) {
+    for (const candidate of testFileCandidates(file, projectRoot)) {
+      if (
+        !changedFiles.has(candidate) &&
+        !reached.has(candidate) &&
+        (await fileExists(candidate))
+      ) {
+        reached.set(candidate, { file: candidate, distance: 1, via: rel(file) });
+      }
+    }
+  }
+
+  const ranked = [...reached.values()]
+    .map((entry) => ({ ...entry, file: rel(entry.file) }))
+    .toSorted(
+      (a, b) =>
+        a.distance - b.distance ||
+        (b.symbols?.length ?? 0) - (a.symbols?.length ?? 0) ||
+        a.file.localeCompare(b.file),
+    );
+  const changedTests = [...changedFiles]
+    .filter((file) => isTestFile(rel(file)))
+    .map((file) => ({ file: rel(file), distance: 0, via: rel(file) }));
+
+  return {
+    source,
+    changed,
+    modules: ranked.filter((entry) => !isTestFile(entry.file)),
+    tests: [...changedTests, ...ranked.filter((entry) => isTestFile(entry.file))],
+    dependentCount: reached.size,
+    risk: riskOf(reached.size, graph.size),
+  };
+}
+
+/** Plain-text report for the CLI. */
+export function formatImpactAnalysis(result: ImpactAnalysis, limit = 20): string {
+  if (result.changed.length === 0) {
+    return `No changes found (${result.source === "staged-edits" ? "staged edits" : "working tree"}).`;
+  }
+  const list = (entries: ImpactedFile[]) => [
+    ...entries.slice(0, limit).map((entry) => {
+      const symbols = entry.symbols ? ` [${entry.symbols.join(", ")}]` : "";
+      return `  ${entry.distance}  ${entry.file}${entry.distance > 1 ? ` (via ${entry.via})` : ""}${symbols}`;
+    }),
+    ...(entries.length > limit ? [`  … ${entries.length - limit} more`] : []),
+  ];
+  return [
+    `Risk: ${result.risk.level} — ${result.risk.reason}`,
+    "",
+    `Changed (${result.changed.length}):`,
+    ...result.changed.map(
+      (entry) =>
+        `  ${entry.file}${entry.symbols.length > 0 ? ` [${entry.symbols.join(", ")}]` : ""}`,
+    ),
+    "",
+    `Tests to run (${result.tests.length}):`,
+    ...(result.tests.length > 0 ? list(result.tests) : ["  none found"]),
+    "",
+    `Affected modules (${result.modules.length}):`,
+    ...(result.modules.length > 0 ? list(result.modules) : ["  none"]),
+  ].join("\n");
+}
@@ -6,7 +6,10 @@ export * from "./types.js";
 export * from "./project-context.js";
 export * from "./ast-parser.js";
 export * from "./code-map.js";
+export * from "./parsers/index.js";
+export * from "./rules-engine.js";
 export * from "./agent-roles.js";
 export * from "./orchestrator.js";
 export * from "./personas.js";
+export * from "./workflow-definitions.js";
 export * from "./tools/index.js";
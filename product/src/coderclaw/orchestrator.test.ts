@@ -1,5 +1,68 @@
-import { describe, expect, it } from "vitest";
-import { AgentOrchestrator } from "./orchestrator.js";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it, vi } from "vitest";
+import { AgentOrchestrator, type WorkflowStep } from "./orchestrator.js";
+import type {
+  AgentTransportDispatchPayload,
+  ApprovalRequest,
+  IAgentTransport,
+  IUsageService,
+  TestGateRequest,
+} from "./ports.js";
+import { loadWorkflowState } from "./project-workflows.js";
+import { addUsage, emptyUsage, type UsageTotals, type WorkflowBudget } from "./workflow-budget.js";
+
+const REVIEW_LOOP_STEPS: WorkflowStep[] = [
+  { id: "build", role: "code-creator", task: "Build it" },
+  { id: "review", role: "code-reviewer", task: "Review it", dependsOn: ["build"] },
+  {
+    id: "fix",
+    role: "code-creator",
+    task: "Fix it",
+    when: { step: "review", contains: "BLOCKER" },
+    loop: { to: "review", maxIterations: 3 },
+  },
+  { id: "ship", role: "documentation-agent", task: "Ship it", dependsOn: ["fix"] },
+];
+
+/** Fake usage service: every child session cost `perTask`, daily spend kept in memory. */
+function fixedUsage(
+  budget: WorkflowBudget,
+  perTask: UsageTotals,
+): IUsageService & { day: UsageTotals } {
+  const service = {
+    day: emptyUsage(),
+    collectSessionUsage: async () => ({ ...perTask, model: "test/model" }),
+    recordDailyUsage: async (usage: UsageTotals) => {
+      service.day = addUsage(service.day, usage);
+    },
+    getDailyUsage: async () => service.day,
+    getBudget: () => budget,
+  };
+  return service;
+}
+
+/** Fake transport that answers each dispatch with `reply(taskText)`. */
+function scriptedTransport(reply: (task: string) => string): IAgentTransport & {
+  calls: string[];
+} {
+  const calls: string[] = [];
+  return {
+    calls,
+    discover: async () => [],
+    dispatch: async (payload) => {
+      const task = /## Your Task\n\n(.*)/.exec(payload.input)?.[1] ?? payload.input;
+      calls.push(task);
+      return {
+        status: "accepted",
+        targetId: payload.target,
+        output: reply(task),
+        childSessionKey: `agent:main:subagent:${calls.length}`,
+      };
+    },
+  };
+}
 
 describe("AgentOrchestrator", () => {
   it("resolves step dependencies to task IDs", () => {
@@ -44,4 +107,394 @@ describe("AgentOrchestrator", () => {
     const runnableWhenRunning = orchestrator.getRunnableTasks(workflow.id);
     expect(runnableWhenRunning).toHaveLength(0);
   });
+
+  it("forwards the provider/model selected by project routing rules to dispatch", async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), "orchestrator-routing-"));
+    await fs.mkdir(path.join(root, ".coderClaw"), { recursive: true });
+    await fs.writeFile(
+      path.join(root, ".coderClaw", "routing-rules.json"),
+      JSON.stringify([
+        {
+          priority: 10,
+          condition: { type: "workflowType", matches: "security_audit" },
+          target: { type: "local", provider: "ollama", model: "qwen2.5-coder" },
+        },
+      ]),
+      "utf-8",
+    );
+
+    const payloads: AgentTransportDispatchPayload[] = [];
+    const orchestrator = new AgentOrchestrator();
+    orchestrator.configure({
+      agentTransport: {
+        discover: async () => [],
+        dispatch: async (payload) => {
+          payloads.push(payload);
+          return { status: "accepted", targetId: payload.target, output: "ok" };
+        },
+      },
+    });
+    await orchestrator.loadRoutingRules(root);
+
+    const audit = orchestrator.createWorkflow(
+      [
+        { role: "code-reviewer", task: "Audit" },
+        { role: "code-reviewer", task: "Pinned", model: "anthropic/claude-opus-4-6" },
+      ],
+      { type: "security_audit" },
+    );
+    await orchestrator.executeWorkflow(audit.id, {});
+    const feature = orchestrator.createWorkflow([{ role: "code-creator", task: "Build" }], {
+      type: "feature",
+    });
+    await orchestrator.executeWorkflow(feature.id, {});
+
+    const byInput = (text: string) => payloads.find((p) => p.input.includes(text));
+    expect(byInput("Audit")?.model).toBe("ollama/qwen2.5-coder");
+    expect(byInput("Pinned")?.model).toBe("anthropic/claude-opus-4-6");
+    // Built-in default rules never override the agent's configured model
+    expect(byInput("Build")?.model).toBeUndefined();
+    expect(byInput("Build")?.provider).toBeUndefined();
+    await fs.rm(root, { recursive: true });
+  });
+
+  it("resolves dependencies by step id before task text", () => {
+    const orchestrator = new AgentOrchestrator();
+    const workflow = orchestrator.createWorkflow([
+      { id: "a", role: "code-creator", task: "Same text" },
+      { id: "b", role: "code-creator", task: "Same text" },
+      { role: "code-reviewer", task: "Check", dependsOn: ["b"] },
+    ]);
+    const [, b, check] = Array.from(workflow.tasks.values());
+    expect(b?.stepId).toBe("b");
+    expect(check?.dependencies).toEqual([b?.id]);
+  });
+
+  it("rejects loops that do not point back to an ancestor", () => {
+    const orchestrator = new AgentOrchestrator();
+    expect(() =>
+      orchestrator.createWorkflow([
+        { id: "a", role: "code-creator", task: "A" },
+        { id: "b", role: "code-creator", task: "B", loop: { to: "a", maxIterations: 2 } },
+      ]),
+    ).toThrow(/not one of its ancestors/);
+  });
+
+  it("repeats a review-fix cycle until the review passes", async () => {
+    let reviews = 0;
+    const transport = scriptedTransport((task) => {
+      if (task === "Review it") {
+        reviews += 1;
+        return reviews < 3 ? "BLOCKER: missing null check" : "LGTM";
+      }
+      return `done: ${task}`;
+    });
+    const orchestrator = new AgentOrchestrator();
+    orchestrator.configure({ agentTransport: transport });
+    const workflow = orchestrator.createWorkflow(REVIEW_LOOP_STEPS);
+    await orchestrator.executeWorkflow(workflow.id, {});
+
+    expect(transport.calls).toEqual([
+      "Build it",
+      "Review it",
+      "Fix it",
+      "Review it",
+      "Fix it",
+      "Review it",
+      "Ship it",
+    ]);
+    const byStep = new Map(Array.from(workflow.tasks.values()).map((t) => [t.stepId, t]));
+    expect(workflow.status).toBe("completed");
+    expect(byStep.get("fix")?.status).toBe("skipped");
+    expect(byStep.get("review")?.iteration).toBe(2);
+  });
+
+  it("stops looping after maxIterations and round-trips through persistence", async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), "orchestrator-loop-"));
+    const creator = new AgentOrchestrator();
+    creator.setProjectRoot(root);
+    const created = creator.createWorkflow(REVIEW_LOOP_STEPS, { type: "review-loop" });
+    await vi.waitFor(async () => {
+      expect(await loadWorkflowState(root, created.id)).not.toBeNull();
+    });
+
+    // A fresh orchestrator (e.g. after a restart) resumes from disk
+    const transport = scriptedTransport((task) =>
+      task === "Review it" ? "BLOCKER: still broken" : "ok",
+    );
+    const resumer = new AgentOrchestrator();
+    resumer.setProjectRoot(root);
+    resumer.configure({ agentTransport: transport });
+    await resumer.resumeWorkflow(created.id, {});
+
+    expect(transport.calls.filter((c) => c === "Fix it")).toHaveLength(3);
+    expect(transport.calls.at(-1)).toBe("Ship it");
+    const resumed = resumer.getWorkflowStatus(created.id);
+    expect(resumed?.type).toBe("review-loop");
+    const fix = Array.from(resumed?.tasks.values() ?? []).find((t) => t.stepId === "fix");
+    expect(fix?.loop?.maxIterations).toBe(3);
+    expect(fix?.when?.contains).toBe("BLOCKER");
+    await vi.waitFor(async () => {
+      expect((await loadWorkflowState(root, created.id))?.status).toBe("completed");
+    });
+    await fs.rm(root, { recursive: true });
+  });
+
+  it("emits task transitions and workflow status changes to listeners", async () => {
+    const orchestrator = new AgentOrchestrator();
+    orchestrator.configure({
+      agentTransport: scriptedTransport((task) => (task === "Test it" ? "" : "ok")),
+    });
+    const events: string[] = [];
+    const unsubscribe = orchestrator.onWorkflowEvent((evt) => {
+      events.push(
+        evt.task
+          ? `${evt.task.stepId}:${evt.task.previousStatus}->${evt.task.status}`
+          : `workflow:${evt.status}`,
+      );
+    });
+    const workflow = orchestrator.createWorkflow(
+      [
+        { id: "build", role: "code-creator", task: "Build it" },
+        { id: "test", role: "test-generator", task: "Test it", dependsOn: ["build"] },
+        {
+          id: "fix",
+          role: "code-creator",
+          task: "Fix it",
+          when: { step: "test", contains: "FAIL" },
+        },
+      ],
+      { type: "custom" },
+    );
+    await orchestrator.executeWorkflow(workflow.id, {});
+    unsubscribe();
+    orchestrator.cancelWorkflow(workflow.id);
+
+    expect(events).toEqual([
+      "workflow:running",
+      "build:pending->running",
+      "build:running->completed",
+      "test:pending->running",
+      "test:running->completed",
+      "fix:pending->skipped",
+      "workflow:completed",
+    ]);
+  });
+
+  it("stops a multi-step workflow cancelled while its first step runs", async () => {
+    let finishDispatch: () => void = () => {};
+    const dispatched: string[] = [];
+    const transport: IAgentTransport = {
+      discover: async () => [],
+      dispatch: async (payload) => {
+        dispatched.push(payload.target);
+        await new Promise<void>((resolve) => {
+          finishDispatch = resolve;
+        });
+        return { status: "accepted", targetId: payload.target, output: "done" };
+      },
+    };
+    const orchestrator = new AgentOrchestrator();
+    orchestrator.configure({ agentTransport: transport });
+    const workflow = orchestrator.createWorkflow([
+      { id: "a", role: "code-creator", task: "A" },
+      { id: "b", role: "code-reviewer", task: "B", dependsOn: ["a"] },
+    ]);
+    const [first, second] = Array.from(workflow.tasks.values());
+    const run = orchestrator.executeWorkflow(workflow.id, {});
+    await vi.waitFor(() => expect(first?.status).toBe("running"));
+
+    orchestrator.cancelWorkflow(workflow.id);
+    finishDispatch();
+    await expect(run).resolves.toBeInstanceOf(Map);
+
+    expect(dispatched).toEqual(["code-creator"]);
+    expect(first?.status).toBe("cancelled");
+    expect(second?.status).toBe("cancelled");
+    expect(workflow.status).toBe("cancelled");
+  });
+
+  it("refuses to cancel a workflow that already finished", async () => {
+    const orchestrator = new AgentOrchestrator();
+    orchestrator.configure({ agentTransport: scriptedTransport(() => "ok") });
+    const workflow = orchestrator.createWorkflow([{ role: "code-creator", task: "A" }]);
+    await orchestrator.executeWorkflow(workflow.id, {});
+
+    expect(orchestrator.cancelWorkflow(workflow.id)).toBe(false);
+    expect(workflow.status).toBe("completed");
+    expect(Array.from(workflow.tasks.values(), (task) => task.status)).toEqual(["completed"]);
+  });
+
+  it("waits for approval checkpoints and skips the rest of the branch on rejection", async () => {
+    const steps: WorkflowStep[] = [
+      { id: "plan", role: "architecture-advisor", task: "Plan it" },
+      {
+        id: "apply",
+        role: "code-creator",
+        task: "Apply it",
+        dependsOn: ["plan"],
+        approval: { message: "Apply the plan?" },
+      },
+      { id: "pr", role: "documentation-agent", task: "Open PR", dependsOn: ["apply"] },
+    ];
+    const requests: ApprovalRequest[] = [];
+    const run = async (decision: "approved" | "rejected") => {
+      const transport = scriptedTransport((task) => `done: ${task}`);
+      const orchestrator = new AgentOrchestrator();
+      orchestrator.configure({
+        agentTransport: transport,
+        approvals: {
+          request: async (opts) => {
+            requests.push(opts);
+            return decision;
+          },
+        },
+      });
+      const workflow = orchestrator.createWorkflow(steps);
+      await orchestrator.executeWorkflow(workflow.id, {});
+      const byStep = new Map(Array.from(workflow.tasks.values()).map((t) => [t.stepId, t]));
+      return { calls: transport.calls, byStep };
+    };
+
+    const approved = await run("approved");
+    expect(approved.calls).toEqual(["Plan it", "Apply it", "Open PR"]);
+    expect(requests[0]).toMatchObject({ actionType: "workflow.step" });
+    expect(requests[0]?.description).toContain("Apply the plan?");
+    expect(requests[0]?.description).toContain("done: Plan it");
+
+    const rejected = await run("rejected");
+    expect(rejected.calls).toEqual(["Plan it"]);
+    expect(rejected.byStep.get("apply")?.status).toBe("failed");
+    expect(rejected.byStep.get("apply")?.error).toContain("Approval rejected");
+    expect(rejected.byStep.get("pr")?.status).toBe("skipped");
+  });
+
+  it("requires a positive integer approval timeout", () => {
+    const orchestrator = new AgentOrchestrator();
+    expect(() =>
+      orchestrator.createWorkflow([
+        { id: "a", role: "code-creator", task: "A", approval: { timeoutMs: 0 } },
+      ]),
+    ).toThrow(/approval.timeoutMs/);
+  });
+
+  it("fails a step whose test gate is red and appends green results to its output", async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), "orchestrator-tests-"));
+    const steps: WorkflowStep[] = [
+      { id: "build", role: "code-creator", task: "Build it", testGate: true },
+      {
+        id: "fix",
+        role: "code-creator",
+        task: "Fix it",
+        dependsOn: ["build"],
+        testGate: { files: ["src/math.test.ts"] },
+      },
+      { id: "ship", role: "documentation-agent", task: "Ship it", dependsOn: ["fix"] },
+    ];
+    const requests: TestGateRequest[] = [];
+    const transport = scriptedTransport((task) => `done: ${task}`);
+    const orchestrator = new AgentOrchestrator();
+    orchestrator.setProjectRoot(root);
+    orchestrator.configure({
+      agentTransport: transport,
+      testRunner: {
+        run: async (request) => {
+          requests.push(request);
+          return request.files
+            ? { passed: false, summary: "vitest: 1 failed, 3 passed (0.2s)" }
+            : { passed: true, summary: "vitest: 4 passed (0.3s)" };
+        },
+      },
+    });
+    const workflow = orchestrator.createWorkflow(steps);
+    await orchestrator.executeWorkflow(workflow.id, {});
+
+    const byStep = new Map(Array.from(workflow.tasks.values()).map((t) => [t.stepId, t]));
+    expect(requests).toEqual([
+      { workspaceDir: root, workflowId: workflow.id, taskId: byStep.get("build")?.id },
+      {
+        workspaceDir: root,
+        files: ["src/math.test.ts"],
+        workflowId: workflow.id,
+        taskId: byStep.get("fix")?.id,
+      },
+    ]);
+    expect(byStep.get("build")?.output).toBe(
+      "done: Build it\n\n[Test gate]\nvitest: 4 passed (0.3s)",
+    );
+    expect(byStep.get("fix")?.status).toBe("failed");
+    expect(byStep.get("fix")?.error).toBe("Test gate failed: vitest: 1 failed, 3 passed (0.2s)");
+    expect(byStep.get("ship")?.status).toBe("skipped");
+    expect(transport.calls).toEqual(["Build it", "Fix it"]);
+  });
+
+  it("attributes session usage to tasks and pauses when the workflow cap is reached", async () => {
+    const transport = scriptedTransport((task) => `done: ${task}`);
+    const perTask = { inputTokens: 800, outputTokens: 200, totalTokens: 1_000, costUsd: 0.5 };
+    const usage = fixedUsage({ workflow: { maxUsd: 1 } }, perTask);
+    const orchestrator = new AgentOrchestrator();
+    orchestrator.configure({ agentTransport: transport, usage });
+    const workflow = orchestrator.createWorkflow([
+      { id: "a", role: "code-creator", task: "A" },
+      { id: "b", role: "code-reviewer", task: "B", dependsOn: ["a"] },
+      { id: "c", role: "test-generator", task: "C", dependsOn: ["b"] },
+    ]);
+    await orchestrator.executeWorkflow(workflow.id, {});
+
+    const byStep = new Map(Array.from(workflow.tasks.values()).map((t) => [t.stepId, t]));
+    expect(transport.calls).toEqual(["A", "B"]);
+    expect(byStep.get("a")?.usage).toEqual({ ...perTask, model: "test/model" });
+    expect(byStep.get("c")?.status).toBe("pending");
+    expect(workflow.status).toBe("pending");
+    expect(workflow.pausedReason).toBe(
+      "Budget exceeded: Workflow spend $1.00 reached the $1.00 cap",
+    );
+    expect(usage.day.totalTokens).toBe(2_000);
+  });
+
+  it("records usage for a dispatch that failed after its session started", async () => {
+    const transport: IAgentTransport = {
+      discover: async () => [],
+      dispatch: async (payload) => ({
+        status: "failed",
+        error: "agent run aborted",
+        targetId: payload.target,
+        childSessionKey: "agent:main:subagent:1",
+      }),
+    };
+    const perTask = { inputTokens: 400, outputTokens: 100, totalTokens: 500, costUsd: 0.05 };
+    const usage = fixedUsage({}, perTask);
+    const orchestrator = new AgentOrchestrator();
+    orchestrator.configure({ agentTransport: transport, usage });
+    const workflow = orchestrator.createWorkflow([{ id: "a", role: "code-creator", task: "A" }]);
+    await orchestrator.executeWorkflow(workflow.id, {});
+
+    const task = Array.from(workflow.tasks.values())[0];
+    expect(task?.status).toBe("failed");
+    expect(task?.childSessionKey).toBe("agent:main:subagent:1");
+    expect(task?.usage).toEqual({ ...perTask, model: "test/model" });
+    expect(usage.day.totalTokens).toBe(500);
+  });
+
+  it("fails the remaining tasks of an agent over its cap when configured to", async () => {
+    const transport = scriptedTransport((task) => `done: ${task}`);
+    const usage = fixedUsage(
+      { agent: { maxTokens: 1_000 }, onExceeded: "fail" },
+      { inputTokens: 1_000, outputTokens: 0, totalTokens: 1_000, costUsd: 0 },
+    );
+    const orchestrator = new AgentOrchestrator();
+    orchestrator.configure({ agentTransport: transport, usage });
+    const workflow = orchestrator.createWorkflow([
+      { id: "a", role: "code-creator", task: "A" },
+      { id: "b", role: "code-creator", task: "B", dependsOn: ["a"] },
+      { id: "docs", role: "documentation-agent", task: "Docs", dependsOn: ["a"] },
+    ]);
+    await orchestrator.executeWorkflow(workflow.id, {});
+
+    const byStep = new Map(Array.from(workflow.tasks.values()).map((t) => [t.stepId, t]));
+    expect(transport.calls).toEqual(["A", "Docs"]);
+    expect(byStep.get("b")?.status).toBe("failed");
+    expect(byStep.get("b")?.error).toContain("Agent code-creator usage of 1,000 tokens");
+    expect(workflow.status).toBe("failed");
+  });
 });
@@ -6,13 +6,21 @@ import crypto from "node:crypto";
 import fs from "node:fs/promises";
 import path from "node:path";
 import type { SpawnSubagentContext } from "../agents/subagent-spawn.js";
-import { logDebug } from "../logger.js";
+import { logDebug, logWarn } from "../logger.js";
+import { runCommandWithTimeout } from "../process/exec.js";
 import { findAgentRole } from "./agent-roles.js";
 import type {
   AgentTransportDispatchResult,
   IAgentTransport,
   IAgentMemoryService,
+  IApprovalService,
+  ITaskWorkspaceService,
   ITelemetryService,
+  ITestRunner,
+  IUsageService,
+  IWorkflowHooks,
+  WorkflowHookContext,
+  WorkflowHookTask,
 } from "./ports.js";
 import {
   saveWorkflowState,
@@ -21,27 +29,71 @@ import {
   type PersistedWorkflow,
   type PersistedTask,
 } from "./project-context.js";
+import { resolveCoderClawDir } from "./project-dir.js";
 import type { IRelayService } from "./relay-service.js";
 import {
   DEFAULT_ROUTING_RULES,
+  DEFAULT_ROUTING_TARGET,
+  estimateRoutingTokens,
+  matchRoutingRule,
   parseRoutingRules,
-  resolveRouting,
+  routingNeedsChangedFiles,
+  routingTargetModel,
+  type RoutingContext,
   type RoutingRule,
 } from "./routing-rules.js";
+import {
+  addUsage,
+  emptyUsage,
+  findBudgetBreach,
+  hasBudgetCaps,
+  summarizeWorkflowUsage,
+  type BudgetBreach,
+  type TaskUsage,
+  type UsageTotals,
+} from "./workflow-budget.js";
+import {
+  instantiateWorkflowDefinition,
+  loadWorkflowDefinitionsFromDir,
+  type WorkflowDefinition,
+} from "./workflow-definitions.js";
 
 export type { SpawnSubagentContext } from "../agents/subagent-spawn.js";
 
-export type TaskStatus = "pending" | "running" | "completed" | "failed" | "cancelled";
+export type TaskStatus = "pending" | "running" | "completed" | "failed" | "skipped" | "cancelled";
 
 /** Valid status transitions for a Task. Encodes the domain invariant in one place. */
 const VALID_TASK_TRANSITIONS: Record<TaskStatus, readonly TaskStatus[]> = {
-  pending: ["running", "cancelled"],
+  pending: ["running", "skipped", "failed", "cancelled"], // failed: held back by a spend cap
   running: ["completed", "failed", "cancelled"],
-  completed: [],
+  completed: ["pending"], // re-run by a loop edge
   failed: ["pending"], // allow retry
+  skipped: ["pending"], // re-run by a loop edge
   cancelled: [],
 };
 
+/** Statuses that satisfy a dependency edge. */
+function isSettledTaskStatus(status: TaskStatus): boolean {
+  return status === "completed" || status === "failed" || status === "skipped";
+}
+
+/** Shape a task's usage for the telemetry task-end event. */
+function toTelemetryUsage(usage: TaskUsage | undefined) {
+  return usage
+    ? {
+        model: usage.model,
+        inputTokens: usage.inputTokens,
+        outputTokens: usage.outputTokens,
+        estimatedCostUsd: usage.costUsd,
+      }
+    : undefined;
+}
+
+/** Read through a call so checks after an `await` are not narrowed away. */
+function isCancelled(workflow: Workflow): boolean {
+  return workflow.status === "cancelled";
+}
+
 /** Returns true when transitioning `current → next` is a valid domain state change. */
 export function canTransitionTaskTo(current: TaskStatus, next: TaskStatus): boolean {
   return (VALID_TASK_TRANSITIONS[current] as readonly string[]).includes(next);
@@ -56,17 +108,108 @@ export type Task = {
   output?: string;
   error?: string;
   childSessionKey?: string;
+  /** Per-task model override forwarded to the spawned sub-agent. */
+  model?: string;
+  /** Per-task thinking level override forwarded to the spawned sub-agent. */
+  thinking?: string;
+  /** Task branch when the task ran in an isolated worktree. */
+  branch?: string;
   createdAt: Date;
   startedAt?: Date;
   completedAt?: Date;
   dependencies: string[];
   dependents: string[];
+  /** Step id this task was created from, when the step declared one. */
+  stepId?: string;
+  /** Conditional edge, resolved to a task id. Unmet → the task is skipped. */
+  when?: TaskCondition;
+  /** Loop edge, resolved to a task id. */
+  loop?: TaskLoop;
+  /** How many times a loop edge has reset this task (0 on the first run). */
+  iteration?: number;
+  /** Approval checkpoint: the task waits for a human decision before it runs. */
+  approval?: StepApproval;
+  /** Test gate: the task only completes when the project's tests pass afterwards. */
+  testGate?: StepTestGate;
+  /** Tokens and estimated cost of the task's agent, summed over loop iterations. */
+  usage?: TaskUsage;
+};
+
+/** Output predicate shared by step conditions and their task-level form. */
+export type OutputPredicate = {
+  /** Output must contain this substring. */
+  contains?: string;
+  /** Output must not contain this substring. */
+  notContains?: string;
+  /** Output must match this regular expression source. */
+  matches?: string;
+};
+
+/** Run a step only when a prior step's output satisfies the predicate. */
+export type StepCondition = OutputPredicate & {
+  /** Step id (or, for legacy steps, task text) whose output is inspected. */
+  step: string;
+};
+
+/**
+ * Bounded loop: after this step completes, re-run the cycle from step `to`
+ * through this step, up to `maxIterations` runs in total. Combine with a
+ * `when` condition on this step to stop once the cycle passes, e.g. a
+ * code-reviewer → code-creator fix cycle that ends when no BLOCKER remains.
+ */
+export type StepLoop = {
+  /** Step id (or task text) the loop returns to; must be an ancestor of this step. */
+  to: string;
+  maxIterations: number;
+};
+
+/** Pause before a step runs until a human approves it. */
+export type StepApproval = {
+  /** Shown to the approver instead of the step's task text. */
+  message?: string;
+  /** How long to wait for a decision; the step fails when it expires. */
+  timeoutMs?: number;
+};
+
+/**
+ * Run the project's tests after a step and fail it unless they pass. Runs in
+ * the task's worktree before it is merged, so red changes never reach the
+ * workflow branch.
+ */
+export type StepTestGate = {
+  /** Limit the run to these test files, directories or packages. */
+  files?: string[];
+  /** Only run tests whose name matches. */
+  testNamePattern?: string;
 };
 
+export type TaskCondition = OutputPredicate & { taskId: string };
+export type TaskLoop = { to: string; maxIterations: number };
+
 export type WorkflowStep = {
+  /** Stable identifier referenced by other steps' `dependsOn`, `when` and `loop`. */
+  id?: string;
   role: string;
   task: string;
+  /** Step ids this step waits for. Task text is still accepted for steps without ids. */
   dependsOn?: string[];
+  model?: string;
+  thinking?: string;
+  when?: StepCondition;
+  loop?: StepLoop;
+  /** Approval checkpoint before this step runs, e.g. before changes are applied or a PR is opened. */
+  approval?: boolean | StepApproval;
+  /** Require the tests to be green after this step; `true` runs the whole suite. */
+  testGate?: boolean | StepTestGate;
+};
+
+/** A workflow type the orchestrator can instantiate by name. */
+export type WorkflowTypeInfo = {
+  name: string;
+  source: "builtin" | "project";
+  description?: string;
+  /** Present for project definitions: the YAML file it came from. */
+  filePath?: string;
 };
 
 export type Workflow = {
@@ -75,6 +218,33 @@ export type Workflow = {
   tasks: Map<string, Task>;
   status: TaskStatus;
   createdAt: Date;
+  /** Workflow type the steps were resolved from ("feature", a project workflow name, …). */
+  type?: string;
+  /** Branch holding the integrated task results when tasks ran in isolated worktrees. */
+  branch?: string;
+  /** Why the last run stopped with tasks still pending (a spend cap was hit). */
+  pausedReason?: string;
+};
+
+/**
+ * Status change observed on a workflow. Task transitions carry `task`;
+ * workflow-level status changes (start, finish, cancel) omit it.
+ */
+export type WorkflowEvent = {
+  workflowId: string;
+  /** Workflow status after the change. */
+  status: TaskStatus;
+  type?: string;
+  ts: number;
+  task?: {
+    id: string;
+    stepId?: string;
+    agentRole: string;
+    status: TaskStatus;
+    previousStatus: TaskStatus;
+    iteration?: number;
+    error?: string;
+  };
 };
 
 /** Partial port injection bag — pass to `globalOrchestrator.configure()` at startup. */
@@ -83,6 +253,11 @@ export type OrchestratorConfig = {
   memoryService?: IAgentMemoryService | null;
   agentTransport?: IAgentTransport | null;
   relayService?: IRelayService;
+  taskWorkspaces?: ITaskWorkspaceService | null;
+  approvals?: IApprovalService | null;
+  usage?: IUsageService | null;
+  hooks?: IWorkflowHooks | null;
+  testRunner?: ITestRunner | null;
 };
 
 /**
@@ -94,6 +269,8 @@ export class AgentOrchestrator {
   private projectRoot: string | null = null;
   /** Merged routing rules (defaults + user-defined from .coderClaw/routing-rules.json). */
   private routingRules: RoutingRule[] = DEFAULT_ROUTING_RULES;
+  /** Declarative workflow types from .coderClaw/workflows/*.yaml, keyed by name. */
+  private workflowDefinitions = new Map<string, WorkflowDefinition>();
   /** Relay service reference for cross-claw context fetching (P4-2). */
   private relayService: IRelayService | null = null;
   /** Domain port: telemetry — injected by server-startup after credentials are known. */
@@ -104,9 +281,24 @@ export class AgentOrchestrator {
    *  Always wired by the gateway (local-only when no API key, composite when
    *  BUILDERFORCE_API_KEY is present). */
   private agentTransport: IAgentTransport | null = null;
+  /** Domain port: isolated per-task working trees. When null, all tasks share
+   *  the project working tree. */
+  private taskWorkspaces: ITaskWorkspaceService | null = null;
+  /** Domain port: human approvals for step checkpoints. When null, checkpoints
+   *  are passed through with a warning. */
+  private approvals: IApprovalService | null = null;
+  /** Domain port: per-task usage accounting and spend caps. When null, usage
+   *  is not tracked and no caps apply. */
+  private usage: IUsageService | null = null;
+  /** Domain port: plugin lifecycle hooks. When null, no hooks run. */
+  private hooks: IWorkflowHooks | null = null;
+  /** Domain port: test runs for step test gates. When null, gates are passed
+   *  through with a warning. */
+  private testRunner: ITestRunner | null = null;
   /** Per-task spawn context, exposed to local transports via `currentSpawnContext()`.
    *  Single-threaded by virtue of the orchestrator's serial executeTask loop. */
   private activeSpawnContext: SpawnSubagentContext | null = null;
+  private readonly eventListeners = new Set<(evt: WorkflowEvent) => void>();
 
   /** Enable disk persistence for workflows and workflow telemetry. Call at gateway startup. */
   setProjectRoot(
@@ -119,17 +311,21 @@ export class AgentOrchestrator {
     this.telemetry?.init({ projectRoot: root, clawId, linkApiUrl, linkApiKey });
     // Load user-defined routing rules asynchronously — non-fatal if absent
     void this.loadRoutingRules(root);
+    void this.loadWorkflowDefinitions(root);
   }
 
   /**
    * Load routing rules from `.coderClaw/routing-rules.json` and merge with defaults.
    * User-defined rules are prepended (higher effective priority) over the built-in defaults.
    */
-  private async loadRoutingRules(projectRoot: string): Promise<void> {
+  async loadRoutingRules(projectRoot: string): Promise<void> {
     const filePath = path.join(projectRoot, ".coderClaw", "routing-rules.json");
     try {
       const raw = await fs.readFile(filePath, "utf-8");
-      const parsed = parseRoutingRules(JSON.parse(raw));
+      const parsed = parseRoutingRules(JSON.parse(raw), {
+        onInvalid: (index, error) =>
+          logWarn(`[orchestrator] routing rule ${index + 1} in ${filePath} ignored: ${error}`),
+      });
       if (parsed.length > 0) {
         // User rules come first (higher priority); then defaults as fallback
         this.routingRules = [...parsed, ...DEFAULT_ROUTING_RULES];
@@ -140,6 +336,80 @@ export class AgentOrchestrator {
     }
   }
 
+  /**
+   * (Re)load declarative workflow definitions from `.coderClaw/workflows/`.
+   * Invalid files and names that collide with built-in workflow types are
+   * skipped with a warning; the remaining definitions replace any previously
+   * loaded set. Returns the loaded definitions.
+   */
+  async loadWorkflowDefinitions(projectRoot: string): Promise<WorkflowDefinition[]> {
+    const dir = resolveCoderClawDir(projectRoot).workflowsDir;
+    const { definitions, errors } = await loadWorkflowDefinitionsFromDir(dir);
+    for (const err of errors) {
+      logWarn(
+        `[orchestrator] invalid workflow definition ${err.filePath}: ${err.errors.join("; ")}`,
+      );
+    }
+    const loaded = new Map<string, WorkflowDefinition>();
+    for (const def of definitions) {
+      if (def.name in WORKFLOW_REGISTRY || def.name === "custom") {
+        logWarn(
+          `[orchestrator] workflow definition ${def.filePath} ignored: "${def.name}" is a built-in workflow type`,
+        );
+        continue;
+      }
+      loaded.set(def.name, def);
+    }
+    this.workflowDefinitions = loaded;
+    if (loaded.size > 0) {
+      logDebug(`[orchestrator] loaded ${loaded.size} workflow definition(s) from ${dir}`);
+    }
+    return Array.from(loaded.values());
+  }
+
+  /** Look up a project workflow definition by name. */
+  getWorkflowDefinition(name: string): WorkflowDefinition | null {
+    return this.workflowDefinitions.get(name) ?? null;
+  }
+
+  /** All workflow types accepted by `resolveWorkflowSteps()`: built-ins first, then project definitions. */
+  listWorkflowTypes(): WorkflowTypeInfo[] {
+    const builtins: WorkflowTypeInfo[] = Object.keys(WORKFLOW_REGISTRY).map((name) => ({
+      name,
+      source: "builtin",
+    }));
+    const project: WorkflowTypeInfo[] = Array.from(this.workflowDefinitions.values())
+      .toSorted((a, b) => a.name.localeCompare(b.name))
+      .map((def) => ({
+        name: def.name,
+        source: "project",
+        description: def.description,
+        filePath: def.filePath,
+      }));
+    return [...builtins, ...project];
+  }
+
+  /**
+   * Expand a named workflow type (built-in factory or project definition) into
+   * steps. Returns null for unknown types; throws when a project definition's
+   * required inputs are missing.
+   */
+  resolveWorkflowSteps(
+    type: string,
+    description: string,
+    inputs?: Record<string, string>,
+  ): WorkflowStep[] | null {
+    const factory = WORKFLOW_REGISTRY[type];
+    if (factory) {
+      return factory(description);
+    }
+    const definition = this.workflowDefinitions.get(type);
+    if (definition) {
+      return instantiateWorkflowDefinition(definition, description, inputs);
+    }
+    return null;
+  }
+
   /**
    * Inject one or more domain ports in a single call.
    * Preferred over the individual setter shims below.
@@ -158,6 +428,21 @@ export class AgentOrchestrator {
     if (config.relayService !== undefined) {
       this.relayService = config.relayService;
     }
+    if (config.taskWorkspaces !== undefined) {
+      this.taskWorkspaces = config.taskWorkspaces;
+    }
+    if (config.approvals !== undefined) {
+      this.approvals = config.approvals;
+    }
+    if (config.usage !== undefined) {
+      this.usage = config.usage;
+    }
+    if (config.hooks !== undefined) {
+      this.hooks = config.hooks;
+    }
+    if (config.testRunner !== undefined) {
+      this.testRunner = config.testRunner;
+    }
   }
 
   // ── Single-port shims (kept for backward compatibility) ──────────────────────
@@ -191,9 +476,14 @@ export class AgentOrchestrator {
   }
 
   /**
-   * Create a new workflow
+   * Create a new workflow.
+   *
+   * Step references (`dependsOn`, `when.step`, `loop.to`) resolve against step
+   * ids first and fall back to exact task text for steps without ids. Throws
+   * when a condition or loop references an unknown step or a loop does not
+   * point back to an ancestor.
    */
-  createWorkflow(steps: WorkflowStep[]): Workflow {
+  createWorkflow(steps: WorkflowStep[], options: { type?: string } = {}): Workflow {
     const id = crypto.randomUUID();
     const workflow: Workflow = {
       id,
@@ -201,58 +491,111 @@ export class AgentOrchestrator {
       tasks: new Map(),
       status: "pending",
       createdAt: new Date(),
+      ...(options.type ? { type: options.type } : {}),
     };
 
-    // Create tasks from steps
+    const seenStepIds = new Set<string>();
     for (const step of steps) {
-      const taskId = crypto.randomUUID();
-      const task: Task = {
+      if (step.id !== undefined) {
+        if (seenStepIds.has(step.id)) {
+          throw new Error(`Duplicate workflow step id "${step.id}"`);
+        }
+        seenStepIds.add(step.id);
+      }
+    }
+
+    // Create tasks from steps
+    const taskIds = steps.map(() => crypto.randomUUID());
+    steps.forEach((step, index) => {
+      const taskId = taskIds[index];
+      workflow.tasks.set(taskId, {
         id: taskId,
         description: step.task,
         agentRole: step.role,
         status: "pending",
         input: step.task,
-        dependencies: step.dependsOn || [],
+        model: step.model,
+        thinking: step.thinking,
+        dependencies: [],
         dependents: [],
         createdAt: new Date(),
-      };
-      workflow.tasks.set(taskId, task);
-    }
+        ...(step.id !== undefined ? { stepId: step.id } : {}),
+        ...(step.approval ? { approval: step.approval === true ? {} : step.approval } : {}),
+        ...(step.testGate ? { testGate: step.testGate === true ? {} : step.testGate } : {}),
+      });
+    });
 
-    // Build dependent relationships
-    const stepToTaskId = new Map<number, string>();
-    let index = 0;
-    for (const [taskId] of workflow.tasks) {
-      stepToTaskId.set(index++, taskId);
-    }
+    const resolveStepRef = (ref: string): string | undefined => {
+      let index = steps.findIndex((s) => s.id !== undefined && s.id === ref);
+      if (index === -1) {
+        index = steps.findIndex((s) => s.task === ref);
+      }
+      return index === -1 ? undefined : taskIds[index];
+    };
+    const label = (step: WorkflowStep) => step.id ?? step.task.slice(0, 60);
 
-    index = 0;
     for (const step of steps) {
-      const taskId = stepToTaskId.get(index++)!;
-      const task = workflow.tasks.get(taskId);
-      if (!task) {
-        continue;
+      const timeoutMs = typeof step.approval === "object" ? step.approval.timeoutMs : undefined;
+      if (timeoutMs !== undefined && (!Number.isInteger(timeoutMs) || timeoutMs < 1)) {
+        throw new Error(`Step "${label(step)}" needs a positive integer approval.timeoutMs`);
       }
-      const resolvedDependencies: string[] = [];
-
-      if (step.dependsOn) {
-        for (const depStepId of step.dependsOn) {
-          const depIndex = steps.findIndex((s) => s.task === depStepId);
-          if (depIndex !== -1) {
-            const depTaskId = stepToTaskId.get(depIndex);
-            if (depTaskId) {
-              resolvedDependencies.push(depTaskId);
-              const depTask = workflow.tasks.get(depTaskId);
-              if (depTask && !depTask.dependents.includes(taskId)) {
-                depTask.dependents.push(taskId);
-              }
-            }
+    }
+
+    // Build dependency edges; a condition on a step implies a dependency on it
+    steps.forEach((step, index) => {
+      const task = workflow.tasks.get(taskIds[index])!;
+      const addDependency = (depTaskId: string) => {
+        if (depTaskId === task.id || task.dependencies.includes(depTaskId)) {
+          return;
+        }
+        task.dependencies.push(depTaskId);
+        workflow.tasks.get(depTaskId)?.dependents.push(task.id);
+      };
+
+      for (const ref of step.dependsOn ?? []) {
+        const depTaskId = resolveStepRef(ref);
+        if (depTaskId) {
+          addDependency(depTaskId);
+        }
+      }
+
+      if (step.when) {
+        const { step: ref, ...predicate } = step.when;
+        const condTaskId = resolveStepRef(ref);
+        if (!condTaskId || condTaskId === task.id) {
+          throw new Error(`Step "${label(step)}" has a condition on unknown step "${ref}"`);
+        }
+        if (predicate.matches !== undefined) {
+          try {
+            new RegExp(predicate.matches);
+          } catch {
+            throw new Error(
+              `Step "${label(step)}" has an invalid condition pattern: ${predicate.matches}`,
+            );
           }
         }
+        addDependency(condTaskId);
+        task.when = { taskId: condTaskId, ...predicate };
       }
+    });
 
-      task.dependencies = resolvedDependencies;
-    }
+    // Loop edges need the complete dependency graph to validate
+    steps.forEach((step, index) => {
+      if (!step.loop) {
+        return;
+      }
+      const task = workflow.tasks.get(taskIds[index])!;
+      const toTaskId = resolveStepRef(step.loop.to);
+      if (!toTaskId || !this.collectAncestors(workflow, task.id).has(toTaskId)) {
+        throw new Error(
+          `Step "${label(step)}" loops to "${step.loop.to}", which is not one of its ancestors`,
+        );
+      }
+      if (!Number.isInteger(step.loop.maxIterations) || step.loop.maxIterations < 1) {
+        throw new Error(`Step "${label(step)}" needs a positive integer loop.maxIterations`);
+      }
+      task.loop = { to: toTaskId, maxIterations: step.loop.maxIterations };
+    });
 
     this.workflows.set(id, workflow);
     this.persistWorkflow(workflow);
@@ -271,14 +614,32 @@ export class AgentOrchestrator {
       throw new Error(`Workflow ${workflowId} not found`);
     }
 
-    workflow.status = "running";
+    const runStartedAt = Date.now();
+    workflow.pausedReason = undefined;
+    this.setWorkflowStatus(workflow, "running");
     this.telemetry?.emitWorkflowStart(workflowId);
     const results = new Map<string, string>();
 
-    // Execute tasks in dependency order
-    const executedTasks = new Set<string>();
+    // Execute tasks in dependency order. Tasks settled in an earlier run
+    // (resumed workflows) already satisfy their dependents.
+    const executedTasks = new Set<string>(
+      Array.from(workflow.tasks.values())
+        .filter((task) => isSettledTaskStatus(task.status))
+        .map((task) => task.id),
+    );
+    await this.notifyHooks((hooks) =>
+      hooks.workflowStart(
+        {
+          taskCount: workflow.tasks.size,
+          resumed: executedTasks.size > 0,
+          ...(context.agentSessionKey ? { sessionKey: context.agentSessionKey } : {}),
+        },
+        this.hookContext(workflow),
+      ),
+    );
 
-    while (executedTasks.size < workflow.tasks.size) {
+    // Cancelled tasks never settle, so stop before they look stuck.
+    while (executedTasks.size < workflow.tasks.size && !isCancelled(workflow)) {
       const nextTasks = Array.from(workflow.tasks.values()).filter(
         (task) =>
           task.status === "pending" && task.dependencies.every((depId) => executedTasks.has(depId)),
@@ -287,12 +648,27 @@ export class AgentOrchestrator {
       if (nextTasks.length === 0) {
         // No more tasks can run - check if we're done or stuck
         const remainingTasks = Array.from(workflow.tasks.values()).filter(
-          (task) => task.status !== "completed" && task.status !== "failed",
+          (task) => !isSettledTaskStatus(task.status),
         );
 
         if (remainingTasks.length > 0) {
-          workflow.status = "failed";
-          throw new Error(`Workflow stuck - cannot execute remaining tasks`);
+          const error = "Workflow stuck - cannot execute remaining tasks";
+          await this.notifyHooks((hooks) =>
+            hooks.workflowStuck(
+              {
+                tasks: remainingTasks.map((task) => ({
+                  ...this.hookTask(task),
+                  status: task.status,
+                  waitingOn: task.dependencies.filter((depId) => !executedTasks.has(depId)),
+                })),
+              },
+              this.hookContext(workflow),
+            ),
+          );
+          this.setWorkflowStatus(workflow, "failed");
+          await this.releaseTaskWorkspaces(workflow);
+          await this.notifyWorkflowEnd(workflow, runStartedAt, error);
+          throw new Error(error);
         }
         break;
       }
@@ -300,17 +676,46 @@ export class AgentOrchestrator {
       // Execute tasks in parallel when possible
       await Promise.all(
         nextTasks.map(async (task) => {
+          if (task.when && !this.isConditionMet(task.when)) {
+            this.skipTask(task, workflow);
+            executedTasks.add(task.id);
+            return;
+          }
+          const breach = await this.checkBudget(workflow, task);
+          if (breach) {
+            if (this.stopForBudget(task, workflow, breach) === "failed") {
+              executedTasks.add(task.id);
+            }
+            return;
+          }
           try {
             const result = await this.executeTask(task, workflow, context);
             results.set(task.id, result);
             executedTasks.add(task.id);
+            this.applyLoop(task, workflow, executedTasks);
           } catch (error) {
-            task.status = "failed";
             task.error = error instanceof Error ? error.message : String(error);
+            this.setTaskStatus(workflow, task, "failed");
             executedTasks.add(task.id);
           }
         }),
       );
+      if (workflow.pausedReason) {
+        break;
+      }
+    }
+
+    if (isCancelled(workflow)) {
+      // cancelWorkflow() ran while tasks were in flight and already cleaned up.
+      return results;
+    }
+
+    if (workflow.pausedReason) {
+      // Remaining tasks stay pending; resumeWorkflow() picks them up once the cap allows.
+      await this.releaseTaskWorkspaces(workflow);
+      this.setWorkflowStatus(workflow, "pending");
+      this.persistWorkflow(workflow);
+      return results;
     }
 
     // Check if all tasks completed successfully
@@ -318,17 +723,140 @@ export class AgentOrchestrator {
       (task) => task.status === "failed",
     );
 
-    if (failedTasks.length > 0) {
-      workflow.status = "failed";
-    } else {
-      workflow.status = "completed";
-    }
+    await this.releaseTaskWorkspaces(workflow);
+    this.setWorkflowStatus(workflow, failedTasks.length > 0 ? "failed" : "completed");
     this.telemetry?.emitWorkflowEnd(workflowId, workflow.status === "failed");
     this.persistWorkflow(workflow);
+    await this.notifyWorkflowEnd(workflow, runStartedAt);
 
     return results;
   }
 
+  // ── Control flow ────────────────────────────────────────────────────────────
+
+  /** True when the output of the condition's task satisfies its predicate. */
+  private isConditionMet(condition: TaskCondition): boolean {
+    const output = this.taskResults.get(condition.taskId) ?? "";
+    if (condition.contains !== undefined && !output.includes(condition.contains)) {
+      return false;
+    }
+    if (condition.notContains !== undefined && output.includes(condition.notContains)) {
+      return false;
+    }
+    if (condition.matches !== undefined && !new RegExp(condition.matches).test(output)) {
+      return false;
+    }
+    return true;
+  }
+
+  private skipTask(task: Task, workflow: Workflow): void {
+    task.completedAt = new Date();
+    this.setTaskStatus(workflow, task, "skipped");
+    logDebug(`[orchestrator] skipping task ${task.id}: condition not met`);
+    this.persistWorkflow(workflow);
+  }
+
+  /** The spend cap the task would run over, if any. */
+  private async checkBudget(workflow: Workflow, task: Task): Promise<BudgetBreach | null> {
+    const budget = this.usage?.getBudget();
+    if (!this.usage || !hasBudgetCaps(budget)) {
+      return null;
+    }
+    const { total, byAgent } = summarizeWorkflowUsage(workflow.tasks.values());
+    let day: UsageTotals | undefined;
+    if (budget.day) {
+      try {
+        day = await this.usage.getDailyUsage();
+      } catch (err) {
+        logDebug(`[orchestrator] reading daily usage failed: ${String(err)}`);
+      }
+    }
+    return findBudgetBreach(
+      budget,
+      { workflow: total, agent: byAgent[task.agentRole] ?? emptyUsage(), day },
+      task.agentRole,
+    );
+  }
+
+  /**
+   * Hold back a task that would exceed a spend cap: with `onExceeded: "fail"`
+   * the task fails, otherwise the workflow pauses and the task stays pending.
+   */
+  private stopForBudget(task: Task, workflow: Workflow, breach: BudgetBreach): "failed" | "paused" {
+    if (this.usage?.getBudget()?.onExceeded === "fail") {
+      task.error = `Budget exceeded: ${breach.reason}`;
+      task.completedAt = new Date();
+      this.setTaskStatus(workflow, task, "failed");
+      logWarn(`[orchestrator] task ${task.id} of workflow ${workflow.id} failed: ${task.error}`);
+      this.persistWorkflow(workflow);
+      return "failed";
+    }
+    if (!workflow.pausedReason) {
+      workflow.pausedReason = `Budget exceeded: ${breach.reason}`;
+      logWarn(`[orchestrator] workflow ${workflow.id} paused: ${workflow.pausedReason}`);
+    }
+    return "paused";
+  }
+
+  /**
+   * Take a task's loop edge when it has iterations left: every task on the
+   * cycle from `loop.to` through this task is reset to pending so the cycle
+   * runs again with this task's output in context.
+   */
+  private applyLoop(task: Task, workflow: Workflow, executedTasks: Set<string>): void {
+    if (!task.loop || (task.iteration ?? 0) + 1 >= task.loop.maxIterations) {
+      return;
+    }
+    const ancestors = this.collectAncestors(workflow, task.id);
+    const body = [...this.collectDescendants(workflow, task.loop.to)].filter(
+      (id) => id === task.id || ancestors.has(id),
+    );
+    for (const id of body) {
+      const member = workflow.tasks.get(id);
+      if (!member) {
+        continue;
+      }
+      member.error = undefined;
+      member.startedAt = undefined;
+      member.completedAt = undefined;
+      member.iteration = (member.iteration ?? 0) + 1;
+      this.setTaskStatus(workflow, member, "pending");
+      executedTasks.delete(id);
+    }
+    logDebug(
+      `[orchestrator] loop from task ${task.id} back to ${task.loop.to} (iteration ${task.iteration})`,
+    );
+    this.persistWorkflow(workflow);
+  }
+
+  /** Every task `taskId` transitively depends on. */
+  private collectAncestors(workflow: Workflow, taskId: string): Set<string> {
+    const seen = new Set<string>();
+    const stack = [...(workflow.tasks.get(taskId)?.dependencies ?? [])];
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      if (!seen.has(id)) {
+        seen.add(id);
+        stack.push(...(workflow.tasks.get(id)?.dependencies ?? []));
+      }
+    }
+    return seen;
+  }
+
+  /** `taskId` plus every task that transitively depends on it. */
+  private collectDescendants(workflow: Workflow, taskId: string): Set<string> {
+    const seen = new Set<string>();
+    const stack = [taskId];
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      if (!seen.has(id)) {
+        seen.add(id);
+        stack.push(...(workflow.tasks.get(id)?.dependents ?? []));
+      }
+    }
+    return seen;
+  }
+
   /**
    * Build a structured context block for a task, replacing naive text concatenation.
    *
@@ -363,6 +891,25 @@ export class AgentOrchestrator {
       }
     }
 
+    // On a loop re-run, show what the looping step produced last time round
+    // (e.g. the fixes a reviewer should now re-check).
+    if (task.iteration) {
+      const loopSources = Array.from(workflow.tasks.values()).filter(
+        (t) => t.loop?.to === task.id && this.taskResults.has(t.id),
+      );
+      if (loopSources.length > 0) {
+        lines.push(`\n## Previous Iteration (${task.iteration})\n`);
+        for (const source of loopSources) {
+          const result = this.taskResults.get(source.id) ?? "";
+          const body =
+            result.length > MAX_RESULT_CHARS
+              ? `${result.slice(0, MAX_RESULT_CHARS)}\n…(truncated — ${result.length - MAX_RESULT_CHARS} chars omitted)`
+              : result;
+          lines.push(`### ${source.agentRole}\n\n${body}\n`);
+        }
+      }
+    }
+
     return lines.join("\n");
   }
 
@@ -412,11 +959,15 @@ export class AgentOrchestrator {
     workflow: Workflow,
     context: SpawnSubagentContext,
   ): Promise<string> {
-    task.status = "running";
     task.startedAt = new Date();
+    this.setTaskStatus(workflow, task, "running");
     this.persistWorkflow(workflow);
     this.telemetry?.emitTaskStart(workflow.id, task.id, task.agentRole, task.description);
 
+    if (task.approval) {
+      await this.awaitApproval(task, workflow, context);
+    }
+
     // Build structured context block for this task
     let taskInput = this.buildStructuredContext(task, workflow);
 
@@ -425,8 +976,14 @@ export class AgentOrchestrator {
 
     // Resolve routing target for this task based on configured rules.
     // Routing only applies to local dispatch — remote roles bypass this.
+    let routedModel: { model?: string; provider?: string } = {};
     if (!task.agentRole.startsWith("remote:")) {
-      const routingTarget = resolveRouting(task, this.routingRules);
+      const routingRule = matchRoutingRule(
+        task,
+        this.routingRules,
+        await this.buildRoutingContext(workflow, taskInput),
+      );
+      const routingTarget = routingRule?.target ?? DEFAULT_ROUTING_TARGET;
       logDebug(
         `[orchestrator] routing task ${task.id} (role=${task.agentRole}) → ${JSON.stringify(routingTarget)}`,
       );
@@ -438,12 +995,16 @@ export class AgentOrchestrator {
           ? `[${routingTarget.capabilities.join(",")}]`
           : "";
         task.agentRole = `remote:${remoteId}${caps}`;
+      } else if (routingRule && !DEFAULT_ROUTING_RULES.includes(routingRule) && !task.model) {
+        // User-defined local/cloud rules select the sub-agent's provider/model.
+        // An explicit per-step model always wins; built-in defaults never
+        // override the agent's configured model.
+        routedModel = routingTargetModel(routingTarget);
       }
-      // local/cloud routing is informational at this layer — the embedded runner
-      // respects the model configured per-agent; a future enhancement can pass
-      // the resolved provider directly to spawnSubagentDirect.
     }
 
+    taskInput = await this.applyDispatchHooks(task, workflow, taskInput, routedModel.model);
+
     // Pre-dispatch: fetch remote-context bundle so the target claw sees this
     // claw's `.coderClaw/` directory. Remote-only; skipped for auto-targets
     // (claw isn't selected yet) and for local dispatch.
@@ -475,15 +1036,28 @@ export class AgentOrchestrator {
     // Unified dispatch: local + remote both flow through the configured
     // `agentTransport` (CompositeAgentTransport) which routes by prefix.
     if (!this.agentTransport) {
-      task.status = "failed";
       task.error =
         "Agent transport not configured — orchestrator must be wired with at least a LocalAgentTransport.";
       task.completedAt = new Date();
+      this.setTaskStatus(workflow, task, "failed");
       this.telemetry?.emitTaskEnd(workflow.id, task.id, task.agentRole, task.startedAt, task.error);
       this.persistWorkflow(workflow);
       throw new Error(task.error);
     }
 
+    // Isolate local tasks in their own worktree so parallel agents can't
+    // clobber each other's files. Remote claws work in their own checkout.
+    let workspaceDir: string | undefined;
+    if (this.taskWorkspaces && !task.agentRole.startsWith("remote:")) {
+      try {
+        const workspace = await this.taskWorkspaces.prepare(workflow.id, task.id);
+        workspaceDir = workspace.path;
+        task.branch = workspace.branch;
+      } catch (err) {
+        this.failTask(task, workflow, `Failed to prepare task worktree: ${String(err)}`);
+      }
+    }
+
     const correlationId = crypto.randomUUID();
     this.activeSpawnContext = context;
     let result: AgentTransportDispatchResult;
@@ -491,36 +1065,488 @@ export class AgentOrchestrator {
       result = await this.agentTransport.dispatch({
         target: task.agentRole,
         input: taskInput,
+        ...(task.model ? { model: task.model } : routedModel),
+        ...(task.thinking ? { thinking: task.thinking } : {}),
+        ...(workspaceDir ? { workspaceDir } : {}),
         correlationId,
         timeoutMs: 600_000,
+        workflowId: workflow.id,
+        taskId: task.id,
       });
     } finally {
       this.activeSpawnContext = null;
     }
 
+    // A failed run may still have spent tokens before it stopped.
+    if (result.childSessionKey) {
+      task.childSessionKey = result.childSessionKey;
+    }
+    const usage = await this.collectTaskUsage(task);
+
     if (result.status !== "accepted") {
-      task.status = "failed";
       task.error = result.error;
       task.completedAt = new Date();
-      this.telemetry?.emitTaskEnd(workflow.id, task.id, task.agentRole, task.startedAt, task.error);
+      this.setTaskStatus(workflow, task, "failed");
+      this.telemetry?.emitTaskEnd(
+        workflow.id,
+        task.id,
+        task.agentRole,
+        task.startedAt,
+        task.error,
+        toTelemetryUsage(usage),
+      );
       this.persistWorkflow(workflow);
       throw new Error(task.error);
     }
 
-    if (result.childSessionKey) {
-      task.childSessionKey = result.childSessionKey;
+    const testReport = task.testGate
+      ? await this.runTestGate(task, workflow, workspaceDir)
+      : undefined;
+
+    // Merge the task branch into the workflow branch before dependents start,
+    // so they fork from a tree that already contains this task's changes.
+    if (workspaceDir && this.taskWorkspaces) {
+      const summary = `${task.agentRole}: ${task.description.split("\n")[0]?.slice(0, 72) ?? ""}`;
+      let integration: Awaited<ReturnType<ITaskWorkspaceService["integrate"]>>;
+      try {
+        integration = await this.taskWorkspaces.integrate(workflow.id, task.id, summary);
+      } catch (err) {
+        this.failTask(task, workflow, `Failed to integrate task branch: ${String(err)}`);
+      }
+      if (integration.status === "conflict") {
+        this.failTask(
+          task,
+          workflow,
+          `Merge conflict integrating ${integration.branch}: ${integration.files.join(", ")}`,
+        );
+      }
     }
-    const output =
+
+    const agentOutput =
       result.output || `Task ${task.id} dispatched to ${result.targetId} (result pending)`;
-    task.status = "completed";
+    const output = testReport ? `${agentOutput}\n\n[Test gate]\n${testReport}` : agentOutput;
     task.completedAt = new Date();
     task.output = output;
     this.taskResults.set(task.id, output);
-    this.telemetry?.emitTaskEnd(workflow.id, task.id, task.agentRole, task.startedAt);
+    this.setTaskStatus(workflow, task, "completed");
+    this.telemetry?.emitTaskEnd(
+      workflow.id,
+      task.id,
+      task.agentRole,
+      task.startedAt,
+      undefined,
+      toTelemetryUsage(usage),
+    );
     this.persistWorkflow(workflow);
     return output;
   }
 
+  /**
+   * Read what the task's agent spent from its session and add it to the task
+   * and to today's total. Returns this run's usage, or undefined when unknown.
+   */
+  private async collectTaskUsage(task: Task): Promise<TaskUsage | undefined> {
+    if (!this.usage || !task.childSessionKey) {
+      return undefined;
+    }
+    try {
+      const usage = await this.usage.collectSessionUsage(task.childSessionKey);
+      if (!usage) {
+        return undefined;
+      }
+      task.usage = { ...addUsage(task.usage, usage), model: usage.model ?? task.usage?.model };
+      await this.usage.recordDailyUsage(usage);
+      return usage;
+    } catch (err) {
+      logDebug(`[orchestrator] collecting usage for task ${task.id} failed: ${String(err)}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Block on a task's approval checkpoint. The approval id is stable per task
+   * and iteration, so a workflow resumed after a restart re-attaches to the
+   * pending request instead of asking again. Anything but an approval fails
+   * the task and skips the steps that depend on it.
+   */
+  private async awaitApproval(
+    task: Task,
+    workflow: Workflow,
+    context: SpawnSubagentContext,
+  ): Promise<void> {
+    if (!this.approvals) {
+      logWarn(
+        `[orchestrator] task ${task.id} has an approval checkpoint but no approval service is configured — continuing`,
+      );
+      return;
+    }
+    let decision: Awaited<ReturnType<IApprovalService["request"]>>;
+    try {
+      decision = await this.approvals.request({
+        id: `${workflow.id}:${task.id}:${task.iteration ?? 0}`,
+        actionType: "workflow.step",
+        description: this.buildApprovalDescription(task, workflow),
+        metadata: {
+          workflowId: workflow.id,
+          workflowType: workflow.type,
+          taskId: task.id,
+          stepId: task.stepId,
+          agentRole: task.agentRole,
+          iteration: task.iteration,
+        },
+        sessionKey: context.agentSessionKey,
+        timeoutMs: task.approval?.timeoutMs,
+      });
+    } catch (err) {
+      this.failTask(task, workflow, `Approval request failed: ${String(err)}`);
+    }
+    if (decision === "approved") {
+      return;
+    }
+    this.skipDependents(task, workflow);
+    this.failTask(
+      task,
+      workflow,
+      decision === "timeout" ? "Approval timed out" : "Approval rejected",
+    );
+  }
+
+  /**
+   * Run the task's test gate in the tree its agent changed. Red tests fail
+   * the task and skip the steps that depend on it; green tests return the
+   * summary to append to the output.
+   */
+  private async runTestGate(
+    task: Task,
+    workflow: Workflow,
+    workspaceDir: string | undefined,
+  ): Promise<string | undefined> {
+    if (task.agentRole.startsWith("remote:")) {
+      logWarn(
+        `[orchestrator] task ${task.id} ran on a remote claw; its test gate cannot run locally — continuing`,
+      );
+      return undefined;
+    }
+    const dir = workspaceDir ?? this.projectRoot;
+    if (!this.testRunner || !dir) {
+      logWarn(
+        `[orchestrator] task ${task.id} has a test gate but no test runner or project root is configured — continuing`,
+      );
+      return undefined;
+    }
+    let result: Awaited<ReturnType<ITestRunner["run"]>>;
+    try {
+      result = await this.testRunner.run({
+        workspaceDir: dir,
+        ...(task.testGate?.files?.length ? { files: task.testGate.files } : {}),
+        ...(task.testGate?.testNamePattern
+          ? { testNamePattern: task.testGate.testNamePattern }
+          : {}),
+        workflowId: workflow.id,
+        taskId: task.id,
+      });
+    } catch (err) {
+      this.skipDependents(task, workflow);
+      this.failTask(task, workflow, `Test gate could not run: ${String(err)}`);
+    }
+    if (!result.passed) {
+      this.skipDependents(task, workflow);
+      this.failTask(task, workflow, `Test gate failed: ${result.summary}`);
+    }
+    return result.summary;
+  }
+
+  /** Skip every pending task downstream of `task`. */
+  private skipDependents(task: Task, workflow: Workflow): void {
+    for (const id of this.collectDescendants(workflow, task.id)) {
+      const dependent = workflow.tasks.get(id);
+      if (id !== task.id && dependent?.status === "pending") {
+        dependent.completedAt = new Date();
+        this.setTaskStatus(workflow, dependent, "skipped");
+      }
+    }
+  }
+
+  /**
+   * Let `task_before_dispatch` hooks rewrite the prompt or retarget the task.
+   * A veto fails the task and skips the steps that depend on it, like a
+   * rejected approval. Returns the prompt to dispatch.
+   */
+  private async applyDispatchHooks(
+    task: Task,
+    workflow: Workflow,
+    taskInput: string,
+    routedModel: string | undefined,
+  ): Promise<string> {
+    if (!this.hooks) {
+      return taskInput;
+    }
+    let decision: Awaited<ReturnType<IWorkflowHooks["taskBeforeDispatch"]>>;
+    try {
+      const model = task.model ?? routedModel;
+      decision = await this.hooks.taskBeforeDispatch(
+        { ...this.hookTask(task), input: taskInput, ...(model ? { model } : {}) },
+        this.hookContext(workflow),
+      );
+    } catch (err) {
+      logDebug(`[orchestrator] task_before_dispatch hook failed: ${String(err)}`);
+      return taskInput;
+    }
+    if (decision?.block) {
+      this.skipDependents(task, workflow);
+      this.failTask(
+        task,
+        workflow,
+        `Dispatch blocked${decision.blockReason ? `: ${decision.blockReason}` : " by plugin"}`,
+      );
+    }
+    if (decision?.agentRole && decision.agentRole !== task.agentRole) {
+      logDebug(
+        `[orchestrator] hook retargeted task ${task.id}: ${task.agentRole} → ${decision.agentRole}`,
+      );
+      task.agentRole = decision.agentRole;
+    }
+    return decision?.input ?? taskInput;
+  }
+
+  /** What the approver sees: the step, its task and the output it builds on. */
+  private buildApprovalDescription(task: Task, workflow: Workflow): string {
+    const MAX_OUTPUT_CHARS = 1_000;
+    const lines = [
+      `Workflow ${workflow.type ?? "custom"} (${workflow.id.slice(0, 8)}) is about to run step "${task.stepId ?? task.agentRole}" (${task.agentRole}).`,
+      "",
+      task.approval?.message ?? task.description,
+    ];
+    for (const depId of task.dependencies) {
+      const depTask = workflow.tasks.get(depId);
+      const result = this.taskResults.get(depId);
+      if (depTask && result) {
+        const body =
+          result.length > MAX_OUTPUT_CHARS ? `${result.slice(0, MAX_OUTPUT_CHARS)}\n…` : result;
+        lines.push("", `Output of "${depTask.stepId ?? depTask.agentRole}":`, body);
+      }
+    }
+    return lines.join("\n");
+  }
+
+  /** Collect the facts routing conditions need beyond the task itself. */
+  private async buildRoutingContext(
+    workflow: Workflow,
+    taskInput: string,
+  ): Promise<RoutingContext> {
+    return {
+      workflowType: workflow.type,
+      estimatedTokens: estimateRoutingTokens(taskInput),
+      changedFiles: routingNeedsChangedFiles(this.routingRules)
+        ? await this.listChangedFiles()
+        : undefined,
+    };
+  }
+
+  /** Tracked changes vs HEAD plus untracked files in the project root. */
+  private async listChangedFiles(): Promise<string[] | undefined> {
+    if (!this.projectRoot) {
+      return undefined;
+    }
+    const files = new Set<string>();
+    for (const argv of [
+      ["git", "diff", "--name-only", "HEAD"],
+      ["git", "ls-files", "--others", "--exclude-standard"],
+    ]) {
+      try {
+        const result = await runCommandWithTimeout(argv, {
+          cwd: this.projectRoot,
+          timeoutMs: 10_000,
+        });
+        if (result.code !== 0) {
+          continue;
+        }
+        for (const line of result.stdout.split("\n")) {
+          if (line.trim()) {
+            files.add(line.trim());
+          }
+        }
+      } catch (err) {
+        logDebug(`[orchestrator] listing changed files failed: ${String(err)}`);
+      }
+    }
+    return Array.from(files);
+  }
+
+  /** Mark a running task failed, record telemetry and persist, then throw. */
+  private failTask(task: Task, workflow: Workflow, error: string): never {
+    task.error = error;
+    task.completedAt = new Date();
+    this.setTaskStatus(workflow, task, "failed");
+    this.telemetry?.emitTaskEnd(
+      workflow.id,
+      task.id,
+      task.agentRole,
+      task.startedAt ?? task.createdAt,
+      error,
+    );
+    this.persistWorkflow(workflow);
+    throw new Error(error);
+  }
+
+  /** Remove a workflow's task worktrees, recording the integrated result branch. */
+  private async releaseTaskWorkspaces(workflow: Workflow): Promise<void> {
+    if (!this.taskWorkspaces) {
+      return;
+    }
+    try {
+      const { branch } = await this.taskWorkspaces.cleanup(workflow.id);
+      if (branch) {
+        workflow.branch = branch;
+      }
+    } catch (err) {
+      logDebug(`[orchestrator] failed to clean up worktrees for ${workflow.id}: ${String(err)}`);
+    }
+  }
+
+  // ── Plugin hooks ────────────────────────────────────────────────────────────
+
+  private hookContext(workflow: Workflow): WorkflowHookContext {
+    return {
+      workflowId: workflow.id,
+      ...(workflow.type ? { workflowType: workflow.type } : {}),
+      ...(this.projectRoot ? { workspaceDir: this.projectRoot } : {}),
+    };
+  }
+
+  private hookTask(task: Task): WorkflowHookTask {
+    return {
+      taskId: task.id,
+      ...(task.stepId ? { stepId: task.stepId } : {}),
+      agentRole: task.agentRole,
+      description: task.description,
+      iteration: task.iteration ?? 0,
+    };
+  }
+
+  /** Run an observing hook; hook failures never affect the workflow. */
+  private async notifyHooks(run: (hooks: IWorkflowHooks) => Promise<void>): Promise<void> {
+    if (!this.hooks) {
+      return;
+    }
+    try {
+      await run(this.hooks);
+    } catch (err) {
+      logDebug(`[orchestrator] workflow hook failed: ${String(err)}`);
+    }
+  }
+
+  private async notifyWorkflowEnd(
+    workflow: Workflow,
+    runStartedAt: number,
+    error?: string,
+  ): Promise<void> {
+    const count = (status: TaskStatus) =>
+      Array.from(workflow.tasks.values()).filter((task) => task.status === status).length;
+    await this.notifyHooks((hooks) =>
+      hooks.workflowEnd(
+        {
+          status: workflow.status === "failed" ? "failed" : "completed",
+          durationMs: Date.now() - runStartedAt,
+          tasks: {
+            completed: count("completed"),
+            failed: count("failed"),
+            skipped: count("skipped"),
+          },
+          ...(error ? { error } : {}),
+        },
+        this.hookContext(workflow),
+      ),
+    );
+  }
+
+  /** Fire `task_end` for a task that just settled. Not awaited: status changes are synchronous. */
+  private notifyTaskEnd(workflow: Workflow, task: Task): void {
+    if (task.status === "pending" || task.status === "running") {
+      return;
+    }
+    const status = task.status;
+    const durationMs =
+      task.startedAt && task.completedAt
+        ? task.completedAt.getTime() - task.startedAt.getTime()
+        : undefined;
+    void this.notifyHooks((hooks) =>
+      hooks.taskEnd(
+        {
+          ...this.hookTask(task),
+          status,
+          ...(task.output !== undefined && status === "completed" ? { output: task.output } : {}),
+          ...(task.error && status === "failed" ? { error: task.error } : {}),
+          ...(durationMs !== undefined ? { durationMs } : {}),
+          ...(task.usage ? { usage: task.usage } : {}),
+        },
+        this.hookContext(workflow),
+      ),
+    );
+  }
+
+  // ── Events ──────────────────────────────────────────────────────────────────
+
+  /** Observe task and workflow status changes. Returns an unsubscribe function. */
+  onWorkflowEvent(listener: (evt: WorkflowEvent) => void): () => void {
+    this.eventListeners.add(listener);
+    return () => this.eventListeners.delete(listener);
+  }
+
+  /**
+   * Move a task to `status`. Transitions outside VALID_TASK_TRANSITIONS are
+   * refused, e.g. a cancelled task whose dispatch returns afterwards.
+   */
+  private setTaskStatus(workflow: Workflow, task: Task, status: TaskStatus): void {
+    const previousStatus = task.status;
+    if (previousStatus === status) {
+      return;
+    }
+    if (!canTransitionTaskTo(previousStatus, status)) {
+      logWarn(
+        `[orchestrator] task ${task.id} of workflow ${workflow.id}: ignoring invalid status change ${previousStatus} → ${status}`,
+      );
+      return;
+    }
+    task.status = status;
+    this.emitWorkflowEvent(workflow, {
+      id: task.id,
+      stepId: task.stepId,
+      agentRole: task.agentRole,
+      status,
+      previousStatus,
+      iteration: task.iteration,
+      error: status === "failed" ? task.error : undefined,
+    });
+    this.notifyTaskEnd(workflow, task);
+  }
+
+  /** Move a workflow to `status`; a cancelled workflow keeps that status. */
+  private setWorkflowStatus(workflow: Workflow, status: TaskStatus): void {
+    if (workflow.status === status || workflow.status === "cancelled") {
+      return;
+    }
+    workflow.status = status;
+    this.emitWorkflowEvent(workflow);
+  }
+
+  private emitWorkflowEvent(workflow: Workflow, task?: WorkflowEvent["task"]): void {
+    const evt: WorkflowEvent = {
+      workflowId: workflow.id,
+      status: workflow.status,
+      type: workflow.type,
+      ts: Date.now(),
+      ...(task ? { task } : {}),
+    };
+    for (const listener of this.eventListeners) {
+      try {
+        listener(evt);
+      } catch (err) {
+        logDebug(`[orchestrator] workflow event listener failed: ${String(err)}`);
+      }
+    }
+  }
+
   /**
    * Get workflow status
    */
@@ -550,7 +1576,7 @@ export class AgentOrchestrator {
     }
     const completed = new Set(
       Array.from(workflow.tasks.values())
-        .filter((task) => task.status === "completed")
+        .filter((task) => task.status === "completed" || task.status === "skipped")
         .map((task) => task.id),
     );
     return Array.from(workflow.tasks.values()).filter(
@@ -560,18 +1586,22 @@ export class AgentOrchestrator {
   }
 
   /**
-   * Cancel a workflow
+   * Cancel a workflow. Returns false when it is unknown or has already finished
+   * (completed, failed or cancelled), leaving its status untouched.
    */
-  cancelWorkflow(workflowId: string): void {
+  cancelWorkflow(workflowId: string): boolean {
     const workflow = this.workflows.get(workflowId);
-    if (workflow) {
-      workflow.status = "cancelled";
-      for (const task of workflow.tasks.values()) {
-        if (task.status === "pending" || task.status === "running") {
-          task.status = "cancelled";
-        }
+    if (!workflow || (workflow.status !== "pending" && workflow.status !== "running")) {
+      return false;
+    }
+    for (const task of workflow.tasks.values()) {
+      if (task.status === "pending" || task.status === "running") {
+        this.setTaskStatus(workflow, task, "cancelled");
       }
     }
+    this.setWorkflowStatus(workflow, "cancelled");
+    void this.releaseTaskWorkspaces(workflow).then(() => this.persistWorkflow(workflow));
+    return true;
   }
 
   /**
@@ -597,6 +1627,9 @@ export class AgentOrchestrator {
       id: workflow.id,
       status: workflow.status,
       createdAt: workflow.createdAt.toISOString(),
+      type: workflow.type,
+      branch: workflow.branch,
+      pausedReason: workflow.pausedReason,
       steps: workflow.steps,
       tasks: Object.fromEntries(
         Array.from(workflow.tasks.entries()).map(([id, task]) => [
@@ -610,11 +1643,21 @@ export class AgentOrchestrator {
             output: task.output,
             error: task.error,
             childSessionKey: task.childSessionKey,
+            model: task.model,
+            thinking: task.thinking,
+            branch: task.branch,
             createdAt: task.createdAt.toISOString(),
             startedAt: task.startedAt?.toISOString(),
             completedAt: task.completedAt?.toISOString(),
             dependencies: task.dependencies,
             dependents: task.dependents,
+            stepId: task.stepId,
+            when: task.when,
+            loop: task.loop,
+            iteration: task.iteration,
+            approval: task.approval,
+            testGate: task.testGate,
+            usage: task.usage,
           } satisfies PersistedTask,
         ]),
       ),
@@ -644,11 +1687,21 @@ export class AgentOrchestrator {
         output: pt.output,
         error: pt.error,
         childSessionKey: pt.childSessionKey,
+        model: pt.model,
+        thinking: pt.thinking,
+        branch: pt.branch,
         createdAt: new Date(pt.createdAt),
         startedAt: pt.startedAt ? new Date(pt.startedAt) : undefined,
         completedAt: pt.completedAt ? new Date(pt.completedAt) : undefined,
         dependencies: pt.dependencies,
         dependents: pt.dependents,
+        stepId: pt.stepId,
+        when: pt.when,
+        loop: pt.loop,
+        iteration: pt.iteration,
+        approval: pt.approval,
+        testGate: pt.testGate,
+        usage: pt.usage,
       });
     }
 
@@ -658,6 +1711,9 @@ export class AgentOrchestrator {
       tasks,
       status: persisted.status === "running" ? "pending" : (persisted.status as TaskStatus),
       createdAt: new Date(persisted.createdAt),
+      type: persisted.type,
+      branch: persisted.branch,
+      pausedReason: persisted.pausedReason,
     };
 
     // Restore task results so dependency chains work correctly on resume
@@ -700,10 +1756,12 @@ export class AgentOrchestrator {
   /**
    * Resume an incomplete workflow that was previously persisted to disk.
    * Already-completed tasks are skipped; pending/reset tasks are re-executed.
+   * With `retryFailed`, failed tasks are reset to pending and run again too.
    */
   async resumeWorkflow(
     workflowId: string,
     context: SpawnSubagentContext,
+    options: { retryFailed?: boolean } = {},
   ): Promise<Map<string, string>> {
     // Ensure the workflow is in memory (hydrate from disk if needed)
     if (!this.workflows.has(workflowId) && this.projectRoot) {
@@ -713,6 +1771,17 @@ export class AgentOrchestrator {
       }
       this.hydrateWorkflow(persisted);
     }
+    const workflow = this.workflows.get(workflowId);
+    if (workflow && options.retryFailed) {
+      for (const task of workflow.tasks.values()) {
+        if (task.status === "failed") {
+          task.error = undefined;
+          task.startedAt = undefined;
+          task.completedAt = undefined;
+          this.setTaskStatus(workflow, task, "pending");
+        }
+      }
+    }
     return this.executeWorkflow(workflowId, context);
   }
 }
@@ -726,30 +1795,49 @@ export const globalOrchestrator = new AgentOrchestrator();
  * Common workflow patterns
  */
 
+/** Review → fix cycle shared by the feature and bug-fix workflows. */
+const REVIEW_FIX_MAX_ITERATIONS = 3;
+
+function reviewFixStep(subject: string): WorkflowStep {
+  return {
+    id: "fix",
+    role: "code-creator",
+    task: `Fix the BLOCKER issues raised in the review of: ${subject}`,
+    dependsOn: ["review"],
+    when: { step: "review", contains: "BLOCKER" },
+    loop: { to: "review", maxIterations: REVIEW_FIX_MAX_ITERATIONS },
+  };
+}
+
 /**
  * Feature Development Workflow
  */
 export function createFeatureWorkflow(featureDescription: string): WorkflowStep[] {
   return [
     {
+      id: "architecture",
       role: "architecture-advisor",
       task: `Analyze the architecture for implementing: ${featureDescription}`,
     },
     {
+      id: "implement",
       role: "code-creator",
       task: `Implement the feature: ${featureDescription}`,
-      dependsOn: [`Analyze the architecture for implementing: ${featureDescription}`],
+      dependsOn: ["architecture"],
     },
     {
+      id: "tests",
       role: "test-generator",
       task: `Generate tests for: ${featureDescription}`,
-      dependsOn: [`Implement the feature: ${featureDescription}`],
+      dependsOn: ["implement"],
     },
     {
+      id: "review",
       role: "code-reviewer",
       task: `Review the implementation of: ${featureDescription}`,
-      dependsOn: [`Generate tests for: ${featureDescription}`],
+      dependsOn: ["tests"],
     },
+    reviewFixStep(featureDescription),
   ];
 }
 
@@ -759,24 +1847,29 @@ export function createFeatureWorkflow(featureDescription: string): WorkflowStep[
 export function createBugFixWorkflow(bugDescription: string): WorkflowStep[] {
   return [
     {
+      id: "diagnose",
       role: "bug-analyzer",
       task: `Diagnose and propose fix for: ${bugDescription}`,
     },
     {
+      id: "implement",
       role: "code-creator",
-      task: `Implement the fix for: ${bugDescription}`,
-      dependsOn: [`Diagnose and propose fix for: ${bugDescription}`],
+      task: `Implement the fix for: ${bugDescription}. Then run impact_analysis and run the affected tests it lists with run_tests before the full suite.`,
+      dependsOn: ["diagnose"],
     },
     {
+      id: "tests",
       role: "test-generator",
       task: `Generate regression tests for: ${bugDescription}`,
-      dependsOn: [`Implement the fix for: ${bugDescription}`],
+      dependsOn: ["implement"],
     },
     {
+      id: "review",
       role: "code-reviewer",
       task: `Review the bug fix for: ${bugDescription}`,
-      dependsOn: [`Generate regression tests for: ${bugDescription}`],
+      dependsOn: ["tests"],
     },
+    reviewFixStep(bugDescription),
   ];
 }
 
@@ -786,18 +1879,21 @@ export function createBugFixWorkflow(bugDescription: string): WorkflowStep[] {
 export function createRefactorWorkflow(scope: string): WorkflowStep[] {
   return [
     {
+      id: "identify",
       role: "code-reviewer",
       task: `Identify refactoring opportunities in: ${scope}`,
     },
     {
+      id: "refactor",
       role: "refactor-agent",
-      task: `Refactor code in: ${scope}`,
-      dependsOn: [`Identify refactoring opportunities in: ${scope}`],
+      task: `Refactor code in: ${scope}. After each change, run impact_analysis and run the affected tests it lists with run_tests before the full suite.`,
+      dependsOn: ["identify"],
     },
     {
+      id: "tests",
       role: "test-generator",
       task: `Ensure test coverage for refactored code in: ${scope}`,
-      dependsOn: [`Refactor code in: ${scope}`],
+      dependsOn: ["refactor"],
     },
   ];
 }
@@ -814,29 +1910,27 @@ export function createRefactorWorkflow(scope: string): WorkflowStep[] {
 export function createSecurityAuditWorkflow(target: string): WorkflowStep[] {
   return [
     {
+      id: "threat-model",
       role: "architecture-advisor",
       task: `Build a threat model for: ${target}. Identify attack surface, trust boundaries, data flows, and external integrations.`,
     },
     {
+      id: "scan",
       role: "bug-analyzer",
       task: `Perform a security vulnerability scan of: ${target}. Check for OWASP Top 10 (injection, XSS, CSRF, broken auth, sensitive data exposure, SSRF, etc.), hardcoded secrets, insecure dependencies, and missing input validation.`,
-      dependsOn: [
-        `Build a threat model for: ${target}. Identify attack surface, trust boundaries, data flows, and external integrations.`,
-      ],
+      dependsOn: ["threat-model"],
     },
     {
+      id: "remediate",
       role: "code-creator",
       task: `Produce prioritised remediation recommendations for all vulnerabilities found in: ${target}. Include concrete code examples or patches for the highest-severity issues.`,
-      dependsOn: [
-        `Perform a security vulnerability scan of: ${target}. Check for OWASP Top 10 (injection, XSS, CSRF, broken auth, sensitive data exposure, SSRF, etc.), hardcoded secrets, insecure dependencies, and missing input validation.`,
-      ],
+      dependsOn: ["scan"],
     },
     {
+      id: "verify",
       role: "code-reviewer",
       task: `Review the proposed security fixes for: ${target}. Verify completeness, check for regressions, and produce a final sign-off checklist with residual risk summary.`,
-      dependsOn: [
-        `Produce prioritised remediation recommendations for all vulnerabilities found in: ${target}. Include concrete code examples or patches for the highest-severity issues.`,
-      ],
+      dependsOn: ["remediate"],
     },
   ];
 }
@@ -850,18 +1944,21 @@ export function createSecurityAuditWorkflow(target: string): WorkflowStep[] {
 export function createPlanningWorkflow(goal: string): WorkflowStep[] {
   return [
     {
+      id: "prd",
       role: "architecture-advisor",
       task: `Write a Product Requirements Document (PRD) for: ${goal}`,
     },
     {
+      id: "architecture",
       role: "architecture-advisor",
       task: `Write a detailed architecture specification for: ${goal}`,
-      dependsOn: [`Write a Product Requirements Document (PRD) for: ${goal}`],
+      dependsOn: ["prd"],
     },
     {
+      id: "tasks",
       role: "architecture-advisor",
       task: `Decompose into an ordered task list with dependencies for: ${goal}`,
-      dependsOn: [`Write a detailed architecture specification for: ${goal}`],
+      dependsOn: ["architecture"],
     },
   ];
 }
@@ -874,20 +1971,35 @@ export function createPlanningWorkflow(goal: string): WorkflowStep[] {
 export function createAdversarialReviewWorkflow(subject: string): WorkflowStep[] {
   return [
     {
+      id: "proposal",
       role: "architecture-advisor",
       task: `Produce a detailed proposal for: ${subject}`,
     },
     {
+      id: "critique",
       role: "code-reviewer",
       task: `Critically review the proposal for gaps, errors, and blind spots in: ${subject}`,
-      dependsOn: [`Produce a detailed proposal for: ${subject}`],
+      dependsOn: ["proposal"],
     },
     {
+      id: "synthesis",
       role: "architecture-advisor",
       task: `Synthesize the critique into a revised, final proposal for: ${subject}`,
-      dependsOn: [
-        `Critically review the proposal for gaps, errors, and blind spots in: ${subject}`,
-      ],
+      dependsOn: ["critique"],
     },
   ];
 }
+
+/**
+ * Registry of named built-in workflow factory functions.
+ * To add a new built-in workflow type: register it here. Project-specific
+ * types belong in `.coderClaw/workflows/*.yaml` instead.
+ */
+export const WORKFLOW_REGISTRY: Record<string, (description: string) => WorkflowStep[]> = {
+  feature: createFeatureWorkflow,
+  bugfix: createBugFixWorkflow,
+  refactor: createRefactorWorkflow,
+  security_audit: createSecurityAuditWorkflow,
+  planning: createPlanningWorkflow,
+  adversarial: createAdversarialReviewWorkflow,
+};
@@ -0,0 +1,239 @@
+/**
+ * Go backend: scans top-level `func` / `type` / `import` declarations.
+ *
+ * Exported means capitalised. Methods are attached to the receiver's struct.
+ * Imports inside the module (per the nearest `go.mod`) resolve to every
+ * non-test file of the imported package directory.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { ClassInfo, FunctionInfo, InterfaceInfo, MethodInfo, TypeInfo } from "../types.js";
+import {
+  braceDepths,
+  createLineLookup,
+  listFiles,
+  maskSource,
+  matchingBrace,
+  splitTopLevel,
+} from "./scan.js";
+import type { LanguageParser, ParsedExport, ParsedImport } from "./types.js";
+
+const FUNC_RE =
+  /^func\s+(?:\(\s*(?:\w+\s+)?\*?\s*(\w+)(?:\[[^\]]*\])?\s*\)\s*)?(\w+)\s*(?:\[[^\]]*\])?\s*\(([^)]*)\)\s*([^{\n]*)/gm;
+const TYPE_RE = /^type\s+(\w+)(?:\[[^\]]*\])?\s+(=\s*)?([^\n]*)/gm;
+const VALUE_RE = /^(var|const)\s+(?:\(\s*\n([\s\S]*?)^\)|(\w+))/gm;
+const IMPORT_RE = /^import\s*(?:\(([\s\S]*?)\)|((?:[\w.]+\s+)?"[^"\n]*"|`[^`\n]*`))/gm;
+const IMPORT_SPEC_RE = /(?:([\w.]+)\s+)?["`]([^"`\n]*)["`]/g;
+
+const isExported = (name: string) => /^[A-Z]/.test(name);
+
+function paramNames(raw: string): string[] {
+  const parts = splitTopLevel(raw);
+  // Go parameters are either all named (`a, b int`) or all unnamed (`int, error`).
+  if (!parts.some((part) => /\s/.test(part))) {
+    return [];
+  }
+  return parts.map((part) => part.split(/\s+/)[0]);
+}
+
+function cleanReturnType(raw: string): string | undefined {
+  const value = raw.trim();
+  return value ? value : undefined;
+}
+
+/** Read the contents of a masked string literal back from the original source. */
+function readLiterals(masked: string, content: string, from: number, to: number) {
+  const region = masked.slice(from, to);
+  const specs: Array<{ alias?: string; value: string; index: number }> = [];
+  for (const match of region.matchAll(IMPORT_SPEC_RE)) {
+    const quote = match.index + match[0].length - match[2].length - 1;
+    specs.push({
+      alias: match[1],
+      value: content.slice(from + quote, from + quote + match[2].length),
+      index: from + match.index,
+    });
+  }
+  return specs;
+}
+
+const goModCache = new Map<string, { root: string; module: string } | null>();
+
+async function findGoModule(
+  fromDir: string,
+  projectRoot: string,
+): Promise<{ root: string; module: string } | null> {
+  if (goModCache.has(fromDir)) {
+    return goModCache.get(fromDir) ?? null;
+  }
+  let result: { root: string; module: string } | null = null;
+  try {
+    const content = await fs.readFile(path.join(fromDir, "go.mod"), "utf-8");
+    const module = /^module\s+(\S+)/m.exec(content)?.[1];
+    result = module ? { root: fromDir, module } : null;
+  } catch {
+    const parent = path.dirname(fromDir);
+    if (parent !== fromDir && fromDir !== projectRoot && fromDir.startsWith(projectRoot)) {
+      result = await findGoModule(parent, projectRoot);
+    }
+  }
+  goModCache.set(fromDir, result);
+  return result;
+}
+
+export const goParser: LanguageParser = {
+  id: "go",
+  extensions: [".go"],
+
+  parse(_filePath, content) {
+    const masked = maskSource(content, {
+      lineComments: ["//"],
+      blockComments: [["/*", "*/"]],
+      strings: ['"', "`", "'"],
+      rawStrings: ["`"],
+    });
+    const lineOf = createLineLookup(content);
+    const depths = braceDepths(masked);
+
+    const functions: FunctionInfo[] = [];
+    const classes: ClassInfo[] = [];
+    const interfaces: InterfaceInfo[] = [];
+    const types: TypeInfo[] = [];
+    const imports: ParsedImport[] = [];
+    const exports: ParsedExport[] = [];
+    const methodsByType = new Map<string, MethodInfo[]>();
+
+    for (const match of masked.matchAll(IMPORT_RE)) {
+      // Skip the `import` keyword so it is not mistaken for an alias.
+      const start = match.index + "import".length;
+      for (const spec of readLiterals(masked, content, start, match.index + match[0].length)) {
+        const name = spec.alias ?? spec.value.split("/").pop() ?? spec.value;
+        imports.push({ source: spec.value, imports: [name], line: lineOf(spec.index) });
+      }
+    }
+
+    for (const match of masked.matchAll(TYPE_RE)) {
+      if (depths[match.index] !== 0) {
+        continue;
+      }
+      const [, name, isAlias, rest] = match;
+      const line = lineOf(match.index);
+      const exported = isExported(name);
+      if (!isAlias && /^struct\s*\{/.test(rest)) {
+        const methods: MethodInfo[] = [];
+        methodsByType.set(name, methods);
+        classes.push({ name, line, implements: [], methods, exported });
+        if (exported) {
+          exports.push({ name, kind: "class", line });
+        }
+      } else if (!isAlias && /^interface\s*\{/.test(rest)) {
+        const open = masked.indexOf("{", match.index + match[0].indexOf(rest));
+        const body = masked.slice(open + 1, matchingBrace(masked, open) - 1);
+        const methods: MethodInfo[] = [];
+        const embedded: string[] = [];
+        let bodyOffset = open + 1;
+        for (const rawLine of body.split("\n")) {
+          const text = rawLine.trim();
+          const method = /^(\w+)\s*\(([^)]*)\)\s*(.*)$/.exec(text);
+          if (method) {
+            methods.push({
+              name: method[1],
+              line: lineOf(bodyOffset),
+              params: paramNames(method[2]),
+              returnType: cleanReturnType(method[3]),
+              visibility: isExported(method[1]) ? "public" : "private",
+              static: false,
+              async: false,
+            });
+          } else if (/^[\w.]+$/.test(text)) {
+            embedded.push(text);
+          }
+          bodyOffset += rawLine.length + 1;
+        }
+        interfaces.push({ name, line, extends: embedded, properties: [], methods, exported });
+        if (exported) {
+          exports.push({ name, kind: "interface", line });
+        }
+      } else {
+        const definition = content
+          .slice(match.index + match[0].indexOf(rest), match.index + match[0].length)
+          .trim();
+        types.push({ name, line, definition, exported });
+        if (exported) {
+          exports.push({ name, kind: "type", line });
+        }
+      }
+    }
+
+    for (const match of masked.matchAll(FUNC_RE)) {
+      const [, receiver, name, params, returns] = match;
+      const line = lineOf(match.index);
+      if (receiver) {
+        const method: MethodInfo = {
+          name,
+          line,
+          params: paramNames(params),
+          returnType: cleanReturnType(returns),
+          visibility: isExported(name) ? "public" : "private",
+          static: false,
+          async: false,
+        };
+        const methods = methodsByType.get(receiver);
+        if (methods) {
+          methods.push(method);
+        } else {
+          // Receiver declared in another file of the package (or not a struct).
+          functions.push({
+            name: `${receiver}.${name}`,
+            line,
+            params: method.params,
+            returnType: method.returnType,
+            exported: isExported(receiver) && isExported(name),
+            async: false,
+          });
+        }
+        continue;
+      }
+      functions.push({
+        name,
+        line,
+        params: paramNames(params),
+        returnType: cleanReturnType(returns),
+        exported: isExported(name),
+        async: false,
+      });
+      if (isExported(name)) {
+        exports.push({ name, kind: "function", line });
+      }
+    }
+
+    for (const match of masked.matchAll(VALUE_RE)) {
+      const kind = match[1] === "const" ? "const" : "var";
+      if (match[3]) {
+        if (isExported(match[3])) {
+          exports.push({ name: match[3], kind, line: lineOf(match.index) });
+        }
+        continue;
+      }
+      let offset = match.index + match[0].indexOf(match[2]);
+      for (const rawLine of match[2].split("\n")) {
+        const name = /^\s*([A-Z]\w*)\b/.exec(rawLine)?.[1];
+        if (name) {
+          exports.push({ name, kind, line: lineOf(offset) });
+        }
+        offset += rawLine.length + 1;
+      }
+    }
+
+    return { language: "go", functions, classes, interfaces, types, imports, exports };
+  },
+
+  async resolveImport({ fromFile, source, projectRoot }) {
+    const mod = await findGoModule(path.dirname(fromFile), projectRoot);
+    if (!mod || (source !== mod.module && !source.startsWith(`${mod.module}/`))) {
+      return [];
+    }
+    const pkgDir = path.join(mod.root, source.slice(mod.module.length));
+    return (await listFiles(pkgDir, ".go")).filter((file) => !file.endsWith("_test.go"));
+  },
+};
@@ -0,0 +1,24 @@
+/**
+ * Language parsers for the code map. TypeScript/JavaScript use the TS
+ * compiler API; Python, Go, Rust and Java use dependency-free scanners.
+ * Register a parser for an extension to override or extend these.
+ */
+
+import { goParser } from "./go.js";
+import { javaParser } from "./java.js";
+import { pythonParser } from "./python.js";
+import { registerLanguageParser } from "./registry.js";
+import { rustParser } from "./rust.js";
+import { typescriptParser } from "./typescript.js";
+
+for (const parser of [typescriptParser, pythonParser, goParser, rustParser, javaParser]) {
+  registerLanguageParser(parser);
+}
+
+export {
+  filePatternsForLanguages,
+  getLanguageParser,
+  listLanguageParsers,
+  registerLanguageParser,
+} from "./registry.js";
+export type { LanguageParser, ParsedExport, ParsedImport, ParsedSourceFile } from "./types.js";
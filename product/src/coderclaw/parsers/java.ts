@@ -0,0 +1,196 @@
+/**
+ * Java backend: scans top-level type declarations and their members.
+ *
+ * `public` types are exports. Imports resolve against the source root
+ * implied by the file's `package` declaration (e.g. `src/main/java`).
+ */
+
+import path from "node:path";
+import type { ClassInfo, InterfaceInfo, MethodInfo } from "../types.js";
+import {
+  braceDepths,
+  createLineLookup,
+  firstExisting,
+  listFiles,
+  maskSource,
+  matchingBrace,
+  splitTopLevel,
+} from "./scan.js";
+import type { LanguageParser, ParsedExport, ParsedImport } from "./types.js";
+
+const MODIFIERS = String.raw`((?:(?:public|protected|private|static|final|abstract|sealed|non-sealed|strictfp|default|synchronized|native)\s+|@\w+(?:\([^)]*\))?\s+)*)`;
+const TYPE_RE = new RegExp(
+  String.raw`${MODIFIERS}(class|interface|enum|record|@interface)\s+(\w+)\s*(?:<[^{]*?>)?\s*(?:\([^)]*\)\s*)?([^{]*)\{`,
+  "g",
+);
+const METHOD_RE = new RegExp(
+  String.raw`(?<![\w.])${MODIFIERS}(?:<[^>]*>\s+)?(\w[\w.<>\[\],?\s]*?)\s+(\w+)\s*\(([^)]*)\)\s*(?:throws\s+[\w.,\s]+)?[{;]`,
+  "g",
+);
+const IMPORT_RE = /^\s*import\s+(static\s+)?([\w.]+(?:\.\*)?)\s*;/gm;
+const PACKAGE_RE = /^\s*package\s+([\w.]+)\s*;/m;
+// Words that can precede `name(` without being a return type (constructors, calls).
+const NOT_RETURN_TYPES = new Set([
+  "new",
+  "return",
+  "else",
+  "throw",
+  "case",
+  "public",
+  "protected",
+  "private",
+  "static",
+  "final",
+  "abstract",
+  "synchronized",
+  "native",
+  "default",
+]);
+
+function visibilityOf(modifiers: string): MethodInfo["visibility"] {
+  if (/\bprivate\b/.test(modifiers)) {
+    return "private";
+  }
+  return /\bprotected\b/.test(modifiers) ? "protected" : "public";
+}
+
+function paramNames(raw: string): string[] {
+  return splitTopLevel(raw)
+    .map((param) => param.replace(/@\w+(?:\([^)]*\))?\s*/g, "").trim())
+    .map((param) => param.split(/\s+/).pop() ?? "")
+    .filter(Boolean);
+}
+
+function heritage(clause: string, keyword: string): string[] {
+  const match = new RegExp(
+    String.raw`\b${keyword}\s+(.+?)(?:\b(?:extends|implements|permits)\b|$)`,
+  ).exec(clause);
+  return match ? splitTopLevel(match[1]).map((name) => name.replace(/<.*$/, "")) : [];
+}
+
+/** Source root for a file, derived from its package (`com.acme` in `src/main/java/com/acme`). */
+function sourceRoot(fromFile: string, pkg: string | undefined): string | null {
+  const dir = path.dirname(fromFile);
+  if (!pkg) {
+    return dir;
+  }
+  const pkgPath = path.join(...pkg.split("."));
+  return dir.endsWith(pkgPath) ? dir.slice(0, dir.length - pkgPath.length - 1) : null;
+}
+
+export const javaParser: LanguageParser = {
+  id: "java",
+  extensions: [".java"],
+
+  parse(_filePath, content) {
+    const masked = maskSource(content, {
+      lineComments: ["//"],
+      blockComments: [["/*", "*/"]],
+      strings: ['"""', '"', "'"],
+      rawStrings: ['"""'],
+    });
+    const lineOf = createLineLookup(content);
+    const depths = braceDepths(masked);
+
+    const classes: ClassInfo[] = [];
+    const interfaces: InterfaceInfo[] = [];
+    const imports: ParsedImport[] = [];
+    const exports: ParsedExport[] = [];
+
+    for (const match of masked.matchAll(IMPORT_RE)) {
+      const [, isStatic, target] = match;
+      const name = target.split(".").pop() ?? target;
+      imports.push({
+        source: isStatic ? `static ${target}` : target,
+        imports: [name],
+        line: lineOf(match.index + match[0].indexOf("import")),
+      });
+    }
+
+    for (const match of masked.matchAll(TYPE_RE)) {
+      const [, modifiers, keyword, name, clause] = match;
+      const start = match.index + modifiers.length;
+      if (depths[start] !== 0) {
+        continue;
+      }
+      const line = lineOf(start);
+      const exported = /\bpublic\b/.test(modifiers);
+      const open = match.index + match[0].length - 1;
+      const end = matchingBrace(masked, open);
+      const methods: MethodInfo[] = [];
+      const isInterface = keyword === "interface" || keyword === "@interface";
+      for (const member of masked.slice(open, end).matchAll(METHOD_RE)) {
+        const [, memberModifiers, returnType, methodName, params] = member;
+        const at = open + member.index + memberModifiers.length;
+        const returnWord = returnType.trim().split(/\s+/).pop() ?? "";
+        if (depths[at] !== 1 || NOT_RETURN_TYPES.has(returnWord) || returnWord === name) {
+          continue;
+        }
+        methods.push({
+          name: methodName,
+          line: lineOf(at),
+          params: paramNames(params),
+          returnType: returnType.trim(),
+          visibility: isInterface ? "public" : visibilityOf(memberModifiers),
+          static: /\bstatic\b/.test(memberModifiers),
+          async: false,
+        });
+      }
+      if (isInterface) {
+        interfaces.push({
+          name,
+          line,
+          extends: heritage(clause, "extends"),
+          properties: [],
+          methods,
+          exported,
+        });
+      } else {
+        classes.push({
+          name,
+          line,
+          extends: heritage(clause, "extends")[0],
+          implements: heritage(clause, "implements"),
+          methods,
+          exported,
+        });
+      }
+      if (exported) {
+        exports.push({ name, kind: isInterface ? "interface" : "class", line });
+      }
+    }
+
+    return {
+      language: "java",
+      module: PACKAGE_RE.exec(masked)?.[1],
+      functions: [],
+      classes,
+      interfaces,
+      types: [],
+      imports,
+      exports,
+    };
+  },
+
+  async resolveImport({ fromFile, fromModule, source, projectRoot }) {
+    const root = sourceRoot(fromFile, fromModule) ?? path.join(projectRoot, "src", "main", "java");
+    const segments = source.replace(/^static\s+/, "").split(".");
+    if (segments[segments.length - 1] === "*") {
+      const dir = path.join(root, ...segments.slice(0, -1));
+      const files = await listFiles(dir, ".java");
+      if (files.length > 0) {
+        return files;
+      }
+      // `import static a.b.Type.*` — the last segment is a type, not a package.
+      segments.pop();
+    }
+    // Drop trailing nested-type / static-member segments until a file matches.
+    for (let count = segments.length; count > 0; count--) {
+      const found = await firstExisting([`${path.join(root, ...segments.slice(0, count))}.java`]);
+      if (found) {
+        return found === fromFile ? [] : [found];
+      }
+    }
+    return [];
+  },
+};
@@ -0,0 +1,274 @@
+/**
+ * Python backend: indentation-aware scanner for `def` / `class` / imports.
+ *
+ * Public names follow Python convention: `__all__` when the module defines
+ * it, otherwise anything not starting with `_`.
+ */
+
+import path from "node:path";
+import type { ClassInfo, FunctionInfo, InterfaceInfo, MethodInfo, TypeInfo } from "../types.js";
+import { createLineLookup, firstExisting, maskSource, splitTopLevel } from "./scan.js";
+import type { LanguageParser, ParsedExport, ParsedImport } from "./types.js";
+
+const DEF_RE = /(async\s+)?def\s+(\w+)\s*\(([^)]*)\)\s*(?:->\s*([^:]+?))?\s*:/y;
+const CLASS_RE = /class\s+(\w+)\s*(?:\(([^)]*)\))?\s*:/y;
+const TYPE_ALIAS_RE =
+  /(?:type\s+(\w+)(?:\[[^\]]*\])?\s*=\s*([^\n]+)|(\w+)\s*:\s*TypeAlias\s*=\s*([^\n]+))/y;
+const CONSTANT_RE = /([A-Z][A-Z0-9_]*)\s*(?::[^=\n]+)?=(?!=)/y;
+const IMPORT_RE = /(?:from\s+(\.*[\w.]*)\s+import\s+(\([^)]*\)|[^\n]+)|import\s+([^\n]+))/y;
+const INTERFACE_BASES = new Set(["Protocol", "typing.Protocol", "ABC", "abc.ABC"]);
+
+function paramNames(raw: string, dropReceiver: boolean): string[] {
+  const names = splitTopLevel(raw)
+    .map((param) => param.split(/[:=]/)[0].replace(/^\*+/, "").trim())
+    .filter((name) => name && name !== "/" && name !== "*");
+  return dropReceiver && (names[0] === "self" || names[0] === "cls") ? names.slice(1) : names;
+}
+
+function visibility(name: string): MethodInfo["visibility"] {
+  if (name.startsWith("__") && !name.endsWith("__")) {
+    return "private";
+  }
+  return name.startsWith("_") ? "protected" : "public";
+}
+
+function parseDunderAll(masked: string, content: string): Set<string> | null {
+  const match = /^__all__\s*(?::[^=\n]+)?=\s*[[(]([^\])]*)[\])]/m.exec(masked);
+  if (!match) {
+    return null;
+  }
+  const start = match.index + match[0].indexOf(match[1]);
+  const body = content.slice(start, start + match[1].length);
+  return new Set([...body.matchAll(/["'](\w+)["']/g)].map((m) => m[1]));
+}
+
+type Block = { indent: number; cls?: ClassInfo | InterfaceInfo };
+
+export const pythonParser: LanguageParser = {
+  id: "python",
+  extensions: [".py", ".pyi"],
+
+  parse(_filePath, content) {
+    const masked = maskSource(content, {
+      lineComments: ["#"],
+      strings: ['"""', "'''", '"', "'"],
+      rawStrings: ['"""', "'''"],
+    });
+    const lineOf = createLineLookup(content);
+    const dunderAll = parseDunderAll(masked, content);
+    const isPublic = (name: string) => (dunderAll ? dunderAll.has(name) : !name.startsWith("_"));
+
+    const functions: FunctionInfo[] = [];
+    const classes: ClassInfo[] = [];
+    const interfaces: InterfaceInfo[] = [];
+    const types: TypeInfo[] = [];
+    const imports: ParsedImport[] = [];
+    const exports: ParsedExport[] = [];
+
+    const stack: Block[] = [];
+    let decorators: string[] = [];
+    let offset = 0;
+    let bracketDepth = 0;
+    for (const line of masked.split("\n")) {
+      const lineStart = offset;
+      offset += line.length + 1;
+      // Lines inside an open bracket continue a multi-line signature or call.
+      const continuation = bracketDepth > 0;
+      bracketDepth = Math.max(
+        0,
+        bracketDepth + (line.match(/[([{]/g)?.length ?? 0) - (line.match(/[)\]}]/g)?.length ?? 0),
+      );
+      if (continuation || !line.trim()) {
+        continue;
+      }
+      const indent = line.length - line.trimStart().length;
+      const at = lineStart + indent;
+      const lineNo = lineOf(at);
+      while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+        stack.pop();
+      }
+      const parent = stack[stack.length - 1];
+      const topLevel = stack.length === 0;
+      const text = line.trim();
+
+      if (text.startsWith("@")) {
+        decorators.push(text.slice(1).split("(")[0]);
+        continue;
+      }
+      const lineDecorators = decorators;
+      decorators = [];
+
+      DEF_RE.lastIndex = at;
+      const def = DEF_RE.exec(masked);
+      if (def) {
+        const [, asyncKw, name, params, returnType] = def;
+        if (topLevel) {
+          functions.push({
+            name,
+            line: lineNo,
+            params: paramNames(params, false),
+            returnType: returnType?.trim(),
+            exported: isPublic(name),
+            async: Boolean(asyncKw),
+          });
+          if (isPublic(name)) {
+            exports.push({ name, kind: "function", line: lineNo });
+          }
+        } else if (parent?.cls && stack.length === 1) {
+          const isStatic = lineDecorators.includes("staticmethod");
+          parent.cls.methods.push({
+            name,
+            line: lineNo,
+            params: paramNames(params, !isStatic),
+            returnType: returnType?.trim(),
+            visibility: visibility(name),
+            static: isStatic || lineDecorators.includes("classmethod"),
+            async: Boolean(asyncKw),
+          });
+        }
+        stack.push({ indent });
+        continue;
+      }
+
+      CLASS_RE.lastIndex = at;
+      const cls = CLASS_RE.exec(masked);
+      if (cls) {
+        const [, name, rawBases] = cls;
+        const bases = splitTopLevel(rawBases ?? "").filter((base) => !base.includes("="));
+        if (!topLevel) {
+          stack.push({ indent });
+          continue;
+        }
+        if (bases.some((base) => INTERFACE_BASES.has(base.replace(/\[.*$/, "")))) {
+          const iface: InterfaceInfo = {
+            name,
+            line: lineNo,
+            extends: bases.filter((base) => !INTERFACE_BASES.has(base.replace(/\[.*$/, ""))),
+            properties: [],
+            methods: [],
+            exported: isPublic(name),
+          };
+          interfaces.push(iface);
+          stack.push({ indent, cls: iface });
+          if (isPublic(name)) {
+            exports.push({ name, kind: "interface", line: lineNo });
+          }
+        } else {
+          const info: ClassInfo = {
+            name,
+            line: lineNo,
+            extends: bases[0],
+            implements: bases.slice(1),
+            methods: [],
+            exported: isPublic(name),
+          };
+          classes.push(info);
+          stack.push({ indent, cls: info });
+          if (isPublic(name)) {
+            exports.push({ name, kind: "class", line: lineNo });
+          }
+        }
+        continue;
+      }
+
+      IMPORT_RE.lastIndex = at;
+      const importMatch = IMPORT_RE.exec(masked);
+      if (importMatch) {
+        if (importMatch[3] !== undefined) {
+          for (const part of splitTopLevel(importMatch[3])) {
+            const [source, alias] = part.split(/\s+as\s+/);
+            imports.push({
+              source: source.trim(),
+              imports: [alias?.trim() ?? source.trim().split(".")[0]],
+              line: lineNo,
+            });
+          }
+        } else {
+          const names = splitTopLevel(importMatch[2].replace(/[()]/g, "").replace(/\\\n/g, " "))
+            .map((part) => part.split(/\s+as\s+/)[0].trim())
+            .filter((name) => /^[\w*]+$/.test(name));
+          imports.push({ source: importMatch[1], imports: names, line: lineNo });
+        }
+        continue;
+      }
+
+      if (!topLevel) {
+        continue;
+      }
+      TYPE_ALIAS_RE.lastIndex = at;
+      const alias = TYPE_ALIAS_RE.exec(masked);
+      if (alias) {
+        const name = alias[1] ?? alias[3];
+        const start = at + alias[0].indexOf(alias[2] ?? alias[4]);
+        const definition = content.slice(start, lineStart + line.length).trim();
+        types.push({ name, line: lineNo, definition, exported: isPublic(name) });
+        if (isPublic(name)) {
+          exports.push({ name, kind: "type", line: lineNo });
+        }
+        continue;
+      }
+      CONSTANT_RE.lastIndex = at;
+      const constant = CONSTANT_RE.exec(masked);
+      if (constant && isPublic(constant[1])) {
+        exports.push({ name: constant[1], kind: "const", line: lineNo });
+      }
+    }
+
+    return { language: "python", functions, classes, interfaces, types, imports, exports };
+  },
+
+  async resolveImport({ fromFile, source, imports, projectRoot }) {
+    const moduleCandidates = (base: string, dotted: string) => {
+      const rel = dotted ? path.join(base, ...dotted.split(".")) : base;
+      return dotted
+        ? [`${rel}.py`, `${rel}.pyi`, path.join(rel, "__init__.py")]
+        : [path.join(rel, "__init__.py")];
+    };
+    const resolveFrom = async (base: string, dotted: string): Promise<string[]> => {
+      const module = await firstExisting(moduleCandidates(base, dotted));
+      if (module && !module.endsWith("__init__.py")) {
+        return [module];
+      }
+      // `from pkg import submodule` imports files, not just names.
+      const submodules: string[] = [];
+      for (const name of imports) {
+        if (name === "*") {
+          continue;
+        }
+        const found = await firstExisting(
+          moduleCandidates(base, dotted ? `${dotted}.${name}` : name),
+        );
+        if (found) {
+          submodules.push(found);
+        }
+      }
+      return [...(module ? [module] : []), ...submodules];
+    };
+
+    const relative = /^(\.+)(.*)$/.exec(source);
+    if (relative) {
+      let base = path.dirname(fromFile);
+      for (let level = 1; level < relative[1].length; level++) {
+        base = path.dirname(base);
+      }
+      return resolveFrom(base, relative[2]);
+    }
+
+    // Absolute imports: try the project root, `src/`, and each package root
+    // between the importing file and the project root.
+    const roots = new Set([projectRoot, path.join(projectRoot, "src")]);
+    for (let dir = path.dirname(fromFile); dir.startsWith(projectRoot); dir = path.dirname(dir)) {
+      roots.add(dir);
+      if (dir === projectRoot) {
+        break;
+      }
+    }
+    for (const root of roots) {
+      const found = await resolveFrom(root, source);
+      if (found.length > 0) {
+        return found;
+      }
+    }
+    return [];
+  },
+};
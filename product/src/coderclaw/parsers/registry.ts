@@ -0,0 +1,48 @@
+import path from "node:path";
+import type { LanguageParser } from "./types.js";
+
+const parsersByExtension = new Map<string, LanguageParser>();
+const parsers: LanguageParser[] = [];
+
+/** Register a parser; later registrations win for shared extensions. */
+export function registerLanguageParser(parser: LanguageParser): void {
+  const existing = parsers.findIndex((entry) => entry.id === parser.id);
+  if (existing >= 0) {
+    parsers.splice(existing, 1);
+  }
+  parsers.push(parser);
+  for (const ext of parser.extensions) {
+    parsersByExtension.set(ext.toLowerCase(), parser);
+  }
+}
+
+export function getLanguageParser(filePath: string): LanguageParser | undefined {
+  return parsersByExtension.get(path.extname(filePath).toLowerCase());
+}
+
+export function listLanguageParsers(): LanguageParser[] {
+  return [...parsers];
+}
+
+/**
+ * Glob patterns for the given languages (e.g. from `context.yaml`), or for
+ * every registered parser when none of them is supported.
+ */
+export function filePatternsForLanguages(languages: string[] = []): string[] {
+  const wanted = new Set(languages.map((language) => language.toLowerCase()));
+  // The TypeScript parser also covers JavaScript.
+  if (wanted.has("javascript")) {
+    wanted.add("typescript");
+  }
+  const selected = parsers.filter((parser) => wanted.has(parser.id));
+  const source = selected.length > 0 ? selected : parsers;
+  return [
+    ...new Set(
+      source.flatMap((parser) =>
+        [...parsersByExtension.entries()]
+          .filter(([, owner]) => owner === parser)
+          .map(([ext]) => `**/*${ext}`),
+      ),
+    ),
+  ];
+}
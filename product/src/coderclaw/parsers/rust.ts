@@ -0,0 +1,313 @@
+/**
+ * Rust backend: scans top-level items, `impl` blocks, `mod` and `use`.
+ *
+ * `pub` (unrestricted) items are exports. `mod foo;` and `crate::` /
+ * `self::` / `super::` paths resolve through the module tree to files;
+ * external crates are not followed.
+ */
+
+import path from "node:path";
+import type { ClassInfo, FunctionInfo, InterfaceInfo, MethodInfo, TypeInfo } from "../types.js";
+import {
+  braceDepths,
+  createLineLookup,
+  fileExists,
+  firstExisting,
+  maskSource,
+  matchingBrace,
+  splitTopLevel,
+} from "./scan.js";
+import type { LanguageParser, ParsedExport, ParsedImport } from "./types.js";
+
+const VIS = String.raw`(pub(?:\s*\([^)]*\))?\s+)?`;
+const FN_RE = new RegExp(
+  String.raw`${VIS}(?:(?:const|async|unsafe|extern\s+"[^"]*"|extern)\s+)*\bfn\s+(\w+)\s*(?:<[^{(]*>)?\s*\(([^)]*)\)\s*(?:->\s*([^{;]+?))?\s*(?:where\s[^{;]*)?[{;]`,
+  "g",
+);
+const ITEM_RE = new RegExp(
+  String.raw`${VIS}(?:(?:unsafe|auto)\s+)*\b(struct|enum|trait|type|union|const|static|mod)\s+(?:mut\s+)?(\w+)([^;{=]*)`,
+  "g",
+);
+const IMPL_RE = /\bimpl\s*(?:<[^{]*?>)?\s*(?:!?([\w:]+)(?:<[^{]*?>)?\s+for\s+)?([\w:]+)[^{]*\{/g;
+const USE_RE = /\buse\s+([^;]+);/g;
+const ROOT_FILES = new Set(["lib.rs", "main.rs", "mod.rs"]);
+
+function isPublic(vis: string | undefined): boolean {
+  return vis?.trim() === "pub";
+}
+
+function paramNames(raw: string): string[] {
+  return splitTopLevel(raw)
+    .filter((param) => !/^&?\s*(?:'\w+\s+)?(?:mut\s+)?self\b/.test(param))
+    .map((param) =>
+      param
+        .split(":")[0]
+        .replace(/^mut\s+/, "")
+        .trim(),
+    );
+}
+
+/** Expand a `use` tree (`a::{b, c::{d as e}}`) into full paths and bound names. */
+export function expandUseTree(tree: string): Array<{ path: string; name: string }> {
+  const text = tree.replace(/\s+/g, " ").trim();
+  const brace = text.indexOf("{");
+  if (brace === -1) {
+    const [target, alias] = text.split(/\s+as\s+/);
+    const segments = target.split("::");
+    return [{ path: target, name: alias ?? segments[segments.length - 1] }];
+  }
+  const prefix = text.slice(0, brace).replace(/::\s*$/, "");
+  const inner = text.slice(brace + 1, text.lastIndexOf("}"));
+  return splitTopLevel(inner).flatMap((part) =>
+    expandUseTree(part).map((entry) => {
+      if (entry.path === "self") {
+        const segments = prefix.split("::");
+        return {
+          path: prefix,
+          name: entry.name === "self" ? segments[segments.length - 1] : entry.name,
+        };
+      }
+      return { path: prefix ? `${prefix}::${entry.path}` : entry.path, name: entry.name };
+    }),
+  );
+}
+
+/** Directory holding the child modules of a module file. */
+function childModuleDir(file: string): string {
+  return ROOT_FILES.has(path.basename(file))
+    ? path.dirname(file)
+    : path.join(path.dirname(file), path.basename(file, ".rs"));
+}
+
+async function moduleFileForDir(dir: string): Promise<string | null> {
+  return firstExisting([
+    `${dir}.rs`,
+    path.join(dir, "mod.rs"),
+    path.join(dir, "lib.rs"),
+    path.join(dir, "main.rs"),
+  ]);
+}
+
+async function findCrateRoot(fromFile: string, projectRoot: string): Promise<string | null> {
+  for (let dir = path.dirname(fromFile); ; dir = path.dirname(dir)) {
+    if (await fileExists(path.join(dir, "Cargo.toml"))) {
+      const src = path.join(dir, "src");
+      const fromMain = path.relative(src, fromFile);
+      // Binaries under src/bin/ are their own crate roots.
+      if (fromMain.startsWith(`bin${path.sep}`)) {
+        return fromFile;
+      }
+      return firstExisting([path.join(src, "lib.rs"), path.join(src, "main.rs")]);
+    }
+    if (dir === projectRoot || path.dirname(dir) === dir || !dir.startsWith(projectRoot)) {
+      return null;
+    }
+  }
+}
+
+export const rustParser: LanguageParser = {
+  id: "rust",
+  extensions: [".rs"],
+
+  parse(_filePath, content) {
+    const masked = maskSource(content, {
+      lineComments: ["//"],
+      blockComments: [["/*", "*/"]],
+      // `'` is left alone: it is far more often a lifetime than a char literal.
+      strings: ['"'],
+    });
+    const lineOf = createLineLookup(content);
+    const depths = braceDepths(masked);
+
+    const functions: FunctionInfo[] = [];
+    const classes: ClassInfo[] = [];
+    const interfaces: InterfaceInfo[] = [];
+    const types: TypeInfo[] = [];
+    const imports: ParsedImport[] = [];
+    const exports: ParsedExport[] = [];
+    const classByName = new Map<string, ClassInfo>();
+
+    for (const match of masked.matchAll(ITEM_RE)) {
+      const [, vis, keyword, name, rest] = match;
+      const prev = masked[match.index - 1];
+      // `const fn` is a function; anything glued to an identifier is not an item.
+      if (depths[match.index] !== 0 || name === "fn" || (prev && !/[\s;}\]]/.test(prev))) {
+        continue;
+      }
+      const line = lineOf(match.index);
+      const exported = isPublic(vis);
+      if (keyword === "mod") {
+        // `mod foo;` pulls in a file; inline `mod foo { ... }` does not.
+        if (masked[match.index + match[0].length] === ";") {
+          imports.push({ source: `self::${name}`, imports: [name], line });
+        }
+        continue;
+      }
+      if (keyword === "struct" || keyword === "union") {
+        const info: ClassInfo = { name, line, implements: [], methods: [], exported };
+        classes.push(info);
+        classByName.set(name, info);
+        if (exported) {
+          exports.push({ name, kind: "class", line });
+        }
+      } else if (keyword === "trait") {
+        const open = masked.indexOf("{", match.index);
+        const body = open === -1 ? "" : masked.slice(open, matchingBrace(masked, open));
+        const methods: MethodInfo[] = [];
+        for (const fn of body.matchAll(FN_RE)) {
+          methods.push({
+            name: fn[2],
+            line: lineOf(open + fn.index),
+            params: paramNames(fn[3]),
+            returnType: fn[4]?.trim(),
+            visibility: "public",
+            static: !/\bself\b/.test(fn[3]),
+            async: /\basync\s/.test(fn[0]),
+          });
+        }
+        const supertraits = rest.includes(":")
+          ? rest
+              .slice(rest.indexOf(":") + 1)
+              .split("+")
+              .map((bound) => bound.trim())
+              .filter(Boolean)
+          : [];
+        interfaces.push({ name, line, extends: supertraits, properties: [], methods, exported });
+        if (exported) {
+          exports.push({ name, kind: "interface", line });
+        }
+      } else if (keyword === "enum" || keyword === "type") {
+        const end = masked.slice(match.index).search(/[;{]/);
+        const definition =
+          keyword === "enum"
+            ? "enum"
+            : content
+                .slice(
+                  match.index + match[0].length,
+                  match.index + (end === -1 ? match[0].length : end),
+                )
+                .replace(/^\s*=\s*/, "")
+                .trim();
+        types.push({ name, line, definition, exported });
+        if (exported) {
+          exports.push({ name, kind: "type", line });
+        }
+      } else if (exported) {
+        exports.push({ name, kind: keyword === "const" ? "const" : "var", line });
+      }
+    }
+
+    for (const match of masked.matchAll(IMPL_RE)) {
+      if (depths[match.index] !== 0) {
+        continue;
+      }
+      const [, trait, target] = match;
+      const typeName = target.split("::").pop() ?? target;
+      const cls = classByName.get(typeName);
+      if (cls && trait) {
+        cls.implements.push(trait);
+      }
+      const open = match.index + match[0].length - 1;
+      const body = masked.slice(open, matchingBrace(masked, open));
+      for (const fn of body.matchAll(FN_RE)) {
+        if (depths[open + fn.index] !== depths[open] + 1) {
+          continue;
+        }
+        const method: MethodInfo = {
+          name: fn[2],
+          line: lineOf(open + fn.index),
+          params: paramNames(fn[3]),
+          returnType: fn[4]?.trim(),
+          visibility: trait || isPublic(fn[1]) ? "public" : "private",
+          static: !/\bself\b/.test(fn[3]),
+          async: /\basync\s/.test(fn[0]),
+        };
+        if (cls) {
+          cls.methods.push(method);
+        } else {
+          // impl for a type declared in another module (or an enum).
+          functions.push({
+            name: `${typeName}::${method.name}`,
+            line: method.line,
+            params: method.params,
+            returnType: method.returnType,
+            exported: method.visibility === "public",
+            async: method.async,
+          });
+        }
+      }
+    }
+
+    for (const match of masked.matchAll(FN_RE)) {
+      if (depths[match.index] !== 0) {
+        continue;
+      }
+      const [, vis, name, params, returnType] = match;
+      const line = lineOf(match.index);
+      functions.push({
+        name,
+        line,
+        params: paramNames(params),
+        returnType: returnType?.trim(),
+        exported: isPublic(vis),
+        async: /\basync\s/.test(match[0]),
+      });
+      if (isPublic(vis)) {
+        exports.push({ name, kind: "function", line });
+      }
+    }
+
+    for (const match of masked.matchAll(USE_RE)) {
+      if (depths[match.index] !== 0) {
+        continue;
+      }
+      const line = lineOf(match.index);
+      for (const entry of expandUseTree(match[1])) {
+        imports.push({ source: entry.path, imports: [entry.name], line });
+      }
+    }
+
+    return { language: "rust", functions, classes, interfaces, types, imports, exports };
+  },
+
+  async resolveImport({ fromFile, source, projectRoot }) {
+    const segments = source.replace(/^::/, "").split("::");
+    let current: string | null;
+    let dir: string;
+    if (segments[0] === "crate") {
+      current = await findCrateRoot(fromFile, projectRoot);
+      if (!current) {
+        return [];
+      }
+      dir = childModuleDir(current);
+      segments.shift();
+    } else if (segments[0] === "self" || segments[0] === "super") {
+      current = fromFile;
+      dir = childModuleDir(fromFile);
+      if (segments[0] === "self") {
+        segments.shift();
+      }
+      while (segments[0] === "super") {
+        segments.shift();
+        dir = path.dirname(dir);
+        current = await moduleFileForDir(dir);
+      }
+    } else {
+      // External crate or std.
+      return [];
+    }
+
+    for (const segment of segments) {
+      const next = await firstExisting([
+        path.join(dir, `${segment}.rs`),
+        path.join(dir, segment, "mod.rs"),
+      ]);
+      if (!next) {
+        break;
+      }
+      current = next;
+      dir = path.join(dir, segment);
+    }
+    return current && current !== fromFile ? [current] : [];
+  },
+};
@@ -0,0 +1,178 @@
+/**
+ * Shared helpers for the lightweight (regex + brace depth) language scanners.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+
+export type MaskOptions = {
+  lineComments: string[];
+  blockComments?: Array<[open: string, close: string]>;
+  /** String delimiters, longest first (e.g. `"""` before `"`). */
+  strings: string[];
+  /** Delimiters whose contents may span lines and ignore backslash escapes. */
+  rawStrings?: string[];
+};
+
+/**
+ * Blank out comments and string contents (keeping newlines, string delimiters
+ * and offsets) so declaration regexes never match inside them. Offsets in the
+ * masked text line up with the original, so string values can be read back.
+ */
+export function maskSource(content: string, options: MaskOptions): string {
+  const out = content.split("");
+  const blank = (from: number, to: number) => {
+    for (let i = from; i < to; i++) {
+      if (out[i] !== "\n") {
+        out[i] = " ";
+      }
+    }
+  };
+  const raw = new Set(options.rawStrings ?? []);
+  let i = 0;
+  outer: while (i < content.length) {
+    for (const marker of options.lineComments) {
+      if (content.startsWith(marker, i)) {
+        const end = content.indexOf("\n", i);
+        const stop = end === -1 ? content.length : end;
+        blank(i, stop);
+        i = stop;
+        continue outer;
+      }
+    }
+    for (const [open, close] of options.blockComments ?? []) {
+      if (content.startsWith(open, i)) {
+        const end = content.indexOf(close, i + open.length);
+        const stop = end === -1 ? content.length : end + close.length;
+        blank(i, stop);
+        i = stop;
+        continue outer;
+      }
+    }
+    for (const delim of options.strings) {
+      if (content.startsWith(delim, i)) {
+        let j = i + delim.length;
+        while (j < content.length && !content.startsWith(delim, j)) {
+          if (!raw.has(delim) && content[j] === "\\") {
+            j++;
+          } else if (delim.length === 1 && !raw.has(delim) && content[j] === "\n") {
+            break;
+          }
+          j++;
+        }
+        blank(i + delim.length, j);
+        i = Math.min(j + delim.length, content.length);
+        continue outer;
+      }
+    }
+    i++;
+  }
+  return out.join("");
+}
+
+/** Build an offset → 1-based line number lookup for a source text. */
+export function createLineLookup(content: string): (index: number) => number {
+  const starts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content.charCodeAt(i) === 10) {
+      starts.push(i + 1);
+    }
+  }
+  return (index) => {
+    let lo = 0;
+    let hi = starts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (starts[mid] <= index) {
+        lo = mid;
+      } else {
+        hi = mid - 1;
+      }
+    }
+    return lo + 1;
+  };
+}
+
+/** Curly-brace nesting depth before each offset of a masked source. */
+export function braceDepths(masked: string): Int32Array {
+  const depths = new Int32Array(masked.length + 1);
+  let depth = 0;
+  for (let i = 0; i < masked.length; i++) {
+    depths[i] = depth;
+    const ch = masked[i];
+    if (ch === "{") {
+      depth++;
+    } else if (ch === "}") {
+      depth = Math.max(0, depth - 1);
+    }
+  }
+  depths[masked.length] = depth;
+  return depths;
+}
+
+/** Offset just past the `}` matching the `{` at `open` (or the end of input). */
+export function matchingBrace(masked: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < masked.length; i++) {
+    if (masked[i] === "{") {
+      depth++;
+    } else if (masked[i] === "}") {
+      depth--;
+      if (depth === 0) {
+        return i + 1;
+      }
+    }
+  }
+  return masked.length;
+}
+
+/** Split on commas that are not nested inside (), [], {} or <>. */
+export function splitTopLevel(text: string, separator = ","): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if ("([{<".includes(ch)) {
+      depth++;
+    } else if (")]}>".includes(ch) && !(ch === ">" && text[i - 1] === "-")) {
+      depth = Math.max(0, depth - 1);
+    } else if (ch === separator && depth === 0) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts.map((part) => part.trim()).filter(Boolean);
+}
+
+export async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    return (await fs.stat(filePath)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/** First existing candidate, or null. */
+export async function firstExisting(candidates: string[]): Promise<string | null> {
+  for (const candidate of candidates) {
+    if (await fileExists(candidate)) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+/** Files in `dir` with the given extension (non-recursive). */
+export async function listFiles(dir: string, extension: string): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    return entries
+      .filter((entry) => entry.isFile() && entry.name.endsWith(extension))
+      .map((entry) => path.join(dir, entry.name))
+      .toSorted();
+  } catch {
+    return [];
+  }
+}
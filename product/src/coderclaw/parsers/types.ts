@@ -0,0 +1,53 @@
+import type { ClassInfo, ExportInfo, FunctionInfo, InterfaceInfo, TypeInfo } from "../types.js";
+
+export type ParsedImport = {
+  /** Module specifier as written (`./util.js`, `pkg.mod`, `crate::a::b`, `github.com/x/y`). */
+  source: string;
+  imports: string[];
+  line: number;
+};
+
+export type ParsedExport = {
+  name: string;
+  kind: ExportInfo["kind"];
+  line: number;
+};
+
+/** Symbols extracted from one source file, in the shared `FileInfo` shapes. */
+export type ParsedSourceFile = {
+  language: string;
+  /** Package / module the file declares, when the language has one (Java `package`). */
+  module?: string;
+  functions: FunctionInfo[];
+  classes: ClassInfo[];
+  interfaces: InterfaceInfo[];
+  types: TypeInfo[];
+  imports: ParsedImport[];
+  exports: ParsedExport[];
+};
+
+/**
+ * A language backend for the code map. Implementations may be the built-in
+ * scanners or anything heavier (e.g. tree-sitter grammars) registered via
+ * `registerLanguageParser`.
+ */
+export type LanguageParser = {
+  /** Language id, matching `context.yaml` `languages` entries (e.g. "python"). */
+  id: string;
+  /** File extensions handled, with the leading dot. */
+  extensions: string[];
+  parse(filePath: string, content: string): ParsedSourceFile | Promise<ParsedSourceFile>;
+  /**
+   * Resolve an import to project files. Returns an empty list for external
+   * (stdlib / third-party) modules. Go package imports resolve to every file
+   * in the package directory.
+   */
+  resolveImport(params: {
+    fromFile: string;
+    /** `ParsedSourceFile.module` of the importing file. */
+    fromModule?: string;
+    source: string;
+    imports: string[];
+    projectRoot: string;
+  }): Promise<string[]>;
+};
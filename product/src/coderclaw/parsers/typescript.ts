@@ -0,0 +1,42 @@
+/**
+ * TypeScript / JavaScript backend, built on the TS compiler API (`ast-parser.ts`).
+ */
+
+import path from "node:path";
+import { extractImportsAndExportsFromSource, parseTypeScriptSource } from "../ast-parser.js";
+import type { ExportInfo } from "../types.js";
+import { firstExisting } from "./scan.js";
+import type { LanguageParser } from "./types.js";
+
+const SOURCE_EXTENSIONS = [".ts", ".tsx", ".js", ".jsx"];
+
+export const typescriptParser: LanguageParser = {
+  id: "typescript",
+  extensions: [".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs"],
+
+  parse(filePath, content) {
+    const { imports, exports } = extractImportsAndExportsFromSource(filePath, content);
+    return {
+      ...parseTypeScriptSource(filePath, content),
+      imports,
+      exports: exports.map((exp) => ({ ...exp, kind: exp.kind as ExportInfo["kind"] })),
+    };
+  },
+
+  async resolveImport({ fromFile, source }) {
+    // Skip node_modules imports
+    if (!source.startsWith(".") && !source.startsWith("/")) {
+      return [];
+    }
+    const resolved = path.resolve(path.dirname(fromFile), source);
+    // ESM TypeScript imports `./x.js` for `./x.ts`.
+    const withoutJsExt = resolved.replace(/\.[cm]?jsx?$/, "");
+    const found = await firstExisting([
+      resolved,
+      ...SOURCE_EXTENSIONS.map((ext) => withoutJsExt + ext),
+      ...SOURCE_EXTENSIONS.map((ext) => resolved + ext),
+      ...SOURCE_EXTENSIONS.map((ext) => path.join(resolved, `index${ext}`)),
+    ]);
+    return found ? [found] : [];
+  },
+};
@@ -345,6 +345,22 @@ export function buildPersonaSystemBlock(role: AgentRole): string {
   return lines.join("\n");
 }
 
+/**
+ * The role-specific part of a sub-agent's system prompt: the role's guidance
+ * followed by its persona block. Empty when the role contributes neither.
+ */
+export function buildRoleSystemPrompt(role: AgentRole): string {
+  const parts: string[] = [];
+  if (role.systemPrompt) {
+    parts.push("--- Role Guidance ---\n" + role.systemPrompt);
+  }
+  const personaBlock = buildPersonaSystemBlock(role);
+  if (personaBlock) {
+    parts.push(personaBlock);
+  }
+  return parts.join("\n\n");
+}
+
 // ---------------------------------------------------------------------------
 // Global registry singleton
 // ---------------------------------------------------------------------------
@@ -10,8 +10,15 @@
  *   - IAgentMemoryService — recall similar memories, build team memory context
  *   - IAgentTransport — unified discover + dispatch for local/remote claws
  *   - ILocalResultBroker — await results from locally-spawned subagents
+ *   - ITaskWorkspaceService — isolated per-task working trees (git worktrees)
+ *   - IApprovalService — human-in-the-loop approval checkpoints
+ *   - IUsageService — per-task token/cost usage and workflow spend caps
+ *   - IWorkflowHooks — workflow/task lifecycle callbacks (plugin hooks)
+ *   - ITestRunner — run the project's tests for step test gates
  */
 
+import type { TaskUsage, UsageTotals, WorkflowBudget } from "./workflow-budget.js";
+
 // ── Telemetry ─────────────────────────────────────────────────────────────────
 
 export interface ITelemetryService {
@@ -61,15 +68,26 @@ export interface AgentTransportEntry {
 export interface AgentTransportDispatchPayload {
   target: string;
   input: string;
+  /** Model override for the spawned agent (e.g. "anthropic/claude-sonnet-4-5"). */
+  model?: string;
+  /** Preferred provider when no `model` is given (e.g. "ollama"); resolved to a configured model. */
+  provider?: string;
+  /** Thinking level override for the spawned agent. */
+  thinking?: string;
+  /** Isolated working directory the spawned agent should operate in. */
+  workspaceDir?: string;
   requiredCapabilities?: string[];
   correlationId?: string;
   callbackClawId?: string;
   timeoutMs?: number;
+  /** Workflow and task the dispatch belongs to, for observers such as the workflow recorder. */
+  workflowId?: string;
+  taskId?: string;
 }
 
 export type AgentTransportDispatchResult =
   | { status: "accepted"; targetId: string; output?: string; childSessionKey?: string }
-  | { status: "failed"; error: string; targetId?: string };
+  | { status: "failed"; error: string; targetId?: string; childSessionKey?: string };
 
 /** Unified transport interface for local + remote claw dispatch. */
 export interface IAgentTransport {
@@ -83,3 +101,159 @@ export interface IAgentTransport {
 export interface ILocalResultBroker {
   awaitResult(runId: string, childSessionKey: string, timeoutMs: number): Promise<string>;
 }
+
+// ── Task workspaces (isolated per-task working trees) ─────────────────────────
+
+export interface TaskWorkspace {
+  /** Absolute path the task's agent should use as its workspace. */
+  path: string;
+  /** Branch checked out in `path`. */
+  branch: string;
+}
+
+export type TaskWorkspaceIntegrationResult =
+  | { status: "merged"; branch: string }
+  | { status: "conflict"; branch: string; files: string[] };
+
+export interface ITaskWorkspaceService {
+  /** Create (or reuse) an isolated workspace for a task, based on the workflow's integrated state. */
+  prepare(workflowId: string, taskId: string): Promise<TaskWorkspace>;
+  /** Commit the task's changes and merge its branch into the workflow branch. Calls are serialized per workflow. */
+  integrate(
+    workflowId: string,
+    taskId: string,
+    message: string,
+  ): Promise<TaskWorkspaceIntegrationResult>;
+  /** Remove all workspaces for a workflow. Returns the workflow branch holding the integrated result. */
+  cleanup(workflowId: string): Promise<{ branch?: string }>;
+}
+
+// ── Approvals (human-in-the-loop checkpoints) ─────────────────────────────────
+
+export type ApprovalOutcome = "approved" | "rejected" | "timeout";
+
+export interface ApprovalRequest {
+  /** Stable id; re-requesting a pending id re-attaches to it instead of asking twice. */
+  id?: string;
+  actionType: string;
+  description: string;
+  metadata?: unknown;
+  /** Session the request originates from, used to route chat notifications. */
+  sessionKey?: string;
+  timeoutMs?: number;
+}
+
+export interface IApprovalService {
+  /** Block until a human approves or rejects the request, or it times out. */
+  request(opts: ApprovalRequest): Promise<ApprovalOutcome>;
+}
+
+// ── Usage accounting (token/cost per task, spend caps) ────────────────────────
+
+export interface IUsageService {
+  /** Usage recorded in a spawned agent's session transcript, or null when unknown. */
+  collectSessionUsage(sessionKey: string): Promise<TaskUsage | null>;
+  /** Add usage to today's workflow spend. */
+  recordDailyUsage(usage: UsageTotals): Promise<void>;
+  /** Workflow spend since local midnight. */
+  getDailyUsage(): Promise<UsageTotals>;
+  /** Current spend caps; read before each task so config changes apply. */
+  getBudget(): WorkflowBudget | undefined;
+}
+
+// ── Workflow hooks (plugin lifecycle callbacks) ───────────────────────────────
+
+export interface WorkflowHookContext {
+  workflowId: string;
+  workflowType?: string;
+  /** Project root the orchestrator runs in, when known. */
+  workspaceDir?: string;
+}
+
+export interface WorkflowHookTask {
+  taskId: string;
+  stepId?: string;
+  agentRole: string;
+  description: string;
+  /** Loop iteration, 0 on the first run. */
+  iteration: number;
+}
+
+export interface WorkflowStartHookEvent {
+  taskCount: number;
+  /** True when some tasks already settled in an earlier run. */
+  resumed: boolean;
+  /** Session that started the run, when known. */
+  sessionKey?: string;
+}
+
+export interface WorkflowEndHookEvent {
+  status: "completed" | "failed";
+  durationMs: number;
+  tasks: { completed: number; failed: number; skipped: number };
+  error?: string;
+}
+
+export interface WorkflowStuckHookEvent {
+  /** Unsettled tasks, with the dependencies each still waits on. */
+  tasks: Array<WorkflowHookTask & { status: string; waitingOn: string[] }>;
+}
+
+export interface TaskBeforeDispatchHookEvent extends WorkflowHookTask {
+  /** Full prompt about to be dispatched (task text plus prior agents' context). */
+  input: string;
+  model?: string;
+}
+
+export interface TaskBeforeDispatchHookResult {
+  /** Replacement prompt. */
+  input?: string;
+  /** Replacement target role (or `remote:<clawId>`). */
+  agentRole?: string;
+  block?: boolean;
+  blockReason?: string;
+}
+
+export interface TaskEndHookEvent extends WorkflowHookTask {
+  status: "completed" | "failed" | "skipped" | "cancelled";
+  output?: string;
+  error?: string;
+  durationMs?: number;
+  /** Tokens and cost of the task's agent, summed over loop iterations. */
+  usage?: TaskUsage;
+}
+
+export interface IWorkflowHooks {
+  workflowStart(event: WorkflowStartHookEvent, ctx: WorkflowHookContext): Promise<void>;
+  workflowEnd(event: WorkflowEndHookEvent, ctx: WorkflowHookContext): Promise<void>;
+  workflowStuck(event: WorkflowStuckHookEvent, ctx: WorkflowHookContext): Promise<void>;
+  /** May rewrite the prompt, retarget the task or veto its dispatch. */
+  taskBeforeDispatch(
+    event: TaskBeforeDispatchHookEvent,
+    ctx: WorkflowHookContext,
+  ): Promise<TaskBeforeDispatchHookResult | undefined>;
+  taskEnd(event: TaskEndHookEvent, ctx: WorkflowHookContext): Promise<void>;
+}
+
+// ── Test runner (step test gates) ─────────────────────────────────────────────
+
+export interface TestGateRequest {
+  /** Tree to test: the task's worktree, or the project root. */
+  workspaceDir: string;
+  files?: string[];
+  testNamePattern?: string;
+  /** Workflow and task the gate belongs to. */
+  workflowId?: string;
+  taskId?: string;
+}
+
+export interface TestGateResult {
+  /** True only when the run reported no failures and exited cleanly. */
+  passed: boolean;
+  /** Counts plus one line per failing test, for the task output or error. */
+  summary: string;
+}
+
+export interface ITestRunner {
+  run(request: TestGateRequest): Promise<TestGateResult>;
+}
@@ -11,6 +11,11 @@ export const WORKSPACE_STATE_FILE = "workspace-state.json";
 export const SKILLS_DIR = "skills";
 export const MEMORY_DIR = "memory";
 export const SESSIONS_DIR = "sessions";
+export const WORKFLOWS_DIR = "workflows";
+export const MCP_FILE = "mcp.yaml";
+export const STAGED_DIR = "staged";
+export const CHECKPOINTS_DIR = "checkpoints";
+export const FIXTURES_DIR = "fixtures";
 
 export type CoderClawDirectory = {
   root: string;
@@ -23,6 +28,16 @@ export type CoderClawDirectory = {
   sessionsDir: string;
   /** Project-scoped persona/role plugins: .coderClaw/personas/ */
   personasDir: string;
+  /** Declarative workflow definitions: .coderClaw/workflows/ */
+  workflowsDir: string;
+  /** External MCP servers for agents working in this project: .coderClaw/mcp.yaml */
+  mcpPath: string;
+  /** Staged (not yet accepted) agent edits: .coderClaw/staged/ */
+  stagedDir: string;
+  /** Pre-tool-call workspace snapshots for /undo and /rewind: .coderClaw/checkpoints/ */
+  checkpointsDir: string;
+  /** Recorded workflow runs for `coderclaw eval replay`: .coderClaw/fixtures/ */
+  fixturesDir: string;
 };
 
 /**
@@ -40,6 +55,11 @@ export function resolveCoderClawDir(projectRoot: string): CoderClawDirectory {
     memoryDir: path.join(root, MEMORY_DIR),
     sessionsDir: path.join(root, SESSIONS_DIR),
     personasDir: path.join(root, PERSONAS_SUBDIR),
+    workflowsDir: path.join(root, WORKFLOWS_DIR),
+    mcpPath: path.join(root, MCP_FILE),
+    stagedDir: path.join(root, STAGED_DIR),
+    checkpointsDir: path.join(root, CHECKPOINTS_DIR),
+    fixturesDir: path.join(root, FIXTURES_DIR),
   };
 }
 
@@ -109,6 +109,13 @@ used to guide decision-making.
     },
     constraints: [],
     customRules: [],
+    enforcement: {
+      "codeStyle.lineLength": "warning",
+      "codeStyle.indentation": "warning",
+      "testing.required": "warning",
+      "git.commitFormat": "error",
+      "git.branchNaming": "error",
+    },
   };
 
   await fs.writeFile(dir.rulesPath, stringifyYaml(defaultRules), "utf-8");
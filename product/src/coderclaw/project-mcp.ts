@@ -0,0 +1,82 @@
+import fs from "node:fs/promises";
+import { parse as parseYaml } from "yaml";
+import type { McpServerConfig } from "../config/types.tools.js";
+import { logWarn } from "../logger.js";
+import { resolveCoderClawDir } from "./project-dir.js";
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    Object.values(value).every((v) => typeof v === "string")
+  );
+}
+
+function parseServer(name: string, raw: unknown): McpServerConfig | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    logWarn(`[project-mcp] ignoring server "${name}": expected a mapping`);
+    return null;
+  }
+  const entry = raw as Record<string, unknown>;
+  const command = typeof entry.command === "string" ? entry.command : undefined;
+  const url = typeof entry.url === "string" ? entry.url : undefined;
+  if (Boolean(command) === Boolean(url)) {
+    logWarn(`[project-mcp] ignoring server "${name}": needs exactly one of command or url`);
+    return null;
+  }
+  return {
+    enabled: typeof entry.enabled === "boolean" ? entry.enabled : undefined,
+    command,
+    args: Array.isArray(entry.args) ? entry.args.map(String) : undefined,
+    env: isStringRecord(entry.env) ? entry.env : undefined,
+    cwd: typeof entry.cwd === "string" ? entry.cwd : undefined,
+    url,
+    headers: isStringRecord(entry.headers) ? entry.headers : undefined,
+    timeoutMs: typeof entry.timeoutMs === "number" ? entry.timeoutMs : undefined,
+  };
+}
+
+/**
+ * Load project-declared MCP servers from `.coderClaw/mcp.yaml`:
+ *
+ *   servers:
+ *     github:
+ *       command: npx
+ *       args: ["-y", "@modelcontextprotocol/server-github"]
+ *     docs:
+ *       url: https://mcp.example.com/mcp
+ *
+ * Returns an empty map when the file does not exist. Invalid entries are
+ * skipped with a warning.
+ */
+export async function loadProjectMcpServers(
+  projectRoot: string,
+): Promise<Record<string, McpServerConfig>> {
+  const dir = resolveCoderClawDir(projectRoot);
+  let content: string;
+  try {
+    content = await fs.readFile(dir.mcpPath, "utf-8");
+  } catch {
+    return {};
+  }
+  let parsed: { servers?: unknown } | null;
+  try {
+    parsed = parseYaml(content) as { servers?: unknown } | null;
+  } catch (err) {
+    logWarn(`[project-mcp] failed to parse ${dir.mcpPath}: ${String(err)}`);
+    return {};
+  }
+  const servers = parsed?.servers;
+  if (!servers || typeof servers !== "object" || Array.isArray(servers)) {
+    return {};
+  }
+  const result: Record<string, McpServerConfig> = {};
+  for (const [name, raw] of Object.entries(servers)) {
+    const server = parseServer(name, raw);
+    if (server) {
+      result[name] = server;
+    }
+  }
+  return result;
+}
@@ -1,7 +1,15 @@
 import fs from "node:fs/promises";
 import path from "node:path";
 import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
+import type {
+  StepApproval,
+  StepTestGate,
+  TaskCondition,
+  TaskLoop,
+  WorkflowStep,
+} from "./orchestrator.js";
 import { resolveCoderClawDir } from "./project-dir.js";
+import type { TaskUsage } from "./workflow-budget.js";
 
 /**
  * JSON-serializable representation of a workflow task.
@@ -16,18 +24,32 @@ export type PersistedTask = {
   output?: string;
   error?: string;
   childSessionKey?: string;
+  model?: string;
+  thinking?: string;
+  branch?: string;
   createdAt: string;
   startedAt?: string;
   completedAt?: string;
   dependencies: string[];
   dependents: string[];
+  stepId?: string;
+  when?: TaskCondition;
+  loop?: TaskLoop;
+  iteration?: number;
+  approval?: StepApproval;
+  testGate?: StepTestGate;
+  usage?: TaskUsage;
 };
 
 export type PersistedWorkflow = {
   id: string;
   status: string;
   createdAt: string;
-  steps: Array<{ role: string; task: string; dependsOn?: string[] }>;
+  /** Workflow type the steps were resolved from ("feature", a project workflow name, …). */
+  type?: string;
+  branch?: string;
+  pausedReason?: string;
+  steps: WorkflowStep[];
   tasks: Record<string, PersistedTask>;
   taskResults: Record<string, string>;
 };
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import type { Task } from "./orchestrator.js";
+import {
+  DEFAULT_ROUTING_RULES,
+  parseRoutingRules,
+  resolveRouting,
+  routingTargetModel,
+  type RoutingRule,
+} from "./routing-rules.js";
+
+function makeTask(overrides: Partial<Task> = {}): Task {
+  return {
+    id: "task-1",
+    description: "Do it",
+    agentRole: "code-creator",
+    status: "pending",
+    input: "Do it",
+    dependencies: [],
+    dependents: [],
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+const OLLAMA = { type: "local", provider: "ollama", model: "qwen2.5-coder" } as const;
+
+describe("resolveRouting", () => {
+  it("matches changed files against globs", () => {
+    const rules: RoutingRule[] = [
+      {
+        priority: 10,
+        condition: { type: "changedFiles", globs: ["docs/**/*.md"] },
+        target: OLLAMA,
+      },
+    ];
+    const task = makeTask();
+    expect(resolveRouting(task, rules, { changedFiles: ["docs/guide/intro.md"] })).toBe(OLLAMA);
+    expect(resolveRouting(task, rules, { changedFiles: ["docs/README.md"] })).toBe(OLLAMA);
+    expect(resolveRouting(task, rules, { changedFiles: ["src/index.ts"] }).type).toBe("cloud");
+    expect(resolveRouting(task, rules).type).toBe("cloud");
+  });
+
+  it("matches estimated tokens and workflow type", () => {
+    const rules: RoutingRule[] = [
+      {
+        priority: 20,
+        condition: { type: "estimatedTokens", gt: 50_000 },
+        target: { type: "cloud", provider: "openai", model: "gpt-5" },
+      },
+      {
+        priority: 10,
+        condition: { type: "workflowType", matches: ["planning", "security_audit"] },
+        target: OLLAMA,
+      },
+    ];
+    const task = makeTask();
+    expect(resolveRouting(task, rules, { estimatedTokens: 60_000 })).toMatchObject({
+      provider: "openai",
+    });
+    expect(resolveRouting(task, rules, { workflowType: "planning" })).toBe(OLLAMA);
+    expect(resolveRouting(task, rules, { workflowType: "feature" })).toMatchObject({
+      provider: "anthropic",
+    });
+    // Falls back to estimating from the task input when no estimate is given
+    expect(resolveRouting(makeTask({ input: "x".repeat(200_001) }), rules)).toMatchObject({
+      provider: "openai",
+    });
+  });
+
+  it("keeps default behaviour for the built-in rules", () => {
+    expect(resolveRouting(makeTask({ agentRole: "local-helper" }), DEFAULT_ROUTING_RULES)).toEqual({
+      type: "local",
+      provider: "ollama",
+    });
+  });
+});
+
+describe("routingTargetModel", () => {
+  it("builds a provider/model ref or a provider-only preference", () => {
+    expect(routingTargetModel(OLLAMA)).toEqual({ model: "ollama/qwen2.5-coder" });
+    expect(
+      routingTargetModel({ type: "cloud", provider: "openrouter", model: "anthropic/claude" }),
+    ).toEqual({ model: "openrouter/anthropic/claude" });
+    expect(
+      routingTargetModel({ type: "local", provider: "ollama", model: "ollama/llama3" }),
+    ).toEqual({ model: "ollama/llama3" });
+    expect(routingTargetModel({ type: "local", provider: "ollama" })).toEqual({
+      provider: "ollama",
+    });
+    expect(routingTargetModel({ type: "remote", clawId: "x" })).toEqual({});
+  });
+});
+
+describe("parseRoutingRules", () => {
+  it("accepts the new condition kinds from JSON", () => {
+    const rules = parseRoutingRules([
+      { condition: { type: "workflowType", matches: "bugfix" }, target: OLLAMA, priority: 5 },
+      { condition: { type: "changedFiles", globs: ["**/*.sql"] }, target: OLLAMA },
+    ]);
+    expect(rules.map((r) => r.condition.type)).toEqual(["workflowType", "changedFiles"]);
+    expect(rules[1]?.priority).toBe(0);
+  });
+
+  it("normalizes single strings and drops malformed conditions and targets", () => {
+    const invalid: Array<[number, string]> = [];
+    const rules = parseRoutingRules(
+      [
+        { condition: { type: "changedFiles", globs: "migrations/**" }, target: OLLAMA },
+        { condition: { type: "role", matches: "/review/i" }, target: { type: "remote" } },
+        { condition: { type: "changedFiles", globs: [1, 2] }, target: OLLAMA },
+        { condition: { type: "estimatedTokens", gt: "4000" }, target: OLLAMA },
+        { condition: { type: "fileCount", gt: 3 }, target: OLLAMA },
+        { condition: { type: "always" }, target: { type: "local", provider: "vllm" } },
+        { condition: { type: "always" } },
+        "always",
+      ],
+      { onInvalid: (index, error) => invalid.push([index, error]) },
+    );
+
+    expect(rules.map((rule) => rule.condition)).toEqual([
+      { type: "changedFiles", globs: ["migrations/**"] },
+      { type: "role", matches: /review/i },
+    ]);
+    expect(
+      resolveRouting(makeTask(), rules, { changedFiles: ["migrations/2026/01_init.sql"] }),
+    ).toEqual(OLLAMA);
+    expect(invalid).toEqual([
+      [2, "changedFiles.globs must be a string or non-empty string array"],
+      [3, "estimatedTokens.gt must be a number"],
+      [4, 'unknown condition type "fileCount"'],
+      [5, "local target provider must be one of ollama, llama"],
+      [6, "rule needs a condition and a target object"],
+      [7, "rule must be an object"],
+    ]);
+  });
+});
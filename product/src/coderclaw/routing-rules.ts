@@ -7,6 +7,11 @@
  *
  * Rules are evaluated in descending priority order; the first matching rule
  * wins. If no rule matches, the default cloud/anthropic target is used.
+ *
+ * Local/cloud targets of user-defined rules are forwarded to the spawned
+ * sub-agent: a target with a `model` pins that model; a provider-only target
+ * asks the spawner to pick a configured model for that provider (see
+ * `routingTargetModel`).
  */
 
 import type { Task } from "./orchestrator.js";
@@ -17,6 +22,12 @@ export type RoutingCondition =
   | { type: "role"; matches: string | RegExp }
   | { type: "inputLength"; gt?: number; lt?: number }
   | { type: "capability"; requires: string[] }
+  /** Any file changed in the working tree matches one of the globs (`**`, `*`, `?`). */
+  | { type: "changedFiles"; globs: string[] }
+  /** Estimated prompt size of the task input (incl. prior-agent context), in tokens. */
+  | { type: "estimatedTokens"; gt?: number; lt?: number }
+  /** Type of the workflow the task belongs to (e.g. "feature", or a project workflow name). */
+  | { type: "workflowType"; matches: string | string[] }
   | { type: "always" };
 
 export type RoutingTarget =
@@ -31,6 +42,18 @@ export interface RoutingRule {
   priority: number;
 }
 
+/**
+ * Facts about a task that aren't on the `Task` itself. Supplied by the
+ * orchestrator at dispatch time; conditions needing a missing fact don't match.
+ */
+export type RoutingContext = {
+  workflowType?: string;
+  /** Repo-relative paths changed in the working tree. */
+  changedFiles?: string[];
+  /** Estimated tokens of the fully assembled task input. */
+  estimatedTokens?: number;
+};
+
 // ── Default rules ─────────────────────────────────────────────────────────────
 
 /**
@@ -38,6 +61,10 @@ export interface RoutingRule {
  * - Long inputs (>8000 chars) → cloud (Anthropic) — better long-context handling
  * - Role containing "local" → local Ollama
  * - Catch-all → cloud Anthropic
+ *
+ * These describe the default behaviour only: the orchestrator never lets a
+ * built-in rule override the agent's configured model. Model selection is
+ * driven by rules from `.coderClaw/routing-rules.json`.
  */
 export const DEFAULT_ROUTING_RULES: RoutingRule[] = [
   {
@@ -59,7 +86,56 @@ export const DEFAULT_ROUTING_RULES: RoutingRule[] = [
 
 // ── Condition evaluators ──────────────────────────────────────────────────────
 
-function evaluateCondition(condition: RoutingCondition, task: Task): boolean {
+const CHARS_PER_TOKEN_ESTIMATE = 4;
+
+/** Rough token estimate for routing decisions (~4 chars per token). */
+export function estimateRoutingTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN_ESTIMATE);
+}
+
+function globToRegExp(glob: string): RegExp {
+  let regex = "^";
+  let i = 0;
+  while (i < glob.length) {
+    const ch = glob[i];
+    if (ch === "*" && glob[i + 1] === "*") {
+      // "**/" matches zero or more directories; a trailing "**" matches anything.
+      if (glob[i + 2] === "/") {
+        regex += "(?:.*/)?";
+        i += 3;
+      } else {
+        regex += ".*";
+        i += 2;
+      }
+      continue;
+    }
+    if (ch === "*") {
+      regex += "[^/]*";
+    } else if (ch === "?") {
+      regex += "[^/]";
+    } else {
+      regex += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+    i += 1;
+  }
+  return new RegExp(`${regex}$`);
+}
+
+function inRange(value: number, gt?: number, lt?: number): boolean {
+  if (gt !== undefined && value <= gt) {
+    return false;
+  }
+  if (lt !== undefined && value >= lt) {
+    return false;
+  }
+  return true;
+}
+
+function evaluateCondition(
+  condition: RoutingCondition,
+  task: Task,
+  context: RoutingContext,
+): boolean {
   switch (condition.type) {
     case "always":
       return true;
@@ -72,15 +148,30 @@ function evaluateCondition(condition: RoutingCondition, task: Task): boolean {
       return matches.test(task.agentRole);
     }
 
-    case "inputLength": {
-      const len = task.input.length;
-      if (condition.gt !== undefined && len <= condition.gt) {
+    case "inputLength":
+      return inRange(task.input.length, condition.gt, condition.lt);
+
+    case "estimatedTokens":
+      return inRange(
+        context.estimatedTokens ?? estimateRoutingTokens(task.input),
+        condition.gt,
+        condition.lt,
+      );
+
+    case "workflowType": {
+      if (!context.workflowType) {
         return false;
       }
-      if (condition.lt !== undefined && len >= condition.lt) {
+      const types = Array.isArray(condition.matches) ? condition.matches : [condition.matches];
+      return types.includes(context.workflowType);
+    }
+
+    case "changedFiles": {
+      if (!context.changedFiles?.length || !condition.globs?.length) {
         return false;
       }
-      return true;
+      const patterns = condition.globs.map(globToRegExp);
+      return context.changedFiles.some((file) => patterns.some((re) => re.test(file)));
     }
 
     case "capability":
@@ -96,66 +187,230 @@ function evaluateCondition(condition: RoutingCondition, task: Task): boolean {
 
 // ── Main resolver ─────────────────────────────────────────────────────────────
 
-const DEFAULT_TARGET: RoutingTarget = { type: "cloud", provider: "anthropic" };
+export const DEFAULT_ROUTING_TARGET: RoutingTarget = { type: "cloud", provider: "anthropic" };
+
+/**
+ * Return the first rule (by descending priority) whose condition matches,
+ * or undefined when none does.
+ */
+export function matchRoutingRule(
+  task: Task,
+  rules: RoutingRule[],
+  context: RoutingContext = {},
+): RoutingRule | undefined {
+  // Sort descending by priority (stable sort preserves declaration order for ties)
+  const sorted = [...rules].toSorted((a, b) => b.priority - a.priority);
+  return sorted.find((rule) => evaluateCondition(rule.condition, task, context));
+}
 
 /**
  * Evaluate the list of routing rules against a task and return the first
  * matching target, sorted by descending priority.
  * Falls back to `{ type: "cloud", provider: "anthropic" }` when no rule matches.
  */
-export function resolveRouting(task: Task, rules: RoutingRule[]): RoutingTarget {
-  // Sort descending by priority (stable sort preserves declaration order for ties)
-  const sorted = [...rules].toSorted((a, b) => b.priority - a.priority);
+export function resolveRouting(
+  task: Task,
+  rules: RoutingRule[],
+  context: RoutingContext = {},
+): RoutingTarget {
+  return matchRoutingRule(task, rules, context)?.target ?? DEFAULT_ROUTING_TARGET;
+}
 
-  for (const rule of sorted) {
-    if (evaluateCondition(rule.condition, task)) {
-      return rule.target;
-    }
-  }
+/** True when any rule needs `RoutingContext.changedFiles` (which costs a git call). */
+export function routingNeedsChangedFiles(rules: RoutingRule[]): boolean {
+  return rules.some((rule) => rule.condition.type === "changedFiles");
+}
 
-  return DEFAULT_TARGET;
+/**
+ * Model selection for a local/cloud target: `model` is a full "provider/model"
+ * ref when the target names one (`target.model` may already carry the provider
+ * prefix), otherwise only `provider` is set.
+ * Returns an empty object for remote targets.
+ */
+export function routingTargetModel(target: RoutingTarget): { model?: string; provider?: string } {
+  if (target.type === "remote") {
+    return {};
+  }
+  if (target.model) {
+    const prefix = `${target.provider}/`;
+    return {
+      model: target.model.startsWith(prefix) ? target.model : `${prefix}${target.model}`,
+    };
+  }
+  return { provider: target.provider };
 }
 
 // ── JSON deserialization ──────────────────────────────────────────────────────
 
+type ParseResult<T> = { ok: true; value: T } | { ok: false; error: string };
+
+/** A string or string array as a string array; anything else is undefined. */
+function readStringList(value: unknown): string[] | undefined {
+  if (typeof value === "string") {
+    return [value];
+  }
+  if (Array.isArray(value) && value.every((entry) => typeof entry === "string")) {
+    return value;
+  }
+  return undefined;
+}
+
+function readBound(condition: Record<string, unknown>, key: "gt" | "lt"): number | undefined {
+  const value = condition[key];
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+/** Compile "/pattern/flags" to a RegExp; other strings match the role exactly. */
+function readRolePattern(matches: string): string | RegExp {
+  const m = /^\/(.+)\/([gimsuy]*)$/.exec(matches);
+  if (!m) {
+    return matches;
+  }
+  try {
+    return new RegExp(m[1], m[2] !== "" ? m[2] : undefined);
+  } catch {
+    // invalid regex — keep as string
+    return matches;
+  }
+}
+
+function parseRoutingCondition(raw: Record<string, unknown>): ParseResult<RoutingCondition> {
+  const type = raw["type"];
+  switch (type) {
+    case "always":
+      return { ok: true, value: { type } };
+    case "role": {
+      const matches = raw["matches"];
+      if (typeof matches === "string") {
+        return { ok: true, value: { type, matches: readRolePattern(matches) } };
+      }
+      return matches instanceof RegExp
+        ? { ok: true, value: { type, matches } }
+        : { ok: false, error: "role.matches must be a string" };
+    }
+    case "inputLength":
+    case "estimatedTokens": {
+      for (const key of ["gt", "lt"] as const) {
+        if (raw[key] !== undefined && readBound(raw, key) === undefined) {
+          return { ok: false, error: `${type}.${key} must be a number` };
+        }
+      }
+      const gt = readBound(raw, "gt");
+      const lt = readBound(raw, "lt");
+      return {
+        ok: true,
+        value: { type, ...(gt !== undefined ? { gt } : {}), ...(lt !== undefined ? { lt } : {}) },
+      };
+    }
+    case "capability": {
+      const requires = readStringList(raw["requires"]);
+      return requires
+        ? { ok: true, value: { type, requires } }
+        : { ok: false, error: "capability.requires must be a string or string array" };
+    }
+    case "changedFiles": {
+      const globs = readStringList(raw["globs"]);
+      return globs && globs.length > 0
+        ? { ok: true, value: { type, globs } }
+        : { ok: false, error: "changedFiles.globs must be a string or non-empty string array" };
+    }
+    case "workflowType": {
+      const matches = readStringList(raw["matches"]);
+      return matches
+        ? { ok: true, value: { type, matches } }
+        : { ok: false, error: "workflowType.matches must be a string or string array" };
+    }
+    default:
+      return { ok: false, error: `unknown condition type ${JSON.stringify(type)}` };
+  }
+}
+
+const LOCAL_PROVIDERS = new Set(["ollama", "llama"]);
+const CLOUD_PROVIDERS = new Set(["anthropic", "openai", "openrouter"]);
+
+function parseRoutingTarget(raw: Record<string, unknown>): ParseResult<RoutingTarget> {
+  const type = raw["type"];
+  const provider = raw["provider"];
+  const model = raw["model"];
+  if (model !== undefined && typeof model !== "string") {
+    return { ok: false, error: "target.model must be a string" };
+  }
+  if (type === "local" || type === "cloud") {
+    const providers = type === "local" ? LOCAL_PROVIDERS : CLOUD_PROVIDERS;
+    if (typeof provider !== "string" || !providers.has(provider)) {
+      return {
+        ok: false,
+        error: `${type} target provider must be one of ${[...providers].join(", ")}`,
+      };
+    }
+    return {
+      ok: true,
+      value: { type, provider, ...(model !== undefined ? { model } : {}) } as RoutingTarget,
+    };
+  }
+  if (type === "remote") {
+    const clawId = raw["clawId"];
+    const capabilities =
+      raw["capabilities"] === undefined ? undefined : readStringList(raw["capabilities"]);
+    if (clawId !== undefined && typeof clawId !== "string") {
+      return { ok: false, error: "remote target clawId must be a string" };
+    }
+    if (raw["capabilities"] !== undefined && !capabilities) {
+      return { ok: false, error: "remote target capabilities must be a string or string array" };
+    }
+    return {
+      ok: true,
+      value: {
+        type,
+        ...(clawId !== undefined ? { clawId } : {}),
+        ...(capabilities ? { capabilities } : {}),
+      },
+    };
+  }
+  return { ok: false, error: `unknown target type ${JSON.stringify(type)}` };
+}
+
 /**
  * Parse a RoutingRule JSON array read from `.coderClaw/routing-rules.json`.
  * String patterns in `condition.matches` are compiled to RegExp when they
- * start and end with `/` (e.g. `"/local/i"`).
+ * start and end with `/` (e.g. `"/local/i"`). A single string where a list is
+ * expected (`globs`, `requires`, `capabilities`) becomes a one-item list;
+ * rules with any other malformed condition or target are skipped and reported
+ * through `onInvalid`.
  */
-export function parseRoutingRules(raw: unknown): RoutingRule[] {
+export function parseRoutingRules(
+  raw: unknown,
+  opts: { onInvalid?: (index: number, error: string) => void } = {},
+): RoutingRule[] {
   if (!Array.isArray(raw)) {
     return [];
   }
   const result: RoutingRule[] = [];
-  for (const item of raw) {
+  for (const [index, item] of raw.entries()) {
     if (!item || typeof item !== "object") {
+      opts.onInvalid?.(index, "rule must be an object");
       continue;
     }
     const r = item as Record<string, unknown>;
-    const condition = r["condition"] as Record<string, unknown> | undefined;
-    const target = r["target"] as Record<string, unknown> | undefined;
-    if (!condition || !target) {
+    const condition = r["condition"];
+    const target = r["target"];
+    if (!condition || typeof condition !== "object" || !target || typeof target !== "object") {
+      opts.onInvalid?.(index, "rule needs a condition and a target object");
       continue;
     }
-
-    // Compile RegExp patterns from JSON string notation "/pattern/flags"
-    if (condition["type"] === "role" && typeof condition["matches"] === "string") {
-      const matchesStr = condition["matches"];
-      const m = /^\/(.+)\/([gimsuy]*)$/.exec(matchesStr);
-      if (m) {
-        try {
-          const flags = m[2] !== "" ? m[2] : undefined;
-          condition["matches"] = new RegExp(m[1], flags);
-        } catch {
-          // invalid regex — keep as string
-        }
-      }
+    const parsedCondition = parseRoutingCondition(condition as Record<string, unknown>);
+    if (!parsedCondition.ok) {
+      opts.onInvalid?.(index, parsedCondition.error);
+      continue;
+    }
+    const parsedTarget = parseRoutingTarget(target as Record<string, unknown>);
+    if (!parsedTarget.ok) {
+      opts.onInvalid?.(index, parsedTarget.error);
+      continue;
     }
-
     result.push({
-      condition: condition as unknown as RoutingCondition,
-      target: target as unknown as RoutingTarget,
+      condition: parsedCondition.value,
+      target: parsedTarget.value,
       priority: typeof r["priority"] === "number" ? r["priority"] : 0,
     });
   }
@@ -0,0 +1,187 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { saveProjectRules } from "./project-context-store.js";
+import {
+  checkBranchName,
+  checkCommitMessage,
+  checkFileChanges,
+  formatRuleFindings,
+  hasBlockingFindings,
+} from "./rules-engine.js";
+import {
+  acceptAllEdits,
+  checkStagedEdits,
+  clearAllStagedEdits,
+  stageEdit,
+} from "./staged-edits.js";
+import type { ProjectRules } from "./types.js";
+
+function makeRules(overrides: Partial<ProjectRules> = {}): ProjectRules {
+  return {
+    version: 1,
+    codeStyle: { indentation: "spaces", indentSize: 2, lineLength: 40 },
+    testing: { required: true, frameworks: [] },
+    documentation: { required: false },
+    git: { branchNaming: "feature/*, fix/*", commitFormat: "conventional" },
+    constraints: [],
+    customRules: [],
+    enforcement: { "testing.required": "error", "git.commitFormat": "error" },
+    ...overrides,
+  };
+}
+
+let root = "";
+
+beforeEach(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), "coderclaw-rules-"));
+});
+
+afterEach(async () => {
+  clearAllStagedEdits();
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+describe("checkFileChanges", () => {
+  it("reports long and mis-indented added lines only", async () => {
+    const original = `export const a = "${"x".repeat(40)}";\n`;
+    const findings = await checkFileChanges(
+      makeRules({ testing: { required: false, frameworks: [] } }),
+      [
+        {
+          filePath: path.join(root, "src/a.ts"),
+          originalContent: original,
+          proposedContent: `${original}export function b() {\n\treturn "${"y".repeat(40)}";\n}\n`,
+        },
+        {
+          filePath: path.join(root, "README.md"),
+          originalContent: null,
+          proposedContent: "z".repeat(80),
+        },
+      ],
+      { projectRoot: root },
+    );
+    expect(findings).toEqual([
+      expect.objectContaining({ rule: "codeStyle.lineLength", severity: "warning", line: 3 }),
+      expect.objectContaining({ rule: "codeStyle.indentation", severity: "warning", line: 3 }),
+    ]);
+  });
+
+  it("requires a test file on disk or pending alongside the change", async () => {
+    const rules = makeRules();
+    const change = (rel: string) => ({
+      filePath: path.join(root, rel),
+      originalContent: null,
+      proposedContent: "x = 1\n",
+    });
+
+    const missing = await checkFileChanges(rules, [change("pkg/util.py")], { projectRoot: root });
+    expect(missing).toMatchObject([{ rule: "testing.required", severity: "error" }]);
+    expect(hasBlockingFindings(missing)).toBe(true);
+
+    const pending = await checkFileChanges(rules, [change("pkg/util.py")], {
+      projectRoot: root,
+      pendingFiles: [path.join(root, "tests/test_util.py")],
+    });
+    expect(pending).toEqual([]);
+
+    await fs.mkdir(path.join(root, "src/test/java/com/acme"), { recursive: true });
+    await fs.writeFile(path.join(root, "src/test/java/com/acme/RepoTest.java"), "");
+    expect(
+      await checkFileChanges(rules, [change("src/main/java/com/acme/Repo.java")], {
+        projectRoot: root,
+      }),
+    ).toEqual([]);
+
+    // Test files themselves don't need tests.
+    expect(await checkFileChanges(rules, [change("src/a.test.ts")], { projectRoot: root })).toEqual(
+      [],
+    );
+  });
+
+  it("skips rules turned off in enforcement", async () => {
+    const findings = await checkFileChanges(
+      makeRules({ enforcement: { "testing.required": "off" } }),
+      [
+        {
+          filePath: path.join(root, "main.go"),
+          originalContent: null,
+          proposedContent: "package main\n",
+        },
+      ],
+      { projectRoot: root },
+    );
+    expect(findings).toEqual([]);
+  });
+});
+
+describe("git rules", () => {
+  it("checks commit subjects against conventional commits or a custom regex", () => {
+    const rules = makeRules();
+    expect(checkCommitMessage(rules, "feat(cli): add flag\n\nbody")).toEqual([]);
+    expect(checkCommitMessage(rules, "fix!: drop node 18")).toEqual([]);
+    expect(checkCommitMessage(rules, "Added stuff")).toMatchObject([
+      { rule: "git.commitFormat", severity: "error" },
+    ]);
+
+    const custom = makeRules({ git: { commitFormat: "^\\[[A-Z]+-\\d+\\] " } });
+    expect(checkCommitMessage(custom, "[ENG-12] Fix login")).toEqual([]);
+    expect(checkCommitMessage(custom, "Fix login")).toHaveLength(1);
+  });
+
+  it("checks branch names against branchNaming globs", () => {
+    const rules = makeRules();
+    expect(checkBranchName(rules, "feature/42-login")).toEqual([]);
+    expect(checkBranchName(rules, "claw/issue-42")).toMatchObject([
+      { rule: "git.branchNaming", severity: "warning" },
+    ]);
+    expect(checkBranchName(makeRules({ git: {} }), "anything")).toEqual([]);
+  });
+});
+
+describe("staged edits", () => {
+  it("reports findings when staging and checks the whole staged set", async () => {
+    await saveProjectRules(root, makeRules());
+    const source = path.join(root, "src/util.ts");
+
+    const staged = await stageEdit({
+      filePath: source,
+      proposedContent: "export const x = 1;\n",
+      toolCallId: "t1",
+      projectRoot: root,
+    });
+    expect(staged.findings).toMatchObject([{ rule: "testing.required", severity: "error" }]);
+    expect(staged.message).toContain("[testing.required]");
+    expect(hasBlockingFindings(await checkStagedEdits(root))).toBe(true);
+
+    await stageEdit({
+      filePath: path.join(root, "src/util.test.ts"),
+      proposedContent: "import './util.js';\n",
+      toolCallId: "t2",
+    });
+    expect(await checkStagedEdits(root)).toEqual([]);
+    expect(await checkStagedEdits(root, [source])).toEqual([]);
+    await acceptAllEdits();
+    expect(await fs.readFile(source, "utf-8")).toBe("export const x = 1;\n");
+  });
+
+  it("formats findings relative to the project root", () => {
+    expect(
+      formatRuleFindings(
+        [
+          {
+            rule: "codeStyle.lineLength",
+            severity: "warning",
+            message: "1 line(s) exceed 40 characters (first at line 3).",
+            file: path.join(root, "src/a.ts"),
+            line: 3,
+          },
+        ],
+        root,
+      ),
+    ).toBe(
+      `⚠ [codeStyle.lineLength] ${path.join("src", "a.ts")}:3 1 line(s) exceed 40 characters (first at line 3).`,
+    );
+  });
+});
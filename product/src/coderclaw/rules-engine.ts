@@ -0,0 +1,256 @@
+/**
+ * Rules engine — checks changes against `.coderClaw/rules.yaml`.
+ *
+ * `ProjectRules` is otherwise only shown to agents as prompt text. This module
+ * turns the mechanically checkable parts of it into findings:
+ *
+ *   codeStyle.lineLength   added lines longer than `codeStyle.lineLength`
+ *   codeStyle.indentation  added lines indented with the wrong character
+ *   testing.required       source files changed without a matching test file
+ *   git.commitFormat       commit subjects ("conventional" or a regex)
+ *   git.branchNaming       branch names (comma-separated globs, e.g. "feature/*")
+ *
+ * Each rule reports at the severity set in `enforcement` (default: warning).
+ * Errors block `/accept` and agent git commands; warnings are only reported.
+ */
+
+import path from "node:path";
+import { getLanguageParser } from "./parsers/index.js";
+import { fileExists } from "./parsers/scan.js";
+import type { ProjectRules, RuleFinding, RuleId, RuleSeverity } from "./types.js";
+
+export type RuleFileChange = {
+  /** Absolute path of the changed file. */
+  filePath: string;
+  /** Content before the change; null for new files. */
+  originalContent: string | null;
+  proposedContent: string;
+};
+
+const CONVENTIONAL_COMMIT_RE =
+  /^(feat|fix|docs|style|refactor|perf|test|build|ci|chore|revert)(\([^)]+\))?!?: \S/;
+const TEST_FILE_RE = /(?:[._-](?:test|spec)|Tests?|IT)\.[^./\\]+$|^test_[^/\\]+\.py$/;
+const TEST_DIRS = new Set(["test", "tests", "__tests__", "spec"]);
+
+function severityOf(rules: ProjectRules, rule: RuleId): RuleSeverity | "off" {
+  return rules.enforcement?.[rule] ?? "warning";
+}
+
+function finding(
+  rules: ProjectRules,
+  rule: RuleId,
+  message: string,
+  location?: { file: string; line?: number },
+): RuleFinding[] {
+  const severity = severityOf(rules, rule);
+  return severity === "off" ? [] : [{ rule, severity, message, ...location }];
+}
+
+export function isTestFile(filePath: string): boolean {
+  if (TEST_FILE_RE.test(path.basename(filePath))) {
+    return true;
+  }
+  return filePath.split(/[/\\]/).some((segment) => TEST_DIRS.has(segment));
+}
+
+/** Places a test for `filePath` conventionally lives, across the supported languages. */
+export function testFileCandidates(filePath: string, projectRoot: string): string[] {
+  const dir = path.dirname(filePath);
+  const ext = path.extname(filePath);
+  const name = path.basename(filePath, ext);
+  const names = [
+    `${name}.test${ext}`,
+    `${name}.spec${ext}`,
+    `${name}_test${ext}`,
+    `test_${name}${ext}`,
+    `${name}Test${ext}`,
+    `${name}Tests${ext}`,
+  ];
+  const dirs = [dir, path.join(dir, "__tests__"), path.join(projectRoot, "tests")];
+  // Maven/Gradle layout: src/main/<lang>/a/B.java -> src/test/<lang>/a/BTest.java
+  const mainSegment = `${path.sep}src${path.sep}main${path.sep}`;
+  if (dir.includes(mainSegment)) {
+    dirs.push(dir.replace(mainSegment, `${path.sep}src${path.sep}test${path.sep}`));
+  }
+  return dirs.flatMap((candidateDir) => names.map((file) => path.join(candidateDir, file)));
+}
+
+async function hasTestFile(candidates: string[], pending: Set<string>): Promise<boolean> {
+  if (candidates.some((candidate) => pending.has(candidate))) {
+    return true;
+  }
+  for (const candidate of candidates) {
+    if (await fileExists(candidate)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/** Lines in `proposed` that are not in `original`, with their 1-based numbers. */
+function addedLines(change: RuleFileChange): Array<{ line: number; text: string }> {
+  const before = new Set(change.originalContent?.split("\n") ?? []);
+  return change.proposedContent
+    .split("\n")
+    .map((text, index) => ({ line: index + 1, text: text.replace(/\r$/, "") }))
+    .filter((entry) => !before.has(entry.text));
+}
+
+function checkCodeStyle(rules: ProjectRules, change: RuleFileChange): RuleFinding[] {
+  const findings: RuleFinding[] = [];
+  const added = addedLines(change);
+  const limit = rules.codeStyle?.lineLength;
+  if (limit) {
+    const long = added.filter((entry) => entry.text.length > limit);
+    if (long.length > 0) {
+      findings.push(
+        ...finding(
+          rules,
+          "codeStyle.lineLength",
+          `${long.length} line(s) exceed ${limit} characters (first at line ${long[0].line}).`,
+          { file: change.filePath, line: long[0].line },
+        ),
+      );
+    }
+  }
+  const indentation = rules.codeStyle?.indentation;
+  if (indentation) {
+    const wrong = added.filter((entry) => {
+      const indent = /^[ \t]*/.exec(entry.text)?.[0] ?? "";
+      // Spaces after a tab are alignment; only the leading character decides.
+      return indentation === "spaces" ? indent.includes("\t") : indent.startsWith("  ");
+    });
+    if (wrong.length > 0) {
+      findings.push(
+        ...finding(
+          rules,
+          "codeStyle.indentation",
+          `${wrong.length} line(s) are not indented with ${indentation} (first at line ${wrong[0].line}).`,
+          { file: change.filePath, line: wrong[0].line },
+        ),
+      );
+    }
+  }
+  return findings;
+}
+
+/**
+ * Check file changes (staged edits, task diffs) against the project rules.
+ *
+ * `pendingFiles` are other files about to land alongside these changes; a
+ * test file among them satisfies `testing.required`.
+ */
+export async function checkFileChanges(
+  rules: ProjectRules,
+  changes: RuleFileChange[],
+  options: { projectRoot: string; pendingFiles?: string[] },
+): Promise<RuleFinding[]> {
+  const findings: RuleFinding[] = [];
+  const pending = new Set([
+    ...changes.map((change) => path.resolve(change.filePath)),
+    ...(options.pendingFiles ?? []).map((file) => path.resolve(file)),
+  ]);
+
+  for (const change of changes) {
+    // Only source files the code map understands are held to code rules.
+    if (!getLanguageParser(change.filePath)) {
+      continue;
+    }
+    findings.push(...checkCodeStyle(rules, change));
+
+    if (
+      rules.testing?.required &&
+      !isTestFile(change.filePath) &&
+      !change.filePath.endsWith(".d.ts") &&
+      // Rust keeps unit tests inline.
+      !change.proposedContent.includes("#[cfg(test)]")
+    ) {
+      const candidates = testFileCandidates(path.resolve(change.filePath), options.projectRoot);
+      if (!(await hasTestFile(candidates, pending))) {
+        findings.push(
+          ...finding(
+            rules,
+            "testing.required",
+            `No test file for ${path.relative(options.projectRoot, change.filePath)} (expected e.g. ${path.relative(options.projectRoot, candidates[0])}).`,
+            { file: change.filePath },
+          ),
+        );
+      }
+    }
+  }
+  return findings;
+}
+
+/**
+ * Check a commit message against `git.commitFormat`: "conventional" for
+ * Conventional Commits, anything else is a regex matched against the subject.
+ */
+export function checkCommitMessage(rules: ProjectRules, message: string): RuleFinding[] {
+  const format = rules.git?.commitFormat?.trim();
+  if (!format) {
+    return [];
+  }
+  const subject = message.trim().split("\n")[0] ?? "";
+  let pattern: RegExp;
+  if (format === "conventional") {
+    pattern = CONVENTIONAL_COMMIT_RE;
+  } else {
+    try {
+      pattern = new RegExp(format);
+    } catch {
+      return [];
+    }
+  }
+  if (pattern.test(subject)) {
+    return [];
+  }
+  const expected =
+    format === "conventional" ? 'Conventional Commits ("type(scope): summary")' : `/${format}/`;
+  return finding(
+    rules,
+    "git.commitFormat",
+    `Commit message "${subject}" does not match ${expected}.`,
+  );
+}
+
+function globToRegExp(glob: string): RegExp {
+  const escaped = glob.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".+");
+  return new RegExp(`^${escaped.replace(/\?/g, ".")}$`);
+}
+
+/** Branch patterns from `git.branchNaming` ("feature/*, fix/*"). */
+export function branchPatterns(rules: ProjectRules): string[] {
+  return (rules.git?.branchNaming ?? "")
+    .split(",")
+    .map((pattern) => pattern.trim())
+    .filter(Boolean);
+}
+
+/** Check a branch name against the `git.branchNaming` globs. */
+export function checkBranchName(rules: ProjectRules, branch: string): RuleFinding[] {
+  const patterns = branchPatterns(rules);
+  if (patterns.length === 0 || patterns.some((pattern) => globToRegExp(pattern).test(branch))) {
+    return [];
+  }
+  return finding(
+    rules,
+    "git.branchNaming",
+    `Branch "${branch}" does not match ${patterns.join(", ")}.`,
+  );
+}
+
+export function hasBlockingFindings(findings: RuleFinding[]): boolean {
+  return findings.some((entry) => entry.severity === "error");
+}
+
+/** One line per finding, for agent tool results and TUI messages. */
+export function formatRuleFindings(findings: RuleFinding[], projectRoot?: string): string {
+  return findings
+    .map((entry) => {
+      const file = entry.file
+        ? `${projectRoot ? path.relative(projectRoot, entry.file) : entry.file}${entry.line ? `:${entry.line}` : ""} `
+        : "";
+      return `${entry.severity === "error" ? "✖" : "⚠"} [${entry.rule}] ${file}${entry.message}`;
+    })
+    .join("\n");
+}
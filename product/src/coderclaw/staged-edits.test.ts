@@ -0,0 +1,119 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { resolveCoderClawDir } from "./project-dir.js";
+import {
+  acceptEdit,
+  buildUnifiedDiff,
+  clearAllStagedEdits,
+  getStagedEdit,
+  getStagedEdits,
+  getStagedHunks,
+  loadStagedEdits,
+  parseStagedTarget,
+  rejectEdit,
+  stageEdit,
+} from "./staged-edits.js";
+
+const ORIGINAL = ["one", "two", "three", "four", "five", "six", "seven", "eight", ""].join("\n");
+const PROPOSED = ["one", "TWO", "three", "four", "five", "six", "SEVEN", "eight", ""].join("\n");
+
+let root = "";
+let file = "";
+
+beforeEach(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), "coderclaw-staged-"));
+  file = path.join(root, "notes.txt");
+  await fs.writeFile(file, ORIGINAL);
+});
+
+afterEach(async () => {
+  clearAllStagedEdits();
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+async function stage(proposedContent = PROPOSED) {
+  return stageEdit({ filePath: file, proposedContent, toolCallId: "call-1", projectRoot: root });
+}
+
+describe("staged edits", () => {
+  it("persists under .coderClaw/staged and reloads after a restart", async () => {
+    await stage();
+    expect(await fs.readdir(resolveCoderClawDir(root).stagedDir)).toHaveLength(1);
+
+    clearAllStagedEdits();
+    expect(getStagedEdits()).toEqual([]);
+    const loaded = await loadStagedEdits(root);
+    expect(loaded.map((edit) => edit.filePath)).toEqual([file]);
+    expect(getStagedEdit(file)?.proposedContent).toBe(PROPOSED);
+
+    await rejectEdit(file);
+    expect(await fs.readdir(resolveCoderClawDir(root).stagedDir)).toEqual([]);
+  });
+
+  it("numbers hunks and accepts them one at a time", async () => {
+    const { message } = await stage();
+    expect(message).toContain("2 hunk(s)");
+    const edit = getStagedEdit(file)!;
+    expect(getStagedHunks(edit).map((hunk) => [hunk.index, hunk.proposedLines])).toEqual([
+      [1, ["TWO"]],
+      [2, ["SEVEN"]],
+    ]);
+    expect(buildUnifiedDiff(edit)).toContain("@@ -4,6 +4,6 @@ hunk 2");
+
+    expect(await acceptEdit(file, { hunks: [2] })).toMatchObject({
+      accepted: true,
+      remainingHunks: 1,
+    });
+    expect(await fs.readFile(file, "utf-8")).toBe(ORIGINAL.replace("seven", "SEVEN"));
+
+    // The remaining hunk is renumbered and survives a reload.
+    clearAllStagedEdits();
+    await loadStagedEdits(root);
+    expect(getStagedHunks(getStagedEdit(file)!).map((hunk) => hunk.proposedLines)).toEqual([
+      ["TWO"],
+    ]);
+    expect(await acceptEdit(file, { hunks: [3] })).toMatchObject({ accepted: false });
+    expect(await acceptEdit(file)).toMatchObject({ accepted: true, remainingHunks: 0 });
+    expect(await fs.readFile(file, "utf-8")).toBe(PROPOSED);
+    expect(getStagedEdit(file)).toBeUndefined();
+  });
+
+  it("rejects single hunks", async () => {
+    await stage();
+    expect(await rejectEdit(file, { hunks: [1] })).toMatchObject({
+      rejected: true,
+      remainingHunks: 1,
+    });
+    expect(getStagedEdit(file)?.proposedContent).toBe(ORIGINAL.replace("seven", "SEVEN"));
+  });
+
+  it("merges around concurrent edits and flags overlapping ones", async () => {
+    await stage();
+    // A human edits an unrelated line after staging: both changes land.
+    await fs.writeFile(file, ORIGINAL.replace("five", "FIVE (human)"));
+    expect(await acceptEdit(file, { hunks: [1] })).toMatchObject({ accepted: true });
+    expect(await fs.readFile(file, "utf-8")).toBe(
+      ORIGINAL.replace("two", "TWO").replace("five", "FIVE (human)"),
+    );
+
+    // Then touches the line the remaining hunk changes: nothing is overwritten.
+    const human = ORIGINAL.replace("two", "TWO")
+      .replace("five", "FIVE (human)")
+      .replace("seven", "7");
+    await fs.writeFile(file, human);
+    const result = await acceptEdit(file);
+    expect(result).toMatchObject({
+      accepted: false,
+      conflicts: [{ line: 7, ours: ["7"], theirs: ["SEVEN"] }],
+    });
+    expect(await fs.readFile(file, "utf-8")).toBe(human);
+    expect(getStagedEdit(file)).toBeDefined();
+  });
+
+  it("parses hunk targets", () => {
+    expect(parseStagedTarget("src/a.ts:2,3")).toEqual({ filePath: "src/a.ts", hunks: [2, 3] });
+    expect(parseStagedTarget("src/a.ts")).toEqual({ filePath: "src/a.ts" });
+  });
+});
@@ -1,15 +1,35 @@
 /**
- * Staged edits — per-session buffer for reviewing agent file changes before they land.
+ * Staged edits — per-project buffer for reviewing agent file changes before they land.
  *
  * When CODERCLAW_STAGED=true (or staged mode is activated via /diff), the edit/create
  * tools write proposed changes here instead of directly to disk. The developer then
- * uses /diff, /accept, and /reject to review and apply or discard changes.
+ * uses /diff, /accept, and /reject to review and apply or discard changes, either
+ * whole files or single hunks (`/accept src/a.ts:2`).
+ *
+ * Edits staged with a `projectRoot` are persisted under `.coderClaw/staged/` so they
+ * survive gateway restarts (`loadStagedEdits`). Accepting merges the proposal into
+ * the file as it is on disk now (three-way, against the content at staging time):
+ * concurrent human edits are kept, and overlapping ones are reported as conflicts
+ * instead of being overwritten.
  *
  * This is the same UX as Cursor Composer's accept/reject panel and Aider's diff mode.
  */
 
+import { createHash } from "node:crypto";
 import fs from "node:fs/promises";
 import path from "node:path";
+import { loadProjectRules } from "./project-context-store.js";
+import { resolveCoderClawDir } from "./project-dir.js";
+import { checkFileChanges, formatRuleFindings } from "./rules-engine.js";
+import {
+  applyChanges,
+  diffLines,
+  mergeThreeWay,
+  splitLines,
+  type LineChange,
+  type MergeConflict,
+} from "./text-merge.js";
+import type { RuleFinding } from "./types.js";
 
 export type StagedEdit = {
   /** Absolute path of the file */
@@ -26,6 +46,30 @@ export type StagedEdit = {
   label: string;
   /** ISO timestamp when staged */
   stagedAt: string;
+  /** Project the edit is persisted in (.coderClaw/staged/); unset for in-memory edits */
+  projectRoot?: string;
+};
+
+/** One independently acceptable change within a staged edit. */
+export type StagedHunk = {
+  /** 1-based hunk number, as used by `/accept file:<n>` */
+  index: number;
+  /** 1-based first line in the original content */
+  originalStart: number;
+  originalLines: string[];
+  /** 1-based first line in the proposed content */
+  proposedStart: number;
+  proposedLines: string[];
+};
+
+export type AcceptEditResult = {
+  accepted: boolean;
+  filePath: string;
+  error?: string;
+  /** Regions where the file changed on disk in a way that overlaps the proposal */
+  conflicts?: MergeConflict[];
+  /** Hunks still staged for this file after a partial accept */
+  remainingHunks?: number;
 };
 
 /** In-memory staged edits store. Keyed by absolute file path. */
@@ -62,24 +106,150 @@ export function hasStagedEdits(): boolean {
   return _store.size > 0;
 }
 
+function stagedEditPath(projectRoot: string, filePath: string): string {
+  const id = createHash("sha256").update(filePath).digest("hex").slice(0, 16);
+  return path.join(resolveCoderClawDir(projectRoot).stagedDir, `${id}.json`);
+}
+
+async function persistEdit(edit: StagedEdit): Promise<void> {
+  if (!edit.projectRoot) {
+    return;
+  }
+  const file = stagedEditPath(edit.projectRoot, edit.filePath);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, `${JSON.stringify(edit, null, 2)}\n`, "utf-8");
+}
+
+async function dropEdit(edit: StagedEdit): Promise<void> {
+  _store.delete(edit.filePath);
+  if (edit.projectRoot) {
+    await fs.rm(stagedEditPath(edit.projectRoot, edit.filePath), { force: true });
+  }
+}
+
+/**
+ * Load edits persisted under `.coderClaw/staged/` into the store (e.g. after a
+ * gateway restart). Unreadable entries are skipped. Returns the project's edits.
+ */
+export async function loadStagedEdits(projectRoot: string): Promise<StagedEdit[]> {
+  const dir = resolveCoderClawDir(projectRoot).stagedDir;
+  let entries: string[];
+  try {
+    entries = await fs.readdir(dir);
+  } catch {
+    return [];
+  }
+  const loaded: StagedEdit[] = [];
+  for (const entry of entries.filter((name) => name.endsWith(".json")).toSorted()) {
+    try {
+      const edit = JSON.parse(await fs.readFile(path.join(dir, entry), "utf-8")) as StagedEdit;
+      if (typeof edit.filePath !== "string" || typeof edit.proposedContent !== "string") {
+        continue;
+      }
+      edit.projectRoot = projectRoot;
+      _store.set(edit.filePath, edit);
+      loaded.push(edit);
+    } catch {
+      // Partially written or hand-edited file; leave it for inspection.
+    }
+  }
+  return loaded;
+}
+
+function editChanges(edit: StagedEdit): LineChange[] {
+  return diffLines(splitLines(edit.originalContent ?? ""), splitLines(edit.proposedContent));
+}
+
+/** The hunks of a staged edit, numbered from 1. */
+export function getStagedHunks(edit: StagedEdit): StagedHunk[] {
+  const original = splitLines(edit.originalContent ?? "");
+  let offset = 0;
+  return editChanges(edit).map((change, index) => {
+    const hunk: StagedHunk = {
+      index: index + 1,
+      originalStart: change.start + 1,
+      originalLines: original.slice(change.start, change.end),
+      proposedStart: change.start + offset + 1,
+      proposedLines: change.lines,
+    };
+    offset += change.lines.length - (change.end - change.start);
+    return hunk;
+  });
+}
+
 /**
- * Stage a proposed edit. Reads the original content from disk if the file exists.
- * Returns a confirmation message to return to the agent.
+ * Split the edit's changes by hunk number. Numbers that don't exist are an
+ * error rather than being ignored.
+ */
+function selectHunks(
+  edit: StagedEdit,
+  hunks: number[] | undefined,
+): { selected: LineChange[]; rest: LineChange[] } | { error: string } {
+  const changes = editChanges(edit);
+  if (!hunks) {
+    return { selected: changes, rest: [] };
+  }
+  const wanted = new Set(hunks);
+  const missing = hunks.filter((index) => index < 1 || index > changes.length);
+  if (missing.length > 0) {
+    return {
+      error: `No hunk ${missing.join(", ")} in ${edit.filePath} (${changes.length} hunk${changes.length === 1 ? "" : "s"} staged).`,
+    };
+  }
+  return {
+    selected: changes.filter((_, index) => wanted.has(index + 1)),
+    rest: changes.filter((_, index) => !wanted.has(index + 1)),
+  };
+}
+
+/**
+ * Check staged edits against the project's rules.yaml. Defaults to every
+ * staged edit; other staged files still count as pending (e.g. a staged test).
+ */
+export async function checkStagedEdits(
+  projectRoot: string,
+  filePaths?: string[],
+): Promise<RuleFinding[]> {
+  const rules = await loadProjectRules(projectRoot);
+  if (!rules) {
+    return [];
+  }
+  const edits = filePaths
+    ? filePaths.flatMap((filePath) => getStagedEdit(filePath) ?? [])
+    : getStagedEdits();
+  return checkFileChanges(rules, edits, {
+    projectRoot,
+    pendingFiles: Array.from(_store.keys()),
+  });
+}
+
+/**
+ * Stage a proposed edit. Reads the original content from disk if the file exists;
+ * restaging a file keeps the original from the first staging so the diff and merge
+ * base stay the same. Returns a confirmation message to return to the agent. With a
+ * `projectRoot`, the edit is persisted and checked against rules.yaml.
  */
 export async function stageEdit(params: {
   filePath: string;
   proposedContent: string;
   toolCallId: string;
   label?: string;
-}): Promise<{ staged: true; filePath: string; message: string }> {
+  projectRoot?: string;
+}): Promise<{ staged: true; filePath: string; message: string; findings: RuleFinding[] }> {
   const abs = path.resolve(params.filePath);
+  const previous = _store.get(abs);
   let originalContent: string | null = null;
   let isNew = false;
 
-  try {
-    originalContent = await fs.readFile(abs, "utf-8");
-  } catch {
-    isNew = true;
+  if (previous) {
+    originalContent = previous.originalContent;
+    isNew = previous.isNew;
+  } else {
+    try {
+      originalContent = await fs.readFile(abs, "utf-8");
+    } catch {
+      isNew = true;
+    }
   }
 
   const edit: StagedEdit = {
@@ -90,37 +260,79 @@ export async function stageEdit(params: {
     toolCallId: params.toolCallId,
     label: params.label ?? path.basename(abs),
     stagedAt: new Date().toISOString(),
+    projectRoot: params.projectRoot ? path.resolve(params.projectRoot) : previous?.projectRoot,
   };
 
   _store.set(abs, edit);
+  await persistEdit(edit);
+
+  const findings = params.projectRoot ? await checkStagedEdits(params.projectRoot, [abs]) : [];
+  const message = isNew
+    ? `Staged new file: ${abs}. Run /accept to apply or /reject to discard.`
+    : `Staged edit to ${abs} (${getStagedHunks(edit).length} hunk(s)). Run /diff to review, /accept to apply, or /reject to discard.`;
 
   return {
     staged: true,
     filePath: abs,
-    message: isNew
-      ? `Staged new file: ${abs}. Run /accept to apply or /reject to discard.`
-      : `Staged edit to ${abs}. Run /diff to review, /accept to apply, or /reject to discard.`,
+    message:
+      findings.length > 0
+        ? `${message}\n\nProject rules:\n${formatRuleFindings(findings, params.projectRoot)}`
+        : message,
+    findings,
   };
 }
 
 /**
- * Apply a staged edit to disk (accept).
- * Returns the file path on success.
+ * Apply a staged edit (or some of its hunks) to disk (accept).
+ *
+ * The selected hunks are merged into the file's current content, using the content
+ * at staging time as the base. If the file changed on disk in the same regions, nothing
+ * is written and the conflicts are returned; the edit stays staged.
  */
 export async function acceptEdit(
   filePath: string,
-): Promise<{ accepted: boolean; filePath: string; error?: string }> {
+  options: { hunks?: number[] } = {},
+): Promise<AcceptEditResult> {
   const abs = path.resolve(filePath);
   const edit = _store.get(abs);
   if (!edit) {
     return { accepted: false, filePath: abs, error: "No staged edit found for this file." };
   }
+  const selection = selectHunks(edit, options.hunks);
+  if ("error" in selection) {
+    return { accepted: false, filePath: abs, error: selection.error };
+  }
+
+  let current: string | null = null;
+  try {
+    current = await fs.readFile(abs, "utf-8");
+  } catch {
+    // Missing file: fine for a new file, a conflict for an edit.
+  }
+  const base = edit.originalContent ?? "";
+  const target = applyChanges(splitLines(base), selection.selected).join("\n");
+  if (current === null && !edit.isNew) {
+    return {
+      accepted: false,
+      filePath: abs,
+      error: "File was deleted after the edit was staged.",
+      conflicts: [{ line: 1, base: splitLines(base), ours: [], theirs: splitLines(target) }],
+    };
+  }
+
+  const merged = mergeThreeWay(base, current ?? "", target);
+  if (merged.conflicts.length > 0) {
+    return {
+      accepted: false,
+      filePath: abs,
+      error: `File changed on disk since staging; ${merged.conflicts.length} conflicting region(s). Review with /diff, then restage or /reject.`,
+      conflicts: merged.conflicts,
+    };
+  }
 
   try {
     await fs.mkdir(path.dirname(abs), { recursive: true });
-    await fs.writeFile(abs, edit.proposedContent, "utf-8");
-    _store.delete(abs);
-    return { accepted: true, filePath: abs };
+    await fs.writeFile(abs, merged.content, "utf-8");
   } catch (err) {
     return {
       accepted: false,
@@ -128,6 +340,16 @@ export async function acceptEdit(
       error: `Failed to write file: ${err instanceof Error ? err.message : String(err)}`,
     };
   }
+
+  if (selection.rest.length === 0) {
+    await dropEdit(edit);
+    return { accepted: true, filePath: abs, remainingHunks: 0 };
+  }
+  // The accepted hunks are now part of the base; the rest stay staged against it.
+  const next: StagedEdit = { ...edit, originalContent: target, isNew: false };
+  _store.set(abs, next);
+  await persistEdit(next);
+  return { accepted: true, filePath: abs, remainingHunks: selection.rest.length };
 }
 
 /**
@@ -135,17 +357,21 @@ export async function acceptEdit(
  */
 export async function acceptAllEdits(): Promise<{
   accepted: string[];
-  failed: Array<{ filePath: string; error: string }>;
+  failed: Array<{ filePath: string; error: string; conflicts?: MergeConflict[] }>;
 }> {
   const accepted: string[] = [];
-  const failed: Array<{ filePath: string; error: string }> = [];
+  const failed: Array<{ filePath: string; error: string; conflicts?: MergeConflict[] }> = [];
 
-  for (const edit of _store.values()) {
+  for (const edit of Array.from(_store.values())) {
     const result = await acceptEdit(edit.filePath);
     if (result.accepted) {
       accepted.push(result.filePath);
     } else {
-      failed.push({ filePath: result.filePath, error: result.error ?? "unknown error" });
+      failed.push({
+        filePath: result.filePath,
+        error: result.error ?? "unknown error",
+        conflicts: result.conflicts,
+      });
     }
   }
 
@@ -153,61 +379,89 @@ export async function acceptAllEdits(): Promise<{
 }
 
 /**
- * Discard a staged edit without applying it (reject).
+ * Discard a staged edit, or some of its hunks, without applying it (reject).
  */
-export function rejectEdit(filePath: string): {
+export async function rejectEdit(
+  filePath: string,
+  options: { hunks?: number[] } = {},
+): Promise<{
   rejected: boolean;
   filePath: string;
   error?: string;
-} {
+  remainingHunks?: number;
+}> {
   const abs = path.resolve(filePath);
-  if (!_store.has(abs)) {
+  const edit = _store.get(abs);
+  if (!edit) {
     return { rejected: false, filePath: abs, error: "No staged edit found for this file." };
   }
-  _store.delete(abs);
-  return { rejected: true, filePath: abs };
+  const selection = selectHunks(edit, options.hunks);
+  if ("error" in selection) {
+    return { rejected: false, filePath: abs, error: selection.error };
+  }
+  if (selection.rest.length === 0) {
+    await dropEdit(edit);
+    return { rejected: true, filePath: abs, remainingHunks: 0 };
+  }
+  const next: StagedEdit = {
+    ...edit,
+    proposedContent: applyChanges(splitLines(edit.originalContent ?? ""), selection.rest).join(
+      "\n",
+    ),
+  };
+  _store.set(abs, next);
+  await persistEdit(next);
+  return { rejected: true, filePath: abs, remainingHunks: selection.rest.length };
 }
 
 /**
  * Discard all staged edits.
  */
-export function rejectAllEdits(): { rejected: string[] } {
-  const rejected = Array.from(_store.keys());
-  _store.clear();
-  return { rejected };
+export async function rejectAllEdits(): Promise<{ rejected: string[] }> {
+  const edits = Array.from(_store.values());
+  for (const edit of edits) {
+    await dropEdit(edit);
+  }
+  return { rejected: edits.map((edit) => edit.filePath) };
 }
 
 /**
- * Produce a unified diff string for a staged edit.
+ * Produce a unified diff string for a staged edit, one numbered `@@` block per hunk
+ * (with up to three lines of context) so hunks can be accepted individually.
  * Uses a simple line-diff algorithm (no external diff binary required).
  */
 export function buildUnifiedDiff(edit: StagedEdit): string {
-  const from = edit.originalContent ?? "";
-  const to = edit.proposedContent;
   const relPath = edit.filePath;
+  const hunks = getStagedHunks(edit);
 
-  if (from === to) {
+  if (hunks.length === 0) {
     return `--- ${relPath}\n+++ ${relPath}\n(no changes)\n`;
   }
 
-  const fromLines = from.split("\n");
-  const toLines = to.split("\n");
-
+  const original = splitLines(edit.originalContent ?? "");
   const header = edit.isNew
     ? `--- /dev/null\n+++ ${relPath}\n`
     : `--- ${relPath} (original)\n+++ ${relPath} (proposed)\n`;
-
-  // Simple unified diff: show all lines as one hunk for clarity
-  const changes: string[] = [];
-
-  for (const line of fromLines) {
-    changes.push(`-${line}`);
-  }
-  for (const line of toLines) {
-    changes.push(`+${line}`);
-  }
-
-  return `${header}@@ -1,${fromLines.length} +1,${toLines.length} @@\n${changes.join("\n")}\n`;
+  const context = 3;
+
+  const blocks = hunks.map((hunk) => {
+    const start = hunk.originalStart - 1;
+    const end = start + hunk.originalLines.length;
+    const before = original.slice(Math.max(0, start - context), start);
+    const after = original.slice(end, end + context);
+    const oldCount = before.length + hunk.originalLines.length + after.length;
+    const newCount = before.length + hunk.proposedLines.length + after.length;
+    const lines = [
+      `@@ -${hunk.originalStart - before.length},${oldCount} +${hunk.proposedStart - before.length},${newCount} @@ hunk ${hunk.index}`,
+      ...before.map((line) => ` ${line}`),
+      ...hunk.originalLines.map((line) => `-${line}`),
+      ...hunk.proposedLines.map((line) => `+${line}`),
+      ...after.map((line) => ` ${line}`),
+    ];
+    return lines.join("\n");
+  });
+
+  return `${header}${blocks.join("\n")}\n`;
 }
 
 /**
@@ -222,10 +476,37 @@ export function buildStagedSummary(): string {
   const lines = [`${edits.length} staged change${edits.length === 1 ? "" : "s"}:`, ""];
   for (const edit of edits) {
     const tag = edit.isNew ? " [new]" : " [edit]";
-    lines.push(`  ${edit.filePath}${tag}`);
+    const hunks = getStagedHunks(edit).length;
+    lines.push(`  ${edit.filePath}${tag} (${hunks} hunk${hunks === 1 ? "" : "s"})`);
   }
   lines.push("");
   lines.push("Run /diff to review, /accept to apply all, /reject to discard all.");
   lines.push("Run /diff <file>, /accept <file>, or /reject <file> for a single file.");
+  lines.push("Run /accept <file>:<n> or /reject <file>:<n> for single hunks (e.g. src/a.ts:2,3).");
+  return lines.join("\n");
+}
+
+/**
+ * Parse a `/accept` or `/reject` target: `src/a.ts` for the whole file,
+ * `src/a.ts:2` or `src/a.ts:1,3` for hunks.
+ */
+export function parseStagedTarget(target: string): { filePath: string; hunks?: number[] } {
+  const match = /^(.+):(\d+(?:,\d+)*)$/.exec(target.trim());
+  if (!match || getStagedEdit(target.trim())) {
+    return { filePath: target.trim() };
+  }
+  return { filePath: match[1], hunks: match[2].split(",").map(Number) };
+}
+
+/** Human-readable description of merge conflicts for a file, for the TUI. */
+export function buildConflictSummary(filePath: string, conflicts: MergeConflict[]): string {
+  const lines = [`⚠️ ${filePath} changed on disk since it was staged:`];
+  for (const conflict of conflicts) {
+    lines.push(
+      `  line ${conflict.line}: on disk ${conflict.ours.length} line(s), proposed ${conflict.theirs.length} line(s)`,
+      ...conflict.ours.slice(0, 3).map((line) => `    disk     | ${line}`),
+      ...conflict.theirs.slice(0, 3).map((line) => `    proposed | ${line}`),
+    );
+  }
   return lines.join("\n");
 }
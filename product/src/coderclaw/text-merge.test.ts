@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { applyChanges, diffLines, mergeThreeWay, splitLines } from "./text-merge.js";
+
+const lines = (...values: string[]) => values;
+
+describe("diffLines", () => {
+  it("reports separate changes between common lines", () => {
+    const base = lines("a", "b", "c", "d", "e");
+    const next = lines("a", "B", "c", "d", "x", "e");
+    const changes = diffLines(base, next);
+    expect(changes).toEqual([
+      { start: 1, end: 2, lines: ["B"] },
+      { start: 4, end: 4, lines: ["x"] },
+    ]);
+    expect(applyChanges(base, changes)).toEqual(next);
+    expect(applyChanges(base, changes.slice(1))).toEqual(lines("a", "b", "c", "d", "x", "e"));
+  });
+
+  it("handles pure deletions and empty input", () => {
+    expect(diffLines(lines("a", "b", "c"), lines("a", "c"))).toEqual([
+      { start: 1, end: 2, lines: [] },
+    ]);
+    expect(diffLines(splitLines(""), splitLines("one\ntwo\n"))).toEqual([
+      { start: 0, end: 0, lines: ["one", "two"] },
+    ]);
+  });
+});
+
+describe("mergeThreeWay", () => {
+  const base = "a\nb\nc\nd\ne\nf\ng\n";
+
+  it("combines edits to different regions", () => {
+    const ours = "a\nB\nc\nd\ne\nf\ng\n";
+    const theirs = "a\nb\nc\nd\ne\nF\ng\n";
+    expect(mergeThreeWay(base, ours, theirs)).toEqual({
+      content: "a\nB\nc\nd\ne\nF\ng\n",
+      conflicts: [],
+    });
+  });
+
+  it("accepts identical edits on both sides", () => {
+    const both = "a\nb\nC\nd\ne\nf\ng\n";
+    expect(mergeThreeWay(base, both, both).conflicts).toEqual([]);
+    expect(mergeThreeWay(base, `${both}h\n`, both)).toEqual({
+      content: `${both}h\n`,
+      conflicts: [],
+    });
+  });
+
+  it("reports overlapping edits as conflicts and keeps ours", () => {
+    const ours = "a\nb\nhuman\nd\ne\nf\ng\n";
+    const theirs = "a\nb\nagent\nd\ne\nf\ng\n";
+    const result = mergeThreeWay(base, ours, theirs);
+    expect(result.content).toBe(ours);
+    expect(result.conflicts).toEqual([
+      { line: 3, base: ["c"], ours: ["human"], theirs: ["agent"] },
+    ]);
+  });
+});
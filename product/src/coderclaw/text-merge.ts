@@ -0,0 +1,182 @@
+/**
+ * Line diff and three-way merge for staged edits.
+ *
+ * Texts are compared as `\n`-separated lines. A change replaces the base
+ * lines `[start, end)` with `lines`; an empty range is a pure insertion.
+ */
+
+export type LineChange = {
+  /** First replaced base line (0-based). */
+  start: number;
+  /** End of the replaced base range (exclusive). */
+  end: number;
+  /** Replacement lines. */
+  lines: string[];
+};
+
+export type MergeConflict = {
+  /** 1-based line in the base text where the conflicting region starts. */
+  line: number;
+  base: string[];
+  ours: string[];
+  theirs: string[];
+};
+
+export type MergeResult = { content: string; conflicts: MergeConflict[] };
+
+/** Above this many LCS cells the differing middle is reported as one change. */
+const MAX_LCS_CELLS = 4_000_000;
+
+export function splitLines(text: string): string[] {
+  return text.split("\n");
+}
+
+/** Changes turning `base` into `next`, in base order. */
+export function diffLines(base: string[], next: string[]): LineChange[] {
+  let prefix = 0;
+  while (prefix < base.length && prefix < next.length && base[prefix] === next[prefix]) {
+    prefix += 1;
+  }
+  let suffix = 0;
+  while (
+    suffix < base.length - prefix &&
+    suffix < next.length - prefix &&
+    base[base.length - 1 - suffix] === next[next.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+  const a = base.slice(prefix, base.length - suffix);
+  const b = next.slice(prefix, next.length - suffix);
+  if (a.length === 0 && b.length === 0) {
+    return [];
+  }
+  if (a.length === 0 || b.length === 0 || (a.length + 1) * (b.length + 1) > MAX_LCS_CELLS) {
+    return [{ start: prefix, end: prefix + a.length, lines: b }];
+  }
+
+  // lcs[i][j] = LCS length of a[i:] and b[j:], flattened.
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i -= 1) {
+    for (let j = b.length - 1; j >= 0; j -= 1) {
+      lcs[i * width + j] =
+        a[i] === b[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const changes: LineChange[] = [];
+  let current: LineChange | null = null;
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      current = null;
+      i += 1;
+      j += 1;
+      continue;
+    }
+    if (!current) {
+      current = { start: prefix + i, end: prefix + i, lines: [] };
+      changes.push(current);
+    }
+    if (j < b.length && (i === a.length || lcs[i * width + j + 1] >= lcs[(i + 1) * width + j])) {
+      current.lines.push(b[j]);
+      j += 1;
+    } else {
+      i += 1;
+      current.end = prefix + i;
+    }
+  }
+  return changes;
+}
+
+/** Apply non-overlapping changes (in base order) to `base`. */
+export function applyChanges(base: string[], changes: LineChange[]): string[] {
+  const out: string[] = [];
+  let cursor = 0;
+  for (const change of changes) {
+    out.push(...base.slice(cursor, change.start), ...change.lines);
+    cursor = change.end;
+  }
+  out.push(...base.slice(cursor));
+  return out;
+}
+
+/** Base range `[start, end)` with one side's changes inside it applied. */
+function sideVersion(base: string[], start: number, end: number, changes: LineChange[]): string[] {
+  const shifted = changes.map((change) => ({
+    ...change,
+    start: change.start - start,
+    end: change.end - start,
+  }));
+  return applyChanges(base.slice(start, end), shifted);
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+/**
+ * Merge two descendants of `base`. Regions changed on only one side take that
+ * side; regions changed on both sides must agree, otherwise they are reported
+ * as conflicts and keep `ours` in the returned content.
+ */
+export function mergeThreeWay(base: string, ours: string, theirs: string): MergeResult {
+  if (ours === theirs || theirs === base) {
+    return { content: ours, conflicts: [] };
+  }
+  if (ours === base) {
+    return { content: theirs, conflicts: [] };
+  }
+  const baseLines = splitLines(base);
+  const tagged = [
+    ...diffLines(baseLines, splitLines(ours)).map((change) => ({ side: "ours" as const, change })),
+    ...diffLines(baseLines, splitLines(theirs)).map((change) => ({
+      side: "theirs" as const,
+      change,
+    })),
+  ].toSorted((x, y) => x.change.start - y.change.start || x.change.end - y.change.end);
+
+  const out: string[] = [];
+  const conflicts: MergeConflict[] = [];
+  let cursor = 0;
+  let index = 0;
+  while (index < tagged.length) {
+    // Group changes whose base ranges overlap or touch.
+    const start = tagged[index].change.start;
+    let end = tagged[index].change.end;
+    const group = [tagged[index]];
+    index += 1;
+    while (index < tagged.length && tagged[index].change.start <= end) {
+      end = Math.max(end, tagged[index].change.end);
+      group.push(tagged[index]);
+      index += 1;
+    }
+    out.push(...baseLines.slice(cursor, start));
+    cursor = end;
+
+    const oursChanges = group.filter((entry) => entry.side === "ours").map((entry) => entry.change);
+    const theirsChanges = group
+      .filter((entry) => entry.side === "theirs")
+      .map((entry) => entry.change);
+    const oursVersion = sideVersion(baseLines, start, end, oursChanges);
+    const theirsVersion = sideVersion(baseLines, start, end, theirsChanges);
+    if (theirsChanges.length === 0 || sameLines(oursVersion, theirsVersion)) {
+      out.push(...oursVersion);
+    } else if (oursChanges.length === 0) {
+      out.push(...theirsVersion);
+    } else {
+      out.push(...oursVersion);
+      conflicts.push({
+        line: start + 1,
+        base: baseLines.slice(start, end),
+        ours: oursVersion,
+        theirs: theirsVersion,
+      });
+    }
+  }
+  out.push(...baseLines.slice(cursor));
+  return { content: out.join("\n"), conflicts };
+}
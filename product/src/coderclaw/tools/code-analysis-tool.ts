@@ -6,6 +6,7 @@ import type { AgentTool, AgentToolResult } from "@mariozechner/pi-agent-core";
 import { Type } from "@sinclair/typebox";
 import { jsonResult } from "../../agents/tools/common.js";
 import { buildCodeMap, buildDependencyGraph } from "../code-map.js";
+import { filePatternsForLanguages } from "../parsers/index.js";
 import { loadProjectContext } from "../project-context.js";
 
 const CodeAnalysisSchema = Type.Object({
@@ -15,7 +16,7 @@ const CodeAnalysisSchema = Type.Object({
   filePatterns: Type.Optional(
     Type.Array(Type.String(), {
       description:
-        "File patterns to analyze (e.g., ['**/*.ts', '**/*.js']). Defaults to common patterns.",
+        "File patterns to analyze (e.g., ['**/*.ts', '**/*.py']). Defaults to the project's languages (TypeScript/JavaScript, Python, Go, Rust, Java).",
     }),
   ),
   includeTests: Type.Optional(
@@ -44,10 +45,8 @@ export const codeAnalysisTool: AgentTool<typeof CodeAnalysisSchema, string> = {
       // Load project context if available
       const context = await loadProjectContext(projectRoot);
 
-      // Determine file patterns
-      const patterns =
-        filePatterns ||
-        (context?.languages.includes("typescript") ? ["**/*.ts", "**/*.tsx"] : ["**/*.js"]);
+      // Determine file patterns from the project's languages (all supported ones if unknown)
+      const patterns = filePatterns || filePatternsForLanguages(context?.languages);
 
       // Build code map
       const codeMap = await buildCodeMap(projectRoot, patterns);
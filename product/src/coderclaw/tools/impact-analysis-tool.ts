@@ -0,0 +1,76 @@
+/**
+ * Tool for finding the modules and tests a change can affect
+ */
+
+import type { AgentTool, AgentToolResult } from "@mariozechner/pi-agent-core";
+import { Type } from "@sinclair/typebox";
+import { stringEnum } from "../../agents/schema/typebox.js";
+import { jsonResult } from "../../agents/tools/common.js";
+import { analyzeImpact, type ImpactSource } from "../impact-analysis.js";
+
+const DEFAULT_MAX_RESULTS = 50;
+
+const ImpactAnalysisSchema = Type.Object({
+  projectRoot: Type.String({
+    description: "Root directory of the project",
+  }),
+  source: Type.Optional(
+    stringEnum(["worktree", "staged-edits"] as const, {
+      description:
+        "What changed: the working-tree git diff including untracked files (default) or the pending staged edits.",
+    }),
+  ),
+  base: Type.Optional(
+    Type.String({
+      description: "Git revision to diff the working tree against. Defaults to HEAD.",
+    }),
+  ),
+  maxDistance: Type.Optional(
+    Type.Number({
+      description: "Only follow dependents this many imports away from the change.",
+    }),
+  ),
+  maxResults: Type.Optional(
+    Type.Number({
+      description: `Maximum test files and modules to return each. Defaults to ${DEFAULT_MAX_RESULTS}.`,
+    }),
+  ),
+});
+
+type ImpactAnalysisParams = {
+  projectRoot: string;
+  source?: ImpactSource;
+  base?: string;
+  maxDistance?: number;
+  maxResults?: number;
+};
+
+export const impactAnalysisTool: AgentTool<typeof ImpactAnalysisSchema, string> = {
+  name: "impact_analysis",
+  label: "Impact Analysis",
+  description:
+    "Find what a change can break: maps the changed symbols in the working-tree diff (or staged edits) through the dependency graph and returns affected modules and test files ranked by distance, plus a risk estimate. Run the listed tests first (run_tests with files).",
+  parameters: ImpactAnalysisSchema,
+  async execute(_toolCallId: string, params: ImpactAnalysisParams) {
+    const { projectRoot, source, base, maxDistance, maxResults = DEFAULT_MAX_RESULTS } = params;
+
+    try {
+      const result = await analyzeImpact({ projectRoot, source, base, maxDistance });
+      return jsonResult({
+        ...result,
+        tests: result.tests.slice(0, maxResults),
+        modules: result.modules.slice(0, maxResults),
+        ...(result.tests.length > maxResults
+          ? { omittedTests: result.tests.length - maxResults }
+          : {}),
+        ...(result.modules.length > maxResults
+          ? { omittedModules: result.modules.length - maxResults }
+          : {}),
+      }) as AgentToolResult<string>;
+    } catch (error) {
+      return jsonResult({
+        error: `Failed to analyze impact: ${error instanceof Error ? error.message : String(error)}`,
+      }) as AgentToolResult<string>;
+    }
+  },
+};
@@ -3,6 +3,7 @@
  */
 
 export { codeAnalysisTool } from "./code-analysis-tool.js";
+export { impactAnalysisTool } from "./impact-analysis-tool.js";
 export { codebaseSearchTool } from "./codebase-search-tool.js";
 export { projectKnowledgeTool } from "./project-knowledge-tool.js";
 export { saveSessionHandoffTool } from "./save-session-handoff-tool.js";
@@ -10,5 +11,5 @@ export { createOrchestrateTool } from "./orchestrate-tool.js";
 export { workflowStatusTool } from "./workflow-status-tool.js";
 export { gitHistoryTool } from "./git-history-tool.js";
 export { clawFleetTool } from "./claw-fleet-tool.js";
-export { semanticSearchTool } from "./semantic-search-tool.js";
-export { createGithubIssueWorkflowTool } from "./github-issue-workflow-tool.js";
+export { createSemanticSearchTool } from "./semantic-search-tool.js";
+export { createIssueWorkflowTool } from "./issue-workflow-tool.js";
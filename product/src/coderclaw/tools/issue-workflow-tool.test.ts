@@ -0,0 +1,74 @@
+import { describe, expect, it, vi } from "vitest";
+import type { ForgeIssue, ForgeProvider, ForgeRepo } from "../../infra/forge/index.js";
+import { openChangeRequest } from "./issue-workflow-tool.js";
+
+const ISSUE: ForgeIssue = {
+  number: 42,
+  title: "Add rate limits",
+  body: "",
+  state: "open",
+  labels: [],
+  url: "https://github.com/acme/api/issues/42",
+};
+
+function stubForge(repo: ForgeRepo) {
+  const createBranch = vi.fn(async () => {});
+  const push = vi.fn(async () => {});
+  const openDraftChangeRequest = vi.fn(async () => ({
+    number: 7,
+    url: "https://github.com/acme/api/pull/7",
+    draft: true,
+  }));
+  const forge: ForgeProvider = {
+    repo,
+    changeRequestLabel: "PR",
+    fetchIssue: async () => ISSUE,
+    getDefaultBranch: async () => "main",
+    createBranch,
+    push,
+    openDraftChangeRequest,
+    comment: async () => {},
+    readCiStatus: async () => ({ state: "none", checks: [] }),
+  };
+  return { forge, createBranch, push, openDraftChangeRequest };
+}
+
+describe("openChangeRequest", () => {
+  const ref = { kind: "github" as const, host: "github.com", path: "acme/api", number: 42 };
+  const params = {
+    ref,
+    issue: ISSUE,
+    kind: "feature" as const,
+    branchName: "claw/issue-42-add-rate-limits",
+    sourceBranch: "coderclaw/workflow-1",
+  };
+
+  it("pushes and opens a draft when the issue is in the origin repo", async () => {
+    const { forge, push } = stubForge(ref);
+    const outcome = await openChangeRequest({
+      ...params,
+      forge,
+      remote: { kind: "github", host: "github.com", path: "Acme/API" },
+    });
+    expect(outcome.error).toBeUndefined();
+    expect(outcome.changeRequest?.url).toBe("https://github.com/acme/api/pull/7");
+    expect(push).toHaveBeenCalledWith(params.branchName);
+  });
+
+  it("does not push when the issue lives in another repo than origin", async () => {
+    const { forge, createBranch, push, openDraftChangeRequest } = stubForge(ref);
+    const outcome = await openChangeRequest({
+      ...params,
+      forge,
+      remote: { kind: "github", host: "github.com", path: "me/fork" },
+    });
+    expect(outcome).toMatchObject({ changeRequest: null, ci: null });
+    expect(outcome.error).toContain("origin is github.com/me/fork");
+    expect(createBranch).not.toHaveBeenCalled();
+    expect(push).not.toHaveBeenCalled();
+    expect(openDraftChangeRequest).not.toHaveBeenCalled();
+
+    const noRemote = await openChangeRequest({ ...params, forge, remote: null });
+    expect(noRemote.error).toContain("origin is no known forge");
+  });
+});
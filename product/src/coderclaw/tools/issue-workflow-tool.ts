@@ -0,0 +1,346 @@
+/**
+ * Issue → draft PR/MR end-to-end workflow tool
+ *
+ * Fetches an issue from GitHub, GitLab or Gitea, spawns an orchestrator
+ * workflow (feature/bugfix based on labels), and optionally pushes the result
+ * and opens a draft PR (MR on GitLab) when the implementation is ready.
+ *
+ * The forge is detected from the project's git remote or named in the ref.
+ * Requires the forge's token in the environment: GITHUB_TOKEN (or GH_TOKEN),
+ * GITLAB_TOKEN or GITEA_TOKEN. Self-hosted instances are recognised from
+ * GITHUB_URL / GITLAB_URL / GITEA_URL.
+ *
+ * Usage by an agent:
+ *   issue_workflow({ issue: "#42" })
+ *   issue_workflow({ issue: "owner/repo#42" })
+ *   issue_workflow({ issue: "gitlab:group/proj#12" })
+ *   issue_workflow({ issue: "https://github.com/owner/repo/issues/42" })
+ */
+
+import type { AgentTool, AgentToolResult } from "@mariozechner/pi-agent-core";
+import { Type } from "@sinclair/typebox";
+import { jsonResult } from "../../agents/tools/common.js";
+import {
+  createForgeProvider,
+  detectForgeRepo,
+  forgeTokenEnvNames,
+  forgeWebBaseUrl,
+  isSameForgeRepo,
+  parseForgeIssueRef,
+  resolveForgeIssueRef,
+  resolveForgeToken,
+  type ForgeChangeRequest,
+  type ForgeCiStatus,
+  type ForgeIssue,
+  type ForgeIssueRef,
+  type ForgeProvider,
+  type ForgeRepo,
+} from "../../infra/forge/index.js";
+import {
+  globalOrchestrator,
+  createFeatureWorkflow,
+  createBugFixWorkflow,
+  type SpawnSubagentContext,
+} from "../orchestrator.js";
+import { loadProjectRules } from "../project-context-store.js";
+import {
+  branchPatterns,
+  checkBranchName,
+  formatRuleFindings,
+  hasBlockingFindings,
+} from "../rules-engine.js";
+import type { ProjectRules } from "../types.js";
+
+// ---------------------------------------------------------------------------
+// Schema
+// ---------------------------------------------------------------------------
+
+const IssueWorkflowSchema = Type.Object({
+  issue: Type.String({
+    description:
+      "Issue reference.  Accepts:\n" +
+      "  • Issue URL: https://github.com/owner/repo/issues/42, https://gitlab.com/group/proj/-/issues/12\n" +
+      "  • Short form: owner/repo#42, or #42 for the project's own remote\n" +
+      "  • Forge-prefixed: gitlab:group/sub/proj#12, gitea:owner/repo#3, github:owner/repo#42",
+  }),
+  projectRoot: Type.Optional(
+    Type.String({
+      description: "Absolute path to the project root (defaults to process.cwd())",
+    }),
+  ),
+  branchPrefix: Type.Optional(
+    Type.String({
+      description:
+        "Git branch name prefix, e.g. 'claw/'. Default: derived from rules.yaml branchNaming, else 'claw/issue-'",
+    }),
+  ),
+  createPr: Type.Optional(
+    Type.Boolean({
+      description:
+        "Push the branch and open a draft PR/MR when implementation completes. Default: true.",
+    }),
+  ),
+});
+
+type IssueWorkflowParams = {
+  issue: string;
+  projectRoot?: string;
+  branchPrefix?: string;
+  createPr?: boolean;
+};
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Determine whether the issue should use a feature or bugfix workflow.
+ * Heuristic: any of the common "bug" labels → bugfix, otherwise feature.
+ */
+function classifyIssue(issue: ForgeIssue): "feature" | "bugfix" {
+  const bugLabels = new Set(["bug", "bugfix", "defect", "fix", "regression"]);
+  for (const label of issue.labels) {
+    if (bugLabels.has(label.toLowerCase())) {
+      return "bugfix";
+    }
+  }
+  return "feature";
+}
+
+/** Sanitise a string for use as a git branch name component. */
+function toBranchSlug(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 40);
+}
+
+/**
+ * Branch prefix satisfying rules.yaml `branchNaming`: the first `fix*` pattern
+ * for bugfixes or `feat*` pattern for features, e.g. "fix/*" -> "fix/issue-".
+ */
+function branchPrefixFromRules(
+  rules: ProjectRules | null,
+  kind: "feature" | "bugfix",
+): string | null {
+  const wanted = kind === "bugfix" ? "fix" : "feat";
+  const pattern = rules
+    ? branchPatterns(rules).find((entry) => entry.startsWith(wanted) && entry.endsWith("*"))
+    : undefined;
+  return pattern ? `${pattern.slice(0, -1)}issue-` : null;
+}
+
+type ChangeRequestOutcome = {
+  changeRequest: ForgeChangeRequest | null;
+  ci: ForgeCiStatus | null;
+  error?: string;
+};
+
+/**
+ * Put the workflow's integrated branch on the forge: branch it under the
+ * issue branch name, push, open a draft PR/MR, link it on the issue and read
+ * the first CI status. The comment and CI read are best-effort. The branch is
+ * pushed to the project's remote, so nothing happens when the issue lives in
+ * another repository.
+ */
+export async function openChangeRequest(opts: {
+  forge: ForgeProvider;
+  ref: ForgeIssueRef;
+  /** The project's remote; see detectForgeRepo(). */
+  remote: ForgeRepo | null;
+  issue: ForgeIssue;
+  kind: "feature" | "bugfix";
+  branchName: string;
+  sourceBranch: string;
+}): Promise<ChangeRequestOutcome> {
+  const { forge, ref, issue, kind, branchName } = opts;
+  if (!isSameForgeRepo(ref, opts.remote)) {
+    const remote = opts.remote ? `${opts.remote.host}/${opts.remote.path}` : "no known forge";
+    return {
+      changeRequest: null,
+      ci: null,
+      error: `Issue is in ${ref.host}/${ref.path} but origin is ${remote}; push ${opts.sourceBranch} and open the ${forge.changeRequestLabel} there yourself.`,
+    };
+  }
+  let changeRequest: ForgeChangeRequest;
+  try {
+    await forge.createBranch(branchName, opts.sourceBranch);
+    await forge.push(branchName);
+    const base = await forge.getDefaultBranch();
+    changeRequest = await forge.openDraftChangeRequest({
+      head: branchName,
+      base,
+      title: `${kind === "bugfix" ? "fix" : "feat"}: resolve #${ref.number} — ${issue.title}`,
+      body:
+        `## Summary\n\nThis ${forge.changeRequestLabel} was generated by CoderClaw in response to issue #${ref.number}.\n\n` +
+        `**Issue:** ${issue.url}\n\n` +
+        `### Changes\n\n_Implemented by multi-agent ${kind} workflow._\n\n` +
+        `Closes #${ref.number}`,
+    });
+  } catch (err) {
+    return { changeRequest: null, ci: null, error: String(err) };
+  }
+  await forge
+    .comment(
+      ref.number,
+      `CoderClaw opened draft ${forge.changeRequestLabel} ${changeRequest.url} for this issue.`,
+    )
+    .catch(() => {});
+  const ci = await forge.readCiStatus(branchName).catch(() => null);
+  return { changeRequest, ci };
+}
+
+// ---------------------------------------------------------------------------
+// Tool factory (mirrors createOrchestrateTool pattern — needs spawn context)
+// ---------------------------------------------------------------------------
+
+export function createIssueWorkflowTool(
+  spawnContext?: SpawnSubagentContext,
+): AgentTool<typeof IssueWorkflowSchema, string> {
+  const context: SpawnSubagentContext = spawnContext ?? {};
+
+  return {
+    name: "issue_workflow",
+    label: "Issue → PR/MR Workflow",
+    description:
+      "Fetch an issue from GitHub, GitLab or Gitea, execute a multi-agent implementation workflow " +
+      "(feature or bugfix based on labels), and optionally push the branch and open a draft PR/MR when done. " +
+      "The forge is detected from the git remote; requires GITHUB_TOKEN, GITLAB_TOKEN or GITEA_TOKEN.",
+    parameters: IssueWorkflowSchema,
+
+    async execute(
+      _toolCallId: string,
+      params: IssueWorkflowParams,
+    ): Promise<AgentToolResult<string>> {
+      const { issue: issueRef, createPr = true } = params;
+      const projectRoot = params.projectRoot ?? process.cwd();
+
+      // Parse issue reference and resolve its forge
+      const parsed = parseForgeIssueRef(issueRef);
+      if (!parsed) {
+        return jsonResult({
+          error: `Cannot parse issue reference: "${issueRef}". Expected "owner/repo#42", "#42", "gitlab:group/proj#12" or an issue URL.`,
+        }) as AgentToolResult<string>;
+      }
+      const remote = await detectForgeRepo({ projectRoot });
+      let ref: ForgeIssueRef;
+      try {
+        ref = resolveForgeIssueRef(parsed, remote);
+      } catch (err) {
+        return jsonResult({ error: String(err) }) as AgentToolResult<string>;
+      }
+
+      // Resolve forge token
+      const token = resolveForgeToken(ref.kind);
+      if (!token) {
+        return jsonResult({
+          error: `${forgeTokenEnvNames(ref.kind)[0]} is not set. Export it in your environment or set it in .coderClaw config env.vars.`,
+        }) as AgentToolResult<string>;
+      }
+      const forge = createForgeProvider({
+        repo: { kind: ref.kind, host: ref.host, path: ref.path },
+        token,
+        webBaseUrl: forgeWebBaseUrl(ref),
+        repoRoot: projectRoot,
+      });
+
+      // Fetch issue from the forge
+      let issue: ForgeIssue;
+      try {
+        issue = await forge.fetchIssue(ref.number);
+      } catch (err) {
+        return jsonResult({
+          error: `Failed to fetch issue: ${String(err)}`,
+        }) as AgentToolResult<string>;
+      }
+
+      if (issue.state === "closed") {
+        return jsonResult({
+          warning: `Issue #${ref.number} is already closed. Proceeding anyway.`,
+          issue: { number: issue.number, title: issue.title, state: issue.state },
+        }) as AgentToolResult<string>;
+      }
+
+      // Classify + build workflow steps
+      const kind = classifyIssue(issue);
+      const issueDescription = `${issue.title}\n\n${issue.body}`.trim() + `\n\nFixes: ${issue.url}`;
+
+      const steps =
+        kind === "feature"
+          ? createFeatureWorkflow(issueDescription)
+          : createBugFixWorkflow(issueDescription);
+
+      // Create and register the branch name before workflow starts
+      const rules = await loadProjectRules(projectRoot);
+      const branchPrefix =
+        params.branchPrefix ?? branchPrefixFromRules(rules, kind) ?? "claw/issue-";
+      const branchSlug = toBranchSlug(issue.title);
+      const branchName = `${branchPrefix}${ref.number}-${branchSlug}`;
+      const ruleFindings = rules ? checkBranchName(rules, branchName) : [];
+      if (hasBlockingFindings(ruleFindings)) {
+        return jsonResult({
+          error: `Branch name violates project rules:\n${formatRuleFindings(ruleFindings)}`,
+          branch: branchName,
+          ruleFindings,
+        }) as AgentToolResult<string>;
+      }
+
+      // Run the workflow
+      const workflow = globalOrchestrator.createWorkflow(steps, {
+        type: kind === "feature" ? "feature" : "bugfix",
+      });
+      let resultsMap: Map<string, string>;
+      let succeeded = false;
+      try {
+        resultsMap = await globalOrchestrator.executeWorkflow(workflow.id, context);
+        succeeded = workflow.status === "completed";
+      } catch (err) {
+        return jsonResult({
+          error: `Workflow execution failed: ${String(err)}`,
+          workflowId: workflow.id,
+          issue: { number: issue.number, title: issue.title },
+        }) as AgentToolResult<string>;
+      }
+
+      // Push the integrated branch and open a draft PR/MR if requested and workflow succeeded
+      const label = forge.changeRequestLabel;
+      let outcome: ChangeRequestOutcome | null = null;
+      if (createPr && succeeded && workflow.branch) {
+        outcome = await openChangeRequest({
+          forge,
+          ref,
+          remote,
+          issue,
+          kind,
+          branchName,
+          sourceBranch: workflow.branch,
+        });
+      }
+      const prUrl = outcome?.changeRequest?.url;
+
+      return jsonResult({
+        issue: {
+          number: issue.number,
+          title: issue.title,
+          url: issue.url,
+          kind,
+        },
+        forge: { kind: ref.kind, host: ref.host, repo: ref.path },
+        workflow: {
+          id: workflow.id,
+          status: workflow.status,
+          tasks: resultsMap.size,
+        },
+        branch: branchName,
+        ...(ruleFindings.length > 0 ? { ruleFindings } : {}),
+        pr: outcome?.changeRequest ?? null,
+        ...(outcome?.ci ? { ci: outcome.ci } : {}),
+        ...(outcome?.error ? { prError: outcome.error } : {}),
+        message: succeeded
+          ? `Workflow completed successfully.${prUrl ? ` Draft ${label} created: ${prUrl}` : ` Commit changes and push the branch to open a ${label}.`}`
+          : "Workflow encountered errors. Review the task outputs above.",
+      }) as AgentToolResult<string>;
+    },
+  };
+}
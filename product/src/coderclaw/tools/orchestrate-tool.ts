@@ -9,33 +9,15 @@ import { readSharedEnvVar } from "../../infra/env-file.js";
 import { pushSpec } from "../../infra/spec-sync.js";
 import {
   globalOrchestrator,
-  createFeatureWorkflow,
-  createBugFixWorkflow,
-  createRefactorWorkflow,
-  createSecurityAuditWorkflow,
-  createPlanningWorkflow,
-  createAdversarialReviewWorkflow,
   type WorkflowStep,
   type SpawnSubagentContext,
 } from "../orchestrator.js";
-
-/**
- * Registry of named workflow factory functions.
- * To add a new workflow type: register it here — orchestrate-tool.ts needs no further changes.
- */
-const WORKFLOW_REGISTRY: Record<string, (description: string) => WorkflowStep[]> = {
-  feature: createFeatureWorkflow,
-  bugfix: createBugFixWorkflow,
-  refactor: createRefactorWorkflow,
-  security_audit: createSecurityAuditWorkflow,
-  planning: createPlanningWorkflow,
-  adversarial: createAdversarialReviewWorkflow,
-};
+import { summarizeWorkflowUsage } from "../workflow-budget.js";
 
 const OrchestrateSchema = Type.Object({
   workflow: Type.String({
     description:
-      "Type of workflow: 'feature', 'bugfix', 'refactor', 'security_audit', 'planning', 'adversarial', or 'custom'. Use 'custom' to define your own steps.",
+      "Type of workflow: 'feature', 'bugfix', 'refactor', 'security_audit', 'planning', 'adversarial', a project workflow defined in .coderClaw/workflows/, or 'custom'. Use 'custom' to define your own steps.",
   }),
   description: Type.String({
     description:
@@ -44,6 +26,11 @@ const OrchestrateSchema = Type.Object({
   customSteps: Type.Optional(
     Type.Array(
       Type.Object({
+        id: Type.Optional(
+          Type.String({
+            description: "Stable step id other steps can reference in dependsOn / when / loop",
+          }),
+        ),
         role: Type.String({
           description:
             "Agent role: 'code-creator', 'code-reviewer', 'test-generator', 'bug-analyzer', 'refactor-agent', 'documentation-agent', or 'architecture-advisor'",
@@ -53,21 +40,84 @@ const OrchestrateSchema = Type.Object({
         }),
         dependsOn: Type.Optional(
           Type.Array(Type.String(), {
-            description: "Task descriptions this step depends on",
+            description: "Step ids (or task descriptions) this step depends on",
           }),
         ),
+        when: Type.Optional(
+          Type.Object(
+            {
+              step: Type.String({ description: "Step id whose output is inspected" }),
+              contains: Type.Optional(Type.String()),
+              notContains: Type.Optional(Type.String()),
+              matches: Type.Optional(Type.String({ description: "Regular expression" })),
+            },
+            {
+              description:
+                "Run this step only when the referenced step's output matches (otherwise it is skipped)",
+            },
+          ),
+        ),
+        loop: Type.Optional(
+          Type.Object(
+            {
+              to: Type.String({ description: "Ancestor step id to loop back to" }),
+              maxIterations: Type.Integer({ minimum: 1 }),
+            },
+            {
+              description:
+                "After this step runs, repeat the cycle from `to` through this step, up to maxIterations runs",
+            },
+          ),
+        ),
+        approval: Type.Optional(
+          Type.Object(
+            {
+              message: Type.Optional(
+                Type.String({ description: "Shown to the approver instead of the task text" }),
+              ),
+              timeoutMs: Type.Optional(Type.Integer({ minimum: 1 })),
+            },
+            {
+              description:
+                "Approval checkpoint: wait for a human to /approve or /deny this step before it runs (e.g. before applying changes or opening a PR). Pass {} for the defaults",
+            },
+          ),
+        ),
+        testGate: Type.Optional(
+          Type.Object(
+            {
+              files: Type.Optional(
+                Type.Array(Type.String(), {
+                  description: "Test files, directories or packages to run (default: all)",
+                }),
+              ),
+              testNamePattern: Type.Optional(Type.String()),
+            },
+            {
+              description:
+                "Test gate: run the project's tests after this step and fail it (skipping its dependents) unless they pass. Pass {} to run the whole suite",
+            },
+          ),
+        ),
       }),
       {
         description: "Custom workflow steps (required if workflow='custom')",
       },
     ),
   ),
+  inputs: Type.Optional(
+    Type.Record(Type.String(), Type.String(), {
+      description:
+        "Named inputs for a project workflow definition (substituted into its {{inputs.<name>}} placeholders)",
+    }),
+  ),
 });
 
 type OrchestrateParams = {
   workflow: string;
   description: string;
-  customSteps?: Array<{ role: string; task: string; dependsOn?: string[] }>;
+  customSteps?: WorkflowStep[];
+  inputs?: Record<string, string>;
 };
 
 export function createOrchestrateTool(options?: {
@@ -93,14 +143,22 @@ export function createOrchestrateTool(options?: {
     requesterAgentIdOverride: options?.requesterAgentIdOverride,
   };
 
+  const projectWorkflows = globalOrchestrator
+    .listWorkflowTypes()
+    .filter((type) => type.source === "project")
+    .map((type) => (type.description ? `'${type.name}' (${type.description})` : `'${type.name}'`));
+
   return {
     name: "orchestrate",
     label: "Orchestrate Workflow",
     description:
-      "Create and execute multi-agent workflows for complex development tasks. Coordinates multiple specialized agents (code-creator, code-reviewer, test-generator, etc.) to work together.",
+      "Create and execute multi-agent workflows for complex development tasks. Coordinates multiple specialized agents (code-creator, code-reviewer, test-generator, etc.) to work together." +
+      (projectWorkflows.length > 0
+        ? ` Project workflows available: ${projectWorkflows.join(", ")}.`
+        : ""),
     parameters: OrchestrateSchema,
     async execute(_toolCallId: string, params: OrchestrateParams) {
-      const { workflow, description, customSteps } = params;
+      const { workflow, description, customSteps, inputs } = params;
 
       try {
         let steps: WorkflowStep[];
@@ -113,18 +171,21 @@ export function createOrchestrateTool(options?: {
           }
           steps = customSteps;
         } else {
-          const factory = WORKFLOW_REGISTRY[workflow];
-          if (!factory) {
-            const known = [...Object.keys(WORKFLOW_REGISTRY), "custom"].join("', '");
+          const resolved = globalOrchestrator.resolveWorkflowSteps(workflow, description, inputs);
+          if (!resolved) {
+            const known = [
+              ...globalOrchestrator.listWorkflowTypes().map((type) => type.name),
+              "custom",
+            ].join("', '");
             return jsonResult({
               error: `Unknown workflow type: ${workflow}. Use '${known}'.`,
             }) as AgentToolResult<string>;
           }
-          steps = factory(description);
+          steps = resolved;
         }
 
         // Create workflow
-        const wf = globalOrchestrator.createWorkflow(steps);
+        const wf = globalOrchestrator.createWorkflow(steps, { type: workflow });
 
         // Execute workflow and await completion so we can return proper status
         try {
@@ -151,10 +212,25 @@ export function createOrchestrateTool(options?: {
             }
           }
 
+          if (wf.pausedReason) {
+            return jsonResult({
+              workflowId: wf.id,
+              status: "paused",
+              taskCount: wf.tasks.size,
+              usage: summarizeWorkflowUsage(wf.tasks.values()).total,
+              results: Array.from(results.entries()).map(([taskId, result]) => ({
+                taskId,
+                result,
+              })),
+              note: `${wf.pausedReason}. Remaining tasks are pending; resume the workflow once the cap allows.`,
+            }) as AgentToolResult<string>;
+          }
+
           return jsonResult({
             workflowId: wf.id,
             status: "completed",
             taskCount: wf.tasks.size,
+            usage: summarizeWorkflowUsage(wf.tasks.values()).total,
             results: Array.from(results.entries()).map(([taskId, result]) => ({
               taskId,
               result,
@@ -1,12 +1,18 @@
 /**
- * Semantic codebase search — MCP tool with TF-IDF ranking + symbol extraction.
+ * Semantic codebase search — MCP tool over the embedded code index, with a
+ * TF-IDF ranking + symbol extraction fallback.
  *
- * Complements the existing `codebase_search` (keyword grep) tool by building a
+ * When the agent's memory search indexes the project as the "code" source
+ * (`memorySearch.sources: ["memory", "code"]`), queries go to that index:
+ * symbol-sized chunks embedded by the configured provider, searched with
+ * vector + FTS hybrid ranking and kept current by the memory file watcher.
+ *
+ * Otherwise (or while that index is still empty) the tool falls back to a
  * local index of all exported symbols (functions, classes, types, interfaces,
- * variables) extracted from source files.  The index is cached on disk and
+ * variables) extracted from source files.  That index is cached on disk and
  * rebuilt automatically when source files change.
  *
- * Query flow:
+ * Fallback query flow:
  *   1. Tokenise + stop-word-filter the query.
  *   2. Look up each token against the symbol index (exact + prefix matches).
  *   3. BM25-score every candidate file.
@@ -21,7 +27,10 @@ import fs from "node:fs/promises";
 import path from "node:path";
 import type { AgentTool, AgentToolResult } from "@mariozechner/pi-agent-core";
 import { Type } from "@sinclair/typebox";
+import { resolveSessionAgentId } from "../../agents/agent-scope.js";
 import { jsonResult } from "../../agents/tools/common.js";
+import type { CoderClawConfig } from "../../config/config.js";
+import { searchCodeIndex } from "../../memory/index.js";
 
 // ---------------------------------------------------------------------------
 // Constants
@@ -468,109 +477,157 @@ type SemanticSearchParams = {
   rebuild?: boolean;
 };
 
-export const semanticSearchTool: AgentTool<typeof SemanticSearchSchema, string> = {
-  name: "codebase_semantic_search",
-  label: "Semantic Codebase Search",
-  description:
-    "Semantically search the project source code using a TF-IDF ranked index of all exported " +
-    "symbols (functions, classes, types, interfaces) plus file content. Returns ranked files " +
-    "and representative snippets. Builds a local index on first use (.coderClaw/search-index.json). " +
-    "Better than keyword search for natural language queries and symbol lookups.",
-  parameters: SemanticSearchSchema,
-  async execute(
-    _toolCallId: string,
-    params: SemanticSearchParams,
-  ): Promise<AgentToolResult<string>> {
-    const { projectRoot, query, topK = 10, language, rebuild = false } = params;
+/** BM25 + symbol-bonus search over `.coderClaw/search-index.json`. */
+async function searchKeywordIndex(params: {
+  projectRoot: string;
+  query: string;
+  limit: number;
+  language?: string;
+  rebuild: boolean;
+}): Promise<Record<string, unknown>> {
+  const { projectRoot, query, limit, language, rebuild } = params;
+
+  // Load or build index
+  let index: SearchIndex;
+  if (rebuild) {
+    index = await buildIndex(projectRoot);
+  } else {
+    index = await loadOrBuildIndex(projectRoot);
+  }
 
-    try {
-      await fs.access(projectRoot);
-    } catch {
-      return jsonResult({
-        error: `Project root does not exist: ${projectRoot}`,
-      }) as AgentToolResult<string>;
-    }
+  if (index.files.length === 0) {
+    return {
+      results: [],
+      query,
+      index: "keyword",
+      indexedFiles: 0,
+      message: "No source files found in project root.",
+    };
+  }
 
-    // Load or build index
-    let index: SearchIndex;
-    if (rebuild) {
-      index = await buildIndex(projectRoot);
-    } else {
-      index = await loadOrBuildIndex(projectRoot);
-    }
+  // Tokenise query — also treat raw query words as potential symbol names
+  const queryTokens = [
+    ...tokenise(query),
+    // Include raw camelCase/PascalCase terms without splitting (for symbol lookups)
+    ...query
+      .split(/\s+/)
+      .filter((t) => /^[A-Z]/.test(t) && t.length >= 3)
+      .map((t) => t.toLowerCase()),
+  ];
 
-    if (index.files.length === 0) {
-      return jsonResult({
-        results: [],
-        query,
-        indexedFiles: 0,
-        message: "No source files found in project root.",
-      }) as AgentToolResult<string>;
-    }
+  if (queryTokens.length === 0) {
+    return { error: "Query produced no searchable tokens." };
+  }
 
-    // Tokenise query — also treat raw query words as potential symbol names
-    const queryTokens = [
-      ...tokenise(query),
-      // Include raw camelCase/PascalCase terms without splitting (for symbol lookups)
-      ...query
-        .split(/\s+/)
-        .filter((t) => /^[A-Z]/.test(t) && t.length >= 3)
-        .map((t) => t.toLowerCase()),
-    ];
-
-    if (queryTokens.length === 0) {
-      return jsonResult({
-        error: "Query produced no searchable tokens.",
-      }) as AgentToolResult<string>;
-    }
+  // Filter by language extension if requested
+  const candidates = language
+    ? index.files.filter((f) => f.relPath.endsWith(`.${language.replace(/^\./, "")}`))
+    : index.files;
+
+  // Score all candidate files
+  const scored = candidates
+    .map((f) => {
+      const fileIdx = index.files.indexOf(f);
+      let score = bm25Score(queryTokens, f, index);
+
+      // Symbol exact-match bonus (high signal — the file exports what was asked)
+      const symbolMatches = f.symbols.filter((s) =>
+        queryTokens.some((q) => s.toLowerCase().includes(q)),
+      ).length;
+      score += symbolMatches * 4;
+
+      // Path bonus
+      const pathScore = queryTokens.filter((q) => f.relPath.toLowerCase().includes(q)).length * 3;
+      score += pathScore;
+
+      // Recency bonus (files modified in last 7 days)
+      const ageDays = (Date.now() - f.mtime) / (1000 * 60 * 60 * 24);
+      if (ageDays < 7) {
+        score += 1;
+      }
+
+      return { file: f, score, fileIdx, symbolMatches };
+    })
+    .filter((r) => r.score > 0)
+    .toSorted((a, b) => b.score - a.score)
+    .slice(0, limit);
+
+  const results = scored.map((r) => ({
+    filePath: r.file.relPath,
+    score: Math.round(r.score * 100) / 100,
+    symbols: r.file.symbols.slice(0, 8),
+    symbolMatches: r.symbolMatches,
+    snippet: extractSnippet(projectRoot, r.file.relPath, queryTokens),
+  }));
+
+  return {
+    query,
+    index: "keyword",
+    queryTokens,
+    indexedFiles: index.files.length,
+    builtAt: new Date(index.builtAt).toISOString(),
+    results,
+  };
+}
+
+export function createSemanticSearchTool(options?: {
+  config?: CoderClawConfig;
+  agentSessionKey?: string;
+}): AgentTool<typeof SemanticSearchSchema, string> {
+  return {
+    name: "codebase_semantic_search",
+    label: "Semantic Codebase Search",
+    description:
+      "Semantically search the project source code. Uses the embedded code index " +
+      '(memory search with the "code" source) when enabled for the project, otherwise a TF-IDF ' +
+      "ranked index of all exported symbols (functions, classes, types, interfaces) plus file " +
+      "content (.coderClaw/search-index.json). Returns ranked files and representative snippets. " +
+      "Better than keyword search for natural language queries and symbol lookups.",
+    parameters: SemanticSearchSchema,
+    async execute(
+      _toolCallId: string,
+      params: SemanticSearchParams,
+    ): Promise<AgentToolResult<string>> {
+      const { projectRoot, query, topK = 10, language, rebuild = false } = params;
+
+      try {
+        await fs.access(projectRoot);
+      } catch {
+        return jsonResult({
+          error: `Project root does not exist: ${projectRoot}`,
+        }) as AgentToolResult<string>;
+      }
 
-    // Filter by language extension if requested
-    const candidates = language
-      ? index.files.filter((f) => f.relPath.endsWith(`.${language.replace(/^\./, "")}`))
-      : index.files;
-
-    // Score all candidate files
-    const scored = candidates
-      .map((f) => {
-        const fileIdx = index.files.indexOf(f);
-        let score = bm25Score(queryTokens, f, index);
-
-        // Symbol exact-match bonus (high signal — the file exports what was asked)
-        const symbolMatches = f.symbols.filter((s) =>
-          queryTokens.some((q) => s.toLowerCase().includes(q)),
-        ).length;
-        score += symbolMatches * 4;
-
-        // Path bonus
-        const pathScore = queryTokens.filter((q) => f.relPath.toLowerCase().includes(q)).length * 3;
-        score += pathScore;
-
-        // Recency bonus (files modified in last 7 days)
-        const ageDays = (Date.now() - f.mtime) / (1000 * 60 * 60 * 24);
-        if (ageDays < 7) {
-          score += 1;
+      const limit = Math.min(topK, MAX_RESULTS);
+      const config = options?.config;
+      if (config && !rebuild) {
+        const hits = await searchCodeIndex({
+          cfg: config,
+          agentId: resolveSessionAgentId({ sessionKey: options?.agentSessionKey, config }),
+          workspaceDir: projectRoot,
+          query,
+          maxResults: language ? MAX_RESULTS : limit,
+        });
+        const extension = language ? `.${language.replace(/^\./, "")}` : null;
+        const matching = (hits ?? []).filter((hit) => !extension || hit.path.endsWith(extension));
+        if (matching.length > 0) {
+          return jsonResult({
+            query,
+            index: "embeddings",
+            results: matching.slice(0, limit).map((hit) => ({
+              filePath: hit.path,
+              startLine: hit.startLine,
+              endLine: hit.endLine,
+              score: Math.round(hit.score * 100) / 100,
+              snippet: hit.snippet,
+            })),
+          }) as AgentToolResult<string>;
         }
+      }
 
-        return { file: f, score, fileIdx, symbolMatches };
-      })
-      .filter((r) => r.score > 0)
-      .toSorted((a, b) => b.score - a.score)
-      .slice(0, Math.min(topK, MAX_RESULTS));
-
-    const results = scored.map((r) => ({
-      filePath: r.file.relPath,
-      score: Math.round(r.score * 100) / 100,
-      symbols: r.file.symbols.slice(0, 8),
-      symbolMatches: r.symbolMatches,
-      snippet: extractSnippet(projectRoot, r.file.relPath, queryTokens),
-    }));
-
-    return jsonResult({
-      query,
-      queryTokens,
-      indexedFiles: index.files.length,
-      builtAt: new Date(index.builtAt).toISOString(),
-      results,
-    }) as AgentToolResult<string>;
-  },
-};
+      return jsonResult(
+        await searchKeywordIndex({ projectRoot, query, limit, language, rebuild }),
+      ) as AgentToolResult<string>;
+    },
+  };
+}
@@ -6,6 +6,7 @@ import type { AgentTool, AgentToolResult } from "@mariozechner/pi-agent-core";
 import { Type } from "@sinclair/typebox";
 import { jsonResult } from "../../agents/tools/common.js";
 import { globalOrchestrator } from "../orchestrator.js";
+import { summarizeWorkflowUsage } from "../workflow-budget.js";
 
 const WorkflowStatusSchema = Type.Object({
   workflowId: Type.Optional(
@@ -49,10 +50,12 @@ export const workflowStatusTool: AgentTool<typeof WorkflowStatusSchema, string>
       }
 
       const runnableTasks = globalOrchestrator.getRunnableTasks(workflow.id);
+      const usage = summarizeWorkflowUsage(workflow.tasks.values());
 
       return jsonResult({
         workflowId: workflow.id,
         status: workflow.status,
+        pausedReason: workflow.pausedReason,
         totalTasks: workflow.tasks.size,
         requestedWorkflowId,
         source: requestedWorkflowId ? "explicit" : "latest",
@@ -62,7 +65,10 @@ export const workflowStatusTool: AgentTool<typeof WorkflowStatusSchema, string>
           completed: Array.from(workflow.tasks.values()).filter((t) => t.status === "completed")
             .length,
           failed: Array.from(workflow.tasks.values()).filter((t) => t.status === "failed").length,
+          skipped: Array.from(workflow.tasks.values()).filter((t) => t.status === "skipped").length,
         },
+        usage: usage.total,
+        usageByAgent: usage.byAgent,
         nextTasks: runnableTasks.map((task) => ({
           id: task.id,
           role: task.agentRole,
@@ -70,10 +76,13 @@ export const workflowStatusTool: AgentTool<typeof WorkflowStatusSchema, string>
         })),
         tasks: Array.from(workflow.tasks.values()).map((task) => ({
           id: task.id,
+          stepId: task.stepId,
           role: task.agentRole,
           description: task.description,
           status: task.status,
+          iteration: task.iteration,
           error: task.error,
+          usage: task.usage,
           createdAt: task.createdAt.toISOString(),
           startedAt: task.startedAt?.toISOString(),
           completedAt: task.completedAt?.toISOString(),
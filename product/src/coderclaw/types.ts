@@ -272,6 +272,29 @@ export type ProjectRules = {
   };
   constraints: string[];
   customRules: string[];
+  /** Severity per checked rule. Rules not listed report warnings. */
+  enforcement?: Partial<Record<RuleId, RuleSeverity | "off">>;
+};
+
+/** Rules in `rules.yaml` that the rules engine checks mechanically. */
+export type RuleId =
+  | "codeStyle.lineLength"
+  | "codeStyle.indentation"
+  | "testing.required"
+  | "git.commitFormat"
+  | "git.branchNaming";
+
+export type RuleSeverity = "error" | "warning";
+
+/** A rules.yaml violation, reported back to the agent (and to /accept). */
+export type RuleFinding = {
+  rule: RuleId;
+  severity: RuleSeverity;
+  message: string;
+  /** Absolute path of the offending file, for file rules. */
+  file?: string;
+  /** 1-based line of the first violation in `file`. */
+  line?: number;
 };
 
 export type CodeMap = {
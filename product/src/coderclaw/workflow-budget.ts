@@ -0,0 +1,136 @@
+/**
+ * Token and cost accounting for orchestrator workflows, and the spend caps
+ * checked before each task runs.
+ *
+ * Caps apply per workflow, per agent role within a workflow, and per day
+ * (all workflow spend since local midnight). A cap can limit USD, tokens or
+ * both; whichever is hit first stops the workflow.
+ */
+
+export type UsageTotals = {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  /** Estimated from the provider's pricing; 0 when the model has no cost data. */
+  costUsd: number;
+};
+
+/** Usage of one task (accumulated across loop iterations). */
+export type TaskUsage = UsageTotals & {
+  /** Model the task's agent used most. */
+  model?: string;
+};
+
+export type BudgetCap = {
+  maxUsd?: number;
+  maxTokens?: number;
+};
+
+export type WorkflowBudget = {
+  /** Cap on each workflow's total spend. */
+  workflow?: BudgetCap;
+  /** Cap on each agent role's spend within one workflow. */
+  agent?: BudgetCap;
+  /** Cap on all workflow spend per day. */
+  day?: BudgetCap;
+  /**
+   * What happens to the remaining tasks when a cap is hit: `pause` leaves them
+   * pending so the workflow can be resumed after raising the cap; `fail` fails
+   * them (default: pause).
+   */
+  onExceeded?: "pause" | "fail";
+};
+
+export type BudgetScope = "workflow" | "agent" | "day";
+
+export type BudgetBreach = {
+  scope: BudgetScope;
+  /** Agent role, for `agent` breaches. */
+  agentRole?: string;
+  /** Human-readable reason, e.g. "workflow spend $5.12 reached the $5.00 cap". */
+  reason: string;
+};
+
+export function emptyUsage(): UsageTotals {
+  return { inputTokens: 0, outputTokens: 0, totalTokens: 0, costUsd: 0 };
+}
+
+export function addUsage(a: UsageTotals | undefined, b: UsageTotals | undefined): UsageTotals {
+  const left = a ?? emptyUsage();
+  const right = b ?? emptyUsage();
+  return {
+    inputTokens: left.inputTokens + right.inputTokens,
+    outputTokens: left.outputTokens + right.outputTokens,
+    totalTokens: left.totalTokens + right.totalTokens,
+    costUsd: left.costUsd + right.costUsd,
+  };
+}
+
+export function hasBudgetCaps(budget: WorkflowBudget | undefined): budget is WorkflowBudget {
+  return Boolean(
+    budget &&
+    [budget.workflow, budget.agent, budget.day].some(
+      (cap) => cap?.maxUsd !== undefined || cap?.maxTokens !== undefined,
+    ),
+  );
+}
+
+export function formatUsd(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
+
+export function formatUsage(usage: UsageTotals): string {
+  return `${usage.totalTokens.toLocaleString("en-US")} tokens, ${formatUsd(usage.costUsd)}`;
+}
+
+function checkCap(cap: BudgetCap | undefined, used: UsageTotals, label: string): string | null {
+  if (cap?.maxUsd !== undefined && used.costUsd >= cap.maxUsd) {
+    return `${label} spend ${formatUsd(used.costUsd)} reached the ${formatUsd(cap.maxUsd)} cap`;
+  }
+  if (cap?.maxTokens !== undefined && used.totalTokens >= cap.maxTokens) {
+    return `${label} usage of ${used.totalTokens.toLocaleString("en-US")} tokens reached the ${cap.maxTokens.toLocaleString("en-US")}-token cap`;
+  }
+  return null;
+}
+
+/**
+ * First cap the next task of `agentRole` would run over, or null when it may
+ * run. Day caps are only checked when `day` usage is known.
+ */
+export function findBudgetBreach(
+  budget: WorkflowBudget,
+  usage: { workflow: UsageTotals; agent: UsageTotals; day?: UsageTotals },
+  agentRole: string,
+): BudgetBreach | null {
+  const day = usage.day ? checkCap(budget.day, usage.day, "Daily workflow") : null;
+  if (day) {
+    return { scope: "day", reason: day };
+  }
+  const workflow = checkCap(budget.workflow, usage.workflow, "Workflow");
+  if (workflow) {
+    return { scope: "workflow", reason: workflow };
+  }
+  const agent = checkCap(budget.agent, usage.agent, `Agent ${agentRole}`);
+  if (agent) {
+    return { scope: "agent", agentRole, reason: agent };
+  }
+  return null;
+}
+
+/** Total usage of a workflow's tasks, and the same split by agent role. */
+export function summarizeWorkflowUsage(
+  tasks: Iterable<{ agentRole: string; usage?: UsageTotals }>,
+): {
+  total: UsageTotals;
+  byAgent: Record<string, UsageTotals>;
+} {
+  let total = emptyUsage();
+  const byAgent: Record<string, UsageTotals> = {};
+  for (const task of tasks) {
+    if (task.usage) {
+      total = addUsage(total, task.usage);
+      byAgent[task.agentRole] = addUsage(byAgent[task.agentRole], task.usage);
+    }
+  }
+  return { total, byAgent };
+}
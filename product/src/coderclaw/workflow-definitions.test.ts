@@ -0,0 +1,216 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { AgentOrchestrator } from "./orchestrator.js";
+import {
+  instantiateWorkflowDefinition,
+  loadWorkflowDefinitionsFromDir,
+  parseWorkflowDefinition,
+} from "./workflow-definitions.js";
+
+const MIGRATION_YAML = [
+  "name: migration",
+  "description: Plan and apply a schema migration",
+  "inputs:",
+  "  table: { required: true }",
+  "  dialect: { default: postgres }",
+  "steps:",
+  "  - id: plan",
+  "    role: architecture-advisor",
+  '    task: "Plan migrating {{inputs.table}} ({{inputs.dialect}}): {{description}}"',
+  "  - id: apply",
+  "    role: code-creator",
+  '    task: "Write the migration for {{inputs.table}}"',
+  "    dependsOn: [plan]",
+  "    model: anthropic/claude-sonnet-4-5",
+  "    thinking: high",
+].join("\n");
+
+describe("parseWorkflowDefinition", () => {
+  it("collects validation errors for unknown dependencies and cycles", () => {
+    const result = parseWorkflowDefinition({
+      name: "broken",
+      steps: [
+        { id: "a", role: "code-creator", task: "A", dependsOn: ["b"] },
+        { id: "b", role: "code-reviewer", task: "B", dependsOn: ["a"] },
+        { id: "c", role: "test-generator", task: "C", dependsOn: ["missing"] },
+      ],
+    });
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errors).toContain('step "c" depends on unknown step "missing"');
+      expect(result.errors.some((e) => e.startsWith("dependency cycle:"))).toBe(true);
+    }
+  });
+
+  it("validates conditions and loop targets", () => {
+    const result = parseWorkflowDefinition({
+      name: "review-loop",
+      steps: [
+        { id: "build", role: "code-creator", task: "Build" },
+        { id: "review", role: "code-reviewer", task: "Review", dependsOn: ["build"] },
+        {
+          id: "fix",
+          role: "code-creator",
+          task: "Fix",
+          when: { step: "review", contains: "BLOCKER" },
+          loop: { to: "review", maxIterations: 2 },
+        },
+        {
+          id: "docs",
+          role: "documentation-agent",
+          task: "Docs",
+          when: { step: "nowhere" },
+          loop: { to: "fix", maxIterations: 0 },
+        },
+      ],
+    });
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errors).toEqual([
+        'steps[3]: "when" needs one of contains, notContains or matches',
+        'steps[3]: "loop.maxIterations" must be a positive integer',
+        'step "docs" has a condition on unknown step "nowhere"',
+        'step "docs" loops to "fix", which is not one of its ancestors',
+      ]);
+    }
+  });
+
+  it("requires role and task on every step", () => {
+    const result = parseWorkflowDefinition({ name: "x", steps: [{ id: "only" }] });
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errors).toEqual([
+        'steps[0]: missing required "role"',
+        'steps[0]: missing required "task"',
+      ]);
+    }
+  });
+
+  it("parses approval checkpoints", () => {
+    const ok = parseWorkflowDefinition({
+      name: "gated",
+      steps: [
+        { id: "a", role: "code-creator", task: "A", approval: true },
+        { id: "b", role: "code-reviewer", task: "B", approval: { message: "Ship?" } },
+      ],
+    });
+    expect(ok.ok && ok.definition.steps.map((step) => step.approval)).toEqual([
+      {},
+      { message: "Ship?" },
+    ]);
+
+    const bad = parseWorkflowDefinition({
+      name: "gated",
+      steps: [
+        { id: "a", role: "code-creator", task: "A", approval: "yes" },
+        { id: "b", role: "code-reviewer", task: "B", approval: { timeoutMs: -1 } },
+      ],
+    });
+    expect(!bad.ok && bad.errors).toEqual([
+      'steps[0]: "approval" must be true or a mapping',
+      'steps[1]: "approval.timeoutMs" must be a positive integer',
+    ]);
+  });
+
+  it("falls back to the provided name when the document omits one", () => {
+    const result = parseWorkflowDefinition(
+      { steps: [{ role: "code-creator", task: "Do it" }] },
+      "release-notes",
+    );
+    expect(result.ok && result.definition.name).toBe("release-notes");
+    expect(result.ok && result.definition.steps[0]?.id).toBe("step-1");
+  });
+});
+
+describe("instantiateWorkflowDefinition", () => {
+  it("renders templates, applies defaults and keeps step ids", () => {
+    const parsed = parseWorkflowDefinition({
+      name: "migration",
+      inputs: { table: { required: true }, dialect: { default: "postgres" } },
+      steps: [
+        {
+          id: "plan",
+          role: "architecture-advisor",
+          task: "Plan {{inputs.table}} on {{inputs.dialect}}",
+        },
+        {
+          id: "apply",
+          role: "code-creator",
+          task: "Apply: {{description}}",
+          dependsOn: ["plan"],
+          thinking: "high",
+        },
+      ],
+    });
+    expect(parsed.ok).toBe(true);
+    if (!parsed.ok) {
+      return;
+    }
+    const steps = instantiateWorkflowDefinition(parsed.definition, "add index", { table: "users" });
+    expect(steps).toEqual([
+      { id: "plan", role: "architecture-advisor", task: "Plan users on postgres" },
+      {
+        id: "apply",
+        role: "code-creator",
+        task: "Apply: add index",
+        dependsOn: ["plan"],
+        thinking: "high",
+      },
+    ]);
+  });
+
+  it("throws when a required input is missing", () => {
+    const parsed = parseWorkflowDefinition({
+      name: "migration",
+      inputs: { table: { required: true } },
+      steps: [{ id: "plan", role: "architecture-advisor", task: "Plan {{inputs.table}}" }],
+    });
+    expect(parsed.ok).toBe(true);
+    if (parsed.ok) {
+      expect(() => instantiateWorkflowDefinition(parsed.definition, "x")).toThrow(/table/);
+    }
+  });
+});
+
+describe("workflow definitions on disk", () => {
+  it("loads valid files, reports invalid ones and skips built-in names", async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), "workflow-defs-"));
+    const dir = path.join(root, ".coderclaw", "workflows");
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(path.join(dir, "migration.yaml"), MIGRATION_YAML, "utf-8");
+    await fs.writeFile(path.join(dir, "broken.yaml"), "name: broken\nsteps: []\n", "utf-8");
+    await fs.writeFile(
+      path.join(dir, "feature.yml"),
+      "steps:\n  - role: code-creator\n    task: shadow\n",
+      "utf-8",
+    );
+
+    const { definitions, errors } = await loadWorkflowDefinitionsFromDir(dir);
+    expect(definitions.map((d) => d.name).toSorted()).toEqual(["feature", "migration"]);
+    expect(errors).toEqual([
+      { filePath: path.join(dir, "broken.yaml"), errors: ['"steps" must be a non-empty list'] },
+    ]);
+
+    const orchestrator = new AgentOrchestrator();
+    await orchestrator.loadWorkflowDefinitions(root);
+    const types = orchestrator.listWorkflowTypes();
+    expect(types.filter((t) => t.source === "project").map((t) => t.name)).toEqual(["migration"]);
+    expect(types.find((t) => t.name === "feature")?.source).toBe("builtin");
+
+    const wf = orchestrator.createWorkflow(
+      orchestrator.resolveWorkflowSteps("migration", "add index", { table: "users" }) ?? [],
+    );
+    const tasks = Array.from(wf.tasks.values());
+    expect(tasks[1]?.dependencies).toEqual([tasks[0]?.id]);
+    expect(tasks[1]?.model).toBe("anthropic/claude-sonnet-4-5");
+    expect(tasks[1]?.thinking).toBe("high");
+
+    expect(await loadWorkflowDefinitionsFromDir(path.join(root, "missing"))).toEqual({
+      definitions: [],
+      errors: [],
+    });
+    await fs.rm(root, { recursive: true });
+  });
+});
@@ -0,0 +1,539 @@
+/**
+ * Declarative workflow definitions loaded from `.coderClaw/workflows/*.yaml`.
+ *
+ * A definition is a reusable, checked-in alternative to the hard-coded
+ * workflow factories in orchestrator.ts. Each file declares named steps,
+ * their roles and dependencies, templated task text, optional per-step
+ * model/thinking overrides, control flow (`when` conditions and bounded
+ * `loop` edges), human approval checkpoints and test gates:
+ *
+ * ```yaml
+ * name: migration
+ * description: Plan, apply and verify a schema migration
+ * inputs:
+ *   table: { description: Table to migrate, required: true }
+ * steps:
+ *   - id: plan
+ *     role: architecture-advisor
+ *     task: "Plan the migration of {{inputs.table}}: {{description}}"
+ *   - id: apply
+ *     role: code-creator
+ *     task: "Write the migration for {{inputs.table}}"
+ *     dependsOn: [plan]
+ *     model: anthropic/claude-sonnet-4-5
+ *     thinking: high
+ *     approval: { message: "Apply the migration plan?" }
+ *     testGate: { files: [test/migrations] }
+ *   - id: review
+ *     role: code-reviewer
+ *     task: "Review the migration for {{inputs.table}}"
+ *     dependsOn: [apply]
+ *   - id: fix
+ *     role: code-creator
+ *     task: "Fix the BLOCKER issues from the review"
+ *     when: { step: review, contains: BLOCKER }
+ *     loop: { to: review, maxIterations: 3 }
+ * ```
+ *
+ * Templates support `{{description}}` and `{{inputs.<name>}}`; unknown
+ * expressions render as empty strings (same convention as hook mappings).
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import { parse as parseYaml } from "yaml";
+import { logDebug } from "../logger.js";
+import type {
+  StepApproval,
+  StepCondition,
+  StepLoop,
+  StepTestGate,
+  WorkflowStep,
+} from "./orchestrator.js";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type WorkflowDefinitionInput = {
+  description?: string;
+  default?: string;
+  required?: boolean;
+};
+
+export type WorkflowDefinitionStep = {
+  /** Stable identifier referenced by other steps' `dependsOn`. */
+  id: string;
+  role: string;
+  /** Task text; may contain `{{description}}` / `{{inputs.<name>}}` placeholders. */
+  task: string;
+  dependsOn?: string[];
+  /** Model override for this step, e.g. "anthropic/claude-sonnet-4-5". */
+  model?: string;
+  /** Thinking level override for this step, e.g. "low" | "high". */
+  thinking?: string;
+  /** Run only when another step's output matches; implies a dependency on it. */
+  when?: StepCondition;
+  /** Re-run the cycle from an ancestor step through this one. */
+  loop?: StepLoop;
+  /** Wait for a human to approve this step before it runs. */
+  approval?: StepApproval;
+  /** Fail this step unless the project's tests pass after it. */
+  testGate?: StepTestGate;
+};
+
+export type WorkflowDefinition = {
+  name: string;
+  description?: string;
+  inputs: Record<string, WorkflowDefinitionInput>;
+  steps: WorkflowDefinitionStep[];
+  /** Absolute path of the YAML file this definition was loaded from. */
+  filePath?: string;
+};
+
+export type WorkflowDefinitionLoadError = {
+  filePath: string;
+  errors: string[];
+};
+
+export type WorkflowDefinitionParseResult =
+  | { ok: true; definition: WorkflowDefinition }
+  | { ok: false; errors: string[] };
+
+const WORKFLOW_NAME_RE = /^[a-z0-9][a-z0-9_-]*$/i;
+
+// ── Validation ────────────────────────────────────────────────────────────────
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value : undefined;
+}
+
+function parseInputs(raw: unknown, errors: string[]): Record<string, WorkflowDefinitionInput> {
+  if (raw === undefined || raw === null) {
+    return {};
+  }
+  if (typeof raw !== "object" || Array.isArray(raw)) {
+    errors.push(`"inputs" must be a mapping of input name to options`);
+    return {};
+  }
+  const inputs: Record<string, WorkflowDefinitionInput> = {};
+  for (const [name, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (value === null || value === undefined) {
+      inputs[name] = {};
+      continue;
+    }
+    if (typeof value !== "object" || Array.isArray(value)) {
+      errors.push(`input "${name}" must be a mapping`);
+      continue;
+    }
+    const v = value as Record<string, unknown>;
+    inputs[name] = {
+      description: optionalString(v.description),
+      default:
+        typeof v.default === "string" ||
+        typeof v.default === "number" ||
+        typeof v.default === "boolean"
+          ? String(v.default)
+          : undefined,
+      required: v.required === true,
+    };
+  }
+  return inputs;
+}
+
+function parseWhen(raw: unknown, label: string, errors: string[]): StepCondition | undefined {
+  if (raw === undefined) {
+    return undefined;
+  }
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    errors.push(`${label}: "when" must be a mapping`);
+    return undefined;
+  }
+  const w = raw as Record<string, unknown>;
+  const step = optionalString(w.step)?.trim();
+  const when: StepCondition = {
+    step: step ?? "",
+    contains: optionalString(w.contains),
+    notContains: optionalString(w.notContains),
+    matches: optionalString(w.matches),
+  };
+  if (!step) {
+    errors.push(`${label}: "when.step" is required`);
+  }
+  if (when.contains === undefined && when.notContains === undefined && when.matches === undefined) {
+    errors.push(`${label}: "when" needs one of contains, notContains or matches`);
+  }
+  if (when.matches !== undefined) {
+    try {
+      new RegExp(when.matches);
+    } catch {
+      errors.push(`${label}: invalid "when.matches" pattern`);
+    }
+  }
+  return when;
+}
+
+function parseLoop(raw: unknown, label: string, errors: string[]): StepLoop | undefined {
+  if (raw === undefined) {
+    return undefined;
+  }
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    errors.push(`${label}: "loop" must be a mapping`);
+    return undefined;
+  }
+  const l = raw as Record<string, unknown>;
+  const to = optionalString(l.to)?.trim();
+  const maxIterations = l.maxIterations;
+  if (!to) {
+    errors.push(`${label}: "loop.to" is required`);
+  }
+  if (typeof maxIterations !== "number" || !Number.isInteger(maxIterations) || maxIterations < 1) {
+    errors.push(`${label}: "loop.maxIterations" must be a positive integer`);
+  }
+  return { to: to ?? "", maxIterations: typeof maxIterations === "number" ? maxIterations : 1 };
+}
+
+function parseApproval(raw: unknown, label: string, errors: string[]): StepApproval | undefined {
+  if (raw === undefined || raw === false) {
+    return undefined;
+  }
+  if (raw === true) {
+    return {};
+  }
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    errors.push(`${label}: "approval" must be true or a mapping`);
+    return undefined;
+  }
+  const a = raw as Record<string, unknown>;
+  const timeoutMs = a.timeoutMs;
+  if (
+    timeoutMs !== undefined &&
+    (typeof timeoutMs !== "number" || !Number.isInteger(timeoutMs) || timeoutMs < 1)
+  ) {
+    errors.push(`${label}: "approval.timeoutMs" must be a positive integer`);
+  }
+  return {
+    message: optionalString(a.message),
+    timeoutMs: typeof timeoutMs === "number" ? timeoutMs : undefined,
+  };
+}
+
+function parseTestGate(raw: unknown, label: string, errors: string[]): StepTestGate | undefined {
+  if (raw === undefined || raw === false) {
+    return undefined;
+  }
+  if (raw === true) {
+    return {};
+  }
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    errors.push(`${label}: "testGate" must be true or a mapping`);
+    return undefined;
+  }
+  const g = raw as Record<string, unknown>;
+  if (
+    g.files !== undefined &&
+    (!Array.isArray(g.files) || !g.files.every((f) => typeof f === "string"))
+  ) {
+    errors.push(`${label}: "testGate.files" must be a list of paths`);
+  }
+  return {
+    files: Array.isArray(g.files) ? g.files.filter((f) => typeof f === "string") : undefined,
+    testNamePattern: optionalString(g.testNamePattern),
+  };
+}
+
+/** Ids a step waits for: `dependsOn` plus the step its `when` inspects. */
+function stepDependencies(step: WorkflowDefinitionStep): string[] {
+  const deps = [...(step.dependsOn ?? [])];
+  if (step.when?.step && !deps.includes(step.when.step)) {
+    deps.push(step.when.step);
+  }
+  return deps;
+}
+
+/** Every step id `id` transitively depends on. */
+function collectAncestors(steps: WorkflowDefinitionStep[], id: string): Set<string> {
+  const byId = new Map(steps.map((s) => [s.id, s]));
+  const seen = new Set<string>();
+  const start = byId.get(id);
+  const stack = start ? stepDependencies(start) : [];
+  while (stack.length > 0) {
+    const dep = stack.pop()!;
+    const step = byId.get(dep);
+    if (step && !seen.has(dep)) {
+      seen.add(dep);
+      stack.push(...stepDependencies(step));
+    }
+  }
+  return seen;
+}
+
+/** Returns the ids participating in a dependency cycle, or null when acyclic. */
+function findCycle(steps: WorkflowDefinitionStep[]): string[] | null {
+  const byId = new Map(steps.map((s) => [s.id, s]));
+  const state = new Map<string, "visiting" | "done">();
+  const stack: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    const current = state.get(id);
+    if (current === "done") {
+      return null;
+    }
+    if (current === "visiting") {
+      return [...stack.slice(stack.indexOf(id)), id];
+    }
+    state.set(id, "visiting");
+    stack.push(id);
+    const step = byId.get(id);
+    for (const dep of step ? stepDependencies(step) : []) {
+      if (byId.has(dep)) {
+        const cycle = visit(dep);
+        if (cycle) {
+          return cycle;
+        }
+      }
+    }
+    stack.pop();
+    state.set(id, "done");
+    return null;
+  };
+
+  for (const step of steps) {
+    const cycle = visit(step.id);
+    if (cycle) {
+      return cycle;
+    }
+  }
+  return null;
+}
+
+/**
+ * Validate a parsed YAML document and convert it into a `WorkflowDefinition`.
+ * `fallbackName` (usually the file basename) is used when `name` is omitted.
+ * All problems are collected so authors can fix a file in one pass.
+ */
+export function parseWorkflowDefinition(
+  raw: unknown,
+  fallbackName?: string,
+): WorkflowDefinitionParseResult {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { ok: false, errors: ["workflow definition must be a YAML mapping"] };
+  }
+  const r = raw as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const name = optionalString(r.name)?.trim() ?? fallbackName;
+  if (!name) {
+    errors.push(`missing required "name" field`);
+  } else if (!WORKFLOW_NAME_RE.test(name)) {
+    errors.push(`invalid name "${name}": use letters, digits, "-" or "_"`);
+  }
+
+  const inputs = parseInputs(r.inputs, errors);
+
+  const steps: WorkflowDefinitionStep[] = [];
+  if (!Array.isArray(r.steps) || r.steps.length === 0) {
+    errors.push(`"steps" must be a non-empty list`);
+  } else {
+    const seen = new Set<string>();
+    r.steps.forEach((item, index) => {
+      const label = `steps[${index}]`;
+      if (!item || typeof item !== "object" || Array.isArray(item)) {
+        errors.push(`${label} must be a mapping`);
+        return;
+      }
+      const s = item as Record<string, unknown>;
+      const id = optionalString(s.id)?.trim() ?? `step-${index + 1}`;
+      const role = optionalString(s.role)?.trim();
+      const task = optionalString(s.task);
+      if (seen.has(id)) {
+        errors.push(`${label}: duplicate step id "${id}"`);
+      }
+      seen.add(id);
+      if (!role) {
+        errors.push(`${label}: missing required "role"`);
+      }
+      if (!task) {
+        errors.push(`${label}: missing required "task"`);
+      }
+      let dependsOn: string[] | undefined;
+      if (s.dependsOn !== undefined) {
+        if (
+          !Array.isArray(s.dependsOn) ||
+          !s.dependsOn.every((d): d is string => typeof d === "string")
+        ) {
+          errors.push(`${label}: "dependsOn" must be a list of step ids`);
+        } else {
+          dependsOn = s.dependsOn;
+        }
+      }
+      steps.push({
+        id,
+        role: role ?? "",
+        task: task ?? "",
+        dependsOn,
+        model: optionalString(s.model),
+        thinking: optionalString(s.thinking),
+        when: parseWhen(s.when, label, errors),
+        loop: parseLoop(s.loop, label, errors),
+        approval: parseApproval(s.approval, label, errors),
+        testGate: parseTestGate(s.testGate, label, errors),
+      });
+    });
+
+    const ids = new Set(steps.map((s) => s.id));
+    for (const step of steps) {
+      for (const dep of step.dependsOn ?? []) {
+        if (!ids.has(dep)) {
+          errors.push(`step "${step.id}" depends on unknown step "${dep}"`);
+        } else if (dep === step.id) {
+          errors.push(`step "${step.id}" depends on itself`);
+        }
+      }
+    }
+    for (const step of steps) {
+      if (step.when?.step && !ids.has(step.when.step)) {
+        errors.push(`step "${step.id}" has a condition on unknown step "${step.when.step}"`);
+      } else if (step.when?.step === step.id) {
+        errors.push(`step "${step.id}" has a condition on itself`);
+      }
+    }
+    const cycle = findCycle(steps);
+    if (cycle && cycle.length > 2) {
+      errors.push(`dependency cycle: ${cycle.join(" → ")}`);
+    } else {
+      for (const step of steps) {
+        if (step.loop?.to && !collectAncestors(steps, step.id).has(step.loop.to)) {
+          errors.push(
+            `step "${step.id}" loops to "${step.loop.to}", which is not one of its ancestors`,
+          );
+        }
+      }
+    }
+  }
+
+  if (errors.length > 0 || !name) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    definition: {
+      name,
+      description: optionalString(r.description),
+      inputs,
+      steps,
+    },
+  };
+}
+
+// ── Loading ───────────────────────────────────────────────────────────────────
+
+/**
+ * Load every `*.yaml` / `*.yml` workflow definition from a directory.
+ * Invalid files are reported in `errors` rather than thrown so one broken
+ * definition doesn't hide the rest. A missing directory yields empty results.
+ */
+export async function loadWorkflowDefinitionsFromDir(dir: string): Promise<{
+  definitions: WorkflowDefinition[];
+  errors: WorkflowDefinitionLoadError[];
+}> {
+  const definitions: WorkflowDefinition[] = [];
+  const errors: WorkflowDefinitionLoadError[] = [];
+
+  let files: string[];
+  try {
+    files = (await fs.readdir(dir)).filter((f) => f.endsWith(".yaml") || f.endsWith(".yml"));
+  } catch {
+    // Directory does not exist or is inaccessible — not an error
+    return { definitions, errors };
+  }
+
+  const seenNames = new Map<string, string>();
+  for (const file of files.toSorted()) {
+    const filePath = path.join(dir, file);
+    let raw: unknown;
+    try {
+      raw = parseYaml(await fs.readFile(filePath, "utf-8"));
+    } catch (err) {
+      errors.push({ filePath, errors: [`failed to parse YAML: ${String(err)}`] });
+      continue;
+    }
+    const result = parseWorkflowDefinition(raw, path.basename(file, path.extname(file)));
+    if (!result.ok) {
+      errors.push({ filePath, errors: result.errors });
+      continue;
+    }
+    const previous = seenNames.get(result.definition.name);
+    if (previous) {
+      errors.push({
+        filePath,
+        errors: [`duplicate workflow name "${result.definition.name}" (also in ${previous})`],
+      });
+      continue;
+    }
+    seenNames.set(result.definition.name, filePath);
+    definitions.push({ ...result.definition, filePath });
+    logDebug(`[workflow-definitions] loaded "${result.definition.name}" from ${filePath}`);
+  }
+
+  return { definitions, errors };
+}
+
+// ── Instantiation ─────────────────────────────────────────────────────────────
+
+export type WorkflowTemplateVars = {
+  description: string;
+  inputs: Record<string, string>;
+};
+
+/** Render `{{description}}` / `{{inputs.<name>}}` placeholders in a step template. */
+export function renderWorkflowTemplate(template: string, vars: WorkflowTemplateVars): string {
+  return template.replace(/\{\{\s*([^}]+?)\s*\}\}/g, (_, expr: string) => {
+    if (expr === "description") {
+      return vars.description;
+    }
+    if (expr.startsWith("inputs.")) {
+      return vars.inputs[expr.slice("inputs.".length)] ?? "";
+    }
+    return "";
+  });
+}
+
+/**
+ * Expand a definition into concrete `WorkflowStep`s for `createWorkflow()`.
+ * Applies input defaults and throws when a required input is missing.
+ */
+export function instantiateWorkflowDefinition(
+  definition: WorkflowDefinition,
+  description: string,
+  inputs: Record<string, string> = {},
+): WorkflowStep[] {
+  const resolvedInputs: Record<string, string> = { ...inputs };
+  const missing: string[] = [];
+  for (const [name, spec] of Object.entries(definition.inputs)) {
+    if (resolvedInputs[name] === undefined && spec.default !== undefined) {
+      resolvedInputs[name] = spec.default;
+    }
+    if (spec.required && !resolvedInputs[name]) {
+      missing.push(name);
+    }
+  }
+  if (missing.length > 0) {
+    throw new Error(
+      `Workflow "${definition.name}" is missing required input(s): ${missing.join(", ")}`,
+    );
+  }
+
+  const vars: WorkflowTemplateVars = { description, inputs: resolvedInputs };
+  return definition.steps.map((step) => ({
+    id: step.id,
+    role: step.role,
+    task: renderWorkflowTemplate(step.task, vars),
+    ...(step.dependsOn?.length ? { dependsOn: step.dependsOn } : {}),
+    ...(step.model ? { model: step.model } : {}),
+    ...(step.thinking ? { thinking: step.thinking } : {}),
+    ...(step.when ? { when: step.when } : {}),
+    ...(step.loop ? { loop: step.loop } : {}),
+    ...(step.approval ? { approval: step.approval } : {}),
+    ...(step.testGate ? { testGate: step.testGate } : {}),
+  }));
+}
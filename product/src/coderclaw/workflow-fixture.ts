@@ -0,0 +1,285 @@
+/**
+ * Workflow fixtures: a recorded workflow run that can be replayed offline.
+ *
+ * A fixture holds the workflow's steps, every dispatch the orchestrator made
+ * (target, prompt, the role's system prompt, the agent's answer and the model
+ * calls behind it), the memory recalls and test gate results the run saw, and
+ * the final task graph. Replaying it (workflow-replay.ts) serves the recorded
+ * answers to the current code and produces the same transcript shape, so the
+ * two runs can be compared field by field.
+ */
+
+import fs from "node:fs/promises";
+import { findAgentRole } from "./agent-roles.js";
+import type { TaskStatus, Workflow, WorkflowStep } from "./orchestrator.js";
+import { buildRoleSystemPrompt } from "./personas.js";
+import type { TestGateResult } from "./ports.js";
+import { diffLines, splitLines } from "./text-merge.js";
+
+export const WORKFLOW_FIXTURE_VERSION = 1;
+
+export type FixtureToolCall = {
+  name: string;
+  arguments: Record<string, unknown>;
+};
+
+/** One model request/response inside a dispatched agent's run. */
+export type FixtureModelCall = {
+  /** "provider/model" that answered. */
+  model: string;
+  /** Names of the tools offered to the model. */
+  tools: string[];
+  text: string;
+  toolCalls: FixtureToolCall[];
+  stopReason: string;
+};
+
+export type FixtureDispatchResult =
+  | { status: "accepted"; targetId: string; output?: string }
+  | { status: "failed"; error: string; targetId?: string };
+
+export type FixtureDispatch = {
+  /** Key of the dispatching task (see `fixtureTaskKey`). */
+  task: string;
+  /** Loop iteration of the task (0 on the first run). */
+  iteration: number;
+  target: string;
+  input: string;
+  model?: string;
+  provider?: string;
+  thinking?: string;
+  /** Role guidance and persona block of the local role; absent for remote targets. */
+  rolePrompt?: string;
+  result: FixtureDispatchResult;
+  modelCalls: FixtureModelCall[];
+};
+
+export type FixtureTask = {
+  key: string;
+  role: string;
+  status: TaskStatus;
+  dependencies: string[];
+  iteration: number;
+  output?: string;
+  error?: string;
+};
+
+export type FixtureTestGate = {
+  task: string;
+  iteration: number;
+  result: TestGateResult;
+};
+
+export type FixtureMemoryEntry = { key: string; content: string };
+
+/** What a run did: comparable between a recording and its replay. */
+export type WorkflowRunTranscript = {
+  tasks: FixtureTask[];
+  dispatches: FixtureDispatch[];
+};
+
+export type WorkflowFixture = WorkflowRunTranscript & {
+  version: typeof WORKFLOW_FIXTURE_VERSION;
+  recordedAt: string;
+  workflow: { type?: string; steps: WorkflowStep[] };
+  /** Memory answers the run saw, replayed instead of querying the memory service. */
+  memory: { teamContext?: string; recalls: Record<string, FixtureMemoryEntry[]> };
+  testGates: FixtureTestGate[];
+};
+
+export type WorkflowRunDifference = {
+  kind: "task" | "output" | "dispatch" | "tool-calls";
+  /** Task key, with the iteration for loop re-runs. */
+  key: string;
+  field: string;
+  expected?: string;
+  actual?: string;
+};
+
+/**
+ * Stable key for a task across runs: its step id, or `#<index>` for steps
+ * without one. Task ids are random, but tasks are created in step order.
+ */
+export function fixtureTaskKey(workflow: Workflow, taskId: string): string {
+  const task = workflow.tasks.get(taskId);
+  if (task?.stepId !== undefined) {
+    return task.stepId;
+  }
+  return `#${Array.from(workflow.tasks.keys()).indexOf(taskId)}`;
+}
+
+export function snapshotWorkflowTasks(workflow: Workflow): FixtureTask[] {
+  return Array.from(workflow.tasks.values()).map((task) => ({
+    key: fixtureTaskKey(workflow, task.id),
+    role: task.agentRole,
+    status: task.status,
+    dependencies: task.dependencies.map((id) => fixtureTaskKey(workflow, id)),
+    iteration: task.iteration ?? 0,
+    ...(task.output !== undefined ? { output: task.output } : {}),
+    ...(task.error !== undefined ? { error: task.error } : {}),
+  }));
+}
+
+/**
+ * The role prompt a local dispatch runs with. `targetId` is the role the
+ * transport resolved, needed for `local:auto` targets.
+ */
+export function rolePromptForTarget(target: string, targetId?: string): string | undefined {
+  if (target.startsWith("remote:")) {
+    return undefined;
+  }
+  const name = target.replace(/^local:/, "");
+  const role = findAgentRole(/^auto(\[|$)/.test(name) ? (targetId ?? name) : name);
+  return role ? buildRoleSystemPrompt(role) : undefined;
+}
+
+export async function readWorkflowFixture(filePath: string): Promise<WorkflowFixture> {
+  const parsed = JSON.parse(await fs.readFile(filePath, "utf-8")) as Partial<WorkflowFixture>;
+  if (parsed.version !== WORKFLOW_FIXTURE_VERSION) {
+    throw new Error(
+      `${filePath}: unsupported workflow fixture version ${String(parsed.version)} (expected ${WORKFLOW_FIXTURE_VERSION})`,
+    );
+  }
+  if (
+    !Array.isArray(parsed.workflow?.steps) ||
+    !Array.isArray(parsed.tasks) ||
+    !Array.isArray(parsed.dispatches)
+  ) {
+    throw new Error(`${filePath}: not a workflow fixture (missing steps, tasks or dispatches)`);
+  }
+  return {
+    ...parsed,
+    memory: parsed.memory ?? { recalls: {} },
+    testGates: parsed.testGates ?? [],
+  } as WorkflowFixture;
+}
+
+export async function writeWorkflowFixture(
+  filePath: string,
+  fixture: WorkflowFixture,
+): Promise<void> {
+  await fs.writeFile(filePath, `${JSON.stringify(fixture, null, 2)}\n`, "utf-8");
+}
+
+export function dispatchKey(entry: { task: string; iteration: number }): string {
+  return entry.iteration > 0 ? `${entry.task}@${entry.iteration}` : entry.task;
+}
+
+function formatToolCalls(dispatch: FixtureDispatch | undefined): string {
+  return (dispatch?.modelCalls ?? [])
+    .flatMap((call) => call.toolCalls)
+    .map((call) => `${call.name}(${JSON.stringify(call.arguments)})`)
+    .join("\n");
+}
+
+/** Field-by-field differences between a recorded run and its replay. */
+export function diffWorkflowRuns(
+  expected: WorkflowRunTranscript,
+  actual: WorkflowRunTranscript,
+): WorkflowRunDifference[] {
+  const differences: WorkflowRunDifference[] = [];
+  const compare = (
+    kind: WorkflowRunDifference["kind"],
+    key: string,
+    field: string,
+    a: string | undefined,
+    b: string | undefined,
+  ) => {
+    if (a !== b) {
+      differences.push({
+        kind,
+        key,
+        field,
+        ...(a !== undefined ? { expected: a } : {}),
+        ...(b !== undefined ? { actual: b } : {}),
+      });
+    }
+  };
+
+  const actualTasks = new Map(actual.tasks.map((task) => [task.key, task]));
+  for (const task of expected.tasks) {
+    const other = actualTasks.get(task.key);
+    actualTasks.delete(task.key);
+    if (!other) {
+      compare("task", task.key, "task", task.role, undefined);
+      continue;
+    }
+    compare("task", task.key, "role", task.role, other.role);
+    compare("task", task.key, "status", task.status, other.status);
+    compare(
+      "task",
+      task.key,
+      "dependencies",
+      task.dependencies.join(", "),
+      other.dependencies.join(", "),
+    );
+    compare("task", task.key, "iteration", String(task.iteration), String(other.iteration));
+    compare("task", task.key, "error", task.error, other.error);
+    compare("output", task.key, "output", task.output, other.output);
+  }
+  for (const task of actualTasks.values()) {
+    compare("task", task.key, "task", undefined, task.role);
+  }
+
+  const actualDispatches = new Map(actual.dispatches.map((entry) => [dispatchKey(entry), entry]));
+  for (const dispatch of expected.dispatches) {
+    const key = dispatchKey(dispatch);
+    const other = actualDispatches.get(key);
+    actualDispatches.delete(key);
+    if (!other) {
+      compare("dispatch", key, "dispatch", dispatch.target, undefined);
+      compare("tool-calls", key, "toolCalls", formatToolCalls(dispatch) || undefined, undefined);
+      continue;
+    }
+    compare("dispatch", key, "target", dispatch.target, other.target);
+    compare("dispatch", key, "model", dispatch.model, other.model);
+    compare("dispatch", key, "provider", dispatch.provider, other.provider);
+    compare("dispatch", key, "thinking", dispatch.thinking, other.thinking);
+    compare("dispatch", key, "rolePrompt", dispatch.rolePrompt, other.rolePrompt);
+    compare("dispatch", key, "input", dispatch.input, other.input);
+    compare("tool-calls", key, "toolCalls", formatToolCalls(dispatch), formatToolCalls(other));
+  }
+  for (const [key, dispatch] of actualDispatches) {
+    compare("dispatch", key, "dispatch", undefined, dispatch.target);
+  }
+  return differences;
+}
+
+/** Changed lines of a multi-line value, as `-`/`+` lines under `@@ line N` headers. */
+function formatValueDiff(expected: string | undefined, actual: string | undefined): string[] {
+  if (expected === undefined || actual === undefined) {
+    return [
+      ...(expected !== undefined ? [`  - ${expected.split("\n")[0]}`] : ["  - (none)"]),
+      ...(actual !== undefined ? [`  + ${actual.split("\n")[0]}`] : ["  + (none)"]),
+    ];
+  }
+  if (!expected.includes("\n") && !actual.includes("\n")) {
+    return [`  - ${expected}`, `  + ${actual}`];
+  }
+  const base = splitLines(expected);
+  const lines: string[] = [];
+  for (const change of diffLines(base, splitLines(actual))) {
+    lines.push(`  @@ line ${change.start + 1}`);
+    lines.push(...base.slice(change.start, change.end).map((line) => `  - ${line}`));
+    lines.push(...change.lines.map((line) => `  + ${line}`));
+  }
+  return lines;
+}
+
+/** Plain-text report for the CLI. */
+export function formatWorkflowRunDiff(differences: WorkflowRunDifference[]): string {
+  if (differences.length === 0) {
+    return "No differences.";
+  }
+  const blocks = differences.map((diff) =>
+    [
+      `${diff.kind} ${diff.key}: ${diff.field}`,
+      ...formatValueDiff(diff.expected, diff.actual),
+    ].join("\n"),
+  );
+  return [
+    `${differences.length} difference${differences.length === 1 ? "" : "s"}:`,
+    "",
+    blocks.join("\n\n"),
+  ].join("\n");
+}
@@ -0,0 +1,152 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import type { StreamFn } from "@mariozechner/pi-agent-core";
+import { afterEach, describe, expect, it } from "vitest";
+import { WorkflowRecorder } from "../infra/workflow-recorder.js";
+import { AgentOrchestrator, type WorkflowStep } from "./orchestrator.js";
+import type { IAgentTransport } from "./ports.js";
+import { formatWorkflowRunDiff, readWorkflowFixture } from "./workflow-fixture.js";
+import { replayWorkflowFixture } from "./workflow-replay.js";
+
+const STEPS: WorkflowStep[] = [
+  { id: "build", role: "code-creator", task: "Build it", testGate: true },
+  { id: "review", role: "code-reviewer", task: "Review it", dependsOn: ["build"] },
+];
+
+const dirs: string[] = [];
+
+afterEach(async () => {
+  await Promise.all(dirs.splice(0).map((dir) => fs.rm(dir, { recursive: true, force: true })));
+});
+
+/** Stream that answers with one `read` tool call. */
+const readFileStream: StreamFn = () =>
+  ({
+    result: async () => ({
+      role: "assistant",
+      content: [
+        { type: "text", text: "Reading the entry point." },
+        { type: "toolCall", id: "call-1", name: "read", arguments: { path: "src/index.ts" } },
+      ],
+      provider: "anthropic",
+      model: "claude-sonnet-4-5",
+      stopReason: "toolUse",
+    }),
+  }) as unknown as ReturnType<StreamFn>;
+
+/** Record a two-step workflow whose agents each make one model call. */
+async function recordFixture(): Promise<string> {
+  const outputDir = await fs.mkdtemp(path.join(os.tmpdir(), "workflow-fixtures-"));
+  dirs.push(outputDir);
+  const orchestrator = new AgentOrchestrator();
+  const recorder = new WorkflowRecorder({ orchestrator, outputDir });
+  let spawned = 0;
+  const agents: IAgentTransport = {
+    discover: async () => [],
+    dispatch: async (payload) => {
+      const childSessionKey = `agent:main:subagent:${++spawned}`;
+      const stream = await recorder.wrapStreamFn(childSessionKey, readFileStream)(
+        {} as never,
+        { messages: [], tools: [{ name: "read", description: "", parameters: {} as never }] },
+        {},
+      );
+      await stream.result();
+      await new Promise((resolve) => setImmediate(resolve));
+      const task = /## Your Task\n\n(.*)/.exec(payload.input)?.[1];
+      return {
+        status: "accepted",
+        targetId: payload.target,
+        output: `done: ${task}`,
+        childSessionKey,
+      };
+    },
+  };
+  orchestrator.configure({
+    agentTransport: recorder.wrapTransport(agents),
+    memoryService: recorder.wrapMemoryService({
+      buildTeamMemoryContext: async () => "",
+      recallSimilar: async (query) =>
+        query === "Build it" ? [{ key: "style", content: "Prefer small modules" }] : [],
+    }),
+    testRunner: recorder.wrapTestRunner({
+      run: async () => ({ passed: true, summary: "vitest: 4 passed (0.3s)" }),
+    }),
+    taskWorkspaces: {
+      prepare: async (_workflowId, taskId) => ({ path: outputDir, branch: taskId }),
+      integrate: async (_workflowId, taskId) => ({ status: "merged", branch: taskId }),
+      cleanup: async () => ({}),
+    },
+  });
+  const workflow = orchestrator.createWorkflow(STEPS, { type: "feature" });
+  await orchestrator.executeWorkflow(workflow.id, {});
+  const filePath = await recorder.flush(workflow.id);
+  expect(filePath).toBe(path.join(outputDir, `feature-${workflow.id.slice(0, 8)}.json`));
+  return filePath!;
+}
+
+describe("workflow record/replay", () => {
+  it("records dispatches with their model calls and replays them without differences", async () => {
+    const fixture = await readWorkflowFixture(await recordFixture());
+
+    expect(fixture.dispatches.map((d) => [d.task, d.target, d.result])).toEqual([
+      [
+        "build",
+        "code-creator",
+        { status: "accepted", targetId: "code-creator", output: "done: Build it" },
+      ],
+      [
+        "review",
+        "code-reviewer",
+        { status: "accepted", targetId: "code-reviewer", output: "done: Review it" },
+      ],
+    ]);
+    expect(fixture.dispatches[0]?.input).toMatch(
+      /^\[Memory Context\]\n- style: Prefer small modules\n/,
+    );
+    expect(fixture.dispatches[0]?.rolePrompt).toContain("--- Role Guidance ---");
+    expect(fixture.dispatches[0]?.modelCalls).toEqual([
+      {
+        model: "anthropic/claude-sonnet-4-5",
+        tools: ["read"],
+        text: "Reading the entry point.",
+        toolCalls: [{ name: "read", arguments: { path: "src/index.ts" } }],
+        stopReason: "toolUse",
+      },
+    ]);
+    expect(fixture.testGates).toEqual([
+      { task: "build", iteration: 0, result: { passed: true, summary: "vitest: 4 passed (0.3s)" } },
+    ]);
+    expect(fixture.tasks.map((t) => [t.key, t.status, t.dependencies, t.output])).toEqual([
+      ["build", "completed", [], "done: Build it\n\n[Test gate]\nvitest: 4 passed (0.3s)"],
+      ["review", "completed", ["build"], "done: Review it"],
+    ]);
+
+    const replay = await replayWorkflowFixture(fixture);
+    expect(replay.error).toBeUndefined();
+    expect(replay.differences).toEqual([]);
+  });
+
+  it("reports task graph and prompt changes against the recording", async () => {
+    const fixture = await readWorkflowFixture(await recordFixture());
+    const [build, review] = fixture.dispatches;
+    // The recording saw a different review prompt and persona than the current code builds.
+    review.input = review.input.replace("## Your Task", "## Task");
+    build.rolePrompt = "--- Role Guidance ---\nWrite code.";
+    // The review step now goes to a remote claw, which runs without a local role prompt.
+    fixture.workflow.steps = [STEPS[0], { ...STEPS[1], role: "remote:reviewer-claw" }];
+
+    const replay = await replayWorkflowFixture(fixture);
+
+    expect(replay.differences.map((d) => [d.kind, d.key, d.field])).toEqual([
+      ["task", "review", "role"],
+      ["dispatch", "build", "rolePrompt"],
+      ["dispatch", "review", "target"],
+      ["dispatch", "review", "rolePrompt"],
+      ["dispatch", "review", "input"],
+    ]);
+    expect(formatWorkflowRunDiff(replay.differences)).toContain(
+      "dispatch review: input\n  @@ line 1\n  - ## Task\n  + ## Your Task",
+    );
+  });
+});
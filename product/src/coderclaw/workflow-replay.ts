@@ -0,0 +1,144 @@
+/**
+ * Offline replay of a recorded workflow fixture against the current code.
+ *
+ * The recorded steps run through a fresh orchestrator whose ports answer from
+ * the fixture: the transport returns each task's recorded agent output, memory
+ * recall and test gates return what the recording saw. Everything the
+ * orchestrator derives itself — structured context, routing, role prompts,
+ * conditions and loops — comes from the current code, so a change there shows
+ * up as a difference against the recording. No model is called.
+ */
+
+import { AgentOrchestrator } from "./orchestrator.js";
+import type { IAgentTransport, ITaskWorkspaceService, ITestRunner } from "./ports.js";
+import {
+  diffWorkflowRuns,
+  dispatchKey,
+  fixtureTaskKey,
+  rolePromptForTarget,
+  snapshotWorkflowTasks,
+  type FixtureDispatch,
+  type FixtureDispatchResult,
+  type WorkflowFixture,
+  type WorkflowRunDifference,
+  type WorkflowRunTranscript,
+} from "./workflow-fixture.js";
+
+export type WorkflowReplayResult = {
+  transcript: WorkflowRunTranscript;
+  differences: WorkflowRunDifference[];
+  /** Set when the replayed workflow could not finish (e.g. it got stuck). */
+  error?: string;
+};
+
+export type ReplayWorkflowOptions = {
+  /** Project whose routing rules apply. Personas come from the process-wide registry. */
+  projectRoot?: string;
+};
+
+export async function replayWorkflowFixture(
+  fixture: WorkflowFixture,
+  options: ReplayWorkflowOptions = {},
+): Promise<WorkflowReplayResult> {
+  const orchestrator = new AgentOrchestrator();
+  if (options.projectRoot) {
+    await orchestrator.loadRoutingRules(options.projectRoot);
+  }
+
+  const recorded = new Map(fixture.dispatches.map((entry) => [dispatchKey(entry), entry]));
+  const gates = new Map(fixture.testGates.map((entry) => [dispatchKey(entry), entry.result]));
+  const dispatches: FixtureDispatch[] = [];
+
+  const locate = (workflowId?: string, taskId?: string) => {
+    const workflow = orchestrator.getWorkflowStatus(workflowId ?? "");
+    const task = workflow?.tasks.get(taskId ?? "");
+    return workflow && task
+      ? { task: fixtureTaskKey(workflow, task.id), iteration: task.iteration ?? 0 }
+      : null;
+  };
+
+  const transport: IAgentTransport = {
+    discover: async () => [],
+    dispatch: async (payload) => {
+      const at = locate(payload.workflowId, payload.taskId);
+      if (!at) {
+        return { status: "failed", error: "Replayed dispatch has no workflow task" };
+      }
+      const match = recorded.get(dispatchKey(at));
+      const rolePrompt = rolePromptForTarget(payload.target, match?.result.targetId);
+      const result: FixtureDispatchResult = match?.result ?? {
+        status: "failed",
+        error: `No recorded response for task ${dispatchKey(at)}`,
+        targetId: payload.target,
+      };
+      dispatches.push({
+        ...at,
+        target: payload.target,
+        input: payload.input,
+        ...(payload.model ? { model: payload.model } : {}),
+        ...(payload.provider ? { provider: payload.provider } : {}),
+        ...(payload.thinking ? { thinking: payload.thinking } : {}),
+        ...(rolePrompt !== undefined ? { rolePrompt } : {}),
+        result,
+        modelCalls: match?.modelCalls ?? [],
+      });
+      return result;
+    },
+  };
+
+  const testRunner: ITestRunner = {
+    run: async (request) => {
+      const at = locate(request.workflowId, request.taskId);
+      return (
+        (at && gates.get(dispatchKey(at))) ?? {
+          passed: false,
+          summary: "no recorded test run for this task",
+        }
+      );
+    },
+  };
+
+  // Local tasks get a workspace so their test gates run; nothing is written.
+  const workspaceDir = options.projectRoot ?? process.cwd();
+  const taskWorkspaces: ITaskWorkspaceService = {
+    prepare: async (_workflowId, taskId) => ({
+      path: workspaceDir,
+      branch: `replay/${taskId.slice(0, 8)}`,
+    }),
+    integrate: async (_workflowId, taskId) => ({
+      status: "merged",
+      branch: `replay/${taskId.slice(0, 8)}`,
+    }),
+    cleanup: async () => ({}),
+  };
+
+  orchestrator.configure({
+    agentTransport: transport,
+    testRunner,
+    taskWorkspaces,
+    memoryService: {
+      buildTeamMemoryContext: async () => fixture.memory.teamContext ?? "",
+      recallSimilar: async (query) => fixture.memory.recalls[query] ?? [],
+    },
+  });
+
+  const workflow = orchestrator.createWorkflow(fixture.workflow.steps, {
+    type: fixture.workflow.type,
+  });
+  let error: string | undefined;
+  try {
+    await orchestrator.executeWorkflow(workflow.id, {});
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const transcript: WorkflowRunTranscript = {
+    tasks: snapshotWorkflowTasks(workflow),
+    dispatches,
+  };
+  return {
+    transcript,
+    differences: diffWorkflowRuns(fixture, transcript),
+    ...(error ? { error } : {}),
+  };
+}
@@ -215,11 +215,13 @@ export async function agentCommand(
   }
   const agentCfg = cfg.agents?.defaults;
   const sessionAgentId = agentIdOverride ?? resolveAgentIdFromSessionKey(opts.sessionKey?.trim());
-  const workspaceDirRaw = resolveAgentWorkspaceDir(cfg, sessionAgentId);
+  const workspaceOverride = opts.workspaceDir?.trim();
+  const workspaceDirRaw = workspaceOverride || resolveAgentWorkspaceDir(cfg, sessionAgentId);
   const agentDir = resolveAgentDir(cfg, sessionAgentId);
   const workspace = await ensureAgentWorkspace({
     dir: workspaceDirRaw,
-    ensureBootstrapFiles: !agentCfg?.skipBootstrap,
+    // Overrides point at existing checkouts (task worktrees) — never seed them.
+    ensureBootstrapFiles: !workspaceOverride && !agentCfg?.skipBootstrap,
   });
   const workspaceDir = workspace.dir;
   const configuredModel = resolveConfiguredModelRef({
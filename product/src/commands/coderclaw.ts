@@ -6,12 +6,19 @@ import fs from "node:fs/promises";
 import path from "node:path";
 import { confirm, intro, note, outro, password, select, spinner, text } from "@clack/prompts";
 import { Command } from "commander";
+import { getBuiltInAgentRoles } from "../coderclaw/agent-roles.js";
+import { analyzeImpact, formatImpactAnalysis } from "../coderclaw/impact-analysis.js";
+import { globalPersonaRegistry } from "../coderclaw/personas.js";
 import {
   initializeCoderClawProject,
   isCoderClawProject,
   loadProjectContext,
   updateProjectContextFields,
 } from "../coderclaw/project-context.js";
+import { resolveCoderClawDir } from "../coderclaw/project-dir.js";
+import { loadPersonaAssignments } from "../coderclaw/project-personas.js";
+import { formatWorkflowRunDiff, readWorkflowFixture } from "../coderclaw/workflow-fixture.js";
+import { replayWorkflowFixture } from "../coderclaw/workflow-replay.js";
 import { readConfigFileSnapshot, writeConfigFile } from "../config/config.js";
 import { upsertSharedEnvVar, readSharedEnvVar } from "../infra/env-file.js";
 import { theme } from "../terminal/theme.js";
@@ -1175,7 +1182,10 @@ async function promptBuilderforceSetup(
 export function createCoderClawCommand(): Command {
   const cmd = new Command("project");
 
-  cmd.description("Manage coderClaw project context").addCommand(createStatusCommand());
+  cmd
+    .description("Manage coderClaw project context")
+    .addCommand(createStatusCommand())
+    .addCommand(createImpactCommand());
 
   return cmd;
 }
@@ -1346,6 +1356,130 @@ function createStatusCommand(): Command {
     });
 }
 
+function createImpactCommand(): Command {
+  return new Command("impact")
+    .description("Show the modules and tests affected by the current changes")
+    .argument("[path]", "Project directory path", ".")
+    .option("--base <rev>", "Git revision to diff the working tree against", "HEAD")
+    .option("--staged", "Analyze pending staged edits instead of the git diff", false)
+    .option("--depth <n>", "Only follow dependents this many imports away")
+    .option("--tests-only", "Print only the test files to run, one per line", false)
+    .option("--json", "Output JSON", false)
+    .action(
+      async (
+        projectPath: string,
+        opts: { base: string; staged: boolean; depth?: string; testsOnly: boolean; json: boolean },
+      ) => {
+        const projectRoot = projectPath === "." ? process.cwd() : projectPath;
+        const depth = opts.depth === undefined ? undefined : Number.parseInt(opts.depth, 10);
+        if (depth !== undefined && (!Number.isFinite(depth) || depth < 1)) {
+          console.error(theme.error("--depth must be a positive integer"));
+          process.exitCode = 1;
+          return;
+        }
+        try {
+          const result = await analyzeImpact({
+            projectRoot,
+            source: opts.staged ? "staged-edits" : "worktree",
+            base: opts.base,
+            maxDistance: depth,
+          });
+          if (opts.json) {
+            console.log(JSON.stringify(result, null, 2));
+          } else if (opts.testsOnly) {
+            for (const test of result.tests) {
+              console.log(test.file);
+            }
+          } else {
+            console.log(formatImpactAnalysis(result));
+          }
+        } catch (error) {
+          console.error(theme.error(error instanceof Error ? error.message : String(error)));
+          process.exitCode = 1;
+        }
+      },
+    );
+}
+
+// ---------------------------------------------------------------------------
+// coderclaw eval — offline workflow regression tests
+// ---------------------------------------------------------------------------
+
+/**
+ * `coderclaw eval` sub-command group.
+ *
+ * Subcommands:
+ *   coderclaw eval replay <fixture...>  — replay recorded workflows and diff the results
+ */
+export function createEvalCommand(): Command {
+  const cmd = new Command("eval").description("Replay recorded workflow fixtures offline");
+
+  cmd.addCommand(
+    new Command("replay")
+      .description(
+        "Replay workflows recorded with CODERCLAW_WORKFLOW_RECORD against the current code and diff the task graph, tool calls and outputs",
+      )
+      .argument("<fixtures...>", "Fixture files, e.g. .coderClaw/fixtures/*.json")
+      .option("--path <dir>", "Project directory (routing rules and personas)", ".")
+      .option("--json", "Output JSON", false)
+      .action(async (fixtures: string[], opts: { path: string; json: boolean }) => {
+        const projectRoot = opts.path === "." ? process.cwd() : opts.path;
+        // Same order as the gateway, minus user-global personas so results
+        // don't depend on the machine running the replay.
+        globalPersonaRegistry.registerBuiltins(getBuiltInAgentRoles());
+        await globalPersonaRegistry.loadFromDir(
+          resolveCoderClawDir(projectRoot).personasDir,
+          "project-local",
+        );
+        const assignments = await loadPersonaAssignments(projectRoot);
+        if (assignments.length > 0) {
+          globalPersonaRegistry.applyAssignments(assignments);
+        }
+
+        const reports: Array<Record<string, unknown>> = [];
+        for (const file of fixtures) {
+          try {
+            const result = await replayWorkflowFixture(await readWorkflowFixture(file), {
+              projectRoot,
+            });
+            const passed = result.differences.length === 0 && !result.error;
+            if (!passed) {
+              process.exitCode = 1;
+            }
+            if (opts.json) {
+              reports.push({ fixture: file, passed, ...result });
+              continue;
+            }
+            if (passed) {
+              console.log(theme.success(`✓ ${file}`));
+              continue;
+            }
+            console.log(theme.error(`✗ ${file}`));
+            if (result.error) {
+              console.log(theme.warn(`  ${result.error}`));
+            }
+            if (result.differences.length > 0) {
+              console.log(formatWorkflowRunDiff(result.differences));
+            }
+          } catch (error) {
+            process.exitCode = 1;
+            const message = error instanceof Error ? error.message : String(error);
+            if (opts.json) {
+              reports.push({ fixture: file, passed: false, error: message });
+            } else {
+              console.error(theme.error(`✗ ${file}: ${message}`));
+            }
+          }
+        }
+        if (opts.json) {
+          console.log(JSON.stringify(reports, null, 2));
+        }
+      }),
+  );
+
+  return cmd;
+}
+
 // ---------------------------------------------------------------------------
 // coderclaw agent — Workforce agent management
 // ---------------------------------------------------------------------------
@@ -26,6 +26,8 @@ export const FIELD_HELP: Record<string, string> = {
   "gateway.auth.token":
     "Required by default for gateway access (unless using Tailscale Serve identity); required for non-loopback binds.",
   "gateway.auth.password": "Required for Tailscale funnel.",
+  "gateway.taskRecovery":
+    'Transport tasks interrupted by a restart: "fail" (default) or "requeue" to run them again at startup.',
   "gateway.controlUi.basePath":
     "Optional URL prefix where the Control UI is served (e.g. /coderclaw).",
   "gateway.controlUi.root":
@@ -38,6 +40,10 @@ export const FIELD_HELP: Record<string, string> = {
     "DANGEROUS. Disable Control UI device identity checks (token/password only).",
   "gateway.http.endpoints.chatCompletions.enabled":
     "Enable the OpenAI-compatible `POST /v1/chat/completions` endpoint (default: false).",
+  "gateway.mcp.enabled":
+    "Serve the MCP endpoints under /mcp for external coding tools (default: true).",
+  "gateway.mcp.tools":
+    "Tools exposed over MCP (names, group:* names or globs). Default: read-only project tools.",
   "gateway.reload.mode": 'Hot reload strategy for config changes ("hybrid" recommended).',
   "gateway.reload.debounceMs": "Debounce window (ms) before applying config changes.",
   "gateway.nodes.browser.mode":
@@ -80,6 +86,25 @@ export const FIELD_HELP: Record<string, string> = {
   "tools.loopDetection.detectors.knownPollNoProgress":
     "Enable known poll tool no-progress loop detection (default: true).",
   "tools.loopDetection.detectors.pingPong": "Enable ping-pong loop detection (default: true).",
+  "tools.mcp.servers":
+    "External MCP servers (stdio `command` or HTTP `url`) whose tools agents can call as mcp__<server>__<tool>.",
+  "tools.mcp.trustedProjects":
+    'Project roots allowed to start the MCP servers in their .coderClaw/mcp.yaml ("*" trusts every project). Other projects\' servers are ignored.',
+  "agents.list[].tools.mcp.servers":
+    "Per-agent MCP servers, merged over tools.mcp.servers by name.",
+  "tools.lsp.enabled": "Enable the lsp_* language-server tools (default: true).",
+  "tools.lsp.servers":
+    "Language servers by language (`command`, `args`, `extensions`); overrides the built-in typescript-language-server, pyright and gopls entries.",
+  "tools.lsp.diagnosticsWaitMs":
+    "How long lsp_diagnostics waits for published diagnostics (default: 5000).",
+  "tools.orchestrate.budget":
+    "Spend caps for orchestrator workflows: `workflow`, `agent` (per role within a workflow) and `day`, each with `maxUsd` and/or `maxTokens`. Checked before each task runs.",
+  "tools.orchestrate.budget.onExceeded":
+    'When a cap is hit: "pause" leaves remaining tasks pending so the workflow can be resumed (default), "fail" fails them.',
+  "tools.checkpoints.enabled":
+    "Snapshot the workspace (in .coderclaw/checkpoints/) before write, edit, apply_patch and file-changing exec calls so /undo and /rewind can restore files (default: true).",
+  "tools.checkpoints.maxPerSession":
+    "Restore points kept per session; the oldest are dropped first (default: 100).",
   "tools.exec.notifyOnExit":
     "When true (default), backgrounded exec sessions enqueue a system event and request a heartbeat on exit.",
   "tools.exec.notifyOnExitEmptySuccess":
@@ -175,7 +200,7 @@ export const FIELD_HELP: Record<string, string> = {
   "agents.defaults.memorySearch":
     "Vector search over .coderclaw/MEMORY.md and .coderclaw/memory/*.md (per-agent overrides supported).",
   "agents.defaults.memorySearch.sources":
-    'Sources to index for memory search (default: ["memory"]; add "sessions" to include session transcripts).',
+    'Sources to index for memory search (default: ["memory"]; add "sessions" to include session transcripts, "code" to index workspace source files by symbol).',
   "agents.defaults.memorySearch.extraPaths":
     "Extra paths to include in memory search (directories or .md files; relative paths resolved from workspace).",
   "agents.defaults.memorySearch.experimental.sessionMemory":
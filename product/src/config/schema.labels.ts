@@ -25,6 +25,7 @@ export const FIELD_LABELS: Record<string, string> = {
   "agents.list.*.identity.avatar": "Identity Avatar",
   "agents.list.*.skills": "Agent Skill Filter",
   "gateway.remote.url": "Remote Gateway URL",
+  "gateway.taskRecovery": "Interrupted Task Recovery",
   "gateway.remote.sshTarget": "Remote Gateway SSH Target",
   "gateway.remote.sshIdentity": "Remote Gateway SSH Identity",
   "gateway.remote.token": "Remote Gateway Token",
@@ -81,6 +82,16 @@ export const FIELD_LABELS: Record<string, string> = {
   "tools.loopDetection.detectors.genericRepeat": "Tool-loop Generic Repeat Detection",
   "tools.loopDetection.detectors.knownPollNoProgress": "Tool-loop Poll No-Progress Detection",
   "tools.loopDetection.detectors.pingPong": "Tool-loop Ping-Pong Detection",
+  "tools.mcp.servers": "MCP Servers",
+  "tools.mcp.trustedProjects": "Trusted MCP Projects",
+  "agents.list[].tools.mcp.servers": "Agent MCP Servers",
+  "tools.lsp.enabled": "Enable Language Server Tools",
+  "tools.lsp.servers": "Language Servers",
+  "tools.lsp.diagnosticsWaitMs": "LSP Diagnostics Wait (ms)",
+  "tools.orchestrate.budget": "Workflow Spend Caps",
+  "tools.orchestrate.budget.onExceeded": "On Spend Cap Exceeded",
+  "tools.checkpoints.enabled": "Enable Tool Checkpoints",
+  "tools.checkpoints.maxPerSession": "Checkpoints per Session",
   "tools.fs.workspaceOnly": "Workspace-only FS tools",
   "tools.sessions.visibility": "Session Tools Visibility",
   "tools.exec.notifyOnExit": "Exec Notify On Exit",
@@ -117,6 +128,8 @@ export const FIELD_LABELS: Record<string, string> = {
   "gateway.controlUi.allowInsecureAuth": "Allow Insecure Control UI Auth",
   "gateway.controlUi.dangerouslyDisableDeviceAuth": "Dangerously Disable Control UI Device Auth",
   "gateway.http.endpoints.chatCompletions.enabled": "OpenAI Chat Completions Endpoint",
+  "gateway.mcp.enabled": "MCP Server Endpoint",
+  "gateway.mcp.tools": "MCP Tool Allowlist",
   "gateway.reload.mode": "Config Reload Mode",
   "gateway.reload.debounceMs": "Config Reload Debounce (ms)",
   "gateway.nodes.browser.mode": "Gateway Node Browser Mode",
@@ -3,6 +3,7 @@ import type { Skill } from "@mariozechner/pi-coding-agent";
 import type { ChatType } from "../../channels/chat-type.js";
 import type { ChannelId } from "../../channels/plugins/types.js";
 import type { DeliveryContext } from "../../utils/delivery-context.js";
+import type { McpServerConfig } from "../types.tools.js";
 import type { TtsAutoMode } from "../types.tts.js";
 
 export type SessionScope = "per-sender" | "global";
@@ -22,6 +23,9 @@ export type SessionOrigin = {
   threadId?: string | number;
 };
 
+/** MCP server attached to one session (e.g. supplied by an ACP editor client). */
+export type SessionMcpServer = McpServerConfig & { name: string };
+
 export type SessionEntry = {
   /**
    * Last delivered heartbeat payload (used to suppress duplicate heartbeat notifications).
@@ -49,6 +53,8 @@ export type SessionEntry = {
   execSecurity?: string;
   execAsk?: string;
   execNode?: string;
+  /** Session-scoped MCP servers, merged over the agent's configured servers by name. */
+  mcpServers?: SessionMcpServer[];
   responseUsage?: "on" | "off" | "tokens" | "full";
   providerOverride?: string;
   modelOverride?: string;
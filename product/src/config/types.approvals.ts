@@ -26,4 +26,10 @@ export type ExecApprovalForwardingConfig = {
 
 export type ApprovalsConfig = {
   exec?: ExecApprovalForwardingConfig;
+  /**
+   * Forward approval-gate requests (workflow checkpoints and other
+   * human-in-the-loop gates) to chat channels. Same options as `exec`;
+   * replies use `/approve <id>` or `/deny <id>`.
+   */
+  gate?: ExecApprovalForwardingConfig;
 };
@@ -276,6 +276,16 @@ export type GatewayToolsConfig = {
   allow?: string[];
 };
 
+export type GatewayMcpConfig = {
+  /** Serve the MCP endpoints under /mcp (default: true). */
+  enabled?: boolean;
+  /**
+   * Tools exposed to MCP clients (names, `group:*` names or globs).
+   * Default: read-only project tools (codebase search, knowledge, git history, workflow status).
+   */
+  tools?: string[];
+};
+
 export type GatewayConfig = {
   /** Single multiplexed port for Gateway WS + HTTP (default: 18789). */
   port?: number;
@@ -312,10 +322,18 @@ export type GatewayConfig = {
   trustedProxies?: string[];
   /** Tool access restrictions for HTTP /tools/invoke endpoint. */
   tools?: GatewayToolsConfig;
+  /** MCP server for external coding tools (Cursor, Continue, Goose, …). */
+  mcp?: GatewayMcpConfig;
   /**
    * Channel health monitor interval in minutes.
    * Periodically checks channel health and restarts unhealthy channels.
    * Set to 0 to disable. Default: 5.
    */
   channelHealthCheckMinutes?: number;
+  /**
+   * Transport tasks a restart interrupted: "fail" marks them failed (default),
+   * "requeue" puts them back to pending and runs them again at startup.
+   * CODERCLAW_TASK_RECOVERY=requeue applies when unset.
+   */
+  taskRecovery?: "fail" | "requeue";
 };
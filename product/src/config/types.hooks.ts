@@ -1,6 +1,30 @@
 export type HookMappingMatch = {
   path?: string;
   source?: string;
+  /** Required header values (case-insensitive names), e.g. `{ "x-github-event": "issues" }`. */
+  headers?: Record<string, string>;
+  /** Required payload values by path, e.g. `{ action: "labeled", "label.name": "bug" }`. */
+  payload?: Record<string, string | number | boolean>;
+};
+
+/**
+ * Webhook signature check for a mapping. Requests that pass it are accepted
+ * without the hooks token, so forges can call the mapping directly.
+ * - github: HMAC-SHA256 of the body in `X-Hub-Signature-256` (`sha256=<hex>`)
+ * - gitlab: shared token in `X-Gitlab-Token`
+ * - hmac: HMAC of the body in `header`, hex unless `encoding` says otherwise
+ */
+export type HookSignatureConfig = {
+  preset: "github" | "gitlab" | "hmac";
+  secret: string;
+  /** Signature header (hmac preset; default `x-signature`). */
+  header?: string;
+  /** HMAC digest (hmac preset; default sha256). */
+  algorithm?: "sha1" | "sha256" | "sha512";
+  /** Digest encoding (hmac preset; default hex). */
+  encoding?: "hex" | "base64";
+  /** Text before the digest in the header value, e.g. `sha256=` (hmac preset). */
+  prefix?: string;
 };
 
 export type HookMappingTransform = {
@@ -11,7 +35,7 @@ export type HookMappingTransform = {
 export type HookMappingConfig = {
   id?: string;
   match?: HookMappingMatch;
-  action?: "wake" | "agent";
+  action?: "wake" | "agent" | "workflow";
   wakeMode?: "now" | "next-heartbeat";
   name?: string;
   /** Route this hook to a specific agent (unknown ids fall back to the default agent). */
@@ -38,6 +62,18 @@ export type HookMappingConfig = {
   model?: string;
   thinking?: string;
   timeoutSeconds?: number;
+  /** Orchestrator workflow type to start (action "workflow"); templated. */
+  workflow?: string;
+  /** Workflow description (action "workflow"). */
+  descriptionTemplate?: string;
+  /** Named inputs for project workflow definitions (action "workflow"); values are templated. */
+  inputs?: Record<string, string>;
+  /**
+   * Delivery id used to drop redelivered events; templated. Defaults to the
+   * forge delivery header (`X-GitHub-Delivery`, `X-Gitlab-Event-UUID`) or `Idempotency-Key`.
+   */
+  deliveryId?: string;
+  signature?: HookSignatureConfig;
   transform?: HookMappingTransform;
 };
 
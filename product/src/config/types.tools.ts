@@ -230,6 +230,95 @@ export type FsToolsConfig = {
   workspaceOnly?: boolean;
 };
 
+export type McpServerConfig = {
+  /** Set false to keep the entry but not connect (default: true). */
+  enabled?: boolean;
+  /** stdio transport: executable to launch. */
+  command?: string;
+  args?: string[];
+  /** Extra environment for the stdio server process. */
+  env?: Record<string, string>;
+  /** Working directory for the stdio server (default: agent workspace). */
+  cwd?: string;
+  /** Streamable HTTP transport: server endpoint URL. */
+  url?: string;
+  /** Extra HTTP headers (e.g. Authorization) sent to the HTTP server. */
+  headers?: Record<string, string>;
+  /** Per-request timeout in milliseconds (default: 60000). */
+  timeoutMs?: number;
+};
+
+export type McpToolsConfig = {
+  /**
+   * External MCP servers keyed by name. Their tools are exposed to the agent as
+   * `mcp__<server>__<tool>` and can be allowed/denied by name, glob or `mcp:<server>`.
+   */
+  servers?: Record<string, McpServerConfig>;
+  /**
+   * Project roots whose `.coderClaw/mcp.yaml` servers may start ("*" for any).
+   * Servers declared by other projects are ignored, since a cloned repo could
+   * otherwise run arbitrary commands on the host. Never used in sandboxed sessions.
+   */
+  trustedProjects?: string[];
+};
+
+export type LspServerConfig = {
+  /** Set false to disable this language (default: true). */
+  enabled?: boolean;
+  /** Language server executable, started over stdio in the agent workspace. */
+  command?: string;
+  args?: string[];
+  /** Extra environment for the server process. */
+  env?: Record<string, string>;
+  /** File extensions this server handles (e.g. [".ts", ".tsx"]). */
+  extensions?: string[];
+  /** Options passed as `initializationOptions` in the initialize request. */
+  initializationOptions?: Record<string, unknown>;
+  /** Per-request timeout in milliseconds (default: 30000). */
+  timeoutMs?: number;
+};
+
+export type LspToolsConfig = {
+  /** Enable the lsp_* tools (default: true). */
+  enabled?: boolean;
+  /**
+   * Language servers keyed by language. Built-ins: `typescript`
+   * (typescript-language-server), `python` (pyright) and `go` (gopls); entries
+   * with the same key override their fields.
+   */
+  servers?: Record<string, LspServerConfig>;
+  /** How long lsp_diagnostics waits for the server to publish (default: 5000). */
+  diagnosticsWaitMs?: number;
+};
+
+export type OrchestrateBudgetCap = {
+  /** Estimated USD spend limit. */
+  maxUsd?: number;
+  /** Token limit (input + output + cache). */
+  maxTokens?: number;
+};
+
+export type OrchestrateToolsConfig = {
+  /** Spend caps for orchestrator workflows, checked before each task runs. */
+  budget?: {
+    /** Per workflow. */
+    workflow?: OrchestrateBudgetCap;
+    /** Per agent role within a workflow. */
+    agent?: OrchestrateBudgetCap;
+    /** All workflow spend per local day. */
+    day?: OrchestrateBudgetCap;
+    /** Pause the workflow (resumable) or fail the remaining tasks (default: pause). */
+    onExceeded?: "pause" | "fail";
+  };
+};
+
+export type CheckpointsToolsConfig = {
+  /** Snapshot the workspace before write/edit/apply_patch/exec calls (default: true). */
+  enabled?: boolean;
+  /** Restore points kept per session; older ones are dropped (default: 100). */
+  maxPerSession?: number;
+};
+
 export type AgentToolsConfig = {
   /** Base tool profile applied before allow/deny lists. */
   profile?: ToolProfileId;
@@ -252,6 +341,8 @@ export type AgentToolsConfig = {
   fs?: FsToolsConfig;
   /** Runtime loop detection for repetitive/ stuck tool-call patterns. */
   loopDetection?: ToolLoopDetectionConfig;
+  /** External MCP servers for this agent (merged over tools.mcp.servers by name). */
+  mcp?: McpToolsConfig;
   sandbox?: {
     tools?: {
       allow?: string[];
@@ -263,8 +354,8 @@ export type AgentToolsConfig = {
 export type MemorySearchConfig = {
   /** Enable vector memory search (default: true). */
   enabled?: boolean;
-  /** Sources to index and search (default: ["memory"]). */
-  sources?: Array<"memory" | "sessions">;
+  /** Sources to index and search (default: ["memory"]; "code" indexes workspace source files). */
+  sources?: Array<"memory" | "sessions" | "code">;
   /** Extra paths to include in memory search (directories or .md files). */
   extraPaths?: string[];
   /** Experimental memory search settings. */
@@ -514,6 +605,14 @@ export type ToolsConfig = {
   fs?: FsToolsConfig;
   /** Runtime loop detection for repetitive/ stuck tool-call patterns. */
   loopDetection?: ToolLoopDetectionConfig;
+  /** External MCP servers whose tools are available to every agent. */
+  mcp?: McpToolsConfig;
+  /** Language servers backing the lsp_* tools. */
+  lsp?: LspToolsConfig;
+  /** Orchestrator workflows (orchestrate tool, /workflow). */
+  orchestrate?: OrchestrateToolsConfig;
+  /** Pre-tool-call file checkpoints behind /undo, /rewind and /checkpoints. */
+  checkpoints?: CheckpointsToolsConfig;
   /** Sub-agent tool policy defaults (deny wins). */
   subagents?: {
     /** Default model selection for spawned sub-agents (string or {primary,fallbacks}). */
@@ -403,6 +403,87 @@ const ToolLoopDetectionSchema = z
   })
   .optional();
 
+const McpServerSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    command: z.string().optional(),
+    args: z.array(z.string()).optional(),
+    env: z.record(z.string(), z.string()).optional(),
+    cwd: z.string().optional(),
+    url: z.string().optional(),
+    headers: z.record(z.string(), z.string()).optional(),
+    timeoutMs: z.number().int().positive().optional(),
+  })
+  .strict()
+  .superRefine((value, ctx) => {
+    if (Boolean(value.command) === Boolean(value.url)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "MCP server needs exactly one of command (stdio) or url (HTTP).",
+      });
+    }
+  });
+
+const ToolMcpSchema = z
+  .object({
+    servers: z.record(z.string(), McpServerSchema).optional(),
+    trustedProjects: z.array(z.string()).optional(),
+  })
+  .strict()
+  .optional();
+
+const LspServerSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    command: z.string().optional(),
+    args: z.array(z.string()).optional(),
+    env: z.record(z.string(), z.string()).optional(),
+    extensions: z.array(z.string()).optional(),
+    initializationOptions: z.record(z.string(), z.unknown()).optional(),
+    timeoutMs: z.number().int().positive().optional(),
+  })
+  .strict();
+
+const ToolLspSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    servers: z.record(z.string(), LspServerSchema).optional(),
+    diagnosticsWaitMs: z.number().int().nonnegative().optional(),
+  })
+  .strict()
+  .optional();
+
+const OrchestrateBudgetCapSchema = z
+  .object({
+    maxUsd: z.number().positive().optional(),
+    maxTokens: z.number().int().positive().optional(),
+  })
+  .strict()
+  .optional();
+
+const ToolOrchestrateSchema = z
+  .object({
+    budget: z
+      .object({
+        workflow: OrchestrateBudgetCapSchema,
+        agent: OrchestrateBudgetCapSchema,
+        day: OrchestrateBudgetCapSchema,
+        onExceeded: z.union([z.literal("pause"), z.literal("fail")]).optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict()
+  .optional();
+
+const ToolCheckpointsSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    maxPerSession: z.number().int().positive().optional(),
+  })
+  .strict()
+  .optional();
+
 export const AgentSandboxSchema = z
   .object({
     mode: z.union([z.literal("off"), z.literal("non-main"), z.literal("all")]).optional(),
@@ -435,6 +516,7 @@ export const AgentToolsSchema = z
     exec: AgentToolExecSchema,
     fs: ToolFsSchema,
     loopDetection: ToolLoopDetectionSchema,
+    mcp: ToolMcpSchema,
     sandbox: z
       .object({
         tools: ToolPolicySchema,
@@ -455,7 +537,9 @@ export const AgentToolsSchema = z
 export const MemorySearchSchema = z
   .object({
     enabled: z.boolean().optional(),
-    sources: z.array(z.union([z.literal("memory"), z.literal("sessions")])).optional(),
+    sources: z
+      .array(z.union([z.literal("memory"), z.literal("sessions"), z.literal("code")]))
+      .optional(),
     extraPaths: z.array(z.string()).optional(),
     experimental: z
       .object({
@@ -634,6 +718,10 @@ export const ToolsSchema = z
       .strict()
       .optional(),
     loopDetection: ToolLoopDetectionSchema,
+    mcp: ToolMcpSchema,
+    lsp: ToolLspSchema,
+    orchestrate: ToolOrchestrateSchema,
+    checkpoints: ToolCheckpointsSchema,
     message: z
       .object({
         allowCrossContextSend: z.boolean().optional(),
@@ -38,9 +38,11 @@ export const HookMappingSchema = z
       .object({
         path: z.string().optional(),
         source: z.string().optional(),
+        headers: z.record(z.string(), z.string()).optional(),
+        payload: z.record(z.string(), z.union([z.string(), z.number(), z.boolean()])).optional(),
       })
       .optional(),
-    action: z.union([z.literal("wake"), z.literal("agent")]).optional(),
+    action: z.union([z.literal("wake"), z.literal("agent"), z.literal("workflow")]).optional(),
     wakeMode: z.union([z.literal("now"), z.literal("next-heartbeat")]).optional(),
     name: z.string().optional(),
     agentId: z.string().optional(),
@@ -66,6 +68,23 @@ export const HookMappingSchema = z
     model: z.string().optional(),
     thinking: z.string().optional(),
     timeoutSeconds: z.number().int().positive().optional(),
+    workflow: z.string().optional(),
+    descriptionTemplate: z.string().optional(),
+    inputs: z.record(z.string(), z.string()).optional(),
+    deliveryId: z.string().optional(),
+    signature: z
+      .object({
+        preset: z.union([z.literal("github"), z.literal("gitlab"), z.literal("hmac")]),
+        secret: z.string().register(sensitive),
+        header: z.string().optional(),
+        algorithm: z
+          .union([z.literal("sha1"), z.literal("sha256"), z.literal("sha512")])
+          .optional(),
+        encoding: z.union([z.literal("hex"), z.literal("base64")]).optional(),
+        prefix: z.string().optional(),
+      })
+      .strict()
+      .optional(),
     transform: z
       .object({
         module: SafeRelativeModulePathSchema,
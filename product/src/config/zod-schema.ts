@@ -445,7 +445,15 @@ export const CoderClawSchema = z
           })
           .strict()
           .optional(),
+        mcp: z
+          .object({
+            enabled: z.boolean().optional(),
+            tools: z.array(z.string()).optional(),
+          })
+          .strict()
+          .optional(),
         channelHealthCheckMinutes: z.number().int().min(0).optional(),
+        taskRecovery: z.union([z.literal("fail"), z.literal("requeue")]).optional(),
         tailscale: z
           .object({
             mode: z.union([z.literal("off"), z.literal("serve"), z.literal("funnel")]).optional(),
@@ -113,6 +113,14 @@ function coercePayload(payload: UnknownRecord) {
       next.text = trimmed;
     }
   }
+  for (const field of ["workflow", "description"] as const) {
+    if (typeof next[field] === "string") {
+      const trimmed = next[field].trim();
+      if (trimmed) {
+        next[field] = trimmed;
+      }
+    }
+  }
   if ("model" in next) {
     if (typeof next.model === "string") {
       const trimmed = next.model.trim();
@@ -378,6 +386,10 @@ export function normalizeCronJobInput(
     next.delivery = coerceDelivery(base.delivery);
   }
 
+  if (isRecord(base.alert) && isRecord(base.alert.delivery)) {
+    next.alert = { ...base.alert, delivery: coerceDelivery(base.alert.delivery) };
+  }
+
   if ("isolation" in next) {
     delete next.isolation;
   }
@@ -403,7 +415,12 @@ export function normalizeCronJobInput(
     ) {
       next.name = inferLegacyName({
         schedule: next.schedule as { kind?: unknown; everyMs?: unknown; expr?: unknown },
-        payload: next.payload as { kind?: unknown; text?: unknown; message?: unknown },
+        payload: next.payload as {
+          kind?: unknown;
+          text?: unknown;
+          message?: unknown;
+          description?: unknown;
+        },
       });
     } else if (typeof next.name === "string") {
       const trimmed = next.name.trim();
@@ -416,7 +433,7 @@ export function normalizeCronJobInput(
       if (kind === "systemEvent") {
         next.sessionTarget = "main";
       }
-      if (kind === "agentTurn") {
+      if (kind === "agentTurn" || kind === "workflow") {
         next.sessionTarget = "isolated";
       }
     }
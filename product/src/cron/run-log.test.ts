@@ -2,7 +2,12 @@ import fs from "node:fs/promises";
 import os from "node:os";
 import path from "node:path";
 import { describe, expect, it } from "vitest";
-import { appendCronRunLog, readCronRunLogEntries, resolveCronRunLogPath } from "./run-log.js";
+import {
+  appendCronRunLog,
+  readCronChainRunLogEntries,
+  readCronRunLogEntries,
+  resolveCronRunLogPath,
+} from "./run-log.js";
 
 describe("cron run log", () => {
   it("resolves store path to per-job runs/<jobId>.jsonl", () => {
@@ -98,6 +103,38 @@ describe("cron run log", () => {
     await fs.rm(dir, { recursive: true, force: true });
   });
 
+  it("traces one chain across job logs in run order", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "coderclaw-cron-log-chain-"));
+    const storePath = path.join(dir, "jobs.json");
+    const append = (jobId: string, ts: number, chain?: Record<string, unknown>) =>
+      appendCronRunLog(resolveCronRunLogPath({ storePath, jobId }), {
+        ts,
+        jobId,
+        action: "finished",
+        status: "ok",
+        ...(chain ? { chain: chain as never } : {}),
+      });
+
+    await append("audit", 1, { chainId: "c1", rootJobId: "audit", depth: 0 });
+    await append("report", 2, {
+      chainId: "c1",
+      rootJobId: "audit",
+      parentJobId: "audit",
+      depth: 1,
+    });
+    await append("audit", 3, { chainId: "c2", rootJobId: "audit", depth: 0 });
+    await append("other", 4);
+    await append("report", 5, { chainId: "c1", depth: "bad" });
+
+    const entries = await readCronChainRunLogEntries({ storePath, chainId: "c1" });
+    expect(entries.map((e) => [e.jobId, e.chain?.parentJobId, e.chain?.depth])).toEqual([
+      ["audit", undefined, 0],
+      ["report", "audit", 1],
+    ]);
+
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
   it("reads telemetry fields", async () => {
     const dir = await fs.mkdtemp(path.join(os.tmpdir(), "coderclaw-cron-log-telemetry-"));
     const logPath = path.join(dir, "runs", "job-1.jsonl");
@@ -1,6 +1,6 @@
 import fs from "node:fs/promises";
 import path from "node:path";
-import type { CronRunStatus, CronRunTelemetry } from "./types.js";
+import type { CronChainLineage, CronRunStatus, CronRunTelemetry } from "./types.js";
 
 export type CronRunLogEntry = {
   ts: number;
@@ -14,12 +14,35 @@ export type CronRunLogEntry = {
   runAtMs?: number;
   durationMs?: number;
   nextRunAtMs?: number;
+  chain?: CronChainLineage;
 } & CronRunTelemetry;
 
+function resolveCronRunLogDir(storePath: string) {
+  return path.join(path.dirname(path.resolve(storePath)), "runs");
+}
+
 export function resolveCronRunLogPath(params: { storePath: string; jobId: string }) {
-  const storePath = path.resolve(params.storePath);
-  const dir = path.dirname(storePath);
-  return path.join(dir, "runs", `${params.jobId}.jsonl`);
+  return path.join(resolveCronRunLogDir(params.storePath), `${params.jobId}.jsonl`);
+}
+
+function parseChainLineage(raw: unknown): CronChainLineage | undefined {
+  if (!raw || typeof raw !== "object") {
+    return undefined;
+  }
+  const chain = raw as Partial<CronChainLineage>;
+  if (
+    typeof chain.chainId !== "string" ||
+    typeof chain.rootJobId !== "string" ||
+    typeof chain.depth !== "number"
+  ) {
+    return undefined;
+  }
+  return {
+    chainId: chain.chainId,
+    rootJobId: chain.rootJobId,
+    ...(typeof chain.parentJobId === "string" ? { parentJobId: chain.parentJobId } : {}),
+    depth: chain.depth,
+  };
 }
 
 const writesByPath = new Map<string, Promise<void>>();
@@ -64,10 +87,11 @@ export async function appendCronRunLog(
 
 export async function readCronRunLogEntries(
   filePath: string,
-  opts?: { limit?: number; jobId?: string },
+  opts?: { limit?: number; jobId?: string; chainId?: string },
 ): Promise<CronRunLogEntry[]> {
   const limit = Math.max(1, Math.min(5000, Math.floor(opts?.limit ?? 200)));
   const jobId = opts?.jobId?.trim() || undefined;
+  const chainId = opts?.chainId?.trim() || undefined;
   const raw = await fs.readFile(path.resolve(filePath), "utf-8").catch(() => "");
   if (!raw.trim()) {
     return [];
@@ -96,6 +120,10 @@ export async function readCronRunLogEntries(
       if (jobId && obj.jobId !== jobId) {
         continue;
       }
+      const chain = parseChainLineage(obj.chain);
+      if (chainId && chain?.chainId !== chainId) {
+        continue;
+      }
       const usage =
         obj.usage && typeof obj.usage === "object"
           ? (obj.usage as Record<string, unknown>)
@@ -132,6 +160,9 @@ export async function readCronRunLogEntries(
       if (typeof obj.sessionKey === "string" && obj.sessionKey.trim().length > 0) {
         entry.sessionKey = obj.sessionKey;
       }
+      if (chain) {
+        entry.chain = chain;
+      }
       parsed.push(entry);
     } catch {
       // ignore invalid lines
@@ -139,3 +170,27 @@ export async function readCronRunLogEntries(
   }
   return parsed.toReversed();
 }
+
+/** Runs of one job chain across every job's run log, oldest first. */
+export async function readCronChainRunLogEntries(params: {
+  storePath: string;
+  chainId: string;
+  limit?: number;
+}): Promise<CronRunLogEntry[]> {
+  const limit = Math.max(1, Math.min(5000, Math.floor(params.limit ?? 200)));
+  const dir = resolveCronRunLogDir(params.storePath);
+  const files = await fs.readdir(dir).catch(() => [] as string[]);
+  const entries: CronRunLogEntry[] = [];
+  for (const file of files) {
+    if (!file.endsWith(".jsonl")) {
+      continue;
+    }
+    entries.push(
+      ...(await readCronRunLogEntries(path.join(dir, file), {
+        limit,
+        chainId: params.chainId,
+      })),
+    );
+  }
+  return entries.toSorted((a, b) => a.ts - b.ts).slice(-limit);
+}
@@ -0,0 +1,217 @@
+import { describe, expect, it, vi } from "vitest";
+import { CronService, type CronEvent, type CronServiceDeps } from "./service.js";
+import {
+  createCronStoreHarness,
+  createNoopLogger,
+  installCronTestHooks,
+} from "./service.test-harness.js";
+
+const noopLogger = createNoopLogger();
+const { makeStorePath } = createCronStoreHarness({ prefix: "coderclaw-cron-chain-" });
+installCronTestHooks({ logger: noopLogger });
+
+async function createCronService(deps: Partial<CronServiceDeps>) {
+  const store = await makeStorePath();
+  const events: CronEvent[] = [];
+  const waiters = new Map<string, (evt: CronEvent) => void>();
+  const cron = new CronService({
+    storePath: store.storePath,
+    cronEnabled: true,
+    log: noopLogger,
+    enqueueSystemEvent: vi.fn(),
+    requestHeartbeatNow: vi.fn(),
+    runIsolatedAgentJob: vi.fn(async () => ({ status: "ok" as const, summary: "done" })),
+    ...deps,
+    onEvent: (evt) => {
+      events.push(evt);
+      if (evt.action === "finished") {
+        waiters.get(evt.jobId)?.(evt);
+        waiters.delete(evt.jobId);
+      }
+    },
+  });
+  await cron.start();
+  const finishedEvent = (jobId: string) =>
+    new Promise<CronEvent>((resolve) => {
+      waiters.set(jobId, resolve);
+    });
+  return { cron, events, finishedEvent };
+}
+
+describe("CronService job chaining", () => {
+  it("runs a workflow job, then its disabled onSuccess job with the same chain lineage", async () => {
+    const runWorkflowJob = vi.fn(async () => ({
+      status: "ok" as const,
+      summary: "security-audit workflow completed",
+    }));
+    const runIsolatedAgentJob = vi.fn(async () => ({ status: "ok" as const, summary: "filed" }));
+    const { cron, events, finishedEvent } = await createCronService({
+      runWorkflowJob,
+      runIsolatedAgentJob,
+    });
+
+    const report = await cron.add({
+      name: "file audit report",
+      enabled: false,
+      schedule: { kind: "every", everyMs: 60 * 60_000 },
+      sessionTarget: "isolated",
+      wakeMode: "next-heartbeat",
+      payload: { kind: "agentTurn", message: "File the audit findings" },
+    });
+    const audit = await cron.add({
+      name: "nightly audit",
+      enabled: true,
+      schedule: { kind: "cron", expr: "0 3 * * *" },
+      sessionTarget: "isolated",
+      wakeMode: "next-heartbeat",
+      payload: {
+        kind: "workflow",
+        workflow: "security-audit",
+        description: "Audit the repository",
+        inputs: { scope: "src" },
+      },
+      onSuccess: [report.id],
+    });
+
+    const reportFinished = finishedEvent(report.id);
+    await cron.run(audit.id, "force");
+    await vi.runOnlyPendingTimersAsync();
+    const reportEvent = await reportFinished;
+
+    expect(runWorkflowJob).toHaveBeenCalledWith({
+      job: expect.objectContaining({ id: audit.id }),
+      payload: {
+        kind: "workflow",
+        workflow: "security-audit",
+        description: "Audit the repository",
+        inputs: { scope: "src" },
+      },
+    });
+    expect(runIsolatedAgentJob).toHaveBeenCalledTimes(1);
+
+    const auditEvent = events.find((evt) => evt.jobId === audit.id && evt.action === "finished");
+    expect(auditEvent?.chain).toEqual({
+      chainId: expect.any(String),
+      rootJobId: audit.id,
+      depth: 0,
+    });
+    expect(reportEvent.chain).toEqual({
+      chainId: auditEvent?.chain?.chainId,
+      rootJobId: audit.id,
+      parentJobId: audit.id,
+      depth: 1,
+    });
+
+    const updated = cron.getJob(report.id);
+    expect(updated?.enabled).toBe(false);
+    expect(updated?.state.pendingChain).toBeUndefined();
+    expect(updated?.state.nextRunAtMs).toBeUndefined();
+
+    cron.stop();
+  });
+
+  it("follows onFailure links only when the job errors", async () => {
+    const runIsolatedAgentJob = vi.fn(async ({ job }: { job: { name: string } }) =>
+      job.name === "deploy"
+        ? { status: "error" as const, error: "deploy failed" }
+        : { status: "ok" as const },
+    );
+    const { cron, finishedEvent } = await createCronService({ runIsolatedAgentJob });
+    const addLinked = (name: string) =>
+      cron.add({
+        name,
+        enabled: false,
+        schedule: { kind: "every", everyMs: 60_000 },
+        sessionTarget: "isolated",
+        wakeMode: "next-heartbeat",
+        payload: { kind: "agentTurn", message: name },
+      });
+    const rollback = await addLinked("rollback");
+    const announce = await addLinked("announce");
+    const deploy = await cron.add({
+      name: "deploy",
+      enabled: true,
+      schedule: { kind: "every", everyMs: 60 * 60_000 },
+      sessionTarget: "isolated",
+      wakeMode: "next-heartbeat",
+      payload: { kind: "agentTurn", message: "deploy" },
+      onSuccess: [announce.id],
+      onFailure: [rollback.id],
+    });
+
+    const rollbackFinished = finishedEvent(rollback.id);
+    await cron.run(deploy.id, "force");
+    await vi.runOnlyPendingTimersAsync();
+    const rollbackEvent = await rollbackFinished;
+
+    expect(rollbackEvent.chain?.parentJobId).toBe(deploy.id);
+    expect(runIsolatedAgentJob.mock.calls.map(([params]) => params.job.name)).toEqual([
+      "deploy",
+      "rollback",
+    ]);
+    expect(cron.getJob(announce.id)?.state.pendingChain).toBeUndefined();
+
+    cron.stop();
+  });
+
+  it("rejects links to the job itself and workflow payloads on the main session", async () => {
+    const { cron } = await createCronService({});
+    const job = await cron.add({
+      name: "loop",
+      enabled: true,
+      schedule: { kind: "every", everyMs: 60_000 },
+      sessionTarget: "isolated",
+      wakeMode: "next-heartbeat",
+      payload: { kind: "agentTurn", message: "hi" },
+    });
+
+    await expect(cron.update(job.id, { onSuccess: [job.id] })).rejects.toThrow(
+      "cron jobs cannot link to themselves",
+    );
+    await expect(
+      cron.add({
+        name: "main workflow",
+        enabled: true,
+        schedule: { kind: "every", everyMs: 60_000 },
+        sessionTarget: "main",
+        wakeMode: "next-heartbeat",
+        payload: { kind: "workflow", workflow: "feature", description: "Build it" },
+      }),
+    ).rejects.toThrow('main cron jobs require payload.kind="systemEvent"');
+
+    cron.stop();
+  });
+});
+
+describe("CronService failure alerts", () => {
+  it("alerts once when consecutive errors reach the threshold", async () => {
+    const sendAlert = vi.fn(async () => {});
+    const { cron } = await createCronService({
+      runIsolatedAgentJob: vi.fn(async () => ({ status: "error" as const, error: "boom" })),
+      sendAlert,
+    });
+    const delivery = { mode: "announce" as const, channel: "telegram" as const, to: "123" };
+    const job = await cron.add({
+      name: "flaky",
+      enabled: true,
+      schedule: { kind: "every", everyMs: 60_000 },
+      sessionTarget: "isolated",
+      wakeMode: "next-heartbeat",
+      payload: { kind: "agentTurn", message: "run" },
+      alert: { afterConsecutiveErrors: 2, delivery },
+    });
+
+    for (let i = 0; i < 3; i++) {
+      await cron.run(job.id, "force");
+    }
+
+    expect(sendAlert).toHaveBeenCalledTimes(1);
+    expect(sendAlert).toHaveBeenCalledWith({
+      job: expect.objectContaining({ id: job.id }),
+      delivery,
+      text: 'Cron job "flaky" failed 2 times in a row: boom',
+    });
+
+    cron.stop();
+  });
+});
@@ -683,6 +683,48 @@ describe("Cron issue regressions", () => {
     expect(job?.state.lastStatus).toBe("ok");
   });
 
+  it("aborts a workflow job's run when its timeoutSeconds fires", async () => {
+    const store = await makeStorePath();
+    const scheduledAt = Date.parse("2026-02-15T13:00:00.000Z");
+
+    const cronJob = createIsolatedRegressionJob({
+      id: "workflow-timeout",
+      name: "workflow-timeout",
+      scheduledAt,
+      schedule: { kind: "at", at: new Date(scheduledAt).toISOString() },
+      payload: { kind: "workflow", workflow: "feature", description: "Add it", timeoutSeconds: 1 },
+      state: { nextRunAtMs: scheduledAt },
+    });
+    await writeCronJobs(store.storePath, [cronJob]);
+
+    let signal: AbortSignal | undefined;
+    const runWorkflowJob = vi.fn(async ({ abortSignal }: { abortSignal?: AbortSignal }) => {
+      signal = abortSignal;
+      return await new Promise<never>(() => {});
+    });
+    const state = createCronServiceState({
+      cronEnabled: true,
+      storePath: store.storePath,
+      log: noopLogger,
+      nowMs: () => scheduledAt,
+      enqueueSystemEvent: vi.fn(),
+      requestHeartbeatNow: vi.fn(),
+      runIsolatedAgentJob: vi.fn(),
+      runWorkflowJob,
+    });
+
+    const timerPromise = onTimer(state);
+    await vi.waitFor(() => expect(runWorkflowJob).toHaveBeenCalled());
+    expect(signal?.aborted).toBe(false);
+    await vi.advanceTimersByTimeAsync(1_000);
+    await timerPromise;
+
+    expect(signal?.aborted).toBe(true);
+    const job = state.store?.jobs.find((j) => j.id === "workflow-timeout");
+    expect(job?.state.lastStatus).toBe("error");
+    expect(job?.state.lastError).toContain("timed out");
+  });
+
   it("retries cron schedule computation from the next second when the first attempt returns undefined (#17821)", () => {
     const scheduledAt = Date.parse("2026-02-15T13:00:00.000Z");
     const cronJob = createIsolatedRegressionJob({
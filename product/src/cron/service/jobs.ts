@@ -17,6 +17,7 @@ import type {
 } from "../types.js";
 import { normalizeHttpWebhookUrl } from "../webhook-url.js";
 import {
+  normalizeJobLinks,
   normalizeOptionalAgentId,
   normalizeOptionalSessionKey,
   normalizeOptionalText,
@@ -78,8 +79,40 @@ export function assertSupportedJobSpec(job: Pick<CronJob, "sessionTarget" | "pay
   if (job.sessionTarget === "main" && job.payload.kind !== "systemEvent") {
     throw new Error('main cron jobs require payload.kind="systemEvent"');
   }
-  if (job.sessionTarget === "isolated" && job.payload.kind !== "agentTurn") {
-    throw new Error('isolated cron jobs require payload.kind="agentTurn"');
+  if (
+    job.sessionTarget === "isolated" &&
+    job.payload.kind !== "agentTurn" &&
+    job.payload.kind !== "workflow"
+  ) {
+    throw new Error('isolated cron jobs require payload.kind="agentTurn" or "workflow"');
+  }
+  if (job.payload.kind === "workflow") {
+    if (!job.payload.workflow.trim()) {
+      throw new Error('cron payload.kind="workflow" requires workflow');
+    }
+    if (!job.payload.description.trim()) {
+      throw new Error('cron payload.kind="workflow" requires description');
+    }
+  }
+}
+
+function assertLinksAndAlert(job: Pick<CronJob, "id" | "onSuccess" | "onFailure" | "alert">) {
+  if (job.onSuccess?.includes(job.id) || job.onFailure?.includes(job.id)) {
+    throw new Error("cron jobs cannot link to themselves");
+  }
+  if (!job.alert) {
+    return;
+  }
+  const threshold = job.alert.afterConsecutiveErrors;
+  if (threshold !== undefined && (!Number.isInteger(threshold) || threshold < 1)) {
+    throw new Error("cron alert.afterConsecutiveErrors must be a positive integer");
+  }
+  if (job.alert.delivery.mode === "webhook") {
+    const target = normalizeHttpWebhookUrl(job.alert.delivery.to);
+    if (!target) {
+      throw new Error("cron webhook alert requires alert.delivery.to to be a valid http(s) URL");
+    }
+    job.alert.delivery.to = target;
   }
 }
 
@@ -190,7 +223,9 @@ function normalizeJobTickState(params: { state: CronServiceState; job: CronJob;
     changed = true;
   }
 
-  if (!job.enabled) {
+  // A linked run keeps its trigger time even when the job itself is disabled.
+  const chained = job.state.pendingChain !== undefined;
+  if (!job.enabled && !chained) {
     if (job.state.nextRunAtMs !== undefined) {
       job.state.nextRunAtMs = undefined;
       changed = true;
@@ -212,7 +247,7 @@ function normalizeJobTickState(params: { state: CronServiceState; job: CronJob;
     changed = true;
   }
 
-  return { changed, skip: false };
+  return { changed, skip: chained };
 }
 
 function walkSchedulableJobs(
@@ -301,7 +336,9 @@ export function recomputeNextRunsForMaintenance(state: CronServiceState): boolea
 
 export function nextWakeAtMs(state: CronServiceState) {
   const jobs = state.store?.jobs ?? [];
-  const enabled = jobs.filter((j) => j.enabled && typeof j.state.nextRunAtMs === "number");
+  const enabled = jobs.filter(
+    (j) => (j.enabled || j.state.pendingChain) && typeof j.state.nextRunAtMs === "number",
+  );
   if (enabled.length === 0) {
     return undefined;
   }
@@ -357,12 +394,16 @@ export function createJob(state: CronServiceState, input: CronJobCreate): CronJo
     wakeMode: input.wakeMode,
     payload: input.payload,
     delivery: input.delivery,
+    onSuccess: normalizeJobLinks(input.onSuccess),
+    onFailure: normalizeJobLinks(input.onFailure),
+    alert: input.alert,
     state: {
       ...input.state,
     },
   };
   assertSupportedJobSpec(job);
   assertDeliverySupport(job);
+  assertLinksAndAlert(job);
   job.state.nextRunAtMs = computeJobNextRunAtMs(job, now);
   return job;
 }
@@ -424,6 +465,15 @@ export function applyJobPatch(job: CronJob, patch: CronJobPatch) {
   if (job.sessionTarget === "main" && job.delivery?.mode !== "webhook") {
     job.delivery = undefined;
   }
+  if ("onSuccess" in patch) {
+    job.onSuccess = normalizeJobLinks(patch.onSuccess);
+  }
+  if ("onFailure" in patch) {
+    job.onFailure = normalizeJobLinks(patch.onFailure);
+  }
+  if ("alert" in patch) {
+    job.alert = patch.alert ?? undefined;
+  }
   if (patch.state) {
     job.state = { ...job.state, ...patch.state };
   }
@@ -435,6 +485,7 @@ export function applyJobPatch(job: CronJob, patch: CronJobPatch) {
   }
   assertSupportedJobSpec(job);
   assertDeliverySupport(job);
+  assertLinksAndAlert(job);
 }
 
 function mergeCronPayload(existing: CronPayload, patch: CronPayloadPatch): CronPayload {
@@ -450,6 +501,26 @@ function mergeCronPayload(existing: CronPayload, patch: CronPayloadPatch): CronP
     return { kind: "systemEvent", text };
   }
 
+  if (patch.kind === "workflow") {
+    if (existing.kind !== "workflow") {
+      return buildPayloadFromPatch(patch);
+    }
+    const next: Extract<CronPayload, { kind: "workflow" }> = { ...existing };
+    if (typeof patch.workflow === "string") {
+      next.workflow = patch.workflow;
+    }
+    if (typeof patch.description === "string") {
+      next.description = patch.description;
+    }
+    if (patch.inputs) {
+      next.inputs = patch.inputs;
+    }
+    if (typeof patch.timeoutSeconds === "number") {
+      next.timeoutSeconds = patch.timeoutSeconds;
+    }
+    return next;
+  }
+
   if (existing.kind !== "agentTurn") {
     return buildPayloadFromPatch(patch);
   }
@@ -534,6 +605,22 @@ function buildPayloadFromPatch(patch: CronPayloadPatch): CronPayload {
     return { kind: "systemEvent", text: patch.text };
   }
 
+  if (patch.kind === "workflow") {
+    if (typeof patch.workflow !== "string" || patch.workflow.length === 0) {
+      throw new Error('cron.update payload.kind="workflow" requires workflow');
+    }
+    if (typeof patch.description !== "string" || patch.description.length === 0) {
+      throw new Error('cron.update payload.kind="workflow" requires description');
+    }
+    return {
+      kind: "workflow",
+      workflow: patch.workflow,
+      description: patch.description,
+      inputs: patch.inputs,
+      timeoutSeconds: patch.timeoutSeconds,
+    };
+  }
+
   if (typeof patch.message !== "string" || patch.message.length === 0) {
     throw new Error('cron.update payload.kind="agentTurn" requires message');
   }
@@ -591,7 +678,11 @@ export function isJobDue(job: CronJob, nowMs: number, opts: { forced: boolean })
   if (opts.forced) {
     return true;
   }
-  return job.enabled && typeof job.state.nextRunAtMs === "number" && nowMs >= job.state.nextRunAtMs;
+  return (
+    (job.enabled || job.state.pendingChain !== undefined) &&
+    typeof job.state.nextRunAtMs === "number" &&
+    nowMs >= job.state.nextRunAtMs
+  );
 }
 
 export function resolveJobPayloadTextForMain(job: CronJob): string | undefined {
@@ -47,16 +47,32 @@ export function normalizeOptionalSessionKey(raw: unknown) {
   return trimmed || undefined;
 }
 
+/** Trimmed, de-duplicated job ids for onSuccess/onFailure; undefined when empty. */
+export function normalizeJobLinks(raw: unknown): string[] | undefined {
+  if (!Array.isArray(raw)) {
+    return undefined;
+  }
+  const ids = new Set<string>();
+  for (const entry of raw) {
+    if (typeof entry === "string" && entry.trim()) {
+      ids.add(entry.trim());
+    }
+  }
+  return ids.size > 0 ? [...ids] : undefined;
+}
+
 export function inferLegacyName(job: {
   schedule?: { kind?: unknown; everyMs?: unknown; expr?: unknown };
-  payload?: { kind?: unknown; text?: unknown; message?: unknown };
+  payload?: { kind?: unknown; text?: unknown; message?: unknown; description?: unknown };
 }) {
   const text =
     job?.payload?.kind === "systemEvent" && typeof job.payload.text === "string"
       ? job.payload.text
       : job?.payload?.kind === "agentTurn" && typeof job.payload.message === "string"
         ? job.payload.message
-        : "";
+        : job?.payload?.kind === "workflow" && typeof job.payload.description === "string"
+          ? job.payload.description
+          : "";
   const firstLine =
     text
       .split("\n")
@@ -83,5 +99,8 @@ export function normalizePayloadToSystemText(payload: CronPayload) {
   if (payload.kind === "systemEvent") {
     return payload.text.trim();
   }
+  if (payload.kind === "workflow") {
+    return payload.description.trim();
+  }
   return payload.message.trim();
 }
@@ -153,6 +153,7 @@ export async function update(state: CronServiceState, id: string, patch: CronJob
       } else {
         job.state.nextRunAtMs = undefined;
         job.state.runningAtMs = undefined;
+        job.state.pendingChain = undefined;
       }
     } else if (job.enabled) {
       // Non-schedule edits should not mutate other jobs, but still repair a
@@ -1,6 +1,8 @@
 import type { CronConfig } from "../../config/types.cron.js";
 import type { HeartbeatRunResult } from "../../infra/heartbeat-wake.js";
 import type {
+  CronChainLineage,
+  CronDelivery,
   CronJob,
   CronJobCreate,
   CronJobPatch,
@@ -21,6 +23,8 @@ export type CronEvent = {
   sessionId?: string;
   sessionKey?: string;
   nextRunAtMs?: number;
+  /** Present when the run belongs to a chain of onSuccess/onFailure links. */
+  chain?: CronChainLineage;
 } & CronRunTelemetry;
 
 export type Logger = {
@@ -75,6 +79,15 @@ export type CronServiceDeps = {
     } & CronRunOutcome &
       CronRunTelemetry
   >;
+  /** Runs payload.kind="workflow" jobs; those jobs are skipped when unset. */
+  runWorkflowJob?: (params: {
+    job: CronJob;
+    payload: Extract<CronJob["payload"], { kind: "workflow" }>;
+    /** Aborted when the job's timeout fires; the workflow should be cancelled. */
+    abortSignal?: AbortSignal;
+  }) => Promise<CronRunOutcome>;
+  /** Sends a job's failure alert through its alert delivery. */
+  sendAlert?: (params: { job: CronJob; delivery: CronDelivery; text: string }) => Promise<void>;
   onEvent?: (evt: CronEvent) => void;
 };
 
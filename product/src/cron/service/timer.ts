@@ -1,8 +1,15 @@
+import crypto from "node:crypto";
 import type { HeartbeatRunResult } from "../../infra/heartbeat-wake.js";
 import { DEFAULT_AGENT_ID } from "../../routing/session-key.js";
 import { resolveCronDeliveryPlan } from "../delivery.js";
 import { sweepCronRunSessions } from "../session-reaper.js";
-import type { CronJob, CronRunOutcome, CronRunStatus, CronRunTelemetry } from "../types.js";
+import type {
+  CronChainLineage,
+  CronJob,
+  CronRunOutcome,
+  CronRunStatus,
+  CronRunTelemetry,
+} from "../types.js";
 import {
   computeJobNextRunAtMs,
   nextWakeAtMs,
@@ -31,6 +38,12 @@ const MIN_REFIRE_GAP_MS = 2_000;
  */
 const DEFAULT_JOB_TIMEOUT_MS = 10 * 60_000; // 10 minutes
 
+/** Longest onSuccess/onFailure chain; guards against link cycles between jobs. */
+const MAX_CHAIN_DEPTH = 16;
+
+/** Failure alerts fire when consecutiveErrors reaches this, unless the job sets its own. */
+const DEFAULT_ALERT_AFTER_CONSECUTIVE_ERRORS = 3;
+
 type TimedCronRunOutcome = CronRunOutcome &
   CronRunTelemetry & {
     jobId: string;
@@ -75,6 +88,7 @@ function applyJobResult(
   job.state.lastStatus = result.status;
   job.state.lastDurationMs = Math.max(0, result.endedAt - result.startedAt);
   job.state.lastError = result.error;
+  job.state.pendingChain = undefined;
   job.updatedAtMs = result.endedAt;
 
   // Track consecutive errors for backoff / auto-disable.
@@ -143,6 +157,83 @@ function applyJobResult(
   return shouldDelete;
 }
 
+/**
+ * Lineage of the run that just finished: the chain that triggered it, or a
+ * new chain rooted at this job when it links to follow-up jobs.
+ */
+function resolveRunLineage(job: CronJob): CronChainLineage | undefined {
+  if (job.state.pendingChain) {
+    return job.state.pendingChain;
+  }
+  if (job.onSuccess?.length || job.onFailure?.length) {
+    return { chainId: crypto.randomUUID(), rootJobId: job.id, depth: 0 };
+  }
+  return undefined;
+}
+
+/**
+ * Mark the finished job's onSuccess/onFailure targets due now. Targets run on
+ * the next tick even when disabled, so a job can exist only as a chain step.
+ */
+function triggerLinkedJobs(
+  state: CronServiceState,
+  job: CronJob,
+  status: CronRunStatus,
+  lineage: CronChainLineage | undefined,
+) {
+  const targets = status === "ok" ? job.onSuccess : status === "error" ? job.onFailure : undefined;
+  if (!lineage || !targets?.length) {
+    return;
+  }
+  if (lineage.depth >= MAX_CHAIN_DEPTH) {
+    state.deps.log.warn(
+      { jobId: job.id, chainId: lineage.chainId, depth: lineage.depth },
+      "cron: chain depth limit reached, not triggering linked jobs",
+    );
+    return;
+  }
+  const now = state.deps.nowMs();
+  for (const targetId of targets) {
+    const target = state.store?.jobs.find((j) => j.id === targetId);
+    if (!target) {
+      state.deps.log.warn({ jobId: job.id, targetId }, "cron: linked job not found");
+      continue;
+    }
+    if (typeof target.state.runningAtMs === "number" || target.state.pendingChain) {
+      state.deps.log.warn(
+        { jobId: job.id, targetId, chainId: lineage.chainId },
+        "cron: linked job already running or pending, skipping",
+      );
+      continue;
+    }
+    target.state.pendingChain = {
+      chainId: lineage.chainId,
+      rootJobId: lineage.rootJobId,
+      parentJobId: job.id,
+      depth: lineage.depth + 1,
+    };
+    target.state.nextRunAtMs = now;
+  }
+}
+
+/** Send the job's alert once per failure streak, when consecutiveErrors reaches the threshold. */
+function maybeSendFailureAlert(state: CronServiceState, job: CronJob) {
+  const alert = job.alert;
+  if (!alert || job.state.lastStatus !== "error" || !state.deps.sendAlert) {
+    return;
+  }
+  const threshold = alert.afterConsecutiveErrors ?? DEFAULT_ALERT_AFTER_CONSECUTIVE_ERRORS;
+  const errors = job.state.consecutiveErrors ?? 0;
+  if (errors !== threshold) {
+    return;
+  }
+  const reason = job.state.lastError ? `: ${job.state.lastError}` : "";
+  const text = `Cron job "${job.name}" failed ${errors} times in a row${reason}`;
+  void state.deps.sendAlert({ job, delivery: alert.delivery, text }).catch((err) => {
+    state.deps.log.warn({ jobId: job.id, err: String(err) }, "cron: failure alert delivery failed");
+  });
+}
+
 export function armTimer(state: CronServiceState) {
   if (state.timer) {
     clearTimeout(state.timer);
@@ -244,7 +335,8 @@ export async function onTimer(state: CronServiceState) {
       emit(state, { jobId: job.id, action: "started", runAtMs: startedAt });
 
       const configuredTimeoutMs =
-        job.payload.kind === "agentTurn" && typeof job.payload.timeoutSeconds === "number"
+        (job.payload.kind === "agentTurn" || job.payload.kind === "workflow") &&
+        typeof job.payload.timeoutSeconds === "number"
           ? Math.floor(job.payload.timeoutSeconds * 1_000)
           : undefined;
       const jobTimeoutMs =
@@ -259,14 +351,16 @@ export async function onTimer(state: CronServiceState) {
           typeof jobTimeoutMs === "number"
             ? await (async () => {
                 let timeoutId: NodeJS.Timeout | undefined;
+                // Lets work that outlives the race (workflows) stop on timeout.
+                const timeoutAbort = new AbortController();
                 try {
                   return await Promise.race([
-                    executeJobCore(state, job),
+                    executeJobCore(state, job, timeoutAbort.signal),
                     new Promise<never>((_, reject) => {
-                      timeoutId = setTimeout(
-                        () => reject(new Error("cron: job execution timed out")),
-                        jobTimeoutMs,
-                      );
+                      timeoutId = setTimeout(() => {
+                        timeoutAbort.abort();
+                        reject(new Error("cron: job execution timed out"));
+                      }, jobTimeoutMs);
                     }),
                   ]);
                 } finally {
@@ -302,14 +396,17 @@ export async function onTimer(state: CronServiceState) {
             continue;
           }
 
+          const lineage = resolveRunLineage(job);
           const shouldDelete = applyJobResult(state, job, {
             status: result.status,
             error: result.error,
             startedAt: result.startedAt,
             endedAt: result.endedAt,
           });
+          triggerLinkedJobs(state, job, result.status, lineage);
+          maybeSendFailureAlert(state, job);
 
-          emitJobFinished(state, job, result, result.startedAt);
+          emitJobFinished(state, job, result, result.startedAt, lineage);
 
           if (shouldDelete && state.store) {
             state.store.jobs = state.store.jobs.filter((j) => j.id !== job.id);
@@ -382,7 +479,8 @@ function isRunnableJob(params: {
   if (!job.state) {
     job.state = {};
   }
-  if (!job.enabled) {
+  const chained = job.state.pendingChain !== undefined;
+  if (!job.enabled && !chained) {
     return false;
   }
   if (params.skipJobIds?.has(job.id)) {
@@ -391,7 +489,7 @@ function isRunnableJob(params: {
   if (typeof job.state.runningAtMs === "number") {
     return false;
   }
-  if (params.skipAtIfAlreadyRan && job.schedule.kind === "at" && job.state.lastStatus) {
+  if (params.skipAtIfAlreadyRan && !chained && job.schedule.kind === "at" && job.state.lastStatus) {
     // Any terminal status (ok, error, skipped) means the job already ran at least once.
     // Don't re-fire it on restart — applyJobResult disables one-shot jobs, but guard
     // here defensively (#13845).
@@ -455,6 +553,7 @@ export async function runDueJobs(state: CronServiceState) {
 async function executeJobCore(
   state: CronServiceState,
   job: CronJob,
+  abortSignal?: AbortSignal,
 ): Promise<CronRunOutcome & CronRunTelemetry> {
   if (job.sessionTarget === "main") {
     const text = resolveJobPayloadTextForMain(job);
@@ -521,15 +620,21 @@ async function executeJobCore(
     }
   }
 
-  if (job.payload.kind !== "agentTurn") {
-    return { status: "skipped", error: "isolated job requires payload.kind=agentTurn" };
+  let res: Awaited<ReturnType<typeof state.deps.runIsolatedAgentJob>>;
+  if (job.payload.kind === "workflow") {
+    if (!state.deps.runWorkflowJob) {
+      return { status: "skipped", error: "workflow cron jobs are not supported by this host" };
+    }
+    res = await state.deps.runWorkflowJob({ job, payload: job.payload, abortSignal });
+  } else if (job.payload.kind === "agentTurn") {
+    res = await state.deps.runIsolatedAgentJob({
+      job,
+      message: job.payload.message,
+    });
+  } else {
+    return { status: "skipped", error: "isolated job requires payload.kind=agentTurn or workflow" };
   }
 
-  const res = await state.deps.runIsolatedAgentJob({
-    job,
-    message: job.payload.message,
-  });
-
   // Post a short summary back to the main session — but only when the
   // isolated run did NOT already deliver its output to the target channel.
   // When `res.delivered` is true the announce flow (or direct outbound
@@ -597,14 +702,17 @@ export async function executeJob(
   }
 
   const endedAt = state.deps.nowMs();
+  const lineage = resolveRunLineage(job);
   const shouldDelete = applyJobResult(state, job, {
     status: coreResult.status,
     error: coreResult.error,
     startedAt,
     endedAt,
   });
+  triggerLinkedJobs(state, job, coreResult.status, lineage);
+  maybeSendFailureAlert(state, job);
 
-  emitJobFinished(state, job, coreResult, startedAt);
+  emitJobFinished(state, job, coreResult, startedAt, lineage);
 
   if (shouldDelete && state.store) {
     state.store.jobs = state.store.jobs.filter((j) => j.id !== job.id);
@@ -620,6 +728,7 @@ function emitJobFinished(
   } & CronRunOutcome &
     CronRunTelemetry,
   runAtMs: number,
+  chain?: CronChainLineage,
 ) {
   emit(state, {
     jobId: job.id,
@@ -632,6 +741,7 @@ function emitJobFinished(
     runAtMs,
     durationMs: job.state.lastDurationMs,
     nextRunAtMs: job.state.nextRunAtMs,
+    chain,
     model: result.model,
     provider: result.provider,
     usage: result.usage,
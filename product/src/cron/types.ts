@@ -65,6 +65,14 @@ export type CronPayload =
       channel?: CronMessageChannel;
       to?: string;
       bestEffortDeliver?: boolean;
+    }
+  | {
+      kind: "workflow";
+      /** Orchestrator workflow type (built-in or project-defined). */
+      workflow: string;
+      description: string;
+      inputs?: Record<string, string>;
+      timeoutSeconds?: number;
     };
 
 export type CronPayloadPatch =
@@ -80,8 +88,32 @@ export type CronPayloadPatch =
       channel?: CronMessageChannel;
       to?: string;
       bestEffortDeliver?: boolean;
+    }
+  | {
+      kind: "workflow";
+      workflow?: string;
+      description?: string;
+      inputs?: Record<string, string>;
+      timeoutSeconds?: number;
     };
 
+/**
+ * Where a run sits in a chain of linked jobs. The root job of a chain starts
+ * at depth 0; every onSuccess/onFailure hop adds one.
+ */
+export type CronChainLineage = {
+  chainId: string;
+  rootJobId: string;
+  parentJobId?: string;
+  depth: number;
+};
+
+export type CronJobAlert = {
+  /** Alert once consecutiveErrors reaches this count (default 3). */
+  afterConsecutiveErrors?: number;
+  delivery: CronDelivery;
+};
+
 export type CronJobState = {
   nextRunAtMs?: number;
   runningAtMs?: number;
@@ -93,6 +125,8 @@ export type CronJobState = {
   consecutiveErrors?: number;
   /** Number of consecutive schedule computation errors. Auto-disables job after threshold. */
   scheduleErrorCount?: number;
+  /** Set when a linked job triggered this one; the job runs on the next tick. */
+  pendingChain?: CronChainLineage;
 };
 
 export type CronJob = {
@@ -111,6 +145,11 @@ export type CronJob = {
   wakeMode: CronWakeMode;
   payload: CronPayload;
   delivery?: CronDelivery;
+  /** Job ids to run after this job finishes ok. */
+  onSuccess?: string[];
+  /** Job ids to run after this job finishes with an error. */
+  onFailure?: string[];
+  alert?: CronJobAlert;
   state: CronJobState;
 };
 
@@ -123,8 +162,12 @@ export type CronJobCreate = Omit<CronJob, "id" | "createdAtMs" | "updatedAtMs" |
   state?: Partial<CronJobState>;
 };
 
-export type CronJobPatch = Partial<Omit<CronJob, "id" | "createdAtMs" | "state" | "payload">> & {
+export type CronJobPatch = Partial<
+  Omit<CronJob, "id" | "createdAtMs" | "state" | "payload" | "alert">
+> & {
   payload?: CronPayloadPatch;
+  /** `null` removes the alert. */
+  alert?: CronJobAlert | null;
   delivery?: CronDeliveryPatch;
   state?: Partial<CronJobState>;
 };
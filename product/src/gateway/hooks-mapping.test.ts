@@ -294,6 +294,66 @@ describe("hooks mapping", () => {
     }
   });
 
+  it("starts a workflow for matching forge events", async () => {
+    const mappings = resolveHookMappings({
+      mappings: [
+        {
+          match: {
+            path: "github",
+            headers: { "X-GitHub-Event": "issues" },
+            payload: { action: "labeled", "label.name": "bug" },
+          },
+          action: "workflow",
+          workflow: "bugfix",
+          descriptionTemplate: "{{issue.title}}\n\n{{issue.body}}",
+          inputs: { issue: "{{issue.number}}" },
+        },
+      ],
+    });
+    const ctx = {
+      headers: { "x-github-event": "issues", "x-github-delivery": "delivery-1" },
+      url: new URL("http://127.0.0.1:18789/hooks/github"),
+      path: "github",
+    };
+    const issue = { number: 7, title: "Crash on save", body: "Stack trace" };
+
+    const labeled = await applyHookMappings(mappings, {
+      ...ctx,
+      payload: { action: "labeled", label: { name: "bug" }, issue },
+    });
+    expect(labeled).toEqual({
+      ok: true,
+      action: {
+        kind: "workflow",
+        workflow: "bugfix",
+        description: "Crash on save\n\nStack trace",
+        inputs: { issue: "7" },
+        name: undefined,
+        allowUnsafeExternalContent: undefined,
+      },
+      deliveryId: "delivery-1",
+    });
+
+    const otherLabel = await applyHookMappings(mappings, {
+      ...ctx,
+      payload: { action: "labeled", label: { name: "docs" }, issue },
+    });
+    expect(otherLabel).toBeNull();
+  });
+
+  it("rejects a workflow mapping without a description", async () => {
+    const mappings = resolveHookMappings({
+      mappings: [{ match: { path: "pr" }, action: "workflow", workflow: "adversarial" }],
+    });
+    const result = await applyHookMappings(mappings, {
+      payload: {},
+      headers: {},
+      url: new URL("http://127.0.0.1:18789/hooks/pr"),
+      path: "pr",
+    });
+    expect(result).toEqual({ ok: false, error: "hook mapping requires description" });
+  });
+
   it("rejects missing message", async () => {
     const mappings = resolveHookMappings({
       mappings: [{ match: { path: "noop" }, action: "agent" }],
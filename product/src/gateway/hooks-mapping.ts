@@ -2,13 +2,20 @@ import path from "node:path";
 import { pathToFileURL } from "node:url";
 import { CONFIG_PATH, type HookMappingConfig, type HooksConfig } from "../config/config.js";
 import { normalizeBaseUrl } from "../utils/normalize-base-url.js";
+import {
+  extractHookDeliveryId,
+  resolveHookSignature,
+  type HookSignatureResolved,
+} from "./hooks-signature.js";
 import type { HookMessageChannel } from "./hooks.js";
 
 export type HookMappingResolved = {
   id: string;
   matchPath?: string;
   matchSource?: string;
-  action: "wake" | "agent";
+  matchHeaders?: Record<string, string>;
+  matchPayload?: Record<string, string | number | boolean>;
+  action: "wake" | "agent" | "workflow";
   wakeMode?: "now" | "next-heartbeat";
   name?: string;
   agentId?: string;
@@ -22,6 +29,11 @@ export type HookMappingResolved = {
   model?: string;
   thinking?: string;
   timeoutSeconds?: number;
+  workflow?: string;
+  descriptionTemplate?: string;
+  inputs?: Record<string, string>;
+  deliveryId?: string;
+  signature?: HookSignatureResolved;
   transform?: HookMappingTransformResolved;
 };
 
@@ -57,10 +69,18 @@ export type HookAction =
       model?: string;
       thinking?: string;
       timeoutSeconds?: number;
+    }
+  | {
+      kind: "workflow";
+      workflow: string;
+      description: string;
+      inputs?: Record<string, string>;
+      name?: string;
+      allowUnsafeExternalContent?: boolean;
     };
 
 export type HookMappingResult =
-  | { ok: true; action: HookAction }
+  | { ok: true; action: HookAction; deliveryId?: string }
   | { ok: true; action: null; skipped: true }
   | { ok: false; error: string };
 
@@ -97,6 +117,9 @@ type HookTransformResult = Partial<{
   model: string;
   thinking: string;
   timeoutSeconds: number;
+  workflow: string;
+  description: string;
+  inputs: Record<string, string>;
 }> | null;
 
 type HookTransformFn = (
@@ -144,6 +167,17 @@ export function resolveHookMappings(
   return mappings.map((mapping, index) => normalizeHookMapping(mapping, index, transformsDir));
 }
 
+/** Mappings on `path` that accept signed requests in place of the hooks token. */
+export function resolveSignedHookMappings(
+  mappings: HookMappingResolved[],
+  path: string,
+): HookMappingResolved[] {
+  const normalized = normalizeMatchPath(path);
+  return mappings.filter(
+    (mapping) => mapping.signature && (!mapping.matchPath || mapping.matchPath === normalized),
+  );
+}
+
 export async function applyHookMappings(
   mappings: HookMappingResolved[],
   ctx: HookMappingContext,
@@ -174,10 +208,12 @@ export async function applyHookMappings(
       return { ok: true, action: null, skipped: true };
     }
     const merged = mergeAction(base.action, override, mapping.action);
-    if (!merged.ok) {
+    if (!merged.ok || !merged.action) {
       return merged;
     }
-    return merged;
+    const deliveryId =
+      renderOptional(mapping.deliveryId, ctx) ?? extractHookDeliveryId(ctx.headers);
+    return deliveryId ? { ...merged, deliveryId } : merged;
   }
   return null;
 }
@@ -190,6 +226,11 @@ function normalizeHookMapping(
   const id = mapping.id?.trim() || `mapping-${index + 1}`;
   const matchPath = normalizeMatchPath(mapping.match?.path);
   const matchSource = mapping.match?.source?.trim();
+  const matchHeaders = mapping.match?.headers
+    ? Object.fromEntries(
+        Object.entries(mapping.match.headers).map(([name, value]) => [name.toLowerCase(), value]),
+      )
+    : undefined;
   const action = mapping.action ?? "agent";
   const wakeMode = mapping.wakeMode ?? "now";
   const transform = mapping.transform
@@ -203,6 +244,8 @@ function normalizeHookMapping(
     id,
     matchPath,
     matchSource,
+    matchHeaders,
+    matchPayload: mapping.match?.payload,
     action,
     wakeMode,
     name: mapping.name,
@@ -217,6 +260,11 @@ function normalizeHookMapping(
     model: mapping.model,
     thinking: mapping.thinking,
     timeoutSeconds: mapping.timeoutSeconds,
+    workflow: mapping.workflow?.trim() || undefined,
+    descriptionTemplate: mapping.descriptionTemplate,
+    inputs: mapping.inputs,
+    deliveryId: mapping.deliveryId,
+    signature: mapping.signature ? resolveHookSignature(mapping.signature) : undefined,
     transform,
   };
 }
@@ -233,6 +281,16 @@ function mappingMatches(mapping: HookMappingResolved, ctx: HookMappingContext) {
       return false;
     }
   }
+  for (const [name, expected] of Object.entries(mapping.matchHeaders ?? {})) {
+    if (ctx.headers[name] !== expected) {
+      return false;
+    }
+  }
+  for (const [expr, expected] of Object.entries(mapping.matchPayload ?? {})) {
+    if (getByPath(ctx.payload, expr) !== expected) {
+      return false;
+    }
+  }
   return true;
 }
 
@@ -251,6 +309,26 @@ function buildActionFromMapping(
       },
     };
   }
+  if (mapping.action === "workflow") {
+    return {
+      ok: true,
+      action: {
+        kind: "workflow",
+        workflow: renderTemplate(mapping.workflow ?? "", ctx).trim(),
+        description: renderTemplate(mapping.descriptionTemplate ?? "", ctx),
+        inputs: mapping.inputs
+          ? Object.fromEntries(
+              Object.entries(mapping.inputs).map(([name, value]) => [
+                name,
+                renderTemplate(value, ctx),
+              ]),
+            )
+          : undefined,
+        name: renderOptional(mapping.name, ctx),
+        allowUnsafeExternalContent: mapping.allowUnsafeExternalContent,
+      },
+    };
+  }
   const message = renderTemplate(mapping.messageTemplate ?? "", ctx);
   return {
     ok: true,
@@ -275,7 +353,7 @@ function buildActionFromMapping(
 function mergeAction(
   base: HookAction,
   override: HookTransformResult,
-  defaultAction: "wake" | "agent",
+  defaultAction: "wake" | "agent" | "workflow",
 ): HookMappingResult {
   if (!override) {
     return validateAction(base);
@@ -287,6 +365,23 @@ function mergeAction(
     const mode = override.mode === "next-heartbeat" ? "next-heartbeat" : (baseWake?.mode ?? "now");
     return validateAction({ kind: "wake", text, mode });
   }
+  if (kind === "workflow") {
+    const baseWorkflow = base.kind === "workflow" ? base : undefined;
+    return validateAction({
+      kind: "workflow",
+      workflow: override.workflow ?? baseWorkflow?.workflow ?? "",
+      description:
+        typeof override.description === "string"
+          ? override.description
+          : (baseWorkflow?.description ?? ""),
+      inputs: override.inputs ?? baseWorkflow?.inputs,
+      name: override.name ?? baseWorkflow?.name,
+      allowUnsafeExternalContent:
+        typeof override.allowUnsafeExternalContent === "boolean"
+          ? override.allowUnsafeExternalContent
+          : baseWorkflow?.allowUnsafeExternalContent,
+    });
+  }
   const baseAgent = base.kind === "agent" ? base : undefined;
   const message =
     typeof override.message === "string" ? override.message : (baseAgent?.message ?? "");
@@ -319,6 +414,15 @@ function validateAction(action: HookAction): HookMappingResult {
     }
     return { ok: true, action };
   }
+  if (action.kind === "workflow") {
+    if (!action.workflow?.trim()) {
+      return { ok: false, error: "hook mapping requires workflow" };
+    }
+    if (!action.description?.trim()) {
+      return { ok: false, error: "hook mapping requires description" };
+    }
+    return { ok: true, action };
+  }
   if (!action.message?.trim()) {
     return { ok: false, error: "hook mapping requires message" };
   }
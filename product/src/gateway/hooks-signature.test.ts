@@ -0,0 +1,58 @@
+import { createHmac } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import {
+  extractHookDeliveryId,
+  resolveHookSignature,
+  verifyHookSignature,
+} from "./hooks-signature.js";
+
+const body = JSON.stringify({ action: "opened" });
+
+describe("hook signatures", () => {
+  it("verifies GitHub X-Hub-Signature-256", () => {
+    const signature = resolveHookSignature({ preset: "github", secret: "s3cret" });
+    const digest = createHmac("sha256", "s3cret").update(body).digest("hex");
+    expect(
+      verifyHookSignature(signature, { "x-hub-signature-256": `sha256=${digest}` }, body),
+    ).toBe(true);
+    expect(verifyHookSignature(signature, { "x-hub-signature-256": digest }, body)).toBe(false);
+    expect(verifyHookSignature(signature, {}, body)).toBe(false);
+  });
+
+  it("compares the GitLab token", () => {
+    const signature = resolveHookSignature({ preset: "gitlab", secret: "s3cret" });
+    expect(verifyHookSignature(signature, { "x-gitlab-token": "s3cret" }, body)).toBe(true);
+    expect(verifyHookSignature(signature, { "x-gitlab-token": "other" }, body)).toBe(false);
+  });
+
+  it("verifies a generic HMAC with custom header, digest and encoding", () => {
+    const signature = resolveHookSignature({
+      preset: "hmac",
+      secret: "s3cret",
+      header: "X-Webhook-Signature",
+      algorithm: "sha512",
+      encoding: "base64",
+      prefix: "v1=",
+    });
+    const digest = createHmac("sha512", "s3cret").update(body).digest("base64");
+    expect(verifyHookSignature(signature, { "x-webhook-signature": `v1=${digest}` }, body)).toBe(
+      true,
+    );
+    expect(
+      verifyHookSignature(signature, { "x-webhook-signature": `v1=${digest}` }, `${body}\n`),
+    ).toBe(false);
+  });
+
+  it("requires a secret", () => {
+    expect(() => resolveHookSignature({ preset: "github", secret: " " })).toThrow(
+      'hook signature preset "github" requires a secret',
+    );
+  });
+
+  it("reads forge delivery ids", () => {
+    expect(extractHookDeliveryId({ "x-github-delivery": "abc" })).toBe("abc");
+    expect(extractHookDeliveryId({ "x-gitlab-event-uuid": "def" })).toBe("def");
+    expect(extractHookDeliveryId({ "idempotency-key": "ghi" })).toBe("ghi");
+    expect(extractHookDeliveryId({})).toBeUndefined();
+  });
+});
@@ -0,0 +1,82 @@
+import { createHmac } from "node:crypto";
+import type { HookSignatureConfig } from "../config/config.js";
+import { safeEqualSecret } from "../security/secret-equal.js";
+
+export type HookSignatureResolved =
+  | {
+      kind: "hmac";
+      preset: "github" | "hmac";
+      secret: string;
+      header: string;
+      algorithm: "sha1" | "sha256" | "sha512";
+      encoding: "hex" | "base64";
+      prefix: string;
+    }
+  | {
+      kind: "token";
+      preset: "gitlab";
+      secret: string;
+      header: string;
+    };
+
+/** Delivery headers forges send once per event; redeliveries repeat the value. */
+const DELIVERY_ID_HEADERS = ["x-github-delivery", "x-gitlab-event-uuid", "idempotency-key"];
+
+export function resolveHookSignature(config: HookSignatureConfig): HookSignatureResolved {
+  const secret = config.secret?.trim();
+  if (!secret) {
+    throw new Error(`hook signature preset "${config.preset}" requires a secret`);
+  }
+  if (config.preset === "github") {
+    return {
+      kind: "hmac",
+      preset: "github",
+      secret,
+      header: "x-hub-signature-256",
+      algorithm: "sha256",
+      encoding: "hex",
+      prefix: "sha256=",
+    };
+  }
+  if (config.preset === "gitlab") {
+    return { kind: "token", preset: "gitlab", secret, header: "x-gitlab-token" };
+  }
+  return {
+    kind: "hmac",
+    preset: "hmac",
+    secret,
+    header: config.header?.trim().toLowerCase() || "x-signature",
+    algorithm: config.algorithm ?? "sha256",
+    encoding: config.encoding ?? "hex",
+    prefix: config.prefix ?? "",
+  };
+}
+
+/** Check a request against a signature config. `headers` must have lower-case names. */
+export function verifyHookSignature(
+  signature: HookSignatureResolved,
+  headers: Record<string, string>,
+  rawBody: string,
+): boolean {
+  const provided = headers[signature.header]?.trim();
+  if (!provided) {
+    return false;
+  }
+  if (signature.kind === "token") {
+    return safeEqualSecret(provided, signature.secret);
+  }
+  const digest = createHmac(signature.algorithm, signature.secret)
+    .update(rawBody, "utf-8")
+    .digest(signature.encoding);
+  return safeEqualSecret(provided, `${signature.prefix}${digest}`);
+}
+
+export function extractHookDeliveryId(headers: Record<string, string>): string | undefined {
+  for (const header of DELIVERY_ID_HEADERS) {
+    const value = headers[header]?.trim();
+    if (value) {
+      return value;
+    }
+  }
+  return undefined;
+}
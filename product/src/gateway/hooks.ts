@@ -178,8 +178,13 @@ export function extractHookToken(req: IncomingMessage): string | undefined {
 export async function readJsonBody(
   req: IncomingMessage,
   maxBytes: number,
-): Promise<{ ok: true; value: unknown } | { ok: false; error: string }> {
-  const result = await readJsonBodyWithLimit(req, { maxBytes, emptyObjectOnEmpty: true });
+  opts?: { includeRaw?: boolean },
+): Promise<{ ok: true; value: unknown; raw?: string } | { ok: false; error: string }> {
+  const result = await readJsonBodyWithLimit(req, {
+    maxBytes,
+    emptyObjectOnEmpty: true,
+    includeRaw: opts?.includeRaw,
+  });
   if (result.ok) {
     return result;
   }
@@ -0,0 +1,150 @@
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import os from "node:os";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+let cfg: Record<string, unknown> = {};
+
+vi.mock("../config/config.js", () => ({
+  loadConfig: () => cfg,
+}));
+
+vi.mock("./auth.js", () => ({
+  authorizeGatewayConnect: async (params: { connectAuth: { token?: string } | null }) => ({
+    ok: params.connectAuth?.token === "secret",
+  }),
+}));
+
+vi.mock("../agents/agent-scope.js", () => ({
+  resolveDefaultAgentId: () => "main",
+  resolveAgentWorkspaceDir: () => os.tmpdir(),
+}));
+
+// Perf: a couple of named tools are enough to exercise the MCP allowlist.
+vi.mock("../agents/coderclaw-tools.js", () => ({
+  createCoderClawTools: () =>
+    ["codebase_search", "sessions_spawn", "exec"].map((name) => ({
+      name,
+      description: name,
+      parameters: { type: "object", properties: {} },
+      execute: async () => ({ content: [{ type: "text", text: `${name} ran` }] }),
+    })),
+}));
+
+const { handleMcpHttpRequest } = await import("./mcp-server-http.js");
+
+let baseUrl = "";
+let server: ReturnType<typeof createServer> | undefined;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    void handleMcpHttpRequest(req, res, {
+      auth: { mode: "token", token: "secret", allowTailscale: false },
+    }).then((handled) => {
+      if (!handled) {
+        res.statusCode = 404;
+        res.end("not found");
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server?.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server?.close(() => resolve()));
+});
+
+beforeEach(() => {
+  cfg = {};
+});
+
+function post(body: unknown, headers: Record<string, string> = {}) {
+  return fetch(baseUrl, {
+    method: "POST",
+    headers: {
+      authorization: "Bearer secret",
+      "content-type": "application/json",
+      accept: "application/json, text/event-stream",
+      ...headers,
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+describe("MCP streamable HTTP transport", () => {
+  it("rejects unauthenticated requests", async () => {
+    const res = await post({ jsonrpc: "2.0", id: 1, method: "ping" }, { authorization: "" });
+    expect(res.status).toBe(401);
+  });
+
+  it("runs a session from initialize to DELETE", async () => {
+    const init = await post({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "initialize",
+      params: { protocolVersion: "2025-03-26" },
+    });
+    expect(init.status).toBe(200);
+    const sessionId = init.headers.get("mcp-session-id");
+    expect(sessionId).toBeTruthy();
+    expect(await init.json()).toMatchObject({ result: { protocolVersion: "2025-03-26" } });
+
+    const headers = { "mcp-session-id": sessionId ?? "" };
+    const initialized = await post(
+      { jsonrpc: "2.0", method: "notifications/initialized" },
+      headers,
+    );
+    expect(initialized.status).toBe(202);
+
+    const list = await post({ jsonrpc: "2.0", id: 2, method: "tools/list" }, headers);
+    const names = (
+      (await list.json()) as { result: { tools: Array<{ name: string }> } }
+    ).result.tools
+      .map((t) => t.name)
+      .toSorted();
+    expect(names).toEqual(["codebase_search"]);
+
+    const del = await fetch(baseUrl, {
+      method: "DELETE",
+      headers: { authorization: "Bearer secret", ...headers },
+    });
+    expect(del.status).toBe(204);
+
+    const stale = await post({ jsonrpc: "2.0", id: 3, method: "ping" }, headers);
+    expect(stale.status).toBe(404);
+  });
+
+  it("honours the gateway.mcp tool allowlist", async () => {
+    cfg = { gateway: { mcp: { tools: ["codebase_search", "sessions_spawn"] } } };
+    const res = await post({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "tools/call",
+      params: { name: "sessions_spawn", arguments: {} },
+    });
+    expect(await res.json()).toMatchObject({
+      result: { isError: false, content: [{ type: "text", text: "sessions_spawn ran" }] },
+    });
+  });
+
+  it("streams the response as SSE when the client only accepts event streams", async () => {
+    const res = await post(
+      { jsonrpc: "2.0", id: 7, method: "ping" },
+      { accept: "text/event-stream" },
+    );
+    expect(res.headers.get("content-type")).toContain("text/event-stream");
+    expect(await res.text()).toBe(
+      `event: message\ndata: ${JSON.stringify({ jsonrpc: "2.0", id: 7, result: {} })}\n\n`,
+    );
+  });
+
+  it("refuses GET streams and can be disabled", async () => {
+    const get = await fetch(baseUrl, { headers: { authorization: "Bearer secret" } });
+    expect(get.status).toBe(405);
+
+    cfg = { gateway: { mcp: { enabled: false } } };
+    const res = await post({ jsonrpc: "2.0", id: 1, method: "ping" });
+    expect(res.status).toBe(404);
+  });
+});
@@ -1,82 +1,176 @@
 /**
- * MCP (Model Context Protocol) HTTP server for CoderClaw.
+ * MCP (Model Context Protocol) HTTP transports for CoderClaw.
  *
- * Mounts at /mcp on the local gateway (port 18789).
- * Exposes CoderClaw tools so external AI coding tools (Cursor, Continue.dev, Windsurf,
- * Goose, Claude Code) can call them as MCP context providers.
+ * Mounts on the local gateway (port 18789) so external AI coding tools
+ * (Cursor, Continue, Goose, Windsurf, Claude Code) can use coderClaw's tools,
+ * `.coderClaw/` resources and workflow prompts as a standard MCP server.
  *
- * Endpoints:
- *   GET  /mcp           — MCP tool manifest (list of available tools + schemas)
- *   POST /mcp/call      — Invoke a tool by name with arguments
+ * Streamable HTTP (protocol 2025-03-26 and later):
+ *   POST   /mcp   — JSON-RPC message or batch. Requests are answered with
+ *                   application/json, or a one-shot SSE stream when the client
+ *                   only accepts text/event-stream. Notifications get 202.
+ *                   `initialize` assigns an `Mcp-Session-Id`.
+ *   DELETE /mcp   — end the session named by `Mcp-Session-Id`.
+ *   GET    /mcp   — 405: the server never initiates messages.
  *
- * Auth: Bearer token (same as gateway auth). Local loopback requests are allowed
- * without a token when gateway auth is disabled.
+ * HTTP+SSE (protocol 2024-11-05, for older clients):
+ *   GET  /mcp/sse                      — event stream; first event names the POST endpoint
+ *   POST /mcp/messages?sessionId=<id>  — JSON-RPC in; responses go out on the stream
+ *
+ * Auth: Bearer token (same as gateway auth). Which tools are exposed is
+ * controlled by `gateway.mcp.tools`; `gateway.mcp.enabled: false` unmounts /mcp.
  *
  * MCP spec reference: https://modelcontextprotocol.io/specification
  */
 
+import { randomUUID } from "node:crypto";
 import type { IncomingMessage, ServerResponse } from "node:http";
-import { clawFleetTool } from "../coderclaw/tools/claw-fleet-tool.js";
-import { codebaseSearchTool } from "../coderclaw/tools/codebase-search-tool.js";
-import { gitHistoryTool } from "../coderclaw/tools/git-history-tool.js";
-import { projectKnowledgeTool } from "../coderclaw/tools/project-knowledge-tool.js";
-import { semanticSearchTool } from "../coderclaw/tools/semantic-search-tool.js";
-import { workflowStatusTool } from "../coderclaw/tools/workflow-status-tool.js";
+import { resolveAgentWorkspaceDir, resolveDefaultAgentId } from "../agents/agent-scope.js";
 import { loadConfig } from "../config/config.js";
+import { JSON_RPC_ERRORS, jsonRpcError } from "../mcp/protocol.js";
+import { McpServer } from "../mcp/server.js";
+import { resolveMcpTools } from "../mcp/tools.js";
 import type { AuthRateLimiter } from "./auth-rate-limit.js";
 import { authorizeGatewayConnect, type ResolvedGatewayAuth } from "./auth.js";
-import {
-  readJsonBodyOrError,
-  sendJson,
-  sendMethodNotAllowed,
-  sendInvalidRequest,
-} from "./http-common.js";
-import { getBearerToken } from "./http-utils.js";
+import { readJsonBody } from "./hooks.js";
+import { sendJson, sendMethodNotAllowed, setSseHeaders } from "./http-common.js";
+import { getBearerToken, getHeader } from "./http-utils.js";
 
-const MCP_VERSION = "2024-11-05";
-const SERVER_NAME = "coderclaw";
-const SERVER_VERSION = "1.0.0";
+const MCP_PATH = "/mcp";
+const LEGACY_SSE_PATH = "/mcp/sse";
+const LEGACY_MESSAGES_PATH = "/mcp/messages";
+const SESSION_HEADER = "mcp-session-id";
+const MAX_BODY_BYTES = 512 * 1024;
+/** Oldest sessions are evicted beyond this many. */
+const MAX_SESSIONS = 256;
+const SSE_KEEPALIVE_MS = 25_000;
 
-/** The CoderClaw tools exposed via MCP. */
-const MCP_TOOLS = [
-  semanticSearchTool, // vector+ranked semantic search (preferred)
-  codebaseSearchTool, // keyword grep fallback
-  projectKnowledgeTool,
-  gitHistoryTool,
-  workflowStatusTool,
-  clawFleetTool,
-];
+/** Streamable HTTP sessions keyed by `Mcp-Session-Id`. */
+const sessions = new Map<string, McpServer>();
+/** Legacy HTTP+SSE sessions: server plus the open event stream. */
+const sseSessions = new Map<string, { server: McpServer; res: ServerResponse }>();
 
-/**
- * Convert a TypeBox schema object to an MCP-compatible JSON Schema fragment.
- * TypeBox schemas are already valid JSON Schema so we can pass them through.
- */
-function toJsonSchema(schema: unknown): Record<string, unknown> {
-  if (schema && typeof schema === "object") {
-    // Strip TypeBox internal metadata ($schema, symbols) that JSON Schema consumers don't need
-    const { $schema: _s, ...rest } = schema as Record<string, unknown>;
-    return rest;
+function createServer(): McpServer {
+  const cfg = loadConfig();
+  const projectRoot = resolveAgentWorkspaceDir(cfg, resolveDefaultAgentId(cfg));
+  return new McpServer({
+    projectRoot,
+    resolveTools: () => resolveMcpTools({ config: loadConfig(), workspaceDir: projectRoot }),
+  });
+}
+
+function rememberSession(id: string, server: McpServer): void {
+  sessions.set(id, server);
+  while (sessions.size > MAX_SESSIONS) {
+    const oldest = sessions.keys().next().value;
+    if (oldest === undefined) {
+      break;
+    }
+    sessions.delete(oldest);
   }
-  return { type: "object", properties: {} };
 }
 
-/** Build the MCP initialize / tools/list response body. */
-function buildManifest() {
-  return {
-    protocolVersion: MCP_VERSION,
-    capabilities: {
-      tools: {},
-    },
-    serverInfo: {
-      name: SERVER_NAME,
-      version: SERVER_VERSION,
-    },
-    tools: MCP_TOOLS.map((tool) => ({
-      name: tool.name,
-      description: tool.description,
-      inputSchema: toJsonSchema(tool.parameters),
-    })),
-  };
+function isInitializeRequest(payload: unknown): boolean {
+  return (
+    !!payload &&
+    typeof payload === "object" &&
+    !Array.isArray(payload) &&
+    (payload as { method?: unknown }).method === "initialize"
+  );
+}
+
+function writeSseMessage(res: ServerResponse, message: unknown): void {
+  res.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+}
+
+async function readRpcBody(
+  req: IncomingMessage,
+  res: ServerResponse,
+): Promise<{ ok: true; value: unknown } | { ok: false }> {
+  const body = await readJsonBody(req, MAX_BODY_BYTES);
+  if (!body.ok) {
+    const status = body.error === "payload too large" ? 413 : 400;
+    sendJson(res, status, jsonRpcError(null, JSON_RPC_ERRORS.PARSE_ERROR, body.error));
+    return { ok: false };
+  }
+  return body;
+}
+
+async function handleStreamablePost(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const body = await readRpcBody(req, res);
+  if (!body.ok) {
+    return;
+  }
+
+  const sessionId = getHeader(req, SESSION_HEADER)?.trim();
+  let server: McpServer;
+  if (isInitializeRequest(body.value)) {
+    server = createServer();
+    const id = randomUUID();
+    rememberSession(id, server);
+    res.setHeader("Mcp-Session-Id", id);
+  } else if (sessionId) {
+    const existing = sessions.get(sessionId);
+    if (!existing) {
+      // Tells the client to re-initialize.
+      sendJson(res, 404, jsonRpcError(null, JSON_RPC_ERRORS.INVALID_REQUEST, "Session not found"));
+      return;
+    }
+    server = existing;
+  } else {
+    // Session-less clients still get a working (stateless) server.
+    server = createServer();
+  }
+
+  const response = await server.handlePayload(body.value);
+  if (!response) {
+    res.statusCode = 202;
+    res.end();
+    return;
+  }
+  const accept = getHeader(req, "accept") ?? "";
+  if (accept.includes("text/event-stream") && !accept.includes("application/json")) {
+    setSseHeaders(res);
+    writeSseMessage(res, response);
+    res.end();
+    return;
+  }
+  sendJson(res, 200, response);
+}
+
+function handleLegacySseStream(req: IncomingMessage, res: ServerResponse): void {
+  const sessionId = randomUUID();
+  sseSessions.set(sessionId, { server: createServer(), res });
+  setSseHeaders(res);
+  res.write(`event: endpoint\ndata: ${LEGACY_MESSAGES_PATH}?sessionId=${sessionId}\n\n`);
+  const keepalive = setInterval(() => res.write(": keepalive\n\n"), SSE_KEEPALIVE_MS);
+  keepalive.unref?.();
+  req.on("close", () => {
+    clearInterval(keepalive);
+    sseSessions.delete(sessionId);
+  });
+}
+
+async function handleLegacyMessage(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+): Promise<void> {
+  const session = sseSessions.get(url.searchParams.get("sessionId") ?? "");
+  if (!session) {
+    sendJson(res, 404, jsonRpcError(null, JSON_RPC_ERRORS.INVALID_REQUEST, "Session not found"));
+    return;
+  }
+  const body = await readRpcBody(req, res);
+  if (!body.ok) {
+    return;
+  }
+  res.statusCode = 202;
+  res.end();
+  const response = await session.server.handlePayload(body.value);
+  if (response) {
+    writeSseMessage(session.res, response);
+  }
 }
 
 export async function handleMcpHttpRequest(
@@ -89,33 +183,26 @@ export async function handleMcpHttpRequest(
   },
 ): Promise<boolean> {
   const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
-
-  if (!url.pathname.startsWith("/mcp")) {
+  if (
+    url.pathname !== MCP_PATH &&
+    url.pathname !== LEGACY_SSE_PATH &&
+    url.pathname !== LEGACY_MESSAGES_PATH
+  ) {
     return false;
   }
-
-  // Authenticate all MCP requests
-  const token = getBearerToken(req);
-  const authResult = await authorizeGatewayConnect({
-    auth: opts.auth,
-    connectAuth: token ? { token, password: token } : null,
-    req,
-    trustedProxies: opts.trustedProxies ?? loadConfig().gateway?.trustedProxies,
-    rateLimiter: opts.rateLimiter,
-  });
-  if (!authResult.ok) {
-    sendJson(res, 401, {
-      jsonrpc: "2.0",
-      id: null,
-      error: { code: -32001, message: "Unauthorized" },
-    });
-    return true;
+  const cfg = loadConfig();
+  if (cfg.gateway?.mcp?.enabled === false) {
+    return false;
   }
 
   // Set CORS headers so browser-based IDE extensions can call the MCP server
   res.setHeader("Access-Control-Allow-Origin", "*");
-  res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
-  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
+  res.setHeader(
+    "Access-Control-Allow-Headers",
+    "Content-Type, Authorization, Mcp-Session-Id, Mcp-Protocol-Version",
+  );
+  res.setHeader("Access-Control-Expose-Headers", "Mcp-Session-Id");
 
   if (req.method === "OPTIONS") {
     res.statusCode = 204;
@@ -123,144 +210,54 @@ export async function handleMcpHttpRequest(
     return true;
   }
 
-  // GET /mcp  →  manifest / initialize response
-  if (url.pathname === "/mcp" && req.method === "GET") {
-    sendJson(res, 200, buildManifest());
+  // Authenticate all MCP requests
+  const token = getBearerToken(req);
+  const authResult = await authorizeGatewayConnect({
+    auth: opts.auth,
+    connectAuth: token ? { token, password: token } : null,
+    req,
+    trustedProxies: opts.trustedProxies ?? cfg.gateway?.trustedProxies,
+    rateLimiter: opts.rateLimiter,
+  });
+  if (!authResult.ok) {
+    sendJson(res, 401, jsonRpcError(null, -32001, "Unauthorized"));
     return true;
   }
 
-  // POST /mcp  →  JSON-RPC 2.0 dispatch (MCP standard transport)
-  if (url.pathname === "/mcp" && req.method === "POST") {
-    const bodyUnknown = await readJsonBodyOrError(req, res, 512 * 1024);
-    if (bodyUnknown === undefined) {
-      return true;
-    }
-
-    const body = bodyUnknown as Record<string, unknown>;
-    const id = body.id ?? null;
-    const method = typeof body.method === "string" ? body.method : "";
-    const params = (body.params ?? {}) as Record<string, unknown>;
-
-    // MCP initialize
-    if (method === "initialize") {
-      sendJson(res, 200, {
-        jsonrpc: "2.0",
-        id,
-        result: buildManifest(),
-      });
-      return true;
-    }
-
-    // MCP tools/list
-    if (method === "tools/list") {
-      sendJson(res, 200, {
-        jsonrpc: "2.0",
-        id,
-        result: { tools: buildManifest().tools },
-      });
+  if (url.pathname === LEGACY_SSE_PATH) {
+    if (req.method !== "GET") {
+      sendMethodNotAllowed(res, "GET");
       return true;
     }
-
-    // MCP tools/call
-    if (method === "tools/call") {
-      const toolName = typeof params.name === "string" ? params.name : "";
-      const toolArgs = (params.arguments ?? params.args ?? {}) as Record<string, unknown>;
-
-      const tool = MCP_TOOLS.find((t) => t.name === toolName);
-      if (!tool) {
-        sendJson(res, 200, {
-          jsonrpc: "2.0",
-          id,
-          error: {
-            code: -32601,
-            message: `Tool not found: ${toolName}`,
-          },
-        });
-        return true;
-      }
-
-      try {
-        const result = await tool.execute(`mcp-${Date.now()}`, toolArgs as never);
-        const content =
-          typeof result.content === "string"
-            ? result.content
-            : JSON.stringify(result.content ?? result);
-
-        sendJson(res, 200, {
-          jsonrpc: "2.0",
-          id,
-          result: {
-            content: [{ type: "text", text: content }],
-            isError: false,
-          },
-        });
-      } catch (err) {
-        sendJson(res, 200, {
-          jsonrpc: "2.0",
-          id,
-          result: {
-            content: [
-              {
-                type: "text",
-                text: `Error: ${err instanceof Error ? err.message : String(err)}`,
-              },
-            ],
-            isError: true,
-          },
-        });
-      }
-      return true;
-    }
-
-    // Unknown method
-    sendJson(res, 200, {
-      jsonrpc: "2.0",
-      id,
-      error: { code: -32601, message: `Method not found: ${method}` },
-    });
+    handleLegacySseStream(req, res);
     return true;
   }
 
-  // Legacy REST: POST /mcp/call  (convenience endpoint for non-MCP clients)
-  if (url.pathname === "/mcp/call" && req.method === "POST") {
-    const bodyUnknown = await readJsonBodyOrError(req, res, 512 * 1024);
-    if (bodyUnknown === undefined) {
-      return true;
-    }
-
-    const body = bodyUnknown as Record<string, unknown>;
-    const toolName = typeof body.tool === "string" ? body.tool : "";
-    const toolArgs = (body.args ?? body.arguments ?? {}) as Record<string, unknown>;
-
-    if (!toolName) {
-      sendInvalidRequest(res, "body.tool is required");
-      return true;
-    }
-
-    const tool = MCP_TOOLS.find((t) => t.name === toolName);
-    if (!tool) {
-      sendJson(res, 404, { ok: false, error: `Tool not found: ${toolName}` });
+  if (url.pathname === LEGACY_MESSAGES_PATH) {
+    if (req.method !== "POST") {
+      sendMethodNotAllowed(res, "POST");
       return true;
     }
+    await handleLegacyMessage(req, res, url);
+    return true;
+  }
 
-    try {
-      const result = await tool.execute(`mcp-${Date.now()}`, toolArgs as never);
-      sendJson(res, 200, { ok: true, result: result.content ?? result });
-    } catch (err) {
-      sendJson(res, 500, {
-        ok: false,
-        error: err instanceof Error ? err.message : String(err),
-      });
-    }
+  if (req.method === "POST") {
+    await handleStreamablePost(req, res);
     return true;
   }
 
-  if (req.method !== "GET" && req.method !== "POST") {
-    sendMethodNotAllowed(res, "GET, POST");
+  if (req.method === "DELETE") {
+    const sessionId = getHeader(req, SESSION_HEADER)?.trim();
+    if (!sessionId || !sessions.delete(sessionId)) {
+      sendJson(res, 404, jsonRpcError(null, JSON_RPC_ERRORS.INVALID_REQUEST, "Session not found"));
+      return true;
+    }
+    res.statusCode = 204;
+    res.end();
     return true;
   }
 
-  // Unknown /mcp sub-path
-  sendJson(res, 404, { ok: false, error: "Unknown MCP endpoint" });
+  sendMethodNotAllowed(res, "POST, DELETE");
   return true;
 }
@@ -46,4 +46,31 @@ describe("cron protocol validators", () => {
     expect(validateCronRunsParams({ id: "job-1", limit: 0 })).toBe(false);
     expect(validateCronRunsParams({ jobId: "job-2", limit: 0 })).toBe(false);
   });
+
+  it("accepts a chain id for runs", () => {
+    expect(validateCronRunsParams({ chainId: "chain-1", limit: 10 })).toBe(true);
+    expect(validateCronRunsParams({ chainId: "" })).toBe(false);
+  });
+
+  it("accepts workflow payloads with links and a failure alert", () => {
+    expect(
+      validateCronAddParams({
+        ...minimalAddParams,
+        sessionTarget: "isolated",
+        payload: { kind: "workflow", workflow: "security-audit", description: "Audit src" },
+        onSuccess: ["job-2"],
+        onFailure: ["job-3"],
+        alert: { afterConsecutiveErrors: 3, delivery: { mode: "announce", channel: "slack" } },
+      }),
+    ).toBe(true);
+    expect(validateCronUpdateParams({ id: "job-1", patch: { alert: null, onSuccess: [] } })).toBe(
+      true,
+    );
+    expect(
+      validateCronAddParams({
+        ...minimalAddParams,
+        alert: { afterConsecutiveErrors: 0, delivery: { mode: "announce" } },
+      }),
+    ).toBe(false);
+  });
 });
@@ -174,6 +174,8 @@ import {
   SessionsDeleteParamsSchema,
   type SessionsListParams,
   SessionsListParamsSchema,
+  type SessionMcpServer,
+  SessionMcpServerSchema,
   type SessionsPatchParams,
   SessionsPatchParamsSchema,
   type SessionsPreviewParams,
@@ -227,6 +229,32 @@ import {
   WizardStatusResultSchema,
   type WizardStep,
   WizardStepSchema,
+  type WorkflowCancelParams,
+  WorkflowCancelParamsSchema,
+  type WorkflowCreateParams,
+  WorkflowCreateParamsSchema,
+  type WorkflowEvent,
+  WorkflowEventSchema,
+  type WorkflowGetParams,
+  WorkflowGetParamsSchema,
+  type WorkflowListParams,
+  WorkflowListParamsSchema,
+  type WorkflowResumeParams,
+  WorkflowResumeParamsSchema,
+  type WorkflowSummary,
+  type WorkflowTask,
+  type WorkflowUsage,
+  type StagedApplyParams,
+  StagedApplyParamsSchema,
+  type StagedApplyResult,
+  type StagedEditSummary,
+  type StagedListParams,
+  StagedListParamsSchema,
+  type ApprovalListParams,
+  ApprovalListParamsSchema,
+  type ApprovalRecord,
+  type ApprovalResolveParams,
+  ApprovalResolveParamsSchema,
 } from "./schema.js";
 
 const ajv = new (AjvPkg as unknown as new (opts?: object) => import("ajv").default)({
@@ -330,6 +358,23 @@ export const validateCronUpdateParams = ajv.compile<CronUpdateParams>(CronUpdate
 export const validateCronRemoveParams = ajv.compile<CronRemoveParams>(CronRemoveParamsSchema);
 export const validateCronRunParams = ajv.compile<CronRunParams>(CronRunParamsSchema);
 export const validateCronRunsParams = ajv.compile<CronRunsParams>(CronRunsParamsSchema);
+export const validateWorkflowListParams = ajv.compile<WorkflowListParams>(WorkflowListParamsSchema);
+export const validateWorkflowGetParams = ajv.compile<WorkflowGetParams>(WorkflowGetParamsSchema);
+export const validateWorkflowCreateParams = ajv.compile<WorkflowCreateParams>(
+  WorkflowCreateParamsSchema,
+);
+export const validateWorkflowCancelParams = ajv.compile<WorkflowCancelParams>(
+  WorkflowCancelParamsSchema,
+);
+export const validateWorkflowResumeParams = ajv.compile<WorkflowResumeParams>(
+  WorkflowResumeParamsSchema,
+);
+export const validateStagedListParams = ajv.compile<StagedListParams>(StagedListParamsSchema);
+export const validateStagedApplyParams = ajv.compile<StagedApplyParams>(StagedApplyParamsSchema);
+export const validateApprovalListParams = ajv.compile<ApprovalListParams>(ApprovalListParamsSchema);
+export const validateApprovalResolveParams = ajv.compile<ApprovalResolveParams>(
+  ApprovalResolveParamsSchema,
+);
 export const validateDevicePairListParams = ajv.compile<DevicePairListParams>(
   DevicePairListParamsSchema,
 );
@@ -443,6 +488,7 @@ export {
   NodeInvokeParamsSchema,
   SessionsListParamsSchema,
   SessionsPreviewParamsSchema,
+  SessionMcpServerSchema,
   SessionsPatchParamsSchema,
   SessionsResetParamsSchema,
   SessionsDeleteParamsSchema,
@@ -497,6 +543,16 @@ export {
   CronRemoveParamsSchema,
   CronRunParamsSchema,
   CronRunsParamsSchema,
+  WorkflowListParamsSchema,
+  WorkflowGetParamsSchema,
+  WorkflowCreateParamsSchema,
+  WorkflowCancelParamsSchema,
+  WorkflowResumeParamsSchema,
+  WorkflowEventSchema,
+  StagedListParamsSchema,
+  StagedApplyParamsSchema,
+  ApprovalListParamsSchema,
+  ApprovalResolveParamsSchema,
   LogsTailParamsSchema,
   LogsTailResultSchema,
   ChatHistoryParamsSchema,
@@ -588,6 +644,7 @@ export type {
   SessionsListParams,
   SessionsPreviewParams,
   SessionsResolveParams,
+  SessionMcpServer,
   SessionsPatchParams,
   SessionsPatchResult,
   SessionsResetParams,
@@ -603,6 +660,22 @@ export type {
   CronRunParams,
   CronRunsParams,
   CronRunLogEntry,
+  WorkflowListParams,
+  WorkflowGetParams,
+  WorkflowCreateParams,
+  WorkflowCancelParams,
+  WorkflowResumeParams,
+  WorkflowEvent,
+  WorkflowSummary,
+  WorkflowTask,
+  WorkflowUsage,
+  StagedListParams,
+  StagedApplyParams,
+  StagedApplyResult,
+  StagedEditSummary,
+  ApprovalRecord,
+  ApprovalListParams,
+  ApprovalResolveParams,
   ExecApprovalsGetParams,
   ExecApprovalsSetParams,
   ExecApprovalsSnapshot,
@@ -1,5 +1,6 @@
 export * from "./schema/agent.js";
 export * from "./schema/agents-models-skills.js";
+export * from "./schema/approvals.js";
 export * from "./schema/channels.js";
 export * from "./schema/config.js";
 export * from "./schema/cron.js";
@@ -13,5 +14,7 @@ export * from "./schema/protocol-schemas.js";
 export * from "./schema/push.js";
 export * from "./schema/sessions.js";
 export * from "./schema/snapshot.js";
+export * from "./schema/staged.js";
 export * from "./schema/types.js";
 export * from "./schema/wizard.js";
+export * from "./schema/workflows.js";
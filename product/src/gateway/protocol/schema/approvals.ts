@@ -0,0 +1,42 @@
+import { Type } from "@sinclair/typebox";
+import { NonEmptyString } from "./primitives.js";
+
+export const ApprovalStatusSchema = Type.Union([
+  Type.Literal("pending"),
+  Type.Literal("approved"),
+  Type.Literal("rejected"),
+  Type.Literal("expired"),
+]);
+
+/** Payload of `approval.requested` / `approval.resolved` and entries of `approval.list`. */
+export const ApprovalRecordSchema = Type.Object(
+  {
+    id: NonEmptyString,
+    actionType: Type.String(),
+    description: Type.String(),
+    metadata: Type.Optional(Type.Unknown()),
+    sessionKey: Type.Optional(Type.String()),
+    createdAtMs: Type.Integer({ minimum: 0 }),
+    expiresAtMs: Type.Integer({ minimum: 0 }),
+    status: ApprovalStatusSchema,
+    resolvedBy: Type.Optional(Type.String()),
+    resolvedAtMs: Type.Optional(Type.Integer({ minimum: 0 })),
+  },
+  { additionalProperties: false },
+);
+
+export const ApprovalListParamsSchema = Type.Object(
+  {
+    /** Also return recently decided or expired approvals. */
+    includeResolved: Type.Optional(Type.Boolean()),
+  },
+  { additionalProperties: false },
+);
+
+export const ApprovalResolveParamsSchema = Type.Object(
+  {
+    id: NonEmptyString,
+    decision: Type.Union([Type.Literal("approved"), Type.Literal("rejected")]),
+  },
+  { additionalProperties: false },
+);
@@ -19,6 +19,19 @@ function cronAgentTurnPayloadSchema(params: { message: TSchema }) {
   );
 }
 
+function cronWorkflowPayloadSchema(params: { workflow: TSchema; description: TSchema }) {
+  return Type.Object(
+    {
+      kind: Type.Literal("workflow"),
+      workflow: params.workflow,
+      description: params.description,
+      inputs: Type.Optional(Type.Record(Type.String(), Type.String())),
+      timeoutSeconds: Type.Optional(Type.Integer({ minimum: 0 })),
+    },
+    { additionalProperties: false },
+  );
+}
+
 const CronSessionTargetSchema = Type.Union([Type.Literal("main"), Type.Literal("isolated")]);
 const CronWakeModeSchema = Type.Union([Type.Literal("next-heartbeat"), Type.Literal("now")]);
 const CronCommonOptionalFields = {
@@ -84,6 +97,7 @@ export const CronPayloadSchema = Type.Union([
     { additionalProperties: false },
   ),
   cronAgentTurnPayloadSchema({ message: NonEmptyString }),
+  cronWorkflowPayloadSchema({ workflow: NonEmptyString, description: NonEmptyString }),
 ]);
 
 export const CronPayloadPatchSchema = Type.Union([
@@ -95,6 +109,10 @@ export const CronPayloadPatchSchema = Type.Union([
     { additionalProperties: false },
   ),
   cronAgentTurnPayloadSchema({ message: Type.Optional(NonEmptyString) }),
+  cronWorkflowPayloadSchema({
+    workflow: Type.Optional(NonEmptyString),
+    description: Type.Optional(NonEmptyString),
+  }),
 ]);
 
 const CronDeliverySharedProperties = {
@@ -146,6 +164,26 @@ export const CronDeliveryPatchSchema = Type.Object(
   { additionalProperties: false },
 );
 
+export const CronJobAlertSchema = Type.Object(
+  {
+    afterConsecutiveErrors: Type.Optional(Type.Integer({ minimum: 1 })),
+    delivery: CronDeliverySchema,
+  },
+  { additionalProperties: false },
+);
+
+export const CronChainLineageSchema = Type.Object(
+  {
+    chainId: NonEmptyString,
+    rootJobId: NonEmptyString,
+    parentJobId: Type.Optional(NonEmptyString),
+    depth: Type.Integer({ minimum: 0 }),
+  },
+  { additionalProperties: false },
+);
+
+const CronJobLinksSchema = Type.Array(NonEmptyString);
+
 export const CronJobStateSchema = Type.Object(
   {
     nextRunAtMs: Type.Optional(Type.Integer({ minimum: 0 })),
@@ -157,6 +195,7 @@ export const CronJobStateSchema = Type.Object(
     lastError: Type.Optional(Type.String()),
     lastDurationMs: Type.Optional(Type.Integer({ minimum: 0 })),
     consecutiveErrors: Type.Optional(Type.Integer({ minimum: 0 })),
+    pendingChain: Type.Optional(CronChainLineageSchema),
   },
   { additionalProperties: false },
 );
@@ -177,6 +216,9 @@ export const CronJobSchema = Type.Object(
     wakeMode: CronWakeModeSchema,
     payload: CronPayloadSchema,
     delivery: Type.Optional(CronDeliverySchema),
+    onSuccess: Type.Optional(CronJobLinksSchema),
+    onFailure: Type.Optional(CronJobLinksSchema),
+    alert: Type.Optional(CronJobAlertSchema),
     state: CronJobStateSchema,
   },
   { additionalProperties: false },
@@ -200,6 +242,9 @@ export const CronAddParamsSchema = Type.Object(
     wakeMode: CronWakeModeSchema,
     payload: CronPayloadSchema,
     delivery: Type.Optional(CronDeliverySchema),
+    onSuccess: Type.Optional(CronJobLinksSchema),
+    onFailure: Type.Optional(CronJobLinksSchema),
+    alert: Type.Optional(CronJobAlertSchema),
   },
   { additionalProperties: false },
 );
@@ -213,6 +258,9 @@ export const CronJobPatchSchema = Type.Object(
     wakeMode: Type.Optional(CronWakeModeSchema),
     payload: Type.Optional(CronPayloadPatchSchema),
     delivery: Type.Optional(CronDeliveryPatchSchema),
+    onSuccess: Type.Optional(CronJobLinksSchema),
+    onFailure: Type.Optional(CronJobLinksSchema),
+    alert: Type.Optional(Type.Union([CronJobAlertSchema, Type.Null()])),
     state: Type.Optional(Type.Partial(CronJobStateSchema)),
   },
   { additionalProperties: false },
@@ -228,9 +276,18 @@ export const CronRunParamsSchema = cronIdOrJobIdParams({
   mode: Type.Optional(Type.Union([Type.Literal("due"), Type.Literal("force")])),
 });
 
-export const CronRunsParamsSchema = cronIdOrJobIdParams({
-  limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 5000 })),
-});
+export const CronRunsParamsSchema = Type.Union([
+  cronIdOrJobIdParams({
+    limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 5000 })),
+  }),
+  Type.Object(
+    {
+      chainId: NonEmptyString,
+      limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 5000 })),
+    },
+    { additionalProperties: false },
+  ),
+]);
 
 export const CronRunLogEntrySchema = Type.Object(
   {
@@ -247,6 +304,7 @@ export const CronRunLogEntrySchema = Type.Object(
     runAtMs: Type.Optional(Type.Integer({ minimum: 0 })),
     durationMs: Type.Optional(Type.Integer({ minimum: 0 })),
     nextRunAtMs: Type.Optional(Type.Integer({ minimum: 0 })),
+    chain: Type.Optional(CronChainLineageSchema),
   },
   { additionalProperties: false },
 );
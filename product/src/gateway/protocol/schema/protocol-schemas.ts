@@ -35,6 +35,11 @@ import {
   SkillsStatusParamsSchema,
   SkillsUpdateParamsSchema,
 } from "./agents-models-skills.js";
+import {
+  ApprovalListParamsSchema,
+  ApprovalRecordSchema,
+  ApprovalResolveParamsSchema,
+} from "./approvals.js";
 import {
   ChannelsLogoutParamsSchema,
   TalkConfigParamsSchema,
@@ -120,6 +125,7 @@ import {
 } from "./nodes.js";
 import { PushTestParamsSchema, PushTestResultSchema } from "./push.js";
 import {
+  SessionMcpServerSchema,
   SessionsCompactParamsSchema,
   SessionsDeleteParamsSchema,
   SessionsListParamsSchema,
@@ -130,6 +136,14 @@ import {
   SessionsUsageParamsSchema,
 } from "./sessions.js";
 import { PresenceEntrySchema, SnapshotSchema, StateVersionSchema } from "./snapshot.js";
+import {
+  StagedApplyParamsSchema,
+  StagedApplyResultSchema,
+  StagedConflictSchema,
+  StagedEditSummarySchema,
+  StagedHunkSchema,
+  StagedListParamsSchema,
+} from "./staged.js";
 import {
   WizardCancelParamsSchema,
   WizardNextParamsSchema,
@@ -140,6 +154,18 @@ import {
   WizardStatusResultSchema,
   WizardStepSchema,
 } from "./wizard.js";
+import {
+  WorkflowCancelParamsSchema,
+  WorkflowCreateParamsSchema,
+  WorkflowEventSchema,
+  WorkflowGetParamsSchema,
+  WorkflowListParamsSchema,
+  WorkflowResumeParamsSchema,
+  WorkflowStepSchema,
+  WorkflowSummarySchema,
+  WorkflowTaskSchema,
+  WorkflowUsageSchema,
+} from "./workflows.js";
 
 export const ProtocolSchemas: Record<string, TSchema> = {
   ConnectParams: ConnectParamsSchema,
@@ -177,6 +203,7 @@ export const ProtocolSchemas: Record<string, TSchema> = {
   SessionsListParams: SessionsListParamsSchema,
   SessionsPreviewParams: SessionsPreviewParamsSchema,
   SessionsResolveParams: SessionsResolveParamsSchema,
+  SessionMcpServer: SessionMcpServerSchema,
   SessionsPatchParams: SessionsPatchParamsSchema,
   SessionsResetParams: SessionsResetParamsSchema,
   SessionsDeleteParams: SessionsDeleteParamsSchema,
@@ -262,6 +289,25 @@ export const ProtocolSchemas: Record<string, TSchema> = {
   UpdateRunParams: UpdateRunParamsSchema,
   TickEvent: TickEventSchema,
   ShutdownEvent: ShutdownEventSchema,
+  WorkflowStep: WorkflowStepSchema,
+  WorkflowUsage: WorkflowUsageSchema,
+  WorkflowTask: WorkflowTaskSchema,
+  WorkflowSummary: WorkflowSummarySchema,
+  WorkflowListParams: WorkflowListParamsSchema,
+  WorkflowGetParams: WorkflowGetParamsSchema,
+  WorkflowCreateParams: WorkflowCreateParamsSchema,
+  WorkflowCancelParams: WorkflowCancelParamsSchema,
+  WorkflowResumeParams: WorkflowResumeParamsSchema,
+  WorkflowEvent: WorkflowEventSchema,
+  StagedHunk: StagedHunkSchema,
+  StagedEditSummary: StagedEditSummarySchema,
+  StagedConflict: StagedConflictSchema,
+  StagedListParams: StagedListParamsSchema,
+  StagedApplyParams: StagedApplyParamsSchema,
+  StagedApplyResult: StagedApplyResultSchema,
+  ApprovalRecord: ApprovalRecordSchema,
+  ApprovalListParams: ApprovalListParamsSchema,
+  ApprovalResolveParams: ApprovalResolveParamsSchema,
 };
 
 export const PROTOCOL_VERSION = 3 as const;
@@ -47,6 +47,20 @@ export const SessionsResolveParamsSchema = Type.Object(
   { additionalProperties: false },
 );
 
+export const SessionMcpServerSchema = Type.Object(
+  {
+    name: NonEmptyString,
+    command: Type.Optional(NonEmptyString),
+    args: Type.Optional(Type.Array(Type.String())),
+    env: Type.Optional(Type.Record(Type.String(), Type.String())),
+    cwd: Type.Optional(NonEmptyString),
+    url: Type.Optional(NonEmptyString),
+    headers: Type.Optional(Type.Record(Type.String(), Type.String())),
+    timeoutMs: Type.Optional(Type.Integer({ minimum: 1 })),
+  },
+  { additionalProperties: false },
+);
+
 export const SessionsPatchParamsSchema = Type.Object(
   {
     key: NonEmptyString,
@@ -78,6 +92,7 @@ export const SessionsPatchParamsSchema = Type.Object(
     groupActivation: Type.Optional(
       Type.Union([Type.Literal("mention"), Type.Literal("always"), Type.Null()]),
     ),
+    mcpServers: Type.Optional(Type.Union([Type.Array(SessionMcpServerSchema), Type.Null()])),
   },
   { additionalProperties: false },
 );
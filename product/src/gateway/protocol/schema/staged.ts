@@ -0,0 +1,65 @@
+import { Type } from "@sinclair/typebox";
+import { NonEmptyString } from "./primitives.js";
+
+export const StagedHunkSchema = Type.Object(
+  {
+    index: Type.Integer({ minimum: 1 }),
+    originalStart: Type.Integer({ minimum: 1 }),
+    originalLines: Type.Array(Type.String()),
+    proposedStart: Type.Integer({ minimum: 1 }),
+    proposedLines: Type.Array(Type.String()),
+  },
+  { additionalProperties: false },
+);
+
+export const StagedEditSummarySchema = Type.Object(
+  {
+    path: NonEmptyString,
+    label: Type.String(),
+    isNew: Type.Boolean(),
+    stagedAt: Type.String(),
+    hunks: Type.Array(StagedHunkSchema),
+  },
+  { additionalProperties: false },
+);
+
+export const StagedConflictSchema = Type.Object(
+  {
+    line: Type.Integer({ minimum: 1 }),
+    base: Type.Array(Type.String()),
+    ours: Type.Array(Type.String()),
+    theirs: Type.Array(Type.String()),
+  },
+  { additionalProperties: false },
+);
+
+export const StagedListParamsSchema = Type.Object(
+  {
+    /** Agent whose workspace holds the staged edits (default: the default agent). */
+    agentId: Type.Optional(NonEmptyString),
+  },
+  { additionalProperties: false },
+);
+
+/** Accept or reject a file (optionally only some hunks), or every staged edit. */
+export const StagedApplyParamsSchema = Type.Object(
+  {
+    agentId: Type.Optional(NonEmptyString),
+    /** File to act on, absolute or relative to the workspace; omit for all staged edits. */
+    path: Type.Optional(NonEmptyString),
+    /** 1-based hunk numbers from `staged.list`; requires `path`. */
+    hunks: Type.Optional(Type.Array(Type.Integer({ minimum: 1 }), { minItems: 1 })),
+  },
+  { additionalProperties: false },
+);
+
+export const StagedApplyResultSchema = Type.Object(
+  {
+    path: NonEmptyString,
+    ok: Type.Boolean(),
+    remainingHunks: Type.Optional(Type.Integer({ minimum: 0 })),
+    error: Type.Optional(Type.String()),
+    conflicts: Type.Optional(Type.Array(StagedConflictSchema)),
+  },
+  { additionalProperties: false },
+);
@@ -33,6 +33,11 @@ import type {
   SkillsStatusParamsSchema,
   SkillsUpdateParamsSchema,
 } from "./agents-models-skills.js";
+import type {
+  ApprovalListParamsSchema,
+  ApprovalRecordSchema,
+  ApprovalResolveParamsSchema,
+} from "./approvals.js";
 import type {
   ChannelsLogoutParamsSchema,
   TalkConfigParamsSchema,
@@ -113,6 +118,7 @@ import type {
 } from "./nodes.js";
 import type { PushTestParamsSchema, PushTestResultSchema } from "./push.js";
 import type {
+  SessionMcpServerSchema,
   SessionsCompactParamsSchema,
   SessionsDeleteParamsSchema,
   SessionsListParamsSchema,
@@ -123,6 +129,14 @@ import type {
   SessionsUsageParamsSchema,
 } from "./sessions.js";
 import type { PresenceEntrySchema, SnapshotSchema, StateVersionSchema } from "./snapshot.js";
+import type {
+  StagedApplyParamsSchema,
+  StagedApplyResultSchema,
+  StagedConflictSchema,
+  StagedEditSummarySchema,
+  StagedHunkSchema,
+  StagedListParamsSchema,
+} from "./staged.js";
 import type {
   WizardCancelParamsSchema,
   WizardNextParamsSchema,
@@ -133,6 +147,18 @@ import type {
   WizardStatusResultSchema,
   WizardStepSchema,
 } from "./wizard.js";
+import type {
+  WorkflowCancelParamsSchema,
+  WorkflowCreateParamsSchema,
+  WorkflowEventSchema,
+  WorkflowGetParamsSchema,
+  WorkflowListParamsSchema,
+  WorkflowResumeParamsSchema,
+  WorkflowStepSchema,
+  WorkflowSummarySchema,
+  WorkflowTaskSchema,
+  WorkflowUsageSchema,
+} from "./workflows.js";
 
 export type ConnectParams = Static<typeof ConnectParamsSchema>;
 export type HelloOk = Static<typeof HelloOkSchema>;
@@ -166,6 +192,7 @@ export type PushTestResult = Static<typeof PushTestResultSchema>;
 export type SessionsListParams = Static<typeof SessionsListParamsSchema>;
 export type SessionsPreviewParams = Static<typeof SessionsPreviewParamsSchema>;
 export type SessionsResolveParams = Static<typeof SessionsResolveParamsSchema>;
+export type SessionMcpServer = Static<typeof SessionMcpServerSchema>;
 export type SessionsPatchParams = Static<typeof SessionsPatchParamsSchema>;
 export type SessionsResetParams = Static<typeof SessionsResetParamsSchema>;
 export type SessionsDeleteParams = Static<typeof SessionsDeleteParamsSchema>;
@@ -247,3 +274,22 @@ export type ChatEvent = Static<typeof ChatEventSchema>;
 export type UpdateRunParams = Static<typeof UpdateRunParamsSchema>;
 export type TickEvent = Static<typeof TickEventSchema>;
 export type ShutdownEvent = Static<typeof ShutdownEventSchema>;
+export type WorkflowStep = Static<typeof WorkflowStepSchema>;
+export type WorkflowUsage = Static<typeof WorkflowUsageSchema>;
+export type WorkflowTask = Static<typeof WorkflowTaskSchema>;
+export type WorkflowSummary = Static<typeof WorkflowSummarySchema>;
+export type WorkflowListParams = Static<typeof WorkflowListParamsSchema>;
+export type WorkflowGetParams = Static<typeof WorkflowGetParamsSchema>;
+export type WorkflowCreateParams = Static<typeof WorkflowCreateParamsSchema>;
+export type WorkflowCancelParams = Static<typeof WorkflowCancelParamsSchema>;
+export type WorkflowResumeParams = Static<typeof WorkflowResumeParamsSchema>;
+export type WorkflowEvent = Static<typeof WorkflowEventSchema>;
+export type StagedHunk = Static<typeof StagedHunkSchema>;
+export type StagedEditSummary = Static<typeof StagedEditSummarySchema>;
+export type StagedConflict = Static<typeof StagedConflictSchema>;
+export type StagedListParams = Static<typeof StagedListParamsSchema>;
+export type StagedApplyParams = Static<typeof StagedApplyParamsSchema>;
+export type StagedApplyResult = Static<typeof StagedApplyResultSchema>;
+export type ApprovalRecord = Static<typeof ApprovalRecordSchema>;
+export type ApprovalListParams = Static<typeof ApprovalListParamsSchema>;
+export type ApprovalResolveParams = Static<typeof ApprovalResolveParamsSchema>;
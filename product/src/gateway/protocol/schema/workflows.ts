@@ -0,0 +1,172 @@
+import { Type } from "@sinclair/typebox";
+import { NonEmptyString } from "./primitives.js";
+
+export const WorkflowTaskStatusSchema = Type.Union([
+  Type.Literal("pending"),
+  Type.Literal("running"),
+  Type.Literal("completed"),
+  Type.Literal("failed"),
+  Type.Literal("skipped"),
+  Type.Literal("cancelled"),
+]);
+
+export const WorkflowStepSchema = Type.Object(
+  {
+    id: Type.Optional(NonEmptyString),
+    role: NonEmptyString,
+    task: NonEmptyString,
+    dependsOn: Type.Optional(Type.Array(NonEmptyString)),
+    model: Type.Optional(NonEmptyString),
+    thinking: Type.Optional(NonEmptyString),
+    when: Type.Optional(
+      Type.Object(
+        {
+          step: NonEmptyString,
+          contains: Type.Optional(Type.String()),
+          notContains: Type.Optional(Type.String()),
+          matches: Type.Optional(Type.String()),
+        },
+        { additionalProperties: false },
+      ),
+    ),
+    loop: Type.Optional(
+      Type.Object(
+        {
+          to: NonEmptyString,
+          maxIterations: Type.Integer({ minimum: 1 }),
+        },
+        { additionalProperties: false },
+      ),
+    ),
+    approval: Type.Optional(
+      Type.Union([
+        Type.Boolean(),
+        Type.Object(
+          {
+            message: Type.Optional(Type.String()),
+            timeoutMs: Type.Optional(Type.Integer({ minimum: 1 })),
+          },
+          { additionalProperties: false },
+        ),
+      ]),
+    ),
+  },
+  { additionalProperties: false },
+);
+
+export const WorkflowUsageSchema = Type.Object(
+  {
+    inputTokens: Type.Integer({ minimum: 0 }),
+    outputTokens: Type.Integer({ minimum: 0 }),
+    totalTokens: Type.Integer({ minimum: 0 }),
+    costUsd: Type.Number({ minimum: 0 }),
+    model: Type.Optional(Type.String()),
+  },
+  { additionalProperties: false },
+);
+
+export const WorkflowTaskSchema = Type.Object(
+  {
+    id: NonEmptyString,
+    stepId: Type.Optional(Type.String()),
+    role: Type.String(),
+    description: Type.String(),
+    status: WorkflowTaskStatusSchema,
+    dependencies: Type.Array(Type.String()),
+    iteration: Type.Optional(Type.Integer({ minimum: 0 })),
+    output: Type.Optional(Type.String()),
+    error: Type.Optional(Type.String()),
+    model: Type.Optional(Type.String()),
+    branch: Type.Optional(Type.String()),
+    childSessionKey: Type.Optional(Type.String()),
+    usage: Type.Optional(WorkflowUsageSchema),
+    createdAt: Type.String(),
+    startedAt: Type.Optional(Type.String()),
+    completedAt: Type.Optional(Type.String()),
+  },
+  { additionalProperties: false },
+);
+
+export const WorkflowSummarySchema = Type.Object(
+  {
+    id: NonEmptyString,
+    type: Type.Optional(Type.String()),
+    status: WorkflowTaskStatusSchema,
+    createdAt: Type.String(),
+    branch: Type.Optional(Type.String()),
+    taskCount: Type.Integer({ minimum: 0 }),
+    taskStatus: Type.Record(Type.String(), Type.Integer({ minimum: 0 })),
+    usage: Type.Optional(WorkflowUsageSchema),
+    pausedReason: Type.Optional(Type.String()),
+  },
+  { additionalProperties: false },
+);
+
+export const WorkflowListParamsSchema = Type.Object(
+  {
+    activeOnly: Type.Optional(Type.Boolean()),
+  },
+  { additionalProperties: false },
+);
+
+export const WorkflowGetParamsSchema = Type.Object(
+  {
+    id: NonEmptyString,
+    includeOutput: Type.Optional(Type.Boolean()),
+  },
+  { additionalProperties: false },
+);
+
+export const WorkflowCreateParamsSchema = Type.Object(
+  {
+    workflow: NonEmptyString,
+    description: Type.String(),
+    steps: Type.Optional(Type.Array(WorkflowStepSchema, { minItems: 1 })),
+    inputs: Type.Optional(Type.Record(Type.String(), Type.String())),
+    /** Start executing immediately (default true). */
+    start: Type.Optional(Type.Boolean()),
+    /** Session that sub-agent runs are attributed to (default: the main session). */
+    sessionKey: Type.Optional(NonEmptyString),
+  },
+  { additionalProperties: false },
+);
+
+export const WorkflowCancelParamsSchema = Type.Object(
+  {
+    id: NonEmptyString,
+  },
+  { additionalProperties: false },
+);
+
+export const WorkflowResumeParamsSchema = Type.Object(
+  {
+    id: NonEmptyString,
+    retryFailed: Type.Optional(Type.Boolean()),
+    sessionKey: Type.Optional(NonEmptyString),
+  },
+  { additionalProperties: false },
+);
+
+export const WorkflowEventSchema = Type.Object(
+  {
+    workflowId: NonEmptyString,
+    status: WorkflowTaskStatusSchema,
+    type: Type.Optional(Type.String()),
+    ts: Type.Integer({ minimum: 0 }),
+    task: Type.Optional(
+      Type.Object(
+        {
+          id: NonEmptyString,
+          stepId: Type.Optional(Type.String()),
+          agentRole: Type.String(),
+          status: WorkflowTaskStatusSchema,
+          previousStatus: WorkflowTaskStatusSchema,
+          iteration: Type.Optional(Type.Integer({ minimum: 0 })),
+          error: Type.Optional(Type.String()),
+        },
+        { additionalProperties: false },
+      ),
+    ),
+  },
+  { additionalProperties: false },
+);
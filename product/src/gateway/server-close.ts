@@ -1,9 +1,11 @@
 import type { Server as HttpServer } from "node:http";
 import type { WebSocketServer } from "ws";
+import { closeMcpClients } from "../agents/mcp-tools.js";
 import type { CanvasHostHandler, CanvasHostServer } from "../canvas-host/server.js";
 import { type ChannelId, listChannelPlugins } from "../channels/plugins/index.js";
 import { stopGmailWatcher } from "../hooks/gmail-watcher.js";
 import type { HeartbeatRunner } from "../infra/heartbeat-runner.js";
+import { closeLspClients } from "../lsp/servers.js";
 import type { PluginServicesHandle } from "../plugins/services.js";
 
 export function createGatewayCloseHandler(params: {
@@ -22,6 +24,8 @@ export function createGatewayCloseHandler(params: {
   dedupeCleanup: ReturnType<typeof setInterval>;
   agentUnsub: (() => void) | null;
   heartbeatUnsub: (() => void) | null;
+  workflowUnsub: (() => void) | null;
+  approvalsUnsub: (() => void) | null;
   chatRunState: { clear: () => void };
   clients: Set<{ socket: { close: (code: number, reason: string) => void } }>;
   configReloader: { stop: () => Promise<void> };
@@ -68,6 +72,9 @@ export function createGatewayCloseHandler(params: {
       await params.pluginServices.stop().catch(() => {});
     }
     await stopGmailWatcher();
+    // Pooled stdio MCP and language servers are child processes; stop them with the gateway.
+    await closeMcpClients().catch(() => {});
+    await closeLspClients().catch(() => {});
     params.cron.stop();
     params.heartbeatRunner.stop();
     for (const timer of params.nodePresenceTimers.values()) {
@@ -95,6 +102,20 @@ export function createGatewayCloseHandler(params: {
         /* ignore */
       }
     }
+    if (params.workflowUnsub) {
+      try {
+        params.workflowUnsub();
+      } catch {
+        /* ignore */
+      }
+    }
+    if (params.approvalsUnsub) {
+      try {
+        params.approvalsUnsub();
+      } catch {
+        /* ignore */
+      }
+    }
     params.chatRunState.clear();
     for (const c of params.clients) {
       try {
@@ -1,5 +1,7 @@
 import { resolveDefaultAgentId } from "../agents/agent-scope.js";
 import type { CliDeps } from "../cli/deps.js";
+import { createOutboundSendDeps } from "../cli/outbound-send-deps.js";
+import { globalOrchestrator } from "../coderclaw/orchestrator.js";
 import { loadConfig } from "../config/config.js";
 import {
   canonicalizeMainSessionAlias,
@@ -8,6 +10,7 @@ import {
 } from "../config/sessions.js";
 import { resolveStorePath } from "../config/sessions/paths.js";
 import { runCronIsolatedAgentTurn } from "../cron/isolated-agent.js";
+import { resolveDeliveryTarget } from "../cron/isolated-agent/delivery-target.js";
 import { appendCronRunLog, resolveCronRunLogPath } from "../cron/run-log.js";
 import { CronService } from "../cron/service.js";
 import { resolveCronStorePath } from "../cron/store.js";
@@ -17,6 +20,7 @@ import { runHeartbeatOnce } from "../infra/heartbeat-runner.js";
 import { requestHeartbeatNow } from "../infra/heartbeat-wake.js";
 import { fetchWithSsrFGuard } from "../infra/net/fetch-guard.js";
 import { SsrFBlockedError } from "../infra/net/ssrf.js";
+import { deliverOutboundPayloads } from "../infra/outbound/deliver.js";
 import { enqueueSystemEvent } from "../infra/system-events.js";
 import { getChildLogger } from "../logging.js";
 import { normalizeAgentId, toAgentStoreSessionKey } from "../routing/session-key.js";
@@ -65,6 +69,63 @@ function resolveCronWebhookTarget(params: {
   return null;
 }
 
+type CronLogger = ReturnType<typeof getChildLogger>;
+
+/** POST a JSON body to a cron webhook. Failures are logged, never thrown. */
+async function postCronWebhook(params: {
+  url: string;
+  body: unknown;
+  webhookToken?: string;
+  jobId: string;
+  logger: CronLogger;
+}): Promise<void> {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  };
+  if (params.webhookToken) {
+    headers.Authorization = `Bearer ${params.webhookToken}`;
+  }
+  const abortController = new AbortController();
+  const timeout = setTimeout(() => {
+    abortController.abort();
+  }, CRON_WEBHOOK_TIMEOUT_MS);
+
+  try {
+    const result = await fetchWithSsrFGuard({
+      url: params.url,
+      init: {
+        method: "POST",
+        headers,
+        body: JSON.stringify(params.body),
+        signal: abortController.signal,
+      },
+    });
+    await result.release();
+  } catch (err) {
+    if (err instanceof SsrFBlockedError) {
+      params.logger.warn(
+        {
+          reason: formatErrorMessage(err),
+          jobId: params.jobId,
+          webhookUrl: redactWebhookUrl(params.url),
+        },
+        "cron: webhook delivery blocked by SSRF guard",
+      );
+    } else {
+      params.logger.warn(
+        {
+          err: formatErrorMessage(err),
+          jobId: params.jobId,
+          webhookUrl: redactWebhookUrl(params.url),
+        },
+        "cron: webhook delivery failed",
+      );
+    }
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
 export function buildGatewayCronService(params: {
   cfg: ReturnType<typeof loadConfig>;
   deps: CliDeps;
@@ -197,6 +258,83 @@ export function buildGatewayCronService(params: {
         lane: "cron",
       });
     },
+    runWorkflowJob: async ({ job, payload, abortSignal }) => {
+      const steps = globalOrchestrator.resolveWorkflowSteps(
+        payload.workflow,
+        payload.description,
+        payload.inputs,
+      );
+      if (!steps) {
+        return { status: "error", error: `unknown workflow type: ${payload.workflow}` };
+      }
+      const workflow = globalOrchestrator.createWorkflow(steps, { type: payload.workflow });
+      const { agentId, cfg: runtimeConfig } = resolveCronAgent(job.agentId);
+      // The cron timer stops waiting on timeout; cancel so no further tasks start.
+      const cancel = () => globalOrchestrator.cancelWorkflow(workflow.id);
+      abortSignal?.addEventListener("abort", cancel, { once: true });
+      try {
+        await globalOrchestrator.executeWorkflow(workflow.id, {
+          agentSessionKey: resolveCronSessionKey({
+            runtimeConfig,
+            agentId,
+            requestedSessionKey: job.sessionKey,
+          }),
+        });
+      } finally {
+        abortSignal?.removeEventListener("abort", cancel);
+      }
+      const tasks = [...workflow.tasks.values()];
+      const completed = tasks.filter((task) => task.status === "completed").length;
+      const status = workflow.pausedReason ? "paused" : workflow.status;
+      const summary = `${payload.workflow} workflow ${workflow.id} ${status} (${completed}/${tasks.length} tasks completed)`;
+      if (workflow.status === "failed" || workflow.status === "cancelled") {
+        const failed = tasks.find((task) => task.status === "failed");
+        return { status: "error", error: failed?.error ?? `workflow ${status}`, summary };
+      }
+      return { status: "ok", summary };
+    },
+    sendAlert: async ({ job, delivery, text }) => {
+      if (delivery.mode === "webhook") {
+        const url = normalizeHttpWebhookUrl(delivery.to);
+        if (!url) {
+          throw new Error("alert delivery.to must be a valid http(s) URL");
+        }
+        await postCronWebhook({
+          url,
+          body: { jobId: job.id, action: "alert", text, state: job.state },
+          webhookToken: params.cfg.cron?.webhookToken?.trim(),
+          jobId: job.id,
+          logger: cronLogger,
+        });
+        return;
+      }
+      if (delivery.mode !== "announce") {
+        return;
+      }
+      const { agentId, cfg: runtimeConfig } = resolveCronAgent(job.agentId);
+      const target = await resolveDeliveryTarget(runtimeConfig, agentId, {
+        channel: delivery.channel ?? "last",
+        to: delivery.to,
+        sessionKey: job.sessionKey,
+      });
+      if (target.error) {
+        throw target.error;
+      }
+      if (!target.to) {
+        throw new Error(`no alert recipient resolved for channel ${target.channel}`);
+      }
+      await deliverOutboundPayloads({
+        cfg: runtimeConfig,
+        channel: target.channel,
+        to: target.to,
+        accountId: target.accountId,
+        threadId: target.threadId,
+        payloads: [{ text }],
+        agentId,
+        bestEffort: delivery.bestEffort,
+        deps: createOutboundSendDeps(params.deps),
+      });
+    },
     log: getChildLogger({ module: "cron", storePath }),
     onEvent: (evt) => {
       params.broadcast("cron", evt, { dropIfSlow: true });
@@ -236,53 +374,13 @@ export function buildGatewayCronService(params: {
         }
 
         if (webhookTarget && evt.summary) {
-          const headers: Record<string, string> = {
-            "Content-Type": "application/json",
-          };
-          if (webhookToken) {
-            headers.Authorization = `Bearer ${webhookToken}`;
-          }
-          const abortController = new AbortController();
-          const timeout = setTimeout(() => {
-            abortController.abort();
-          }, CRON_WEBHOOK_TIMEOUT_MS);
-
-          void (async () => {
-            try {
-              const result = await fetchWithSsrFGuard({
-                url: webhookTarget.url,
-                init: {
-                  method: "POST",
-                  headers,
-                  body: JSON.stringify(evt),
-                  signal: abortController.signal,
-                },
-              });
-              await result.release();
-            } catch (err) {
-              if (err instanceof SsrFBlockedError) {
-                cronLogger.warn(
-                  {
-                    reason: formatErrorMessage(err),
-                    jobId: evt.jobId,
-                    webhookUrl: redactWebhookUrl(webhookTarget.url),
-                  },
-                  "cron: webhook delivery blocked by SSRF guard",
-                );
-              } else {
-                cronLogger.warn(
-                  {
-                    err: formatErrorMessage(err),
-                    jobId: evt.jobId,
-                    webhookUrl: redactWebhookUrl(webhookTarget.url),
-                  },
-                  "cron: webhook delivery failed",
-                );
-              }
-            } finally {
-              clearTimeout(timeout);
-            }
-          })();
+          void postCronWebhook({
+            url: webhookTarget.url,
+            body: evt,
+            webhookToken,
+            jobId: evt.jobId,
+            logger: cronLogger,
+          });
         }
         const logPath = resolveCronRunLogPath({
           storePath,
@@ -300,6 +398,7 @@ export function buildGatewayCronService(params: {
           runAtMs: evt.runAtMs,
           durationMs: evt.durationMs,
           nextRunAtMs: evt.nextRunAtMs,
+          chain: evt.chain,
           model: evt.model,
           provider: evt.provider,
           usage: evt.usage,
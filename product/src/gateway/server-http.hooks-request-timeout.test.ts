@@ -72,6 +72,7 @@ describe("createHooksRequestHandler timeout status mapping", () => {
     readJsonBodyMock.mockResolvedValue({ ok: false, error: "request body timeout" });
     const dispatchWakeHook = vi.fn();
     const dispatchAgentHook = vi.fn(() => "run-1");
+    const dispatchWorkflowHook = vi.fn(() => ({ ok: true as const, workflowId: "wf-1" }));
     const handler = createHooksRequestHandler({
       getHooksConfig: () => createHooksConfig(),
       bindHost: "127.0.0.1",
@@ -84,6 +85,7 @@ describe("createHooksRequestHandler timeout status mapping", () => {
       } as unknown as ReturnType<typeof createSubsystemLogger>,
       dispatchWakeHook,
       dispatchAgentHook,
+      dispatchWorkflowHook,
     });
     const req = createRequest();
     const { res, end } = createResponse();
@@ -0,0 +1,171 @@
+import { createHmac } from "node:crypto";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { beforeEach, describe, expect, test, vi } from "vitest";
+import type { createSubsystemLogger } from "../logging/subsystem.js";
+import { resolveHookMappings } from "./hooks-mapping.js";
+import type { HooksConfigResolved } from "./hooks.js";
+
+const { readJsonBodyMock } = vi.hoisted(() => ({
+  readJsonBodyMock: vi.fn(),
+}));
+
+vi.mock("./hooks.js", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("./hooks.js")>();
+  return {
+    ...actual,
+    readJsonBody: readJsonBodyMock,
+  };
+});
+
+import { createHooksRequestHandler } from "./server-http.js";
+
+const WEBHOOK_SECRET = "forge-secret";
+
+function createHooksConfig(): HooksConfigResolved {
+  return {
+    basePath: "/hooks",
+    token: "hook-secret",
+    maxBodyBytes: 1024,
+    mappings: resolveHookMappings({
+      mappings: [
+        {
+          match: {
+            path: "github",
+            headers: { "x-github-event": "pull_request" },
+            payload: { action: "opened" },
+          },
+          action: "workflow",
+          workflow: "adversarial",
+          descriptionTemplate: "PR #{{pull_request.number}}: {{pull_request.title}}",
+          signature: { preset: "github", secret: WEBHOOK_SECRET },
+        },
+      ],
+    }),
+    agentPolicy: {
+      defaultAgentId: "main",
+      knownAgentIds: new Set(["main"]),
+      allowedAgentIds: undefined,
+    },
+    sessionPolicy: {
+      allowRequestSessionKey: false,
+      defaultSessionKey: undefined,
+      allowedSessionKeyPrefixes: undefined,
+    },
+  };
+}
+
+function createRequest(headers: Record<string, string>): IncomingMessage {
+  return {
+    method: "POST",
+    url: "/hooks/github",
+    headers: { host: "127.0.0.1:18789", ...headers },
+    socket: { remoteAddress: "127.0.0.1" },
+  } as unknown as IncomingMessage;
+}
+
+function createResponse(): { res: ServerResponse; end: ReturnType<typeof vi.fn> } {
+  const end = vi.fn();
+  const res = {
+    statusCode: 200,
+    setHeader: vi.fn(),
+    end,
+  } as unknown as ServerResponse;
+  return { res, end };
+}
+
+function sign(raw: string): string {
+  return `sha256=${createHmac("sha256", WEBHOOK_SECRET).update(raw).digest("hex")}`;
+}
+
+describe("createHooksRequestHandler signed mappings", () => {
+  const payload = { action: "opened", pull_request: { number: 12, title: "Add caching" } };
+  const raw = JSON.stringify(payload);
+  const dispatchWorkflowHook = vi.fn(
+    (): { ok: true; workflowId: string } | { ok: false; error: string } => ({
+      ok: true,
+      workflowId: "wf-1",
+    }),
+  );
+  const handler = createHooksRequestHandler({
+    getHooksConfig: () => createHooksConfig(),
+    bindHost: "127.0.0.1",
+    port: 18789,
+    logHooks: {
+      warn: vi.fn(),
+      debug: vi.fn(),
+      info: vi.fn(),
+      error: vi.fn(),
+    } as unknown as ReturnType<typeof createSubsystemLogger>,
+    dispatchWakeHook: vi.fn(),
+    dispatchAgentHook: vi.fn(() => "run-1"),
+    dispatchWorkflowHook,
+  });
+
+  beforeEach(() => {
+    readJsonBodyMock.mockReset();
+    readJsonBodyMock.mockResolvedValue({ ok: true, value: payload, raw });
+    dispatchWorkflowHook.mockClear();
+  });
+
+  test("starts the workflow once per delivery without the hooks token", async () => {
+    const headers = {
+      "x-github-event": "pull_request",
+      "x-github-delivery": "delivery-1",
+      "x-hub-signature-256": sign(raw),
+    };
+
+    const first = createResponse();
+    await handler(createRequest(headers), first.res);
+    expect(first.res.statusCode).toBe(202);
+    expect(first.end).toHaveBeenCalledWith(JSON.stringify({ ok: true, workflowId: "wf-1" }));
+    expect(readJsonBodyMock).toHaveBeenCalledWith(expect.anything(), 1024, { includeRaw: true });
+    expect(dispatchWorkflowHook).toHaveBeenCalledWith({
+      workflow: "adversarial",
+      description: "PR #12: Add caching",
+      inputs: undefined,
+      name: "Hook",
+      allowUnsafeExternalContent: undefined,
+    });
+
+    const redelivery = createResponse();
+    await handler(createRequest(headers), redelivery.res);
+    expect(redelivery.res.statusCode).toBe(200);
+    expect(redelivery.end).toHaveBeenCalledWith(
+      JSON.stringify({ ok: true, duplicate: true, deliveryId: "delivery-1" }),
+    );
+    expect(dispatchWorkflowHook).toHaveBeenCalledTimes(1);
+  });
+
+  test("dispatches a redelivery again when the first dispatch failed", async () => {
+    const headers = {
+      "x-github-event": "pull_request",
+      "x-github-delivery": "delivery-3",
+      "x-hub-signature-256": sign(raw),
+    };
+    dispatchWorkflowHook.mockReturnValueOnce({ ok: false, error: "invalid workflow: bad step" });
+
+    const first = createResponse();
+    await handler(createRequest(headers), first.res);
+    expect(first.res.statusCode).toBe(400);
+
+    const retry = createResponse();
+    await handler(createRequest(headers), retry.res);
+    expect(retry.res.statusCode).toBe(202);
+    expect(retry.end).toHaveBeenCalledWith(JSON.stringify({ ok: true, workflowId: "wf-1" }));
+    expect(dispatchWorkflowHook).toHaveBeenCalledTimes(2);
+  });
+
+  test("rejects a bad signature", async () => {
+    const { res } = createResponse();
+    await handler(
+      createRequest({
+        "x-github-event": "pull_request",
+        "x-github-delivery": "delivery-2",
+        "x-hub-signature-256": sign(`${raw} `),
+      }),
+      res,
+    );
+    expect(res.statusCode).toBe(401);
+    expect(dispatchWorkflowHook).not.toHaveBeenCalled();
+  });
+});
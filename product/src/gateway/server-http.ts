@@ -16,6 +16,7 @@ import {
 } from "../canvas-host/a2ui.js";
 import type { CanvasHostHandler } from "../canvas-host/server.js";
 import { loadConfig } from "../config/config.js";
+import { createDedupeCache } from "../infra/dedupe.js";
 import type { createSubsystemLogger } from "../logging/subsystem.js";
 import { safeEqualSecret } from "../security/secret-equal.js";
 import { handleSlackHttpRequest } from "../slack/http/index.js";
@@ -31,7 +32,8 @@ import {
   handleControlUiHttpRequest,
   type ControlUiRootState,
 } from "./control-ui.js";
-import { applyHookMappings } from "./hooks-mapping.js";
+import { applyHookMappings, resolveSignedHookMappings } from "./hooks-mapping.js";
+import { verifyHookSignature } from "./hooks-signature.js";
 import {
   extractHookToken,
   getHookAgentPolicyError,
@@ -63,6 +65,9 @@ type HookAuthFailure = { count: number; windowStartedAtMs: number };
 const HOOK_AUTH_FAILURE_LIMIT = 20;
 const HOOK_AUTH_FAILURE_WINDOW_MS = 60_000;
 const HOOK_AUTH_FAILURE_TRACK_MAX = 2048;
+// Forges retry failed deliveries for hours and allow manual redelivery later.
+const HOOK_DELIVERY_TTL_MS = 24 * 60 * 60_000;
+const HOOK_DELIVERY_TRACK_MAX = 5000;
 
 type HookDispatchers = {
   dispatchWakeHook: (value: { text: string; mode: "now" | "next-heartbeat" }) => void;
@@ -80,6 +85,13 @@ type HookDispatchers = {
     timeoutSeconds?: number;
     allowUnsafeExternalContent?: boolean;
   }) => string;
+  dispatchWorkflowHook: (value: {
+    workflow: string;
+    description: string;
+    inputs?: Record<string, string>;
+    name: string;
+    allowUnsafeExternalContent?: boolean;
+  }) => { ok: true; workflowId: string } | { ok: false; error: string };
 };
 
 function sendJson(res: ServerResponse, status: number, body: unknown) {
@@ -196,8 +208,20 @@ export function createHooksRequestHandler(
     logHooks: SubsystemLogger;
   } & HookDispatchers,
 ): HooksRequestHandler {
-  const { getHooksConfig, bindHost, port, logHooks, dispatchAgentHook, dispatchWakeHook } = opts;
+  const {
+    getHooksConfig,
+    bindHost,
+    port,
+    logHooks,
+    dispatchAgentHook,
+    dispatchWakeHook,
+    dispatchWorkflowHook,
+  } = opts;
   const hookAuthFailures = new Map<string, HookAuthFailure>();
+  const hookDeliveries = createDedupeCache({
+    ttlMs: HOOK_DELIVERY_TTL_MS,
+    maxSize: HOOK_DELIVERY_TRACK_MAX,
+  });
 
   const resolveHookClientKey = (req: IncomingMessage): string => {
     return req.socket?.remoteAddress?.trim() || "unknown";
@@ -251,6 +275,39 @@ export function createHooksRequestHandler(
     hookAuthFailures.delete(clientKey);
   };
 
+  const rejectHookAuth = (res: ServerResponse, clientKey: string) => {
+    const throttle = recordHookAuthFailure(clientKey, Date.now());
+    if (throttle.throttled) {
+      const retryAfter = throttle.retryAfterSeconds ?? 1;
+      res.statusCode = 429;
+      res.setHeader("Retry-After", String(retryAfter));
+      res.setHeader("Content-Type", "text/plain; charset=utf-8");
+      res.end("Too Many Requests");
+      logHooks.warn(`hook auth throttled for ${clientKey}; retry-after=${retryAfter}s`);
+      return;
+    }
+    res.statusCode = 401;
+    res.setHeader("Content-Type", "text/plain; charset=utf-8");
+    res.end("Unauthorized");
+  };
+
+  /**
+   * Answer a redelivered event without dispatching it again. Deliveries are
+   * recorded (`recordDelivery`) only once dispatched, so a forge retry after a
+   * failed dispatch runs again.
+   */
+  const skipDuplicateDelivery = (res: ServerResponse, deliveryId: string | undefined) => {
+    if (!deliveryId || !hookDeliveries.peek(deliveryId)) {
+      return false;
+    }
+    logHooks.info(`hook delivery ${deliveryId} already handled; skipping`);
+    sendJson(res, 200, { ok: true, duplicate: true, deliveryId });
+    return true;
+  };
+  const recordDelivery = (deliveryId: string | undefined) => {
+    hookDeliveries.check(deliveryId);
+  };
+
   return async (req, res) => {
     const hooksConfig = getHooksConfig();
     if (!hooksConfig) {
@@ -273,23 +330,20 @@ export function createHooksRequestHandler(
 
     const token = extractHookToken(req);
     const clientKey = resolveHookClientKey(req);
-    if (!safeEqualSecret(token, hooksConfig.token)) {
-      const throttle = recordHookAuthFailure(clientKey, Date.now());
-      if (throttle.throttled) {
-        const retryAfter = throttle.retryAfterSeconds ?? 1;
-        res.statusCode = 429;
-        res.setHeader("Retry-After", String(retryAfter));
-        res.setHeader("Content-Type", "text/plain; charset=utf-8");
-        res.end("Too Many Requests");
-        logHooks.warn(`hook auth throttled for ${clientKey}; retry-after=${retryAfter}s`);
-        return true;
-      }
-      res.statusCode = 401;
-      res.setHeader("Content-Type", "text/plain; charset=utf-8");
-      res.end("Unauthorized");
+    const subPath = url.pathname.slice(basePath.length).replace(/^\/+/, "");
+    const tokenAuthorized = safeEqualSecret(token, hooksConfig.token);
+    // Forges cannot send the hooks token; signed mappings accept a valid signature instead,
+    // which can only be checked once the body is read.
+    const signedMappings = tokenAuthorized
+      ? []
+      : resolveSignedHookMappings(hooksConfig.mappings, subPath);
+    if (!tokenAuthorized && signedMappings.length === 0) {
+      rejectHookAuth(res, clientKey);
       return true;
     }
-    clearHookAuthFailure(clientKey);
+    if (tokenAuthorized) {
+      clearHookAuthFailure(clientKey);
+    }
 
     if (req.method !== "POST") {
       res.statusCode = 405;
@@ -299,7 +353,6 @@ export function createHooksRequestHandler(
       return true;
     }
 
-    const subPath = url.pathname.slice(basePath.length).replace(/^\/+/, "");
     if (!subPath) {
       res.statusCode = 404;
       res.setHeader("Content-Type", "text/plain; charset=utf-8");
@@ -307,7 +360,9 @@ export function createHooksRequestHandler(
       return true;
     }
 
-    const body = await readJsonBody(req, hooksConfig.maxBodyBytes);
+    const body = await readJsonBody(req, hooksConfig.maxBodyBytes, {
+      includeRaw: signedMappings.length > 0,
+    });
     if (!body.ok) {
       const status =
         body.error === "payload too large"
@@ -322,7 +377,20 @@ export function createHooksRequestHandler(
     const payload = typeof body.value === "object" && body.value !== null ? body.value : {};
     const headers = normalizeHookHeaders(req);
 
-    if (subPath === "wake") {
+    let mappings = hooksConfig.mappings;
+    if (!tokenAuthorized) {
+      mappings = signedMappings.filter(
+        (mapping) =>
+          mapping.signature && verifyHookSignature(mapping.signature, headers, body.raw ?? ""),
+      );
+      if (mappings.length === 0) {
+        rejectHookAuth(res, clientKey);
+        return true;
+      }
+      clearHookAuthFailure(clientKey);
+    }
+
+    if (tokenAuthorized && subPath === "wake") {
       const normalized = normalizeWakePayload(payload as Record<string, unknown>);
       if (!normalized.ok) {
         sendJson(res, 400, { ok: false, error: normalized.error });
@@ -333,7 +401,7 @@ export function createHooksRequestHandler(
       return true;
     }
 
-    if (subPath === "agent") {
+    if (tokenAuthorized && subPath === "agent") {
       const normalized = normalizeAgentPayload(payload as Record<string, unknown>);
       if (!normalized.ok) {
         sendJson(res, 400, { ok: false, error: normalized.error });
@@ -361,9 +429,9 @@ export function createHooksRequestHandler(
       return true;
     }
 
-    if (hooksConfig.mappings.length > 0) {
+    if (mappings.length > 0) {
       try {
-        const mapped = await applyHookMappings(hooksConfig.mappings, {
+        const mapped = await applyHookMappings(mappings, {
           payload: payload as Record<string, unknown>,
           headers,
           url,
@@ -380,13 +448,36 @@ export function createHooksRequestHandler(
             return true;
           }
           if (mapped.action.kind === "wake") {
+            if (skipDuplicateDelivery(res, mapped.deliveryId)) {
+              return true;
+            }
             dispatchWakeHook({
               text: mapped.action.text,
               mode: mapped.action.mode,
             });
+            recordDelivery(mapped.deliveryId);
             sendJson(res, 200, { ok: true, mode: mapped.action.mode });
             return true;
           }
+          if (mapped.action.kind === "workflow") {
+            if (skipDuplicateDelivery(res, mapped.deliveryId)) {
+              return true;
+            }
+            const started = dispatchWorkflowHook({
+              workflow: mapped.action.workflow,
+              description: mapped.action.description,
+              inputs: mapped.action.inputs,
+              name: mapped.action.name ?? "Hook",
+              allowUnsafeExternalContent: mapped.action.allowUnsafeExternalContent,
+            });
+            if (!started.ok) {
+              sendJson(res, 400, { ok: false, error: started.error });
+              return true;
+            }
+            recordDelivery(mapped.deliveryId);
+            sendJson(res, 202, { ok: true, workflowId: started.workflowId });
+            return true;
+          }
           const channel = resolveHookChannel(mapped.action.channel);
           if (!channel) {
             sendJson(res, 400, { ok: false, error: getHookChannelError() });
@@ -405,6 +496,9 @@ export function createHooksRequestHandler(
             sendJson(res, 400, { ok: false, error: sessionKey.error });
             return true;
           }
+          if (skipDuplicateDelivery(res, mapped.deliveryId)) {
+            return true;
+          }
           const runId = dispatchAgentHook({
             message: mapped.action.message,
             name: mapped.action.name ?? "Hook",
@@ -419,6 +513,7 @@ export function createHooksRequestHandler(
             timeoutSeconds: mapped.action.timeoutSeconds,
             allowUnsafeExternalContent: mapped.action.allowUnsafeExternalContent,
           });
+          recordDelivery(mapped.deliveryId);
           sendJson(res, 202, { ok: true, runId });
           return true;
         }
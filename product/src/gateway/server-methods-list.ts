@@ -81,6 +81,16 @@ const BASE_METHODS = [
   "cron.remove",
   "cron.run",
   "cron.runs",
+  "workflow.list",
+  "workflow.get",
+  "workflow.create",
+  "workflow.cancel",
+  "workflow.resume",
+  "staged.list",
+  "staged.accept",
+  "staged.reject",
+  "approval.list",
+  "approval.resolve",
   "system-presence",
   "system-event",
   "send",
@@ -110,6 +120,7 @@ export const GATEWAY_EVENTS = [
   "health",
   "heartbeat",
   "cron",
+  "workflow",
   "node.pair.requested",
   "node.pair.resolved",
   "node.invoke.request",
@@ -118,4 +129,6 @@ export const GATEWAY_EVENTS = [
   "voicewake.changed",
   "exec.approval.requested",
   "exec.approval.resolved",
+  "approval.requested",
+  "approval.resolved",
 ];
@@ -1,6 +1,7 @@
 import { ErrorCodes, errorShape } from "./protocol/index.js";
 import { agentHandlers } from "./server-methods/agent.js";
 import { agentsHandlers } from "./server-methods/agents.js";
+import { approvalHandlers } from "./server-methods/approvals.js";
 import { artifactsHandlers } from "./server-methods/artifacts.js";
 import { browserHandlers } from "./server-methods/browser.js";
 import { channelsHandlers } from "./server-methods/channels.js";
@@ -18,6 +19,7 @@ import { pushHandlers } from "./server-methods/push.js";
 import { sendHandlers } from "./server-methods/send.js";
 import { sessionsHandlers } from "./server-methods/sessions.js";
 import { skillsHandlers } from "./server-methods/skills.js";
+import { stagedHandlers } from "./server-methods/staged.js";
 import { systemHandlers } from "./server-methods/system.js";
 import { talkHandlers } from "./server-methods/talk.js";
 import { ttsHandlers } from "./server-methods/tts.js";
@@ -27,6 +29,7 @@ import { usageHandlers } from "./server-methods/usage.js";
 import { voicewakeHandlers } from "./server-methods/voicewake.js";
 import { webHandlers } from "./server-methods/web.js";
 import { wizardHandlers } from "./server-methods/wizard.js";
+import { workflowHandlers } from "./server-methods/workflows.js";
 
 const ADMIN_SCOPE = "operator.admin";
 const READ_SCOPE = "operator.read";
@@ -38,6 +41,7 @@ const APPROVAL_METHODS = new Set([
   "exec.approval.request",
   "exec.approval.waitDecision",
   "exec.approval.resolve",
+  "approval.resolve",
 ]);
 const NODE_ROLE_METHODS = new Set(["node.invoke.result", "node.event", "skills.bins"]);
 const PAIRING_METHODS = new Set([
@@ -74,6 +78,10 @@ const READ_METHODS = new Set([
   "cron.list",
   "cron.status",
   "cron.runs",
+  "workflow.list",
+  "workflow.get",
+  "staged.list",
+  "approval.list",
   "system-presence",
   "last-heartbeat",
   "node.list",
@@ -99,6 +107,11 @@ const WRITE_METHODS = new Set([
   "browser.request",
   "push.test",
   "artifacts.sync",
+  "workflow.create",
+  "workflow.cancel",
+  "workflow.resume",
+  "staged.accept",
+  "staged.reject",
 ]);
 
 function authorizeGatewayMethod(method: string, client: GatewayRequestOptions["client"]) {
@@ -201,6 +214,9 @@ export const coreGatewayHandlers: GatewayRequestHandlers = {
   ...agentsHandlers,
   ...browserHandlers,
   ...artifactsHandlers,
+  ...workflowHandlers,
+  ...stagedHandlers,
+  ...approvalHandlers,
 };
 
 export async function handleGatewayRequest(
@@ -49,6 +49,7 @@ vi.mock("../../config/config.js", () => ({
 
 vi.mock("../../agents/agent-scope.js", () => ({
   listAgentIds: () => ["main"],
+  resolveAgentWorkspaceDir: () => "/srv/workspace",
 }));
 
 vi.mock("../../infra/agent-events.js", () => ({
@@ -380,6 +381,46 @@ describe("gateway agent handler", () => {
     );
   });
 
+  it("only accepts workspaceDir inside a configured agent workspace", async () => {
+    mocks.agentCommand.mockClear();
+    mockMainSessionEntry({});
+    mocks.agentCommand.mockResolvedValue({ payloads: [{ text: "ok" }], meta: { durationMs: 1 } });
+
+    for (const workspaceDir of ["/etc", "/srv/workspace/../other", "relative/dir"]) {
+      const respond = await invokeAgent(
+        {
+          message: "test",
+          sessionKey: "agent:main:main",
+          idempotencyKey: `test-workspace-${workspaceDir}`,
+          workspaceDir,
+        },
+        { reqId: "5" },
+      );
+      expect(respond).toHaveBeenCalledWith(
+        false,
+        undefined,
+        expect.objectContaining({
+          message: expect.stringContaining("outside the configured agent workspaces"),
+        }),
+      );
+    }
+    expect(mocks.agentCommand).not.toHaveBeenCalled();
+
+    await invokeAgent(
+      {
+        message: "test",
+        sessionKey: "agent:main:main",
+        idempotencyKey: "test-workspace-worktree",
+        workspaceDir: "/srv/workspace/.coderClaw/worktrees/wf-1/task-1",
+      },
+      { reqId: "6" },
+    );
+    await vi.waitFor(() => expect(mocks.agentCommand).toHaveBeenCalled());
+    expect(mocks.agentCommand.mock.calls[0][0]).toMatchObject({
+      workspaceDir: "/srv/workspace/.coderClaw/worktrees/wf-1/task-1",
+    });
+  });
+
   it("rejects malformed session keys in agent.identity.get", async () => {
     const respond = await invokeAgentIdentityGet(
       {
@@ -1,5 +1,6 @@
 import { randomUUID } from "node:crypto";
-import { listAgentIds } from "../../agents/agent-scope.js";
+import path from "node:path";
+import { listAgentIds, resolveAgentWorkspaceDir } from "../../agents/agent-scope.js";
 import { BARE_SESSION_RESET_PROMPT } from "../../auto-reply/reply/session-reset-prompt.js";
 import { agentCommand } from "../../commands/agent.js";
 import { loadConfig } from "../../config/config.js";
@@ -15,6 +16,7 @@ import {
   resolveAgentDeliveryPlan,
   resolveAgentOutboundTarget,
 } from "../../infra/outbound/agent-delivery.js";
+import { isWithinDir } from "../../infra/path-safety.js";
 import { classifySessionKeyShape, normalizeAgentId } from "../../routing/session-key.js";
 import { defaultRuntime } from "../../runtime.js";
 import { normalizeInputProvenance, type InputProvenance } from "../../sessions/input-provenance.js";
@@ -189,6 +191,7 @@ export const agentHandlers: GatewayRequestHandlers = {
       groupSpace?: string;
       lane?: string;
       extraSystemPrompt?: string;
+      workspaceDir?: string;
       idempotencyKey: string;
       timeout?: number;
       label?: string;
@@ -269,6 +272,28 @@ export const agentHandlers: GatewayRequestHandlers = {
       }
     }
 
+    // Task worktrees live under the default workspace; anything outside the
+    // configured agent workspaces would let a client point the agent anywhere.
+    const workspaceDir =
+      typeof request.workspaceDir === "string" ? request.workspaceDir.trim() : "";
+    if (
+      workspaceDir &&
+      (!path.isAbsolute(workspaceDir) ||
+        !listAgentIds(cfg).some((id) =>
+          isWithinDir(resolveAgentWorkspaceDir(cfg, id), workspaceDir),
+        ))
+    ) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `invalid agent params: workspaceDir "${workspaceDir}" is outside the configured agent workspaces`,
+        ),
+      );
+      return;
+    }
+
     const requestedSessionKeyRaw =
       typeof request.sessionKey === "string" && request.sessionKey.trim()
         ? request.sessionKey.trim()
@@ -556,6 +581,7 @@ export const agentHandlers: GatewayRequestHandlers = {
         runId,
         lane: request.lane,
         extraSystemPrompt: request.extraSystemPrompt,
+        workspaceDir: workspaceDir || undefined,
         inputProvenance,
       },
       defaultRuntime,
@@ -0,0 +1,72 @@
+import { approvalGate } from "../../infra/approval-gate.js";
+import {
+  ErrorCodes,
+  errorShape,
+  validateApprovalListParams,
+  validateApprovalResolveParams,
+} from "../protocol/index.js";
+import { respondInvalidParams } from "./nodes.helpers.js";
+import type { GatewayRequestHandlers } from "./types.js";
+
+/**
+ * Local approval-gate requests (workflow checkpoints and other
+ * human-in-the-loop gates). Requests and decisions are broadcast as
+ * `approval.requested` / `approval.resolved` by the store listener the
+ * gateway installs at startup.
+ */
+export const approvalHandlers: GatewayRequestHandlers = {
+  "approval.list": async ({ params, respond }) => {
+    if (!validateApprovalListParams(params)) {
+      respondInvalidParams({
+        respond,
+        method: "approval.list",
+        validator: validateApprovalListParams,
+      });
+      return;
+    }
+    const store = approvalGate.localBackend;
+    if (!store) {
+      respond(true, { approvals: [] }, undefined);
+      return;
+    }
+    await store.load();
+    respond(
+      true,
+      { approvals: store.list({ includeResolved: params.includeResolved }) },
+      undefined,
+    );
+  },
+  "approval.resolve": async ({ params, respond, client }) => {
+    if (!validateApprovalResolveParams(params)) {
+      respondInvalidParams({
+        respond,
+        method: "approval.resolve",
+        validator: validateApprovalResolveParams,
+      });
+      return;
+    }
+    const store = approvalGate.localBackend;
+    if (!store) {
+      respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.UNAVAILABLE, "local approvals are not enabled on this gateway"),
+      );
+      return;
+    }
+    const resolvedBy = client?.connect?.client?.displayName ?? client?.connect?.client?.id;
+    const approval = await store.resolve(params.id, params.decision, resolvedBy);
+    if (!approval) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `unknown or already decided approval id: ${params.id}`,
+        ),
+      );
+      return;
+    }
+    respond(true, { approval }, undefined);
+  },
+};
@@ -1,5 +1,9 @@
 import { normalizeCronJobCreate, normalizeCronJobPatch } from "../../cron/normalize.js";
-import { readCronRunLogEntries, resolveCronRunLogPath } from "../../cron/run-log.js";
+import {
+  readCronChainRunLogEntries,
+  readCronRunLogEntries,
+  resolveCronRunLogPath,
+} from "../../cron/run-log.js";
 import type { CronJobCreate, CronJobPatch } from "../../cron/types.js";
 import { validateScheduleTimestamp } from "../../cron/validate-timestamp.js";
 import {
@@ -204,7 +208,16 @@ export const cronHandlers: GatewayRequestHandlers = {
       );
       return;
     }
-    const p = params as { id?: string; jobId?: string; limit?: number };
+    const p = params as { id?: string; jobId?: string; chainId?: string; limit?: number };
+    if (p.chainId) {
+      const entries = await readCronChainRunLogEntries({
+        storePath: context.cronStorePath,
+        chainId: p.chainId,
+        limit: p.limit,
+      });
+      respond(true, { entries }, undefined);
+      return;
+    }
     const jobId = p.id ?? p.jobId;
     if (!jobId) {
       respond(
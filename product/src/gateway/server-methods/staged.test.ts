@@ -0,0 +1,95 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { clearAllStagedEdits, stageEdit } from "../../coderclaw/staged-edits.js";
+import { stagedHandlers } from "./staged.js";
+
+const mocks = vi.hoisted(() => ({ workspace: "" }));
+
+vi.mock("../../config/config.js", () => ({
+  loadConfig: () => ({ agents: { defaults: { workspace: mocks.workspace } } }),
+}));
+
+type RespondCall = [boolean, unknown?, { code: number; message: string }?];
+
+async function invoke(method: string, params: Record<string, unknown>) {
+  const respond = vi.fn();
+  await stagedHandlers[method]({
+    params,
+    respond: respond as never,
+    context: {} as never,
+    client: null,
+    req: { type: "req", id: "req-1", method },
+    isWebchatConnect: () => false,
+  });
+  return respond.mock.calls[0] as RespondCall;
+}
+
+describe("staged gateway methods", () => {
+  let file = "";
+
+  beforeEach(async () => {
+    mocks.workspace = await fs.mkdtemp(path.join(os.tmpdir(), "coderclaw-staged-gw-"));
+    file = path.join(mocks.workspace, "a.txt");
+    await fs.writeFile(file, "1\n2\n3\n4\n5\n6\n7\n");
+    await stageEdit({
+      filePath: file,
+      proposedContent: "one\n2\n3\n4\n5\n6\nseven\n",
+      toolCallId: "call-1",
+      projectRoot: mocks.workspace,
+    });
+    // Simulate a gateway restart: only the persisted copy remains.
+    clearAllStagedEdits();
+  });
+
+  afterEach(async () => {
+    clearAllStagedEdits();
+    await fs.rm(mocks.workspace, { recursive: true, force: true });
+  });
+
+  it("lists persisted edits with hunks and accepts a single hunk", async () => {
+    const [ok, payload] = await invoke("staged.list", {});
+    expect(ok).toBe(true);
+    expect(payload).toMatchObject({
+      edits: [
+        {
+          path: file,
+          hunks: [
+            { index: 1, proposedLines: ["one"] },
+            { index: 2, proposedLines: ["seven"] },
+          ],
+        },
+      ],
+    });
+
+    const [accepted, result] = await invoke("staged.accept", { path: "a.txt", hunks: [2] });
+    expect(accepted).toBe(true);
+    expect(result).toMatchObject({ results: [{ path: file, ok: true, remainingHunks: 1 }] });
+    expect(await fs.readFile(file, "utf-8")).toBe("1\n2\n3\n4\n5\n6\nseven\n");
+
+    const [rejected, rejectResult] = await invoke("staged.reject", { path: file });
+    expect(rejected).toBe(true);
+    expect(rejectResult).toMatchObject({ results: [{ ok: true, remainingHunks: 0 }] });
+    const [, after] = await invoke("staged.list", {});
+    expect(after).toMatchObject({ edits: [] });
+  });
+
+  it("reports conflicts with concurrent edits instead of overwriting", async () => {
+    await fs.writeFile(file, "uno\n2\n3\n4\n5\n6\n7\n");
+    const [ok, payload] = await invoke("staged.accept", {});
+    expect(ok).toBe(true);
+    expect(payload).toMatchObject({
+      results: [{ ok: false, conflicts: [{ line: 1, ours: ["uno"], theirs: ["one"] }] }],
+    });
+    expect(await fs.readFile(file, "utf-8")).toBe("uno\n2\n3\n4\n5\n6\n7\n");
+  });
+
+  it("rejects hunks without a path and unknown paths", async () => {
+    const [ok, , error] = await invoke("staged.accept", { hunks: [1] });
+    expect(ok).toBe(false);
+    expect(error?.message).toContain("hunks requires path");
+    const [missing] = await invoke("staged.reject", { path: "nope.txt" });
+    expect(missing).toBe(false);
+  });
+});
@@ -0,0 +1,153 @@
+import path from "node:path";
+import { resolveAgentWorkspaceDir, resolveDefaultAgentId } from "../../agents/agent-scope.js";
+import { formatRuleFindings, hasBlockingFindings } from "../../coderclaw/rules-engine.js";
+import {
+  acceptEdit,
+  checkStagedEdits,
+  getStagedEdit,
+  getStagedHunks,
+  loadStagedEdits,
+  rejectEdit,
+  type StagedEdit,
+} from "../../coderclaw/staged-edits.js";
+import { loadConfig } from "../../config/config.js";
+import { normalizeAgentId } from "../../routing/session-key.js";
+import {
+  ErrorCodes,
+  errorShape,
+  validateStagedApplyParams,
+  validateStagedListParams,
+  type StagedApplyParams,
+  type StagedApplyResult,
+  type StagedEditSummary,
+} from "../protocol/index.js";
+import { respondInvalidParams } from "./nodes.helpers.js";
+import type { GatewayRequestHandlers, RespondFn } from "./types.js";
+
+function resolveProjectRoot(agentId: string | undefined): string {
+  const cfg = loadConfig();
+  return resolveAgentWorkspaceDir(cfg, normalizeAgentId(agentId ?? resolveDefaultAgentId(cfg)));
+}
+
+function summarizeEdit(edit: StagedEdit): StagedEditSummary {
+  return {
+    path: edit.filePath,
+    label: edit.label,
+    isNew: edit.isNew,
+    stagedAt: edit.stagedAt,
+    hunks: getStagedHunks(edit),
+  };
+}
+
+/**
+ * Resolve the edits a `staged.accept` / `staged.reject` call targets, loading
+ * persisted edits first so calls work across gateway restarts.
+ */
+async function resolveTargets(
+  params: StagedApplyParams,
+  respond: RespondFn,
+): Promise<{ projectRoot: string; edits: StagedEdit[] } | null> {
+  if (params.hunks && !params.path) {
+    respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, "hunks requires path"));
+    return null;
+  }
+  const projectRoot = resolveProjectRoot(params.agentId);
+  const edits = await loadStagedEdits(projectRoot);
+  if (!params.path) {
+    return { projectRoot, edits };
+  }
+  const edit = getStagedEdit(path.resolve(projectRoot, params.path));
+  if (!edit || !edits.includes(edit)) {
+    respond(
+      false,
+      undefined,
+      errorShape(ErrorCodes.INVALID_REQUEST, `no staged edit for ${params.path}`),
+    );
+    return null;
+  }
+  return { projectRoot, edits: [edit] };
+}
+
+export const stagedHandlers: GatewayRequestHandlers = {
+  "staged.list": async ({ params, respond }) => {
+    if (!validateStagedListParams(params)) {
+      respondInvalidParams({
+        respond,
+        method: "staged.list",
+        validator: validateStagedListParams,
+      });
+      return;
+    }
+    const projectRoot = resolveProjectRoot(params.agentId);
+    const edits = await loadStagedEdits(projectRoot);
+    respond(true, { projectRoot, edits: edits.map(summarizeEdit) }, undefined);
+  },
+  "staged.accept": async ({ params, respond }) => {
+    if (!validateStagedApplyParams(params)) {
+      respondInvalidParams({
+        respond,
+        method: "staged.accept",
+        validator: validateStagedApplyParams,
+      });
+      return;
+    }
+    const targets = await resolveTargets(params, respond);
+    if (!targets) {
+      return;
+    }
+    // Same gate as /accept: rules marked as errors in rules.yaml block the accept.
+    const findings = await checkStagedEdits(
+      targets.projectRoot,
+      targets.edits.map((edit) => edit.filePath),
+    );
+    if (hasBlockingFindings(findings)) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `blocked by project rules:\n${formatRuleFindings(findings, targets.projectRoot)}`,
+          { details: { findings } },
+        ),
+      );
+      return;
+    }
+    const results: StagedApplyResult[] = [];
+    for (const edit of targets.edits) {
+      const result = await acceptEdit(edit.filePath, { hunks: params.hunks });
+      results.push({
+        path: result.filePath,
+        ok: result.accepted,
+        remainingHunks: result.remainingHunks,
+        error: result.error,
+        conflicts: result.conflicts,
+      });
+    }
+    respond(true, { results, findings }, undefined);
+  },
+  "staged.reject": async ({ params, respond }) => {
+    if (!validateStagedApplyParams(params)) {
+      respondInvalidParams({
+        respond,
+        method: "staged.reject",
+        validator: validateStagedApplyParams,
+      });
+      return;
+    }
+    const targets = await resolveTargets(params, respond);
+    if (!targets) {
+      return;
+    }
+    const results: StagedApplyResult[] = [];
+    for (const edit of targets.edits) {
+      const result = await rejectEdit(edit.filePath, { hunks: params.hunks });
+      results.push({
+        path: result.filePath,
+        ok: result.rejected,
+        remainingHunks: result.remainingHunks,
+        error: result.error,
+      });
+    }
+    respond(true, { results }, undefined);
+  },
+};
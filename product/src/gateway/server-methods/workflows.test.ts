@@ -0,0 +1,121 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { globalOrchestrator } from "../../coderclaw/orchestrator.js";
+import { ErrorCodes } from "../protocol/index.js";
+import { workflowHandlers } from "./workflows.js";
+
+type RespondCall = [boolean, unknown?, { code: number; message: string }?];
+
+async function invoke(method: string, params: Record<string, unknown>) {
+  const respond = vi.fn();
+  await workflowHandlers[method]({
+    params,
+    respond: respond as never,
+    context: { logGateway: { warn: vi.fn() } } as never,
+    client: null,
+    req: { type: "req", id: "req-1", method },
+    isWebchatConnect: () => false,
+  });
+  return respond.mock.calls[0] as RespondCall;
+}
+
+describe("workflow gateway methods", () => {
+  const created: string[] = [];
+
+  afterEach(() => {
+    for (const id of created.splice(0)) {
+      globalOrchestrator.cancelWorkflow(id);
+    }
+  });
+
+  it("creates a workflow without starting it and exposes it via list and get", async () => {
+    const [ok, payload] = await invoke("workflow.create", {
+      workflow: "custom",
+      description: "demo",
+      start: false,
+      steps: [
+        { id: "build", role: "code-creator", task: "Build it" },
+        { id: "review", role: "code-reviewer", task: "Review it", dependsOn: ["build"] },
+      ],
+    });
+    expect(ok).toBe(true);
+    const workflow = (payload as { started: boolean; workflow: { id: string; status: string } })
+      .workflow;
+    created.push(workflow.id);
+    expect(payload).toMatchObject({ started: false, workflow: { type: "custom", taskCount: 2 } });
+
+    const [, list] = await invoke("workflow.list", { activeOnly: true });
+    expect((list as { workflows: Array<{ id: string }> }).workflows.map((wf) => wf.id)).toContain(
+      workflow.id,
+    );
+
+    const [, detail] = await invoke("workflow.get", { id: workflow.id });
+    const { tasks } = (detail as { workflow: { tasks: Array<{ id: string; stepId?: string }> } })
+      .workflow;
+    expect(tasks.map((task) => task.stepId)).toEqual(["build", "review"]);
+    expect((detail as { runnableTaskIds: string[] }).runnableTaskIds).toEqual([tasks[0]?.id]);
+  });
+
+  it("cancels a workflow and refuses to resume it", async () => {
+    const [, payload] = await invoke("workflow.create", {
+      workflow: "planning",
+      description: "ship v2",
+      start: false,
+    });
+    const id = (payload as { workflow: { id: string } }).workflow.id;
+    created.push(id);
+
+    const [ok, cancelled] = await invoke("workflow.cancel", { id });
+    expect(ok).toBe(true);
+    expect(cancelled).toMatchObject({ workflow: { id, status: "cancelled" } });
+
+    const [resumed, , error] = await invoke("workflow.resume", { id });
+    expect(resumed).toBe(false);
+    expect(error?.message).toContain("is cancelled and cannot be resumed");
+
+    const [again, , cancelError] = await invoke("workflow.cancel", { id });
+    expect(again).toBe(false);
+    expect(cancelError?.code).toBe(ErrorCodes.INVALID_REQUEST);
+    expect(cancelError?.message).toContain("is cancelled and cannot be cancelled");
+  });
+
+  it("rejects unknown types, invalid steps and unknown ids", async () => {
+    const [, , unknownType] = await invoke("workflow.create", {
+      workflow: "nope",
+      description: "x",
+    });
+    expect(unknownType?.message).toContain("unknown workflow type: nope");
+
+    const [, , invalid] = await invoke("workflow.create", {
+      workflow: "custom",
+      description: "x",
+      steps: [
+        { id: "a", role: "code-creator", task: "A" },
+        { id: "b", role: "code-reviewer", task: "B", loop: { to: "a", maxIterations: 2 } },
+      ],
+    });
+    expect(invalid?.code).toBe(ErrorCodes.INVALID_REQUEST);
+    expect(invalid?.message).toContain("invalid workflow");
+
+    const resolveSteps = vi
+      .spyOn(globalOrchestrator, "resolveWorkflowSteps")
+      .mockImplementationOnce(() => {
+        throw new Error('missing required input "ticket"');
+      });
+    const [ok, , badDefinition] = await invoke("workflow.create", {
+      workflow: "triage",
+      description: "x",
+    });
+    resolveSteps.mockRestore();
+    expect(ok).toBe(false);
+    expect(badDefinition).toMatchObject({
+      code: ErrorCodes.INVALID_REQUEST,
+      message: 'invalid workflow definition: missing required input "ticket"',
+    });
+
+    const [, , missing] = await invoke("workflow.get", { id: "does-not-exist" });
+    expect(missing?.message).toContain("not found");
+
+    const [, , badParams] = await invoke("workflow.cancel", {});
+    expect(badParams?.message).toContain("invalid workflow.cancel params");
+  });
+});
@@ -0,0 +1,275 @@
+import {
+  globalOrchestrator,
+  type Task,
+  type TaskStatus,
+  type Workflow,
+  type WorkflowStep,
+} from "../../coderclaw/orchestrator.js";
+import { summarizeWorkflowUsage } from "../../coderclaw/workflow-budget.js";
+import {
+  ErrorCodes,
+  errorShape,
+  validateWorkflowCancelParams,
+  validateWorkflowCreateParams,
+  validateWorkflowGetParams,
+  validateWorkflowListParams,
+  validateWorkflowResumeParams,
+  type WorkflowSummary,
+  type WorkflowTask,
+} from "../protocol/index.js";
+import { respondInvalidParams } from "./nodes.helpers.js";
+import type { GatewayRequestContext, GatewayRequestHandlers } from "./types.js";
+
+function summarizeWorkflow(workflow: Workflow): WorkflowSummary {
+  const taskStatus: Partial<Record<TaskStatus, number>> = {};
+  for (const task of workflow.tasks.values()) {
+    taskStatus[task.status] = (taskStatus[task.status] ?? 0) + 1;
+  }
+  return {
+    id: workflow.id,
+    type: workflow.type,
+    status: workflow.status,
+    createdAt: workflow.createdAt.toISOString(),
+    branch: workflow.branch,
+    taskCount: workflow.tasks.size,
+    taskStatus,
+    usage: summarizeWorkflowUsage(workflow.tasks.values()).total,
+    pausedReason: workflow.pausedReason,
+  };
+}
+
+function serializeTask(task: Task, includeOutput: boolean): WorkflowTask {
+  return {
+    id: task.id,
+    stepId: task.stepId,
+    role: task.agentRole,
+    description: task.description,
+    status: task.status,
+    dependencies: task.dependencies,
+    iteration: task.iteration,
+    output: includeOutput ? task.output : undefined,
+    error: task.error,
+    model: task.model,
+    branch: task.branch,
+    childSessionKey: task.childSessionKey,
+    usage: task.usage,
+    createdAt: task.createdAt.toISOString(),
+    startedAt: task.startedAt?.toISOString(),
+    completedAt: task.completedAt?.toISOString(),
+  };
+}
+
+function serializeWorkflow(workflow: Workflow, includeOutput = false) {
+  return {
+    ...summarizeWorkflow(workflow),
+    tasks: Array.from(workflow.tasks.values()).map((task) => serializeTask(task, includeOutput)),
+  };
+}
+
+/** Run a workflow in the background; progress is reported via `workflow` events. */
+function runInBackground(
+  context: GatewayRequestContext,
+  workflowId: string,
+  run: Promise<unknown>,
+): void {
+  void run.catch((err) => {
+    context.logGateway.warn(`workflow ${workflowId} failed: ${String(err)}`);
+  });
+}
+
+function isActive(workflow: Workflow): boolean {
+  return workflow.status === "running";
+}
+
+export const workflowHandlers: GatewayRequestHandlers = {
+  "workflow.list": ({ params, respond }) => {
+    if (!validateWorkflowListParams(params)) {
+      respondInvalidParams({
+        respond,
+        method: "workflow.list",
+        validator: validateWorkflowListParams,
+      });
+      return;
+    }
+    const workflows = globalOrchestrator
+      .getAllWorkflows()
+      .filter((wf) => !params.activeOnly || wf.status === "pending" || isActive(wf))
+      .toSorted((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map(summarizeWorkflow);
+    respond(true, { workflows }, undefined);
+  },
+  "workflow.get": ({ params, respond }) => {
+    if (!validateWorkflowGetParams(params)) {
+      respondInvalidParams({
+        respond,
+        method: "workflow.get",
+        validator: validateWorkflowGetParams,
+      });
+      return;
+    }
+    const workflow = globalOrchestrator.getWorkflowStatus(params.id);
+    if (!workflow) {
+      respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.INVALID_REQUEST, `workflow ${params.id} not found`),
+      );
+      return;
+    }
+    respond(
+      true,
+      {
+        workflow: serializeWorkflow(workflow, params.includeOutput ?? false),
+        runnableTaskIds: globalOrchestrator.getRunnableTasks(workflow.id).map((task) => task.id),
+      },
+      undefined,
+    );
+  },
+  "workflow.create": ({ params, respond, context }) => {
+    if (!validateWorkflowCreateParams(params)) {
+      respondInvalidParams({
+        respond,
+        method: "workflow.create",
+        validator: validateWorkflowCreateParams,
+      });
+      return;
+    }
+    let steps: WorkflowStep[] | null;
+    if (params.workflow === "custom") {
+      steps = params.steps ?? null;
+      if (!steps) {
+        respond(
+          false,
+          undefined,
+          errorShape(ErrorCodes.INVALID_REQUEST, "custom workflows require steps"),
+        );
+        return;
+      }
+    } else {
+      try {
+        steps = globalOrchestrator.resolveWorkflowSteps(
+          params.workflow,
+          params.description,
+          params.inputs,
+        );
+      } catch (err) {
+        respond(
+          false,
+          undefined,
+          errorShape(
+            ErrorCodes.INVALID_REQUEST,
+            `invalid workflow definition: ${err instanceof Error ? err.message : String(err)}`,
+          ),
+        );
+        return;
+      }
+      if (!steps) {
+        respond(
+          false,
+          undefined,
+          errorShape(ErrorCodes.INVALID_REQUEST, `unknown workflow type: ${params.workflow}`),
+        );
+        return;
+      }
+    }
+
+    let workflow: Workflow;
+    try {
+      workflow = globalOrchestrator.createWorkflow(steps, { type: params.workflow });
+    } catch (err) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `invalid workflow: ${err instanceof Error ? err.message : String(err)}`,
+        ),
+      );
+      return;
+    }
+    const start = params.start ?? true;
+    if (start) {
+      runInBackground(
+        context,
+        workflow.id,
+        globalOrchestrator.executeWorkflow(workflow.id, { agentSessionKey: params.sessionKey }),
+      );
+    }
+    respond(true, { started: start, workflow: serializeWorkflow(workflow) }, undefined);
+  },
+  "workflow.cancel": ({ params, respond }) => {
+    if (!validateWorkflowCancelParams(params)) {
+      respondInvalidParams({
+        respond,
+        method: "workflow.cancel",
+        validator: validateWorkflowCancelParams,
+      });
+      return;
+    }
+    const workflow = globalOrchestrator.getWorkflowStatus(params.id);
+    if (!workflow) {
+      respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.INVALID_REQUEST, `workflow ${params.id} not found`),
+      );
+      return;
+    }
+    if (!globalOrchestrator.cancelWorkflow(workflow.id)) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `workflow ${params.id} is ${workflow.status} and cannot be cancelled`,
+        ),
+      );
+      return;
+    }
+    respond(true, { workflow: summarizeWorkflow(workflow) }, undefined);
+  },
+  "workflow.resume": async ({ params, respond, context }) => {
+    if (!validateWorkflowResumeParams(params)) {
+      respondInvalidParams({
+        respond,
+        method: "workflow.resume",
+        validator: validateWorkflowResumeParams,
+      });
+      return;
+    }
+    // Incomplete workflows from a previous gateway run are resumable too.
+    if (!globalOrchestrator.getWorkflowStatus(params.id)) {
+      await globalOrchestrator.loadPersistedWorkflows();
+    }
+    const workflow = globalOrchestrator.getWorkflowStatus(params.id);
+    if (!workflow) {
+      respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.INVALID_REQUEST, `workflow ${params.id} not found`),
+      );
+      return;
+    }
+    if (isActive(workflow) || workflow.status === "cancelled" || workflow.status === "completed") {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `workflow ${params.id} is ${workflow.status} and cannot be resumed`,
+        ),
+      );
+      return;
+    }
+    runInBackground(
+      context,
+      workflow.id,
+      globalOrchestrator.resumeWorkflow(
+        workflow.id,
+        { agentSessionKey: params.sessionKey },
+        { retryFailed: params.retryFailed },
+      ),
+    );
+    respond(true, { workflow: summarizeWorkflow(workflow) }, undefined);
+  },
+};
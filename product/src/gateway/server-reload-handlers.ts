@@ -1,3 +1,4 @@
+import { closeMcpClients } from "../agents/mcp-tools.js";
 import { getActiveEmbeddedRunCount } from "../agents/pi-embedded-runner/runs.js";
 import { getTotalPendingReplies } from "../auto-reply/reply/dispatcher-registry.js";
 import type { CliDeps } from "../cli/deps.js";
@@ -20,6 +21,13 @@ import { resolveHooksConfig } from "./hooks.js";
 import { startBrowserControlServerIfEnabled } from "./server-browser.js";
 import { buildGatewayCronService, type GatewayCronState } from "./server-cron.js";
 
+/** Changed config paths that can alter MCP servers (arrays such as agents.list diff as a whole). */
+function isMcpConfigPath(path: string): boolean {
+  return (
+    ["<root>", "tools", "agents", "agents.list"].includes(path) || /^tools\.mcp(\.|$)/.test(path)
+  );
+}
+
 type GatewayHotReloadState = {
   hooksConfig: ReturnType<typeof resolveHooksConfig>;
   heartbeatRunner: HeartbeatRunner;
@@ -66,6 +74,12 @@ export function createGatewayReloadHandlers(params: {
 
     resetDirectoryCache();
 
+    // Pooled MCP clients are keyed by server definition; drop them so changed or
+    // removed servers stop, and the next run reconnects with the new config.
+    if (plan.changedPaths.some(isMcpConfigPath)) {
+      await closeMcpClients().catch(() => {});
+    }
+
     if (plan.restartCron) {
       state.cronState.cron.stop();
       nextState.cronState = buildGatewayCronService({
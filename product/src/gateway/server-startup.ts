@@ -21,18 +21,21 @@ import {
 } from "../hooks/internal-hooks.js";
 import { loadInternalHooks } from "../hooks/loader.js";
 import { BuilderforceAgentTransport } from "../infra/agent-transport.js";
-import { initApprovalGate } from "../infra/approval-gate.js";
+import { approvalGate, initApprovalGate } from "../infra/approval-gate.js";
 import { syncCoderClawDirectoryOnStartup } from "../infra/builderforce-directory-sync.js";
 import { BuilderforceRelayService } from "../infra/builderforce-relay.js";
 import { CompositeAgentTransport } from "../infra/composite-agent-transport.js";
 import { CronPollerService } from "../infra/cron-poller.js";
 import { readSharedEnvVar } from "../infra/env-file.js";
 import { isTruthyEnvValue } from "../infra/env.js";
+import { GitTaskWorkspaceService } from "../infra/git-task-worktrees.js";
 import { KnowledgeLoopService, setKnowledgeLoopService } from "../infra/knowledge-loop.js";
 import { LocalAgentTransport } from "../infra/local-agent-transport.js";
 import {
   LocalResultBrokerAdapter,
+  PluginWorkflowHooksAdapter,
   SsmMemoryAdapter,
+  TestRunnerAdapter,
   WorkflowTelemetryAdapter,
 } from "../infra/orchestrator-ports-adapter.js";
 import { fetchPlatformPersonas } from "../infra/platform-persona-sync.js";
@@ -40,8 +43,18 @@ import { pushProjectContextToBuilderforce } from "../infra/project-context-push.
 import { checkAndWarnQuota } from "../infra/quota-monitor.js";
 import { fetchAndLoadSkills } from "../infra/skill-registry.js";
 import { initSsmMemoryService } from "../infra/ssm-memory-service.js";
+import {
+  WorkflowRecorder,
+  getActiveWorkflowRecorder,
+  resolveWorkflowRecordDir,
+  setActiveWorkflowRecorder,
+} from "../infra/workflow-recorder.js";
+import { WorkflowUsageService } from "../infra/workflow-usage.js";
 import type { loadCoderClawPlugins } from "../plugins/loader.js";
 import { type PluginServicesHandle, startPluginServices } from "../plugins/services.js";
+import { LocalTransportAdapter } from "../transport/local-adapter.js";
+import { SqliteTaskStorage } from "../transport/sqlite-task-storage.js";
+import { globalTaskEngine } from "../transport/task-engine.js";
 import { startBrowserControlServerIfEnabled } from "./server-browser.js";
 import {
   scheduleRestartSentinelWake,
@@ -50,6 +63,8 @@ import {
 import { startGatewayMemoryBackend } from "./server-startup-memory.js";
 
 const SESSION_LOCK_STALE_MS = 30 * 60 * 1000;
+/** Finished transport tasks older than this are pruned at startup. */
+const TASK_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
 
 // ── Shared param types ────────────────────────────────────────────────────────
 
@@ -96,6 +111,18 @@ async function startOrchestrator(
   params: Pick<SidecarParams, "defaultWorkspaceDir" | "log">,
 ): Promise<void> {
   globalOrchestrator.setProjectRoot(params.defaultWorkspaceDir);
+  // Opt-in: record finished workflows as fixtures for `coderclaw eval replay`.
+  const recordDir = resolveWorkflowRecordDir(process.env, params.defaultWorkspaceDir);
+  if (recordDir) {
+    const recorder = new WorkflowRecorder({
+      orchestrator: globalOrchestrator,
+      outputDir: recordDir,
+    });
+    recorder.start();
+    setActiveWorkflowRecorder(recorder);
+    params.log.warn(`[orchestrator] recording workflow fixtures to ${recordDir}`);
+  }
+  const recorder = getActiveWorkflowRecorder();
   // Local transport is always available — in-process subagent spawn works
   // without credentials. The remote transport gets added later (in
   // startBuilderforceServices) when BUILDERFORCE_API_KEY + clawId are present.
@@ -104,10 +131,29 @@ async function startOrchestrator(
     getContext: () => globalOrchestrator.currentSpawnContext(),
     localResultBroker,
   });
+  const transport = new CompositeAgentTransport({ local: localTransport });
+  const testRunner = new TestRunnerAdapter();
   globalOrchestrator.configure({
     telemetry: new WorkflowTelemetryAdapter(),
-    agentTransport: new CompositeAgentTransport({ local: localTransport }),
+    agentTransport: recorder?.wrapTransport(transport) ?? transport,
+    // Builderforce when configured, else the gateway's local approval backend.
+    approvals: approvalGate,
+    usage: new WorkflowUsageService(),
+    hooks: new PluginWorkflowHooksAdapter(),
+    testRunner: recorder?.wrapTestRunner(testRunner) ?? testRunner,
   });
+  // Opt-in: run each orchestrator task in its own git worktree.
+  if (isTruthyEnvValue(process.env.CODERCLAW_WORKTREES)) {
+    if (await GitTaskWorkspaceService.isUsable(params.defaultWorkspaceDir)) {
+      globalOrchestrator.configure({
+        taskWorkspaces: new GitTaskWorkspaceService({ repoRoot: params.defaultWorkspaceDir }),
+      });
+    } else {
+      params.log.warn(
+        `[orchestrator] CODERCLAW_WORKTREES ignored: ${params.defaultWorkspaceDir} is not a git repository with commits`,
+      );
+    }
+  }
   const incompleteWorkflows = await globalOrchestrator.loadPersistedWorkflows();
   if (incompleteWorkflows.length > 0) {
     params.log.warn(
@@ -116,6 +162,37 @@ async function startOrchestrator(
   }
 }
 
+/**
+ * Back the transport task engine with SQLite and settle tasks the previous
+ * process left in flight: failed by default, or re-queued and run again with
+ * `gateway.taskRecovery: "requeue"` (or CODERCLAW_TASK_RECOVERY=requeue).
+ */
+async function startTaskStore(params: Pick<SidecarParams, "cfg" | "log">): Promise<void> {
+  try {
+    globalTaskEngine.useStorage(new SqliteTaskStorage());
+    const policy =
+      params.cfg.gateway?.taskRecovery ??
+      (process.env.CODERCLAW_TASK_RECOVERY === "requeue" ? "requeue" : "fail");
+    const recovered = await globalTaskEngine.recoverOrphanedTasks(policy);
+    if (recovered.length > 0) {
+      params.log.warn(
+        `[tasks] ${recovered.length} interrupted task(s) ${policy === "requeue" ? "re-queued" : "marked failed"}`,
+      );
+    }
+    if (policy === "requeue") {
+      const resumed = await new LocalTransportAdapter({}).resumePendingTasks();
+      if (resumed > 0) {
+        params.log.warn(`[tasks] resumed ${resumed} pending task(s)`);
+      }
+    }
+    await globalTaskEngine.pruneTasks(TASK_RETENTION_MS);
+  } catch (err) {
+    params.log.warn(
+      `[tasks] durable task store unavailable, keeping tasks in memory: ${String(err)}`,
+    );
+  }
+}
+
 /** Start the browser CDP control server (unless disabled by config). */
 async function startBrowserControl(
   params: Pick<SidecarParams, "logBrowser">,
@@ -239,7 +316,11 @@ function startMemoryBackend(
     .then((svc) => {
       if (svc) {
         params.log.warn(`[ssm-memory] hippocampus layer started (gpu=${svc.gpuAvailable})`);
-        globalOrchestrator.configure({ memoryService: new SsmMemoryAdapter() });
+        const memoryService = new SsmMemoryAdapter();
+        globalOrchestrator.configure({
+          memoryService:
+            getActiveWorkflowRecorder()?.wrapMemoryService(memoryService) ?? memoryService,
+        });
       }
     })
     .catch((err) => {
@@ -339,11 +420,12 @@ async function startBuilderforceServices(
         myClawId: String(clawId),
         apiKey,
       });
+      const transport = new CompositeAgentTransport({
+        local: localTransport,
+        remote: remoteTransport,
+      });
       globalOrchestrator.configure({
-        agentTransport: new CompositeAgentTransport({
-          local: localTransport,
-          remote: remoteTransport,
-        }),
+        agentTransport: getActiveWorkflowRecorder()?.wrapTransport(transport) ?? transport,
         relayService: relay,
       });
     }
@@ -370,6 +452,7 @@ async function startBuilderforceServices(
 export async function startGatewaySidecars(params: SidecarParams) {
   await cleanStaleSessions(params);
   await startOrchestrator(params);
+  await startTaskStore(params);
   const browserControl = await startBrowserControl(params);
   await startHooks(params);
   await startMessageChannels(params);
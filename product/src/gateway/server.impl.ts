@@ -13,6 +13,7 @@ import { type ChannelId, listChannelPlugins } from "../channels/plugins/index.js
 import { formatCliCommand } from "../cli/command-format.js";
 import { createDefaultDeps } from "../cli/deps.js";
 import { getBuiltInAgentRoles } from "../coderclaw/agent-roles.js";
+import { globalOrchestrator } from "../coderclaw/orchestrator.js";
 import { globalPersonaRegistry, USER_PERSONAS_DIR } from "../coderclaw/personas.js";
 import {
   initializeCoderClawProject,
@@ -30,6 +31,8 @@ import {
 } from "../config/config.js";
 import { applyPluginAutoEnable } from "../config/plugin-auto-enable.js";
 import { clearAgentRunContext, onAgentEvent } from "../infra/agent-events.js";
+import { createApprovalGateForwarder } from "../infra/approval-gate-forwarder.js";
+import { approvalGate } from "../infra/approval-gate.js";
 import {
   ensureControlUiAssetsBuilt,
   resolveControlUiRootOverrideSync,
@@ -41,6 +44,7 @@ import { createExecApprovalForwarder } from "../infra/exec-approval-forwarder.js
 import { onHeartbeatEvent } from "../infra/heartbeat-events.js";
 import { startHeartbeatRunner, type HeartbeatRunner } from "../infra/heartbeat-runner.js";
 import { resolveRequiredHomeDir } from "../infra/home-dir.js";
+import { LocalApprovalStore } from "../infra/local-approvals.js";
 import { getMachineDisplayName } from "../infra/machine-name.js";
 import { ensureCoderClawCliOnPath } from "../infra/path-env.js";
 import { setGatewaySigusr1RestartPolicy, setPreRestartDeferralCheck } from "../infra/restart.js";
@@ -554,6 +558,39 @@ export async function startGatewayServer(
         broadcast("heartbeat", evt, { dropIfSlow: true });
       });
 
+  const workflowUnsub = minimalTestGateway
+    ? null
+    : globalOrchestrator.onWorkflowEvent((evt) => {
+        broadcast("workflow", evt, { dropIfSlow: true });
+      });
+
+  // Local approval gate: without Builderforce, approval requests (workflow
+  // checkpoints) are broadcast, forwarded to chat and decided via /approve.
+  const approvalsUnsub = minimalTestGateway
+    ? null
+    : (() => {
+        const store = new LocalApprovalStore();
+        const forwarder = createApprovalGateForwarder();
+        approvalGate.useLocalBackend(store);
+        void store.load().catch((err) => log.warn(`approvals: load failed: ${String(err)}`));
+        const unsub = store.onEvent((evt) => {
+          const requested = evt.type === "requested";
+          broadcast(requested ? "approval.requested" : "approval.resolved", evt.approval, {
+            dropIfSlow: true,
+          });
+          const forward = requested ? forwarder.handleRequested : forwarder.handleResolved;
+          void forward(evt.approval).catch((err) => {
+            log.error(`approvals: forward failed: ${String(err)}`);
+          });
+        });
+        return () => {
+          unsub();
+          forwarder.stop();
+          store.stop();
+          approvalGate.useLocalBackend(null);
+        };
+      })();
+
   let heartbeatRunner: HeartbeatRunner = minimalTestGateway
     ? {
         stop: () => {},
@@ -770,6 +807,8 @@ export async function startGatewayServer(
     dedupeCleanup,
     agentUnsub,
     heartbeatUnsub,
+    workflowUnsub,
+    approvalsUnsub,
     chatRunState,
     clients,
     configReloader,
@@ -1,5 +1,6 @@
 import { randomUUID } from "node:crypto";
 import type { CliDeps } from "../../cli/deps.js";
+import { globalOrchestrator } from "../../coderclaw/orchestrator.js";
 import { loadConfig } from "../../config/config.js";
 import { resolveMainSessionKeyFromConfig } from "../../config/sessions.js";
 import { runCronIsolatedAgentTurn } from "../../cron/isolated-agent.js";
@@ -7,6 +8,7 @@ import type { CronJob } from "../../cron/types.js";
 import { requestHeartbeatNow } from "../../infra/heartbeat-wake.js";
 import { enqueueSystemEvent } from "../../infra/system-events.js";
 import type { createSubsystemLogger } from "../../logging/subsystem.js";
+import { detectSuspiciousPatterns, wrapExternalContent } from "../../security/external-content.js";
 import type { HookMessageChannel, HooksConfigResolved } from "../hooks.js";
 import { createHooksRequestHandler } from "../server-http.js";
 
@@ -106,6 +108,67 @@ export function createGatewayHooksRequestHandler(params: {
     return runId;
   };
 
+  const dispatchWorkflowHook = (value: {
+    workflow: string;
+    description: string;
+    inputs?: Record<string, string>;
+    name: string;
+    allowUnsafeExternalContent?: boolean;
+  }): { ok: true; workflowId: string } | { ok: false; error: string } => {
+    const suspiciousPatterns = detectSuspiciousPatterns(
+      [value.description, ...Object.values(value.inputs ?? {})].join("\n"),
+    );
+    if (suspiciousPatterns.length > 0) {
+      logHooks.warn(
+        `[security] Suspicious patterns detected in hook workflow ${value.name} ` +
+          `(patterns=${suspiciousPatterns.length}): ${suspiciousPatterns.slice(0, 3).join(", ")}`,
+      );
+    }
+    // SECURITY: the description and inputs are webhook payload text that ends up in step prompts.
+    const wrap = (text: string) =>
+      value.allowUnsafeExternalContent ? text : wrapExternalContent(text, { source: "webhook" });
+    const description = wrap(value.description);
+    const inputs = value.inputs
+      ? Object.fromEntries(Object.entries(value.inputs).map(([key, text]) => [key, wrap(text)]))
+      : undefined;
+    let workflowId: string;
+    try {
+      // Custom workflow definitions are parsed here and may throw.
+      const steps = globalOrchestrator.resolveWorkflowSteps(value.workflow, description, inputs);
+      if (!steps) {
+        return { ok: false, error: `unknown workflow type: ${value.workflow}` };
+      }
+      workflowId = globalOrchestrator.createWorkflow(steps, { type: value.workflow }).id;
+    } catch (err) {
+      return {
+        ok: false,
+        error: `invalid workflow: ${err instanceof Error ? err.message : String(err)}`,
+      };
+    }
+
+    const mainSessionKey = resolveMainSessionKeyFromConfig();
+    void globalOrchestrator
+      .executeWorkflow(workflowId, { agentSessionKey: mainSessionKey })
+      .then(() => {
+        const workflow = globalOrchestrator.getWorkflowStatus(workflowId);
+        const status = workflow?.pausedReason ? "paused" : (workflow?.status ?? "completed");
+        enqueueSystemEvent(
+          `Hook ${value.name}: ${value.workflow} workflow ${workflowId} ${status}`,
+          {
+            sessionKey: mainSessionKey,
+          },
+        );
+      })
+      .catch((err) => {
+        logHooks.warn(`hook workflow ${workflowId} failed: ${String(err)}`);
+        enqueueSystemEvent(
+          `Hook ${value.name} (error): ${value.workflow} workflow ${workflowId} failed: ${String(err)}`,
+          { sessionKey: mainSessionKey },
+        );
+      });
+    return { ok: true, workflowId };
+  };
+
   return createHooksRequestHandler({
     getHooksConfig,
     bindHost,
@@ -113,5 +176,6 @@ export function createGatewayHooksRequestHandler(params: {
     logHooks,
     dispatchAgentHook,
     dispatchWakeHook,
+    dispatchWorkflowHook,
   });
 }
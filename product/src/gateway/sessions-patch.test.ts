@@ -87,6 +87,41 @@ describe("gateway sessions patch", () => {
     expect(res.entry.thinkingLevel).toBeUndefined();
   });
 
+  test("stores session MCP servers and rejects ambiguous entries", async () => {
+    const store: Record<string, SessionEntry> = {};
+    const servers = [
+      { name: "fs", command: "npx", args: ["-y", "server-fs"], cwd: "/repo" },
+      { name: "docs", url: "https://mcp.example.com/mcp" },
+    ];
+    const res = await applySessionsPatchToStore({
+      cfg: {} as CoderClawConfig,
+      store,
+      storeKey: "agent:main:main",
+      patch: { key: "agent:main:main", mcpServers: servers },
+    });
+    expect(res.ok).toBe(true);
+    if (!res.ok) {
+      return;
+    }
+    expect(res.entry.mcpServers).toEqual(servers);
+
+    const bad = await applySessionsPatchToStore({
+      cfg: {} as CoderClawConfig,
+      store,
+      storeKey: "agent:main:main",
+      patch: { key: "agent:main:main", mcpServers: [{ name: "both", command: "x", url: "y" }] },
+    });
+    expect(bad.ok).toBe(false);
+
+    const cleared = await applySessionsPatchToStore({
+      cfg: {} as CoderClawConfig,
+      store,
+      storeKey: "agent:main:main",
+      patch: { key: "agent:main:main", mcpServers: null },
+    });
+    expect(cleared.ok && cleared.entry.mcpServers).toBeUndefined();
+  });
+
   test("persists elevatedLevel=off (does not clear)", async () => {
     const store: Record<string, SessionEntry> = {};
     const res = await applySessionsPatchToStore({
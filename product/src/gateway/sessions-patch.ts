@@ -226,6 +226,27 @@ export async function applySessionsPatchToStore(params: {
     }
   }
 
+  if ("mcpServers" in patch) {
+    const raw = patch.mcpServers;
+    if (raw === null || raw?.length === 0) {
+      delete next.mcpServers;
+    } else if (raw !== undefined) {
+      const names = new Set<string>();
+      for (const server of raw) {
+        if (Boolean(server.command) === Boolean(server.url)) {
+          return invalid(
+            `invalid mcpServers: "${server.name}" needs exactly one of command or url`,
+          );
+        }
+        if (names.has(server.name)) {
+          return invalid(`invalid mcpServers: duplicate name "${server.name}"`);
+        }
+        names.add(server.name);
+      }
+      next.mcpServers = raw;
+    }
+  }
+
   if ("execHost" in patch) {
     const raw = patch.execHost;
     if (raw === null) {
@@ -0,0 +1,180 @@
+import type { CoderClawConfig } from "../config/config.js";
+import { loadConfig } from "../config/config.js";
+import { loadSessionStore, resolveStorePath } from "../config/sessions.js";
+import type {
+  ExecApprovalForwardingConfig,
+  ExecApprovalForwardTarget,
+} from "../config/types.approvals.js";
+import { createSubsystemLogger } from "../logging/subsystem.js";
+import { parseAgentSessionKey } from "../routing/session-key.js";
+import { isDeliverableMessageChannel, normalizeMessageChannel } from "../utils/message-channel.js";
+import {
+  formatApprovalRequestMessage,
+  formatApprovalResolvedMessage,
+  type LocalApprovalRecord,
+} from "./local-approvals.js";
+import { deliverOutboundPayloads } from "./outbound/deliver.js";
+import { resolveSessionDeliveryTarget } from "./outbound/targets.js";
+
+const log = createSubsystemLogger("gateway/approvals");
+
+export type ApprovalGateForwarder = {
+  handleRequested: (approval: LocalApprovalRecord) => Promise<void>;
+  handleResolved: (approval: LocalApprovalRecord) => Promise<void>;
+  stop: () => void;
+};
+
+export type ApprovalGateForwarderDeps = {
+  getConfig?: () => CoderClawConfig;
+  deliver?: typeof deliverOutboundPayloads;
+  nowMs?: () => number;
+  resolveSessionTarget?: (params: {
+    cfg: CoderClawConfig;
+    approval: LocalApprovalRecord;
+  }) => ExecApprovalForwardTarget | null;
+};
+
+function matchSessionFilter(sessionKey: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => {
+    try {
+      return sessionKey.includes(pattern) || new RegExp(pattern).test(sessionKey);
+    } catch {
+      return sessionKey.includes(pattern);
+    }
+  });
+}
+
+function shouldForward(
+  config: ExecApprovalForwardingConfig | undefined,
+  approval: LocalApprovalRecord,
+): boolean {
+  if (!config?.enabled) {
+    return false;
+  }
+  if (config.agentFilter?.length) {
+    const agentId = parseAgentSessionKey(approval.sessionKey)?.agentId;
+    if (!agentId || !config.agentFilter.includes(agentId)) {
+      return false;
+    }
+  }
+  if (config.sessionFilter?.length) {
+    if (!approval.sessionKey || !matchSessionFilter(approval.sessionKey, config.sessionFilter)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function buildTargetKey(target: ExecApprovalForwardTarget): string {
+  const channel = normalizeMessageChannel(target.channel) ?? target.channel;
+  return [channel, target.to, target.accountId ?? "", target.threadId ?? ""].join(":");
+}
+
+function defaultResolveSessionTarget(params: {
+  cfg: CoderClawConfig;
+  approval: LocalApprovalRecord;
+}): ExecApprovalForwardTarget | null {
+  const sessionKey = params.approval.sessionKey?.trim();
+  if (!sessionKey) {
+    return null;
+  }
+  const agentId = parseAgentSessionKey(sessionKey)?.agentId ?? "main";
+  const store = loadSessionStore(resolveStorePath(params.cfg.session?.store, { agentId }));
+  const entry = store[sessionKey];
+  if (!entry) {
+    return null;
+  }
+  const target = resolveSessionDeliveryTarget({ entry, requestedChannel: "last" });
+  if (!target.channel || !target.to || !isDeliverableMessageChannel(target.channel)) {
+    return null;
+  }
+  return {
+    channel: target.channel,
+    to: target.to,
+    accountId: target.accountId,
+    threadId: target.threadId,
+  };
+}
+
+/**
+ * Deliver approval-gate requests and their outcomes to chat channels, per
+ * `approvals.gate` (same modes and filters as exec approval forwarding).
+ */
+export function createApprovalGateForwarder(
+  deps: ApprovalGateForwarderDeps = {},
+): ApprovalGateForwarder {
+  const getConfig = deps.getConfig ?? loadConfig;
+  const deliver = deps.deliver ?? deliverOutboundPayloads;
+  const nowMs = deps.nowMs ?? Date.now;
+  const resolveSessionTarget = deps.resolveSessionTarget ?? defaultResolveSessionTarget;
+  // Targets each pending approval was sent to, so the outcome goes to the same chats.
+  const pending = new Map<string, ExecApprovalForwardTarget[]>();
+
+  const deliverToTargets = async (
+    cfg: CoderClawConfig,
+    targets: ExecApprovalForwardTarget[],
+    text: string,
+  ) => {
+    await Promise.allSettled(
+      targets.map(async (target) => {
+        const channel = normalizeMessageChannel(target.channel) ?? target.channel;
+        if (!isDeliverableMessageChannel(channel)) {
+          return;
+        }
+        try {
+          await deliver({
+            cfg,
+            channel,
+            to: target.to,
+            accountId: target.accountId,
+            threadId: target.threadId,
+            payloads: [{ text }],
+          });
+        } catch (err) {
+          log.error(`approvals: failed to deliver to ${channel}:${target.to}: ${String(err)}`);
+        }
+      }),
+    );
+  };
+
+  const handleRequested = async (approval: LocalApprovalRecord) => {
+    const cfg = getConfig();
+    const config = cfg.approvals?.gate;
+    if (!shouldForward(config, approval)) {
+      return;
+    }
+    const mode = config?.mode ?? "session";
+    const targets: ExecApprovalForwardTarget[] = [];
+    const seen = new Set<string>();
+    const add = (target: ExecApprovalForwardTarget | null) => {
+      if (target && !seen.has(buildTargetKey(target))) {
+        seen.add(buildTargetKey(target));
+        targets.push(target);
+      }
+    };
+    if (mode === "session" || mode === "both") {
+      add(resolveSessionTarget({ cfg, approval }));
+    }
+    if (mode === "targets" || mode === "both") {
+      for (const target of config?.targets ?? []) {
+        add(target);
+      }
+    }
+    if (targets.length === 0) {
+      return;
+    }
+    pending.set(approval.id, targets);
+    await deliverToTargets(cfg, targets, formatApprovalRequestMessage(approval, nowMs()));
+  };
+
+  const handleResolved = async (approval: LocalApprovalRecord) => {
+    const targets = pending.get(approval.id);
+    if (!targets) {
+      return;
+    }
+    pending.delete(approval.id);
+    await deliverToTargets(getConfig(), targets, formatApprovalResolvedMessage(approval));
+  };
+
+  return { handleRequested, handleResolved, stop: () => pending.clear() };
+}
@@ -6,6 +6,10 @@
  * the request times out).  The relay delivers the decision as an
  * `approval.decision` WebSocket message, which resolves the pending Promise.
  *
+ * Without Builderforce, requests go to the local backend (local-approvals.ts)
+ * when the gateway has attached one: they are broadcast to the TUI, control
+ * UI and chat channels and decided with `/approve <id>` / `/deny <id>`.
+ *
  * Usage:
  *   const result = await requestApproval({
  *     actionType: 'git.push',
@@ -16,9 +20,21 @@
 
 import { logDebug, logWarn } from "../logger.js";
 import { normalizeBaseUrl } from "../utils/normalize-base-url.js";
+import type { LocalApprovalStore } from "./local-approvals.js";
 
 export type ApprovalDecision = "approved" | "rejected" | "timeout";
 
+export type ApprovalRequestOptions = {
+  /** Stable id (local backend only); re-requesting a pending id waits on it. */
+  id?: string;
+  actionType: string;
+  description: string;
+  metadata?: unknown;
+  /** Originating session, used to route chat notifications (local backend only). */
+  sessionKey?: string;
+  timeoutMs?: number;
+};
+
 type PendingEntry = {
   resolve: (decision: ApprovalDecision) => void;
   timer: ReturnType<typeof setTimeout>;
@@ -33,6 +49,7 @@ export class ApprovalGate {
   private baseUrl: string | null = null;
   private clawId: string | null = null;
   private apiKey: string | null = null;
+  private local: LocalApprovalStore | null = null;
   private readonly pending = new Map<string, PendingEntry>();
 
   /**
@@ -45,6 +62,19 @@ export class ApprovalGate {
     this.apiKey = opts.apiKey;
   }
 
+  /**
+   * Attach the local backend used when Builderforce is not configured.
+   * Called once at gateway startup; pass null to detach.
+   */
+  useLocalBackend(store: LocalApprovalStore | null): void {
+    this.local = store;
+  }
+
+  /** The attached local backend, if any. */
+  get localBackend(): LocalApprovalStore | null {
+    return this.local;
+  }
+
   /**
    * Called by the relay when an `approval.decision` WebSocket message arrives.
    * Resolves the corresponding pending Promise.
@@ -63,19 +93,20 @@ export class ApprovalGate {
   /**
    * Request human approval for a high-risk action.
    *
-   * Posts to Builderforce, which notifies the manager via the portal.
-   * Resolves when the manager decides or the timeout expires (default 10 min).
+   * Posts to Builderforce, which notifies the manager via the portal, or
+   * falls back to the local backend. Resolves when someone decides or the
+   * timeout expires (default 10 min).
    *
    * Returns 'approved', 'rejected', or 'timeout'.
-   * Auto-approves when Builderforce is not configured or the request fails.
+   * Auto-approves when neither backend is available or the Builderforce
+   * request fails.
    */
-  async request(opts: {
-    actionType: string;
-    description: string;
-    metadata?: unknown;
-    timeoutMs?: number;
-  }): Promise<ApprovalDecision> {
+  async request(opts: ApprovalRequestOptions): Promise<ApprovalDecision> {
     if (!this.baseUrl || !this.clawId || !this.apiKey) {
+      if (this.local) {
+        logWarn(`[approval-gate] waiting for local approval (${opts.actionType})`);
+        return this.local.request(opts);
+      }
       logWarn("[approval-gate] not configured — standalone mode; auto-approving");
       return "approved";
     }
@@ -138,11 +169,6 @@ export function resolveApproval(approvalId: string, decision: "approved" | "reje
   approvalGate.resolve(approvalId, decision);
 }
 
-export async function requestApproval(opts: {
-  actionType: string;
-  description: string;
-  metadata?: unknown;
-  timeoutMs?: number;
-}): Promise<ApprovalDecision> {
+export async function requestApproval(opts: ApprovalRequestOptions): Promise<ApprovalDecision> {
   return approvalGate.request(opts);
 }
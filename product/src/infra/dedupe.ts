@@ -2,6 +2,8 @@ import { pruneMapToMaxSize } from "./map-size.js";
 
 export type DedupeCache = {
   check: (key: string | undefined | null, now?: number) => boolean;
+  /** Like `check`, but does not record the key. */
+  peek: (key: string | undefined | null, now?: number) => boolean;
   clear: () => void;
   size: () => number;
 };
@@ -51,6 +53,13 @@ export function createDedupeCache(options: DedupeCacheOptions): DedupeCache {
       prune(now);
       return false;
     },
+    peek: (key, now = Date.now()) => {
+      if (!key) {
+        return false;
+      }
+      const existing = cache.get(key);
+      return existing !== undefined && (ttlMs <= 0 || now - existing < ttlMs);
+    },
     clear: () => {
       cache.clear();
     },
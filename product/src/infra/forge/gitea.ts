@@ -0,0 +1,93 @@
+import { BaseForgeProvider, summarizeCiChecks } from "./provider.js";
+import type { ForgeChangeRequest, ForgeCiState, ForgeCiStatus, ForgeIssue } from "./types.js";
+
+type GiteaIssue = {
+  number: number;
+  title: string;
+  body: string | null;
+  html_url: string;
+  labels: Array<{ name: string }> | null;
+  state: string;
+};
+
+type GiteaCommitStatus = {
+  context: string;
+  status: string;
+  target_url?: string | null;
+};
+
+function commitStatusState(status: string): ForgeCiState {
+  if (status === "success") {
+    return "success";
+  }
+  return status === "pending" ? "pending" : "failure";
+}
+
+/**
+ * Gitea and Forgejo (REST v1, Codeberg included). Gitea has no draft flag on
+ * the API; a "WIP:" title prefix marks the pull request as work in progress.
+ */
+export class GiteaForgeProvider extends BaseForgeProvider {
+  readonly changeRequestLabel = "PR";
+
+  protected defaultApiBaseUrl(): string {
+    return `${this.webBaseUrl}/api/v1`;
+  }
+
+  protected authHeaders(token: string): Record<string, string> {
+    return { Authorization: `token ${token}` };
+  }
+
+  private get repoPath(): string {
+    return `/repos/${this.repo.path}`;
+  }
+
+  async fetchIssue(number: number): Promise<ForgeIssue> {
+    const issue = await this.request<GiteaIssue>("GET", `${this.repoPath}/issues/${number}`);
+    return {
+      number: issue.number,
+      title: issue.title,
+      body: issue.body ?? "",
+      url: issue.html_url,
+      labels: (issue.labels ?? []).map((label) => label.name),
+      state: issue.state === "closed" ? "closed" : "open",
+    };
+  }
+
+  async getDefaultBranch(): Promise<string> {
+    const repo = await this.request<{ default_branch?: string }>("GET", this.repoPath);
+    return repo.default_branch ?? "main";
+  }
+
+  async openDraftChangeRequest(params: {
+    head: string;
+    base: string;
+    title: string;
+    body: string;
+  }): Promise<ForgeChangeRequest> {
+    const pr = await this.request<{ number: number; html_url: string }>(
+      "POST",
+      `${this.repoPath}/pulls`,
+      { head: params.head, base: params.base, title: `WIP: ${params.title}`, body: params.body },
+    );
+    return { number: pr.number, url: pr.html_url, draft: true };
+  }
+
+  async comment(issueNumber: number, body: string): Promise<void> {
+    await this.request("POST", `${this.repoPath}/issues/${issueNumber}/comments`, { body });
+  }
+
+  async readCiStatus(ref: string): Promise<ForgeCiStatus> {
+    const combined = await this.request<{ statuses: GiteaCommitStatus[] | null }>(
+      "GET",
+      `${this.repoPath}/commits/${encodeURIComponent(ref)}/status`,
+    );
+    return summarizeCiChecks(
+      (combined.statuses ?? []).map((status) => ({
+        name: status.context,
+        state: commitStatusState(status.status),
+        ...(status.target_url ? { url: status.target_url } : {}),
+      })),
+    );
+  }
+}
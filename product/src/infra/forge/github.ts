@@ -0,0 +1,121 @@
+import { BaseForgeProvider, summarizeCiChecks } from "./provider.js";
+import type { ForgeChangeRequest, ForgeCiState, ForgeCiStatus, ForgeIssue } from "./types.js";
+
+type GitHubIssue = {
+  number: number;
+  title: string;
+  body: string | null;
+  html_url: string;
+  labels: Array<{ name: string } | string>;
+  state: string;
+};
+
+type GitHubCheckRun = {
+  name: string;
+  status: string;
+  conclusion: string | null;
+  html_url?: string;
+};
+
+type GitHubCommitStatus = {
+  context: string;
+  state: string;
+  target_url?: string | null;
+};
+
+function checkRunState(run: GitHubCheckRun): ForgeCiState {
+  if (run.status !== "completed") {
+    return "pending";
+  }
+  return run.conclusion === "success" ||
+    run.conclusion === "neutral" ||
+    run.conclusion === "skipped"
+    ? "success"
+    : "failure";
+}
+
+function commitStatusState(state: string): ForgeCiState {
+  return state === "success" ? "success" : state === "pending" ? "pending" : "failure";
+}
+
+/** github.com and GitHub Enterprise Server (REST v3). */
+export class GitHubForgeProvider extends BaseForgeProvider {
+  readonly changeRequestLabel = "PR";
+
+  protected defaultApiBaseUrl(): string {
+    return this.repo.host === "github.com" ? "https://api.github.com" : `${this.webBaseUrl}/api/v3`;
+  }
+
+  protected authHeaders(token: string): Record<string, string> {
+    return {
+      Accept: "application/vnd.github+json",
+      Authorization: `Bearer ${token}`,
+      "X-GitHub-Api-Version": "2022-11-28",
+    };
+  }
+
+  private get repoPath(): string {
+    return `/repos/${this.repo.path}`;
+  }
+
+  async fetchIssue(number: number): Promise<ForgeIssue> {
+    const issue = await this.request<GitHubIssue>("GET", `${this.repoPath}/issues/${number}`);
+    return {
+      number: issue.number,
+      title: issue.title,
+      body: issue.body ?? "",
+      url: issue.html_url,
+      labels: issue.labels.map((label) => (typeof label === "string" ? label : label.name)),
+      state: issue.state === "closed" ? "closed" : "open",
+    };
+  }
+
+  async getDefaultBranch(): Promise<string> {
+    const repo = await this.request<{ default_branch?: string }>("GET", this.repoPath);
+    return repo.default_branch ?? "main";
+  }
+
+  async openDraftChangeRequest(params: {
+    head: string;
+    base: string;
+    title: string;
+    body: string;
+  }): Promise<ForgeChangeRequest> {
+    const pr = await this.request<{ number: number; html_url: string; draft?: boolean }>(
+      "POST",
+      `${this.repoPath}/pulls`,
+      { ...params, draft: true },
+    );
+    return { number: pr.number, url: pr.html_url, draft: pr.draft ?? true };
+  }
+
+  async comment(issueNumber: number, body: string): Promise<void> {
+    await this.request("POST", `${this.repoPath}/issues/${issueNumber}/comments`, { body });
+  }
+
+  async readCiStatus(ref: string): Promise<ForgeCiStatus> {
+    const encoded = encodeURIComponent(ref);
+    const [runs, combined] = await Promise.all([
+      this.request<{ check_runs: GitHubCheckRun[] }>(
+        "GET",
+        `${this.repoPath}/commits/${encoded}/check-runs`,
+      ),
+      this.request<{ statuses: GitHubCommitStatus[] }>(
+        "GET",
+        `${this.repoPath}/commits/${encoded}/status`,
+      ),
+    ]);
+    return summarizeCiChecks([
+      ...runs.check_runs.map((run) => ({
+        name: run.name,
+        state: checkRunState(run),
+        ...(run.html_url ? { url: run.html_url } : {}),
+      })),
+      ...combined.statuses.map((status) => ({
+        name: status.context,
+        state: commitStatusState(status.state),
+        ...(status.target_url ? { url: status.target_url } : {}),
+      })),
+    ]);
+  }
+}
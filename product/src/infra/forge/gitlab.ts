@@ -0,0 +1,107 @@
+import { BaseForgeProvider, summarizeCiChecks } from "./provider.js";
+import type { ForgeChangeRequest, ForgeCiState, ForgeCiStatus, ForgeIssue } from "./types.js";
+
+type GitLabIssue = {
+  iid: number;
+  title: string;
+  description: string | null;
+  web_url: string;
+  labels: string[];
+  state: string;
+};
+
+type GitLabPipeline = {
+  id: number;
+  status: string;
+  web_url?: string;
+};
+
+const PENDING_PIPELINE_STATUSES = new Set([
+  "created",
+  "waiting_for_resource",
+  "preparing",
+  "pending",
+  "running",
+  "scheduled",
+  "manual",
+]);
+
+function pipelineState(status: string): ForgeCiState {
+  if (status === "success" || status === "skipped") {
+    return "success";
+  }
+  return PENDING_PIPELINE_STATUSES.has(status) ? "pending" : "failure";
+}
+
+/** gitlab.com and self-managed GitLab (REST v4). Change requests are merge requests. */
+export class GitLabForgeProvider extends BaseForgeProvider {
+  readonly changeRequestLabel = "MR";
+
+  protected defaultApiBaseUrl(): string {
+    return `${this.webBaseUrl}/api/v4`;
+  }
+
+  protected authHeaders(token: string): Record<string, string> {
+    return { "PRIVATE-TOKEN": token };
+  }
+
+  /** Projects are addressed by their URL-encoded full path, subgroups included. */
+  private get projectPath(): string {
+    return `/projects/${encodeURIComponent(this.repo.path)}`;
+  }
+
+  async fetchIssue(number: number): Promise<ForgeIssue> {
+    const issue = await this.request<GitLabIssue>("GET", `${this.projectPath}/issues/${number}`);
+    return {
+      number: issue.iid,
+      title: issue.title,
+      body: issue.description ?? "",
+      url: issue.web_url,
+      labels: issue.labels,
+      state: issue.state === "closed" ? "closed" : "open",
+    };
+  }
+
+  async getDefaultBranch(): Promise<string> {
+    const project = await this.request<{ default_branch?: string }>("GET", this.projectPath);
+    return project.default_branch ?? "main";
+  }
+
+  async openDraftChangeRequest(params: {
+    head: string;
+    base: string;
+    title: string;
+    body: string;
+  }): Promise<ForgeChangeRequest> {
+    const mr = await this.request<{ iid: number; web_url: string; draft?: boolean }>(
+      "POST",
+      `${this.projectPath}/merge_requests`,
+      {
+        source_branch: params.head,
+        target_branch: params.base,
+        title: `Draft: ${params.title}`,
+        description: params.body,
+      },
+    );
+    return { number: mr.iid, url: mr.web_url, draft: mr.draft ?? true };
+  }
+
+  async comment(issueNumber: number, body: string): Promise<void> {
+    await this.request("POST", `${this.projectPath}/issues/${issueNumber}/notes`, { body });
+  }
+
+  /** State of the latest pipeline for the ref. */
+  async readCiStatus(ref: string): Promise<ForgeCiStatus> {
+    const pipelines = await this.request<GitLabPipeline[]>(
+      "GET",
+      `${this.projectPath}/pipelines?ref=${encodeURIComponent(ref)}&per_page=1`,
+    );
+    return summarizeCiChecks(
+      pipelines.slice(0, 1).map((pipeline) => ({
+        name: `pipeline #${pipeline.id}`,
+        state: pipelineState(pipeline.status),
+        ...(pipeline.web_url ? { url: pipeline.web_url } : {}),
+      })),
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { GiteaForgeProvider } from "./gitea.js";
+import { GitHubForgeProvider } from "./github.js";
+import { GitLabForgeProvider } from "./gitlab.js";
+import type { ForgeProviderOptions } from "./provider.js";
+import type { ForgeKind, ForgeProvider } from "./types.js";
+
+export { ForgeApiError, summarizeCiChecks, type ForgeProviderOptions } from "./provider.js";
+export {
+  detectForgeKind,
+  detectForgeRepo,
+  forgeWebBaseUrl,
+  isSameForgeRepo,
+  parseForgeIssueRef,
+  parseGitRemoteUrl,
+  resolveForgeIssueRef,
+  type ForgeIssueRef,
+  type ParsedForgeIssueRef,
+} from "./refs.js";
+export type * from "./types.js";
+export { GiteaForgeProvider, GitHubForgeProvider, GitLabForgeProvider };
+
+const FORGE_TOKEN_ENV: Record<ForgeKind, string[]> = {
+  github: ["GITHUB_TOKEN", "GH_TOKEN"],
+  gitlab: ["GITLAB_TOKEN"],
+  gitea: ["GITEA_TOKEN"],
+};
+
+/** API token for a forge from its env vars, if set. */
+export function resolveForgeToken(
+  kind: ForgeKind,
+  env: NodeJS.ProcessEnv = process.env,
+): string | undefined {
+  for (const key of FORGE_TOKEN_ENV[kind]) {
+    const value = env[key]?.trim();
+    if (value) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/** Env var names checked for a forge's token, for error messages. */
+export function forgeTokenEnvNames(kind: ForgeKind): string[] {
+  return FORGE_TOKEN_ENV[kind];
+}
+
+export function createForgeProvider(opts: ForgeProviderOptions): ForgeProvider {
+  switch (opts.repo.kind) {
+    case "github":
+      return new GitHubForgeProvider(opts);
+    case "gitlab":
+      return new GitLabForgeProvider(opts);
+    case "gitea":
+      return new GiteaForgeProvider(opts);
+  }
+}
@@ -0,0 +1,128 @@
+import { runCommandWithTimeout } from "../../process/exec.js";
+import { GitCommandError } from "../git-task-worktrees.js";
+import type {
+  ForgeChangeRequest,
+  ForgeCiState,
+  ForgeCiStatus,
+  ForgeIssue,
+  ForgeProvider,
+  ForgeRepo,
+} from "./types.js";
+
+const DEFAULT_GIT_TIMEOUT_MS = 120_000;
+const DEFAULT_API_TIMEOUT_MS = 30_000;
+
+export type ForgeProviderOptions = {
+  repo: ForgeRepo;
+  token: string;
+  /** Local checkout used for branch and push. */
+  repoRoot: string;
+  /** Git remote pointing at the forge. Default "origin". */
+  remote?: string;
+  /** Instance web root. Default `https://<repo.host>`. */
+  webBaseUrl?: string;
+  /** API root override, e.g. a local stand-in in tests. Default derived from the web root. */
+  apiBaseUrl?: string;
+  timeoutMs?: number;
+};
+
+export class ForgeApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly endpoint: string,
+    detail: string,
+  ) {
+    super(`forge API ${endpoint} failed (${status}): ${detail.trim().slice(0, 500) || "no body"}`);
+    this.name = "ForgeApiError";
+  }
+}
+
+/** Worst state wins: failure, then pending, then success; no checks is "none". */
+export function summarizeCiChecks(checks: ForgeCiStatus["checks"]): ForgeCiStatus {
+  const states = new Set<ForgeCiState>(checks.map((check) => check.state));
+  const state: ForgeCiState = states.has("failure")
+    ? "failure"
+    : states.has("pending")
+      ? "pending"
+      : states.has("success")
+        ? "success"
+        : "none";
+  return { state, checks };
+}
+
+/**
+ * Shared git and HTTP plumbing. Branches and pushes go through the local
+ * checkout (using the user's git credentials for the remote); everything else
+ * goes through the forge's REST API with the token.
+ */
+export abstract class BaseForgeProvider implements ForgeProvider {
+  readonly repo: ForgeRepo;
+  abstract readonly changeRequestLabel: string;
+  protected readonly webBaseUrl: string;
+  protected readonly apiBaseUrl: string;
+  private readonly token: string;
+  private readonly repoRoot: string;
+  private readonly remote: string;
+  private readonly timeoutMs: number;
+
+  constructor(opts: ForgeProviderOptions) {
+    this.repo = opts.repo;
+    this.token = opts.token;
+    this.repoRoot = opts.repoRoot;
+    this.remote = opts.remote ?? "origin";
+    this.timeoutMs = opts.timeoutMs ?? DEFAULT_API_TIMEOUT_MS;
+    this.webBaseUrl = (opts.webBaseUrl ?? `https://${opts.repo.host}`).replace(/\/+$/, "");
+    this.apiBaseUrl = (opts.apiBaseUrl ?? this.defaultApiBaseUrl()).replace(/\/+$/, "");
+  }
+
+  protected abstract defaultApiBaseUrl(): string;
+  protected abstract authHeaders(token: string): Record<string, string>;
+
+  abstract fetchIssue(number: number): Promise<ForgeIssue>;
+  abstract getDefaultBranch(): Promise<string>;
+  abstract openDraftChangeRequest(params: {
+    head: string;
+    base: string;
+    title: string;
+    body: string;
+  }): Promise<ForgeChangeRequest>;
+  abstract comment(issueNumber: number, body: string): Promise<void>;
+  abstract readCiStatus(ref: string): Promise<ForgeCiStatus>;
+
+  async createBranch(branch: string, from: string): Promise<void> {
+    await this.git(["branch", branch, from]);
+  }
+
+  async push(branch: string): Promise<void> {
+    await this.git(["push", this.remote, `refs/heads/${branch}:refs/heads/${branch}`]);
+  }
+
+  protected async request<T>(method: "GET" | "POST", endpoint: string, body?: unknown): Promise<T> {
+    const res = await fetch(`${this.apiBaseUrl}${endpoint}`, {
+      method,
+      headers: {
+        Accept: "application/json",
+        "User-Agent": "CoderClaw/1.0",
+        ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+        ...this.authHeaders(this.token),
+      },
+      ...(body !== undefined ? { body: JSON.stringify(body) } : {}),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+    if (!res.ok) {
+      throw new ForgeApiError(res.status, `${method} ${endpoint}`, await res.text());
+    }
+    return (await res.json()) as T;
+  }
+
+  private async git(args: string[]): Promise<string> {
+    const result = await runCommandWithTimeout(["git", ...args], {
+      cwd: this.repoRoot,
+      timeoutMs: DEFAULT_GIT_TIMEOUT_MS,
+    });
+    if (result.code !== 0) {
+      throw new GitCommandError(args, result.stderr);
+    }
+    return result.stdout;
+  }
+}
@@ -0,0 +1,222 @@
+import { execFileSync } from "node:child_process";
+import fs from "node:fs/promises";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { GitCommandError } from "../git-task-worktrees.js";
+import { createForgeProvider, ForgeApiError } from "./index.js";
+import type { ForgeKind } from "./types.js";
+
+const GIT_ENV = {
+  ...process.env,
+  GIT_AUTHOR_NAME: "test",
+  GIT_AUTHOR_EMAIL: "test@example.com",
+  GIT_COMMITTER_NAME: "test",
+  GIT_COMMITTER_EMAIL: "test@example.com",
+};
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync("git", args, { cwd, env: GIT_ENV, encoding: "utf-8" });
+}
+
+type RecordedRequest = {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: unknown;
+};
+
+/** Local stand-in for a forge API: canned JSON per "METHOD path", 404 otherwise. */
+async function startForgeStandIn(routes: Record<string, unknown>) {
+  const requests: RecordedRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk: Buffer) => {
+      raw += chunk.toString("utf-8");
+    });
+    req.on("end", () => {
+      const key = `${req.method} ${req.url}`;
+      requests.push({
+        method: req.method ?? "",
+        url: req.url ?? "",
+        headers: req.headers,
+        body: raw ? JSON.parse(raw) : undefined,
+      });
+      const payload = routes[key];
+      res.writeHead(payload === undefined ? 404 : 200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(payload ?? { message: `no route for ${key}` }));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    requests,
+    baseUrl: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+describe("forge providers", () => {
+  let root: string;
+  let repo: string;
+  let origin: string;
+  let standIn: Awaited<ReturnType<typeof startForgeStandIn>> | undefined;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), "forge-providers-"));
+    origin = path.join(root, "origin.git");
+    repo = path.join(root, "work");
+    git(root, "init", "-q", "--bare", origin);
+    git(root, "init", "-q", "-b", "main", repo);
+    await fs.writeFile(path.join(repo, "a.txt"), "a\n", "utf-8");
+    git(repo, "add", "-A");
+    git(repo, "commit", "-q", "-m", "init");
+    git(repo, "remote", "add", "origin", origin);
+  });
+
+  afterEach(async () => {
+    await standIn?.close();
+    standIn = undefined;
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  function provider(kind: ForgeKind, repoPath: string, apiBaseUrl: string) {
+    return createForgeProvider({
+      repo: { kind, host: "forge.test", path: repoPath },
+      token: "secret",
+      repoRoot: repo,
+      apiBaseUrl,
+    });
+  }
+
+  it("GitHub: fetches issues, opens a draft PR, comments and aggregates CI", async () => {
+    standIn = await startForgeStandIn({
+      "GET /repos/o/r/issues/42": {
+        number: 42,
+        title: "Crash on save",
+        body: null,
+        html_url: "https://github.com/o/r/issues/42",
+        labels: [{ name: "bug" }],
+        state: "open",
+      },
+      "GET /repos/o/r": { default_branch: "trunk" },
+      "POST /repos/o/r/pulls": {
+        number: 7,
+        html_url: "https://github.com/o/r/pull/7",
+        draft: true,
+      },
+      "POST /repos/o/r/issues/42/comments": { id: 1 },
+      "GET /repos/o/r/commits/claw%2Fissue-42/check-runs": {
+        check_runs: [
+          { name: "build", status: "completed", conclusion: "success" },
+          { name: "test", status: "in_progress", conclusion: null },
+        ],
+      },
+      "GET /repos/o/r/commits/claw%2Fissue-42/status": {
+        statuses: [{ context: "lint", state: "success" }],
+      },
+    });
+    const forge = provider("github", "o/r", standIn.baseUrl);
+
+    expect(await forge.fetchIssue(42)).toEqual({
+      number: 42,
+      title: "Crash on save",
+      body: "",
+      url: "https://github.com/o/r/issues/42",
+      labels: ["bug"],
+      state: "open",
+    });
+    expect(await forge.getDefaultBranch()).toBe("trunk");
+    expect(
+      await forge.openDraftChangeRequest({
+        head: "claw/issue-42",
+        base: "trunk",
+        title: "t",
+        body: "b",
+      }),
+    ).toEqual({ number: 7, url: "https://github.com/o/r/pull/7", draft: true });
+    await forge.comment(42, "see #7");
+    const ci = await forge.readCiStatus("claw/issue-42");
+    expect(ci.state).toBe("pending");
+    expect(ci.checks.map((check) => check.name)).toEqual(["build", "test", "lint"]);
+
+    const pull = standIn.requests.find((req) => req.url === "/repos/o/r/pulls");
+    expect(pull?.body).toEqual({
+      head: "claw/issue-42",
+      base: "trunk",
+      title: "t",
+      body: "b",
+      draft: true,
+    });
+    expect(pull?.headers.authorization).toBe("Bearer secret");
+  });
+
+  it("GitLab: addresses subgroup projects and opens Draft merge requests", async () => {
+    const project = "/projects/group%2Fsub%2Fproj";
+    standIn = await startForgeStandIn({
+      [`GET ${project}/issues/12`]: {
+        iid: 12,
+        title: "Add export",
+        description: "CSV please",
+        web_url: "https://gitlab.test/group/sub/proj/-/issues/12",
+        labels: ["feature"],
+        state: "opened",
+      },
+      [`POST ${project}/merge_requests`]: { iid: 3, web_url: "https://gitlab.test/mr/3" },
+      [`POST ${project}/issues/12/notes`]: { id: 9 },
+      [`GET ${project}/pipelines?ref=feat%2F12&per_page=1`]: [
+        { id: 55, status: "failed", web_url: "https://gitlab.test/p/55" },
+      ],
+    });
+    const forge = provider("gitlab", "group/sub/proj", standIn.baseUrl);
+
+    expect(forge.changeRequestLabel).toBe("MR");
+    expect((await forge.fetchIssue(12)).state).toBe("open");
+    expect(
+      await forge.openDraftChangeRequest({
+        head: "feat/12",
+        base: "main",
+        title: "Add export",
+        body: "b",
+      }),
+    ).toEqual({ number: 3, url: "https://gitlab.test/mr/3", draft: true });
+    await forge.comment(12, "MR opened");
+    expect(await forge.readCiStatus("feat/12")).toEqual({
+      state: "failure",
+      checks: [{ name: "pipeline #55", state: "failure", url: "https://gitlab.test/p/55" }],
+    });
+
+    const mr = standIn.requests.find((req) => req.url.endsWith("/merge_requests"));
+    expect(mr?.body).toMatchObject({ source_branch: "feat/12", title: "Draft: Add export" });
+    expect(mr?.headers["private-token"]).toBe("secret");
+  });
+
+  it("Gitea: uses token auth, WIP titles and combined commit status", async () => {
+    standIn = await startForgeStandIn({
+      "POST /repos/o/r/pulls": { number: 4, html_url: "https://gitea.test/o/r/pulls/4" },
+      "GET /repos/o/r/commits/main/status": { statuses: null },
+    });
+    const forge = provider("gitea", "o/r", standIn.baseUrl);
+
+    await forge.openDraftChangeRequest({ head: "h", base: "main", title: "Fix", body: "" });
+    expect(standIn.requests[0]?.body).toMatchObject({ title: "WIP: Fix" });
+    expect(standIn.requests[0]?.headers.authorization).toBe("token secret");
+    expect(await forge.readCiStatus("main")).toEqual({ state: "none", checks: [] });
+    await expect(forge.fetchIssue(1)).rejects.toBeInstanceOf(ForgeApiError);
+  });
+
+  it("creates and pushes branches through the local checkout", async () => {
+    const forge = provider("gitea", "o/r", "http://127.0.0.1:9");
+
+    await forge.createBranch("claw/issue-1-x", "main");
+    await forge.push("claw/issue-1-x");
+    expect(git(origin, "rev-parse", "refs/heads/claw/issue-1-x").trim()).toBe(
+      git(repo, "rev-parse", "main").trim(),
+    );
+    await expect(forge.createBranch("claw/issue-1-x", "main")).rejects.toBeInstanceOf(
+      GitCommandError,
+    );
+  });
+});
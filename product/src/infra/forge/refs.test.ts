@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import {
+  detectForgeKind,
+  forgeWebBaseUrl,
+  parseForgeIssueRef,
+  parseGitRemoteUrl,
+  resolveForgeIssueRef,
+} from "./refs.js";
+
+describe("parseForgeIssueRef", () => {
+  it("parses short, prefixed and bare refs", () => {
+    expect(parseForgeIssueRef("owner/repo#42")).toEqual({ path: "owner/repo", number: 42 });
+    expect(parseForgeIssueRef("#7")).toEqual({ path: "", number: 7 });
+    expect(parseForgeIssueRef("gitlab:group/sub/proj#12")).toEqual({
+      kind: "gitlab",
+      path: "group/sub/proj",
+      number: 12,
+    });
+    expect(parseForgeIssueRef("gitea:owner/repo#3")?.kind).toBe("gitea");
+  });
+
+  it("parses GitHub and GitLab issue URLs", () => {
+    expect(parseForgeIssueRef("https://github.com/owner/repo/issues/42")).toEqual({
+      host: "github.com",
+      path: "owner/repo",
+      number: 42,
+    });
+    expect(parseForgeIssueRef("https://git.example.com/group/sub/proj/-/issues/12")).toEqual({
+      host: "git.example.com",
+      path: "group/sub/proj",
+      number: 12,
+    });
+  });
+
+  it("rejects unknown prefixes and malformed refs", () => {
+    expect(parseForgeIssueRef("bitbucket:owner/repo#1")).toBeNull();
+    expect(parseForgeIssueRef("repo#1")).toBeNull();
+    expect(parseForgeIssueRef("owner/repo")).toBeNull();
+    expect(parseForgeIssueRef("https://github.com/owner/repo/pull/4")).toBeNull();
+  });
+});
+
+describe("parseGitRemoteUrl", () => {
+  it("handles scp, ssh and https remotes", () => {
+    expect(parseGitRemoteUrl("git@github.com:owner/repo.git")).toEqual({
+      host: "github.com",
+      path: "owner/repo",
+    });
+    expect(parseGitRemoteUrl("ssh://git@gitlab.example.com:2222/group/sub/proj.git")).toEqual({
+      host: "gitlab.example.com",
+      path: "group/sub/proj",
+    });
+    expect(parseGitRemoteUrl("http://gitea.internal:3000/owner/repo")).toEqual({
+      host: "gitea.internal:3000",
+      path: "owner/repo",
+    });
+    expect(parseGitRemoteUrl("/srv/git/repo.git")).toBeNull();
+  });
+});
+
+describe("detectForgeKind", () => {
+  it("only knows public instances and *_URL hosts", () => {
+    expect(detectForgeKind("github.com", {})).toBe("github");
+    expect(detectForgeKind("codeberg.org", {})).toBe("gitea");
+    expect(detectForgeKind("code.corp", { GITLAB_URL: "https://code.corp/" })).toBe("gitlab");
+    expect(detectForgeKind("gitea.internal:3000", {})).toBeUndefined();
+    expect(detectForgeKind("github.evil.tld", {})).toBeUndefined();
+    expect(detectForgeKind("bitbucket.org", {})).toBeUndefined();
+  });
+});
+
+describe("resolveForgeIssueRef", () => {
+  const remote = { kind: "gitlab" as const, host: "code.corp", path: "team/app" };
+
+  it("fills bare refs from the project remote", () => {
+    expect(resolveForgeIssueRef({ path: "", number: 5 }, remote, {})).toEqual({
+      ...remote,
+      number: 5,
+    });
+    expect(
+      resolveForgeIssueRef({ kind: "gitlab", path: "team/lib", number: 2 }, remote, {}),
+    ).toEqual({ kind: "gitlab", host: "code.corp", path: "team/lib", number: 2 });
+  });
+
+  it("falls back to the public instance or the *_URL env var for other forges", () => {
+    expect(resolveForgeIssueRef({ path: "owner/repo", number: 1 }, null, {})).toEqual({
+      kind: "github",
+      host: "github.com",
+      path: "owner/repo",
+      number: 1,
+    });
+    expect(
+      resolveForgeIssueRef({ kind: "gitea", path: "o/r", number: 3 }, remote, {
+        GITEA_URL: "http://127.0.0.1:3000",
+      }).host,
+    ).toBe("127.0.0.1:3000");
+    expect(() => resolveForgeIssueRef({ kind: "gitea", path: "o/r", number: 3 }, null, {})).toThrow(
+      "Set GITEA_URL",
+    );
+    expect(() => resolveForgeIssueRef({ path: "", number: 3 }, null, {})).toThrow(
+      "needs a git remote",
+    );
+  });
+
+  it("refuses issue URLs on hosts that are not the remote, public or configured", () => {
+    expect(
+      resolveForgeIssueRef({ host: "code.corp", path: "team/lib", number: 4 }, remote, {}),
+    ).toEqual({ kind: "gitlab", host: "code.corp", path: "team/lib", number: 4 });
+    expect(
+      resolveForgeIssueRef(parseForgeIssueRef("https://github.com/o/r/issues/1")!, remote, {}).kind,
+    ).toBe("github");
+    for (const url of ["https://github.evil.tld/o/r/issues/1", "https://evil.tld/o/r/-/issues/1"]) {
+      expect(() => resolveForgeIssueRef(parseForgeIssueRef(url)!, remote, {})).toThrow(
+        "not the project's remote or a known forge host",
+      );
+    }
+  });
+
+  it("keeps the *_URL scheme for the web root of the same host", () => {
+    const repo = { kind: "gitea" as const, host: "127.0.0.1:3000", path: "o/r" };
+    expect(forgeWebBaseUrl(repo, { GITEA_URL: "http://127.0.0.1:3000/" })).toBe(
+      "http://127.0.0.1:3000",
+    );
+    expect(forgeWebBaseUrl(repo, {})).toBe("https://127.0.0.1:3000");
+  });
+});
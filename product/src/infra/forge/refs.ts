@@ -0,0 +1,213 @@
+import { runCommandWithTimeout } from "../../process/exec.js";
+import type { ForgeKind, ForgeRepo } from "./types.js";
+
+const FORGE_KINDS: ForgeKind[] = ["github", "gitlab", "gitea"];
+
+/** Public instances used when a ref names a forge but neither the remote nor env gives a host. */
+const DEFAULT_FORGE_HOSTS: Partial<Record<ForgeKind, string>> = {
+  github: "github.com",
+  gitlab: "gitlab.com",
+};
+
+/** Env vars naming a self-hosted instance, e.g. GITLAB_URL=https://gitlab.example.com. */
+const FORGE_URL_ENV: Record<ForgeKind, string> = {
+  github: "GITHUB_URL",
+  gitlab: "GITLAB_URL",
+  gitea: "GITEA_URL",
+};
+
+/** An issue reference as written; `kind`/`host` are filled in by resolveForgeIssueRef(). */
+export type ParsedForgeIssueRef = {
+  kind?: ForgeKind;
+  host?: string;
+  /** Empty for "#12", which refers to the project's own remote. */
+  path: string;
+  number: number;
+};
+
+export type ForgeIssueRef = ForgeRepo & { number: number };
+
+function isForgeKind(value: string): value is ForgeKind {
+  return (FORGE_KINDS as string[]).includes(value);
+}
+
+function hostFromUrl(raw: string | undefined): string | undefined {
+  if (!raw?.trim()) {
+    return undefined;
+  }
+  try {
+    return new URL(raw.trim()).host.toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Parse an issue reference:
+ *   - `owner/repo#42`, `#42` (the project's remote)
+ *   - `gitlab:group/sub/proj#12`, `gitea:owner/repo#3`, `github:owner/repo#42`
+ *   - issue URLs: `https://github.com/o/r/issues/42`, `https://host/group/proj/-/issues/12`
+ */
+export function parseForgeIssueRef(ref: string): ParsedForgeIssueRef | null {
+  const trimmed = ref.trim();
+  if (/^https?:\/\//i.test(trimmed)) {
+    let url: URL;
+    try {
+      url = new URL(trimmed);
+    } catch {
+      return null;
+    }
+    // The forge is never guessed from the URL shape; the host decides (see resolveForgeIssueRef).
+    const match = url.pathname.match(/^\/(.+?)\/(?:-\/)?issues\/(\d+)\/?$/);
+    if (!match) {
+      return null;
+    }
+    return {
+      host: url.host.toLowerCase(),
+      path: match[1],
+      number: Number.parseInt(match[2], 10),
+    };
+  }
+  const match = trimmed.match(/^(?:([a-z]+):)?([^#\s]*)#(\d+)$/i);
+  if (!match) {
+    return null;
+  }
+  const kind = match[1]?.toLowerCase();
+  if (kind !== undefined && !isForgeKind(kind)) {
+    return null;
+  }
+  const path = match[2].replace(/^\/+|\/+$/g, "");
+  if (path && !path.includes("/")) {
+    return null;
+  }
+  return { ...(kind ? { kind } : {}), path, number: Number.parseInt(match[3], 10) };
+}
+
+/**
+ * Forge kind for a web host: the public instances and hosts named by *_URL env
+ * vars. Anything else is unknown, so a forge token is never sent to it.
+ */
+export function detectForgeKind(
+  host: string,
+  env: NodeJS.ProcessEnv = process.env,
+): ForgeKind | undefined {
+  const normalized = host.toLowerCase();
+  if (normalized === "github.com") {
+    return "github";
+  }
+  if (normalized === "gitlab.com") {
+    return "gitlab";
+  }
+  if (normalized === "codeberg.org") {
+    return "gitea";
+  }
+  return FORGE_KINDS.find((kind) => hostFromUrl(env[FORGE_URL_ENV[kind]]) === normalized);
+}
+
+/** Host and repo path of a git remote URL (https, ssh:// or scp-style). */
+export function parseGitRemoteUrl(remoteUrl: string): { host: string; path: string } | null {
+  const trimmed = remoteUrl.trim();
+  const scp = trimmed.match(/^(?:[^@/\s]+@)?([^:/\s]+):(?!\/)(.+)$/);
+  if (scp && !/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed)) {
+    return { host: scp[1].toLowerCase(), path: scp[2].replace(/\.git$/, "").replace(/\/+$/, "") };
+  }
+  let url: URL;
+  try {
+    url = new URL(trimmed);
+  } catch {
+    return null;
+  }
+  if (!["http:", "https:", "ssh:", "git:"].includes(url.protocol)) {
+    return null;
+  }
+  const path = url.pathname
+    .replace(/^\/+/, "")
+    .replace(/\.git$/, "")
+    .replace(/\/+$/, "");
+  if (!path.includes("/")) {
+    return null;
+  }
+  // An ssh port is not the web port, so only http(s) remotes keep theirs.
+  const host = url.protocol.startsWith("http") ? url.host : url.hostname;
+  return { host: host.toLowerCase(), path };
+}
+
+/**
+ * Web root of a forge repo's instance. Keeps the scheme of the kind's *_URL
+ * env var when it names the same host (plain-http instances), else https.
+ */
+export function forgeWebBaseUrl(repo: ForgeRepo, env: NodeJS.ProcessEnv = process.env): string {
+  const configured = env[FORGE_URL_ENV[repo.kind]]?.trim();
+  if (configured && hostFromUrl(configured) === repo.host) {
+    return new URL(configured).origin;
+  }
+  return `https://${repo.host}`;
+}
+
+/** Whether two refs name the same repository (forge paths are case-insensitive). */
+export function isSameForgeRepo(a: ForgeRepo, b: ForgeRepo | null): boolean {
+  return (
+    b !== null &&
+    a.kind === b.kind &&
+    a.host === b.host &&
+    a.path.toLowerCase() === b.path.toLowerCase()
+  );
+}
+
+/** Forge repo of the project's git remote, or null when it is missing or not a known forge. */
+export async function detectForgeRepo(params: {
+  projectRoot: string;
+  remote?: string;
+  env?: NodeJS.ProcessEnv;
+}): Promise<ForgeRepo | null> {
+  const result = await runCommandWithTimeout(
+    ["git", "remote", "get-url", params.remote ?? "origin"],
+    { cwd: params.projectRoot, timeoutMs: 5_000 },
+  ).catch(() => null);
+  if (!result || result.code !== 0) {
+    return null;
+  }
+  const parsed = parseGitRemoteUrl(result.stdout);
+  const kind = parsed ? detectForgeKind(parsed.host, params.env) : undefined;
+  return parsed && kind ? { kind, ...parsed } : null;
+}
+
+/**
+ * Fill in the forge and host of a parsed ref. Refs without a host use the
+ * project's remote when it is the same kind of forge, then the kind's *_URL
+ * env var, then the public instance. Refs with a host (issue URLs) must name
+ * the remote's host, a public instance or a *_URL host, since the kind's
+ * token is sent there. Throws when no trusted host can be found.
+ */
+export function resolveForgeIssueRef(
+  parsed: ParsedForgeIssueRef,
+  remote: ForgeRepo | null,
+  env: NodeJS.ProcessEnv = process.env,
+): ForgeIssueRef {
+  if (parsed.host) {
+    const kind = remote?.host === parsed.host ? remote.kind : detectForgeKind(parsed.host, env);
+    if (!kind || (parsed.kind && parsed.kind !== kind)) {
+      throw new Error(
+        `${parsed.host} is not the project's remote or a known forge host; set ${parsed.kind ? FORGE_URL_ENV[parsed.kind] : "GITHUB_URL, GITLAB_URL or GITEA_URL"} to use it.`,
+      );
+    }
+    return { kind, host: parsed.host, path: parsed.path, number: parsed.number };
+  }
+  if (remote && (!parsed.kind || parsed.kind === remote.kind)) {
+    return {
+      kind: remote.kind,
+      host: remote.host,
+      path: parsed.path || remote.path,
+      number: parsed.number,
+    };
+  }
+  if (!parsed.path) {
+    throw new Error(`"#${parsed.number}" needs a git remote on a known forge.`);
+  }
+  const kind = parsed.kind ?? "github";
+  const host = hostFromUrl(env[FORGE_URL_ENV[kind]]) ?? DEFAULT_FORGE_HOSTS[kind];
+  if (!host) {
+    throw new Error(`Set ${FORGE_URL_ENV[kind]} to the ${kind} instance URL.`);
+  }
+  return { kind, host, path: parsed.path, number: parsed.number };
+}
@@ -0,0 +1,54 @@
+export type ForgeKind = "github" | "gitlab" | "gitea";
+
+export type ForgeRepo = {
+  kind: ForgeKind;
+  /** Web host, with port when not the default (e.g. "gitea.internal:3000"). */
+  host: string;
+  /** Repository path: "owner/repo", or "group/subgroup/project" on GitLab. */
+  path: string;
+};
+
+export type ForgeIssue = {
+  number: number;
+  title: string;
+  body: string;
+  url: string;
+  labels: string[];
+  state: "open" | "closed";
+};
+
+/** A pull request (GitHub, Gitea) or merge request (GitLab). */
+export type ForgeChangeRequest = {
+  number: number;
+  url: string;
+  draft: boolean;
+};
+
+export type ForgeCiState = "success" | "failure" | "pending" | "none";
+
+export type ForgeCiStatus = {
+  /** Worst state across all checks; "none" when the ref has no CI results. */
+  state: ForgeCiState;
+  checks: Array<{ name: string; state: ForgeCiState; url?: string }>;
+};
+
+/** Operations the issue workflow needs from a code forge. */
+export interface ForgeProvider {
+  readonly repo: ForgeRepo;
+  /** "PR" or "MR", for messages. */
+  readonly changeRequestLabel: string;
+  fetchIssue(number: number): Promise<ForgeIssue>;
+  getDefaultBranch(): Promise<string>;
+  /** Create a local branch at `from` (a branch name or commit). */
+  createBranch(branch: string, from: string): Promise<void>;
+  /** Push a local branch to the forge remote under the same name. */
+  push(branch: string): Promise<void>;
+  openDraftChangeRequest(params: {
+    head: string;
+    base: string;
+    title: string;
+    body: string;
+  }): Promise<ForgeChangeRequest>;
+  comment(issueNumber: number, body: string): Promise<void>;
+  readCiStatus(ref: string): Promise<ForgeCiStatus>;
+}
@@ -0,0 +1,104 @@
+import { execFileSync } from "node:child_process";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { GitTaskWorkspaceService, workflowBranchName } from "./git-task-worktrees.js";
+
+const GIT_ENV = {
+  ...process.env,
+  GIT_AUTHOR_NAME: "test",
+  GIT_AUTHOR_EMAIL: "test@example.com",
+  GIT_COMMITTER_NAME: "test",
+  GIT_COMMITTER_EMAIL: "test@example.com",
+};
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync("git", args, { cwd, env: GIT_ENV, encoding: "utf-8" });
+}
+
+describe("GitTaskWorkspaceService", () => {
+  let repo: string;
+
+  beforeEach(async () => {
+    repo = await fs.mkdtemp(path.join(os.tmpdir(), "task-worktrees-"));
+    git(repo, "init", "-q", "-b", "main");
+    await fs.writeFile(path.join(repo, "shared.txt"), "base\n", "utf-8");
+    git(repo, "add", "-A");
+    git(repo, "commit", "-q", "-m", "init");
+  });
+
+  afterEach(async () => {
+    await fs.rm(repo, { recursive: true, force: true });
+  });
+
+  it("isolates tasks and merges their changes into the workflow branch", async () => {
+    const service = new GitTaskWorkspaceService({ repoRoot: repo });
+    const a = await service.prepare("wf-1111", "task-aaaa");
+    const b = await service.prepare("wf-1111", "task-bbbb");
+    expect(a.path).not.toBe(b.path);
+    expect(a.path.startsWith(path.join(repo, ".coderclaw", "worktrees"))).toBe(true);
+
+    await fs.writeFile(path.join(a.path, "a.txt"), "from a\n", "utf-8");
+    await fs.writeFile(path.join(b.path, "b.txt"), "from b\n", "utf-8");
+    await expect(fs.stat(path.join(b.path, "a.txt"))).rejects.toThrow();
+
+    expect(await service.integrate("wf-1111", "task-aaaa", "task a")).toEqual({
+      status: "merged",
+      branch: a.branch,
+    });
+    expect((await service.integrate("wf-1111", "task-bbbb", "task b")).status).toBe("merged");
+
+    const branch = workflowBranchName("wf-1111");
+    const files = git(repo, "ls-tree", "--name-only", branch).split("\n").filter(Boolean);
+    expect(files.toSorted()).toEqual(["a.txt", "b.txt", "shared.txt"]);
+    // The main checkout is left untouched.
+    expect(git(repo, "status", "--porcelain")).toBe("");
+
+    expect(await service.cleanup("wf-1111")).toEqual({ branch });
+    expect(git(repo, "worktree", "list").trim().split("\n")).toHaveLength(1);
+    expect(git(repo, "branch", "--list", `${branch}-*`).trim()).toBe("");
+  });
+
+  it("prepares parallel tasks of a new workflow concurrently", async () => {
+    const service = new GitTaskWorkspaceService({ repoRoot: repo });
+    const [a, b] = await Promise.all([
+      service.prepare("wf-2222", "task-aaaa"),
+      service.prepare("wf-2222", "task-bbbb"),
+    ]);
+    expect(a.path).not.toBe(b.path);
+    expect(git(a.path, "rev-parse", "--abbrev-ref", "HEAD").trim()).toBe(a.branch);
+    expect(git(b.path, "rev-parse", "--abbrev-ref", "HEAD").trim()).toBe(b.branch);
+    expect(git(repo, "branch", "--list", workflowBranchName("wf-2222")).trim()).not.toBe("");
+  });
+
+  it("reports conflicting files and leaves the workflow branch unchanged", async () => {
+    const service = new GitTaskWorkspaceService({ repoRoot: repo });
+    const a = await service.prepare("wf-2222", "task-aaaa");
+    const b = await service.prepare("wf-2222", "task-bbbb");
+    await fs.writeFile(path.join(a.path, "shared.txt"), "a wins\n", "utf-8");
+    await fs.writeFile(path.join(b.path, "shared.txt"), "b wins\n", "utf-8");
+
+    const branch = workflowBranchName("wf-2222");
+    expect((await service.integrate("wf-2222", "task-aaaa", "task a")).status).toBe("merged");
+    const head = git(repo, "rev-parse", branch);
+
+    expect(await service.integrate("wf-2222", "task-bbbb", "task b")).toEqual({
+      status: "conflict",
+      branch: b.branch,
+      files: ["shared.txt"],
+    });
+    expect(git(repo, "rev-parse", branch)).toBe(head);
+
+    await service.cleanup("wf-2222");
+    // The unmerged task branch is kept for inspection.
+    expect(git(repo, "branch", "--list", b.branch).trim()).toBe(b.branch);
+  });
+
+  it("is not usable outside a git repository", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "task-worktrees-nogit-"));
+    expect(await GitTaskWorkspaceService.isUsable(dir)).toBe(false);
+    expect(await GitTaskWorkspaceService.isUsable(repo)).toBe(true);
+    await fs.rm(dir, { recursive: true });
+  });
+});
@@ -0,0 +1,305 @@
+/**
+ * Git worktree–backed task workspaces for the multi-agent orchestrator.
+ *
+ * Every orchestrator task gets its own `git worktree` on a task branch so
+ * parallel sub-agents never edit the same files on disk:
+ *
+ *   coderclaw/wf-<wf8>          — workflow branch; integrated result of all tasks
+ *   coderclaw/wf-<wf8>-<task8>  — task branch, forked from the workflow branch
+ *
+ * A task's branch is forked from the workflow branch when the task starts, so
+ * it already contains the merged output of every task it depends on. When the
+ * task finishes its changes are committed and merged back into the workflow
+ * branch — merges are serialized per workflow so they land in completion order.
+ * A merge conflict is reported with the conflicting paths and the merge is
+ * aborted, leaving the workflow branch untouched.
+ *
+ * Worktrees live under `.coderclaw/worktrees/<workflowId>/` (git-ignored via a
+ * generated `.gitignore`) and are removed by `cleanup()`. The workflow branch
+ * is kept so the integrated result can be reviewed and merged by a human.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import type {
+  ITaskWorkspaceService,
+  TaskWorkspace,
+  TaskWorkspaceIntegrationResult,
+} from "../coderclaw/ports.js";
+import { resolveCoderClawDir } from "../coderclaw/project-dir.js";
+import { logDebug } from "../logger.js";
+import { runCommandWithTimeout } from "../process/exec.js";
+
+const DEFAULT_GIT_TIMEOUT_MS = 60_000;
+const BRANCH_PREFIX = "coderclaw/wf-";
+const INTEGRATION_DIR = "_workflow";
+/** Fallback identity so commits succeed in repos without user.name/user.email. */
+const FALLBACK_IDENTITY_ENV = {
+  GIT_AUTHOR_NAME: "coderClaw",
+  GIT_AUTHOR_EMAIL: "coderclaw@localhost",
+  GIT_COMMITTER_NAME: "coderClaw",
+  GIT_COMMITTER_EMAIL: "coderclaw@localhost",
+};
+
+export type GitTaskWorkspaceServiceOptions = {
+  /** Root of the git repository tasks should be isolated from. */
+  repoRoot: string;
+  /** Override where worktrees are created. Default: `<repoRoot>/.coderclaw/worktrees`. */
+  worktreesDir?: string;
+  /** Per git command timeout. Default 60s. */
+  timeoutMs?: number;
+};
+
+export class GitCommandError extends Error {
+  constructor(
+    readonly args: string[],
+    readonly stderr: string,
+  ) {
+    super(`git ${args.join(" ")} failed: ${stderr.trim() || "unknown error"}`);
+    this.name = "GitCommandError";
+  }
+}
+
+/** Short, ref-safe identifier derived from a UUID-ish id. */
+function shortId(id: string): string {
+  return (
+    id
+      .replace(/[^a-zA-Z0-9]/g, "")
+      .slice(0, 8)
+      .toLowerCase() || "task"
+  );
+}
+
+export function workflowBranchName(workflowId: string): string {
+  return `${BRANCH_PREFIX}${shortId(workflowId)}`;
+}
+
+export function taskBranchName(workflowId: string, taskId: string): string {
+  return `${workflowBranchName(workflowId)}-${shortId(taskId)}`;
+}
+
+async function pathExists(p: string): Promise<boolean> {
+  try {
+    await fs.stat(p);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export class GitTaskWorkspaceService implements ITaskWorkspaceService {
+  private readonly repoRoot: string;
+  private readonly worktreesDir: string;
+  private readonly timeoutMs: number;
+  /** Per-workflow promise chain serializing merges into the workflow branch. */
+  private readonly mergeQueues = new Map<string, Promise<unknown>>();
+  /** Per-workflow setup of the integration worktree, shared by parallel tasks. */
+  private readonly workflowSetups = new Map<string, Promise<string>>();
+  private identityEnv: NodeJS.ProcessEnv | undefined | null = null;
+
+  constructor(opts: GitTaskWorkspaceServiceOptions) {
+    this.repoRoot = opts.repoRoot;
+    this.worktreesDir =
+      opts.worktreesDir ?? path.join(resolveCoderClawDir(opts.repoRoot).root, "worktrees");
+    this.timeoutMs = opts.timeoutMs ?? DEFAULT_GIT_TIMEOUT_MS;
+  }
+
+  /** True when `dir` is inside a git work tree with at least one commit. */
+  static async isUsable(dir: string): Promise<boolean> {
+    try {
+      const result = await runCommandWithTimeout(["git", "rev-parse", "--verify", "HEAD"], {
+        cwd: dir,
+        timeoutMs: 5_000,
+      });
+      return result.code === 0;
+    } catch {
+      return false;
+    }
+  }
+
+  async prepare(workflowId: string, taskId: string): Promise<TaskWorkspace> {
+    await this.workflowWorktreePath(workflowId);
+    const workflowBranch = workflowBranchName(workflowId);
+    const branch = taskBranchName(workflowId, taskId);
+    const worktreePath = this.taskPath(workflowId, taskId);
+
+    if (await pathExists(worktreePath)) {
+      // Resumed workflow — keep whatever the task had already produced.
+      return { path: worktreePath, branch };
+    }
+    if (await this.branchExists(branch)) {
+      await this.git(["worktree", "add", worktreePath, branch]);
+    } else {
+      await this.git(["worktree", "add", "-b", branch, worktreePath, workflowBranch]);
+    }
+    logDebug(`[task-worktrees] prepared ${worktreePath} on ${branch}`);
+    return { path: worktreePath, branch };
+  }
+
+  integrate(
+    workflowId: string,
+    taskId: string,
+    message: string,
+  ): Promise<TaskWorkspaceIntegrationResult> {
+    const previous = this.mergeQueues.get(workflowId) ?? Promise.resolve();
+    const next = previous
+      .catch(() => undefined)
+      .then(() => this.integrateNow(workflowId, taskId, message));
+    this.mergeQueues.set(workflowId, next);
+    return next;
+  }
+
+  async cleanup(workflowId: string): Promise<{ branch?: string }> {
+    const workflowDir = path.join(this.worktreesDir, workflowId);
+    const workflowBranch = workflowBranchName(workflowId);
+
+    // Let in-flight merges finish before tearing their worktrees down.
+    await this.mergeQueues.get(workflowId)?.catch(() => undefined);
+    this.mergeQueues.delete(workflowId);
+    this.workflowSetups.delete(workflowId);
+
+    let entries: string[] = [];
+    try {
+      entries = await fs.readdir(workflowDir);
+    } catch {
+      // Nothing was ever prepared for this workflow
+    }
+    for (const entry of entries) {
+      const worktreePath = path.join(workflowDir, entry);
+      try {
+        await this.git(["worktree", "remove", "--force", worktreePath]);
+      } catch (err) {
+        logDebug(`[task-worktrees] failed to remove ${worktreePath}: ${String(err)}`);
+      }
+    }
+    await fs.rm(workflowDir, { recursive: true, force: true });
+    await this.git(["worktree", "prune"]).catch(() => undefined);
+
+    if (!(await this.branchExists(workflowBranch))) {
+      return {};
+    }
+    // Task branches already merged into the workflow branch are redundant;
+    // unmerged ones (failed or conflicting tasks) are kept for inspection.
+    const merged = await this.git([
+      "branch",
+      "--format=%(refname:short)",
+      "--merged",
+      workflowBranch,
+      "--list",
+      `${workflowBranch}-*`,
+    ]).catch(() => "");
+    for (const branch of merged.split("\n").map((b) => b.trim())) {
+      if (branch) {
+        await this.git(["branch", "-D", branch]).catch(() => undefined);
+      }
+    }
+    return { branch: workflowBranch };
+  }
+
+  // ── Internals ──────────────────────────────────────────────────────────────
+
+  private taskPath(workflowId: string, taskId: string): string {
+    return path.join(this.worktreesDir, workflowId, shortId(taskId));
+  }
+
+  private async integrateNow(
+    workflowId: string,
+    taskId: string,
+    message: string,
+  ): Promise<TaskWorkspaceIntegrationResult> {
+    const branch = taskBranchName(workflowId, taskId);
+    const taskDir = this.taskPath(workflowId, taskId);
+    const workflowDir = await this.workflowWorktreePath(workflowId);
+
+    await this.git(["add", "-A"], taskDir);
+    const staged = await this.run(["diff", "--cached", "--quiet"], taskDir);
+    if (staged.code === 1) {
+      await this.git(["commit", "--no-verify", "-m", message], taskDir);
+    }
+
+    const merge = await this.run(
+      ["merge", "--no-ff", "--no-verify", "-m", `Merge ${branch}: ${message}`, branch],
+      workflowDir,
+    );
+    if (merge.code === 0) {
+      return { status: "merged", branch };
+    }
+
+    const conflicted = await this.git(
+      ["diff", "--name-only", "--diff-filter=U"],
+      workflowDir,
+    ).catch(() => "");
+    await this.run(["merge", "--abort"], workflowDir);
+    const files = conflicted
+      .split("\n")
+      .map((f) => f.trim())
+      .filter(Boolean);
+    if (files.length === 0) {
+      throw new GitCommandError(["merge", branch], merge.stderr || merge.stdout);
+    }
+    return { status: "conflict", branch, files };
+  }
+
+  /**
+   * Ensure the workflow branch and its integration worktree exist. Parallel
+   * tasks share one setup; a failed one is retried by the next caller.
+   */
+  private workflowWorktreePath(workflowId: string): Promise<string> {
+    let setup = this.workflowSetups.get(workflowId);
+    if (!setup) {
+      setup = this.setUpWorkflowWorktree(workflowId);
+      this.workflowSetups.set(workflowId, setup);
+      setup.catch(() => this.workflowSetups.delete(workflowId));
+    }
+    return setup;
+  }
+
+  private async setUpWorkflowWorktree(workflowId: string): Promise<string> {
+    const branch = workflowBranchName(workflowId);
+    const worktreePath = path.join(this.worktreesDir, workflowId, INTEGRATION_DIR);
+    if (await pathExists(worktreePath)) {
+      return worktreePath;
+    }
+    await fs.mkdir(this.worktreesDir, { recursive: true });
+    // Keep worktrees out of the main checkout's `git status`.
+    await fs.writeFile(path.join(this.worktreesDir, ".gitignore"), "*\n", "utf-8");
+    if (!(await this.branchExists(branch))) {
+      await this.git(["branch", branch, "HEAD"]);
+    }
+    await this.git(["worktree", "add", worktreePath, branch]);
+    return worktreePath;
+  }
+
+  private async branchExists(branch: string): Promise<boolean> {
+    const result = await this.run(["rev-parse", "--verify", "--quiet", `refs/heads/${branch}`]);
+    return result.code === 0;
+  }
+
+  private async resolveIdentityEnv(): Promise<NodeJS.ProcessEnv | undefined> {
+    if (this.identityEnv === null) {
+      const email = await runCommandWithTimeout(["git", "config", "user.email"], {
+        cwd: this.repoRoot,
+        timeoutMs: this.timeoutMs,
+      }).catch(() => null);
+      this.identityEnv =
+        email?.code === 0 && email.stdout.trim() ? undefined : FALLBACK_IDENTITY_ENV;
+    }
+    return this.identityEnv;
+  }
+
+  private async run(args: string[], cwd: string = this.repoRoot) {
+    return runCommandWithTimeout(["git", ...args], {
+      cwd,
+      timeoutMs: this.timeoutMs,
+      env: await this.resolveIdentityEnv(),
+    });
+  }
+
+  private async git(args: string[], cwd: string = this.repoRoot): Promise<string> {
+    const result = await this.run(args, cwd);
+    if (result.code !== 0) {
+      throw new GitCommandError(args, result.stderr || result.stdout);
+    }
+    return result.stdout;
+  }
+}
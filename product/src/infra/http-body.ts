@@ -182,11 +182,13 @@ export async function readRequestBodyWithLimit(
 }
 
 export type ReadJsonBodyResult =
-  | { ok: true; value: unknown }
+  | { ok: true; value: unknown; raw?: string }
   | { ok: false; error: string; code: RequestBodyLimitErrorCode | "INVALID_JSON" };
 
 export type ReadJsonBodyOptions = ReadRequestBodyOptions & {
   emptyObjectOnEmpty?: boolean;
+  /** Also return the body text, e.g. to verify a webhook signature. */
+  includeRaw?: boolean;
 };
 
 export async function readJsonBodyWithLimit(
@@ -200,10 +202,14 @@ export async function readJsonBodyWithLimit(
       if (options.emptyObjectOnEmpty === false) {
         return { ok: false, code: "INVALID_JSON", error: "empty payload" };
       }
-      return { ok: true, value: {} };
+      return { ok: true, value: {}, ...(options.includeRaw ? { raw } : {}) };
     }
     try {
-      return { ok: true, value: JSON.parse(trimmed) as unknown };
+      return {
+        ok: true,
+        value: JSON.parse(trimmed) as unknown,
+        ...(options.includeRaw ? { raw } : {}),
+      };
     } catch (error) {
       return {
         ok: false,
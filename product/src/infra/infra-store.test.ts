@@ -158,6 +158,14 @@ describe("infra store", () => {
       expect(cache.check("a", 500)).toBe(true);
     });
 
+    it("peeks without recording", () => {
+      const cache = createDedupeCache({ ttlMs: 1000, maxSize: 10 });
+      expect(cache.peek("a", 100)).toBe(false);
+      expect(cache.check("a", 200)).toBe(false);
+      expect(cache.peek("a", 300)).toBe(true);
+      expect(cache.peek("a", 1300)).toBe(false);
+    });
+
     it("expires entries after TTL", () => {
       const cache = createDedupeCache({ ttlMs: 1000, maxSize: 10 });
       expect(cache.check("a", 100)).toBe(false);
@@ -128,6 +128,10 @@ export class LocalAgentTransport implements IAgentTransport {
         task: payload.input,
         label: targetId,
         agentId: targetId,
+        model: payload.model,
+        provider: payload.provider,
+        thinking: payload.thinking,
+        workspaceDir: payload.workspaceDir,
         roleConfig,
       },
       this.opts.getContext(),
@@ -138,6 +142,7 @@ export class LocalAgentTransport implements IAgentTransport {
         status: "failed",
         error: spawnResult.error || "Failed to spawn subagent",
         targetId,
+        ...(spawnResult.childSessionKey ? { childSessionKey: spawnResult.childSessionKey } : {}),
       };
     }
 
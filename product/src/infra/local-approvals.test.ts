@@ -0,0 +1,86 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { LocalApprovalStore, type LocalApprovalEvent } from "./local-approvals.js";
+
+const dirs: string[] = [];
+
+async function tempFile(): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "local-approvals-"));
+  dirs.push(dir);
+  return path.join(dir, "pending.json");
+}
+
+afterEach(async () => {
+  vi.useRealTimers();
+  await Promise.all(dirs.splice(0).map((dir) => fs.rm(dir, { recursive: true, force: true })));
+});
+
+describe("LocalApprovalStore", () => {
+  it("announces requests and settles waiters when resolved", async () => {
+    const store = new LocalApprovalStore({ filePath: await tempFile() });
+    const events: LocalApprovalEvent[] = [];
+    store.onEvent((evt) => events.push(evt));
+
+    const decision = store.request({
+      id: "wf:apply:0",
+      actionType: "workflow.step",
+      description: "Apply?",
+    });
+    await vi.waitFor(() => expect(store.list()).toHaveLength(1));
+
+    const resolved = await store.resolve("wf:apply:0", "approved", "alice");
+    expect(resolved?.resolvedBy).toBe("alice");
+    await expect(decision).resolves.toBe("approved");
+    expect(events.map((evt) => evt.type)).toEqual(["requested", "resolved"]);
+    expect(await store.resolve("wf:apply:0", "rejected")).toBeNull();
+    // An approved id answers immediately when requested again (e.g. a resumed workflow).
+    await expect(
+      store.request({ id: "wf:apply:0", actionType: "workflow.step", description: "Apply?" }),
+    ).resolves.toBe("approved");
+    store.stop();
+  });
+
+  it("re-attaches to pending approvals after a restart", async () => {
+    const filePath = await tempFile();
+    const first = new LocalApprovalStore({ filePath });
+    // "requested" is emitted once the approval is on disk.
+    const persisted = new Promise<void>((resolve) => first.onEvent(() => resolve()));
+    void first.request({ id: "gate-1", actionType: "pr.open", description: "Open PR?" });
+    await persisted;
+    first.stop();
+
+    const second = new LocalApprovalStore({ filePath });
+    await second.load();
+    expect(second.get("gate-1")?.status).toBe("pending");
+    const events: LocalApprovalEvent[] = [];
+    second.onEvent((evt) => events.push(evt));
+    const decision = second.request({
+      id: "gate-1",
+      actionType: "pr.open",
+      description: "Open PR?",
+    });
+    await second.resolve("gate-1", "rejected");
+    await expect(decision).resolves.toBe("rejected");
+    // Re-attaching does not announce the request a second time.
+    expect(events.map((evt) => evt.type)).toEqual(["resolved"]);
+    second.stop();
+  });
+
+  it("expires approvals that are not decided in time", async () => {
+    vi.useFakeTimers();
+    const store = new LocalApprovalStore({ filePath: await tempFile() });
+    const decision = store.request({
+      id: "gate-2",
+      actionType: "workflow.step",
+      description: "Deploy?",
+      timeoutMs: 1_000,
+    });
+    await vi.waitFor(() => expect(store.list()).toHaveLength(1));
+    await vi.advanceTimersByTimeAsync(1_000);
+    await expect(decision).resolves.toBe("timeout");
+    expect(store.get("gate-2")?.status).toBe("expired");
+    expect(store.list()).toEqual([]);
+  });
+});
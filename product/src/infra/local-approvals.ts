@@ -0,0 +1,287 @@
+/**
+ * Local approval backend for the approval gate.
+ *
+ * Used when Builderforce is not configured: approval requests are kept in a
+ * JSON file under the state dir, announced to listeners (the gateway
+ * broadcasts them as `approval.requested` / `approval.resolved` and forwards
+ * them to chat), and resolved with `/approve <id>` / `/deny <id>` or the
+ * `approval.resolve` gateway method.
+ *
+ * Pending approvals survive restarts: `load()` re-arms their expiry, and a
+ * caller that requests the same id again (e.g. a resumed workflow) waits on
+ * the existing request instead of asking twice.
+ */
+
+import { randomUUID } from "node:crypto";
+import path from "node:path";
+import { resolveStateDir } from "../config/paths.js";
+import { logDebug } from "../logger.js";
+import { createAsyncLock, readJsonFile, writeJsonAtomic } from "./json-files.js";
+
+export type LocalApprovalStatus = "pending" | "approved" | "rejected" | "expired";
+
+export type LocalApprovalRecord = {
+  id: string;
+  actionType: string;
+  description: string;
+  metadata?: unknown;
+  sessionKey?: string;
+  createdAtMs: number;
+  expiresAtMs: number;
+  status: LocalApprovalStatus;
+  resolvedBy?: string;
+  resolvedAtMs?: number;
+};
+
+export type LocalApprovalEvent =
+  | { type: "requested"; approval: LocalApprovalRecord }
+  | { type: "resolved"; approval: LocalApprovalRecord };
+
+type LocalApprovalDecision = "approved" | "rejected" | "timeout";
+
+type ApprovalsFile = {
+  version: 1;
+  approvals: Record<string, LocalApprovalRecord>;
+};
+
+const DEFAULT_TIMEOUT_MS = 10 * 60 * 1000;
+// Keep decided approvals around so a caller re-requesting the same id after a
+// restart gets the decision instead of a fresh prompt.
+const RESOLVED_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+export function resolveLocalApprovalsPath(baseDir?: string): string {
+  return path.join(baseDir ?? resolveStateDir(), "approvals", "pending.json");
+}
+
+function outcomeOf(status: LocalApprovalStatus): LocalApprovalDecision | null {
+  if (status === "approved" || status === "rejected") {
+    return status;
+  }
+  return status === "expired" ? "timeout" : null;
+}
+
+export class LocalApprovalStore {
+  private readonly filePath: string;
+  private readonly nowMs: () => number;
+  private readonly records = new Map<string, LocalApprovalRecord>();
+  private readonly waiters = new Map<string, Array<(decision: LocalApprovalDecision) => void>>();
+  private readonly timers = new Map<string, ReturnType<typeof setTimeout>>();
+  private readonly listeners = new Set<(evt: LocalApprovalEvent) => void>();
+  private readonly withLock = createAsyncLock();
+  private loading: Promise<void> | null = null;
+
+  constructor(opts: { filePath?: string; nowMs?: () => number } = {}) {
+    this.filePath = opts.filePath ?? resolveLocalApprovalsPath();
+    this.nowMs = opts.nowMs ?? Date.now;
+  }
+
+  /**
+   * Read persisted approvals (once). Pending approvals that expired while the
+   * process was down are marked expired; the rest get their timers re-armed.
+   */
+  load(): Promise<void> {
+    this.loading ??= (async () => {
+      const file = await readJsonFile<ApprovalsFile>(this.filePath);
+      const now = this.nowMs();
+      for (const record of Object.values(file?.approvals ?? {})) {
+        if (!record?.id || this.records.has(record.id)) {
+          continue;
+        }
+        if (
+          record.status !== "pending" &&
+          (record.resolvedAtMs ?? 0) + RESOLVED_RETENTION_MS < now
+        ) {
+          continue;
+        }
+        if (record.status === "pending" && record.expiresAtMs <= now) {
+          record.status = "expired";
+          record.resolvedAtMs = now;
+        }
+        this.records.set(record.id, record);
+        if (record.status === "pending") {
+          this.armTimer(record);
+        }
+      }
+    })();
+    return this.loading;
+  }
+
+  /**
+   * Ask for approval and wait for the decision. Re-requesting a pending id
+   * waits on the existing request; an already-approved id resolves at once.
+   * A rejected or expired id asks again.
+   */
+  async request(opts: {
+    id?: string;
+    actionType: string;
+    description: string;
+    metadata?: unknown;
+    sessionKey?: string;
+    timeoutMs?: number;
+  }): Promise<LocalApprovalDecision> {
+    await this.load();
+    const id = opts.id?.trim() || randomUUID();
+    const existing = this.records.get(id);
+    if (existing?.status === "approved") {
+      return "approved";
+    }
+    const decision = new Promise<LocalApprovalDecision>((resolve) => {
+      this.waiters.set(id, [...(this.waiters.get(id) ?? []), resolve]);
+    });
+    if (existing?.status === "pending") {
+      logDebug(`[approvals] re-attached to pending approval ${id}`);
+      return decision;
+    }
+
+    const now = this.nowMs();
+    const record: LocalApprovalRecord = {
+      id,
+      actionType: opts.actionType,
+      description: opts.description,
+      ...(opts.metadata !== undefined ? { metadata: opts.metadata } : {}),
+      ...(opts.sessionKey ? { sessionKey: opts.sessionKey } : {}),
+      createdAtMs: now,
+      expiresAtMs: now + (opts.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+      status: "pending",
+    };
+    this.records.set(id, record);
+    this.armTimer(record);
+    await this.persist();
+    this.emit({ type: "requested", approval: record });
+    return decision;
+  }
+
+  /**
+   * Record a human decision. Returns the updated record, or null when the id
+   * is unknown or no longer pending.
+   */
+  async resolve(
+    id: string,
+    decision: "approved" | "rejected",
+    resolvedBy?: string,
+  ): Promise<LocalApprovalRecord | null> {
+    await this.load();
+    const record = this.records.get(id);
+    if (!record || record.status !== "pending") {
+      return null;
+    }
+    return this.settle(record, decision, resolvedBy);
+  }
+
+  get(id: string): LocalApprovalRecord | null {
+    return this.records.get(id) ?? null;
+  }
+
+  /** Pending approvals, oldest first; with `includeResolved`, recent decisions too. */
+  list(opts: { includeResolved?: boolean } = {}): LocalApprovalRecord[] {
+    return Array.from(this.records.values())
+      .filter((record) => opts.includeResolved || record.status === "pending")
+      .toSorted((a, b) => a.createdAtMs - b.createdAtMs);
+  }
+
+  /** Observe requests and decisions. Returns an unsubscribe function. */
+  onEvent(listener: (evt: LocalApprovalEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /** Clear expiry timers (shutdown and tests). Pending approvals stay on disk. */
+  stop(): void {
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+
+  private armTimer(record: LocalApprovalRecord): void {
+    clearTimeout(this.timers.get(record.id));
+    const timer = setTimeout(
+      () => {
+        if (record.status === "pending") {
+          void this.settle(record, "expired");
+        }
+      },
+      Math.max(0, record.expiresAtMs - this.nowMs()),
+    );
+    timer.unref?.();
+    this.timers.set(record.id, timer);
+  }
+
+  private async settle(
+    record: LocalApprovalRecord,
+    status: Exclude<LocalApprovalStatus, "pending">,
+    resolvedBy?: string,
+  ): Promise<LocalApprovalRecord> {
+    clearTimeout(this.timers.get(record.id));
+    this.timers.delete(record.id);
+    record.status = status;
+    record.resolvedAtMs = this.nowMs();
+    if (resolvedBy) {
+      record.resolvedBy = resolvedBy;
+    }
+    const waiters = this.waiters.get(record.id) ?? [];
+    this.waiters.delete(record.id);
+    const outcome = outcomeOf(status) ?? "timeout";
+    for (const resolve of waiters) {
+      resolve(outcome);
+    }
+    await this.persist();
+    this.emit({ type: "resolved", approval: record });
+    return record;
+  }
+
+  private async persist(): Promise<void> {
+    await this.withLock(async () => {
+      const now = this.nowMs();
+      for (const [id, record] of this.records) {
+        if (
+          record.status !== "pending" &&
+          (record.resolvedAtMs ?? 0) + RESOLVED_RETENTION_MS < now
+        ) {
+          this.records.delete(id);
+        }
+      }
+      const file: ApprovalsFile = { version: 1, approvals: Object.fromEntries(this.records) };
+      try {
+        await writeJsonAtomic(this.filePath, file);
+      } catch (err) {
+        logDebug(`[approvals] failed to persist ${this.filePath}: ${String(err)}`);
+      }
+    });
+  }
+
+  private emit(evt: LocalApprovalEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(evt);
+      } catch (err) {
+        logDebug(`[approvals] listener failed: ${String(err)}`);
+      }
+    }
+  }
+}
+
+// ── Message formatting (chat forwarding, TUI) ─────────────────────────────────
+
+export function formatApprovalRequestMessage(record: LocalApprovalRecord, nowMs: number): string {
+  const expiresIn = Math.max(0, Math.round((record.expiresAtMs - nowMs) / 1000));
+  return [
+    "🔒 Approval required",
+    `ID: ${record.id}`,
+    `Action: ${record.actionType}`,
+    "",
+    record.description,
+    "",
+    `Expires in: ${expiresIn}s`,
+    `Reply with: /approve ${record.id} or /deny ${record.id}`,
+  ].join("\n");
+}
+
+export function formatApprovalResolvedMessage(record: LocalApprovalRecord): string {
+  if (record.status === "expired") {
+    return `⏱️ Approval expired. ID: ${record.id}`;
+  }
+  const label = record.status === "approved" ? "✅ Approved" : "❌ Denied";
+  const by = record.resolvedBy ? ` by ${record.resolvedBy}` : "";
+  return `${label}${by}. ID: ${record.id}`;
+}
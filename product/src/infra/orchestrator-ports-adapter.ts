@@ -10,7 +10,20 @@ import type {
   IAgentMemoryService,
   ILocalResultBroker,
   ITelemetryService,
+  ITestRunner,
+  IWorkflowHooks,
+  TaskBeforeDispatchHookEvent,
+  TaskBeforeDispatchHookResult,
+  TaskEndHookEvent,
+  TestGateRequest,
+  TestGateResult,
+  WorkflowEndHookEvent,
+  WorkflowHookContext,
+  WorkflowStartHookEvent,
+  WorkflowStuckHookEvent,
 } from "../coderclaw/ports.js";
+import { getGlobalHookRunner } from "../plugins/hook-runner-global.js";
+import { formatTestRunReport, runTests } from "../test-runner/run.js";
 import { awaitLocalSubagentResult } from "./local-result-broker.js";
 import { getSsmMemoryService } from "./ssm-memory-service.js";
 import {
@@ -84,3 +97,57 @@ export class LocalResultBrokerAdapter implements ILocalResultBroker {
     return awaitLocalSubagentResult(runId, childSessionKey, timeoutMs);
   }
 }
+
+// ── Plugin hooks adapter ──────────────────────────────────────────────────────
+
+/** Forwards orchestrator lifecycle callbacks to the global plugin hook runner. */
+export class PluginWorkflowHooksAdapter implements IWorkflowHooks {
+  async workflowStart(event: WorkflowStartHookEvent, ctx: WorkflowHookContext): Promise<void> {
+    const runner = getGlobalHookRunner();
+    if (runner?.hasHooks("workflow_start")) {
+      await runner.runWorkflowStart(event, ctx);
+    }
+  }
+
+  async workflowEnd(event: WorkflowEndHookEvent, ctx: WorkflowHookContext): Promise<void> {
+    const runner = getGlobalHookRunner();
+    if (runner?.hasHooks("workflow_end")) {
+      await runner.runWorkflowEnd(event, ctx);
+    }
+  }
+
+  async workflowStuck(event: WorkflowStuckHookEvent, ctx: WorkflowHookContext): Promise<void> {
+    const runner = getGlobalHookRunner();
+    if (runner?.hasHooks("workflow_stuck")) {
+      await runner.runWorkflowStuck(event, ctx);
+    }
+  }
+
+  async taskBeforeDispatch(
+    event: TaskBeforeDispatchHookEvent,
+    ctx: WorkflowHookContext,
+  ): Promise<TaskBeforeDispatchHookResult | undefined> {
+    const runner = getGlobalHookRunner();
+    if (!runner?.hasHooks("task_before_dispatch")) {
+      return undefined;
+    }
+    return runner.runTaskBeforeDispatch(event, ctx);
+  }
+
+  async taskEnd(event: TaskEndHookEvent, ctx: WorkflowHookContext): Promise<void> {
+    const runner = getGlobalHookRunner();
+    if (runner?.hasHooks("task_end")) {
+      await runner.runTaskEnd(event, ctx);
+    }
+  }
+}
+
+// ── Test runner adapter ───────────────────────────────────────────────────────
+
+/** Runs step test gates with the framework-aware test runner. */
+export class TestRunnerAdapter implements ITestRunner {
+  async run(request: TestGateRequest): Promise<TestGateResult> {
+    const result = await runTests(request);
+    return { passed: result.status === "passed", summary: formatTestRunReport(result) };
+  }
+}
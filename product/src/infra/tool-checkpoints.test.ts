@@ -0,0 +1,152 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { SessionManager } from "@mariozechner/pi-coding-agent";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  findCheckpointTurn,
+  listTranscriptTurns,
+  ToolCheckpointStore,
+  truncateTranscriptBeforeTurn,
+} from "./tool-checkpoints.js";
+
+const dirs: string[] = [];
+
+async function tempDir(prefix: string): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), prefix));
+  dirs.push(dir);
+  return dir;
+}
+
+afterEach(async () => {
+  await Promise.all(dirs.splice(0).map((dir) => fs.rm(dir, { recursive: true, force: true })));
+});
+
+describe("ToolCheckpointStore", () => {
+  it("undoes the last tool call and restores earlier checkpoints", async () => {
+    const root = await tempDir("checkpoints-");
+    const file = (name: string) => path.join(root, name);
+    await fs.writeFile(file("a.txt"), "one\n");
+    await fs.writeFile(file(".gitignore"), "ignored.log\n");
+    const store = new ToolCheckpointStore({ workspaceDir: root });
+
+    await store.record("s1", { toolName: "edit", toolCallId: "call-1", summary: "edit a.txt" });
+    await fs.writeFile(file("a.txt"), "two\n");
+    await store.record("s1", { toolName: "write", toolCallId: "call-2", summary: "write b.txt" });
+    await fs.writeFile(file("b.txt"), "new\n");
+    await fs.writeFile(file("ignored.log"), "keep me\n");
+
+    const undone = await store.undo("s1");
+    expect(undone?.checkpoint.summary).toBe("write b.txt");
+    expect(undone?.files).toEqual(["b.txt"]);
+    await expect(fs.access(file("b.txt"))).rejects.toThrow();
+    expect(await fs.readFile(file("a.txt"), "utf-8")).toBe("two\n");
+    // Ignored files are neither snapshotted nor removed.
+    expect(await fs.readFile(file("ignored.log"), "utf-8")).toBe("keep me\n");
+
+    const restored = await store.restore("s1", 0);
+    expect(restored?.files).toEqual(["a.txt"]);
+    expect(await fs.readFile(file("a.txt"), "utf-8")).toBe("one\n");
+    expect(await store.list("s1")).toEqual([]);
+    expect(await store.undo("s1")).toBeNull();
+  });
+
+  it("restores only the paths the agent changed and flags edits made by others", async () => {
+    const root = await tempDir("checkpoints-");
+    const file = (name: string) => path.join(root, name);
+    await fs.writeFile(file("a.txt"), "one\n");
+    await fs.writeFile(file("notes.md"), "draft\n");
+    const store = new ToolCheckpointStore({ workspaceDir: root });
+
+    const first = await store.record("s1", { toolName: "edit", summary: "edit a.txt" });
+    await fs.writeFile(file("a.txt"), "two\n");
+    await fs.writeFile(file("new file.txt"), "created\n");
+    await store.complete("s1", first.commit);
+    // The user edits files while the agent works.
+    await fs.writeFile(file("notes.md"), "user notes\n");
+    const second = await store.record("s1", { toolName: "edit", summary: "edit a.txt" });
+    await fs.writeFile(file("a.txt"), "three\n");
+    await store.complete("s1", second.commit);
+    await fs.writeFile(file("a.txt"), "three, tweaked by the user\n");
+
+    const restored = await store.restore("s1", 0);
+    expect(restored?.files).toEqual(["a.txt", "new file.txt"]);
+    expect(restored?.overwritten).toEqual(["a.txt"]);
+    expect(await fs.readFile(file("a.txt"), "utf-8")).toBe("one\n");
+    await expect(fs.access(file("new file.txt"))).rejects.toThrow();
+    expect(await fs.readFile(file("notes.md"), "utf-8")).toBe("user notes\n");
+  });
+
+  it("keeps checkpoints per session and caps the list", async () => {
+    const root = await tempDir("checkpoints-");
+    await fs.writeFile(path.join(root, "a.txt"), "x\n");
+    const store = new ToolCheckpointStore({ workspaceDir: root, maxPerSession: 2 });
+    for (const n of [1, 2, 3]) {
+      await store.record("s1", { toolName: "exec", summary: `exec step ${n}` });
+    }
+    await store.record("s2", { toolName: "edit", summary: "edit a.txt" });
+
+    expect((await store.list("s1")).map((c) => c.summary)).toEqual(["exec step 2", "exec step 3"]);
+    const reopened = new ToolCheckpointStore({ workspaceDir: root });
+    expect((await reopened.list("s2")).map((c) => c.summary)).toEqual(["edit a.txt"]);
+  });
+});
+
+describe("transcript turns", () => {
+  async function writeTranscript(): Promise<string> {
+    const dir = await tempDir("checkpoint-transcript-");
+    const manager = SessionManager.create(dir, dir);
+    const usage = {
+      input: 0,
+      output: 0,
+      cacheRead: 0,
+      cacheWrite: 0,
+      totalTokens: 0,
+      cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, total: 0 },
+    };
+    const assistant = (content: unknown[]) =>
+      ({
+        role: "assistant",
+        content,
+        api: "anthropic-messages",
+        provider: "anthropic",
+        model: "claude",
+        usage,
+        stopReason: "toolUse",
+        timestamp: Date.now(),
+      }) as Parameters<typeof manager.appendMessage>[0];
+    for (const turn of [1, 2, 3]) {
+      manager.appendMessage({ role: "user", content: `task ${turn}`, timestamp: Date.now() });
+      manager.appendMessage(
+        assistant([{ type: "toolCall", id: `call-${turn}`, name: "edit", arguments: {} }]),
+      );
+    }
+    return manager.getSessionFile()!;
+  }
+
+  it("maps tool calls to turns and truncates before a turn", async () => {
+    const sessionFile = await writeTranscript();
+    const turns = listTranscriptTurns(sessionFile);
+    expect(turns.map((t) => t.preview)).toEqual(["task 1", "task 2", "task 3"]);
+    expect(
+      findCheckpointTurn(turns, {
+        commit: "abc",
+        toolName: "edit",
+        toolCallId: "call-2",
+        summary: "edit",
+        createdAt: 0,
+      }),
+    ).toBe(2);
+
+    expect(truncateTranscriptBeforeTurn(sessionFile, 2)).toBe(true);
+    expect(listTranscriptTurns(sessionFile).map((t) => t.preview)).toEqual(["task 1"]);
+    // The session stays appendable from the cut point.
+    const reopened = SessionManager.open(sessionFile);
+    expect(reopened.getBranch()).toHaveLength(2);
+    expect(truncateTranscriptBeforeTurn(sessionFile, 5)).toBe(false);
+    const archived = (await fs.readdir(path.dirname(sessionFile))).filter((f) =>
+      f.includes(".bak."),
+    );
+    expect(archived).toHaveLength(1);
+  });
+});
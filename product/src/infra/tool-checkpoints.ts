@@ -0,0 +1,412 @@
+/**
+ * Shadow snapshots of the workspace taken before mutating tool calls, so a
+ * session can undo an agent's file changes without touching the project's
+ * own git history.
+ *
+ * Snapshots live in a private git object store at
+ * `.coderclaw/checkpoints/git` (work tree = the workspace; the project's
+ * `.gitignore` files apply and `.coderclaw/` itself is excluded). Each
+ * checkpoint is a commit holding the files as they were before the tool ran;
+ * the per-session list is kept in `.coderclaw/checkpoints/index.json`.
+ *
+ * A second snapshot after each call records what the call changed. Restoring
+ * a checkpoint puts back only the paths changed by that call and later ones
+ * (deleting files they created), so edits made by anyone else in between are
+ * kept, and drops that checkpoint and all later ones.
+ */
+
+import { createHash } from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { SessionManager } from "@mariozechner/pi-coding-agent";
+import { CODERCLAW_DIR, resolveCoderClawDir } from "../coderclaw/project-dir.js";
+import { archiveFileOnDisk } from "../gateway/session-utils.fs.js";
+import { logDebug } from "../logger.js";
+import { runCommandWithTimeout } from "../process/exec.js";
+import { createAsyncLock, readJsonFile, writeJsonAtomic } from "./json-files.js";
+
+const DEFAULT_GIT_TIMEOUT_MS = 60_000;
+export const DEFAULT_MAX_CHECKPOINTS_PER_SESSION = 100;
+/** Shadow commits need an identity; the store is private so a fixed one is fine. */
+const SHADOW_IDENTITY_ENV = {
+  GIT_AUTHOR_NAME: "coderClaw",
+  GIT_AUTHOR_EMAIL: "coderclaw@localhost",
+  GIT_COMMITTER_NAME: "coderClaw",
+  GIT_COMMITTER_EMAIL: "coderclaw@localhost",
+};
+
+export type ToolCheckpoint = {
+  /** Shadow commit holding the files as they were before the tool call. */
+  commit: string;
+  /** Tree of the workspace right after the call; unset when that snapshot is missing. */
+  after?: string;
+  toolName: string;
+  toolCallId?: string;
+  /** Short description, e.g. "edit src/app.ts" or "exec npm run lint -- --fix". */
+  summary: string;
+  createdAt: number;
+};
+
+export type CheckpointRestoreResult = {
+  checkpoint: ToolCheckpoint;
+  /** Workspace-relative paths whose content changed (restored or deleted). */
+  files: string[];
+  /** Checkpoints dropped by the restore (the restored one and every later one). */
+  dropped: number;
+  /** Restored paths that someone else had edited since the agent last wrote them. */
+  overwritten: string[];
+};
+
+type CheckpointIndexFile = {
+  version: 1;
+  sessions: Record<string, ToolCheckpoint[]>;
+};
+
+export class CheckpointGitError extends Error {
+  constructor(
+    readonly args: string[],
+    readonly stderr: string,
+  ) {
+    super(`git ${args.join(" ")} failed: ${stderr.trim() || "unknown error"}`);
+    this.name = "CheckpointGitError";
+  }
+}
+
+function sessionRef(sessionKey: string): string {
+  return `refs/checkpoints/${createHash("sha256").update(sessionKey).digest("hex").slice(0, 16)}`;
+}
+
+export class ToolCheckpointStore {
+  readonly workspaceDir: string;
+  private readonly checkpointsDir: string;
+  private readonly gitDir: string;
+  private readonly indexPath: string;
+  private readonly timeoutMs: number;
+  private readonly maxPerSession: number;
+  private readonly withLock = createAsyncLock();
+  private initialized = false;
+
+  constructor(opts: { workspaceDir: string; maxPerSession?: number; timeoutMs?: number }) {
+    this.workspaceDir = path.resolve(opts.workspaceDir);
+    this.checkpointsDir = resolveCoderClawDir(this.workspaceDir).checkpointsDir;
+    this.gitDir = path.join(this.checkpointsDir, "git");
+    this.indexPath = path.join(this.checkpointsDir, "index.json");
+    this.maxPerSession = opts.maxPerSession ?? DEFAULT_MAX_CHECKPOINTS_PER_SESSION;
+    this.timeoutMs = opts.timeoutMs ?? DEFAULT_GIT_TIMEOUT_MS;
+  }
+
+  /** Snapshot the workspace before a tool call and append it to the session's list. */
+  async record(
+    sessionKey: string,
+    entry: Pick<ToolCheckpoint, "toolName" | "toolCallId" | "summary">,
+  ): Promise<ToolCheckpoint> {
+    return this.withLock(async () => {
+      await this.ensureRepo();
+      const tree = await this.snapshotTree();
+      const ref = sessionRef(sessionKey);
+      const parent = await this.git(["rev-parse", "--verify", "--quiet", ref]).catch(() => "");
+      const commit = await this.git([
+        "commit-tree",
+        tree,
+        ...(parent.trim() ? ["-p", parent.trim()] : []),
+        "-m",
+        `${entry.toolName}: ${entry.summary}`,
+      ]);
+      const checkpoint: ToolCheckpoint = {
+        commit: commit.trim(),
+        toolName: entry.toolName,
+        ...(entry.toolCallId ? { toolCallId: entry.toolCallId } : {}),
+        summary: entry.summary,
+        createdAt: Date.now(),
+      };
+      await this.git(["update-ref", ref, checkpoint.commit]);
+      const index = await this.readIndex();
+      const list = [...(index.sessions[sessionKey] ?? []), checkpoint];
+      index.sessions[sessionKey] = list.slice(-this.maxPerSession);
+      await writeJsonAtomic(this.indexPath, index);
+      return checkpoint;
+    });
+  }
+
+  /**
+   * Snapshot the workspace after a recorded call finished, so a later restore
+   * knows which paths that call changed.
+   */
+  async complete(sessionKey: string, commit: string): Promise<void> {
+    return this.withLock(async () => {
+      const index = await this.readIndex();
+      const checkpoint = index.sessions[sessionKey]?.find((entry) => entry.commit === commit);
+      if (!checkpoint) {
+        return;
+      }
+      await this.ensureRepo();
+      checkpoint.after = await this.snapshotTree();
+      await writeJsonAtomic(this.indexPath, index);
+    });
+  }
+
+  /** Restore points of a session, oldest first. */
+  async list(sessionKey: string): Promise<ToolCheckpoint[]> {
+    return (await this.readIndex()).sessions[sessionKey] ?? [];
+  }
+
+  /** Revert the files changed by the session's last checkpointed tool call. */
+  async undo(sessionKey: string): Promise<CheckpointRestoreResult | null> {
+    const list = await this.list(sessionKey);
+    return list.length > 0 ? this.restore(sessionKey, list.length - 1) : null;
+  }
+
+  /**
+   * Put the paths changed since checkpoint `position` (index into `list()`)
+   * back and drop it together with every later checkpoint.
+   */
+  async restore(sessionKey: string, position: number): Promise<CheckpointRestoreResult | null> {
+    return this.withLock(async () => {
+      const index = await this.readIndex();
+      const list = index.sessions[sessionKey] ?? [];
+      const checkpoint = list[position];
+      if (!checkpoint) {
+        return null;
+      }
+      await this.ensureRepo();
+      const current = await this.snapshotTree();
+      // Newest call first, so a path's last writer decides whether it changed since.
+      const touched = new Set<string>();
+      const changedSince = new Set<string>();
+      for (let i = list.length - 1; i >= position; i--) {
+        // Without an after-snapshot, the call is bounded by the next checkpoint.
+        const after = list[i].after ?? list[i + 1]?.commit ?? current;
+        const paths = (await this.changedPaths(list[i].commit, after)).filter(
+          (file) => !touched.has(file),
+        );
+        if (paths.length === 0) {
+          continue;
+        }
+        for (const file of await this.changedPaths(after, current, paths)) {
+          changedSince.add(file);
+        }
+        for (const file of paths) {
+          touched.add(file);
+        }
+      }
+      const files =
+        touched.size > 0 ? await this.changedPaths(current, checkpoint.commit, [...touched]) : [];
+      if (files.length > 0) {
+        const existing = new Set(await this.listPaths(checkpoint.commit, files));
+        const restored = files.filter((file) => existing.has(file));
+        if (restored.length > 0) {
+          await this.git(["checkout", checkpoint.commit, "--", ...restored]);
+        }
+        for (const file of files.filter((entry) => !existing.has(entry))) {
+          await fs.promises.rm(path.join(this.workspaceDir, file), { force: true });
+        }
+      }
+      index.sessions[sessionKey] = list.slice(0, position);
+      await writeJsonAtomic(this.indexPath, index);
+      return {
+        checkpoint,
+        files,
+        dropped: list.length - position,
+        overwritten: files.filter((file) => changedSince.has(file)),
+      };
+    });
+  }
+
+  // ── Internals ──────────────────────────────────────────────────────────────
+
+  private async readIndex(): Promise<CheckpointIndexFile> {
+    const file = await readJsonFile<CheckpointIndexFile>(this.indexPath);
+    return file?.version === 1 && file.sessions ? file : { version: 1, sessions: {} };
+  }
+
+  private async ensureRepo(): Promise<void> {
+    if (this.initialized) {
+      return;
+    }
+    if (!fs.existsSync(path.join(this.gitDir, "HEAD"))) {
+      await fs.promises.mkdir(this.gitDir, { recursive: true });
+      await this.git(["init", "--quiet"]);
+      logDebug(`[checkpoints] created shadow store at ${this.gitDir}`);
+    }
+    // Never snapshot (or restore over) coderClaw's own state.
+    await fs.promises.writeFile(
+      path.join(this.gitDir, "info", "exclude"),
+      `/${CODERCLAW_DIR}/\n`,
+      "utf-8",
+    );
+    this.initialized = true;
+  }
+
+  private async snapshotTree(): Promise<string> {
+    await this.git(["add", "--all", "--ignore-errors", "--", "."]);
+    return (await this.git(["write-tree"])).trim();
+  }
+
+  /** Paths that differ between two trees, optionally limited to `paths`. */
+  private async changedPaths(from: string, to: string, paths?: string[]): Promise<string[]> {
+    const output = await this.git([
+      "diff-tree",
+      "-r",
+      "-z",
+      "--name-only",
+      from,
+      to,
+      ...(paths ? ["--", ...paths] : []),
+    ]);
+    return output.split("\0").filter(Boolean);
+  }
+
+  /** Which of `paths` exist in a tree. */
+  private async listPaths(tree: string, paths: string[]): Promise<string[]> {
+    const output = await this.git(["ls-tree", "-r", "-z", "--name-only", tree, "--", ...paths]);
+    return output.split("\0").filter(Boolean);
+  }
+
+  private async git(args: string[]): Promise<string> {
+    const fullArgs = [
+      `--git-dir=${this.gitDir}`,
+      `--work-tree=${this.workspaceDir}`,
+      "--literal-pathspecs",
+      ...args,
+    ];
+    const result = await runCommandWithTimeout(["git", ...fullArgs], {
+      cwd: this.workspaceDir,
+      timeoutMs: this.timeoutMs,
+      env: SHADOW_IDENTITY_ENV,
+    });
+    if (result.code !== 0) {
+      throw new CheckpointGitError(args, result.stderr || result.stdout);
+    }
+    return result.stdout;
+  }
+}
+
+const stores = new Map<string, ToolCheckpointStore>();
+
+/** Shared store per workspace, so tool calls and commands serialize on one lock. */
+export function getToolCheckpointStore(
+  workspaceDir: string,
+  opts: { maxPerSession?: number } = {},
+): ToolCheckpointStore {
+  const key = path.resolve(workspaceDir);
+  let store = stores.get(key);
+  if (!store) {
+    store = new ToolCheckpointStore({ workspaceDir: key, ...opts });
+    stores.set(key, store);
+  }
+  return store;
+}
+
+// ── Transcript turns ─────────────────────────────────────────────────────────
+
+export type TranscriptTurn = {
+  /** 1-based, counting user messages on the session's current branch. */
+  turn: number;
+  /** First line of the user message. */
+  preview: string;
+  /** Tool calls the assistant made while answering this turn. */
+  toolCallIds: Set<string>;
+};
+
+type BranchEntry = ReturnType<SessionManager["getBranch"]>[number];
+
+function userMessagePreview(entry: BranchEntry): string | null {
+  if (entry.type !== "message") {
+    return null;
+  }
+  const message = entry.message as { role?: string; content?: unknown };
+  if (message.role !== "user") {
+    return null;
+  }
+  const content = message.content;
+  const text =
+    typeof content === "string"
+      ? content
+      : Array.isArray(content)
+        ? content
+            .map((block) => {
+              const b = block as { type?: unknown; text?: unknown };
+              return b?.type === "text" && typeof b.text === "string" ? b.text : "";
+            })
+            .join(" ")
+        : "";
+  return text.trim().split("\n")[0]?.slice(0, 80) ?? "";
+}
+
+function assistantToolCallIds(entry: BranchEntry): string[] {
+  if (entry.type !== "message") {
+    return [];
+  }
+  const message = entry.message as { role?: string; content?: unknown };
+  if (message.role !== "assistant" || !Array.isArray(message.content)) {
+    return [];
+  }
+  return message.content.flatMap((block) => {
+    const b = block as { type?: unknown; id?: unknown };
+    return b?.type === "toolCall" && typeof b.id === "string" ? [b.id] : [];
+  });
+}
+
+function readBranch(sessionFile: string): { manager: SessionManager; branch: BranchEntry[] } {
+  const manager = SessionManager.open(sessionFile);
+  return { manager, branch: manager.getBranch() };
+}
+
+/** User turns of a session transcript with the tool calls made in each. */
+export function listTranscriptTurns(sessionFile: string): TranscriptTurn[] {
+  if (!fs.existsSync(sessionFile)) {
+    return [];
+  }
+  const turns: TranscriptTurn[] = [];
+  for (const entry of readBranch(sessionFile).branch) {
+    const preview = userMessagePreview(entry);
+    if (preview !== null) {
+      turns.push({ turn: turns.length + 1, preview, toolCallIds: new Set() });
+      continue;
+    }
+    const current = turns.at(-1);
+    for (const id of assistantToolCallIds(entry)) {
+      current?.toolCallIds.add(id);
+    }
+  }
+  return turns;
+}
+
+/** Turn in which a checkpoint's tool call was made, if it is on the transcript. */
+export function findCheckpointTurn(
+  turns: TranscriptTurn[],
+  checkpoint: ToolCheckpoint,
+): number | undefined {
+  if (!checkpoint.toolCallId) {
+    return undefined;
+  }
+  return turns.find((turn) => turn.toolCallIds.has(checkpoint.toolCallId!))?.turn;
+}
+
+/**
+ * Cut a transcript back to just before user turn `turn`. The current branch
+ * up to that point is kept; the previous file is archived next to it.
+ * Returns false when the transcript has no such turn.
+ */
+export function truncateTranscriptBeforeTurn(sessionFile: string, turn: number): boolean {
+  if (!fs.existsSync(sessionFile)) {
+    return false;
+  }
+  const { manager, branch } = readBranch(sessionFile);
+  let seen = 0;
+  const cut = branch.findIndex((entry) => {
+    if (userMessagePreview(entry) === null) {
+      return false;
+    }
+    seen += 1;
+    return seen === turn;
+  });
+  if (cut === -1) {
+    return false;
+  }
+  const header = manager.getHeader();
+  const kept = [...(header ? [header] : []), ...branch.slice(0, cut)];
+  archiveFileOnDisk(sessionFile, "bak");
+  fs.writeFileSync(sessionFile, `${kept.map((entry) => JSON.stringify(entry)).join("\n")}\n`);
+  return true;
+}
@@ -0,0 +1,310 @@
+/**
+ * Records orchestrator workflow runs as replayable fixtures.
+ *
+ * The recorder wraps the ports whose answers are not deterministic — agent
+ * transport, memory recall and test gates — and the model stream of the
+ * sub-agents the transport spawns. When a workflow finishes, everything it
+ * saw is written to one JSON fixture (see coderclaw/workflow-fixture.ts) for
+ * `coderclaw eval replay`.
+ *
+ * Enabled at gateway startup by CODERCLAW_WORKFLOW_RECORD: a truthy value
+ * writes to the project's `.coderClaw/fixtures/`, any other value is taken as
+ * the output directory.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { StreamFn } from "@mariozechner/pi-agent-core";
+import type { AgentOrchestrator } from "../coderclaw/orchestrator.js";
+import type {
+  AgentTransportDispatchPayload,
+  AgentTransportDispatchResult,
+  IAgentMemoryService,
+  IAgentTransport,
+  ITestRunner,
+} from "../coderclaw/ports.js";
+import { resolveCoderClawDir } from "../coderclaw/project-dir.js";
+import {
+  WORKFLOW_FIXTURE_VERSION,
+  fixtureTaskKey,
+  rolePromptForTarget,
+  snapshotWorkflowTasks,
+  writeWorkflowFixture,
+  type FixtureDispatch,
+  type FixtureMemoryEntry,
+  type FixtureModelCall,
+  type FixtureTestGate,
+} from "../coderclaw/workflow-fixture.js";
+import { logDebug, logInfo, logWarn } from "../logger.js";
+import { resolveUserPath } from "../utils.js";
+import { parseBooleanValue } from "../utils/boolean.js";
+
+/** Model calls are kept for this many sub-agent sessions awaiting their dispatch. */
+const MAX_PENDING_SESSIONS = 100;
+/** Memory recalls kept for workflows that have not finished yet. */
+const MAX_PENDING_RECALLS = 500;
+
+type WorkflowRecording = {
+  dispatches: FixtureDispatch[];
+  testGates: FixtureTestGate[];
+};
+
+export type WorkflowRecorderOptions = {
+  orchestrator: AgentOrchestrator;
+  /** Directory the fixtures are written to. */
+  outputDir: string;
+};
+
+export class WorkflowRecorder {
+  private readonly recordings = new Map<string, WorkflowRecording>();
+  private readonly modelCalls = new Map<string, FixtureModelCall[]>();
+  private readonly recalls = new Map<string, FixtureMemoryEntry[]>();
+  private teamContext: string | undefined;
+  /** Dispatches in flight; model calls are only recorded while one is. */
+  private inflight = 0;
+
+  constructor(private readonly opts: WorkflowRecorderOptions) {}
+
+  /** Write a fixture whenever a workflow finishes. Returns the unsubscribe function. */
+  start(): () => void {
+    return this.opts.orchestrator.onWorkflowEvent((evt) => {
+      if (
+        !evt.task &&
+        (evt.status === "completed" || evt.status === "failed" || evt.status === "cancelled")
+      ) {
+        void this.flush(evt.workflowId).catch((err) => {
+          logWarn(
+            `[workflow-recorder] writing fixture for ${evt.workflowId} failed: ${String(err)}`,
+          );
+        });
+      }
+    });
+  }
+
+  wrapTransport(inner: IAgentTransport): IAgentTransport {
+    return {
+      discover: (requiredCapabilities) => inner.discover(requiredCapabilities),
+      ...(inner.register ? { register: (entry) => inner.register?.(entry) } : {}),
+      dispatch: async (payload) => {
+        this.inflight += 1;
+        let result: AgentTransportDispatchResult;
+        try {
+          result = await inner.dispatch(payload);
+        } finally {
+          this.inflight -= 1;
+        }
+        this.recordDispatch(payload, result);
+        return result;
+      },
+    };
+  }
+
+  wrapMemoryService(inner: IAgentMemoryService): IAgentMemoryService {
+    return {
+      buildTeamMemoryContext: async () => {
+        const context = await inner.buildTeamMemoryContext();
+        this.teamContext = context;
+        return context;
+      },
+      recallSimilar: async (query, limit) => {
+        const entries = await inner.recallSimilar(query, limit);
+        this.recalls.delete(query);
+        this.recalls.set(query, entries);
+        if (this.recalls.size > MAX_PENDING_RECALLS) {
+          this.recalls.delete(this.recalls.keys().next().value as string);
+        }
+        return entries;
+      },
+    };
+  }
+
+  wrapTestRunner(inner: ITestRunner): ITestRunner {
+    return {
+      run: async (request) => {
+        const result = await inner.run(request);
+        const at = this.locate(request.workflowId, request.taskId);
+        if (at) {
+          this.recording(at.workflowId).testGates.push({
+            task: at.task,
+            iteration: at.iteration,
+            result,
+          });
+        }
+        return result;
+      },
+    };
+  }
+
+  /** Capture each model response of a sub-agent session spawned by a recorded dispatch. */
+  wrapStreamFn(sessionKey: string | undefined, streamFn: StreamFn): StreamFn {
+    return (model, context, options) => {
+      const stream = streamFn(model, context, options);
+      if (!sessionKey?.includes(":subagent:") || this.inflight === 0) {
+        return stream;
+      }
+      const tools = (context.tools ?? []).map((tool) => tool.name);
+      void Promise.resolve(stream)
+        .then((events) => events.result())
+        .then((message) => {
+          this.recordModelCall(sessionKey, {
+            model: `${message.provider}/${message.model}`,
+            tools,
+            text: message.content
+              .map((block) => (block.type === "text" ? block.text : ""))
+              .join(""),
+            toolCalls: message.content.flatMap((block) =>
+              block.type === "toolCall" ? [{ name: block.name, arguments: block.arguments }] : [],
+            ),
+            stopReason: message.stopReason,
+          });
+        })
+        .catch((err) => {
+          logDebug(`[workflow-recorder] model call not recorded: ${String(err)}`);
+        });
+      return stream;
+    };
+  }
+
+  private recordModelCall(sessionKey: string, call: FixtureModelCall): void {
+    const calls = this.modelCalls.get(sessionKey) ?? [];
+    calls.push(call);
+    this.modelCalls.set(sessionKey, calls);
+    if (this.modelCalls.size > MAX_PENDING_SESSIONS) {
+      this.modelCalls.delete(this.modelCalls.keys().next().value as string);
+    }
+  }
+
+  private locate(
+    workflowId?: string,
+    taskId?: string,
+  ): { workflowId: string; task: string; iteration: number } | null {
+    const workflow = this.opts.orchestrator.getWorkflowStatus(workflowId ?? "");
+    const task = workflow?.tasks.get(taskId ?? "");
+    if (!workflow || !task) {
+      return null;
+    }
+    return {
+      workflowId: workflow.id,
+      task: fixtureTaskKey(workflow, task.id),
+      iteration: task.iteration ?? 0,
+    };
+  }
+
+  private recording(workflowId: string): WorkflowRecording {
+    let recording = this.recordings.get(workflowId);
+    if (!recording) {
+      recording = { dispatches: [], testGates: [] };
+      this.recordings.set(workflowId, recording);
+    }
+    return recording;
+  }
+
+  private recordDispatch(
+    payload: AgentTransportDispatchPayload,
+    result: AgentTransportDispatchResult,
+  ): void {
+    const at = this.locate(payload.workflowId, payload.taskId);
+    if (!at) {
+      return;
+    }
+    let modelCalls: FixtureModelCall[] = [];
+    if (result.status === "accepted" && result.childSessionKey) {
+      modelCalls = this.modelCalls.get(result.childSessionKey) ?? [];
+      this.modelCalls.delete(result.childSessionKey);
+    }
+    const rolePrompt = rolePromptForTarget(payload.target, result.targetId);
+    this.recording(at.workflowId).dispatches.push({
+      task: at.task,
+      iteration: at.iteration,
+      target: payload.target,
+      input: payload.input,
+      ...(payload.model ? { model: payload.model } : {}),
+      ...(payload.provider ? { provider: payload.provider } : {}),
+      ...(payload.thinking ? { thinking: payload.thinking } : {}),
+      ...(rolePrompt !== undefined ? { rolePrompt } : {}),
+      result:
+        result.status === "accepted"
+          ? {
+              status: "accepted",
+              targetId: result.targetId,
+              ...(result.output !== undefined ? { output: result.output } : {}),
+            }
+          : result,
+      modelCalls,
+    });
+  }
+
+  /** Write the finished workflow's fixture. Returns its path, or null when nothing was dispatched. */
+  async flush(workflowId: string): Promise<string | null> {
+    const recording = this.recordings.get(workflowId);
+    this.recordings.delete(workflowId);
+    const workflow = this.opts.orchestrator.getWorkflowStatus(workflowId);
+    if (!workflow || !recording || recording.dispatches.length === 0) {
+      return null;
+    }
+    const recalls: Record<string, FixtureMemoryEntry[]> = {};
+    for (const task of workflow.tasks.values()) {
+      const entries = this.recalls.get(task.description);
+      if (entries) {
+        recalls[task.description] = entries;
+        this.recalls.delete(task.description);
+      }
+    }
+    await fs.mkdir(this.opts.outputDir, { recursive: true });
+    const filePath = path.join(
+      this.opts.outputDir,
+      `${workflow.type ?? "workflow"}-${workflow.id.slice(0, 8)}.json`,
+    );
+    await writeWorkflowFixture(filePath, {
+      version: WORKFLOW_FIXTURE_VERSION,
+      recordedAt: new Date().toISOString(),
+      workflow: {
+        ...(workflow.type ? { type: workflow.type } : {}),
+        steps: workflow.steps,
+      },
+      tasks: snapshotWorkflowTasks(workflow),
+      dispatches: recording.dispatches,
+      memory: {
+        ...(this.teamContext ? { teamContext: this.teamContext } : {}),
+        recalls,
+      },
+      testGates: recording.testGates,
+    });
+    logInfo(`[workflow-recorder] recorded workflow ${workflowId} to ${filePath}`);
+    return filePath;
+  }
+}
+
+/** Fixture directory from CODERCLAW_WORKFLOW_RECORD, or null when recording is off. */
+export function resolveWorkflowRecordDir(
+  env: NodeJS.ProcessEnv,
+  projectRoot: string,
+): string | null {
+  const raw = env.CODERCLAW_WORKFLOW_RECORD?.trim();
+  if (!raw) {
+    return null;
+  }
+  const flag = parseBooleanValue(raw);
+  if (flag !== undefined) {
+    return flag ? resolveCoderClawDir(projectRoot).fixturesDir : null;
+  }
+  return resolveUserPath(raw);
+}
+
+let activeRecorder: WorkflowRecorder | null = null;
+
+export function setActiveWorkflowRecorder(recorder: WorkflowRecorder | null): void {
+  activeRecorder = recorder;
+}
+
+export function getActiveWorkflowRecorder(): WorkflowRecorder | null {
+  return activeRecorder;
+}
+
+/** Let the active recorder see an embedded agent's model calls; a no-op when recording is off. */
+export function wrapStreamFnForWorkflowRecording(
+  sessionKey: string | undefined,
+  streamFn: StreamFn,
+): StreamFn {
+  return activeRecorder ? activeRecorder.wrapStreamFn(sessionKey, streamFn) : streamFn;
+}
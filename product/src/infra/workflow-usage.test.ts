@@ -0,0 +1,34 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import type { CoderClawConfig } from "../config/config.js";
+import { WorkflowUsageService } from "./workflow-usage.js";
+
+describe("WorkflowUsageService", () => {
+  it("keeps a per-day spend ledger across instances", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "workflow-usage-"));
+    const filePath = path.join(dir, "workflow-spend.json");
+    let now = new Date(2026, 2, 1, 12);
+    const cfg = {
+      tools: { orchestrate: { budget: { day: { maxUsd: 5 } } } },
+    } as CoderClawConfig;
+    const create = () =>
+      new WorkflowUsageService({ filePath, getConfig: () => cfg, now: () => now });
+    const usage = { inputTokens: 100, outputTokens: 50, totalTokens: 150, costUsd: 0.25 };
+
+    await create().recordDailyUsage(usage);
+    await create().recordDailyUsage(usage);
+    expect(await create().getDailyUsage()).toEqual({
+      inputTokens: 200,
+      outputTokens: 100,
+      totalTokens: 300,
+      costUsd: 0.5,
+    });
+    expect(create().getBudget()).toEqual({ day: { maxUsd: 5 } });
+
+    now = new Date(2026, 2, 2, 9);
+    expect((await create().getDailyUsage()).totalTokens).toBe(0);
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+});
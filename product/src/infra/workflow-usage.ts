@@ -0,0 +1,123 @@
+/**
+ * Usage accounting for orchestrator workflows (the `IUsageService` port).
+ *
+ * Task usage is read from the spawned sub-agent's session transcript via
+ * `loadSessionCostSummary`. Daily workflow spend is kept in a small ledger
+ * under the state dir so day caps hold across gateway restarts.
+ */
+
+import path from "node:path";
+import type { IUsageService } from "../coderclaw/ports.js";
+import {
+  addUsage,
+  emptyUsage,
+  type TaskUsage,
+  type UsageTotals,
+  type WorkflowBudget,
+} from "../coderclaw/workflow-budget.js";
+import type { CoderClawConfig } from "../config/config.js";
+import { loadConfig } from "../config/config.js";
+import { resolveStateDir } from "../config/paths.js";
+import { loadSessionStore, resolveStorePath } from "../config/sessions.js";
+import { logDebug } from "../logger.js";
+import { parseAgentSessionKey } from "../routing/session-key.js";
+import { createAsyncLock, readJsonFile, writeJsonAtomic } from "./json-files.js";
+import { loadSessionCostSummary } from "./session-cost-usage.js";
+
+type SpendLedgerFile = {
+  version: 1;
+  /** Keyed by local date (YYYY-MM-DD). */
+  days: Record<string, UsageTotals>;
+};
+
+const LEDGER_RETENTION_DAYS = 31;
+
+export function resolveWorkflowSpendPath(baseDir?: string): string {
+  return path.join(baseDir ?? resolveStateDir(), "usage", "workflow-spend.json");
+}
+
+function dayKey(date: Date): string {
+  return date.toLocaleDateString("en-CA");
+}
+
+/** Usage of one agent session, attributed to the model it used most. */
+export async function loadSessionUsage(
+  sessionKey: string,
+  cfg: CoderClawConfig,
+): Promise<TaskUsage | null> {
+  const agentId = parseAgentSessionKey(sessionKey)?.agentId ?? "main";
+  const store = loadSessionStore(resolveStorePath(cfg.session?.store, { agentId }));
+  const entry = store[sessionKey];
+  if (!entry?.sessionId) {
+    return null;
+  }
+  const summary = await loadSessionCostSummary({
+    sessionId: entry.sessionId,
+    sessionEntry: entry,
+    sessionFile: entry.sessionFile,
+    config: cfg,
+    agentId,
+  });
+  if (!summary) {
+    return null;
+  }
+  const top = summary.modelUsage?.[0];
+  return {
+    inputTokens: summary.input + summary.cacheRead + summary.cacheWrite,
+    outputTokens: summary.output,
+    totalTokens: summary.totalTokens,
+    costUsd: summary.totalCost,
+    ...(top?.model ? { model: top.provider ? `${top.provider}/${top.model}` : top.model } : {}),
+  };
+}
+
+export class WorkflowUsageService implements IUsageService {
+  private readonly filePath: string;
+  private readonly getConfig: () => CoderClawConfig;
+  private readonly now: () => Date;
+  private readonly withLock = createAsyncLock();
+
+  constructor(
+    opts: { filePath?: string; getConfig?: () => CoderClawConfig; now?: () => Date } = {},
+  ) {
+    this.filePath = opts.filePath ?? resolveWorkflowSpendPath();
+    this.getConfig = opts.getConfig ?? loadConfig;
+    this.now = opts.now ?? (() => new Date());
+  }
+
+  async collectSessionUsage(sessionKey: string): Promise<TaskUsage | null> {
+    return loadSessionUsage(sessionKey, this.getConfig());
+  }
+
+  async recordDailyUsage(usage: UsageTotals): Promise<void> {
+    await this.withLock(async () => {
+      const file = (await readJsonFile<SpendLedgerFile>(this.filePath)) ?? {
+        version: 1,
+        days: {},
+      };
+      const today = this.now();
+      const key = dayKey(today);
+      file.days[key] = addUsage(file.days[key], usage);
+      const oldest = dayKey(new Date(today.getTime() - LEDGER_RETENTION_DAYS * 86_400_000));
+      for (const day of Object.keys(file.days)) {
+        if (day < oldest) {
+          delete file.days[day];
+        }
+      }
+      try {
+        await writeJsonAtomic(this.filePath, file);
+      } catch (err) {
+        logDebug(`[workflow-usage] failed to persist ${this.filePath}: ${String(err)}`);
+      }
+    });
+  }
+
+  async getDailyUsage(): Promise<UsageTotals> {
+    const file = await readJsonFile<SpendLedgerFile>(this.filePath);
+    return file?.days?.[dayKey(this.now())] ?? emptyUsage();
+  }
+
+  getBudget(): WorkflowBudget | undefined {
+    return this.getConfig().tools?.orchestrate?.budget;
+  }
+}
@@ -0,0 +1,148 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import {
+  createLspStdioTransport,
+  filePathToUri,
+  LspClient,
+  type LspClientTransport,
+} from "./client.js";
+import { createLspMessageReader, encodeLspMessage } from "./protocol.js";
+import { applyTextEdits, collectWorkspaceEdits } from "./workspace-edit.js";
+
+describe("LSP framing", () => {
+  it("decodes messages split and batched across chunks", () => {
+    const received: unknown[] = [];
+    const invalid: string[] = [];
+    const read = createLspMessageReader(
+      (message) => received.push(message),
+      (reason) => invalid.push(reason),
+    );
+    const first = encodeLspMessage({ id: 1, result: "héllo" });
+    const second = encodeLspMessage({ method: "ping" });
+    read(first.subarray(0, 10));
+    read(Buffer.concat([first.subarray(10), second.subarray(0, 25)]));
+    expect(received).toEqual([{ id: 1, result: "héllo" }]);
+    read(Buffer.concat([second.subarray(25), Buffer.from("X-Junk: 1\r\n\r\n")]));
+    expect(received).toEqual([{ id: 1, result: "héllo" }, { method: "ping" }]);
+    expect(invalid).toHaveLength(1);
+  });
+});
+
+describe("LspClient", () => {
+  it("answers server requests during the handshake", async () => {
+    const sent: Array<Record<string, unknown>> = [];
+    let deliver: (message: unknown) => void = () => {};
+    const transport: LspClientTransport = {
+      async start(onMessage) {
+        deliver = onMessage;
+      },
+      async send(message) {
+        sent.push(message);
+        if (message.method === "initialize") {
+          deliver({
+            jsonrpc: "2.0",
+            id: 7,
+            method: "workspace/configuration",
+            params: { items: [{ section: "a" }, { section: "b" }] },
+          });
+          deliver({ jsonrpc: "2.0", id: 8, method: "workspace/applyEdit", params: {} });
+          deliver({ jsonrpc: "2.0", id: message.id, result: { serverInfo: { name: "loop" } } });
+        } else if (message.method === "shutdown") {
+          deliver({ jsonrpc: "2.0", id: message.id, result: null });
+        }
+      },
+      async close() {},
+    };
+    const rootDir = path.join(os.tmpdir(), "lsp-root");
+    const client = new LspClient("loop", transport, { rootDir, timeoutMs: 1_000 });
+    await client.connect();
+
+    expect(client.serverInfo).toEqual({ name: "loop" });
+    expect(sent[0]).toMatchObject({
+      method: "initialize",
+      params: { rootUri: filePathToUri(rootDir) },
+    });
+    expect(sent).toContainEqual({ jsonrpc: "2.0", id: 7, result: [null, null] });
+    expect(sent).toContainEqual({ jsonrpc: "2.0", id: 8, result: { applied: false } });
+    expect(sent).toContainEqual({ jsonrpc: "2.0", method: "initialized", params: {} });
+
+    await client.close();
+    expect(client.isClosed).toBe(true);
+    expect(sent.slice(-2).map((message) => message.method)).toEqual(["shutdown", "exit"]);
+  });
+});
+
+// Answers initialize, then closes its input while staying alive.
+const CLOSING_SERVER_SCRIPT = `
+process.stdin.once("data", (chunk) => {
+  const id = JSON.parse(chunk.toString().split("\\r\\n\\r\\n")[1]).id;
+  const body = JSON.stringify({ jsonrpc: "2.0", id, result: { capabilities: {} } });
+  process.stdout.write("Content-Length: " + Buffer.byteLength(body) + "\\r\\n\\r\\n" + body);
+  process.stdin.destroy();
+  require("node:fs").closeSync(0);
+});
+setInterval(() => {}, 1000);
+`;
+
+describe("LSP stdio transport", () => {
+  it("fails pending requests instead of crashing when the server stops reading", async () => {
+    const transport = createLspStdioTransport({
+      command: process.execPath,
+      args: ["-e", CLOSING_SERVER_SCRIPT],
+      label: "closing",
+    });
+    const client = new LspClient("closing", transport, { rootDir: os.tmpdir(), timeoutMs: 5_000 });
+    await client.connect();
+    // Give the server time to close its input so the next write hits EPIPE.
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    const file = path.join(os.tmpdir(), `lsp-closing-${process.pid}.ts`);
+    await fs.writeFile(file, "const x = 1;\n");
+    try {
+      await expect(client.hover(file, "typescript", { line: 0, character: 0 })).rejects.toThrow(
+        /language server "closing"/,
+      );
+      expect(client.isClosed).toBe(true);
+    } finally {
+      await fs.rm(file, { force: true });
+    }
+  });
+});
+
+describe("workspace edits", () => {
+  const range = (line: number, start: number, end: number) => ({
+    start: { line, character: start },
+    end: { line, character: end },
+  });
+
+  it("applies edits from the end so earlier offsets stay valid", () => {
+    const content = "const foo = 1;\nfoo + foo;\n";
+    const updated = applyTextEdits(content, [
+      { range: range(0, 6, 9), newText: "bar" },
+      { range: range(1, 0, 3), newText: "bar" },
+      { range: range(1, 6, 9), newText: "bar" },
+      { range: range(2, 0, 0), newText: "// end\n" },
+    ]);
+    expect(updated).toBe("const bar = 1;\nbar + bar;\n// end\n");
+  });
+
+  it("groups text edits by file and reports file operations", () => {
+    const fileA = path.join(os.tmpdir(), "a.ts");
+    const fileB = path.join(os.tmpdir(), "b.ts");
+    const edit = { range: range(0, 0, 1), newText: "x" };
+    expect(collectWorkspaceEdits({ changes: { [filePathToUri(fileA)]: [edit] } }).files).toEqual([
+      { filePath: fileA, edits: [edit] },
+    ]);
+
+    const result = collectWorkspaceEdits({
+      documentChanges: [
+        { textDocument: { uri: filePathToUri(fileB), version: 1 }, edits: [edit] },
+        { kind: "rename", oldUri: filePathToUri(fileB), newUri: filePathToUri(fileA) },
+      ],
+    });
+    expect(result.files).toEqual([{ filePath: fileB, edits: [edit] }]);
+    expect(result.unsupported).toHaveLength(1);
+  });
+});
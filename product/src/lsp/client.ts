@@ -0,0 +1,462 @@
+/**
+ * LSP client: runs a language server over stdio, performs the `initialize`
+ * handshake and exposes the requests the lsp_* agent tools need
+ * (definition, references, hover, rename) plus the diagnostics the server
+ * publishes for open documents.
+ *
+ * Documents are synced lazily: every request re-reads the file from disk and
+ * sends `didOpen`/`didChange` when the text differs from what the server has,
+ * so edits made by other tools (or accepted staged edits) are always seen.
+ */
+
+import { spawn, type ChildProcessWithoutNullStreams } from "node:child_process";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import { logDebug } from "../logger.js";
+import { JSON_RPC_ERRORS, type JsonRpcError, type JsonRpcId } from "../mcp/protocol.js";
+import { VERSION } from "../version.js";
+import {
+  createLspMessageReader,
+  encodeLspMessage,
+  LspError,
+  type LspDiagnostic,
+  type LspHover,
+  type LspLocation,
+  type LspLocationLink,
+  type LspPosition,
+  type LspWorkspaceEdit,
+} from "./protocol.js";
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const SHUTDOWN_TIMEOUT_MS = 2_000;
+// Servers often publish twice (syntax, then semantic); wait for the burst to settle.
+const DIAGNOSTICS_SETTLE_MS = 300;
+
+type JsonRpcOutgoing = {
+  jsonrpc: "2.0";
+  id?: JsonRpcId;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string };
+};
+
+export type LspClientTransport = {
+  /** Begin receiving; every inbound JSON-RPC message is passed to `onMessage`. */
+  start(onMessage: (message: unknown) => void, onClose: (reason: string) => void): Promise<void>;
+  send(message: JsonRpcOutgoing): Promise<void>;
+  close(): Promise<void>;
+};
+
+type PendingRequest = {
+  resolve: (result: unknown) => void;
+  reject: (err: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+};
+
+export function createLspStdioTransport(params: {
+  command: string;
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+  label: string;
+}): LspClientTransport {
+  let child: ChildProcessWithoutNullStreams | null = null;
+  return {
+    async start(onMessage, onClose) {
+      child = spawn(params.command, params.args ?? [], {
+        cwd: params.cwd,
+        env: { ...process.env, ...params.env },
+        stdio: ["pipe", "pipe", "pipe"],
+      });
+      const proc = child;
+      await new Promise<void>((resolve, reject) => {
+        proc.once("spawn", () => resolve());
+        proc.once("error", reject);
+      });
+      proc.on("exit", (code, signal) => onClose(`exited (${signal ?? code})`));
+      // Writing to a server that closed its input fails with EPIPE; without a
+      // listener that error would be thrown as uncaught.
+      proc.stdin.on("error", (err) => {
+        onClose(`stopped reading input (${err.message})`);
+        proc.kill();
+      });
+      proc.stderr.on("data", (chunk: Buffer) => {
+        logDebug(`[lsp:${params.label}] ${chunk.toString().trimEnd()}`);
+      });
+      proc.stdout.on(
+        "data",
+        createLspMessageReader(onMessage, (reason) => logDebug(`[lsp:${params.label}] ${reason}`)),
+      );
+    },
+    async send(message) {
+      if (!child || child.exitCode !== null) {
+        throw new Error("language server process is not running");
+      }
+      child.stdin.write(encodeLspMessage(message));
+    },
+    async close() {
+      if (child && child.exitCode === null) {
+        child.stdin.end();
+        child.kill();
+      }
+      child = null;
+    },
+  };
+}
+
+export function filePathToUri(filePath: string): string {
+  return pathToFileURL(path.resolve(filePath)).href;
+}
+
+export function uriToFilePath(uri: string): string {
+  return uri.startsWith("file:") ? fileURLToPath(uri) : uri;
+}
+
+export class LspClient {
+  readonly name: string;
+  readonly rootDir: string;
+  private readonly transport: LspClientTransport;
+  private readonly timeoutMs: number;
+  private readonly initializationOptions?: Record<string, unknown>;
+  private readonly pending = new Map<JsonRpcId, PendingRequest>();
+  private readonly documents = new Map<string, { version: number; text: string }>();
+  private readonly diagnostics = new Map<string, LspDiagnostic[]>();
+  private readonly diagnosticListeners = new Set<(uri: string) => void>();
+  private nextId = 1;
+  private closed = false;
+  serverInfo: { name?: string; version?: string } | null = null;
+
+  constructor(
+    name: string,
+    transport: LspClientTransport,
+    opts: {
+      rootDir: string;
+      timeoutMs?: number;
+      initializationOptions?: Record<string, unknown>;
+    },
+  ) {
+    this.name = name;
+    this.rootDir = path.resolve(opts.rootDir);
+    this.transport = transport;
+    this.timeoutMs = opts.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.initializationOptions = opts.initializationOptions;
+  }
+
+  get isClosed(): boolean {
+    return this.closed;
+  }
+
+  async connect(): Promise<void> {
+    await this.transport.start(
+      (message) => this.handleMessage(message),
+      (reason) => this.handleClose(reason),
+    );
+    const rootUri = filePathToUri(this.rootDir);
+    const result = (await this.request("initialize", {
+      processId: process.pid,
+      clientInfo: { name: "coderclaw", version: VERSION },
+      rootUri,
+      rootPath: this.rootDir,
+      workspaceFolders: [{ uri: rootUri, name: path.basename(this.rootDir) }],
+      capabilities: {
+        textDocument: {
+          synchronization: { dynamicRegistration: false },
+          publishDiagnostics: { relatedInformation: false },
+          definition: { linkSupport: true },
+          references: {},
+          hover: { contentFormat: ["markdown", "plaintext"] },
+          rename: { prepareSupport: false },
+        },
+        workspace: {
+          workspaceFolders: true,
+          configuration: true,
+          workspaceEdit: { documentChanges: true },
+        },
+      },
+      ...(this.initializationOptions ? { initializationOptions: this.initializationOptions } : {}),
+    })) as { serverInfo?: { name?: string; version?: string } } | null;
+    this.serverInfo = result?.serverInfo ?? null;
+    await this.notify("initialized", {});
+  }
+
+  /**
+   * Diagnostics for a file after the server has (re)analysed its current
+   * on-disk content; waits up to `waitMs` for the server to publish.
+   */
+  async getDiagnostics(
+    filePath: string,
+    languageId: string,
+    waitMs: number,
+  ): Promise<LspDiagnostic[]> {
+    const uri = filePathToUri(filePath);
+    const published = this.waitForDiagnostics(uri, waitMs);
+    const changed = await this.syncDocument(filePath, languageId);
+    if (changed || !this.diagnostics.has(uri)) {
+      await published.wait();
+    }
+    published.cancel();
+    return this.diagnostics.get(uri) ?? [];
+  }
+
+  async definition(
+    filePath: string,
+    languageId: string,
+    position: LspPosition,
+  ): Promise<LspLocation[]> {
+    await this.syncDocument(filePath, languageId);
+    const result = (await this.request("textDocument/definition", {
+      textDocument: { uri: filePathToUri(filePath) },
+      position,
+    })) as LspLocation | Array<LspLocation | LspLocationLink> | null;
+    return normalizeLocations(result);
+  }
+
+  async references(
+    filePath: string,
+    languageId: string,
+    position: LspPosition,
+    includeDeclaration: boolean,
+  ): Promise<LspLocation[]> {
+    await this.syncDocument(filePath, languageId);
+    const result = (await this.request("textDocument/references", {
+      textDocument: { uri: filePathToUri(filePath) },
+      position,
+      context: { includeDeclaration },
+    })) as LspLocation[] | null;
+    return result ?? [];
+  }
+
+  async hover(
+    filePath: string,
+    languageId: string,
+    position: LspPosition,
+  ): Promise<LspHover | null> {
+    await this.syncDocument(filePath, languageId);
+    return (await this.request("textDocument/hover", {
+      textDocument: { uri: filePathToUri(filePath) },
+      position,
+    })) as LspHover | null;
+  }
+
+  async rename(
+    filePath: string,
+    languageId: string,
+    position: LspPosition,
+    newName: string,
+  ): Promise<LspWorkspaceEdit | null> {
+    await this.syncDocument(filePath, languageId);
+    return (await this.request("textDocument/rename", {
+      textDocument: { uri: filePathToUri(filePath) },
+      position,
+      newName,
+    })) as LspWorkspaceEdit | null;
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    try {
+      await this.request("shutdown", undefined, SHUTDOWN_TIMEOUT_MS);
+      await this.notify("exit");
+    } catch {
+      // Best effort: the process is killed below either way.
+    }
+    this.handleClose("closed");
+    await this.transport.close();
+  }
+
+  /** Open the file on the server, or send its new text if it changed. Returns true when sent. */
+  private async syncDocument(filePath: string, languageId: string): Promise<boolean> {
+    const uri = filePathToUri(filePath);
+    const text = await fs.readFile(filePath, "utf-8");
+    const open = this.documents.get(uri);
+    if (open?.text === text) {
+      return false;
+    }
+    if (open) {
+      const version = open.version + 1;
+      this.documents.set(uri, { version, text });
+      await this.notify("textDocument/didChange", {
+        textDocument: { uri, version },
+        contentChanges: [{ text }],
+      });
+    } else {
+      this.documents.set(uri, { version: 1, text });
+      await this.notify("textDocument/didOpen", {
+        textDocument: { uri, languageId, version: 1, text },
+      });
+    }
+    return true;
+  }
+
+  private waitForDiagnostics(uri: string, waitMs: number) {
+    let done: () => void = () => {};
+    const finished = new Promise<void>((resolve) => {
+      let settle: ReturnType<typeof setTimeout> | undefined;
+      const listener = (published: string) => {
+        if (published !== uri) {
+          return;
+        }
+        clearTimeout(settle);
+        settle = setTimeout(done, DIAGNOSTICS_SETTLE_MS);
+      };
+      const deadline = setTimeout(() => done(), waitMs);
+      done = () => {
+        clearTimeout(deadline);
+        clearTimeout(settle);
+        this.diagnosticListeners.delete(listener);
+        resolve();
+      };
+      this.diagnosticListeners.add(listener);
+    });
+    return { wait: () => finished, cancel: () => done() };
+  }
+
+  private async request(method: string, params?: unknown, timeoutMs?: number): Promise<unknown> {
+    if (this.closed) {
+      throw new Error(`language server "${this.name}" is not running`);
+    }
+    const id = this.nextId++;
+    const limit = timeoutMs ?? this.timeoutMs;
+    const result = new Promise<unknown>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`LSP ${method} timed out after ${limit}ms`));
+      }, limit);
+      this.pending.set(id, { resolve, reject, timer });
+    });
+    try {
+      await this.transport.send({
+        jsonrpc: "2.0",
+        id,
+        method,
+        ...(params === undefined ? {} : { params }),
+      });
+    } catch (err) {
+      const entry = this.pending.get(id);
+      if (entry) {
+        this.pending.delete(id);
+        clearTimeout(entry.timer);
+      }
+      throw err;
+    }
+    return result;
+  }
+
+  private async notify(method: string, params?: unknown): Promise<void> {
+    await this.transport.send({
+      jsonrpc: "2.0",
+      method,
+      ...(params === undefined ? {} : { params }),
+    });
+  }
+
+  private handleMessage(raw: unknown): void {
+    if (!raw || typeof raw !== "object") {
+      return;
+    }
+    const message = raw as {
+      method?: unknown;
+      id?: JsonRpcId | null;
+      params?: unknown;
+      result?: unknown;
+      error?: JsonRpcError;
+    };
+    if (typeof message.method === "string") {
+      if (message.id !== undefined && message.id !== null) {
+        this.answerServerRequest(message.id, message.method, message.params);
+      } else if (message.method === "textDocument/publishDiagnostics") {
+        const params = message.params as { uri?: string; diagnostics?: LspDiagnostic[] };
+        if (typeof params?.uri === "string") {
+          const uri = filePathToUri(uriToFilePath(params.uri));
+          this.diagnostics.set(uri, params.diagnostics ?? []);
+          for (const listener of this.diagnosticListeners) {
+            listener(uri);
+          }
+        }
+      }
+      return;
+    }
+    if (message.id === undefined || message.id === null) {
+      return;
+    }
+    const entry = this.pending.get(message.id);
+    if (!entry) {
+      return;
+    }
+    this.pending.delete(message.id);
+    clearTimeout(entry.timer);
+    if (message.error) {
+      entry.reject(new LspError(message.error.code, message.error.message, message.error.data));
+    } else {
+      entry.resolve(message.result);
+    }
+  }
+
+  /**
+   * Servers ask for settings, capability registration and progress tokens
+   * before they answer; reply with neutral defaults so they keep going. Edits
+   * the server wants to apply itself are refused: the tools decide how edits land.
+   */
+  private answerServerRequest(id: JsonRpcId, method: string, params: unknown): void {
+    let reply: JsonRpcOutgoing;
+    switch (method) {
+      case "workspace/configuration": {
+        const items = (params as { items?: unknown[] })?.items ?? [];
+        reply = { jsonrpc: "2.0", id, result: items.map(() => null) };
+        break;
+      }
+      case "client/registerCapability":
+      case "client/unregisterCapability":
+      case "window/workDoneProgress/create":
+      case "window/showMessageRequest":
+        reply = { jsonrpc: "2.0", id, result: null };
+        break;
+      case "workspace/workspaceFolders":
+        reply = {
+          jsonrpc: "2.0",
+          id,
+          result: [{ uri: filePathToUri(this.rootDir), name: path.basename(this.rootDir) }],
+        };
+        break;
+      case "workspace/applyEdit":
+        reply = { jsonrpc: "2.0", id, result: { applied: false } };
+        break;
+      default:
+        reply = {
+          jsonrpc: "2.0",
+          id,
+          error: { code: JSON_RPC_ERRORS.METHOD_NOT_FOUND, message: `Method not found: ${method}` },
+        };
+    }
+    void this.transport.send(reply).catch(() => undefined);
+  }
+
+  private handleClose(reason: string): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    for (const entry of this.pending.values()) {
+      clearTimeout(entry.timer);
+      entry.reject(new Error(`language server "${this.name}" ${reason}`));
+    }
+    this.pending.clear();
+  }
+}
+
+function normalizeLocations(
+  result: LspLocation | Array<LspLocation | LspLocationLink> | null,
+): LspLocation[] {
+  if (!result) {
+    return [];
+  }
+  return (Array.isArray(result) ? result : [result]).map((entry) =>
+    "targetUri" in entry
+      ? { uri: entry.targetUri, range: entry.targetSelectionRange ?? entry.targetRange }
+      : entry,
+  );
+}
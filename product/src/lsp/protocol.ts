@@ -0,0 +1,121 @@
+/**
+ * Language Server Protocol wire types and `Content-Length` message framing
+ * for the LSP client behind the lsp_* agent tools.
+ *
+ * Only the subset of the protocol those tools use is typed here.
+ * Spec: https://microsoft.github.io/language-server-protocol/specifications/lsp/3.17/specification/
+ */
+
+/** Zero-based line and UTF-16 character offset. */
+export type LspPosition = { line: number; character: number };
+
+export type LspRange = { start: LspPosition; end: LspPosition };
+
+export type LspLocation = { uri: string; range: LspRange };
+
+export type LspLocationLink = {
+  originSelectionRange?: LspRange;
+  targetUri: string;
+  targetRange: LspRange;
+  targetSelectionRange: LspRange;
+};
+
+export type LspDiagnostic = {
+  range: LspRange;
+  /** 1 error, 2 warning, 3 information, 4 hint. */
+  severity?: number;
+  code?: string | number;
+  source?: string;
+  message: string;
+};
+
+export type LspTextEdit = { range: LspRange; newText: string };
+
+export type LspTextDocumentEdit = {
+  textDocument: { uri: string; version?: number | null };
+  edits: LspTextEdit[];
+};
+
+/** File create/rename/delete operations inside `documentChanges`. */
+export type LspResourceOperation = {
+  kind: "create" | "rename" | "delete";
+  uri?: string;
+  oldUri?: string;
+  newUri?: string;
+};
+
+export type LspWorkspaceEdit = {
+  changes?: Record<string, LspTextEdit[]>;
+  documentChanges?: Array<LspTextDocumentEdit | LspResourceOperation>;
+};
+
+type MarkedString = string | { language: string; value: string };
+
+export type LspHover = {
+  contents: MarkedString | MarkedString[] | { kind: string; value: string };
+  range?: LspRange;
+};
+
+export const LSP_DIAGNOSTIC_SEVERITY: Record<number, string> = {
+  1: "error",
+  2: "warning",
+  3: "info",
+  4: "hint",
+};
+
+export class LspError extends Error {
+  constructor(
+    readonly code: number,
+    message: string,
+    readonly data?: unknown,
+  ) {
+    super(message);
+    this.name = "LspError";
+  }
+}
+
+// ── Framing ──────────────────────────────────────────────────────────────────
+
+export function encodeLspMessage(message: unknown): Buffer {
+  const body = Buffer.from(JSON.stringify(message), "utf-8");
+  return Buffer.concat([Buffer.from(`Content-Length: ${body.length}\r\n\r\n`, "ascii"), body]);
+}
+
+/**
+ * Incremental decoder for `Content-Length` framed messages. Feed it raw
+ * stdout chunks; it calls `onMessage` once per complete JSON body.
+ */
+export function createLspMessageReader(
+  onMessage: (message: unknown) => void,
+  onInvalid: (reason: string) => void = () => {},
+): (chunk: Buffer) => void {
+  let buffer = Buffer.alloc(0);
+  return (chunk) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    while (true) {
+      const headerEnd = buffer.indexOf("\r\n\r\n");
+      if (headerEnd < 0) {
+        return;
+      }
+      const header = buffer.subarray(0, headerEnd).toString("ascii");
+      const match = /content-length:\s*(\d+)/i.exec(header);
+      if (!match) {
+        onInvalid(`missing Content-Length in header: ${header.slice(0, 200)}`);
+        buffer = buffer.subarray(headerEnd + 4);
+        continue;
+      }
+      const length = Number(match[1]);
+      const bodyStart = headerEnd + 4;
+      if (buffer.length < bodyStart + length) {
+        return;
+      }
+      const body = buffer.subarray(bodyStart, bodyStart + length).toString("utf-8");
+      buffer = buffer.subarray(bodyStart + length);
+      try {
+        onMessage(JSON.parse(body));
+      } catch {
+        onInvalid(`ignoring non-JSON body: ${body.slice(0, 200)}`);
+      }
+    }
+  };
+}
@@ -0,0 +1,137 @@
+/**
+ * Language server registry and connection pool for the lsp_* tools.
+ *
+ * Built-in servers cover TypeScript/JavaScript, Python and Go; `tools.lsp.servers`
+ * overrides their fields by language key or adds new languages. A server is
+ * started on first use per (language, workspace) and reused across runs.
+ */
+
+import path from "node:path";
+import type { CoderClawConfig } from "../config/config.js";
+import type { LspServerConfig } from "../config/types.tools.js";
+import { createLspStdioTransport, LspClient } from "./client.js";
+
+export const DEFAULT_LSP_SERVERS: Record<string, LspServerConfig> = {
+  typescript: {
+    command: "typescript-language-server",
+    args: ["--stdio"],
+    extensions: [".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs"],
+  },
+  python: {
+    command: "pyright-langserver",
+    args: ["--stdio"],
+    extensions: [".py", ".pyi"],
+  },
+  go: {
+    command: "gopls",
+    extensions: [".go"],
+  },
+};
+
+/** LSP `languageId` by extension; unknown extensions use the server's language key. */
+const LANGUAGE_IDS: Record<string, string> = {
+  ".ts": "typescript",
+  ".mts": "typescript",
+  ".cts": "typescript",
+  ".tsx": "typescriptreact",
+  ".js": "javascript",
+  ".mjs": "javascript",
+  ".cjs": "javascript",
+  ".jsx": "javascriptreact",
+  ".py": "python",
+  ".pyi": "python",
+  ".go": "go",
+};
+
+export type ResolvedLspServer = {
+  language: string;
+  languageId: string;
+  server: LspServerConfig & { command: string };
+};
+
+const clients = new Map<string, Promise<LspClient>>();
+
+export function resolveLspServers(config?: CoderClawConfig): Record<string, LspServerConfig> {
+  const merged: Record<string, LspServerConfig> = { ...DEFAULT_LSP_SERVERS };
+  for (const [language, server] of Object.entries(config?.tools?.lsp?.servers ?? {})) {
+    merged[language] = { ...merged[language], ...server };
+  }
+  return Object.fromEntries(
+    Object.entries(merged).filter(([, server]) => server.enabled !== false && server.command),
+  );
+}
+
+/** The configured server for a file, by extension; null when no language claims it. */
+export function resolveLspServerForFile(
+  filePath: string,
+  config?: CoderClawConfig,
+): ResolvedLspServer | null {
+  const ext = path.extname(filePath).toLowerCase();
+  for (const [language, server] of Object.entries(resolveLspServers(config))) {
+    if (server.command && server.extensions?.some((entry) => entry.toLowerCase() === ext)) {
+      return {
+        language,
+        languageId: LANGUAGE_IDS[ext] ?? language,
+        server: { ...server, command: server.command },
+      };
+    }
+  }
+  return null;
+}
+
+export function getLspClient(
+  language: string,
+  server: LspServerConfig & { command: string },
+  rootDir: string,
+): Promise<LspClient> {
+  const key = JSON.stringify([language, server, path.resolve(rootDir)]);
+  const existing = clients.get(key);
+  if (existing) {
+    return existing.then((client) => {
+      if (!client.isClosed) {
+        return client;
+      }
+      clients.delete(key);
+      return getLspClient(language, server, rootDir);
+    });
+  }
+  const connecting = (async () => {
+    const transport = createLspStdioTransport({
+      command: server.command,
+      args: server.args,
+      env: server.env,
+      cwd: rootDir,
+      label: language,
+    });
+    const client = new LspClient(language, transport, {
+      rootDir,
+      timeoutMs: server.timeoutMs,
+      initializationOptions: server.initializationOptions,
+    });
+    try {
+      await client.connect();
+    } catch (err) {
+      await client.close().catch(() => undefined);
+      throw new Error(
+        `language server "${language}" (${server.command}) failed to start: ${String(err)}`,
+        {
+          cause: err,
+        },
+      );
+    }
+    return client;
+  })();
+  clients.set(key, connecting);
+  // Forget failed starts so the next call retries (e.g. after installing the server).
+  connecting.catch(() => clients.delete(key));
+  return connecting;
+}
+
+/** Shut down every pooled language server (shutdown and tests). */
+export async function closeLspClients(): Promise<void> {
+  const pending = [...clients.values()];
+  clients.clear();
+  await Promise.all(
+    pending.map((connecting) => connecting.then((client) => client.close()).catch(() => undefined)),
+  );
+}
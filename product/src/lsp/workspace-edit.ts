@@ -0,0 +1,92 @@
+/**
+ * Turn an LSP WorkspaceEdit into new file contents.
+ *
+ * Positions are zero-based lines and UTF-16 offsets, which is exactly how
+ * JavaScript strings index, so edits are applied by offset from the end of
+ * the file backwards. File create/rename/delete operations are reported but
+ * not applied.
+ */
+
+import fs from "node:fs/promises";
+import { uriToFilePath } from "./client.js";
+import type { LspPosition, LspTextEdit, LspWorkspaceEdit } from "./protocol.js";
+
+export type WorkspaceFileEdit = {
+  /** Absolute path of the edited file. */
+  filePath: string;
+  edits: LspTextEdit[];
+};
+
+/** Group a WorkspaceEdit's text edits by file (`documentChanges` wins over `changes`). */
+export function collectWorkspaceEdits(edit: LspWorkspaceEdit): {
+  files: WorkspaceFileEdit[];
+  unsupported: string[];
+} {
+  const byFile = new Map<string, LspTextEdit[]>();
+  const unsupported: string[] = [];
+  const add = (uri: string, edits: LspTextEdit[]) => {
+    const filePath = uriToFilePath(uri);
+    byFile.set(filePath, [...(byFile.get(filePath) ?? []), ...edits]);
+  };
+  if (edit.documentChanges) {
+    for (const change of edit.documentChanges) {
+      if ("textDocument" in change) {
+        add(change.textDocument.uri, change.edits);
+      } else {
+        unsupported.push(`${change.kind} ${JSON.stringify(change)}`);
+      }
+    }
+  } else {
+    for (const [uri, edits] of Object.entries(edit.changes ?? {})) {
+      add(uri, edits);
+    }
+  }
+  return {
+    files: Array.from(byFile, ([filePath, edits]) => ({ filePath, edits })),
+    unsupported,
+  };
+}
+
+function offsetAt(content: string, lineStarts: number[], position: LspPosition): number {
+  const lineStart = lineStarts[position.line];
+  if (lineStart === undefined) {
+    return content.length;
+  }
+  const lineEnd = lineStarts[position.line + 1] ?? content.length;
+  return Math.min(lineStart + position.character, lineEnd);
+}
+
+export function applyTextEdits(content: string, edits: LspTextEdit[]): string {
+  const lineStarts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === "\n") {
+      lineStarts.push(i + 1);
+    }
+  }
+  const resolved = edits
+    .map((edit, index) => ({
+      start: offsetAt(content, lineStarts, edit.range.start),
+      end: offsetAt(content, lineStarts, edit.range.end),
+      newText: edit.newText,
+      index,
+    }))
+    // Later edits first; for edits at the same offset keep the server's order.
+    .toSorted((a, b) => b.start - a.start || b.index - a.index);
+  let result = content;
+  for (const edit of resolved) {
+    result = result.slice(0, edit.start) + edit.newText + result.slice(edit.end);
+  }
+  return result;
+}
+
+/** Read each edited file and compute its content after the edit. */
+export async function resolveWorkspaceEdit(
+  files: WorkspaceFileEdit[],
+): Promise<Array<WorkspaceFileEdit & { original: string; updated: string }>> {
+  return Promise.all(
+    files.map(async (file) => {
+      const original = await fs.readFile(file.filePath, "utf-8");
+      return { ...file, original, updated: applyTextEdits(original, file.edits) };
+    }),
+  );
+}
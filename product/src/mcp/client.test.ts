@@ -0,0 +1,140 @@
+import os from "node:os";
+import { Type } from "@sinclair/typebox";
+import { describe, expect, it } from "vitest";
+import type { AnyAgentTool } from "../agents/tools/common.js";
+import { AgentOrchestrator } from "../coderclaw/orchestrator.js";
+import {
+  createStdioTransport,
+  McpClient,
+  parseSseMessages,
+  type McpClientTransport,
+} from "./client.js";
+import { McpServer } from "./server.js";
+
+const echoTool = {
+  name: "echo",
+  label: "echo",
+  description: "echo tool",
+  parameters: Type.Object({ query: Type.String() }),
+  execute: async (_id, args) => ({
+    content: [{ type: "text", text: `echo: ${(args as { query: string }).query}` }],
+    details: {},
+  }),
+} as AnyAgentTool;
+
+/** Loopback transport that feeds client messages straight into an McpServer. */
+function serverTransport(server: McpServer, sent: unknown[] = []): McpClientTransport {
+  let deliver: (message: unknown) => void = () => {};
+  return {
+    async start(onMessage) {
+      deliver = onMessage;
+    },
+    async send(message) {
+      sent.push(message);
+      const response = await server.handlePayload(message);
+      if (response) {
+        deliver(response);
+      }
+    },
+    async close() {},
+  };
+}
+
+describe("McpClient", () => {
+  it("initializes, lists and calls tools", async () => {
+    const sent: unknown[] = [];
+    const server = new McpServer({
+      projectRoot: os.tmpdir(),
+      resolveTools: () => [echoTool],
+      orchestrator: new AgentOrchestrator(),
+    });
+    const client = new McpClient("loopback", serverTransport(server, sent));
+    await client.connect();
+    expect(client.serverInfo?.name).toBe("coderclaw");
+    expect(sent).toContainEqual({ jsonrpc: "2.0", method: "notifications/initialized" });
+
+    const tools = await client.listTools();
+    expect(tools.map((tool) => tool.name)).toEqual(["echo"]);
+
+    const result = await client.callTool("echo", { query: "hi" });
+    expect(result).toMatchObject({ isError: false, content: [{ type: "text", text: "echo: hi" }] });
+
+    await client.close();
+    expect(client.isClosed).toBe(true);
+    await expect(client.listTools()).resolves.toHaveLength(1);
+    await expect(client.callTool("echo", { query: "again" })).rejects.toThrow(/disconnected/);
+  });
+
+  it("answers server pings and surfaces JSON-RPC errors", async () => {
+    const sent: unknown[] = [];
+    let deliver: (message: unknown) => void = () => {};
+    const client = new McpClient(
+      "scripted",
+      {
+        async start(onMessage) {
+          deliver = onMessage;
+        },
+        async send(message) {
+          sent.push(message);
+          if (message.method === "initialize") {
+            deliver({ jsonrpc: "2.0", id: message.id, result: { protocolVersion: "2025-06-18" } });
+          } else if (message.method === "tools/call") {
+            deliver({ jsonrpc: "2.0", method: "ping", id: "srv-1" });
+            deliver({
+              jsonrpc: "2.0",
+              id: message.id,
+              error: { code: -32602, message: "Unknown tool" },
+            });
+          }
+        },
+        async close() {},
+      },
+      { timeoutMs: 1_000 },
+    );
+    await client.connect();
+    await expect(client.callTool("nope", {})).rejects.toThrow("Unknown tool");
+    expect(sent).toContainEqual({ jsonrpc: "2.0", id: "srv-1", result: {} });
+  });
+});
+
+// Answers initialize, then closes its input while staying alive.
+const CLOSING_SERVER_SCRIPT = `
+process.stdin.once("data", (chunk) => {
+  const id = JSON.parse(chunk.toString().split("\\n")[0]).id;
+  process.stdout.write(JSON.stringify({ jsonrpc: "2.0", id, result: { protocolVersion: "2025-06-18" } }) + "\\n");
+  process.stdin.destroy();
+  require("node:fs").closeSync(0);
+});
+setInterval(() => {}, 1000);
+`;
+
+describe("stdio transport", () => {
+  it("fails requests instead of crashing when the server stops reading", async () => {
+    const client = new McpClient(
+      "closing",
+      createStdioTransport({
+        command: process.execPath,
+        args: ["-e", CLOSING_SERVER_SCRIPT],
+        label: "closing",
+      }),
+      { timeoutMs: 5_000 },
+    );
+    await client.connect();
+    // Give the server time to close its input so the next write hits EPIPE.
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    await expect(client.callTool("echo", {})).rejects.toThrow(/MCP server "closing"/);
+    expect(client.isClosed).toBe(true);
+  });
+});
+
+describe("parseSseMessages", () => {
+  it("collects message events and skips other events", () => {
+    const body = [
+      'event: message\ndata: {"id":1}',
+      "event: endpoint\ndata: /mcp/messages",
+      'data: {"id":\ndata: 2}',
+      "",
+    ].join("\n\n");
+    expect(parseSseMessages(body)).toEqual([{ id: 1 }, { id: 2 }]);
+  });
+});
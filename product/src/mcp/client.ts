@@ -0,0 +1,402 @@
+/**
+ * MCP client: connects to an external MCP server over stdio or streamable
+ * HTTP, performs the `initialize` handshake and exposes `tools/list` and
+ * `tools/call`.
+ *
+ * Transports only move JSON-RPC messages; request/response correlation,
+ * timeouts and server→client requests (`ping`) live in McpClient.
+ */
+
+import { spawn, type ChildProcessWithoutNullStreams } from "node:child_process";
+import readline from "node:readline";
+import type { McpServerConfig } from "../config/types.tools.js";
+import { logDebug } from "../logger.js";
+import { VERSION } from "../version.js";
+import {
+  JSON_RPC_ERRORS,
+  LATEST_MCP_PROTOCOL_VERSION,
+  McpError,
+  type JsonRpcError,
+  type JsonRpcId,
+  type McpToolDescriptor,
+} from "./protocol.js";
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+
+type JsonRpcOutgoing = {
+  jsonrpc: "2.0";
+  id?: JsonRpcId;
+  method?: string;
+  params?: Record<string, unknown>;
+  result?: unknown;
+  error?: { code: number; message: string };
+};
+
+export type McpClientTransport = {
+  /** Begin receiving; every inbound JSON-RPC message is passed to `onMessage`. */
+  start(onMessage: (message: unknown) => void, onClose: (reason: string) => void): Promise<void>;
+  send(message: JsonRpcOutgoing): Promise<void>;
+  close(): Promise<void>;
+};
+
+export type McpToolCallResult = {
+  content: Array<Record<string, unknown>>;
+  isError?: boolean;
+  structuredContent?: unknown;
+};
+
+type PendingRequest = {
+  resolve: (result: unknown) => void;
+  reject: (err: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+};
+
+// ── Transports ───────────────────────────────────────────────────────────────
+
+export function createStdioTransport(params: {
+  command: string;
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+  label: string;
+}): McpClientTransport {
+  let child: ChildProcessWithoutNullStreams | null = null;
+  return {
+    async start(onMessage, onClose) {
+      child = spawn(params.command, params.args ?? [], {
+        cwd: params.cwd,
+        env: { ...process.env, ...params.env },
+        stdio: ["pipe", "pipe", "pipe"],
+      });
+      const proc = child;
+      await new Promise<void>((resolve, reject) => {
+        proc.once("spawn", () => resolve());
+        proc.once("error", reject);
+      });
+      proc.on("exit", (code, signal) => onClose(`exited (${signal ?? code})`));
+      // Writing to a server that closed its input fails with EPIPE; without a
+      // listener that error would be thrown as uncaught.
+      proc.stdin.on("error", (err) => {
+        onClose(`stopped reading input (${err.message})`);
+        proc.kill();
+      });
+      proc.stderr.on("data", (chunk: Buffer) => {
+        logDebug(`[mcp:${params.label}] ${chunk.toString().trimEnd()}`);
+      });
+      const lines = readline.createInterface({ input: proc.stdout, crlfDelay: Infinity });
+      lines.on("line", (line) => {
+        if (!line.trim()) {
+          return;
+        }
+        try {
+          onMessage(JSON.parse(line));
+        } catch {
+          logDebug(`[mcp:${params.label}] ignoring non-JSON output: ${line.slice(0, 200)}`);
+        }
+      });
+    },
+    async send(message) {
+      if (!child || child.exitCode !== null) {
+        throw new Error("MCP server process is not running");
+      }
+      child.stdin.write(`${JSON.stringify(message)}\n`);
+    },
+    async close() {
+      if (child && child.exitCode === null) {
+        child.stdin.end();
+        child.kill();
+      }
+      child = null;
+    },
+  };
+}
+
+/** Parse a (complete) SSE body into the JSON payloads of its `message` events. */
+export function parseSseMessages(body: string): unknown[] {
+  const messages: unknown[] = [];
+  for (const block of body.split(/\r?\n\r?\n/)) {
+    let event = "message";
+    const data: string[] = [];
+    for (const line of block.split(/\r?\n/)) {
+      if (line.startsWith("event:")) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith("data:")) {
+        data.push(line.slice(5).replace(/^ /, ""));
+      }
+    }
+    if (event === "message" && data.length > 0) {
+      try {
+        messages.push(JSON.parse(data.join("\n")));
+      } catch {
+        // Ignore malformed events; the pending request times out instead.
+      }
+    }
+  }
+  return messages;
+}
+
+export function createHttpTransport(params: {
+  url: string;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+}): McpClientTransport {
+  let sessionId: string | undefined;
+  let protocolVersion: string | undefined;
+  let deliver: (message: unknown) => void = () => {};
+  return {
+    async start(onMessage) {
+      deliver = onMessage;
+    },
+    async send(message) {
+      const res = await fetch(params.url, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          accept: "application/json, text/event-stream",
+          ...(sessionId ? { "mcp-session-id": sessionId } : {}),
+          ...(protocolVersion ? { "mcp-protocol-version": protocolVersion } : {}),
+          ...params.headers,
+        },
+        body: JSON.stringify(message),
+        signal: AbortSignal.timeout(params.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+      });
+      sessionId = res.headers.get("mcp-session-id") ?? sessionId;
+      if (res.status === 202 || res.status === 204) {
+        return;
+      }
+      if (!res.ok) {
+        throw new Error(`MCP server responded ${res.status} ${res.statusText}`);
+      }
+      const contentType = res.headers.get("content-type") ?? "";
+      const text = await res.text();
+      const payloads = contentType.includes("text/event-stream")
+        ? parseSseMessages(text)
+        : [JSON.parse(text) as unknown];
+      for (const payload of payloads) {
+        for (const entry of Array.isArray(payload) ? payload : [payload]) {
+          const version = (entry as { result?: { protocolVersion?: unknown } })?.result
+            ?.protocolVersion;
+          if (message.method === "initialize" && typeof version === "string") {
+            protocolVersion = version;
+          }
+          deliver(entry);
+        }
+      }
+    },
+    async close() {
+      if (!sessionId) {
+        return;
+      }
+      await fetch(params.url, {
+        method: "DELETE",
+        headers: { "mcp-session-id": sessionId, ...params.headers },
+        signal: AbortSignal.timeout(5_000),
+      }).catch(() => undefined);
+      sessionId = undefined;
+    },
+  };
+}
+
+export function createTransportForServer(
+  name: string,
+  server: McpServerConfig,
+  defaults: { cwd?: string } = {},
+): McpClientTransport {
+  if (server.url) {
+    return createHttpTransport({
+      url: server.url,
+      headers: server.headers,
+      timeoutMs: server.timeoutMs,
+    });
+  }
+  if (server.command) {
+    return createStdioTransport({
+      command: server.command,
+      args: server.args,
+      env: server.env,
+      cwd: server.cwd ?? defaults.cwd,
+      label: name,
+    });
+  }
+  throw new Error(`MCP server "${name}" needs a command or url`);
+}
+
+// ── Client ───────────────────────────────────────────────────────────────────
+
+export class McpClient {
+  readonly name: string;
+  private readonly transport: McpClientTransport;
+  private readonly timeoutMs: number;
+  private readonly pending = new Map<JsonRpcId, PendingRequest>();
+  private nextId = 1;
+  private closed = false;
+  private toolsCache: McpToolDescriptor[] | null = null;
+  serverInfo: { name?: string; version?: string } | null = null;
+  protocolVersion: string | null = null;
+
+  constructor(name: string, transport: McpClientTransport, opts: { timeoutMs?: number } = {}) {
+    this.name = name;
+    this.transport = transport;
+    this.timeoutMs = opts.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  get isClosed(): boolean {
+    return this.closed;
+  }
+
+  async connect(): Promise<void> {
+    await this.transport.start(
+      (message) => this.handleMessage(message),
+      (reason) => this.handleClose(reason),
+    );
+    const result = (await this.request("initialize", {
+      protocolVersion: LATEST_MCP_PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: { name: "coderclaw", version: VERSION },
+    })) as { protocolVersion?: string; serverInfo?: { name?: string; version?: string } };
+    this.protocolVersion = result.protocolVersion ?? null;
+    this.serverInfo = result.serverInfo ?? null;
+    await this.notify("notifications/initialized");
+  }
+
+  /** Server tools, cached until the server reports `notifications/tools/list_changed`. */
+  async listTools(): Promise<McpToolDescriptor[]> {
+    if (this.toolsCache) {
+      return this.toolsCache;
+    }
+    const tools: McpToolDescriptor[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = (await this.request("tools/list", cursor ? { cursor } : {})) as {
+        tools?: McpToolDescriptor[];
+        nextCursor?: string;
+      };
+      tools.push(...(page.tools ?? []));
+      cursor = page.nextCursor || undefined;
+    } while (cursor);
+    this.toolsCache = tools;
+    return tools;
+  }
+
+  async callTool(
+    name: string,
+    args: Record<string, unknown>,
+    signal?: AbortSignal,
+  ): Promise<McpToolCallResult> {
+    return (await this.request(
+      "tools/call",
+      { name, arguments: args },
+      signal,
+    )) as McpToolCallResult;
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.handleClose("closed");
+    await this.transport.close();
+  }
+
+  private async request(
+    method: string,
+    params: Record<string, unknown>,
+    signal?: AbortSignal,
+  ): Promise<unknown> {
+    if (this.closed) {
+      throw new Error(`MCP server "${this.name}" is disconnected`);
+    }
+    const id = this.nextId++;
+    const result = new Promise<unknown>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`MCP ${method} timed out after ${this.timeoutMs}ms`));
+      }, this.timeoutMs);
+      this.pending.set(id, { resolve, reject, timer });
+      signal?.addEventListener(
+        "abort",
+        () => {
+          if (this.pending.delete(id)) {
+            clearTimeout(timer);
+            void this.notify("notifications/cancelled", { requestId: id }).catch(() => undefined);
+            reject(new Error(`MCP ${method} aborted`));
+          }
+        },
+        { once: true },
+      );
+    });
+    try {
+      await this.transport.send({ jsonrpc: "2.0", id, method, params });
+    } catch (err) {
+      const entry = this.pending.get(id);
+      if (entry) {
+        this.pending.delete(id);
+        clearTimeout(entry.timer);
+      }
+      throw err;
+    }
+    return result;
+  }
+
+  private async notify(method: string, params?: Record<string, unknown>): Promise<void> {
+    await this.transport.send({ jsonrpc: "2.0", method, ...(params ? { params } : {}) });
+  }
+
+  private handleMessage(raw: unknown): void {
+    if (!raw || typeof raw !== "object") {
+      return;
+    }
+    const message = raw as {
+      method?: unknown;
+      id?: JsonRpcId | null;
+      result?: unknown;
+      error?: JsonRpcError;
+    };
+    if (typeof message.method === "string") {
+      if (message.method === "notifications/tools/list_changed") {
+        this.toolsCache = null;
+      } else if (message.id !== undefined && message.id !== null) {
+        // We advertise no client capabilities, so only `ping` needs a real answer.
+        const reply: JsonRpcOutgoing =
+          message.method === "ping"
+            ? { jsonrpc: "2.0", id: message.id, result: {} }
+            : {
+                jsonrpc: "2.0",
+                id: message.id,
+                error: {
+                  code: JSON_RPC_ERRORS.METHOD_NOT_FOUND,
+                  message: `Method not found: ${message.method}`,
+                },
+              };
+        void this.transport.send(reply).catch(() => undefined);
+      }
+      return;
+    }
+    if (message.id === undefined || message.id === null) {
+      return;
+    }
+    const entry = this.pending.get(message.id);
+    if (!entry) {
+      return;
+    }
+    this.pending.delete(message.id);
+    clearTimeout(entry.timer);
+    if (message.error) {
+      entry.reject(new McpError(message.error.code, message.error.message, message.error.data));
+    } else {
+      entry.resolve(message.result);
+    }
+  }
+
+  private handleClose(reason: string): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    for (const entry of this.pending.values()) {
+      clearTimeout(entry.timer);
+      entry.reject(new Error(`MCP server "${this.name}" ${reason}`));
+    }
+    this.pending.clear();
+  }
+}
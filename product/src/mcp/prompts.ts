@@ -0,0 +1,112 @@
+/**
+ * MCP prompts for the orchestrator's workflow types (built-in and project
+ * definitions from `.coderClaw/workflows/`). `prompts/get` expands the workflow
+ * into its concrete steps so an external agent can follow the same plan, or
+ * hand it to the `orchestrate` tool when that tool is exposed.
+ */
+
+import type { AgentOrchestrator, WorkflowStep } from "../coderclaw/orchestrator.js";
+import {
+  JSON_RPC_ERRORS,
+  McpError,
+  type McpPromptArgument,
+  type McpPromptDescriptor,
+  type McpPromptMessage,
+} from "./protocol.js";
+
+const BUILTIN_DESCRIPTIONS: Record<string, string> = {
+  feature: "Design, implement, test and review a new feature",
+  bugfix: "Diagnose, fix, test and review a bug",
+  refactor: "Analyse and refactor code without changing behaviour",
+  security_audit: "Audit code for security issues and propose fixes",
+  planning: "Turn a goal into a PRD, architecture spec and task list",
+  adversarial: "Propose, critique and revise a design or change",
+};
+
+const DESCRIPTION_ARGUMENT: McpPromptArgument = {
+  name: "description",
+  description: "What the workflow should accomplish",
+  required: true,
+};
+
+export function listWorkflowPrompts(orchestrator: AgentOrchestrator): McpPromptDescriptor[] {
+  return orchestrator.listWorkflowTypes().map((type) => {
+    const definition =
+      type.source === "project" ? orchestrator.getWorkflowDefinition(type.name) : null;
+    const inputs: McpPromptArgument[] = Object.entries(definition?.inputs ?? {}).map(
+      ([name, input]) => ({
+        name,
+        description: input.description,
+        required: Boolean(input.required) && input.default === undefined,
+      }),
+    );
+    return {
+      name: type.name,
+      description:
+        type.description ?? BUILTIN_DESCRIPTIONS[type.name] ?? `Run the ${type.name} workflow`,
+      arguments: [DESCRIPTION_ARGUMENT, ...inputs],
+    };
+  });
+}
+
+function formatStep(step: WorkflowStep, index: number): string {
+  const label = step.id ? `${step.id} — ` : "";
+  const lines = [`${index + 1}. ${label}[${step.role}] ${step.task}`];
+  if (step.dependsOn?.length) {
+    lines.push(`   after: ${step.dependsOn.join(", ")}`);
+  }
+  if (step.when) {
+    const predicate =
+      step.when.contains !== undefined
+        ? `contains "${step.when.contains}"`
+        : step.when.notContains !== undefined
+          ? `does not contain "${step.when.notContains}"`
+          : `matches /${step.when.matches ?? ""}/`;
+    lines.push(`   only if the output of ${step.when.step} ${predicate}`);
+  }
+  if (step.loop) {
+    lines.push(
+      `   then repeat from ${step.loop.to} (at most ${step.loop.maxIterations} passes in total)`,
+    );
+  }
+  return lines.join("\n");
+}
+
+export function getWorkflowPrompt(
+  orchestrator: AgentOrchestrator,
+  name: string,
+  args: Record<string, string>,
+): { description: string; messages: McpPromptMessage[] } {
+  const description = args.description?.trim();
+  if (!description) {
+    throw new McpError(JSON_RPC_ERRORS.INVALID_PARAMS, 'Missing required argument "description"');
+  }
+  const { description: _omit, ...inputs } = args;
+  let steps: WorkflowStep[] | null;
+  try {
+    steps = orchestrator.resolveWorkflowSteps(name, description, inputs);
+  } catch (err) {
+    throw new McpError(
+      JSON_RPC_ERRORS.INVALID_PARAMS,
+      err instanceof Error ? err.message : String(err),
+    );
+  }
+  if (!steps) {
+    throw new McpError(JSON_RPC_ERRORS.INVALID_PARAMS, `Unknown prompt: ${name}`);
+  }
+  const text = [
+    `Run the coderClaw "${name}" workflow for: ${description}`,
+    "",
+    "Steps:",
+    ...steps.map(formatStep),
+    "",
+    `If the \`orchestrate\` tool is available, call it with workflow "${name}" and this description ` +
+      "to run the steps as coordinated sub-agents. Otherwise work through the steps in order, " +
+      "adopting each role in turn.",
+  ].join("\n");
+  return {
+    description:
+      listWorkflowPrompts(orchestrator).find((p) => p.name === name)?.description ?? name,
+    messages: [{ role: "user", content: { type: "text", text } }],
+  };
+}
@@ -0,0 +1,152 @@
+/**
+ * JSON-RPC 2.0 and Model Context Protocol wire types shared by the MCP
+ * server transports (streamable HTTP in the gateway, stdio in `coderclaw mcp`)
+ * and the client used to consume external MCP servers.
+ *
+ * Spec: https://modelcontextprotocol.io/specification
+ */
+
+/** Newest protocol revision first; used for version negotiation in `initialize`. */
+export const MCP_PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"] as const;
+export const LATEST_MCP_PROTOCOL_VERSION = MCP_PROTOCOL_VERSIONS[0];
+
+export const JSON_RPC_ERRORS = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+  /** MCP-specific: `resources/read` for an unknown URI. */
+  RESOURCE_NOT_FOUND: -32002,
+} as const;
+
+export type JsonRpcId = string | number;
+
+export type JsonRpcRequest = {
+  jsonrpc: "2.0";
+  id: JsonRpcId;
+  method: string;
+  params?: Record<string, unknown>;
+};
+
+export type JsonRpcNotification = {
+  jsonrpc: "2.0";
+  method: string;
+  params?: Record<string, unknown>;
+};
+
+export type JsonRpcError = {
+  code: number;
+  message: string;
+  data?: unknown;
+};
+
+export type JsonRpcResponse =
+  | { jsonrpc: "2.0"; id: JsonRpcId; result: unknown }
+  | { jsonrpc: "2.0"; id: JsonRpcId | null; error: JsonRpcError };
+
+export type JsonRpcMessage = JsonRpcRequest | JsonRpcNotification;
+
+export class McpError extends Error {
+  constructor(
+    readonly code: number,
+    message: string,
+    readonly data?: unknown,
+  ) {
+    super(message);
+    this.name = "McpError";
+  }
+}
+
+export function jsonRpcError(
+  id: JsonRpcId | null,
+  code: number,
+  message: string,
+  data?: unknown,
+): JsonRpcResponse {
+  return {
+    jsonrpc: "2.0",
+    id,
+    error: data === undefined ? { code, message } : { code, message, data },
+  };
+}
+
+/** True for a message carrying an `id` (expects a response). */
+export function isJsonRpcRequest(message: JsonRpcMessage): message is JsonRpcRequest {
+  return "id" in message && message.id !== undefined && message.id !== null;
+}
+
+/**
+ * Validate one decoded JSON value as a JSON-RPC request or notification.
+ * Returns an error response for malformed input. Responses sent by the client
+ * (we never issue server→client requests) are ignored by returning null.
+ */
+export function parseJsonRpcMessage(value: unknown): JsonRpcMessage | JsonRpcResponse | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return jsonRpcError(null, JSON_RPC_ERRORS.INVALID_REQUEST, "Invalid Request");
+  }
+  const raw = value as Record<string, unknown>;
+  const id =
+    typeof raw.id === "string" || typeof raw.id === "number" ? (raw.id as JsonRpcId) : null;
+  if (raw.jsonrpc !== "2.0") {
+    return jsonRpcError(
+      id,
+      JSON_RPC_ERRORS.INVALID_REQUEST,
+      "Invalid Request: jsonrpc must be 2.0",
+    );
+  }
+  if (typeof raw.method !== "string") {
+    if ("result" in raw || "error" in raw) {
+      return null;
+    }
+    return jsonRpcError(id, JSON_RPC_ERRORS.INVALID_REQUEST, "Invalid Request: missing method");
+  }
+  if (raw.params !== undefined && (typeof raw.params !== "object" || raw.params === null)) {
+    return jsonRpcError(id, JSON_RPC_ERRORS.INVALID_PARAMS, "params must be an object");
+  }
+  const params = raw.params as Record<string, unknown> | undefined;
+  if (id === null) {
+    return { jsonrpc: "2.0", method: raw.method, params };
+  }
+  return { jsonrpc: "2.0", id, method: raw.method, params };
+}
+
+// ── MCP result shapes ─────────────────────────────────────────────────────────
+
+export type McpTextContent = { type: "text"; text: string };
+
+export type McpToolDescriptor = {
+  name: string;
+  description?: string;
+  inputSchema: Record<string, unknown>;
+};
+
+export type McpResourceDescriptor = {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+};
+
+export type McpResourceContents = {
+  uri: string;
+  mimeType?: string;
+  text: string;
+};
+
+export type McpPromptArgument = {
+  name: string;
+  description?: string;
+  required?: boolean;
+};
+
+export type McpPromptDescriptor = {
+  name: string;
+  description?: string;
+  arguments?: McpPromptArgument[];
+};
+
+export type McpPromptMessage = {
+  role: "user" | "assistant";
+  content: McpTextContent;
+};
@@ -0,0 +1,152 @@
+/**
+ * MCP resources backed by the project's `.coderClaw/` directory: the project
+ * context, architecture notes, rules, governance and saved session handoffs.
+ *
+ *   coderclaw://project/<kind>        — context | architecture | rules | governance
+ *   coderclaw://handoffs/<sessionId>  — .coderClaw/sessions/<sessionId>.yaml
+ *
+ * Only files that exist are listed. Persisted workflow snapshots
+ * (`sessions/workflow-*.yaml`) are not handoffs and are left out.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import { resolveCoderClawDir } from "../coderclaw/project-dir.js";
+import {
+  JSON_RPC_ERRORS,
+  McpError,
+  type McpResourceContents,
+  type McpResourceDescriptor,
+} from "./protocol.js";
+
+const PROJECT_URI_PREFIX = "coderclaw://project/";
+const HANDOFF_URI_PREFIX = "coderclaw://handoffs/";
+const HANDOFF_ID_RE = /^[\w.-]+$/;
+
+type ProjectResource = {
+  kind: string;
+  name: string;
+  description: string;
+  mimeType: string;
+  filePath: (dir: ReturnType<typeof resolveCoderClawDir>) => string;
+};
+
+const PROJECT_RESOURCES: ProjectResource[] = [
+  {
+    kind: "context",
+    name: "Project context",
+    description: "Languages, frameworks, build/test commands and project metadata",
+    mimeType: "application/yaml",
+    filePath: (dir) => dir.contextPath,
+  },
+  {
+    kind: "architecture",
+    name: "Architecture",
+    description: "Architecture notes for this project",
+    mimeType: "text/markdown",
+    filePath: (dir) => dir.architecturePath,
+  },
+  {
+    kind: "rules",
+    name: "Project rules",
+    description: "Coding rules and conventions agents must follow",
+    mimeType: "application/yaml",
+    filePath: (dir) => dir.rulesPath,
+  },
+  {
+    kind: "governance",
+    name: "Governance",
+    description: "Governance and review policy",
+    mimeType: "text/markdown",
+    filePath: (dir) => dir.governancePath,
+  },
+];
+
+async function isFile(filePath: string): Promise<boolean> {
+  try {
+    return (await fs.stat(filePath)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+async function listHandoffIds(sessionsDir: string): Promise<string[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(sessionsDir);
+  } catch {
+    return [];
+  }
+  return files
+    .filter((f) => (f.endsWith(".yaml") || f.endsWith(".yml")) && !f.startsWith("workflow-"))
+    .map((f) => f.replace(/\.ya?ml$/, ""))
+    .toSorted()
+    .toReversed();
+}
+
+export async function listProjectResources(projectRoot: string): Promise<McpResourceDescriptor[]> {
+  const dir = resolveCoderClawDir(projectRoot);
+  const resources: McpResourceDescriptor[] = [];
+  for (const resource of PROJECT_RESOURCES) {
+    if (await isFile(resource.filePath(dir))) {
+      resources.push({
+        uri: `${PROJECT_URI_PREFIX}${resource.kind}`,
+        name: resource.name,
+        description: resource.description,
+        mimeType: resource.mimeType,
+      });
+    }
+  }
+  for (const id of await listHandoffIds(dir.sessionsDir)) {
+    resources.push({
+      uri: `${HANDOFF_URI_PREFIX}${id}`,
+      name: `Session handoff ${id}`,
+      description: "Summary, decisions and next steps saved at the end of a session",
+      mimeType: "application/yaml",
+    });
+  }
+  return resources;
+}
+
+async function resolveResourceFile(
+  projectRoot: string,
+  uri: string,
+): Promise<{ filePath: string; mimeType: string } | null> {
+  const dir = resolveCoderClawDir(projectRoot);
+  if (uri.startsWith(PROJECT_URI_PREFIX)) {
+    const kind = uri.slice(PROJECT_URI_PREFIX.length);
+    const resource = PROJECT_RESOURCES.find((r) => r.kind === kind);
+    return resource ? { filePath: resource.filePath(dir), mimeType: resource.mimeType } : null;
+  }
+  if (uri.startsWith(HANDOFF_URI_PREFIX)) {
+    const id = uri.slice(HANDOFF_URI_PREFIX.length);
+    // Reject anything that could escape the sessions directory.
+    if (!HANDOFF_ID_RE.test(id) || id.startsWith("workflow-") || id.startsWith(".")) {
+      return null;
+    }
+    for (const ext of [".yaml", ".yml"]) {
+      const filePath = path.join(dir.sessionsDir, `${id}${ext}`);
+      if (await isFile(filePath)) {
+        return { filePath, mimeType: "application/yaml" };
+      }
+    }
+  }
+  return null;
+}
+
+export async function readProjectResource(
+  projectRoot: string,
+  uri: string,
+): Promise<McpResourceContents> {
+  const resolved = await resolveResourceFile(projectRoot, uri);
+  if (!resolved) {
+    throw new McpError(JSON_RPC_ERRORS.RESOURCE_NOT_FOUND, "Resource not found", { uri });
+  }
+  let text: string;
+  try {
+    text = await fs.readFile(resolved.filePath, "utf-8");
+  } catch {
+    throw new McpError(JSON_RPC_ERRORS.RESOURCE_NOT_FOUND, "Resource not found", { uri });
+  }
+  return { uri, mimeType: resolved.mimeType, text };
+}
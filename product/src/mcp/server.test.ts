@@ -0,0 +1,202 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { PassThrough } from "node:stream";
+import { Type } from "@sinclair/typebox";
+import { afterEach, describe, expect, it } from "vitest";
+import type { AnyAgentTool } from "../agents/tools/common.js";
+import { AgentOrchestrator } from "../coderclaw/orchestrator.js";
+import { resolveCoderClawDir } from "../coderclaw/project-dir.js";
+import { JSON_RPC_ERRORS } from "./protocol.js";
+import { McpServer } from "./server.js";
+import { serveMcpStdio } from "./stdio.js";
+
+function fakeTool(name: string, execute: AnyAgentTool["execute"]): AnyAgentTool {
+  return {
+    name,
+    label: name,
+    description: `${name} tool`,
+    parameters: Type.Object({ query: Type.String() }),
+    execute,
+  } as AnyAgentTool;
+}
+
+const echoTool = fakeTool("echo", async (_id, args) => ({
+  content: [{ type: "text", text: `echo: ${(args as { query: string }).query}` }],
+  details: {},
+}));
+const failingTool = fakeTool("broken", async () => {
+  throw new Error("index not built");
+});
+
+const tmpDirs: string[] = [];
+
+async function makeProject(): Promise<string> {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), "coderclaw-mcp-"));
+  tmpDirs.push(root);
+  const dir = resolveCoderClawDir(root);
+  await fs.mkdir(dir.sessionsDir, { recursive: true });
+  await fs.writeFile(dir.architecturePath, "# Architecture\n\nHexagonal.\n");
+  await fs.writeFile(path.join(dir.sessionsDir, "s-123.yaml"), "summary: did things\n");
+  await fs.writeFile(path.join(dir.sessionsDir, "workflow-abc.yaml"), "id: abc\n");
+  return root;
+}
+
+function makeServer(projectRoot = os.tmpdir()): McpServer {
+  return new McpServer({
+    projectRoot,
+    resolveTools: () => [echoTool, failingTool],
+    orchestrator: new AgentOrchestrator(),
+  });
+}
+
+function request(id: number, method: string, params?: Record<string, unknown>) {
+  return { jsonrpc: "2.0", id, method, ...(params ? { params } : {}) };
+}
+
+afterEach(async () => {
+  await Promise.all(tmpDirs.splice(0).map((dir) => fs.rm(dir, { recursive: true, force: true })));
+});
+
+describe("McpServer", () => {
+  it("negotiates the protocol version on initialize", async () => {
+    const server = makeServer();
+    const res = await server.handleMessage(
+      request(1, "initialize", { protocolVersion: "2024-11-05", clientInfo: { name: "cursor" } }),
+    );
+    expect(res).toMatchObject({
+      id: 1,
+      result: {
+        protocolVersion: "2024-11-05",
+        serverInfo: { name: "coderclaw" },
+        capabilities: { tools: {}, resources: {}, prompts: {} },
+      },
+    });
+    expect(server.clientInfo).toEqual({ name: "cursor" });
+
+    const fallback = await makeServer().handleMessage(
+      request(2, "initialize", { protocolVersion: "1999-01-01" }),
+    );
+    expect(fallback).toMatchObject({ result: { protocolVersion: "2025-06-18" } });
+  });
+
+  it("ignores notifications and rejects unknown methods", async () => {
+    const server = makeServer();
+    expect(
+      await server.handleMessage({ jsonrpc: "2.0", method: "notifications/initialized" }),
+    ).toBeNull();
+    const res = await server.handleMessage(request(3, "sampling/createMessage"));
+    expect(res).toMatchObject({ id: 3, error: { code: JSON_RPC_ERRORS.METHOD_NOT_FOUND } });
+  });
+
+  it("lists and calls tools, reporting tool failures as results", async () => {
+    const server = makeServer();
+    const list = await server.handleMessage(request(1, "tools/list"));
+    expect(list).toMatchObject({
+      result: {
+        tools: [
+          { name: "echo", inputSchema: { type: "object", required: ["query"] } },
+          { name: "broken" },
+        ],
+      },
+    });
+
+    const ok = await server.handleMessage(
+      request(2, "tools/call", { name: "echo", arguments: { query: "hi" } }),
+    );
+    expect(ok).toMatchObject({
+      result: { isError: false, content: [{ type: "text", text: "echo: hi" }] },
+    });
+
+    const failed = await server.handleMessage(request(3, "tools/call", { name: "broken" }));
+    expect(failed).toMatchObject({
+      result: { isError: true, content: [{ type: "text", text: "index not built" }] },
+    });
+
+    const unknown = await server.handleMessage(request(4, "tools/call", { name: "nope" }));
+    expect(unknown).toMatchObject({ error: { code: JSON_RPC_ERRORS.INVALID_PARAMS } });
+  });
+
+  it("serves .coderClaw files and handoffs as resources", async () => {
+    const server = makeServer(await makeProject());
+    const list = await server.handleMessage(request(1, "resources/list"));
+    const uris = (list as { result: { resources: Array<{ uri: string }> } }).result.resources.map(
+      (r) => r.uri,
+    );
+    expect(uris).toEqual(["coderclaw://project/architecture", "coderclaw://handoffs/s-123"]);
+
+    const read = await server.handleMessage(
+      request(2, "resources/read", { uri: "coderclaw://project/architecture" }),
+    );
+    expect(read).toMatchObject({
+      result: { contents: [{ mimeType: "text/markdown", text: "# Architecture\n\nHexagonal.\n" }] },
+    });
+
+    const missing = await server.handleMessage(
+      request(3, "resources/read", { uri: "coderclaw://handoffs/../../etc/passwd" }),
+    );
+    expect(missing).toMatchObject({ error: { code: JSON_RPC_ERRORS.RESOURCE_NOT_FOUND } });
+  });
+
+  it("expands workflow prompts into their steps", async () => {
+    const server = makeServer();
+    const list = await server.handleMessage(request(1, "prompts/list"));
+    expect(list).toMatchObject({
+      result: { prompts: expect.arrayContaining([expect.objectContaining({ name: "feature" })]) },
+    });
+
+    const res = await server.handleMessage(
+      request(2, "prompts/get", { name: "bugfix", arguments: { description: "login fails" } }),
+    );
+    const text = (res as { result: { messages: Array<{ content: { text: string } }> } }).result
+      .messages[0]?.content.text;
+    expect(text).toContain('Run the coderClaw "bugfix" workflow for: login fails');
+    expect(text).toContain("[bug-analyzer]");
+
+    const missingArg = await server.handleMessage(request(3, "prompts/get", { name: "bugfix" }));
+    expect(missingArg).toMatchObject({ error: { code: JSON_RPC_ERRORS.INVALID_PARAMS } });
+  });
+
+  it("answers batches, omitting notifications", async () => {
+    const res = await makeServer().handlePayload([
+      request(1, "ping"),
+      { jsonrpc: "2.0", method: "notifications/initialized" },
+      { jsonrpc: "2.0", id: 2 },
+    ]);
+    expect(res).toEqual([
+      { jsonrpc: "2.0", id: 1, result: {} },
+      expect.objectContaining({ id: 2, error: expect.objectContaining({ code: -32600 }) }),
+    ]);
+  });
+});
+
+describe("serveMcpStdio", () => {
+  it("speaks newline-delimited JSON-RPC", async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const chunks: string[] = [];
+    output.on("data", (chunk: Buffer) => chunks.push(chunk.toString()));
+
+    const done = serveMcpStdio({
+      projectRoot: os.tmpdir(),
+      resolveTools: () => [echoTool],
+      orchestrator: new AgentOrchestrator(),
+      input,
+      output,
+    });
+    input.write(`${JSON.stringify(request(1, "ping"))}\n`);
+    input.write("{not json\n");
+    input.end(`${JSON.stringify({ jsonrpc: "2.0", method: "notifications/initialized" })}\n`);
+    await done;
+
+    const lines = chunks
+      .join("")
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(lines).toEqual([
+      { jsonrpc: "2.0", id: 1, result: {} },
+      expect.objectContaining({ id: null, error: expect.objectContaining({ code: -32700 }) }),
+    ]);
+  });
+});
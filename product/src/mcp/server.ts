@@ -0,0 +1,196 @@
+/**
+ * Transport-agnostic MCP server: JSON-RPC 2.0 dispatch for the lifecycle
+ * (`initialize`, `ping`), tools, resources and prompts.
+ *
+ * One McpServer instance is one client session. Transports (streamable HTTP
+ * in the gateway, stdio in `coderclaw mcp`) decode messages, pass them to
+ * `handlePayload()` and write back whatever it returns — nothing for
+ * notifications, an array for JSON-RPC batches.
+ */
+
+import type { AnyAgentTool } from "../agents/tools/common.js";
+import { globalOrchestrator, type AgentOrchestrator } from "../coderclaw/orchestrator.js";
+import { logDebug } from "../logger.js";
+import { VERSION } from "../version.js";
+import { getWorkflowPrompt, listWorkflowPrompts } from "./prompts.js";
+import {
+  isJsonRpcRequest,
+  JSON_RPC_ERRORS,
+  jsonRpcError,
+  LATEST_MCP_PROTOCOL_VERSION,
+  MCP_PROTOCOL_VERSIONS,
+  McpError,
+  parseJsonRpcMessage,
+  type JsonRpcRequest,
+  type JsonRpcResponse,
+} from "./protocol.js";
+import { listProjectResources, readProjectResource } from "./resources.js";
+import { describeMcpTool, toMcpContent } from "./tools.js";
+
+export const MCP_SERVER_NAME = "coderclaw";
+
+export type McpServerOptions = {
+  /** Project whose `.coderClaw/` files are served as resources. */
+  projectRoot: string;
+  /** Tools to expose; resolved per request so config edits apply without reconnecting. */
+  resolveTools: () => AnyAgentTool[];
+  /** Source of workflow prompts. Default: the global orchestrator. */
+  orchestrator?: AgentOrchestrator;
+};
+
+type MethodHandler = (params: Record<string, unknown>) => Promise<unknown>;
+
+function stringParam(params: Record<string, unknown>, key: string): string {
+  const value = params[key];
+  if (typeof value !== "string" || !value) {
+    throw new McpError(JSON_RPC_ERRORS.INVALID_PARAMS, `params.${key} must be a non-empty string`);
+  }
+  return value;
+}
+
+function objectParam(params: Record<string, unknown>, key: string): Record<string, unknown> {
+  const value = params[key];
+  if (value === undefined) {
+    return {};
+  }
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new McpError(JSON_RPC_ERRORS.INVALID_PARAMS, `params.${key} must be an object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+export class McpServer {
+  private readonly projectRoot: string;
+  private readonly resolveTools: () => AnyAgentTool[];
+  private readonly orchestrator: AgentOrchestrator;
+  private readonly methods: Record<string, MethodHandler>;
+  /** Negotiated protocol version; null until `initialize`. */
+  protocolVersion: string | null = null;
+  clientInfo: { name?: string; version?: string } | null = null;
+
+  constructor(opts: McpServerOptions) {
+    this.projectRoot = opts.projectRoot;
+    this.resolveTools = opts.resolveTools;
+    this.orchestrator = opts.orchestrator ?? globalOrchestrator;
+    this.methods = {
+      initialize: async (params) => this.initialize(params),
+      ping: async () => ({}),
+      "tools/list": async () => ({ tools: this.resolveTools().map(describeMcpTool) }),
+      "tools/call": async (params) => this.callTool(params),
+      "resources/list": async () => ({
+        resources: await listProjectResources(this.projectRoot),
+      }),
+      "resources/templates/list": async () => ({ resourceTemplates: [] }),
+      "resources/read": async (params) => ({
+        contents: [await readProjectResource(this.projectRoot, stringParam(params, "uri"))],
+      }),
+      "prompts/list": async () => ({ prompts: listWorkflowPrompts(this.orchestrator) }),
+      "prompts/get": async (params) => {
+        const args = Object.fromEntries(
+          Object.entries(objectParam(params, "arguments")).map(([k, v]) => [k, String(v)]),
+        );
+        return getWorkflowPrompt(this.orchestrator, stringParam(params, "name"), args);
+      },
+    };
+  }
+
+  /**
+   * Handle one decoded JSON-RPC payload (a message or a batch). Returns the
+   * response(s) to send, or null when nothing should be sent back.
+   */
+  async handlePayload(payload: unknown): Promise<JsonRpcResponse | JsonRpcResponse[] | null> {
+    if (Array.isArray(payload)) {
+      if (payload.length === 0) {
+        return jsonRpcError(null, JSON_RPC_ERRORS.INVALID_REQUEST, "Invalid Request: empty batch");
+      }
+      const responses: JsonRpcResponse[] = [];
+      for (const entry of payload) {
+        const response = await this.handleMessage(entry);
+        if (response) {
+          responses.push(response);
+        }
+      }
+      return responses.length > 0 ? responses : null;
+    }
+    return this.handleMessage(payload);
+  }
+
+  async handleMessage(raw: unknown): Promise<JsonRpcResponse | null> {
+    const message = parseJsonRpcMessage(raw);
+    if (!message || !("method" in message)) {
+      return message;
+    }
+    if (!isJsonRpcRequest(message)) {
+      // Notifications (notifications/initialized, notifications/cancelled, …) need no reply.
+      logDebug(`[mcp] notification ${message.method}`);
+      return null;
+    }
+    return this.dispatch(message);
+  }
+
+  private async dispatch(request: JsonRpcRequest): Promise<JsonRpcResponse> {
+    const handler = this.methods[request.method];
+    if (!handler) {
+      return jsonRpcError(
+        request.id,
+        JSON_RPC_ERRORS.METHOD_NOT_FOUND,
+        `Method not found: ${request.method}`,
+      );
+    }
+    try {
+      const result = await handler(request.params ?? {});
+      return { jsonrpc: "2.0", id: request.id, result };
+    } catch (err) {
+      if (err instanceof McpError) {
+        return jsonRpcError(request.id, err.code, err.message, err.data);
+      }
+      logDebug(`[mcp] ${request.method} failed: ${String(err)}`);
+      return jsonRpcError(
+        request.id,
+        JSON_RPC_ERRORS.INTERNAL_ERROR,
+        err instanceof Error ? err.message : String(err),
+      );
+    }
+  }
+
+  private initialize(params: Record<string, unknown>) {
+    const requested = typeof params.protocolVersion === "string" ? params.protocolVersion : "";
+    this.protocolVersion = (MCP_PROTOCOL_VERSIONS as readonly string[]).includes(requested)
+      ? requested
+      : LATEST_MCP_PROTOCOL_VERSION;
+    const clientInfo = params.clientInfo as { name?: string; version?: string } | undefined;
+    this.clientInfo = clientInfo ?? null;
+    return {
+      protocolVersion: this.protocolVersion,
+      capabilities: {
+        tools: { listChanged: false },
+        resources: { subscribe: false, listChanged: false },
+        prompts: { listChanged: false },
+      },
+      serverInfo: { name: MCP_SERVER_NAME, version: VERSION },
+      instructions:
+        "coderClaw project tools. Read the coderclaw://project/* resources for project " +
+        "context, architecture and rules before editing; the prompts expand coderClaw's " +
+        "multi-agent workflows into concrete steps.",
+    };
+  }
+
+  private async callTool(params: Record<string, unknown>) {
+    const name = stringParam(params, "name");
+    const args = objectParam(params, "arguments");
+    const tool = this.resolveTools().find((t) => t.name === name);
+    if (!tool) {
+      throw new McpError(JSON_RPC_ERRORS.INVALID_PARAMS, `Unknown tool: ${name}`);
+    }
+    try {
+      const result = await tool.execute(`mcp-${Date.now()}`, args);
+      return { content: toMcpContent(result), isError: false };
+    } catch (err) {
+      // Tool failures are results the model should see, not protocol errors.
+      return {
+        content: [{ type: "text", text: err instanceof Error ? err.message : String(err) }],
+        isError: true,
+      };
+    }
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * MCP stdio transport: newline-delimited JSON-RPC on stdin/stdout.
+ *
+ * Used by `coderclaw mcp` so editors that launch MCP servers as child
+ * processes (Cursor, Continue, Goose, …) can connect without the gateway.
+ * stdout carries protocol messages only; logs are routed to stderr.
+ */
+
+import readline from "node:readline";
+import type { Readable, Writable } from "node:stream";
+import { globalOrchestrator } from "../coderclaw/orchestrator.js";
+import { loadConfig } from "../config/config.js";
+import { routeLogsToStderr } from "../logging/console.js";
+import { JSON_RPC_ERRORS, jsonRpcError } from "./protocol.js";
+import { McpServer, type McpServerOptions } from "./server.js";
+import { resolveMcpTools } from "./tools.js";
+
+export type McpStdioOptions = Partial<McpServerOptions> & {
+  input?: Readable;
+  output?: Writable;
+};
+
+export async function serveMcpStdio(opts: McpStdioOptions = {}): Promise<void> {
+  routeLogsToStderr();
+  const projectRoot = opts.projectRoot ?? process.cwd();
+  let orchestrator = opts.orchestrator;
+  if (!orchestrator) {
+    // Project workflow definitions become prompts alongside the built-ins.
+    orchestrator = globalOrchestrator;
+    await orchestrator.loadWorkflowDefinitions(projectRoot);
+  }
+  const server = new McpServer({
+    projectRoot,
+    resolveTools:
+      opts.resolveTools ??
+      (() => resolveMcpTools({ config: loadConfig(), workspaceDir: projectRoot })),
+    orchestrator,
+  });
+
+  const input = opts.input ?? process.stdin;
+  const output = opts.output ?? process.stdout;
+  const write = (message: unknown) => {
+    output.write(`${JSON.stringify(message)}\n`);
+  };
+
+  const lines = readline.createInterface({ input, crlfDelay: Infinity });
+  // Handle messages in arrival order so responses never overtake each other.
+  let queue = Promise.resolve();
+  for await (const line of lines) {
+    if (!line.trim()) {
+      continue;
+    }
+    queue = queue.then(async () => {
+      let payload: unknown;
+      try {
+        payload = JSON.parse(line);
+      } catch {
+        write(jsonRpcError(null, JSON_RPC_ERRORS.PARSE_ERROR, "Parse error"));
+        return;
+      }
+      const response = await server.handlePayload(payload);
+      if (response) {
+        write(response);
+      }
+    });
+  }
+  await queue;
+}
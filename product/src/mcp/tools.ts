@@ -0,0 +1,85 @@
+/**
+ * Agent tools exposed over MCP.
+ *
+ * `gateway.mcp.tools` is an allowlist (tool names, `group:*` names and globs).
+ * Without it only the read-only project tools in DEFAULT_MCP_TOOLS are served.
+ * The gateway HTTP deny list (session spawning, gateway control, …) still
+ * applies unless a tool is named explicitly in the allowlist.
+ */
+
+import { createCoderClawTools } from "../agents/coderclaw-tools.js";
+import { filterToolsByPolicy } from "../agents/pi-tools.policy.js";
+import type { AnyAgentTool } from "../agents/tools/common.js";
+import type { CoderClawConfig } from "../config/config.js";
+import { resolveMainSessionKey } from "../config/sessions.js";
+import { DEFAULT_GATEWAY_HTTP_TOOL_DENY } from "../security/dangerous-tools.js";
+import type { McpTextContent, McpToolDescriptor } from "./protocol.js";
+
+export const DEFAULT_MCP_TOOLS = [
+  "codebase_semantic_search",
+  "codebase_search",
+  "project_knowledge",
+  "git_history",
+  "workflow_status",
+  "claw_fleet",
+];
+
+export function resolveMcpTools(params: {
+  config: CoderClawConfig;
+  workspaceDir?: string;
+}): AnyAgentTool[] {
+  const allow = params.config.gateway?.mcp?.tools ?? DEFAULT_MCP_TOOLS;
+  const deny = DEFAULT_GATEWAY_HTTP_TOOL_DENY.filter((name) => !allow.includes(name));
+  const tools = createCoderClawTools({
+    config: params.config,
+    workspaceDir: params.workspaceDir,
+    agentSessionKey: resolveMainSessionKey(params.config),
+    pluginToolAllowlist: allow,
+  });
+  return filterToolsByPolicy(tools, { allow, deny });
+}
+
+/**
+ * Convert a TypeBox schema to the JSON Schema MCP expects. TypeBox schemas
+ * are already JSON Schema; only the `$schema` marker is dropped.
+ */
+function toInputSchema(schema: unknown): Record<string, unknown> {
+  if (schema && typeof schema === "object") {
+    const { $schema: _s, ...rest } = schema as Record<string, unknown>;
+    return rest;
+  }
+  return { type: "object", properties: {} };
+}
+
+export function describeMcpTool(tool: AnyAgentTool): McpToolDescriptor {
+  return {
+    name: tool.name,
+    description: tool.description,
+    inputSchema: toInputSchema(tool.parameters),
+  };
+}
+
+type McpContent = McpTextContent | { type: "image"; data: string; mimeType: string };
+
+/** Map an agent tool result's content blocks onto MCP content blocks. */
+export function toMcpContent(result: unknown): McpContent[] {
+  const content = (result as { content?: unknown } | null)?.content;
+  if (!Array.isArray(content)) {
+    return [{ type: "text", text: JSON.stringify(result ?? null) }];
+  }
+  const blocks: McpContent[] = [];
+  for (const block of content as Array<Record<string, unknown>>) {
+    if (block?.type === "text" && typeof block.text === "string") {
+      blocks.push({ type: "text", text: block.text });
+    } else if (
+      block?.type === "image" &&
+      typeof block.data === "string" &&
+      typeof block.mimeType === "string"
+    ) {
+      blocks.push({ type: "image", data: block.data, mimeType: block.mimeType });
+    } else {
+      blocks.push({ type: "text", text: JSON.stringify(block) });
+    }
+  }
+  return blocks;
+}
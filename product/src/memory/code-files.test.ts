@@ -0,0 +1,114 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { chunkCodeBySymbol, isIgnoredCodePath, listCodeFiles } from "./code-files.js";
+
+const TS_SOURCE = [
+  'import { join } from "node:path";',
+  "",
+  "/** Adds numbers. */",
+  "export function add(a: number, b: number): number {",
+  "  return a + b;",
+  "}",
+  "",
+  "export class Greeter {",
+  "  greet(name: string): string {",
+  "    return `hello ${name}`;",
+  "  }",
+  "}",
+  "",
+  "export type Pair = [string, string];",
+].join("\n");
+
+describe("chunkCodeBySymbol", () => {
+  it("starts chunks at symbol boundaries, keeping doc comments with their symbol", async () => {
+    const chunks = await chunkCodeBySymbol("src/math.ts", TS_SOURCE, { tokens: 30, overlap: 0 });
+    expect(chunks.map((chunk) => [chunk.startLine, chunk.endLine])).toEqual([
+      [1, 2],
+      [3, 7],
+      [8, 13],
+      [14, 14],
+    ]);
+    expect(chunks[1]?.text).toContain("/** Adds numbers. */");
+  });
+
+  it("merges adjacent small symbols up to the token budget", async () => {
+    const chunks = await chunkCodeBySymbol("src/math.ts", TS_SOURCE, { tokens: 400, overlap: 0 });
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0]).toMatchObject({ startLine: 1, endLine: 14 });
+  });
+
+  it("splits symbols larger than the budget with correct line numbers", async () => {
+    const body = Array.from({ length: 40 }, (_, i) => `  const value${i} = ${i};`);
+    const content = ["const before = 1;", "export function big() {", ...body, "}"].join("\n");
+    const chunks = await chunkCodeBySymbol("big.ts", content, { tokens: 50, overlap: 0 });
+    expect(chunks[0]).toMatchObject({ startLine: 1, endLine: 1 });
+    expect(chunks[1]?.startLine).toBe(2);
+    expect(chunks.at(-1)?.endLine).toBe(43);
+    for (const chunk of chunks) {
+      expect(chunk.text).toBe(
+        content
+          .split("\n")
+          .slice(chunk.startLine - 1, chunk.endLine)
+          .join("\n"),
+      );
+    }
+  });
+
+  it("uses the language parser for other languages", async () => {
+    const content = ["import os", "", "def first():", "    pass", "", "def second():", "    pass"];
+    const chunks = await chunkCodeBySymbol("app.py", content.join("\n"), {
+      tokens: 5,
+      overlap: 0,
+    });
+    expect(chunks.map((chunk) => chunk.startLine)).toEqual([1, 3, 6]);
+  });
+
+  it("falls back to line chunking without symbols", async () => {
+    const chunks = await chunkCodeBySymbol("notes.ts", "const a = 1;\nconst b = 2;", {
+      tokens: 400,
+      overlap: 0,
+    });
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0]).toMatchObject({ startLine: 1, endLine: 2 });
+  });
+});
+
+describe("listCodeFiles", () => {
+  let workspaceDir = "";
+
+  beforeEach(async () => {
+    workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "coderclaw-code-files-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(workspaceDir, { recursive: true, force: true });
+  });
+
+  it("lists parseable source files outside dependency, build and dot directories", async () => {
+    const files = {
+      "src/app.ts": "export const a = 1;",
+      "src/app.min.js": "var a=1;",
+      "src/README.md": "# docs",
+      "lib/tool.py": "def run():\n    pass",
+      "node_modules/pkg/index.js": "module.exports = 1;",
+      "dist/app.js": "exports.a = 1;",
+      ".coderclaw/staged/x.ts": "export {};",
+    };
+    for (const [rel, content] of Object.entries(files)) {
+      await fs.mkdir(path.dirname(path.join(workspaceDir, rel)), { recursive: true });
+      await fs.writeFile(path.join(workspaceDir, rel), content);
+    }
+    const listed = (await listCodeFiles(workspaceDir))
+      .map((file) => path.relative(workspaceDir, file).replace(/\\/g, "/"))
+      .toSorted();
+    expect(listed).toEqual(["lib/tool.py", "src/app.ts"]);
+  });
+
+  it("flags ignored relative paths", () => {
+    expect(isIgnoredCodePath("node_modules/pkg/index.js")).toBe(true);
+    expect(isIgnoredCodePath(".git/config")).toBe(true);
+    expect(isIgnoredCodePath("src/app.ts")).toBe(false);
+  });
+});
@@ -0,0 +1,171 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { getLanguageParser, type ParsedSourceFile } from "../coderclaw/parsers/index.js";
+import { createSubsystemLogger } from "../logging/subsystem.js";
+import { chunkMarkdown, hashText, type MemoryChunk } from "./internal.js";
+
+const log = createSubsystemLogger("memory");
+
+const MAX_CODE_FILES = 5_000;
+const MAX_CODE_FILE_BYTES = 512 * 1024;
+const IGNORED_CODE_DIR_NAMES = new Set([
+  "node_modules",
+  "dist",
+  "build",
+  "out",
+  "target",
+  "vendor",
+  "coverage",
+  "__pycache__",
+  "venv",
+]);
+// Comments, decorators and attributes directly above a symbol belong to its chunk.
+const SYMBOL_PREAMBLE_RE = /^(?:\/\/|\/\*|\*|#|@)/;
+
+/** Source files are those a code-map language parser handles (minified bundles excluded). */
+export function isCodeFile(filePath: string): boolean {
+  return Boolean(getLanguageParser(filePath)) && !/\.min\.[^./\\]+$/.test(filePath);
+}
+
+/** Dot-paths (`.git`, `.coderclaw`, …) and build/dependency output are not indexed. */
+export function isIgnoredCodePath(relPath: string): boolean {
+  return relPath
+    .split(/[/\\]/)
+    .some((segment) => segment.startsWith(".") || IGNORED_CODE_DIR_NAMES.has(segment));
+}
+
+export async function listCodeFiles(workspaceDir: string): Promise<string[]> {
+  const result: string[] = [];
+  const queue = [workspaceDir];
+  while (queue.length > 0 && result.length < MAX_CODE_FILES) {
+    const dir = queue.shift()!;
+    let entries: import("node:fs").Dirent[];
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      continue;
+    }
+    for (const entry of entries) {
+      const full = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!entry.name.startsWith(".") && !IGNORED_CODE_DIR_NAMES.has(entry.name)) {
+          queue.push(full);
+        }
+        continue;
+      }
+      if (!entry.isFile() || !isCodeFile(entry.name)) {
+        continue;
+      }
+      try {
+        const stat = await fs.stat(full);
+        if (stat.size > MAX_CODE_FILE_BYTES) {
+          continue;
+        }
+      } catch {
+        continue;
+      }
+      result.push(full);
+      if (result.length >= MAX_CODE_FILES) {
+        break;
+      }
+    }
+  }
+  return result;
+}
+
+function symbolStartLines(parsed: ParsedSourceFile): number[] {
+  return [
+    ...parsed.functions.map((entry) => entry.line),
+    ...parsed.classes.map((entry) => entry.line),
+    ...parsed.interfaces.map((entry) => entry.line),
+    ...parsed.types.map((entry) => entry.line),
+  ];
+}
+
+function toChunk(lines: string[], startLine: number, endLine: number): MemoryChunk {
+  const text = lines.slice(startLine - 1, endLine).join("\n");
+  return { startLine, endLine, text, hash: hashText(text) };
+}
+
+/**
+ * Split source into chunks that start at symbol boundaries (functions,
+ * classes, interfaces, types) reported by the file's language parser.
+ * Adjacent small symbols share a chunk up to the token budget; symbols larger
+ * than the budget are split line-wise. Files without a parser or symbols fall
+ * back to plain line chunking.
+ */
+export async function chunkCodeBySymbol(
+  filePath: string,
+  content: string,
+  chunking: { tokens: number; overlap: number },
+): Promise<MemoryChunk[]> {
+  const parser = getLanguageParser(filePath);
+  let starts: number[] = [];
+  if (parser) {
+    try {
+      starts = symbolStartLines(await parser.parse(filePath, content));
+    } catch (err) {
+      log.debug(`code chunking: parse failed for ${filePath}: ${String(err)}`);
+    }
+  }
+  if (starts.length === 0) {
+    return chunkMarkdown(content, chunking);
+  }
+
+  const lines = content.split("\n");
+  const boundaries = new Set<number>([1]);
+  let previous = 1;
+  for (const start of Array.from(new Set(starts)).toSorted((a, b) => a - b)) {
+    let line = start;
+    while (line - 1 > previous && SYMBOL_PREAMBLE_RE.test(lines[line - 2]?.trim() ?? "")) {
+      line -= 1;
+    }
+    boundaries.add(line);
+    previous = start;
+  }
+  const sorted = Array.from(boundaries)
+    .filter((line) => line <= lines.length)
+    .toSorted((a, b) => a - b);
+  const segments = sorted.map((start, index) => ({
+    start,
+    end: (sorted[index + 1] ?? lines.length + 1) - 1,
+  }));
+
+  const maxChars = Math.max(32, chunking.tokens * 4);
+  const sizeOf = (start: number, end: number) =>
+    lines.slice(start - 1, end).reduce((sum, line) => sum + line.length + 1, 0);
+
+  const chunks: MemoryChunk[] = [];
+  let pending: { start: number; end: number } | null = null;
+  const flush = () => {
+    if (pending) {
+      chunks.push(toChunk(lines, pending.start, pending.end));
+      pending = null;
+    }
+  };
+  for (const segment of segments) {
+    if (sizeOf(segment.start, segment.end) > maxChars) {
+      flush();
+      const offset = segment.start - 1;
+      for (const chunk of chunkMarkdown(
+        lines.slice(segment.start - 1, segment.end).join("\n"),
+        chunking,
+      )) {
+        chunks.push({
+          ...chunk,
+          startLine: chunk.startLine + offset,
+          endLine: chunk.endLine + offset,
+        });
+      }
+      continue;
+    }
+    if (pending && sizeOf(pending.start, segment.end) <= maxChars) {
+      pending.end = segment.end;
+      continue;
+    }
+    flush();
+    pending = { ...segment };
+  }
+  flush();
+  return chunks;
+}
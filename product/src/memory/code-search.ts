@@ -0,0 +1,46 @@
+import path from "node:path";
+import { resolveMemorySearchConfig } from "../agents/memory-search.js";
+import type { CoderClawConfig } from "../config/config.js";
+import { createSubsystemLogger } from "../logging/subsystem.js";
+import { getMemorySearchManager } from "./search-manager.js";
+import type { MemorySearchResult } from "./types.js";
+
+const log = createSubsystemLogger("memory");
+
+/**
+ * Search the agent's "code" memory source for `workspaceDir`.
+ *
+ * Returns null when that index can't answer (memory search disabled, "code"
+ * not in `memorySearch.sources`, or the agent indexes a different workspace)
+ * so callers can fall back to their keyword search.
+ */
+export async function searchCodeIndex(params: {
+  cfg: CoderClawConfig;
+  agentId: string;
+  workspaceDir: string;
+  query: string;
+  maxResults?: number;
+}): Promise<MemorySearchResult[] | null> {
+  if (!resolveMemorySearchConfig(params.cfg, params.agentId)?.sources.includes("code")) {
+    return null;
+  }
+  const { manager } = await getMemorySearchManager({ cfg: params.cfg, agentId: params.agentId });
+  const status = manager?.status();
+  if (
+    !manager ||
+    !status?.sources?.includes("code") ||
+    !status.workspaceDir ||
+    path.resolve(status.workspaceDir) !== path.resolve(params.workspaceDir)
+  ) {
+    return null;
+  }
+  try {
+    return await manager.search(params.query, {
+      maxResults: params.maxResults,
+      sources: ["code"],
+    });
+  } catch (err) {
+    log.warn(`code index search failed: ${String(err)}`);
+    return null;
+  }
+}
@@ -5,3 +5,4 @@ export type {
   MemorySearchResult,
 } from "./types.js";
 export { getMemorySearchManager, type MemorySearchManagerResult } from "./search-manager.js";
+export { searchCodeIndex } from "./code-search.js";
@@ -7,6 +7,7 @@ import {
   runOpenAiEmbeddingBatches,
 } from "./batch-openai.js";
 import { type VoyageBatchRequest, runVoyageEmbeddingBatches } from "./batch-voyage.js";
+import { chunkCodeBySymbol } from "./code-files.js";
 import { enforceEmbeddingMaxInputTokens } from "./embedding-chunk-limits.js";
 import { estimateUtf8Bytes } from "./embedding-input-limits.js";
 import {
@@ -704,11 +705,13 @@ export abstract class MemoryManagerEmbeddingOps extends MemoryManagerSyncOps {
     }
 
     const content = options.content ?? (await fs.readFile(entry.absPath, "utf-8"));
+    const rawChunks =
+      options.source === "code"
+        ? await chunkCodeBySymbol(entry.absPath, content, this.settings.chunking)
+        : chunkMarkdown(content, this.settings.chunking);
     const chunks = enforceEmbeddingMaxInputTokens(
       this.provider,
-      chunkMarkdown(content, this.settings.chunking).filter(
-        (chunk) => chunk.text.trim().length > 0,
-      ),
+      rawChunks.filter((chunk) => chunk.text.trim().length > 0),
     );
     if (options.source === "sessions" && "lineMap" in entry) {
       remapChunkLines(chunks, entry.lineMap);
@@ -11,6 +11,7 @@ import { resolveSessionTranscriptsDirForAgent } from "../config/sessions/paths.j
 import { createSubsystemLogger } from "../logging/subsystem.js";
 import { onSessionTranscriptUpdate } from "../sessions/transcript-events.js";
 import { resolveUserPath } from "../utils.js";
+import { isCodeFile, isIgnoredCodePath } from "./code-files.js";
 import { DEFAULT_GEMINI_EMBEDDING_MODEL } from "./embeddings-gemini.js";
 import { DEFAULT_OPENAI_EMBEDDING_MODEL } from "./embeddings-openai.js";
 import { DEFAULT_VOYAGE_EMBEDDING_MODEL } from "./embeddings-voyage.js";
@@ -39,6 +40,7 @@ import {
 } from "./session-files.js";
 import { loadSqliteVecExtension } from "./sqlite-vec.js";
 import { requireNodeSqlite } from "./sqlite.js";
+import { syncCodeFiles } from "./sync-code-files.js";
 import type { MemorySource, MemorySyncProgressUpdate } from "./types.js";
 
 type MemoryIndexMeta = {
@@ -115,6 +117,7 @@ export abstract class MemoryManagerSyncOps {
   } = { enabled: false, available: false };
   protected vectorReady: Promise<boolean> | null = null;
   protected watcher: FSWatcher | null = null;
+  protected codeWatcher: FSWatcher | null = null;
   protected watchTimer: NodeJS.Timeout | null = null;
   protected sessionWatchTimer: NodeJS.Timeout | null = null;
   protected sessionUnsubscribe: (() => void) | null = null;
@@ -122,6 +125,7 @@ export abstract class MemoryManagerSyncOps {
   protected intervalTimer: NodeJS.Timeout | null = null;
   protected closed = false;
   protected dirty = false;
+  protected codeDirty = false;
   protected sessionsDirty = false;
   protected sessionsDirtyFiles = new Set<string>();
   protected sessionPendingFiles = new Set<string>();
@@ -231,10 +235,14 @@ export abstract class MemoryManagerSyncOps {
     }
   }
 
-  protected buildSourceFilter(alias?: string): { sql: string; params: MemorySource[] } {
-    const sources = Array.from(this.sources);
+  protected buildSourceFilter(
+    alias?: string,
+    only?: MemorySource[],
+  ): { sql: string; params: MemorySource[] } {
+    const sources = Array.from(this.sources).filter((source) => !only || only.includes(source));
     if (sources.length === 0) {
-      return { sql: "", params: [] };
+      // An explicit restriction to sources this index doesn't cover matches nothing.
+      return { sql: only ? " AND 0" : "", params: [] };
     }
     const column = alias ? `${alias}.source` : "source";
     const placeholders = sources.map(() => "?").join(", ");
@@ -389,6 +397,36 @@ export abstract class MemoryManagerSyncOps {
     this.watcher.on("unlink", markDirty);
   }
 
+  protected ensureCodeWatcher() {
+    if (!this.sources.has("code") || !this.settings.sync.watch || this.codeWatcher) {
+      return;
+    }
+    this.codeWatcher = chokidar.watch(this.workspaceDir, {
+      ignoreInitial: true,
+      ignored: (watchPath, stats) => {
+        const relPath = path.relative(this.workspaceDir, String(watchPath));
+        if (!relPath) {
+          return false;
+        }
+        if (isIgnoredCodePath(relPath)) {
+          return true;
+        }
+        return Boolean(stats?.isFile()) && !isCodeFile(relPath);
+      },
+      awaitWriteFinish: {
+        stabilityThreshold: this.settings.sync.watchDebounceMs,
+        pollInterval: 100,
+      },
+    });
+    const markDirty = () => {
+      this.codeDirty = true;
+      this.scheduleWatchSync();
+    };
+    this.codeWatcher.on("add", markDirty);
+    this.codeWatcher.on("change", markDirty);
+    this.codeWatcher.on("unlink", markDirty);
+  }
+
   protected ensureSessionListener() {
     if (!this.sources.has("sessions") || this.sessionUnsubscribe) {
       return;
@@ -577,7 +615,7 @@ export abstract class MemoryManagerSyncOps {
   }
 
   private scheduleWatchSync() {
-    if (!this.sources.has("memory") || !this.settings.sync.watch) {
+    if ((!this.sources.has("memory") && !this.sources.has("code")) || !this.settings.sync.watch) {
       return;
     }
     if (this.watchTimer) {
@@ -692,6 +730,32 @@ export abstract class MemoryManagerSyncOps {
     }
   }
 
+  private async syncCodeIndex(params: {
+    needsFullReindex: boolean;
+    progress?: MemorySyncProgressState;
+  }) {
+    // FTS-only mode: skip embedding sync (no provider)
+    if (!this.provider) {
+      log.debug("Skipping code file sync in FTS-only mode (no embedding provider)");
+      return;
+    }
+    await syncCodeFiles({
+      workspaceDir: this.workspaceDir,
+      db: this.db,
+      needsFullReindex: params.needsFullReindex,
+      progress: params.progress,
+      batchEnabled: this.batch.enabled,
+      concurrency: this.getIndexConcurrency(),
+      runWithConcurrency,
+      indexFile: async (entry) => await this.indexFile(entry, { source: "code" }),
+      vectorTable: VECTOR_TABLE,
+      ftsTable: FTS_TABLE,
+      ftsEnabled: this.fts.enabled,
+      ftsAvailable: this.fts.available,
+      model: this.provider.model,
+    });
+  }
+
   private async syncSessionFiles(params: {
     needsFullReindex: boolean;
     progress?: MemorySyncProgressState;
@@ -871,6 +935,8 @@ export abstract class MemoryManagerSyncOps {
 
       const shouldSyncMemory =
         this.sources.has("memory") && (params?.force || needsFullReindex || this.dirty);
+      const shouldSyncCode =
+        this.sources.has("code") && (params?.force || needsFullReindex || this.codeDirty);
       const shouldSyncSessions = this.shouldSyncSessions(params, needsFullReindex);
 
       if (shouldSyncMemory) {
@@ -878,6 +944,11 @@ export abstract class MemoryManagerSyncOps {
         this.dirty = false;
       }
 
+      if (shouldSyncCode) {
+        await this.syncCodeIndex({ needsFullReindex, progress: progress ?? undefined });
+        this.codeDirty = false;
+      }
+
       if (shouldSyncSessions) {
         await this.syncSessionFiles({ needsFullReindex, progress: progress ?? undefined });
         this.sessionsDirty = false;
@@ -1030,6 +1101,11 @@ export abstract class MemoryManagerSyncOps {
         this.dirty = false;
       }
 
+      if (this.sources.has("code")) {
+        await this.syncCodeIndex({ needsFullReindex: true, progress: params.progress });
+        this.codeDirty = false;
+      }
+
       if (shouldSyncSessions) {
         await this.syncSessionFiles({ needsFullReindex: true, progress: params.progress });
         this.sessionsDirty = false;
@@ -1100,6 +1176,11 @@ export abstract class MemoryManagerSyncOps {
       this.dirty = false;
     }
 
+    if (this.sources.has("code")) {
+      await this.syncCodeIndex({ needsFullReindex: true, progress: params.progress });
+      this.codeDirty = false;
+    }
+
     if (shouldSyncSessions) {
       await this.syncSessionFiles({ needsFullReindex: true, progress: params.progress });
       this.sessionsDirty = false;
@@ -0,0 +1,180 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { CoderClawConfig } from "../config/config.js";
+import { getMemorySearchManager, searchCodeIndex, type MemoryIndexManager } from "./index.js";
+import { getDefaultMemoryDirs } from "./internal.js";
+import { hasNodeSqliteSupport } from "./test-sqlite-support.js";
+
+const { watchMock } = vi.hoisted(() => ({
+  watchMock: vi.fn(() => ({
+    on: vi.fn(),
+    close: vi.fn(async () => undefined),
+  })),
+}));
+
+vi.mock("chokidar", () => ({
+  default: { watch: watchMock },
+  watch: watchMock,
+}));
+
+vi.mock("./sqlite-vec.js", () => ({
+  loadSqliteVecExtension: async () => ({ ok: false, error: "sqlite-vec disabled in tests" }),
+}));
+
+vi.mock("./embeddings.js", () => {
+  const embedText = (text: string) => {
+    const lower = text.toLowerCase();
+    return [lower.split("token").length - 1, lower.split("invoice").length - 1];
+  };
+  return {
+    createEmbeddingProvider: async () => ({
+      requestedProvider: "openai",
+      provider: {
+        id: "mock",
+        model: "mock-embed",
+        embedQuery: async (text: string) => embedText(text),
+        embedBatch: async (texts: string[]) => texts.map(embedText),
+      },
+    }),
+  };
+});
+
+const describeIfSqlite = hasNodeSqliteSupport ? describe : describe.skip;
+
+describeIfSqlite("memory code source", () => {
+  let fixtureRoot = "";
+  let workspaceDir = "";
+  let manager: MemoryIndexManager | null = null;
+
+  beforeEach(async () => {
+    vi.stubEnv("CODERCLAW_TEST_MEMORY_UNSAFE_REINDEX", "1");
+    fixtureRoot = await fs.mkdtemp(path.join(os.tmpdir(), "coderclaw-mem-code-"));
+    workspaceDir = path.join(fixtureRoot, "workspace");
+    await fs.mkdir(path.join(workspaceDir, "src"), { recursive: true });
+    await fs.mkdir(getDefaultMemoryDirs(workspaceDir)[1], { recursive: true });
+    await fs.writeFile(
+      path.join(getDefaultMemoryDirs(workspaceDir)[1], "notes.md"),
+      "# Notes\nRotate the token weekly.",
+    );
+    await fs.writeFile(
+      path.join(workspaceDir, "src", "auth.ts"),
+      [
+        "/** Validates a session token. */",
+        "export function verifyToken(token: string): boolean {",
+        "  return token.length > 0;",
+        "}",
+      ].join("\n"),
+    );
+    await fs.writeFile(
+      path.join(workspaceDir, "src", "billing.ts"),
+      "export function sendInvoice(invoice: string) {\n  return invoice;\n}",
+    );
+  });
+
+  afterEach(async () => {
+    watchMock.mockClear();
+    vi.unstubAllEnvs();
+    if (manager) {
+      await manager.close();
+      manager = null;
+    }
+    await fs.rm(fixtureRoot, { recursive: true, force: true });
+  });
+
+  function createCfg(params: { watch?: boolean } = {}): CoderClawConfig {
+    return {
+      agents: {
+        defaults: {
+          workspace: workspaceDir,
+          memorySearch: {
+            provider: "openai",
+            model: "mock-embed",
+            sources: ["memory", "code"],
+            store: { path: path.join(fixtureRoot, "index.sqlite"), vector: { enabled: false } },
+            sync: {
+              watch: params.watch ?? false,
+              watchDebounceMs: 25,
+              onSessionStart: false,
+              onSearch: false,
+            },
+            query: { minScore: 0, hybrid: { enabled: false } },
+          },
+        },
+        list: [{ id: "main", default: true }],
+      },
+    };
+  }
+
+  async function createManager(cfg: CoderClawConfig): Promise<MemoryIndexManager> {
+    const result = await getMemorySearchManager({ cfg, agentId: "main" });
+    if (!result.manager) {
+      throw new Error("manager missing");
+    }
+    manager = result.manager as MemoryIndexManager;
+    return manager;
+  }
+
+  it("indexes source files by symbol and searches them by source", async () => {
+    const index = await createManager(createCfg());
+    await index.sync({ reason: "test" });
+
+    const code = await index.search("token", { sources: ["code"] });
+    expect(code[0]).toMatchObject({ path: "src/auth.ts", source: "code", startLine: 1 });
+    expect(code.every((result) => result.source === "code")).toBe(true);
+
+    const memory = await index.search("token", { sources: ["memory"] });
+    expect(memory.length).toBeGreaterThan(0);
+    expect(memory.every((result) => result.source === "memory")).toBe(true);
+
+    expect(await index.search("token", { sources: ["sessions"] })).toEqual([]);
+    expect(index.status().sourceCounts).toEqual(
+      expect.arrayContaining([expect.objectContaining({ source: "code", files: 2 })]),
+    );
+  });
+
+  it("re-indexes changed files and drops deleted ones on the next sync", async () => {
+    const index = await createManager(createCfg());
+    await index.sync({ reason: "test" });
+
+    await fs.writeFile(
+      path.join(workspaceDir, "src", "billing.ts"),
+      "export function refundToken(token: string) {\n  return token;\n}",
+    );
+    await fs.rm(path.join(workspaceDir, "src", "auth.ts"));
+    (index as unknown as { codeDirty: boolean }).codeDirty = true;
+    await index.sync({ reason: "watch" });
+
+    const code = await index.search("token", { sources: ["code"] });
+    expect(code.map((result) => result.path)).toEqual(["src/billing.ts"]);
+    expect(code[0]?.snippet).toContain("refundToken");
+  });
+
+  it("watches the workspace for source changes", async () => {
+    await createManager(createCfg({ watch: true }));
+    const codeWatch = watchMock.mock.calls.find(
+      (call) => (call as unknown[])[0] === workspaceDir,
+    ) as unknown as [string, { ignored: (watchPath: string, stats?: unknown) => boolean }];
+    expect(codeWatch).toBeDefined();
+    const ignored = codeWatch[1].ignored;
+    const file = { isFile: () => true };
+    expect(ignored(path.join(workspaceDir, "node_modules"))).toBe(true);
+    expect(ignored(path.join(workspaceDir, ".git"))).toBe(true);
+    expect(ignored(path.join(workspaceDir, "src"))).toBe(false);
+    expect(ignored(path.join(workspaceDir, "src", "auth.ts"), file)).toBe(false);
+    expect(ignored(path.join(workspaceDir, "src", "notes.md"), file)).toBe(true);
+  });
+
+  it("answers code searches only for the indexed workspace", async () => {
+    const cfg = createCfg();
+    const index = await createManager(cfg);
+    await index.sync({ reason: "test" });
+
+    const hits = await searchCodeIndex({ cfg, agentId: "main", workspaceDir, query: "invoice" });
+    expect(hits?.[0]?.path).toBe("src/billing.ts");
+    expect(
+      await searchCodeIndex({ cfg, agentId: "main", workspaceDir: fixtureRoot, query: "invoice" }),
+    ).toBeNull();
+  });
+});
@@ -383,8 +383,16 @@ export class QmdMemoryManager implements MemorySearchManager {
 
   async search(
     query: string,
-    opts?: { maxResults?: number; minScore?: number; sessionKey?: string },
+    opts?: {
+      maxResults?: number;
+      minScore?: number;
+      sessionKey?: string;
+      sources?: MemorySource[];
+    },
   ): Promise<MemorySearchResult[]> {
+    if (opts?.sources && !opts.sources.some((source) => this.sources.has(source))) {
+      return [];
+    }
     if (!this.isScopeAllowed(opts?.sessionKey)) {
       this.logScopeDenied(opts?.sessionKey);
       return [];
@@ -451,7 +459,7 @@ export class QmdMemoryManager implements MemorySearchManager {
       const lines = this.extractSnippetLines(snippet);
       const score = typeof entry.score === "number" ? entry.score : 0;
       const minScore = opts?.minScore ?? 0;
-      if (score < minScore) {
+      if (score < minScore || (opts?.sources && !opts.sources.includes(doc.source))) {
         continue;
       }
       results.push({
@@ -86,10 +86,7 @@ class FallbackMemoryManager implements MemorySearchManager {
     private readonly onClose?: () => void,
   ) {}
 
-  async search(
-    query: string,
-    opts?: { maxResults?: number; minScore?: number; sessionKey?: string },
-  ) {
+  async search(query: string, opts?: Parameters<MemorySearchManager["search"]>[1]) {
     if (!this.primaryFailed) {
       try {
         return await this.deps.primary.search(query, opts);
@@ -1,4 +1,4 @@
-export type MemorySource = "memory" | "sessions";
+export type MemorySource = "memory" | "sessions" | "code";
 
 export type MemorySearchResult = {
   path: string;
@@ -61,7 +61,13 @@ export type MemoryProviderStatus = {
 export interface MemorySearchManager {
   search(
     query: string,
-    opts?: { maxResults?: number; minScore?: number; sessionKey?: string },
+    opts?: {
+      maxResults?: number;
+      minScore?: number;
+      sessionKey?: string;
+      /** Restrict results to these sources (default: every indexed source). */
+      sources?: MemorySource[];
+    },
   ): Promise<MemorySearchResult[]>;
   readFile(params: {
     relPath: string;
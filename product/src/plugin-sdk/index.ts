@@ -144,7 +144,11 @@ export {
 export { ToolPolicySchema } from "../config/zod-schema.agent-runtime.js";
 export type { RuntimeEnv } from "../runtime.js";
 export type { WizardPrompter } from "../wizard/prompts.js";
-export { DEFAULT_ACCOUNT_ID, normalizeAccountId } from "../routing/session-key.js";
+export {
+  DEFAULT_ACCOUNT_ID,
+  normalizeAccountId,
+  resolveThreadSessionKeys,
+} from "../routing/session-key.js";
 export { formatAllowFromLowercase, isAllowedParsedChatSender } from "./allow-from.js";
 export { resolveSenderCommandAuthorization } from "./command-auth.js";
 export { handleSlackMessageAction } from "./slack-message-actions.js";
@@ -293,6 +297,10 @@ export type { HookEntry } from "../hooks/types.js";
 export { clamp, escapeRegExp, normalizeE164, safeParseJson, sleep } from "../utils.js";
 export { stripAnsi } from "../terminal/ansi.js";
 export { missingTargetError } from "../infra/outbound/target-errors.js";
+export { wrapExternalContent } from "../security/external-content.js";
+export type { ExternalContentSource } from "../security/external-content.js";
+export { resolveHookSignature, verifyHookSignature } from "../gateway/hooks-signature.js";
+export type { HookSignatureResolved } from "../gateway/hooks-signature.js";
 export { registerLogTransport } from "../logging/file.js";
 export type { LogTransport, LogTransportRecord } from "../logging/file.js";
 export {
@@ -42,6 +42,13 @@ import type {
   PluginHookToolResultPersistResult,
   PluginHookBeforeMessageWriteEvent,
   PluginHookBeforeMessageWriteResult,
+  PluginHookTaskBeforeDispatchEvent,
+  PluginHookTaskBeforeDispatchResult,
+  PluginHookTaskEndEvent,
+  PluginHookWorkflowContext,
+  PluginHookWorkflowEndEvent,
+  PluginHookWorkflowStartEvent,
+  PluginHookWorkflowStuckEvent,
 } from "./types.js";
 
 // Re-export types for consumers
@@ -79,6 +86,13 @@ export type {
   PluginHookGatewayContext,
   PluginHookGatewayStartEvent,
   PluginHookGatewayStopEvent,
+  PluginHookWorkflowContext,
+  PluginHookWorkflowStartEvent,
+  PluginHookWorkflowEndEvent,
+  PluginHookWorkflowStuckEvent,
+  PluginHookTaskBeforeDispatchEvent,
+  PluginHookTaskBeforeDispatchResult,
+  PluginHookTaskEndEvent,
 };
 
 export type HookRunnerLogger = {
@@ -596,6 +610,78 @@ export function createHookRunner(registry: PluginRegistry, options: HookRunnerOp
     return runVoidHook("gateway_stop", event, ctx);
   }
 
+  // =========================================================================
+  // Workflow Hooks
+  // =========================================================================
+
+  /**
+   * Run workflow_start hook.
+   * Runs in parallel (fire-and-forget).
+   */
+  async function runWorkflowStart(
+    event: PluginHookWorkflowStartEvent,
+    ctx: PluginHookWorkflowContext,
+  ): Promise<void> {
+    return runVoidHook("workflow_start", event, ctx);
+  }
+
+  /**
+   * Run workflow_end hook.
+   * Runs in parallel (fire-and-forget).
+   */
+  async function runWorkflowEnd(
+    event: PluginHookWorkflowEndEvent,
+    ctx: PluginHookWorkflowContext,
+  ): Promise<void> {
+    return runVoidHook("workflow_end", event, ctx);
+  }
+
+  /**
+   * Run workflow_stuck hook.
+   * Fired when pending tasks can no longer run, before the workflow fails.
+   * Runs in parallel (fire-and-forget).
+   */
+  async function runWorkflowStuck(
+    event: PluginHookWorkflowStuckEvent,
+    ctx: PluginHookWorkflowContext,
+  ): Promise<void> {
+    return runVoidHook("workflow_stuck", event, ctx);
+  }
+
+  /**
+   * Run task_before_dispatch hook.
+   * Allows plugins to rewrite a task's input, retarget its role or block it.
+   * Runs sequentially.
+   */
+  async function runTaskBeforeDispatch(
+    event: PluginHookTaskBeforeDispatchEvent,
+    ctx: PluginHookWorkflowContext,
+  ): Promise<PluginHookTaskBeforeDispatchResult | undefined> {
+    return runModifyingHook<"task_before_dispatch", PluginHookTaskBeforeDispatchResult>(
+      "task_before_dispatch",
+      event,
+      ctx,
+      (acc, next) => ({
+        input: next.input ?? acc?.input,
+        agentRole: next.agentRole ?? acc?.agentRole,
+        block: next.block ?? acc?.block,
+        blockReason: next.blockReason ?? acc?.blockReason,
+      }),
+    );
+  }
+
+  /**
+   * Run task_end hook.
+   * Fired whenever a task settles (completed, failed, skipped or cancelled).
+   * Runs in parallel (fire-and-forget).
+   */
+  async function runTaskEnd(
+    event: PluginHookTaskEndEvent,
+    ctx: PluginHookWorkflowContext,
+  ): Promise<void> {
+    return runVoidHook("task_end", event, ctx);
+  }
+
   // =========================================================================
   // Utility
   // =========================================================================
@@ -641,6 +727,12 @@ export function createHookRunner(registry: PluginRegistry, options: HookRunnerOp
     // Gateway hooks
     runGatewayStart,
     runGatewayStop,
+    // Workflow hooks
+    runWorkflowStart,
+    runWorkflowEnd,
+    runWorkflowStuck,
+    runTaskBeforeDispatch,
+    runTaskEnd,
     // Utility
     hasHooks,
     getHookCount,
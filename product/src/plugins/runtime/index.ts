@@ -43,6 +43,7 @@ import { telegramMessageActions } from "../../channels/plugins/actions/telegram.
 import { createWhatsAppLoginTool } from "../../channels/plugins/agent-tools/whatsapp-login.js";
 import { recordInboundSession } from "../../channels/session.js";
 import { registerMemoryCli } from "../../cli/memory-cli.js";
+import { getStagedHunks, loadStagedEdits } from "../../coderclaw/staged-edits.js";
 import { loadConfig, writeConfigFile } from "../../config/config.js";
 import {
   resolveChannelGroupPolicy,
@@ -264,6 +265,10 @@ export function createPluginRuntime(): PluginRuntime {
       createMemorySearchTool,
       registerMemoryCli,
     },
+    stagedEdits: {
+      loadStagedEdits,
+      getStagedHunks,
+    },
     channel: {
       text: {
         chunkByNewline,
@@ -85,6 +85,8 @@ type CreateMemoryGetTool = typeof import("../../agents/tools/memory-tool.js").cr
 type CreateMemorySearchTool =
   typeof import("../../agents/tools/memory-tool.js").createMemorySearchTool;
 type RegisterMemoryCli = typeof import("../../cli/memory-cli.js").registerMemoryCli;
+type LoadStagedEdits = typeof import("../../coderclaw/staged-edits.js").loadStagedEdits;
+type GetStagedHunks = typeof import("../../coderclaw/staged-edits.js").getStagedHunks;
 type DiscordMessageActions =
   typeof import("../../channels/plugins/actions/discord.js").discordMessageActions;
 type AuditDiscordChannelPermissions =
@@ -203,6 +205,10 @@ export type PluginRuntime = {
     createMemorySearchTool: CreateMemorySearchTool;
     registerMemoryCli: RegisterMemoryCli;
   };
+  stagedEdits: {
+    loadStagedEdits: LoadStagedEdits;
+    getStagedHunks: GetStagedHunks;
+  };
   channel: {
     text: {
       chunkByNewline: ChunkByNewline;
@@ -315,7 +315,12 @@ export type PluginHookName =
   | "session_start"
   | "session_end"
   | "gateway_start"
-  | "gateway_stop";
+  | "gateway_stop"
+  | "workflow_start"
+  | "workflow_end"
+  | "workflow_stuck"
+  | "task_before_dispatch"
+  | "task_end";
 
 // Agent context shared across agent hooks
 export type PluginHookAgentContext = {
@@ -562,6 +567,72 @@ export type PluginHookGatewayStopEvent = {
   reason?: string;
 };
 
+// Workflow context (multi-agent orchestrator)
+export type PluginHookWorkflowContext = {
+  workflowId: string;
+  workflowType?: string;
+  workspaceDir?: string;
+};
+
+// Task fields shared by the task hooks
+export type PluginHookWorkflowTask = {
+  taskId: string;
+  stepId?: string;
+  agentRole: string;
+  description: string;
+  /** Loop iteration, 0 on the first run. */
+  iteration: number;
+};
+
+// workflow_start hook
+export type PluginHookWorkflowStartEvent = {
+  taskCount: number;
+  /** True when the run resumes a workflow whose earlier tasks already settled. */
+  resumed: boolean;
+  sessionKey?: string;
+};
+
+// workflow_end hook
+export type PluginHookWorkflowEndEvent = {
+  status: "completed" | "failed";
+  durationMs: number;
+  tasks: { completed: number; failed: number; skipped: number };
+  error?: string;
+};
+
+// workflow_stuck hook
+export type PluginHookWorkflowStuckEvent = {
+  tasks: Array<PluginHookWorkflowTask & { status: string; waitingOn: string[] }>;
+};
+
+// task_before_dispatch hook
+export type PluginHookTaskBeforeDispatchEvent = PluginHookWorkflowTask & {
+  input: string;
+  model?: string;
+};
+
+export type PluginHookTaskBeforeDispatchResult = {
+  input?: string;
+  agentRole?: string;
+  block?: boolean;
+  blockReason?: string;
+};
+
+// task_end hook
+export type PluginHookTaskEndEvent = PluginHookWorkflowTask & {
+  status: "completed" | "failed" | "skipped" | "cancelled";
+  output?: string;
+  error?: string;
+  durationMs?: number;
+  usage?: {
+    inputTokens: number;
+    outputTokens: number;
+    totalTokens: number;
+    costUsd: number;
+    model?: string;
+  };
+};
+
 // Hook handler types mapped by hook name
 export type PluginHookHandlerMap = {
   before_model_resolve: (
@@ -641,6 +712,26 @@ export type PluginHookHandlerMap = {
     event: PluginHookGatewayStopEvent,
     ctx: PluginHookGatewayContext,
   ) => Promise<void> | void;
+  workflow_start: (
+    event: PluginHookWorkflowStartEvent,
+    ctx: PluginHookWorkflowContext,
+  ) => Promise<void> | void;
+  workflow_end: (
+    event: PluginHookWorkflowEndEvent,
+    ctx: PluginHookWorkflowContext,
+  ) => Promise<void> | void;
+  workflow_stuck: (
+    event: PluginHookWorkflowStuckEvent,
+    ctx: PluginHookWorkflowContext,
+  ) => Promise<void> | void;
+  task_before_dispatch: (
+    event: PluginHookTaskBeforeDispatchEvent,
+    ctx: PluginHookWorkflowContext,
+  ) =>
+    | Promise<PluginHookTaskBeforeDispatchResult | void>
+    | PluginHookTaskBeforeDispatchResult
+    | void;
+  task_end: (event: PluginHookTaskEndEvent, ctx: PluginHookWorkflowContext) => Promise<void> | void;
 };
 
 export type PluginHookRegistration<K extends PluginHookName = PluginHookName> = {
@@ -0,0 +1,154 @@
+/**
+ * Test: workflow_* and task_* hook wiring (orchestrator → PluginWorkflowHooksAdapter → hook runner)
+ */
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { AgentOrchestrator } from "../coderclaw/orchestrator.js";
+import type { AgentTransportDispatchPayload, IAgentTransport } from "../coderclaw/ports.js";
+import { PluginWorkflowHooksAdapter } from "../infra/orchestrator-ports-adapter.js";
+import { initializeGlobalHookRunner, resetGlobalHookRunner } from "./hook-runner-global.js";
+import { createMockPluginRegistry } from "./hooks.test-helpers.js";
+
+function recordingTransport(): IAgentTransport & { payloads: AgentTransportDispatchPayload[] } {
+  const payloads: AgentTransportDispatchPayload[] = [];
+  return {
+    payloads,
+    discover: async () => [],
+    dispatch: async (payload) => {
+      payloads.push(payload);
+      return { status: "accepted", targetId: payload.target, output: `done by ${payload.target}` };
+    },
+  };
+}
+
+function createOrchestrator(transport: IAgentTransport): AgentOrchestrator {
+  const orchestrator = new AgentOrchestrator();
+  orchestrator.configure({ agentTransport: transport, hooks: new PluginWorkflowHooksAdapter() });
+  return orchestrator;
+}
+
+afterEach(() => {
+  resetGlobalHookRunner();
+});
+
+describe("workflow hooks", () => {
+  it("reports workflow and task lifecycle to plugins", async () => {
+    const workflowStart = vi.fn();
+    const workflowEnd = vi.fn();
+    const taskEnd = vi.fn();
+    initializeGlobalHookRunner(
+      createMockPluginRegistry([
+        { hookName: "workflow_start", handler: workflowStart },
+        { hookName: "workflow_end", handler: workflowEnd },
+        { hookName: "task_end", handler: taskEnd },
+      ]),
+    );
+    const orchestrator = createOrchestrator(recordingTransport());
+    const workflow = orchestrator.createWorkflow(
+      [
+        { id: "build", role: "code-creator", task: "Build it" },
+        {
+          id: "docs",
+          role: "documentation-agent",
+          task: "Document it",
+          dependsOn: ["build"],
+          when: { step: "build", contains: "never" },
+        },
+      ],
+      { type: "feature" },
+    );
+
+    await orchestrator.executeWorkflow(workflow.id, { agentSessionKey: "agent:main:main" });
+
+    const ctx = { workflowId: workflow.id, workflowType: "feature" };
+    expect(workflowStart).toHaveBeenCalledWith(
+      { taskCount: 2, resumed: false, sessionKey: "agent:main:main" },
+      ctx,
+    );
+    expect(taskEnd.mock.calls.map(([event]) => [event.stepId, event.status])).toEqual([
+      ["build", "completed"],
+      ["docs", "skipped"],
+    ]);
+    expect(taskEnd.mock.calls[0]?.[0]).toMatchObject({
+      agentRole: "code-creator",
+      output: "done by code-creator",
+      iteration: 0,
+    });
+    expect(workflowEnd).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: "completed",
+        tasks: { completed: 1, failed: 0, skipped: 1 },
+      }),
+      ctx,
+    );
+  });
+
+  it("lets task_before_dispatch rewrite, retarget and veto tasks", async () => {
+    initializeGlobalHookRunner(
+      createMockPluginRegistry([
+        {
+          hookName: "task_before_dispatch",
+          handler: (event) => {
+            const { stepId, input } = event as { stepId: string; input: string };
+            if (stepId === "deploy") {
+              return { block: true, blockReason: "deploys are frozen" };
+            }
+            return stepId === "review"
+              ? { agentRole: "remote:security-claw" }
+              : { input: `${input}\n\nFollow the style guide.` };
+          },
+        },
+      ]),
+    );
+    const transport = recordingTransport();
+    const orchestrator = createOrchestrator(transport);
+    const workflow = orchestrator.createWorkflow([
+      { id: "build", role: "code-creator", task: "Build it" },
+      { id: "review", role: "code-reviewer", task: "Review it", dependsOn: ["build"] },
+      { id: "deploy", role: "code-creator", task: "Deploy it", dependsOn: ["review"] },
+      { id: "announce", role: "documentation-agent", task: "Announce", dependsOn: ["deploy"] },
+    ]);
+
+    await orchestrator.executeWorkflow(workflow.id, {});
+
+    const byStep = new Map(Array.from(workflow.tasks.values()).map((t) => [t.stepId, t]));
+    expect(transport.payloads.map((p) => p.target)).toEqual([
+      "code-creator",
+      "remote:security-claw",
+    ]);
+    expect(transport.payloads[0]?.input).toContain("Follow the style guide.");
+    expect(byStep.get("deploy")?.status).toBe("failed");
+    expect(byStep.get("deploy")?.error).toBe("Dispatch blocked: deploys are frozen");
+    expect(byStep.get("announce")?.status).toBe("skipped");
+    expect(workflow.status).toBe("failed");
+  });
+
+  it("fires workflow_stuck before failing a workflow that cannot progress", async () => {
+    const workflowStuck = vi.fn();
+    const workflowEnd = vi.fn();
+    initializeGlobalHookRunner(
+      createMockPluginRegistry([
+        { hookName: "workflow_stuck", handler: workflowStuck },
+        { hookName: "workflow_end", handler: workflowEnd },
+      ]),
+    );
+    const orchestrator = createOrchestrator(recordingTransport());
+    const workflow = orchestrator.createWorkflow([{ id: "a", role: "code-creator", task: "A" }]);
+    const task = Array.from(workflow.tasks.values())[0];
+    task.dependencies = ["missing-task"];
+
+    await expect(orchestrator.executeWorkflow(workflow.id, {})).rejects.toThrow(/Workflow stuck/);
+    expect(workflowStuck.mock.calls[0]?.[0]).toEqual({
+      tasks: [
+        expect.objectContaining({
+          taskId: task.id,
+          status: "pending",
+          waitingOn: ["missing-task"],
+        }),
+      ],
+    });
+    expect(workflowEnd.mock.calls[0]?.[0]).toMatchObject({
+      status: "failed",
+      error: "Workflow stuck - cannot execute remaining tasks",
+    });
+  });
+});
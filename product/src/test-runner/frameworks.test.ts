@@ -0,0 +1,107 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  buildTestCommand,
+  detectTestFramework,
+  InvalidTestScopeError,
+  normalizeTestFramework,
+} from "./frameworks.js";
+
+const dirs: string[] = [];
+
+async function workspace(files: Record<string, string>): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "test-frameworks-"));
+  dirs.push(dir);
+  for (const [name, content] of Object.entries(files)) {
+    await fs.mkdir(path.dirname(path.join(dir, name)), { recursive: true });
+    await fs.writeFile(path.join(dir, name), content);
+  }
+  return dir;
+}
+
+afterEach(async () => {
+  await Promise.all(dirs.splice(0).map((dir) => fs.rm(dir, { recursive: true, force: true })));
+});
+
+describe("detectTestFramework", () => {
+  it("prefers the project context and falls back to manifests", async () => {
+    const vitest = await workspace({
+      "package.json": JSON.stringify({ devDependencies: { vitest: "^3.0.0" } }),
+    });
+    expect(await detectTestFramework(vitest)).toBe("vitest");
+    expect(await detectTestFramework(await workspace({ "go.mod": "module m\n" }))).toBe("go");
+    expect(await detectTestFramework(await workspace({ "Cargo.toml": "[package]\n" }))).toBe(
+      "cargo",
+    );
+    expect(await detectTestFramework(await workspace({ "pyproject.toml": "" }))).toBe("pytest");
+    expect(await detectTestFramework(await workspace({ "README.md": "" }))).toBeNull();
+
+    const overridden = await workspace({
+      "package.json": JSON.stringify({ devDependencies: { vitest: "^3.0.0" } }),
+      ".coderclaw/context.yaml": "version: 1\ntestFramework: Jest\n",
+    });
+    expect(await detectTestFramework(overridden)).toBe("jest");
+  });
+
+  it("normalizes framework names", () => {
+    expect(normalizeTestFramework("go test")).toBe("go");
+    expect(normalizeTestFramework("Rust")).toBe("cargo");
+    expect(normalizeTestFramework("mocha")).toBeNull();
+  });
+});
+
+describe("buildTestCommand", () => {
+  it("asks each framework for a machine-readable report", async () => {
+    const dir = await workspace({});
+    const scope = { workspaceDir: dir, reportDir: "/tmp/r", testNamePattern: "adds" };
+    expect(await buildTestCommand("vitest", { ...scope, files: ["src/a.test.ts"] })).toEqual({
+      argv: [
+        "npx",
+        "--no-install",
+        "vitest",
+        "run",
+        "--reporter=json",
+        "--outputFile=/tmp/r/vitest.json",
+        "-t",
+        "adds",
+        "src/a.test.ts",
+      ],
+      reportFile: "/tmp/r/vitest.json",
+    });
+    expect((await buildTestCommand("pytest", scope)).argv).toEqual([
+      "pytest",
+      "-q",
+      "--junitxml=/tmp/r/pytest.xml",
+      "-k",
+      "adds",
+    ]);
+    expect((await buildTestCommand("go", scope)).argv).toEqual([
+      "go",
+      "test",
+      "-json",
+      "-run",
+      "adds",
+      "./...",
+    ]);
+    expect((await buildTestCommand("cargo", { ...scope, files: ["api"] })).argv).toEqual([
+      "cargo",
+      "test",
+      "--test",
+      "api",
+      "adds",
+    ]);
+  });
+
+  it("rejects files and patterns the runner would parse as options", async () => {
+    const dir = await workspace({});
+    const scope = { workspaceDir: dir, reportDir: "/tmp/r" };
+    await expect(
+      buildTestCommand("vitest", { ...scope, files: ["--config=evil.ts"] }),
+    ).rejects.toBeInstanceOf(InvalidTestScopeError);
+    await expect(
+      buildTestCommand("go", { ...scope, testNamePattern: "-exec=./evil" }),
+    ).rejects.toBeInstanceOf(InvalidTestScopeError);
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Test framework detection and the command line each framework runs with.
+ *
+ * Every command asks the framework for a machine-readable report so results
+ * can be parsed without scraping human-oriented output: vitest/jest write a
+ * JSON report, pytest a JUnit XML file, `go test -json` streams events, and
+ * cargo (whose JSON output is nightly-only) is parsed from its stable text.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import { loadProjectContext } from "../coderclaw/project-context-store.js";
+
+export const SUPPORTED_TEST_FRAMEWORKS = ["vitest", "jest", "pytest", "go", "cargo"] as const;
+
+export type TestFramework = (typeof SUPPORTED_TEST_FRAMEWORKS)[number];
+
+export type TestScope = {
+  /**
+   * Test files or directories (vitest, jest, pytest), packages such as
+   * `./pkg/...` (go), or integration test targets (cargo `--test`).
+   */
+  files?: string[];
+  /** Only run tests whose name matches (`-t`, `-k`, `-run`, cargo filter). */
+  testNamePattern?: string;
+};
+
+export type TestCommand = {
+  argv: string[];
+  /** Report file the framework writes, when it does not report on stdout. */
+  reportFile?: string;
+};
+
+/** A scope value the runner would read as an option rather than a file or pattern. */
+export class InvalidTestScopeError extends Error {
+  constructor(value: string) {
+    super(`Test files and name patterns must not start with "-": ${value}`);
+    this.name = "InvalidTestScopeError";
+  }
+}
+
+const FRAMEWORK_ALIASES: Record<string, TestFramework> = {
+  vitest: "vitest",
+  jest: "jest",
+  pytest: "pytest",
+  go: "go",
+  "go test": "go",
+  gotest: "go",
+  cargo: "cargo",
+  "cargo test": "cargo",
+  rust: "cargo",
+};
+
+export function normalizeTestFramework(value: string | undefined): TestFramework | null {
+  return value ? (FRAMEWORK_ALIASES[value.trim().toLowerCase()] ?? null) : null;
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function readPackageDeps(workspaceDir: string): Promise<Set<string>> {
+  try {
+    const pkg = JSON.parse(await fs.readFile(path.join(workspaceDir, "package.json"), "utf-8")) as {
+      dependencies?: Record<string, string>;
+      devDependencies?: Record<string, string>;
+    };
+    return new Set([
+      ...Object.keys(pkg.dependencies ?? {}),
+      ...Object.keys(pkg.devDependencies ?? {}),
+    ]);
+  } catch {
+    return new Set();
+  }
+}
+
+/** Infer the framework from the project's manifests and config files. */
+export async function detectTestFrameworkFromManifests(
+  workspaceDir: string,
+): Promise<TestFramework | null> {
+  const deps = await readPackageDeps(workspaceDir);
+  if (deps.has("vitest")) {
+    return "vitest";
+  }
+  if (deps.has("jest") || [...deps].some((dep) => dep.startsWith("@jest/"))) {
+    return "jest";
+  }
+  const file = (name: string) => exists(path.join(workspaceDir, name));
+  if (await file("Cargo.toml")) {
+    return "cargo";
+  }
+  if (await file("go.mod")) {
+    return "go";
+  }
+  for (const name of ["pytest.ini", "conftest.py", "pyproject.toml", "setup.cfg", "tox.ini"]) {
+    if (await file(name)) {
+      return "pytest";
+    }
+  }
+  for (const name of ["vitest.config.ts", "vitest.config.mts", "vitest.config.js"]) {
+    if (await file(name)) {
+      return "vitest";
+    }
+  }
+  for (const name of ["jest.config.ts", "jest.config.js", "jest.config.cjs", "jest.config.mjs"]) {
+    if (await file(name)) {
+      return "jest";
+    }
+  }
+  return null;
+}
+
+/**
+ * The project's test framework: `ProjectContext.testFramework` when it names
+ * a supported framework, otherwise inferred from the manifests.
+ */
+export async function detectTestFramework(workspaceDir: string): Promise<TestFramework | null> {
+  const context = await loadProjectContext(workspaceDir).catch(() => null);
+  return (
+    normalizeTestFramework(context?.testFramework) ??
+    (await detectTestFrameworkFromManifests(workspaceDir))
+  );
+}
+
+/** Prefer the project's own binary; fall back to one on PATH (never installs). */
+async function nodeBin(workspaceDir: string, name: string): Promise<string[]> {
+  const local = path.join(workspaceDir, "node_modules", ".bin", name);
+  return (await exists(local)) ? [local] : ["npx", "--no-install", name];
+}
+
+export async function buildTestCommand(
+  framework: TestFramework,
+  params: TestScope & { workspaceDir: string; reportDir: string },
+): Promise<TestCommand> {
+  const files = params.files ?? [];
+  const pattern = params.testNamePattern;
+  // Scope values come from the agent; an option such as `--config=` or `-exec=` runs other code.
+  for (const value of [...files, ...(pattern ? [pattern] : [])]) {
+    if (value.startsWith("-")) {
+      throw new InvalidTestScopeError(value);
+    }
+  }
+  switch (framework) {
+    case "vitest": {
+      const reportFile = path.join(params.reportDir, "vitest.json");
+      return {
+        argv: [
+          ...(await nodeBin(params.workspaceDir, "vitest")),
+          "run",
+          "--reporter=json",
+          `--outputFile=${reportFile}`,
+          ...(pattern ? ["-t", pattern] : []),
+          ...files,
+        ],
+        reportFile,
+      };
+    }
+    case "jest": {
+      const reportFile = path.join(params.reportDir, "jest.json");
+      return {
+        argv: [
+          ...(await nodeBin(params.workspaceDir, "jest")),
+          "--ci",
+          "--json",
+          `--outputFile=${reportFile}`,
+          "--testLocationInResults",
+          ...(pattern ? ["-t", pattern] : []),
+          ...files,
+        ],
+        reportFile,
+      };
+    }
+    case "pytest": {
+      const reportFile = path.join(params.reportDir, "pytest.xml");
+      return {
+        argv: [
+          "pytest",
+          "-q",
+          `--junitxml=${reportFile}`,
+          ...(pattern ? ["-k", pattern] : []),
+          ...files,
+        ],
+        reportFile,
+      };
+    }
+    case "go":
+      return {
+        argv: [
+          "go",
+          "test",
+          "-json",
+          ...(pattern ? ["-run", pattern] : []),
+          ...(files.length > 0 ? files : ["./..."]),
+        ],
+      };
+    case "cargo":
+      return {
+        argv: [
+          "cargo",
+          "test",
+          ...files.flatMap((target) => ["--test", target]),
+          ...(pattern ? [pattern] : []),
+        ],
+      };
+  }
+  throw new Error(`Unsupported test framework: ${String(framework)}`);
+}
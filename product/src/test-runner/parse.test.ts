@@ -0,0 +1,209 @@
+import { describe, expect, it } from "vitest";
+import {
+  parseCargoTestOutput,
+  parseGoTestJson,
+  parseJestJsonReport,
+  parseJunitXml,
+} from "./parse.js";
+
+describe("parseJestJsonReport", () => {
+  it("reads counts, assertion messages and the failing line from the stack", () => {
+    const report = parseJestJsonReport(
+      JSON.stringify({
+        numTotalTests: 3,
+        numPassedTests: 1,
+        numFailedTests: 1,
+        numPendingTests: 1,
+        numTodoTests: 0,
+        startTime: 1_000,
+        testResults: [
+          {
+            name: "/repo/src/math.test.ts",
+            status: "failed",
+            endTime: 1_450,
+            assertionResults: [
+              { fullName: "math adds", status: "passed", failureMessages: [] },
+              {
+                fullName: "math subtracts",
+                status: "failed",
+                location: { line: 8, column: 3 },
+                failureMessages: [
+                  "AssertionError: expected 1 to be 2 // Object.is equality\n    at /repo/src/math.test.ts:10:15\n    at file:///repo/node_modules/vitest/dist/index.js:1:1",
+                ],
+              },
+              { fullName: "math divides", status: "skipped", failureMessages: [] },
+            ],
+          },
+          {
+            name: "/repo/src/broken.test.ts",
+            status: "failed",
+            message: "SyntaxError: Unexpected token )\n    at /repo/src/broken.test.ts:3:1",
+            assertionResults: [],
+          },
+        ],
+      }),
+    );
+    expect(report.counts).toEqual({ total: 3, passed: 1, failed: 2, skipped: 1 });
+    expect(report.durationMs).toBe(450);
+    expect(report.failures).toEqual([
+      {
+        name: "math subtracts",
+        file: "/repo/src/math.test.ts",
+        line: 10,
+        message: "AssertionError: expected 1 to be 2 // Object.is equality",
+      },
+      {
+        name: "/repo/src/broken.test.ts",
+        file: "/repo/src/broken.test.ts",
+        message: "SyntaxError: Unexpected token )",
+      },
+    ]);
+  });
+});
+
+describe("parseJunitXml", () => {
+  it("reads pytest results and the assertion location from the long repr", () => {
+    const report = parseJunitXml(`<?xml version="1.0" encoding="utf-8"?>
+<testsuites><testsuite name="pytest" errors="0" failures="1" skipped="1" tests="3" time="0.125">
+<testcase classname="tests.test_math" name="test_add" time="0.001" />
+<testcase classname="tests.test_math" name="test_sub" time="0.002"><failure message="assert 1 == 2&#10; +  where 1 = sub(3, 2)">def test_sub():
+&gt;       assert sub(3, 2) == 2
+E       assert 1 == 2
+
+tests/test_math.py:7: AssertionError</failure></testcase>
+<testcase classname="tests.test_math" name="test_div" time="0.000"><skipped type="pytest.skip" message="later" /></testcase>
+</testsuite></testsuites>`);
+    expect(report.counts).toEqual({ total: 3, passed: 1, failed: 1, skipped: 1 });
+    expect(report.durationMs).toBe(125);
+    expect(report.failures).toEqual([
+      {
+        name: "tests.test_math::test_sub",
+        file: "tests/test_math.py",
+        line: 7,
+        message: "assert 1 == 2\n +  where 1 = sub(3, 2)",
+      },
+    ]);
+  });
+});
+
+describe("parseGoTestJson", () => {
+  const event = (fields: Record<string, unknown>) => JSON.stringify(fields);
+
+  it("reads test events and t.Errorf locations", () => {
+    const report = parseGoTestJson(
+      [
+        event({ Action: "run", Package: "example.com/m", Test: "TestAdd" }),
+        event({ Action: "pass", Package: "example.com/m", Test: "TestAdd", Elapsed: 0 }),
+        event({ Action: "run", Package: "example.com/m", Test: "TestSub" }),
+        event({
+          Action: "output",
+          Package: "example.com/m",
+          Test: "TestSub",
+          Output: "=== RUN   TestSub\n",
+        }),
+        event({
+          Action: "output",
+          Package: "example.com/m",
+          Test: "TestSub",
+          Output: "    math_test.go:12: got 1, want 2\n",
+        }),
+        event({
+          Action: "output",
+          Package: "example.com/m",
+          Test: "TestSub",
+          Output: "--- FAIL: TestSub (0.00s)\n",
+        }),
+        event({ Action: "fail", Package: "example.com/m", Test: "TestSub", Elapsed: 0 }),
+        event({ Action: "skip", Package: "example.com/m", Test: "TestDiv", Elapsed: 0 }),
+        event({ Action: "fail", Package: "example.com/m", Elapsed: 0.25 }),
+      ].join("\n"),
+    );
+    expect(report.counts).toEqual({ total: 3, passed: 1, failed: 1, skipped: 1 });
+    expect(report.durationMs).toBe(250);
+    expect(report.failures).toEqual([
+      { name: "example.com/m.TestSub", file: "math_test.go", line: 12, message: "got 1, want 2" },
+    ]);
+  });
+
+  it("reports packages that fail to build", () => {
+    const report = parseGoTestJson(
+      [
+        event({ Action: "output", Package: "example.com/m", Output: "# example.com/m\n" }),
+        event({
+          Action: "output",
+          Package: "example.com/m",
+          Output: "math.go:3:2: undefined: x\n",
+        }),
+        event({
+          Action: "output",
+          Package: "example.com/m",
+          Output: "FAIL\texample.com/m [build failed]\n",
+        }),
+        event({ Action: "fail", Package: "example.com/m", Elapsed: 0 }),
+      ].join("\n"),
+    );
+    expect(report.counts.failed).toBe(1);
+    expect(report.failures).toEqual([
+      {
+        name: "example.com/m",
+        file: "math.go",
+        line: 3,
+        message: "# example.com/m\nmath.go:3:2: undefined: x",
+      },
+    ]);
+  });
+});
+
+describe("parseCargoTestOutput", () => {
+  it("sums result lines and reads panic locations", () => {
+    const report = parseCargoTestOutput(`
+running 3 tests
+test tests::adds ... ok
+test tests::subtracts ... FAILED
+test tests::divides ... ignored
+
+failures:
+
+---- tests::subtracts stdout ----
+thread 'tests::subtracts' panicked at src/lib.rs:18:9:
+assertion \`left == right\` failed
+  left: 1
+ right: 2
+note: run with \`RUST_BACKTRACE=1\` environment variable to display a backtrace
+
+
+failures:
+    tests::subtracts
+
+test result: FAILED. 1 passed; 1 failed; 1 ignored; 0 measured; 0 filtered out; finished in 0.50s
+`);
+    expect(report.counts).toEqual({ total: 3, passed: 1, failed: 1, skipped: 1 });
+    expect(report.durationMs).toBe(500);
+    expect(report.failures).toEqual([
+      {
+        name: "tests::subtracts",
+        file: "src/lib.rs",
+        line: 18,
+        message: "assertion `left == right` failed\n  left: 1\n right: 2",
+      },
+    ]);
+  });
+
+  it("reports compile errors when no tests ran", () => {
+    const report = parseCargoTestOutput(`error[E0425]: cannot find value \`x\` in this scope
+ --> src/lib.rs:3:5
+  |
+3 |     x
+  |     ^ not found in this scope
+`);
+    expect(report.counts.failed).toBe(1);
+    expect(report.failures).toEqual([
+      {
+        name: "compile error",
+        file: "src/lib.rs",
+        line: 3,
+        message: "error[E0425]: cannot find value `x` in this scope",
+      },
+    ]);
+  });
+});
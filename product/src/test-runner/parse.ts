@@ -0,0 +1,342 @@
+/**
+ * Parsers turning each framework's report into counts and failures.
+ */
+
+import { stripAnsi } from "../terminal/ansi.js";
+
+export type TestCounts = {
+  total: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+};
+
+export type TestFailure = {
+  /** Full test name, e.g. "math > adds" or "tests/test_math.py::test_add". */
+  name: string;
+  /** File of the failing assertion (or of the test when that is unknown). */
+  file?: string;
+  line?: number;
+  /** Assertion message without the stack trace. */
+  message: string;
+};
+
+export type ParsedTestReport = {
+  counts: TestCounts;
+  failures: TestFailure[];
+  durationMs?: number;
+};
+
+const MAX_MESSAGE_CHARS = 1_500;
+
+function emptyCounts(): TestCounts {
+  return { total: 0, passed: 0, failed: 0, skipped: 0 };
+}
+
+function clip(text: string): string {
+  const trimmed = stripAnsi(text).trim();
+  return trimmed.length > MAX_MESSAGE_CHARS ? `${trimmed.slice(0, MAX_MESSAGE_CHARS)}…` : trimmed;
+}
+
+// ── vitest / jest JSON report ────────────────────────────────────────────────
+
+type JestAssertionResult = {
+  fullName?: string;
+  title?: string;
+  status?: string;
+  failureMessages?: string[];
+  location?: { line?: number; column?: number } | null;
+};
+
+type JestTestFileResult = {
+  name?: string;
+  status?: string;
+  message?: string;
+  startTime?: number;
+  endTime?: number;
+  assertionResults?: JestAssertionResult[];
+};
+
+type JestJsonReport = {
+  numTotalTests?: number;
+  numPassedTests?: number;
+  numFailedTests?: number;
+  numPendingTests?: number;
+  numTodoTests?: number;
+  startTime?: number;
+  testResults?: JestTestFileResult[];
+};
+
+/** First stack frame inside `file`, e.g. "at Object.<anonymous> (/repo/a.test.ts:12:5)". */
+function frameLineInFile(stack: string, file: string | undefined): number | undefined {
+  if (!file) {
+    return undefined;
+  }
+  for (const match of stack.matchAll(/([^\s(]+):(\d+):\d+\)?\s*$/gm)) {
+    if (match[1] === file || match[1] === `file://${file}`) {
+      return Number(match[2]);
+    }
+  }
+  return undefined;
+}
+
+/** Message part of a failure: everything before the first stack frame. */
+function stripStack(text: string): string {
+  const clean = stripAnsi(text);
+  const frame = clean.search(/\n\s+at /);
+  return frame === -1 ? clean : clean.slice(0, frame);
+}
+
+/** Parse the JSON report written by `vitest --reporter=json` or `jest --json`. */
+export function parseJestJsonReport(raw: string): ParsedTestReport {
+  const report = JSON.parse(raw) as JestJsonReport;
+  const failures: TestFailure[] = [];
+  let endTime = 0;
+  for (const file of report.testResults ?? []) {
+    endTime = Math.max(endTime, file.endTime ?? 0);
+    const assertions = file.assertionResults ?? [];
+    for (const assertion of assertions) {
+      if (assertion.status !== "failed") {
+        continue;
+      }
+      const stack = (assertion.failureMessages ?? []).join("\n");
+      // The assertion's own frame beats `location`, which is where the test is declared.
+      const line = frameLineInFile(stack, file.name) ?? assertion.location?.line;
+      failures.push({
+        name: assertion.fullName || assertion.title || "(unnamed test)",
+        ...(file.name ? { file: file.name } : {}),
+        ...(line ? { line } : {}),
+        message: clip(stripStack(stack)) || "Test failed",
+      });
+    }
+    // A file that fails to load (syntax error, missing import) has no assertions.
+    if (file.status === "failed" && !assertions.some((a) => a.status === "failed")) {
+      failures.push({
+        name: file.name ?? "(test file)",
+        ...(file.name ? { file: file.name } : {}),
+        message: clip(stripStack(file.message ?? "")) || "Test file failed to run",
+      });
+    }
+  }
+  const skipped = (report.numPendingTests ?? 0) + (report.numTodoTests ?? 0);
+  return {
+    counts: {
+      total: report.numTotalTests ?? 0,
+      passed: report.numPassedTests ?? 0,
+      // Files that fail to load count no tests but still fail the run.
+      failed: Math.max(report.numFailedTests ?? 0, failures.length),
+      skipped,
+    },
+    failures,
+    ...(report.startTime && endTime > report.startTime
+      ? { durationMs: Math.round(endTime - report.startTime) }
+      : {}),
+  };
+}
+
+// ── JUnit XML (pytest) ───────────────────────────────────────────────────────
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code: string) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function xmlAttributes(raw: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of raw.matchAll(/([\w:-]+)="([^"]*)"/g)) {
+    attrs[match[1]] = decodeXmlEntities(match[2]);
+  }
+  return attrs;
+}
+
+/** Parse a JUnit XML report (`pytest --junitxml`). */
+export function parseJunitXml(xml: string): ParsedTestReport {
+  const counts = emptyCounts();
+  const failures: TestFailure[] = [];
+  let durationMs = 0;
+  for (const suite of xml.matchAll(/<testsuite\b([^>]*)>/g)) {
+    const time = Number(xmlAttributes(suite[1]).time);
+    if (Number.isFinite(time)) {
+      durationMs += Math.round(time * 1000);
+    }
+  }
+  for (const testcase of xml.matchAll(/<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g)) {
+    const attrs = xmlAttributes(testcase[1]);
+    const body = testcase[2] ?? "";
+    counts.total += 1;
+    const problem = /<(failure|error)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/.exec(body);
+    if (problem) {
+      counts.failed += 1;
+      const details = decodeXmlEntities(problem[3] ?? "");
+      // pytest's long repr ends with "path/to/test_x.py:12: AssertionError".
+      const location = [...details.matchAll(/^(\S+\.py):(\d+): /gm)].at(-1);
+      const file = attrs.file ?? location?.[1];
+      const line = attrs.line ? Number(attrs.line) + 1 : location ? Number(location[2]) : undefined;
+      failures.push({
+        name: attrs.classname ? `${attrs.classname}::${attrs.name}` : (attrs.name ?? "(unnamed)"),
+        ...(file ? { file } : {}),
+        ...(line ? { line } : {}),
+        message:
+          clip(xmlAttributes(problem[2]).message ?? "") ||
+          clip(details.split("\n").slice(-5).join("\n")) ||
+          (problem[1] === "error" ? "Test errored" : "Test failed"),
+      });
+    } else if (/<skipped\b/.test(body)) {
+      counts.skipped += 1;
+    } else {
+      counts.passed += 1;
+    }
+  }
+  return { counts, failures, ...(durationMs > 0 ? { durationMs } : {}) };
+}
+
+// ── go test -json ────────────────────────────────────────────────────────────
+
+type GoTestEvent = {
+  Action?: string;
+  Package?: string;
+  ImportPath?: string;
+  Test?: string;
+  Elapsed?: number;
+  Output?: string;
+};
+
+/** Parse the event stream of `go test -json`. */
+export function parseGoTestJson(stream: string): ParsedTestReport {
+  const counts = emptyCounts();
+  const failures: TestFailure[] = [];
+  const output = new Map<string, string[]>();
+  const failedPackages = new Set<string>();
+  const packagesWithFailedTests = new Set<string>();
+  let durationMs = 0;
+  for (const line of stream.split("\n")) {
+    if (!line.startsWith("{")) {
+      continue;
+    }
+    let event: GoTestEvent;
+    try {
+      event = JSON.parse(line) as GoTestEvent;
+    } catch {
+      continue;
+    }
+    const pkg = event.Package ?? event.ImportPath ?? "";
+    const key = `${pkg}\u0000${event.Test ?? ""}`;
+    if (event.Output !== undefined) {
+      output.set(key, [...(output.get(key) ?? []), event.Output]);
+      continue;
+    }
+    if (!event.Test) {
+      if (event.Action === "fail") {
+        failedPackages.add(pkg);
+      }
+      if ((event.Action === "pass" || event.Action === "fail") && event.Elapsed) {
+        durationMs += Math.round(event.Elapsed * 1000);
+      }
+      continue;
+    }
+    if (event.Action === "pass") {
+      counts.total += 1;
+      counts.passed += 1;
+    } else if (event.Action === "skip") {
+      counts.total += 1;
+      counts.skipped += 1;
+    } else if (event.Action === "fail") {
+      counts.total += 1;
+      counts.failed += 1;
+      packagesWithFailedTests.add(pkg);
+      const lines = output.get(key) ?? [];
+      // t.Errorf output: "    math_test.go:12: got 3, want 4"
+      const located = lines
+        .map((text) => /^\s+([\w./-]+\.go):(\d+): ([\s\S]*)$/.exec(text))
+        .find(Boolean);
+      const message = lines
+        .filter((text) => !/^(=== |--- |\s*(PASS|FAIL)\b)/.test(text.trimStart()))
+        .join("")
+        .replace(/^\s+[\w./-]+\.go:\d+: /gm, "");
+      failures.push({
+        name: `${pkg}.${event.Test}`,
+        ...(located ? { file: located[1], line: Number(located[2]) } : {}),
+        message: clip(message) || "Test failed",
+      });
+    }
+  }
+  // Packages that fail without a failing test did not build or set up.
+  for (const pkg of failedPackages) {
+    if (packagesWithFailedTests.has(pkg)) {
+      continue;
+    }
+    const lines = output.get(`${pkg}\u0000`) ?? [];
+    const located = lines.map((text) => /^([\w./-]+\.go):(\d+):\d+: /.exec(text)).find(Boolean);
+    failures.push({
+      name: pkg,
+      ...(located ? { file: located[1], line: Number(located[2]) } : {}),
+      message:
+        clip(lines.filter((text) => !/^(FAIL|ok)\s/.test(text)).join("")) ||
+        "Package failed to build",
+    });
+    counts.failed += 1;
+  }
+  return { counts, failures, ...(durationMs > 0 ? { durationMs } : {}) };
+}
+
+// ── cargo test (text) ────────────────────────────────────────────────────────
+
+/** Parse `cargo test` output (stdout and stderr combined). */
+export function parseCargoTestOutput(output: string): ParsedTestReport {
+  const text = stripAnsi(output);
+  const counts = emptyCounts();
+  let durationMs = 0;
+  let sawResult = false;
+  for (const match of text.matchAll(
+    /^test result: \w+\. (\d+) passed; (\d+) failed; (\d+) ignored;[^\n]*?(?:finished in ([\d.]+)s)?$/gm,
+  )) {
+    sawResult = true;
+    const [passed, failed, ignored] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    counts.passed += passed;
+    counts.failed += failed;
+    counts.skipped += ignored;
+    counts.total += passed + failed + ignored;
+    durationMs += Math.round(Number(match[4] ?? 0) * 1000);
+  }
+
+  const failures: TestFailure[] = [];
+  for (const block of text.matchAll(
+    /^---- (\S+) stdout ----\n([\s\S]*?)(?=\n---- |\nfailures:|$(?![\s\S]))/gm,
+  )) {
+    const body = block[2];
+    // Rust ≥ 1.73: "panicked at src/lib.rs:10:9:\nmessage"; older: "panicked at 'message', src/lib.rs:10:9".
+    const modern = /panicked at ([^\s:]+):(\d+):\d+:\n([\s\S]*?)(?:\nnote: |$)/.exec(body);
+    const legacy = /panicked at '([\s\S]*?)', ([^\s:]+):(\d+):\d+/.exec(body);
+    failures.push({
+      name: block[1],
+      ...(modern
+        ? { file: modern[1], line: Number(modern[2]) }
+        : legacy
+          ? { file: legacy[2], line: Number(legacy[3]) }
+          : {}),
+      message: clip(modern?.[3] ?? legacy?.[1] ?? body) || "Test failed",
+    });
+  }
+
+  // Compile errors: "error[E0425]: cannot find value `x`\n --> src/lib.rs:3:5"
+  if (!sawResult) {
+    for (const match of text.matchAll(
+      /^(error(?:\[\w+\])?: [^\n]+)\n\s*--> ([^\s:]+):(\d+):\d+/gm,
+    )) {
+      failures.push({
+        name: "compile error",
+        file: match[2],
+        line: Number(match[3]),
+        message: clip(match[1]),
+      });
+    }
+    counts.failed += failures.length;
+  }
+  return { counts, failures, ...(durationMs > 0 ? { durationMs } : {}) };
+}
@@ -0,0 +1,196 @@
+/**
+ * Run a project's tests and return structured results.
+ *
+ * The framework comes from `ProjectContext.testFramework` or the manifests
+ * (see frameworks.ts); its report is parsed into counts and failures with
+ * workspace-relative file:line locations. A run whose report cannot be
+ * parsed (missing binary, crash, timeout) has status "error" and
+ * carries the tail of the output instead.
+ */
+
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { runCommandWithTimeout } from "../process/exec.js";
+import {
+  buildTestCommand,
+  detectTestFramework,
+  type TestFramework,
+  type TestScope,
+} from "./frameworks.js";
+import {
+  parseCargoTestOutput,
+  parseGoTestJson,
+  parseJestJsonReport,
+  parseJunitXml,
+  type ParsedTestReport,
+  type TestCounts,
+  type TestFailure,
+} from "./parse.js";
+
+export type { TestCounts, TestFailure } from "./parse.js";
+
+export const DEFAULT_TEST_TIMEOUT_MS = 10 * 60_000;
+const MAX_FAILURES = 50;
+const OUTPUT_TAIL_CHARS = 4_000;
+
+export type TestRunStatus = "passed" | "failed" | "error";
+
+export type TestRunResult = {
+  framework: TestFramework;
+  command: string;
+  status: TestRunStatus;
+  exitCode: number | null;
+  durationMs: number;
+  counts: TestCounts;
+  failures: TestFailure[];
+  /** Failures beyond the returned list. */
+  omittedFailures?: number;
+  /** Last part of the raw output, for errors the report cannot describe. */
+  outputTail?: string;
+};
+
+export type RunTestsParams = TestScope & {
+  workspaceDir: string;
+  /** Overrides detection. */
+  framework?: TestFramework;
+  timeoutMs?: number;
+};
+
+export class TestFrameworkNotDetectedError extends Error {
+  constructor(workspaceDir: string) {
+    super(
+      `Could not detect a test framework in ${workspaceDir}; set testFramework in .coderclaw/context.yaml or pass framework`,
+    );
+    this.name = "TestFrameworkNotDetectedError";
+  }
+}
+
+async function readReport(
+  framework: TestFramework,
+  reportFile: string | undefined,
+  output: string,
+): Promise<ParsedTestReport | null> {
+  try {
+    switch (framework) {
+      case "vitest":
+      case "jest":
+        return parseJestJsonReport(await fs.readFile(reportFile!, "utf-8"));
+      case "pytest":
+        return parseJunitXml(await fs.readFile(reportFile!, "utf-8"));
+      case "go":
+        return parseGoTestJson(output);
+      case "cargo":
+        return parseCargoTestOutput(output);
+    }
+  } catch {
+    // No report: the runner crashed before writing one.
+  }
+  return null;
+}
+
+function relativeFile(workspaceDir: string, file: string | undefined): string | undefined {
+  if (!file) {
+    return undefined;
+  }
+  const absolute = file.startsWith("file://") ? file.slice("file://".length) : file;
+  if (!path.isAbsolute(absolute)) {
+    return absolute;
+  }
+  const relative = path.relative(workspaceDir, absolute);
+  return relative.startsWith("..") ? absolute : relative;
+}
+
+export async function runTests(params: RunTestsParams): Promise<TestRunResult> {
+  const workspaceDir = path.resolve(params.workspaceDir);
+  const framework = params.framework ?? (await detectTestFramework(workspaceDir));
+  if (!framework) {
+    throw new TestFrameworkNotDetectedError(workspaceDir);
+  }
+  const reportDir = await fs.mkdtemp(path.join(os.tmpdir(), "coderclaw-tests-"));
+  try {
+    const command = await buildTestCommand(framework, {
+      workspaceDir,
+      reportDir,
+      files: params.files,
+      testNamePattern: params.testNamePattern,
+    });
+    const startedAt = Date.now();
+    const result = await runCommandWithTimeout(command.argv, {
+      cwd: workspaceDir,
+      timeoutMs: params.timeoutMs ?? DEFAULT_TEST_TIMEOUT_MS,
+      env: { CI: "1", FORCE_COLOR: "0", NO_COLOR: "1" },
+    });
+    const durationMs = Date.now() - startedAt;
+    const output = `${result.stdout}${result.stderr ? `\n${result.stderr}` : ""}`;
+    const report =
+      result.termination === "exit"
+        ? await readReport(framework, command.reportFile, output)
+        : null;
+    const failures = (report?.failures ?? []).map((failure) => {
+      const file = relativeFile(workspaceDir, failure.file);
+      return { ...failure, ...(file ? { file } : {}) };
+    });
+    const counts = report?.counts ?? { total: 0, passed: 0, failed: 0, skipped: 0 };
+    // A clean report with a failing exit code (e.g. no tests matched) is still not green.
+    const status: TestRunStatus = !report
+      ? "error"
+      : counts.failed > 0 || failures.length > 0
+        ? "failed"
+        : result.code === 0
+          ? "passed"
+          : "error";
+    return {
+      framework,
+      command: command.argv.join(" "),
+      status,
+      exitCode: result.code,
+      durationMs: report?.durationMs ?? durationMs,
+      counts,
+      failures: failures.slice(0, MAX_FAILURES),
+      ...(failures.length > MAX_FAILURES
+        ? { omittedFailures: failures.length - MAX_FAILURES }
+        : {}),
+      ...(status === "error"
+        ? {
+            outputTail:
+              (result.termination === "exit" ? "" : `[${result.termination}] `) +
+              output.trim().slice(-OUTPUT_TAIL_CHARS),
+          }
+        : {}),
+    };
+  } finally {
+    await fs.rm(reportDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
+
+/** One-line summary, e.g. "vitest: 2 failed, 40 passed, 1 skipped (3.2s)". */
+export function formatTestRunSummary(result: TestRunResult): string {
+  const seconds = `${(result.durationMs / 1000).toFixed(1)}s`;
+  if (result.status === "error") {
+    return `${result.framework}: run failed with exit code ${String(result.exitCode)} (${seconds})`;
+  }
+  const { passed, failed, skipped } = result.counts;
+  const parts = [
+    ...(failed > 0 ? [`${failed} failed`] : []),
+    `${passed} passed`,
+    ...(skipped > 0 ? [`${skipped} skipped`] : []),
+  ];
+  return `${result.framework}: ${parts.join(", ")} (${seconds})`;
+}
+
+/** Summary plus one line per failure, for prompts and step outputs. */
+export function formatTestRunReport(result: TestRunResult): string {
+  const lines = [formatTestRunSummary(result)];
+  for (const failure of result.failures) {
+    const where = failure.file ? ` (${failure.file}${failure.line ? `:${failure.line}` : ""})` : "";
+    lines.push(`- ${failure.name}${where}: ${failure.message.split("\n")[0]}`);
+  }
+  if (result.omittedFailures) {
+    lines.push(`- … ${result.omittedFailures} more`);
+  }
+  if (result.outputTail) {
+    lines.push("", result.outputTail.slice(-1_000));
+  }
+  return lines.join("\n");
+}
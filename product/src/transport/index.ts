@@ -7,3 +7,4 @@ export * from "./task-engine.js";
 export * from "./local-adapter.js";
 export * from "./builderforce-adapter.js";
 export * from "./runtime.js";
+export * from "./sqlite-task-storage.js";
@@ -0,0 +1,68 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { LocalTransportAdapter } from "./local-adapter.js";
+import { SqliteTaskStorage } from "./sqlite-task-storage.js";
+import { globalTaskEngine, MemoryTaskStorage } from "./task-engine.js";
+
+const spawnSubagentDirect = vi.hoisted(() => vi.fn());
+vi.mock("../agents/subagent-spawn.js", () => ({ spawnSubagentDirect }));
+vi.mock("../infra/local-result-broker.js", () => ({
+  awaitLocalSubagentResult: vi.fn(async () => "resumed output"),
+}));
+
+const dirs: string[] = [];
+
+afterEach(async () => {
+  globalTaskEngine.useStorage(new MemoryTaskStorage());
+  spawnSubagentDirect.mockReset();
+  await Promise.all(dirs.splice(0).map((dir) => fs.rm(dir, { recursive: true, force: true })));
+});
+
+describe("LocalTransportAdapter", () => {
+  it("runs tasks re-queued after a restart", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "local-adapter-"));
+    dirs.push(dir);
+    const filePath = path.join(dir, "tasks.sqlite");
+
+    // First process: the task is running when the gateway stops.
+    const before = new SqliteTaskStorage({ filePath });
+    globalTaskEngine.useStorage(before);
+    const task = await globalTaskEngine.createTask({
+      description: "Refactor",
+      input: "Split the module",
+      agentId: "code-creator",
+    });
+    await globalTaskEngine.updateTaskStatus(task.id, "planning");
+    await globalTaskEngine.updateTaskStatus(task.id, "running");
+    before.close();
+
+    // Restart: reopen the store, re-queue and resume.
+    const after = new SqliteTaskStorage({ filePath });
+    globalTaskEngine.useStorage(after);
+    try {
+      const recovered = await globalTaskEngine.recoverOrphanedTasks("requeue");
+      expect(recovered.map((entry) => entry.id)).toEqual([task.id]);
+      spawnSubagentDirect.mockResolvedValue({
+        status: "accepted",
+        runId: "run-1",
+        childSessionKey: "agent:code-creator:subagent:1",
+      });
+
+      await expect(new LocalTransportAdapter({}).resumePendingTasks()).resolves.toBe(1);
+      await vi.waitFor(async () => {
+        expect(await globalTaskEngine.getTask(task.id)).toMatchObject({
+          status: "completed",
+          output: "resumed output",
+        });
+      });
+      expect(spawnSubagentDirect).toHaveBeenCalledWith(
+        expect.objectContaining({ task: "Split the module", agentId: "code-creator" }),
+        {},
+      );
+    } finally {
+      after.close();
+    }
+  });
+});
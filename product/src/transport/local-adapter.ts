@@ -45,6 +45,34 @@ export class LocalTransportAdapter implements TransportAdapter {
     return task;
   }
 
+  /**
+   * Execute tasks left pending, e.g. re-queued by restart recovery.
+   * Returns the number of tasks started.
+   */
+  async resumePendingTasks(): Promise<number> {
+    let started = 0;
+    for (const task of await globalTaskEngine.listTasks({ status: "pending" })) {
+      if (task.input === undefined) {
+        continue;
+      }
+      const request: TaskSubmitRequest = {
+        agentId: task.agentId,
+        description: task.description,
+        input: task.input,
+        model: task.model,
+        thinking: task.thinking,
+        sessionId: task.sessionId,
+        parentTaskId: task.parentTaskId,
+        metadata: task.metadata,
+      };
+      this.executeTask(task, request).catch((error) => {
+        void globalTaskEngine.setTaskError(task.id, error.message || String(error));
+      });
+      started++;
+    }
+    return started;
+  }
+
   /**
    * Execute a task locally
    */
@@ -0,0 +1,154 @@
+/**
+ * Tests for SQLite task storage
+ */
+
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { SqliteTaskStorage } from "./sqlite-task-storage.js";
+import { DistributedTaskEngine } from "./task-engine.js";
+
+const dirs: string[] = [];
+const stores: SqliteTaskStorage[] = [];
+
+async function openStore(
+  filePath?: string,
+): Promise<{ filePath: string; storage: SqliteTaskStorage }> {
+  let resolved = filePath;
+  if (!resolved) {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "task-store-"));
+    dirs.push(dir);
+    resolved = path.join(dir, "tasks.sqlite");
+  }
+  const storage = new SqliteTaskStorage({ filePath: resolved });
+  stores.push(storage);
+  return { filePath: resolved, storage };
+}
+
+afterEach(async () => {
+  for (const store of stores.splice(0)) {
+    store.close();
+  }
+  await Promise.all(dirs.splice(0).map((dir) => fs.rm(dir, { recursive: true, force: true })));
+});
+
+describe("SqliteTaskStorage", () => {
+  it("keeps tasks and their event history across restarts", async () => {
+    const { filePath, storage } = await openStore();
+    const engine = new DistributedTaskEngine(storage);
+    const task = await engine.createTask({
+      description: "Refactor",
+      input: "Split the module",
+      agentId: "code-creator",
+      sessionId: "s1",
+      metadata: { ticket: 42 },
+    });
+    await engine.updateTaskStatus(task.id, "planning");
+    await engine.updateTaskProgress(task.id, 40);
+    storage.close();
+    stores.splice(stores.indexOf(storage), 1);
+
+    const reopened = new DistributedTaskEngine((await openStore(filePath)).storage);
+    const loaded = await reopened.getTask(task.id);
+    expect(loaded).toMatchObject({
+      status: "planning",
+      input: "Split the module",
+      agentId: "code-creator",
+      progress: 40,
+      metadata: { ticket: 42 },
+    });
+    expect(loaded?.createdAt).toEqual(task.createdAt);
+    expect(loaded?.startedAt).toBeInstanceOf(Date);
+    const events = await reopened.getTaskEvents(task.id);
+    expect(events.map((e) => e.event)).toEqual(["created", "status_changed", "progress_updated"]);
+    expect(events[2]?.data).toEqual({ progress: 40 });
+  });
+
+  it("filters by status, agent, session and parent task", async () => {
+    const { storage } = await openStore();
+    const engine = new DistributedTaskEngine(storage);
+    const parent = await engine.createTask({ description: "P", input: "p", agentId: "a" });
+    await engine.createTask({
+      description: "C1",
+      input: "c",
+      agentId: "b",
+      sessionId: "s1",
+      parentTaskId: parent.id,
+    });
+    const c2 = await engine.createTask({
+      description: "C2",
+      input: "c",
+      agentId: "a",
+      sessionId: "s1",
+      parentTaskId: parent.id,
+    });
+    await engine.cancelTask(c2.id);
+
+    expect((await engine.listTasks({ parentTaskId: parent.id })).map((t) => t.description)).toEqual(
+      ["C1", "C2"],
+    );
+    expect((await engine.listTasks({ agentId: "a" })).map((t) => t.description)).toEqual([
+      "P",
+      "C2",
+    ]);
+    expect(
+      (await engine.listTasks({ sessionId: "s1", status: "pending" })).map((t) => t.description),
+    ).toEqual(["C1"]);
+    expect(await engine.listTasks({ limit: 1 })).toHaveLength(1);
+  });
+
+  it("prunes finished tasks past retention with their events", async () => {
+    const { storage } = await openStore();
+    const engine = new DistributedTaskEngine(storage);
+    const done = await engine.createTask({ description: "Done", input: "x" });
+    await engine.cancelTask(done.id);
+    const open = await engine.createTask({ description: "Open", input: "y" });
+
+    expect(await storage.prune(new Date(Date.now() - 60_000))).toBe(0);
+    expect(await storage.prune(new Date(Date.now() + 1_000))).toBe(1);
+    expect(await engine.getTask(done.id)).toBeNull();
+    expect(await engine.getTaskEvents(done.id)).toEqual([]);
+    expect((await engine.getTask(open.id))?.status).toBe("pending");
+  });
+});
+
+describe("DistributedTaskEngine restart recovery", () => {
+  async function seedInterrupted() {
+    const { storage } = await openStore();
+    const engine = new DistributedTaskEngine(storage);
+    const running = await engine.createTask({ description: "Running", input: "r" });
+    await engine.updateTaskStatus(running.id, "planning");
+    await engine.updateTaskStatus(running.id, "running");
+    const done = await engine.createTask({ description: "Done", input: "d" });
+    await engine.cancelTask(done.id);
+    return { engine, running, done };
+  }
+
+  it("fails orphaned running tasks by default", async () => {
+    const { engine, running, done } = await seedInterrupted();
+
+    const recovered = await engine.recoverOrphanedTasks();
+    expect(recovered.map((t) => t.id)).toEqual([running.id]);
+    const task = await engine.getTask(running.id);
+    expect(task?.status).toBe("failed");
+    expect(task?.error).toBe("Interrupted by a restart");
+    expect(task?.completedAt).toBeInstanceOf(Date);
+    expect((await engine.getTask(done.id))?.status).toBe("cancelled");
+    const events = await engine.getTaskEvents(running.id);
+    expect(events.at(-1)).toMatchObject({ oldStatus: "running", newStatus: "failed" });
+  });
+
+  it("re-queues orphaned tasks when asked to", async () => {
+    const { engine, running } = await seedInterrupted();
+
+    await engine.recoverOrphanedTasks("requeue");
+    const task = await engine.getTask(running.id);
+    expect(task?.status).toBe("pending");
+    expect(task?.startedAt).toBeUndefined();
+    expect(task?.input).toBe("r");
+    // A re-queued task runs through the normal lifecycle again.
+    await engine.updateTaskStatus(running.id, "planning");
+    expect((await engine.getTask(running.id))?.status).toBe("planning");
+  });
+});
@@ -0,0 +1,325 @@
+/**
+ * SQLite task storage
+ * Durable TaskStorage so tasks and their event history survive restarts
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import type { DatabaseSync, SQLInputValue } from "node:sqlite";
+import { resolveStateDir } from "../config/paths.js";
+import { requireNodeSqlite } from "../memory/sqlite.js";
+import type { TaskEvent, TaskStorage } from "./task-engine.js";
+import type { TaskListFilter, TaskState, TaskStatus } from "./types.js";
+
+type TaskRow = {
+  id: string;
+  status: string;
+  agent_id: string | null;
+  session_id: string | null;
+  parent_task_id: string | null;
+  description: string;
+  input: string | null;
+  model: string | null;
+  thinking: string | null;
+  created_at: number;
+  started_at: number | null;
+  completed_at: number | null;
+  output: string | null;
+  error: string | null;
+  progress: number | null;
+  metadata: string | null;
+};
+
+type EventRow = {
+  task_id: string;
+  timestamp: number;
+  event: string;
+  old_status: string | null;
+  new_status: string | null;
+  message: string | null;
+  data: string | null;
+};
+
+/**
+ * Default database location under the state dir
+ */
+export function resolveTaskStorePath(baseDir?: string): string {
+  return path.join(baseDir ?? resolveStateDir(), "tasks", "tasks.sqlite");
+}
+
+function ensureTaskStoreSchema(db: DatabaseSync): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS tasks (
+      id TEXT PRIMARY KEY,
+      status TEXT NOT NULL,
+      agent_id TEXT,
+      session_id TEXT,
+      parent_task_id TEXT,
+      description TEXT NOT NULL,
+      input TEXT,
+      model TEXT,
+      thinking TEXT,
+      created_at INTEGER NOT NULL,
+      started_at INTEGER,
+      completed_at INTEGER,
+      output TEXT,
+      error TEXT,
+      progress REAL,
+      metadata TEXT
+    );
+  `);
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS task_events (
+      seq INTEGER PRIMARY KEY AUTOINCREMENT,
+      task_id TEXT NOT NULL,
+      timestamp INTEGER NOT NULL,
+      event TEXT NOT NULL,
+      old_status TEXT,
+      new_status TEXT,
+      message TEXT,
+      data TEXT
+    );
+  `);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_tasks_status ON tasks(status);`);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_tasks_agent ON tasks(agent_id);`);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_tasks_session ON tasks(session_id);`);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_tasks_parent ON tasks(parent_task_id);`);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_tasks_completed_at ON tasks(completed_at);`);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_task_events_task ON task_events(task_id);`);
+}
+
+function toMillis(date: Date | undefined): number | null {
+  return date ? date.getTime() : null;
+}
+
+function parseJson<T>(value: string | null): T | undefined {
+  if (value === null) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+function rowToTask(row: TaskRow): TaskState {
+  const task: TaskState = {
+    id: row.id,
+    status: row.status as TaskStatus,
+    description: row.description,
+    createdAt: new Date(row.created_at),
+  };
+  if (row.agent_id !== null) {
+    task.agentId = row.agent_id;
+  }
+  if (row.session_id !== null) {
+    task.sessionId = row.session_id;
+  }
+  if (row.parent_task_id !== null) {
+    task.parentTaskId = row.parent_task_id;
+  }
+  if (row.input !== null) {
+    task.input = row.input;
+  }
+  if (row.model !== null) {
+    task.model = row.model;
+  }
+  if (row.thinking !== null) {
+    task.thinking = row.thinking;
+  }
+  if (row.started_at !== null) {
+    task.startedAt = new Date(row.started_at);
+  }
+  if (row.completed_at !== null) {
+    task.completedAt = new Date(row.completed_at);
+  }
+  if (row.output !== null) {
+    task.output = row.output;
+  }
+  if (row.error !== null) {
+    task.error = row.error;
+  }
+  if (row.progress !== null) {
+    task.progress = row.progress;
+  }
+  const metadata = parseJson<Record<string, unknown>>(row.metadata);
+  if (metadata) {
+    task.metadata = metadata;
+  }
+  return task;
+}
+
+function rowToEvent(row: EventRow): TaskEvent {
+  const event: TaskEvent = {
+    taskId: row.task_id,
+    timestamp: new Date(row.timestamp),
+    event: row.event as TaskEvent["event"],
+  };
+  if (row.old_status !== null) {
+    event.oldStatus = row.old_status as TaskStatus;
+  }
+  if (row.new_status !== null) {
+    event.newStatus = row.new_status as TaskStatus;
+  }
+  if (row.message !== null) {
+    event.message = row.message;
+  }
+  const data = parseJson<unknown>(row.data);
+  if (data !== undefined) {
+    event.data = data;
+  }
+  return event;
+}
+
+/**
+ * SQLite-backed task storage, using the same node:sqlite builtin as the memory index
+ */
+export class SqliteTaskStorage implements TaskStorage {
+  private db: DatabaseSync;
+
+  constructor(opts: { filePath?: string } = {}) {
+    const filePath = opts.filePath ?? resolveTaskStorePath();
+    if (filePath !== ":memory:") {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    }
+    const { DatabaseSync } = requireNodeSqlite();
+    this.db = new DatabaseSync(filePath);
+    this.db.exec("PRAGMA journal_mode = WAL;");
+    ensureTaskStoreSchema(this.db);
+  }
+
+  async save(task: TaskState): Promise<void> {
+    this.db
+      .prepare(
+        // Upsert (rather than REPLACE) keeps the rowid, which orders tasks created in the same ms.
+        `INSERT INTO tasks (
+          id, status, agent_id, session_id, parent_task_id, description, input, model, thinking,
+          created_at, started_at, completed_at, output, error, progress, metadata
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET
+          status = excluded.status, agent_id = excluded.agent_id,
+          session_id = excluded.session_id, parent_task_id = excluded.parent_task_id,
+          description = excluded.description, input = excluded.input, model = excluded.model,
+          thinking = excluded.thinking, created_at = excluded.created_at,
+          started_at = excluded.started_at, completed_at = excluded.completed_at,
+          output = excluded.output, error = excluded.error, progress = excluded.progress,
+          metadata = excluded.metadata`,
+      )
+      .run(
+        task.id,
+        task.status,
+        task.agentId ?? null,
+        task.sessionId ?? null,
+        task.parentTaskId ?? null,
+        task.description,
+        task.input ?? null,
+        task.model ?? null,
+        task.thinking ?? null,
+        task.createdAt.getTime(),
+        toMillis(task.startedAt),
+        toMillis(task.completedAt),
+        task.output ?? null,
+        task.error ?? null,
+        task.progress ?? null,
+        task.metadata ? JSON.stringify(task.metadata) : null,
+      );
+  }
+
+  async load(taskId: string): Promise<TaskState | null> {
+    const row = this.db.prepare(`SELECT * FROM tasks WHERE id = ?`).get(taskId) as
+      | TaskRow
+      | undefined;
+    return row ? rowToTask(row) : null;
+  }
+
+  async list(filter?: TaskListFilter): Promise<TaskState[]> {
+    const where: string[] = [];
+    const params: SQLInputValue[] = [];
+    if (filter?.status) {
+      where.push("status = ?");
+      params.push(filter.status);
+    }
+    if (filter?.agentId) {
+      where.push("agent_id = ?");
+      params.push(filter.agentId);
+    }
+    if (filter?.sessionId) {
+      where.push("session_id = ?");
+      params.push(filter.sessionId);
+    }
+    if (filter?.parentTaskId) {
+      where.push("parent_task_id = ?");
+      params.push(filter.parentTaskId);
+    }
+    let sql = `SELECT * FROM tasks`;
+    if (where.length > 0) {
+      sql += ` WHERE ${where.join(" AND ")}`;
+    }
+    sql += ` ORDER BY created_at ASC, rowid ASC`;
+    if (filter?.limit !== undefined) {
+      sql += ` LIMIT ?`;
+      params.push(filter.limit);
+    }
+    const rows = this.db.prepare(sql).all(...params) as TaskRow[];
+    return rows.map(rowToTask);
+  }
+
+  async delete(taskId: string): Promise<void> {
+    this.db.prepare(`DELETE FROM task_events WHERE task_id = ?`).run(taskId);
+    this.db.prepare(`DELETE FROM tasks WHERE id = ?`).run(taskId);
+  }
+
+  async saveEvent(event: TaskEvent): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO task_events (task_id, timestamp, event, old_status, new_status, message, data)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      )
+      .run(
+        event.taskId,
+        event.timestamp.getTime(),
+        event.event,
+        event.oldStatus ?? null,
+        event.newStatus ?? null,
+        event.message ?? null,
+        event.data === undefined ? null : JSON.stringify(event.data),
+      );
+  }
+
+  async getEvents(taskId: string): Promise<TaskEvent[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT task_id, timestamp, event, old_status, new_status, message, data
+         FROM task_events WHERE task_id = ? ORDER BY seq ASC`,
+      )
+      .all(taskId) as EventRow[];
+    return rows.map(rowToEvent);
+  }
+
+  async prune(before: Date): Promise<number> {
+    const cutoff = before.getTime();
+    const terminal = `status IN ('completed', 'failed', 'cancelled') AND completed_at < ?`;
+    this.db.exec("BEGIN");
+    try {
+      this.db
+        .prepare(
+          `DELETE FROM task_events WHERE task_id IN (SELECT id FROM tasks WHERE ${terminal})`,
+        )
+        .run(cutoff);
+      const result = this.db.prepare(`DELETE FROM tasks WHERE ${terminal}`).run(cutoff);
+      this.db.exec("COMMIT");
+      return Number(result.changes);
+    } catch (err) {
+      this.db.exec("ROLLBACK");
+      throw err;
+    }
+  }
+
+  /**
+   * Close the database handle
+   */
+  close(): void {
+    this.db.close();
+  }
+}
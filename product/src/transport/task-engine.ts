@@ -4,7 +4,14 @@
  */
 
 import crypto from "node:crypto";
-import type { TaskState, TaskStatus, TaskSubmitRequest, TaskUpdateEvent } from "./types.js";
+import type {
+  TaskListFilter,
+  TaskRecoveryPolicy,
+  TaskState,
+  TaskStatus,
+  TaskSubmitRequest,
+  TaskUpdateEvent,
+} from "./types.js";
 
 /**
  * Task transition rules based on state machine
@@ -39,16 +46,34 @@ export type TaskEvent = {
   data?: unknown;
 };
 
+/**
+ * Statuses of a task that was being worked on. After a restart nothing is
+ * executing them any more, so recovery treats them as orphaned.
+ */
+const IN_FLIGHT_STATUSES: TaskStatus[] = ["planning", "running", "waiting"];
+
+/**
+ * Whether a task has reached a final state
+ */
+export function isTerminalTaskStatus(status: TaskStatus): boolean {
+  return status === "completed" || status === "failed" || status === "cancelled";
+}
+
 /**
  * Task storage interface for persistence
  */
 export interface TaskStorage {
   save(task: TaskState): Promise<void>;
   load(taskId: string): Promise<TaskState | null>;
-  list(filter?: { status?: TaskStatus; sessionId?: string }): Promise<TaskState[]>;
+  list(filter?: TaskListFilter): Promise<TaskState[]>;
   delete(taskId: string): Promise<void>;
   saveEvent(event: TaskEvent): Promise<void>;
   getEvents(taskId: string): Promise<TaskEvent[]>;
+  /**
+   * Delete finished tasks (and their events) completed before `before`.
+   * Returns the number of tasks removed.
+   */
+  prune(before: Date): Promise<number>;
 }
 
 /**
@@ -67,7 +92,7 @@ export class MemoryTaskStorage implements TaskStorage {
     return task ? { ...task } : null;
   }
 
-  async list(filter?: { status?: TaskStatus; sessionId?: string }): Promise<TaskState[]> {
+  async list(filter?: TaskListFilter): Promise<TaskState[]> {
     let tasks = Array.from(this.tasks.values());
 
     if (filter?.status) {
@@ -78,6 +103,18 @@ export class MemoryTaskStorage implements TaskStorage {
       tasks = tasks.filter((t) => t.sessionId === filter.sessionId);
     }
 
+    if (filter?.agentId) {
+      tasks = tasks.filter((t) => t.agentId === filter.agentId);
+    }
+
+    if (filter?.parentTaskId) {
+      tasks = tasks.filter((t) => t.parentTaskId === filter.parentTaskId);
+    }
+
+    if (filter?.limit !== undefined) {
+      tasks = tasks.slice(0, filter.limit);
+    }
+
     return tasks.map((t) => ({ ...t }));
   }
 
@@ -95,6 +132,17 @@ export class MemoryTaskStorage implements TaskStorage {
   async getEvents(taskId: string): Promise<TaskEvent[]> {
     return this.events.get(taskId) || [];
   }
+
+  async prune(before: Date): Promise<number> {
+    let removed = 0;
+    for (const task of this.tasks.values()) {
+      if (isTerminalTaskStatus(task.status) && task.completedAt && task.completedAt < before) {
+        await this.delete(task.id);
+        removed++;
+      }
+    }
+    return removed;
+  }
 }
 
 /**
@@ -108,6 +156,14 @@ export class DistributedTaskEngine {
     this.storage = storage || new MemoryTaskStorage();
   }
 
+  /**
+   * Swap the storage backend (e.g. to a durable store at gateway startup).
+   * Tasks held by the previous storage are not migrated.
+   */
+  useStorage(storage: TaskStorage): void {
+    this.storage = storage;
+  }
+
   /**
    * Create a new task with globally unique ID
    */
@@ -117,6 +173,9 @@ export class DistributedTaskEngine {
       status: "pending",
       agentId: request.agentId,
       description: request.description,
+      input: request.input,
+      model: request.model,
+      thinking: request.thinking,
       sessionId: request.sessionId,
       parentTaskId: request.parentTaskId,
       createdAt: new Date(),
@@ -275,10 +334,54 @@ export class DistributedTaskEngine {
   /**
    * List tasks with optional filter
    */
-  async listTasks(filter?: { status?: TaskStatus; sessionId?: string }): Promise<TaskState[]> {
+  async listTasks(filter?: TaskListFilter): Promise<TaskState[]> {
     return this.storage.list(filter);
   }
 
+  /**
+   * Settle tasks left in flight by a previous process. `fail` marks them
+   * failed; `requeue` puts them back to pending so they can be executed again.
+   * Returns the recovered tasks.
+   */
+  async recoverOrphanedTasks(policy: TaskRecoveryPolicy = "fail"): Promise<TaskState[]> {
+    const recovered: TaskState[] = [];
+    for (const status of IN_FLIGHT_STATUSES) {
+      for (const task of await this.storage.list({ status })) {
+        const oldStatus = task.status;
+        if (policy === "requeue") {
+          task.status = "pending";
+          task.startedAt = undefined;
+          task.progress = undefined;
+        } else {
+          task.status = "failed";
+          task.error = "Interrupted by a restart";
+          task.completedAt = new Date();
+        }
+        await this.storage.save(task);
+        await this.recordEvent({
+          taskId: task.id,
+          timestamp: new Date(),
+          event: "status_changed",
+          oldStatus,
+          newStatus: task.status,
+          message:
+            policy === "requeue"
+              ? `Re-queued after restart (was ${oldStatus})`
+              : `Failed after restart (was ${oldStatus})`,
+        });
+        recovered.push(task);
+      }
+    }
+    return recovered;
+  }
+
+  /**
+   * Delete finished tasks completed more than `maxAgeMs` ago
+   */
+  async pruneTasks(maxAgeMs: number): Promise<number> {
+    return this.storage.prune(new Date(Date.now() - maxAgeMs));
+  }
+
   /**
    * Get task event history
    */
@@ -295,7 +398,7 @@ export class DistributedTaskEngine {
       return false;
     }
 
-    if (task.status === "completed" || task.status === "failed" || task.status === "cancelled") {
+    if (isTerminalTaskStatus(task.status)) {
       return false; // Already in terminal state
     }
 
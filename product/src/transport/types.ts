@@ -37,6 +37,10 @@ export type TaskState = {
   status: TaskStatus;
   agentId?: string;
   description: string;
+  /** Original request input, kept so a re-queued task can be executed again. */
+  input?: string;
+  model?: string;
+  thinking?: string;
   sessionId?: string;
   parentTaskId?: string;
   createdAt: Date;
@@ -48,6 +52,24 @@ export type TaskState = {
   metadata?: Record<string, unknown>;
 };
 
+/**
+ * Task list filter; all given fields must match
+ */
+export type TaskListFilter = {
+  status?: TaskStatus;
+  agentId?: string;
+  sessionId?: string;
+  parentTaskId?: string;
+  /** Maximum number of tasks to return */
+  limit?: number;
+};
+
+/**
+ * What to do with tasks found in flight after a restart: `fail` marks them
+ * failed, `requeue` returns them to pending
+ */
+export type TaskRecoveryPolicy = "fail" | "requeue";
+
 /**
  * Task update event
  */
@@ -162,11 +162,11 @@ export function getSlashCommands(options: SlashCommandOptions = {}): SlashComman
     },
     {
       name: "accept",
-      description: "Apply staged changes to disk. /accept [file] or /accept all",
+      description: "Apply staged changes to disk. /accept [file[:hunk]] or /accept all",
     },
     {
       name: "reject",
-      description: "Discard staged changes. /reject [file] or /reject all",
+      description: "Discard staged changes. /reject [file[:hunk]] or /reject all",
     },
   ];
 
@@ -207,6 +207,9 @@ export function helpText(options: SlashCommandOptions = {}): string {
     "/new or /reset",
     "/abort",
     "/compact [instructions]",
+    "/checkpoints",
+    "/undo",
+    "/rewind <turn>",
     "/settings",
     "/restart (restart gateway; works when disconnected)",
     "/gateway <status|start|stop|restart|token <value>>",
@@ -219,8 +222,10 @@ export function helpText(options: SlashCommandOptions = {}): string {
     "/spec <goal>",
     "/workflow [id]",
     "/diff [file]",
-    "/accept [file|all]",
-    "/reject [file|all]",
+    "/accept [file[:hunk]|all]",
+    "/reject [file[:hunk]|all]",
+    "/approve [id]",
+    "/deny <id>",
     "/exit",
     "/localbrain <on|off|refresh>",
     "/setup or /onboard",
@@ -8,6 +8,7 @@ import {
 import { GatewayClient } from "../gateway/client.js";
 import { GATEWAY_CLIENT_CAPS } from "../gateway/protocol/client-info.js";
 import {
+  type ApprovalRecord,
   type HelloOk,
   PROTOCOL_VERSION,
   type SessionsListParams,
@@ -224,6 +225,18 @@ export class GatewayChatClient {
     return Array.isArray(res?.models) ? res.models : [];
   }
 
+  async listApprovals(): Promise<ApprovalRecord[]> {
+    const res = await this.client.request<{ approvals?: ApprovalRecord[] }>("approval.list", {});
+    return Array.isArray(res?.approvals) ? res.approvals : [];
+  }
+
+  async resolveApproval(id: string, decision: "approved" | "rejected") {
+    return await this.client.request<{ approval: ApprovalRecord }>("approval.resolve", {
+      id,
+      decision,
+    });
+  }
+
   async fetchLogs(opts?: { limit?: number }): Promise<{ lines: string[]; file?: string }> {
     const res = await this.client.request<{ lines?: string[]; file?: string }>("logs.tail", {
       limit: opts?.limit ?? 50,
@@ -14,11 +14,16 @@ import {
   loadWorkspaceState,
   saveSessionHandoff,
 } from "../coderclaw/project-context.js";
+import { formatRuleFindings, hasBlockingFindings } from "../coderclaw/rules-engine.js";
 import {
   buildStagedSummary,
   buildUnifiedDiff,
   acceptEdit,
   acceptAllEdits,
+  buildConflictSummary,
+  checkStagedEdits,
+  loadStagedEdits,
+  parseStagedTarget,
   rejectEdit,
   rejectAllEdits,
   getStagedEdit,
@@ -1053,6 +1058,7 @@ export function createCommandHandlers(context: CommandHandlerContext) {
       }
       case "diff": {
         const target = args.trim();
+        await loadStagedEdits(process.cwd());
         if (!hasStagedEdits()) {
           chatLog.addSystem(
             "No staged changes. Agent edits are applied immediately by default.\nRun CODERCLAW_STAGED=true or set staged mode to buffer edits for review.",
@@ -1078,12 +1084,30 @@ export function createCommandHandlers(context: CommandHandlerContext) {
         break;
       }
       case "accept": {
-        const target = args.trim().toLowerCase();
+        const target = args.trim();
+        const projectRoot = process.cwd();
+        await loadStagedEdits(projectRoot);
         if (!hasStagedEdits()) {
           chatLog.addSystem("No staged changes to accept.");
           break;
         }
-        if (!target || target === "all") {
+        const acceptAll = !target || target.toLowerCase() === "all";
+        const { filePath, hunks } = parseStagedTarget(target);
+        if (!acceptAll && !getStagedEdit(filePath)) {
+          chatLog.addSystem(`No staged edit found for: ${filePath}\n\n${buildStagedSummary()}`);
+          break;
+        }
+        const findings = await checkStagedEdits(projectRoot, acceptAll ? undefined : [filePath]);
+        const findingsText = findings.length
+          ? `Project rules:\n${formatRuleFindings(findings, projectRoot)}`
+          : "";
+        if (hasBlockingFindings(findings)) {
+          chatLog.addSystem(
+            `⛔ Not applied: staged changes break rules marked as errors in rules.yaml.\n\n${findingsText}`,
+          );
+          break;
+        }
+        if (acceptAll) {
           const { accepted, failed } = await acceptAllEdits();
           const lines: string[] = [];
           if (accepted.length > 0) {
@@ -1094,38 +1118,106 @@ export function createCommandHandlers(context: CommandHandlerContext) {
           if (failed.length > 0) {
             lines.push(
               `❌ Failed:\n${failed.map((f) => `  ${f.filePath}: ${f.error}`).join("\n")}`,
+              ...failed.flatMap((f) =>
+                f.conflicts ? [buildConflictSummary(f.filePath, f.conflicts)] : [],
+              ),
             );
           }
+          if (findingsText) {
+            lines.push(findingsText);
+          }
           chatLog.addSystem(lines.join("\n\n") || "Done.");
         } else {
-          const result = await acceptEdit(target);
+          const result = await acceptEdit(filePath, { hunks });
           if (result.accepted) {
-            chatLog.addSystem(`✅ Applied: ${result.filePath}`);
+            const remaining = result.remainingHunks
+              ? ` (${result.remainingHunks} hunk(s) still staged)`
+              : "";
+            chatLog.addSystem(
+              [`✅ Applied: ${result.filePath}${remaining}`, findingsText]
+                .filter(Boolean)
+                .join("\n\n"),
+            );
           } else {
-            chatLog.addSystem(`❌ Failed: ${result.error ?? "unknown error"}`);
+            chatLog.addSystem(
+              [
+                `❌ Failed: ${result.error ?? "unknown error"}`,
+                result.conflicts ? buildConflictSummary(result.filePath, result.conflicts) : "",
+              ]
+                .filter(Boolean)
+                .join("\n\n"),
+            );
           }
         }
         break;
       }
       case "reject": {
-        const target = args.trim().toLowerCase();
+        const target = args.trim();
+        await loadStagedEdits(process.cwd());
         if (!hasStagedEdits()) {
           chatLog.addSystem("No staged changes to reject.");
           break;
         }
-        if (!target || target === "all") {
-          const { rejected } = rejectAllEdits();
+        if (!target || target.toLowerCase() === "all") {
+          const { rejected } = await rejectAllEdits();
           chatLog.addSystem(`🗑️ Discarded ${rejected.length} staged change(s).`);
         } else {
-          const result = rejectEdit(target);
+          const { filePath, hunks } = parseStagedTarget(target);
+          const result = await rejectEdit(filePath, { hunks });
           if (result.rejected) {
-            chatLog.addSystem(`🗑️ Discarded staged edit for: ${result.filePath}`);
+            chatLog.addSystem(
+              result.remainingHunks
+                ? `🗑️ Discarded hunk(s) ${hunks?.join(", ")} of ${result.filePath} (${result.remainingHunks} still staged)`
+                : `🗑️ Discarded staged edit for: ${result.filePath}`,
+            );
+          } else if (getStagedEdit(filePath)) {
+            chatLog.addSystem(`❌ ${result.error ?? "unknown error"}`);
           } else {
-            chatLog.addSystem(`No staged edit found for: ${target}\n\n${buildStagedSummary()}`);
+            chatLog.addSystem(`No staged edit found for: ${filePath}\n\n${buildStagedSummary()}`);
           }
         }
         break;
       }
+      case "approve":
+      case "deny": {
+        // `/approve <id> <decision>` is an exec approval; let the gateway command handle it.
+        const tokens = args.trim().split(/\s+/).filter(Boolean);
+        if (name === "approve" && tokens.length > 1) {
+          await sendMessage(raw);
+          break;
+        }
+        if (!state.isConnected) {
+          chatLog.addSystem("Gateway is disconnected. Reconnect to decide approvals.");
+          break;
+        }
+        try {
+          if (tokens.length === 0) {
+            const pending = await client.listApprovals();
+            chatLog.addSystem(
+              pending.length === 0
+                ? "No pending approvals."
+                : [
+                    "Pending approvals:",
+                    ...pending.map(
+                      (approval) =>
+                        `- ${approval.id} (${approval.actionType}): ${approval.description.split("\n")[0]}`,
+                    ),
+                    "",
+                    "Reply with: /approve <id> or /deny <id>",
+                  ].join("\n"),
+            );
+            break;
+          }
+          const decision = name === "approve" ? "approved" : "rejected";
+          await client.resolveApproval(tokens[0], decision);
+          chatLog.addSystem(
+            decision === "approved" ? `✅ Approved ${tokens[0]}.` : `❌ Denied ${tokens[0]}.`,
+          );
+        } catch (err) {
+          chatLog.addSystem(`❌ ${String(err)}`);
+        }
+        break;
+      }
       case "localbrain": {
         const action = args.trim().toLowerCase();
         const LOCALBRAIN_ACTIONS = ["on", "off", "refresh", "reset"];
@@ -1,3 +1,8 @@
+import {
+  formatApprovalRequestMessage,
+  formatApprovalResolvedMessage,
+  type LocalApprovalRecord,
+} from "../infra/local-approvals.js";
 import { normalizeAgentId, parseAgentSessionKey } from "../routing/session-key.js";
 import { asString, extractTextFromMessage, isCommandMessage } from "./tui-formatters.js";
 import { TuiStreamAssembler } from "./tui-stream-assembler.js";
@@ -905,5 +910,19 @@ export function createEventHandlers(context: EventHandlerContext) {
     }
   };
 
-  return { handleChatEvent, handleAgentEvent };
+  /** Show approval-gate requests and outcomes (`approval.requested` / `approval.resolved`). */
+  const handleApprovalEvent = (event: string, payload: unknown) => {
+    const approval = payload as Partial<LocalApprovalRecord> | undefined;
+    if (!approval || typeof approval.id !== "string") {
+      return;
+    }
+    chatLog.addSystem(
+      event === "approval.requested"
+        ? formatApprovalRequestMessage(approval as LocalApprovalRecord, Date.now())
+        : formatApprovalResolvedMessage(approval as LocalApprovalRecord),
+    );
+    tui.requestRender();
+  };
+
+  return { handleChatEvent, handleAgentEvent, handleApprovalEvent };
 }
@@ -721,7 +721,7 @@ export async function runTui(opts: TuiOptions) {
     abortActive,
   } = sessionActions;
 
-  const { handleChatEvent, handleAgentEvent } = createEventHandlers({
+  const { handleChatEvent, handleAgentEvent, handleApprovalEvent } = createEventHandlers({
     chatLog,
     tui,
     state,
@@ -874,6 +874,9 @@ export async function runTui(opts: TuiOptions) {
     if (evt.event === "agent") {
       handleAgentEvent(evt.payload);
     }
+    if (evt.event === "approval.requested" || evt.event === "approval.resolved") {
+      handleApprovalEvent(evt.event, evt.payload);
+    }
   };
 
   client.onConnected = () => {
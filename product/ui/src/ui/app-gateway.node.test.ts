@@ -79,6 +79,8 @@ function createHost() {
     refreshSessionsAfterChat: new Set<string>(),
     execApprovalQueue: [],
     execApprovalError: null,
+    approvalGateQueue: [],
+    approvalGateError: null,
   } as unknown as Parameters<typeof connectGateway>[0];
 }
 
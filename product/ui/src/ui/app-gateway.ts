@@ -9,6 +9,14 @@ import {
 import { handleAgentEvent, resetToolStream, type AgentEventPayload } from "./app-tool-stream.ts";
 import type { CoderClawApp } from "./app.ts";
 import { loadAgents } from "./controllers/agents.ts";
+import {
+  addApprovalGateRequest,
+  loadApprovalGateQueue,
+  parseApprovalGateRequested,
+  parseApprovalGateResolvedId,
+  removeApprovalGateRequest,
+  type ApprovalGateRequest,
+} from "./controllers/approval-gate.ts";
 import { loadAssistantIdentity } from "./controllers/assistant-identity.ts";
 import { loadChatHistory } from "./controllers/chat.ts";
 import { handleChatEvent, type ChatEventPayload } from "./controllers/chat.ts";
@@ -54,6 +62,8 @@ type GatewayHost = {
   refreshSessionsAfterChat: Set<string>;
   execApprovalQueue: ExecApprovalRequest[];
   execApprovalError: string | null;
+  approvalGateQueue: ApprovalGateRequest[];
+  approvalGateError: string | null;
 };
 
 type SessionDefaultsSnapshot = {
@@ -121,6 +131,8 @@ export function connectGateway(host: GatewayHost) {
   host.connected = false;
   host.execApprovalQueue = [];
   host.execApprovalError = null;
+  host.approvalGateQueue = [];
+  host.approvalGateError = null;
 
   const previousClient = host.client;
   const client = new GatewayBrowserClient({
@@ -147,6 +159,7 @@ export function connectGateway(host: GatewayHost) {
       void loadAgents(host as unknown as CoderClawApp);
       void loadNodes(host as unknown as CoderClawApp, { quiet: true });
       void loadDevices(host as unknown as CoderClawApp, { quiet: true });
+      void loadApprovalGateQueue(host);
       void refreshActiveTab(host as unknown as Parameters<typeof refreshActiveTab>[0]);
     },
     onClose: ({ code, reason }) => {
@@ -269,6 +282,27 @@ function handleGatewayEventUnsafe(host: GatewayHost, evt: GatewayEventFrame) {
     if (resolved) {
       host.execApprovalQueue = removeExecApproval(host.execApprovalQueue, resolved.id);
     }
+    return;
+  }
+
+  if (evt.event === "approval.requested") {
+    const entry = parseApprovalGateRequested(evt.payload);
+    if (entry) {
+      host.approvalGateQueue = addApprovalGateRequest(host.approvalGateQueue, entry);
+      host.approvalGateError = null;
+      const delay = Math.max(0, entry.expiresAtMs - Date.now() + 500);
+      window.setTimeout(() => {
+        host.approvalGateQueue = removeApprovalGateRequest(host.approvalGateQueue, entry.id);
+      }, delay);
+    }
+    return;
+  }
+
+  if (evt.event === "approval.resolved") {
+    const id = parseApprovalGateResolvedId(evt.payload);
+    if (id) {
+      host.approvalGateQueue = removeApprovalGateRequest(host.approvalGateQueue, id);
+    }
   }
 }
 
@@ -55,6 +55,7 @@ import {
 import { icons } from "./icons.ts";
 import { TAB_GROUPS, subtitleForTab, titleForTab } from "./navigation.ts";
 import { renderAgents } from "./views/agents.ts";
+import { renderApprovalGatePrompt } from "./views/approval-gate.ts";
 import { renderChannels } from "./views/channels.ts";
 import { renderChat } from "./views/chat.ts";
 import { renderConfig } from "./views/config.ts";
@@ -944,6 +945,7 @@ export function renderApp(state: AppViewState) {
         }
       </main>
       ${renderExecApprovalPrompt(state)}
+      ${renderApprovalGatePrompt(state)}
       ${renderGatewayUrlConfirmation(state)}
     </div>
   `;
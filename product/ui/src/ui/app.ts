@@ -51,6 +51,7 @@ import {
 } from "./app-tool-stream.ts";
 import type { AppViewState } from "./app-view-state.ts";
 import { normalizeAssistantIdentity } from "./assistant-identity.ts";
+import type { ApprovalGateRequest } from "./controllers/approval-gate.ts";
 import { loadAssistantIdentity as loadAssistantIdentityInternal } from "./controllers/assistant-identity.ts";
 import type { DevicePairingList } from "./controllers/devices.ts";
 import type { ExecApprovalRequest } from "./controllers/exec-approval.ts";
@@ -167,6 +168,9 @@ export class CoderClawApp extends LitElement {
   @state() execApprovalQueue: ExecApprovalRequest[] = [];
   @state() execApprovalBusy = false;
   @state() execApprovalError: string | null = null;
+  @state() approvalGateQueue: ApprovalGateRequest[] = [];
+  @state() approvalGateBusy = false;
+  @state() approvalGateError: string | null = null;
   @state() pendingGatewayUrl: string | null = null;
 
   @state() configLoading = false;
@@ -525,6 +529,23 @@ export class CoderClawApp extends LitElement {
     }
   }
 
+  async handleApprovalGateDecision(decision: "approved" | "rejected") {
+    const active = this.approvalGateQueue[0];
+    if (!active || !this.client || this.approvalGateBusy) {
+      return;
+    }
+    this.approvalGateBusy = true;
+    this.approvalGateError = null;
+    try {
+      await this.client.request("approval.resolve", { id: active.id, decision });
+      this.approvalGateQueue = this.approvalGateQueue.filter((entry) => entry.id !== active.id);
+    } catch (err) {
+      this.approvalGateError = `Approval failed: ${String(err)}`;
+    } finally {
+      this.approvalGateBusy = false;
+    }
+  }
+
   handleGatewayUrlConfirm() {
     const nextGatewayUrl = this.pendingGatewayUrl;
     if (!nextGatewayUrl) {
@@ -0,0 +1,94 @@
+import type { GatewayBrowserClient } from "../gateway.ts";
+
+/** A pending approval-gate checkpoint (`approval.requested` payload). */
+export type ApprovalGateRequest = {
+  id: string;
+  actionType: string;
+  description: string;
+  sessionKey: string | null;
+  createdAtMs: number;
+  expiresAtMs: number;
+};
+
+export type ApprovalGateState = {
+  client: GatewayBrowserClient | null;
+  connected: boolean;
+  approvalGateQueue: ApprovalGateRequest[];
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+export function parseApprovalGateRequested(payload: unknown): ApprovalGateRequest | null {
+  if (!isRecord(payload)) {
+    return null;
+  }
+  const id = typeof payload.id === "string" ? payload.id.trim() : "";
+  const actionType = typeof payload.actionType === "string" ? payload.actionType : "";
+  if (!id || !actionType || payload.status !== "pending") {
+    return null;
+  }
+  const createdAtMs = typeof payload.createdAtMs === "number" ? payload.createdAtMs : 0;
+  const expiresAtMs = typeof payload.expiresAtMs === "number" ? payload.expiresAtMs : 0;
+  if (!createdAtMs || !expiresAtMs) {
+    return null;
+  }
+  return {
+    id,
+    actionType,
+    description: typeof payload.description === "string" ? payload.description : "",
+    sessionKey: typeof payload.sessionKey === "string" ? payload.sessionKey : null,
+    createdAtMs,
+    expiresAtMs,
+  };
+}
+
+export function parseApprovalGateResolvedId(payload: unknown): string | null {
+  if (!isRecord(payload)) {
+    return null;
+  }
+  const id = typeof payload.id === "string" ? payload.id.trim() : "";
+  return id || null;
+}
+
+export function pruneApprovalGateQueue(queue: ApprovalGateRequest[]): ApprovalGateRequest[] {
+  const now = Date.now();
+  return queue.filter((entry) => entry.expiresAtMs > now);
+}
+
+export function addApprovalGateRequest(
+  queue: ApprovalGateRequest[],
+  entry: ApprovalGateRequest,
+): ApprovalGateRequest[] {
+  const next = pruneApprovalGateQueue(queue).filter((item) => item.id !== entry.id);
+  next.push(entry);
+  return next;
+}
+
+export function removeApprovalGateRequest(
+  queue: ApprovalGateRequest[],
+  id: string,
+): ApprovalGateRequest[] {
+  return pruneApprovalGateQueue(queue).filter((entry) => entry.id !== id);
+}
+
+/** Pick up approvals that were requested before this client connected. */
+export async function loadApprovalGateQueue(state: ApprovalGateState) {
+  if (!state.client || !state.connected) {
+    return;
+  }
+  try {
+    const res = await state.client.request<{ approvals?: unknown[] }>("approval.list", {});
+    let queue = state.approvalGateQueue;
+    for (const raw of res?.approvals ?? []) {
+      const entry = parseApprovalGateRequested(raw);
+      if (entry) {
+        queue = addApprovalGateRequest(queue, entry);
+      }
+    }
+    state.approvalGateQueue = queue;
+  } catch {
+    // Older gateways (or clients without approval scope) don't expose approval.list.
+  }
+}
@@ -0,0 +1,71 @@
+import { html, nothing } from "lit";
+import type { AppViewState } from "../app-view-state.ts";
+
+function formatRemaining(ms: number): string {
+  const totalSeconds = Math.floor(Math.max(0, ms) / 1000);
+  if (totalSeconds < 60) {
+    return `${totalSeconds}s`;
+  }
+  const minutes = Math.floor(totalSeconds / 60);
+  return minutes < 60 ? `${minutes}m` : `${Math.floor(minutes / 60)}h`;
+}
+
+export function renderApprovalGatePrompt(state: AppViewState) {
+  // Exec approvals are answered first; they block a running command.
+  const active = state.execApprovalQueue.length === 0 ? state.approvalGateQueue[0] : undefined;
+  if (!active) {
+    return nothing;
+  }
+  const remainingMs = active.expiresAtMs - Date.now();
+  const remaining = remainingMs > 0 ? `expires in ${formatRemaining(remainingMs)}` : "expired";
+  const queueCount = state.approvalGateQueue.length;
+  return html`
+    <div class="exec-approval-overlay" role="dialog" aria-live="polite">
+      <div class="exec-approval-card">
+        <div class="exec-approval-header">
+          <div>
+            <div class="exec-approval-title">Approval required</div>
+            <div class="exec-approval-sub">${active.actionType} · ${remaining}</div>
+          </div>
+          ${
+            queueCount > 1
+              ? html`<div class="exec-approval-queue">${queueCount} pending</div>`
+              : nothing
+          }
+        </div>
+        <div class="exec-approval-command mono">${active.description}</div>
+        <div class="exec-approval-meta">
+          <div class="exec-approval-meta-row"><span>ID</span><span>${active.id}</span></div>
+          ${
+            active.sessionKey
+              ? html`<div class="exec-approval-meta-row">
+                  <span>Session</span><span>${active.sessionKey}</span>
+                </div>`
+              : nothing
+          }
+        </div>
+        ${
+          state.approvalGateError
+            ? html`<div class="exec-approval-error">${state.approvalGateError}</div>`
+            : nothing
+        }
+        <div class="exec-approval-actions">
+          <button
+            class="btn primary"
+            ?disabled=${state.approvalGateBusy}
+            @click=${() => state.handleApprovalGateDecision("approved")}
+          >
+            Approve
+          </button>
+          <button
+            class="btn danger"
+            ?disabled=${state.approvalGateBusy}
+            @click=${() => state.handleApprovalGateDecision("rejected")}
+          >
+            Deny
+          </button>
+        </div>
+      </div>
+    </div>
+  `;
+}